@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, Suspense, useMemo } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -12,6 +12,11 @@ import { ChevronLeft, ChevronRight, Check, Calendar as CalendarIcon, Clock, Vide
 import { createBrowserClient } from "@/lib/supabase/client";
 import dayjs from "dayjs";
 import { DietitianProfile } from "@/types";
+import { TimezoneSelect } from "@/components/booking/timezone-select";
+import { useBookerTimezone } from "@/hooks/useBookerTimezone";
+import { OutOfOfficeBanner } from "@/components/booking/out-of-office-banner";
+import type { OutOfOfficeNotice } from "@/lib/availability/out-of-office";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
 // Default event types (same as book-a-call)
 const defaultEventTypes = [
@@ -57,6 +62,10 @@ function PublicProfileContent() {
   const params = useParams();
   const router = useRouter();
   const slug = params.slug as string;
+  const searchParams = useSearchParams();
+  // Set when a colleague's out-of-office notice sent the client here
+  const referredBy = searchParams.get("referredBy");
+  const requestedEventTypeSlug = searchParams.get("eventType");
   
   // Supabase client
   const supabase = useMemo(() => createBrowserClient(), []);
@@ -68,6 +77,7 @@ function PublicProfileContent() {
   
   // Google OAuth state
   const [googleConnected, setGoogleConnected] = useState(false);
+  const { timezone, setTimezone } = useBookerTimezone(googleConnected);
   const [connecting, setConnecting] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   
@@ -99,6 +109,7 @@ function PublicProfileContent() {
   const [timeSlots, setTimeSlots] = useState<string[]>([]);
   const [loadingDates, setLoadingDates] = useState(false);
   const [loadingTimeSlots, setLoadingTimeSlots] = useState(false);
+  const [outOfOffice, setOutOfOffice] = useState<OutOfOfficeNotice[]>([]);
   
   // Payment state
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
@@ -164,9 +175,11 @@ function PublicProfileContent() {
               });
               
               if (matchedTypes.length > 0) {
+                // Forwarded clients keep the event type they were booking with the away colleague
+                const initialType = matchedTypes.find(type => type.slug === requestedEventTypeSlug) || matchedTypes[0];
                 setAvailableEventTypes(matchedTypes);
-                setSelectedEventTypeId(matchedTypes[0].id);
-                setEventTypePrice(matchedTypes[0].price);
+                setSelectedEventTypeId(initialType.id);
+                setEventTypePrice(initialType.price);
               } else {
                 console.error("No valid event types found for dietitian");
               }
@@ -182,7 +195,7 @@ function PublicProfileContent() {
     };
     
     fetchDietitian();
-  }, [slug]);
+  }, [slug, requestedEventTypeSlug]);
   
   // Check for existing session on mount
   useEffect(() => {
@@ -268,8 +281,9 @@ function PublicProfileContent() {
       const fetchAvailableDates = async () => {
         setLoadingDates(true);
         try {
-          const startDate = currentMonth.startOf("month").format("YYYY-MM-DD");
-          const endDate = currentMonth.endOf("month").format("YYYY-MM-DD");
+          // Pad a day either side: the booker's days don't line up with the schedule's
+          const startDate = currentMonth.startOf("month").subtract(1, "day").format("YYYY-MM-DD");
+          const endDate = currentMonth.endOf("month").add(1, "day").format("YYYY-MM-DD");
           const eventType = availableEventTypes.find(et => et.id === selectedEventTypeId);
           const duration = eventType?.length || 45;
           
@@ -281,10 +295,11 @@ function PublicProfileContent() {
             const data = await response.json();
             const dates = new Set(
               (data.slots || [])
-                .filter((slot: any) => dayjs(slot.start).isSame(currentMonth, "month"))
-                .map((slot: any) => dayjs(slot.start).format("D"))
+                .filter((slot: any) => dayjs(slot.start).tz(timezone).format("YYYY-MM") === currentMonth.format("YYYY-MM"))
+                .map((slot: any) => dayjs(slot.start).tz(timezone).format("D"))
             );
             setAvailableDates(Array.from(dates) as string[]);
+            setOutOfOffice(data.outOfOffice || []);
           }
         } catch (err) {
           console.error("Error fetching available dates:", err);
@@ -295,7 +310,7 @@ function PublicProfileContent() {
       
       fetchAvailableDates();
     }
-  }, [dietitian?.id, selectedEventTypeId, currentMonth, availableEventTypes]);
+  }, [dietitian?.id, selectedEventTypeId, currentMonth, availableEventTypes, timezone]);
   
   // Fetch time slots when date is selected
   useEffect(() => {
@@ -304,19 +319,20 @@ function PublicProfileContent() {
         setLoadingTimeSlots(true);
         try {
           const dateStr = dayjs(selectedDate).format("YYYY-MM-DD");
+          const prevDayStr = dayjs(selectedDate).subtract(1, "day").format("YYYY-MM-DD");
           const nextDayStr = dayjs(selectedDate).add(1, "day").format("YYYY-MM-DD");
           const eventType = availableEventTypes.find(et => et.id === selectedEventTypeId);
           const duration = eventType?.length || 45;
           
           const response = await fetch(
-            `/api/availability/timeslots?dietitianId=${dietitian.id}&startDate=${dateStr}&endDate=${nextDayStr}&duration=${duration}&eventTypeId=${selectedEventTypeId}`
+            `/api/availability/timeslots?dietitianId=${dietitian.id}&startDate=${prevDayStr}&endDate=${nextDayStr}&duration=${duration}&eventTypeId=${selectedEventTypeId}`
           );
           
           if (response.ok) {
             const data = await response.json();
             const slots = (data.slots || [])
-              .filter((slot: any) => dayjs(slot.start).isSame(dayjs(selectedDate), "day"))
-              .map((slot: any) => dayjs(slot.start).format("HH:mm"));
+              .filter((slot: any) => dayjs(slot.start).tz(timezone).format("YYYY-MM-DD") === dateStr)
+              .map((slot: any) => dayjs(slot.start).tz(timezone).format("HH:mm"));
             setTimeSlots(slots);
           }
         } catch (err) {
@@ -328,7 +344,7 @@ function PublicProfileContent() {
       
       fetchTimeSlots();
     }
-  }, [dietitian?.id, selectedDate, selectedEventTypeId, availableEventTypes]);
+  }, [dietitian?.id, selectedDate, selectedEventTypeId, availableEventTypes, timezone]);
   
   // Validation
   const validateStep2 = (): Record<string, string> => {
@@ -386,7 +402,19 @@ function PublicProfileContent() {
     setSelectedDate(date);
     setSelectedTime("");
   };
-  
+
+  // Send the client to the covering colleague's page, keeping the event type and the referral
+  const handleBookColleague = (notice: OutOfOfficeNotice) => {
+    if (!notice.forwardUrl || !dietitian) return;
+    const eventType = availableEventTypes.find(et => et.id === selectedEventTypeId);
+    const colleaguePath = new URL(notice.forwardUrl, window.location.origin).pathname;
+    const query = new URLSearchParams({ referredBy: dietitian.id });
+    if (eventType?.slug) {
+      query.set("eventType", eventType.slug);
+    }
+    router.push(`${colleaguePath}?${query.toString()}`);
+  };
+
   const isDateAvailable = (day: number) => availableDates.includes(String(day));
   const isDateSelected = (day: number) => selectedDate && dayjs(selectedDate).isSame(currentMonth.date(day), "day");
   const isToday = (day: number) => dayjs().isSame(currentMonth.date(day), "day");
@@ -449,11 +477,14 @@ function PublicProfileContent() {
         return;
       }
       
+      // The selected time is in the booker's timezone
+      const startTime = dayjs.tz(`${dayjs(selectedDate).format("YYYY-MM-DD")} ${selectedTime}`, timezone).toISOString();
+
       console.log("Creating booking with:", {
         dietitianId: dietitian.id,
         eventTypeId: eventTypeUuid,
         eventTypeSlug: eventType.slug,
-        startTime: new Date(`${dayjs(selectedDate).format("YYYY-MM-DD")}T${selectedTime}`).toISOString(),
+        startTime,
         email: finalEmail,
         name: finalName,
       });
@@ -466,7 +497,7 @@ function PublicProfileContent() {
         body: JSON.stringify({
           dietitianId: dietitian.id,
           eventTypeId: eventTypeUuid,
-          startTime: new Date(`${dayjs(selectedDate).format("YYYY-MM-DD")}T${selectedTime}`).toISOString(),
+          startTime,
           name: finalName,
           email: finalEmail,
           notes: formData.complaint,
@@ -475,6 +506,7 @@ function PublicProfileContent() {
           userMedicalCondition: formData.medicalCondition || null,
           userMonthlyFoodBudget: formData.monthlyFoodBudget ? parseFloat(formData.monthlyFoodBudget) : null,
           userComplaint: formData.complaint || null,
+          referredByDietitianId: referredBy || undefined,
         }),
       });
       
@@ -685,7 +717,7 @@ function PublicProfileContent() {
                             </div>
                           </div>
                           <div className="text-sm font-semibold text-white ml-4">
-                            ₦{eventType.price.toLocaleString()}
+                            {formatMoney(eventType.price, eventType.currency)}
                           </div>
                         </div>
                       </button>
@@ -706,7 +738,7 @@ function PublicProfileContent() {
                 </div>
                 <div className="flex items-center gap-2">
                   <Globe className="h-4 w-4" />
-                  <span>Africa/Lagos</span>
+                  <span>{timezone.replace(/_/g, " ")}</span>
                 </div>
               </div>
               
@@ -922,6 +954,16 @@ function PublicProfileContent() {
             <div className="max-w-md mx-auto">
               <h2 className="text-lg font-semibold text-white mb-6 text-center">Select a Date</h2>
               
+              {dietitian && (
+                <OutOfOfficeBanner
+                  notices={outOfOffice}
+                  practitionerName={dietitian.name}
+                  month={currentMonth}
+                  onBookColleague={handleBookColleague}
+                  className="mb-6"
+                />
+              )}
+              
               {/* Calendar Header */}
               <div className="flex items-center justify-between mb-4">
                 <button onClick={handlePreviousMonth} className="text-[#9ca3af] hover:text-white">
@@ -1004,10 +1046,18 @@ function PublicProfileContent() {
             <div className="max-w-md mx-auto">
               <h2 className="text-lg font-semibold text-white mb-2">Select Time</h2>
               {selectedDate && (
-                <p className="text-sm text-[#9ca3af] mb-6">
+                <p className="text-sm text-[#9ca3af] mb-4">
                   {dayjs(selectedDate).format("dddd, MMMM D, YYYY")}
                 </p>
               )}
+              <TimezoneSelect
+                value={timezone}
+                onChange={(tz) => {
+                  setTimezone(tz);
+                  setSelectedTime("");
+                }}
+                className="mb-6"
+              />
               
               {/* Time Slots */}
               <div className="space-y-2 max-h-[400px] overflow-y-auto mb-6">
@@ -1102,7 +1152,12 @@ function PublicProfileContent() {
                 <div className="border-t border-[#262626] pt-3 mt-3">
                   <div className="flex justify-between">
                     <span className="text-sm font-medium text-white">Total</span>
-                    <span className="text-lg font-semibold text-white">₦{eventTypePrice.toLocaleString()}</span>
+                    <span className="text-lg font-semibold text-white">
+                      {formatMoney(
+                        eventTypePrice,
+                        availableEventTypes.find(et => et.id === selectedEventTypeId)?.currency || BASE_CURRENCY
+                      )}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,26 @@
+import Link from "next/link";
+
+export default function AccountSuspendedPage() {
+  return (
+    <div className="min-h-screen bg-[#0b0b0b] text-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-xl space-y-4">
+        <h1 className="text-2xl font-semibold">Account suspended</h1>
+        <p className="text-white/60">
+          Your account has been suspended and your profile is hidden from clients. We&apos;ve emailed you the reason.
+        </p>
+        <p className="text-white/60">
+          Questions? Contact us at{" "}
+          <a href="mailto:support@daiyet.com" className="underline text-white">
+            support@daiyet.com
+          </a>
+          .
+        </p>
+        <p className="text-sm">
+          <Link href="/verification-pending" className="underline text-white/80">
+            See your account status
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
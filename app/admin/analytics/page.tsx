@@ -1,13 +1,121 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { AnalyticsInterval, PlatformAnalytics } from "@/lib/admin/analytics";
+import type { AdminUser } from "@/lib/admin/users";
+import type { Paginated } from "@/lib/utils/pagination";
+import { formatMoney } from "@/lib/utils/money";
+
+const ranges = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "12 months" },
+];
 
-const kpis = [
-  { label: "Weekly bookings", value: "820" },
-  { label: "Active users", value: "6,140" },
-  { label: "Dietitian utilization", value: "78%" },
-  { label: "No-show rate", value: "4.1%" },
+const intervals: { value: AnalyticsInterval | ""; label: string }[] = [
+  { value: "", label: "Auto" },
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
 ];
 
+const CANCELLED_BY_LABELS: Record<string, string> = {
+  USER: "Clients",
+  DIETITIAN: "Dietitians",
+  THERAPIST: "Therapists",
+  ADMIN: "Admins",
+};
+
+const selectClassName = "rounded-md border border-[#1f1f1f] bg-[#0b0b0b] px-2 py-1.5 text-sm text-white";
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+const formatHours = (hours: number | null) =>
+  hours === null ? "—" : hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)} days`;
+
 export default function AdminAnalyticsPage() {
+  const [analytics, setAnalytics] = useState<PlatformAnalytics | null>(null);
+  const [practitioners, setPractitioners] = useState<AdminUser[]>([]);
+  const [from, setFrom] = useState(() => dayjs().subtract(29, "day").format("YYYY-MM-DD"));
+  const [to, setTo] = useState(() => dayjs().format("YYYY-MM-DD"));
+  const [dietitianId, setDietitianId] = useState("");
+  const [groupBy, setGroupBy] = useState<AnalyticsInterval | "">("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        from: dayjs(from).startOf("day").toISOString(),
+        // Through the end of the last day
+        to: dayjs(to).add(1, "day").startOf("day").toISOString(),
+      });
+      if (dietitianId) params.set("dietitianId", dietitianId);
+      if (groupBy) params.set("interval", groupBy);
+
+      const response = await fetch(`/api/admin/analytics?${params}`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load analytics");
+      }
+      setAnalytics(data.analytics);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load analytics:", err);
+      setError(err instanceof Error ? err.message : "Failed to load analytics");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, dietitianId, groupBy]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  useEffect(() => {
+    Promise.all(
+      ["DIETITIAN", "THERAPIST"].map((role) =>
+        fetch(`/api/admin/users?role=${role}&pageSize=100`, { credentials: "include" }).then((response) =>
+          response.json().catch(() => ({}))
+        )
+      )
+    )
+      .then((results: Partial<Paginated<AdminUser>>[]) =>
+        setPractitioners(
+          results
+            .flatMap((data) => data.items || [])
+            .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email))
+        )
+      )
+      .catch((err) => console.error("Failed to load practitioners:", err));
+  }, []);
+
+  const selectRange = (days: number) => {
+    setFrom(dayjs().subtract(days - 1, "day").format("YYYY-MM-DD"));
+    setTo(dayjs().format("YYYY-MM-DD"));
+  };
+
+  const currency = analytics?.currency;
+  const formatRevenue = (amount: number) => formatMoney(amount, currency, { decimals: 0 });
+  const maxBookings = Math.max(1, ...(analytics?.timeline || []).map((p) => p.bookings));
+  const maxRevenue = Math.max(1, ...(analytics?.timeline || []).map((p) => p.revenue));
+  const periodFormat = analytics?.interval === "month" ? "MMM YYYY" : "MMM D";
+
+  const kpis = analytics
+    ? [
+        { label: "Bookings", value: analytics.totals.bookings.toLocaleString("en-US") },
+        { label: "Revenue", value: formatRevenue(analytics.totals.revenue) },
+        { label: "Practitioner utilisation", value: formatPercent(analytics.utilisation.utilisation) },
+        { label: "No-show rate", value: formatPercent(analytics.noShowRate) },
+        { label: "Cancellation rate", value: formatPercent(analytics.cancellationRate) },
+        { label: "Request conversion", value: formatPercent(analytics.conversion.rate) },
+      ]
+    : [];
+
   return (
     <div className="space-y-6">
       <div>
@@ -17,25 +125,241 @@ export default function AdminAnalyticsPage() {
         </p>
       </div>
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
-        {kpis.map((kpi) => (
-          <Card
-            key={kpi.label}
-            className="bg-[#FFF4E0] border-[#f1e2c0] text-black shadow-sm"
-          >
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm text-black/70">
-                {kpi.label}
-              </CardTitle>
+      <div className="flex flex-wrap items-center gap-2">
+        {ranges.map((range) => {
+          const active =
+            to === dayjs().format("YYYY-MM-DD") &&
+            from === dayjs().subtract(range.days - 1, "day").format("YYYY-MM-DD");
+          return (
+            <Button
+              key={range.days}
+              size="sm"
+              variant={active ? "secondary" : "outline"}
+              className={active ? "bg-white text-black hover:bg-white" : "border-white/20 text-white hover:bg-white/10"}
+              onClick={() => selectRange(range.days)}
+            >
+              {range.label}
+            </Button>
+          );
+        })}
+        <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={selectClassName} />
+        <span className="text-sm text-white/60">to</span>
+        <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={selectClassName} />
+        <select value={dietitianId} onChange={(e) => setDietitianId(e.target.value)} className={selectClassName}>
+          <option value="">All practitioners</option>
+          {practitioners.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name || p.email}
+            </option>
+          ))}
+        </select>
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as AnalyticsInterval | "")}
+          className={selectClassName}
+        >
+          {intervals.map((option) => (
+            <option key={option.value || "auto"} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
+      {loading && !analytics ? (
+        <div className="text-sm text-white/60">Loading...</div>
+      ) : analytics ? (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+            {kpis.map((kpi) => (
+              <Card
+                key={kpi.label}
+                className="bg-[#FFF4E0] border-[#f1e2c0] text-black shadow-sm"
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-black/70">
+                    {kpi.label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <div className="text-2xl font-semibold text-black">
+                    {kpi.value}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {analytics.unconvertedCurrencies.length > 0 && (
+            <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              Revenue leaves out payments in {analytics.unconvertedCurrencies.join(", ")}, which have no exchange rate
+              yet.
+            </div>
+          )}
+
+          <Card className="bg-[#111] border-[#1f1f1f]">
+            <CardHeader>
+              <CardTitle className="text-white">Bookings and revenue over time</CardTitle>
             </CardHeader>
-            <CardContent className="pt-0">
-              <div className="text-2xl font-semibold text-black">
-                {kpi.value}
+            <CardContent className="space-y-2 text-sm">
+              <div className="grid grid-cols-[6rem_1fr_1fr] gap-3 text-xs text-white/50">
+                <span>Period</span>
+                <span>Bookings (cancelled)</span>
+                <span>Revenue</span>
               </div>
+              {analytics.timeline.map((p) => (
+                <div key={p.period} className="grid grid-cols-[6rem_1fr_1fr] items-center gap-3 text-white/80">
+                  <span className="text-white/60">{dayjs(p.period).format(periodFormat)}</span>
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 rounded bg-emerald-400/70" style={{ width: `${(p.bookings / maxBookings) * 80}%` }} />
+                    <span className="whitespace-nowrap">
+                      {p.bookings}
+                      {p.cancelled > 0 ? ` (${p.cancelled})` : ""}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 rounded bg-blue-400/70" style={{ width: `${(p.revenue / maxRevenue) * 60}%` }} />
+                    <span className="whitespace-nowrap">{formatRevenue(p.revenue)}</span>
+                  </div>
+                </div>
+              ))}
             </CardContent>
           </Card>
-        ))}
-      </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card className="bg-[#111] border-[#1f1f1f]">
+              <CardHeader>
+                <CardTitle className="text-white">Sessions</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3 text-sm text-white">
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Held</div>
+                  <div className="text-xl font-semibold">{analytics.totals.held}</div>
+                  <div className="text-white/50 text-xs">{analytics.totals.noShows} no-shows</div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Cancelled</div>
+                  <div className="text-xl font-semibold">{analytics.totals.cancelled}</div>
+                  <div className="text-white/50 text-xs">
+                    {Object.entries(analytics.cancelledBy)
+                      .map(([role, count]) => `${CANCELLED_BY_LABELS[role] || role}: ${count}`)
+                      .join(" · ") || "None"}
+                  </div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Refunded</div>
+                  <div className="text-xl font-semibold">{formatRevenue(analytics.totals.refunded)}</div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Booked / available</div>
+                  <div className="text-xl font-semibold">
+                    {Math.round(analytics.utilisation.bookedMinutes / 60)}h /{" "}
+                    {Math.round(analytics.utilisation.availableMinutes / 60)}h
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-[#111] border-[#1f1f1f]">
+              <CardHeader>
+                <CardTitle className="text-white">Requests and meal plans</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3 text-sm text-white">
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Consultation requests booked</div>
+                  <div className="text-xl font-semibold">
+                    {analytics.conversion.byType.CONSULTATION.converted} / {analytics.conversion.byType.CONSULTATION.requests}
+                  </div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Meal plan requests paid</div>
+                  <div className="text-xl font-semibold">
+                    {analytics.conversion.byType.MEAL_PLAN.converted} / {analytics.conversion.byType.MEAL_PLAN.requests}
+                  </div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Meal plan turnaround</div>
+                  <div className="text-xl font-semibold">{formatHours(analytics.mealPlanTurnaround.medianHours)}</div>
+                  <div className="text-white/50 text-xs">
+                    Median of {analytics.mealPlanTurnaround.sent} sent · average{" "}
+                    {formatHours(analytics.mealPlanTurnaround.averageHours)}
+                  </div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
+                  <div className="text-white/60">Paid plans not sent yet</div>
+                  <div className="text-xl font-semibold">{analytics.mealPlanTurnaround.awaiting}</div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-[#111] border-[#1f1f1f]">
+            <CardHeader>
+              <CardTitle className="text-white">Practitioner utilisation</CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y divide-[#1f1f1f] text-sm text-white/80">
+              {analytics.utilisation.practitioners.length === 0 ? (
+                <div className="py-3 text-white/60">No practitioners.</div>
+              ) : (
+                analytics.utilisation.practitioners.map((p) => (
+                  <div key={p.practitionerId} className="py-2 flex items-center justify-between gap-3">
+                    <span className="text-white">{p.name || "Unnamed"}</span>
+                    <span className="text-white/60">
+                      {Math.round(p.bookedMinutes / 60)}h of {Math.round(p.availableMinutes / 60)}h ·{" "}
+                      <span className="text-white">{formatPercent(p.utilisation)}</span>
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-[#111] border-[#1f1f1f]">
+            <CardHeader>
+              <CardTitle className="text-white">Client retention</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto text-sm">
+              {analytics.retention.length === 0 ? (
+                <div className="text-white/60">No new clients in this range.</div>
+              ) : (
+                <table className="w-full text-left text-white/80">
+                  <thead className="text-xs text-white/50">
+                    <tr>
+                      <th className="py-2 pr-4 font-normal">First session</th>
+                      <th className="py-2 pr-4 font-normal">Clients</th>
+                      {Array.from(
+                        { length: Math.max(...analytics.retention.map((c) => c.retained.length)) - 1 },
+                        (_, i) => (
+                          <th key={i} className="py-2 pr-4 font-normal">
+                            Month {i + 1}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#1f1f1f]">
+                    {analytics.retention.map((cohort) => (
+                      <tr key={cohort.cohort}>
+                        <td className="py-2 pr-4 text-white">{dayjs(`${cohort.cohort}-01`).format("MMM YYYY")}</td>
+                        <td className="py-2 pr-4">{cohort.clients}</td>
+                        {cohort.retained.slice(1).map((count, i) => (
+                          <td key={i} className="py-2 pr-4">
+                            {formatPercent(count / cohort.clients)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
     </div>
   );
 }
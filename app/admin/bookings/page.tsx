@@ -1,165 +1,352 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pager } from "@/components/admin/Pager";
+import type { AdminBooking } from "@/lib/admin/bookings";
+import type { AdminUser } from "@/lib/admin/users";
+import type { Paginated } from "@/lib/utils/pagination";
 
-const seedBookings = [
-  { id: "b1", title: "Follow-up consult", patient: "Amaka Bello", dietitian: "Dt. Sarah Ogun", when: "Tomorrow, 2:00 PM", status: "upcoming", type: "session" },
-  { id: "b2", title: "Initial consult", patient: "Tom Ade", dietitian: "Dt. Kemi Musa", when: "Today, 11:00 AM", status: "unconfirmed", type: "session" },
-  { id: "b3", title: "Meal plan review", patient: "Lisa John", dietitian: "Dt. Tayo Bisi", when: "Mon, 9:30 AM", status: "completed", type: "session" },
-  { id: "m1", title: "Meal plan - Starter", patient: "Sam Ade", dietitian: "Dt. Sarah Ogun", when: "Pending delivery", status: "pending", type: "meal" },
-  { id: "m2", title: "Meal plan - Premium", patient: "Kate Obi", dietitian: "Dt. Kemi Musa", when: "Paid, preparing", status: "paid", type: "meal" },
-  { id: "m3", title: "Meal plan - Standard", patient: "Ife Tolu", dietitian: "Dt. Tayo Bisi", when: "Sent", status: "sent", type: "meal" },
+const statusTabs = [
+  { id: "", label: "All" },
+  { id: "PENDING", label: "Unconfirmed" },
+  { id: "CONFIRMED", label: "Upcoming" },
+  { id: "COMPLETED", label: "Completed" },
+  { id: "CANCELLED", label: "Cancelled" },
 ];
 
-const statusColor = {
-  upcoming: "bg-emerald-500/20 text-emerald-200",
-  unconfirmed: "bg-amber-500/20 text-amber-200",
-  completed: "bg-blue-500/20 text-blue-200",
-  pending: "bg-amber-500/20 text-amber-200",
-  paid: "bg-blue-500/20 text-blue-200",
-  sent: "bg-emerald-500/20 text-emerald-200",
+const statusColor: Record<string, string> = {
+  CONFIRMED: "bg-emerald-500/20 text-emerald-200",
+  PENDING: "bg-amber-500/20 text-amber-200",
+  COMPLETED: "bg-blue-500/20 text-blue-200",
+  CANCELLED: "bg-red-500/20 text-red-200",
 };
 
-const mealTabs = [
-  { id: "all", label: "All" },
-  { id: "pending", label: "Pending" },
-  { id: "paid", label: "Paid" },
-  { id: "sent", label: "Sent" },
-];
+const selectClassName = "rounded-md border border-[#1f1f1f] bg-[#0b0b0b] px-2 py-1.5 text-sm text-white";
 
 export default function AdminBookingsPage() {
-  const [bookings, setBookings] = useState(seedBookings);
-  const [mealFilter, setMealFilter] = useState<"all" | "pending" | "paid" | "sent">("all");
+  const [result, setResult] = useState<Paginated<AdminBooking> | null>(null);
+  const [practitioners, setPractitioners] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("");
+  const [dietitianId, setDietitianId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reassigning, setReassigning] = useState<Record<string, string>>({});
+
+  const loadBookings = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search.trim()) params.set("search", search.trim());
+      if (status) params.set("status", status);
+      if (dietitianId) params.set("dietitianId", dietitianId);
+      if (from) params.set("from", dayjs(from).startOf("day").toISOString());
+      if (to) params.set("to", dayjs(to).endOf("day").toISOString());
+
+      const response = await fetch(`/api/admin/bookings?${params}`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load bookings");
+      }
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load bookings:", err);
+      setError(err instanceof Error ? err.message : "Failed to load bookings");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, status, dietitianId, from, to]);
+
+  useEffect(() => {
+    // Wait for the admin to stop typing before searching
+    const timeout = setTimeout(loadBookings, 300);
+    return () => clearTimeout(timeout);
+  }, [loadBookings]);
+
+  // Active practitioners, for the practitioner filter and reassigning
+  useEffect(() => {
+    const loadPractitioners = async () => {
+      try {
+        const responses = await Promise.all(
+          ["DIETITIAN", "THERAPIST"].map((role) =>
+            fetch(`/api/admin/users?role=${role}&status=ACTIVE&pageSize=100`, { credentials: "include" })
+          )
+        );
+        const results = await Promise.all(responses.map((response) => response.json().catch(() => ({}))));
+        setPractitioners(
+          results
+            .flatMap((data: Partial<Paginated<AdminUser>>) => data.items || [])
+            .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email))
+        );
+      } catch (err) {
+        console.error("Failed to load practitioners:", err);
+      }
+    };
+    loadPractitioners();
+  }, []);
 
-  const handleDelete = (id: string) => {
-    setBookings((prev) => prev.filter((b) => b.id !== id));
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
   };
 
-  const mealPlans = useMemo(
-    () => bookings.filter((b) => b.type === "meal"),
-    [bookings]
-  );
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      await loadBookings();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
 
-  const filteredMeals = useMemo(() => {
-    if (mealFilter === "all") return mealPlans;
-    return mealPlans.filter((m) => m.status === mealFilter);
-  }, [mealPlans, mealFilter]);
+  const handleCancel = (booking: AdminBooking) => {
+    const reason = window.prompt(
+      `Cancel "${booking.title}" for ${booking.client?.name || "the client"}? They get a full refund.\n\nReason (shared with both people):`
+    );
+    if (reason === null) return;
+    runAction(booking.id, () =>
+      fetch(`/api/admin/bookings/${booking.id}/cancel`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      })
+    );
+  };
 
-  const sessions = useMemo(
-    () => bookings.filter((b) => b.type === "session"),
-    [bookings]
-  );
+  const handleReassign = async (booking: AdminBooking) => {
+    const target = reassigning[booking.id];
+    if (!target) return;
+    const done = await runAction(booking.id, () =>
+      fetch(`/api/admin/bookings/${booking.id}/reassign`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dietitianId: target }),
+      })
+    );
+    if (done) {
+      setReassigning((prev) => {
+        const next = { ...prev };
+        delete next[booking.id];
+        return next;
+      });
+    }
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
         <div>
           <h1 className="text-2xl font-semibold text-white">Bookings</h1>
-          <p className="text-white/60">Monitor sessions and meal plans.</p>
+          <p className="text-white/60">
+            Monitor sessions, cancel them or move them to another practitioner. Meal plans are under{" "}
+            <Link href="/admin/meal-plans" className="underline hover:text-white">
+              Meal plans
+            </Link>
+            .
+          </p>
         </div>
       </div>
 
-      {/* Sessions */}
-      <Card className="bg-[#111] border-[#1f1f1f]">
-        <CardHeader>
-          <CardTitle className="text-white">Sessions</CardTitle>
-        </CardHeader>
-        <CardContent className="divide-y divide-[#1f1f1f]">
-          {sessions.length === 0 ? (
-            <div className="py-4 text-sm text-white/60">No sessions.</div>
-          ) : (
-            sessions.map((b) => (
-              <div
-                key={b.id}
-                className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
-              >
-                <div className="space-y-1">
-                  <div className="font-medium text-white">{b.title}</div>
-                  <div className="text-white/60">
-                    {b.patient} with {b.dietitian}
-                  </div>
-                  <div className="text-white/50">{b.when}</div>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      statusColor[b.status as keyof typeof statusColor]
-                    }`}
-                  >
-                    {b.status}
-                  </span>
-                  <Button
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleDelete(b.id)}
-                  >
-                    Delete
-                  </Button>
-                </div>
-              </div>
-            ))
-          )}
-        </CardContent>
-      </Card>
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
 
-      {/* Meal plans */}
       <Card className="bg-[#111] border-[#1f1f1f]">
-        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-          <CardTitle className="text-white">Meal plans</CardTitle>
-          <div className="flex items-center gap-2 flex-wrap">
-            {mealTabs.map((tab) => (
-              <Button
-                key={tab.id}
-                size="sm"
-                variant={mealFilter === tab.id ? "secondary" : "outline"}
-                className={
-                  mealFilter === tab.id
-                    ? "bg-white text-black hover:bg-white"
-                    : "border-white/20 text-white hover:bg-white/10"
-                }
-                onClick={() => setMealFilter(tab.id as typeof mealFilter)}
-              >
-                {tab.label}
-              </Button>
-            ))}
+        <CardHeader className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle className="text-white">Sessions</CardTitle>
+            <div className="flex items-center gap-2 flex-wrap">
+              {statusTabs.map((tab) => (
+                <Button
+                  key={tab.id || "all"}
+                  size="sm"
+                  variant={status === tab.id ? "secondary" : "outline"}
+                  className={
+                    status === tab.id
+                      ? "bg-white text-black hover:bg-white"
+                      : "border-white/20 text-white hover:bg-white/10"
+                  }
+                  onClick={() => updateFilter(setStatus)(tab.id)}
+                >
+                  {tab.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              placeholder="Search title, client or practitioner"
+              className="bg-[#0b0b0b] border-[#1f1f1f] text-white w-full sm:w-72"
+            />
+            <select
+              value={dietitianId}
+              onChange={(e) => updateFilter(setDietitianId)(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All practitioners</option>
+              {practitioners.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name || p.email}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                className={selectClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              to
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+                className={selectClassName}
+              />
+            </label>
           </div>
         </CardHeader>
-        <CardContent className="divide-y divide-[#1f1f1f]">
-          {filteredMeals.length === 0 ? (
-            <div className="py-4 text-sm text-white/60">No meal plans in this filter.</div>
-          ) : (
-            filteredMeals.map((m) => (
-              <div
-                key={m.id}
-                className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
-              >
-                <div className="space-y-1">
-                  <div className="font-medium text-white">{m.title}</div>
-                  <div className="text-white/60">
-                    {m.patient} with {m.dietitian}
+        <CardContent>
+          <div className="divide-y divide-[#1f1f1f]">
+            {loading ? (
+              <div className="py-4 text-sm text-white/60">Loading...</div>
+            ) : !result || result.items.length === 0 ? (
+              <div className="py-4 text-sm text-white/60">No sessions match these filters.</div>
+            ) : (
+              result.items.map((b) => {
+                const open = b.status === "PENDING" || b.status === "CONFIRMED";
+                const upcoming = open && dayjs(b.startTime).isAfter(dayjs());
+                return (
+                  <div key={b.id} className="py-3 space-y-3 text-sm text-white/80">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                      <div className="space-y-1">
+                        <div className="font-medium text-white">
+                          {b.title}
+                          {b.groupSession ? " · Group session" : ""}
+                        </div>
+                        <div className="text-white/60">
+                          {b.client?.name || b.client?.email || "Unknown client"} with{" "}
+                          {b.practitioner?.name || b.practitioner?.email || "Unknown practitioner"}
+                        </div>
+                        <div className="text-white/50">
+                          {dayjs(b.startTime).format("ddd, MMM D, YYYY h:mm A")}
+                          {b.cancellationReason ? ` · ${b.cancellationReason}` : ""}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 flex-wrap">
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${
+                            statusColor[b.status] || "bg-white/10 text-white/70"
+                          }`}
+                        >
+                          {b.status.toLowerCase()}
+                        </span>
+                        {upcoming && !b.groupSession && reassigning[b.id] === undefined && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            disabled={busyId === b.id}
+                            onClick={() => setReassigning((prev) => ({ ...prev, [b.id]: "" }))}
+                          >
+                            Reassign
+                          </Button>
+                        )}
+                        {open && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-red-500/40 text-red-200 hover:bg-red-500/10"
+                            disabled={busyId === b.id}
+                            onClick={() => handleCancel(b)}
+                          >
+                            Force cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {reassigning[b.id] !== undefined && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={reassigning[b.id]}
+                          onChange={(e) => setReassigning((prev) => ({ ...prev, [b.id]: e.target.value }))}
+                          className={selectClassName}
+                        >
+                          <option value="">Choose a practitioner</option>
+                          {practitioners
+                            .filter((p) => p.id !== b.practitioner?.id)
+                            .map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.name || p.email} ({p.role === "THERAPIST" ? "Therapist" : "Dietitian"})
+                              </option>
+                            ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          className="bg-white text-black hover:bg-white/90"
+                          disabled={busyId === b.id || !reassigning[b.id]}
+                          onClick={() => handleReassign(b)}
+                        >
+                          {busyId === b.id ? "Reassigning..." : "Move booking"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-white/20 text-white hover:bg-white/10"
+                          disabled={busyId === b.id}
+                          onClick={() =>
+                            setReassigning((prev) => {
+                              const next = { ...prev };
+                              delete next[b.id];
+                              return next;
+                            })
+                          }
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  <div className="text-white/50">{m.when}</div>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      statusColor[m.status as keyof typeof statusColor]
-                    }`}
-                  >
-                    {m.status}
-                  </span>
-                  <Button
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleDelete(m.id)}
-                  >
-                    Delete
-                  </Button>
-                </div>
-              </div>
-            ))
+                );
+              })
+            )}
+          </div>
+          {result && (
+            <Pager
+              page={result.page}
+              totalPages={result.totalPages}
+              total={result.total}
+              disabled={loading}
+              onPageChange={setPage}
+            />
           )}
         </CardContent>
       </Card>
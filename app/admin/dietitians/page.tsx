@@ -1,90 +1,286 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { PractitionerVerification, VerificationAction } from "@/lib/practitioners/verification";
 
-const seedDietitians = [
-  { id: "d1", name: "Dt. Sarah Ogun", specialty: "Sports nutrition", status: "verified" },
-  { id: "d2", name: "Dt. Kemi Musa", specialty: "Weight management", status: "pending" },
-  { id: "d3", name: "Dt. Tayo Bisi", specialty: "Pediatrics", status: "verified" },
+const FILTERS = [
+  { value: "PENDING", label: "Awaiting review" },
+  { value: "MORE_INFO_REQUESTED", label: "More info requested" },
+  { value: "APPROVED", label: "Approved" },
+  { value: "REJECTED", label: "Rejected" },
+  { value: "SUSPENDED", label: "Suspended" },
+  { value: "", label: "All" },
 ];
 
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "awaiting review",
+  MORE_INFO_REQUESTED: "more info requested",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  SUBMITTED: "Enrolled",
+  DOCUMENTS_ADDED: "Sent more documents",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+  MORE_INFO_REQUESTED: "Asked for more information",
+  SUSPENDED: "Suspended",
+  REINSTATED: "Reinstated",
+};
+
+// Actions an admin can take on a practitioner, given where their review is
+function getActions(practitioner: PractitionerVerification): { action: VerificationAction; label: string }[] {
+  const inReview = practitioner.status === "PENDING" || practitioner.status === "MORE_INFO_REQUESTED";
+  if (inReview) {
+    return [
+      { action: "approve", label: "Approve" },
+      { action: "request_info", label: "Request more info" },
+      { action: "reject", label: "Reject" },
+    ];
+  }
+  if (practitioner.status === "REJECTED") {
+    return [{ action: "approve", label: "Approve" }];
+  }
+  if (practitioner.accountStatus === "SUSPENDED") {
+    return [{ action: "reinstate", label: "Reinstate" }];
+  }
+  if (practitioner.accountStatus === "ACTIVE") {
+    return [{ action: "suspend", label: "Suspend" }];
+  }
+  return [];
+}
+
 export default function AdminDietitiansPage() {
-  const [dietitians, setDietitians] = useState(seedDietitians);
+  const [practitioners, setPractitioners] = useState<PractitionerVerification[]>([]);
+  const [filter, setFilter] = useState("PENDING");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
 
-  const handleDelete = (id: string) => {
-    setDietitians((prev) => prev.filter((d) => d.id !== id));
-  };
+  const loadPractitioners = useCallback(async () => {
+    try {
+      const query = filter ? `?status=${filter}` : "";
+      const response = await fetch(`/api/admin/practitioners/verifications${query}`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load practitioners");
+      }
+      setPractitioners(data.practitioners || []);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load practitioners:", err);
+      setError(err instanceof Error ? err.message : "Failed to load practitioners");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    loadPractitioners();
+  }, [loadPractitioners]);
 
-  const handleSuspend = (id: string) => {
-    setDietitians((prev) =>
-      prev.map((d) => (d.id === id ? { ...d, status: "suspended" } : d))
-    );
+  const handleReview = async (practitioner: PractitionerVerification, action: VerificationAction) => {
+    setBusyId(practitioner.userId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/practitioners/${practitioner.userId}/verification`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, notes: notes[practitioner.userId] || "" }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      setNotes((prev) => ({ ...prev, [practitioner.userId]: "" }));
+      await loadPractitioners();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
   };
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-semibold text-white">Dietitians</h1>
-        <p className="text-white/60">Verify and manage providers.</p>
+        <p className="text-white/60">
+          Review credentials before practitioners can take bookings, and suspend or reinstate them.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map((option) => (
+          <Button
+            key={option.value || "all"}
+            size="sm"
+            variant="outline"
+            className={`border-white/20 text-white hover:bg-white/10 ${filter === option.value ? "bg-white/10" : ""}`}
+            onClick={() => {
+              setLoading(true);
+              setFilter(option.value);
+            }}
+          >
+            {option.label}
+          </Button>
+        ))}
       </div>
 
       <Card className="bg-[#111] border-[#1f1f1f]">
         <CardHeader>
-          <CardTitle className="text-white">Roster</CardTitle>
+          <CardTitle className="text-white">Practitioners</CardTitle>
         </CardHeader>
         <CardContent className="divide-y divide-[#1f1f1f]">
-          {dietitians.length === 0 ? (
-            <div className="py-4 text-sm text-white/60">No dietitians.</div>
+          {loading ? (
+            <div className="py-4 text-sm text-white/60">Loading...</div>
+          ) : practitioners.length === 0 ? (
+            <div className="py-4 text-sm text-white/60">No practitioners here.</div>
           ) : (
-            dietitians.map((d) => (
-              <div
-                key={d.id}
-                className="py-3 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 text-sm text-white/80 border-b border-[#1f1f1f] last:border-b-0"
-              >
-                <div>
-                  <div className="font-medium text-white">{d.name}</div>
-                  <div className="text-white/60">{d.specialty}</div>
-                </div>
-                <div className="flex items-center gap-3 flex-wrap">
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      d.status === "verified"
-                        ? "bg-emerald-500/20 text-emerald-200"
-                        : d.status === "suspended"
-                          ? "bg-red-500/20 text-red-200"
-                          : "bg-amber-500/20 text-amber-200"
-                    }`}
-                  >
-                    {d.status}
-                  </span>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                  >
-                    View enrollment
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleSuspend(d.id)}
-                  >
-                    Suspend
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleDelete(d.id)}
-                  >
-                    Delete
-                  </Button>
+            practitioners.map((p) => {
+              const expanded = expandedId === p.userId;
+              const actions = getActions(p);
+              return (
+                <div key={p.userId} className="py-3 space-y-3 text-sm text-white/80">
+                  <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+                    <div>
+                      <div className="font-medium text-white">{p.name || p.email}</div>
+                      <div className="text-white/60">
+                        {p.role === "THERAPIST" ? "Therapist" : "Dietitian"}
+                        {p.specialization ? ` · ${p.specialization}` : ""}
+                        {p.submittedAt ? ` · submitted ${dayjs(p.submittedAt).format("MMM D, YYYY h:mm A")}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 flex-wrap">
+                      {p.status && (
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${
+                            p.status === "APPROVED"
+                              ? "bg-emerald-500/20 text-emerald-200"
+                              : p.status === "REJECTED"
+                                ? "bg-red-500/20 text-red-200"
+                                : "bg-amber-500/20 text-amber-200"
+                          }`}
+                        >
+                          {STATUS_LABELS[p.status]}
+                        </span>
+                      )}
+                      {p.accountStatus === "SUSPENDED" && p.status !== "REJECTED" && (
+                        <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-500/20 text-red-200">
+                          suspended
+                        </span>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="border-white/20 text-white hover:bg-white/10"
+                        onClick={() => setExpandedId(expanded ? null : p.userId)}
+                      >
+                        {expanded ? "Hide enrollment" : "View enrollment"}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-4 space-y-4">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <div>
+                          <span className="text-white/60">Email:</span> {p.email}
+                        </div>
+                        <div>
+                          <span className="text-white/60">License number:</span> {p.licenseNumber || "—"}
+                        </div>
+                        <div>
+                          <span className="text-white/60">Experience:</span> {p.experience || "—"}
+                        </div>
+                        <div>
+                          <span className="text-white/60">Account:</span> {p.accountStatus.toLowerCase().replace(/_/g, " ")}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="text-white/60 mb-1">Documents</div>
+                        {p.documents.length === 0 ? (
+                          <div className="text-white/60">No documents uploaded.</div>
+                        ) : (
+                          <ul className="space-y-1">
+                            {p.documents.map((document) => (
+                              <li key={document.id}>
+                                {document.url ? (
+                                  <a href={document.url} target="_blank" rel="noreferrer" className="text-white underline">
+                                    {document.fileName}
+                                  </a>
+                                ) : (
+                                  document.fileName
+                                )}
+                                <span className="text-white/40">
+                                  {" "}
+                                  · {Math.ceil(document.sizeBytes / 1024)} KB · {dayjs(document.uploadedAt).format("MMM D, YYYY")}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+
+                      {p.events.length > 0 && (
+                        <div>
+                          <div className="text-white/60 mb-1">History</div>
+                          <ul className="space-y-1">
+                            {p.events.map((event) => (
+                              <li key={event.id}>
+                                <span className="text-white/40">{dayjs(event.createdAt).format("MMM D, YYYY h:mm A")}</span>{" "}
+                                {EVENT_LABELS[event.type] || event.type}
+                                {event.actorName ? ` by ${event.actorName}` : ""}
+                                {event.notes && <div className="text-white/60 whitespace-pre-line">{event.notes}</div>}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {actions.length > 0 && (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={notes[p.userId] || ""}
+                            onChange={(e) => setNotes((prev) => ({ ...prev, [p.userId]: e.target.value }))}
+                            placeholder="Notes for the practitioner (required to reject, request info or suspend)"
+                            className="bg-[#111] border-[#1f1f1f] text-white"
+                            rows={3}
+                          />
+                          <div className="flex gap-2 flex-wrap">
+                            {actions.map(({ action, label }) => (
+                              <Button
+                                key={action}
+                                size="sm"
+                                variant="outline"
+                                className="border-white/20 text-white hover:bg-white/10"
+                                disabled={busyId === p.userId}
+                                onClick={() => handleReview(p, action)}
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </CardContent>
       </Card>
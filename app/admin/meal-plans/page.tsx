@@ -1,57 +1,103 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pager } from "@/components/admin/Pager";
+import type { AdminMealPlan } from "@/lib/admin/meal-plans";
+import type { Paginated } from "@/lib/utils/pagination";
+import { formatMoney } from "@/lib/utils/money";
 
-type MealPlan = {
-  id: string;
-  title: string;
-  patient: string;
-  dietitian: string;
-  status: "pending" | "paid" | "sent";
-  note?: string;
-  pdfUrl?: string;
+const statusTone: Record<string, string> = {
+  PENDING: "bg-amber-500/20 text-amber-200",
+  APPROVED: "bg-emerald-500/20 text-emerald-200",
+  REJECTED: "bg-red-500/20 text-red-200",
 };
 
-const seedPlans: MealPlan[] = [
-  { id: "m1", title: "Starter plan", patient: "Sam Ade", dietitian: "Dt. Sarah Ogun", status: "pending", note: "Awaiting payment confirmation" },
-  { id: "m2", title: "Premium plan", patient: "Kate Obi", dietitian: "Dt. Kemi Musa", status: "paid", note: "Payment received, drafting" },
-  {
-    id: "m3",
-    title: "Standard plan",
-    patient: "Ife Tolu",
-    dietitian: "Dt. Tayo Bisi",
-    status: "sent",
-    note: "Sent via email",
-    pdfUrl: "https://www.w3.org/WAI/ER/tests/xhtml/testfiles/resources/pdf/dummy.pdf",
-  },
-];
-
-const statusTone = {
-  pending: "bg-amber-500/20 text-amber-200",
-  paid: "bg-blue-500/20 text-blue-200",
-  sent: "bg-emerald-500/20 text-emerald-200",
+const statusLabels: Record<string, string> = {
+  PENDING: "pending",
+  APPROVED: "sent",
+  REJECTED: "rejected",
 };
 
 const tabs = [
-  { id: "all", label: "All" },
-  { id: "pending", label: "Pending" },
-  { id: "paid", label: "Paid" },
-  { id: "sent", label: "Sent" },
+  { id: "", label: "All" },
+  { id: "PENDING", label: "Pending" },
+  { id: "APPROVED", label: "Sent" },
+  { id: "REJECTED", label: "Rejected" },
 ];
 
+const dateInputClassName = "rounded-md border border-[#1f1f1f] bg-[#0b0b0b] px-2 py-1.5 text-sm text-white";
+
 export default function AdminMealPlansPage() {
-  const [plans, setPlans] = useState<MealPlan[]>(seedPlans);
-  const [filter, setFilter] = useState<"all" | "pending" | "paid" | "sent">("all");
+  const [result, setResult] = useState<Paginated<AdminMealPlan> | null>(null);
+  const [filter, setFilter] = useState("");
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search.trim()) params.set("search", search.trim());
+      if (filter) params.set("status", filter);
+      if (from) params.set("from", dayjs(from).startOf("day").toISOString());
+      if (to) params.set("to", dayjs(to).endOf("day").toISOString());
+
+      const response = await fetch(`/api/admin/meal-plans?${params}`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load meal plans");
+      }
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load meal plans:", err);
+      setError(err instanceof Error ? err.message : "Failed to load meal plans");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, filter, from, to]);
+
+  useEffect(() => {
+    // Wait for the admin to stop typing before searching
+    const timeout = setTimeout(loadPlans, 300);
+    return () => clearTimeout(timeout);
+  }, [loadPlans]);
 
-  const filtered = useMemo(() => {
-    if (filter === "all") return plans;
-    return plans.filter((p) => p.status === filter);
-  }, [plans, filter]);
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
 
-  const handleDelete = (id: string) => {
-    setPlans((prev) => prev.filter((p) => p.id !== id));
+  const handleResend = async (plan: AdminMealPlan) => {
+    if (!plan.mealPlan) return;
+    setBusyId(plan.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/meal-plans/${plan.mealPlan.id}/resend`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      setNotice(`Meal plan emailed to ${plan.clientEmail} again.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
   };
 
   return (
@@ -59,12 +105,12 @@ export default function AdminMealPlansPage() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
         <div>
           <h1 className="text-2xl font-semibold text-white">Meal plans</h1>
-          <p className="text-white/60">Track pending, paid, and sent plans.</p>
+          <p className="text-white/60">Track requested, paid and sent plans.</p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           {tabs.map((tab) => (
             <Button
-              key={tab.id}
+              key={tab.id || "all"}
               size="sm"
               variant={filter === tab.id ? "secondary" : "outline"}
               className={
@@ -72,7 +118,7 @@ export default function AdminMealPlansPage() {
                   ? "bg-white text-black hover:bg-white"
                   : "border-white/20 text-white hover:bg-white/10"
               }
-              onClick={() => setFilter(tab.id as typeof filter)}
+              onClick={() => updateFilter(setFilter)(tab.id)}
             >
               {tab.label}
             </Button>
@@ -80,54 +126,115 @@ export default function AdminMealPlansPage() {
         </div>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+      {notice && (
+        <div className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+          {notice}
+        </div>
+      )}
+
       <Card className="bg-[#111] border-[#1f1f1f]">
-        <CardHeader>
+        <CardHeader className="space-y-3">
           <CardTitle className="text-white">Plans</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              placeholder="Search client or package"
+              className="bg-[#0b0b0b] border-[#1f1f1f] text-white w-full sm:w-64"
+            />
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              Requested from
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                className={dateInputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              to
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+                className={dateInputClassName}
+              />
+            </label>
+          </div>
         </CardHeader>
-        <CardContent className="divide-y divide-[#1f1f1f]">
-          {filtered.length === 0 ? (
-            <div className="py-4 text-sm text-white/60">No meal plans in this filter.</div>
-          ) : (
-            filtered.map((p) => (
-              <div
-                key={p.id}
-                className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
-              >
-                <div className="space-y-1">
-                  <div className="text-white font-medium">{p.title}</div>
-                  <div className="text-white/70">
-                    {p.patient} with {p.dietitian}
+        <CardContent>
+          <div className="divide-y divide-[#1f1f1f]">
+            {loading ? (
+              <div className="py-4 text-sm text-white/60">Loading...</div>
+            ) : !result || result.items.length === 0 ? (
+              <div className="py-4 text-sm text-white/60">No meal plans in this filter.</div>
+            ) : (
+              result.items.map((p) => (
+                <div
+                  key={p.id}
+                  className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
+                >
+                  <div className="space-y-1">
+                    <div className="text-white font-medium">{p.packageName}</div>
+                    <div className="text-white/70">
+                      {p.clientName} with {p.practitioner?.name || "Unknown practitioner"}
+                    </div>
+                    <div className="text-white/50">
+                      Requested {dayjs(p.requestedAt).format("MMM D, YYYY")}
+                      {p.price !== null ? ` · ${formatMoney(p.price, p.currency, { decimals: 0 })}` : ""}
+                      {p.mealPlan?.sentAt ? ` · Sent ${dayjs(p.mealPlan.sentAt).format("MMM D, YYYY")}` : ""}
+                    </div>
                   </div>
-                  <div className="text-white/50">{p.note || "No note"}</div>
-                </div>
-                <div className="flex items-center gap-3 flex-wrap">
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      statusTone[p.status as keyof typeof statusTone]
-                    }`}
-                  >
-                    {p.status}
-                  </span>
-                  {p.status === "sent" && (
-                    <Button
-                      variant="outline"
-                      className="border-white/20 text-white hover:bg-white/10"
-                      disabled={!p.pdfUrl}
-                      onClick={() => p.pdfUrl && window.open(p.pdfUrl, "_blank")}
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        p.paid ? "bg-blue-500/20 text-blue-200" : "bg-white/10 text-white/60"
+                      }`}
+                    >
+                      {p.paid ? "paid" : "unpaid"}
+                    </span>
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        statusTone[p.status] || "bg-white/10 text-white/70"
+                      }`}
                     >
-                      View PDF
-                    </Button>
-                  )}
-                  <Button
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleDelete(p.id)}
-                  >
-                    Delete
-                  </Button>
+                      {statusLabels[p.status] || p.status.toLowerCase()}
+                    </span>
+                    {p.mealPlan?.fileUrl && (
+                      <>
+                        <Button
+                          variant="outline"
+                          className="border-white/20 text-white hover:bg-white/10"
+                          onClick={() => p.mealPlan?.fileUrl && window.open(p.mealPlan.fileUrl, "_blank")}
+                        >
+                          View PDF
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="border-white/20 text-white hover:bg-white/10"
+                          disabled={busyId === p.id}
+                          onClick={() => handleResend(p)}
+                        >
+                          {busyId === p.id ? "Sending..." : "Resend"}
+                        </Button>
+                      </>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))
+              ))
+            )}
+          </div>
+          {result && (
+            <Pager
+              page={result.page}
+              totalPages={result.totalPages}
+              total={result.total}
+              disabled={loading}
+              onPageChange={setPage}
+            />
           )}
         </CardContent>
       </Card>
@@ -1,49 +1,55 @@
-/* eslint-disable react-hooks/exhaustive-deps */
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import type { AdminOverview } from "@/lib/admin/overview";
+import { formatMoney } from "@/lib/utils/money";
 
-const stats = [
-  { label: "Total users", value: "12,480" },
-  { label: "Active dietitians", value: "214" },
-  { label: "Bookings (30d)", value: "3,420" },
-  { label: "Payouts pending", value: "₦4.8m" },
-];
-
-const seedSessions = [
-  {
-    id: "sess-1",
-    title: "Follow-up consult",
-    patient: "Amaka Bello",
-    dietitian: "Dt. Sarah Ogun",
-    when: "Today, 2:30 PM",
-  },
-  {
-    id: "sess-2",
-    title: "Initial assessment",
-    patient: "Tom Ade",
-    dietitian: "Dt. Kemi Musa",
-    when: "Tomorrow, 11:00 AM",
-  },
-  {
-    id: "sess-3",
-    title: "Meal plan review",
-    patient: "Lisa John",
-    dietitian: "Dt. Tayo Bisi",
-    when: "Fri, 9:00 AM",
-  },
-];
+const formatCount = (n: number) => n.toLocaleString("en-US");
 
 export default function AdminOverviewPage() {
-  const [sessions, setSessions] = useState(seedSessions);
+  const [overview, setOverview] = useState<AdminOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/overview", { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load overview");
+      }
+      setOverview(data.overview);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load overview:", err);
+      setError(err instanceof Error ? err.message : "Failed to load overview");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
-  const hasSessions = useMemo(() => sessions.length > 0, [sessions]);
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
 
-  const handleDelete = (id: string) => {
-    setSessions((prev) => prev.filter((s) => s.id !== id));
-  };
+  const pendingPayouts = Object.entries(overview?.pendingPayouts || {});
+  const stats = [
+    { label: "Total users", value: overview ? formatCount(overview.totalUsers) : "—" },
+    { label: "Active practitioners", value: overview ? formatCount(overview.activePractitioners) : "—" },
+    { label: "Bookings (30d)", value: overview ? formatCount(overview.bookingsLast30Days) : "—" },
+    {
+      label: "Payouts pending",
+      value: !overview
+        ? "—"
+        : pendingPayouts.length === 0
+          ? formatMoney(0)
+          : pendingPayouts.map(([currency, amount]) => formatMoney(amount, currency, { decimals: 0 })).join(" · "),
+    },
+  ];
 
   return (
     <div className="space-y-8">
@@ -52,6 +58,22 @@ export default function AdminOverviewPage() {
         <p className="text-white/60">Quick pulse on the platform.</p>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
+      {overview && overview.pendingVerifications > 0 && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+          <span>
+            {overview.pendingVerifications} practitioner{overview.pendingVerifications === 1 ? " is" : "s are"} waiting
+            for credential review.
+          </span>
+          <Button asChild size="sm" variant="outline" className="border-amber-500/40 text-amber-100 hover:bg-amber-500/10">
+            <Link href="/admin/dietitians">Review</Link>
+          </Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
         {stats.map((item) => (
           <Card
@@ -73,12 +95,17 @@ export default function AdminOverviewPage() {
       </div>
 
       <Card className="bg-[#111] border-[#1f1f1f]">
-        <CardHeader className="pb-3">
+        <CardHeader className="pb-3 flex flex-row items-center justify-between">
           <CardTitle className="text-white">Upcoming sessions</CardTitle>
+          <Button asChild size="sm" variant="outline" className="border-white/20 text-white hover:bg-white/10">
+            <Link href="/admin/bookings">All bookings</Link>
+          </Button>
         </CardHeader>
         <CardContent className="space-y-3">
-          {hasSessions ? (
-            sessions.map((s) => (
+          {loading ? (
+            <div className="text-sm text-white/60">Loading...</div>
+          ) : overview && overview.upcomingSessions.length > 0 ? (
+            overview.upcomingSessions.map((s) => (
               <div
                 key={s.id}
                 className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border border-[#1f1f1f] rounded-lg px-4 py-3 bg-[#0c0c0c]"
@@ -86,18 +113,23 @@ export default function AdminOverviewPage() {
                 <div className="space-y-1 text-sm">
                   <div className="text-white font-medium">{s.title}</div>
                   <div className="text-white/70">
-                    {s.patient} with {s.dietitian}
+                    {s.client?.name || s.client?.email || "Unknown client"} with{" "}
+                    {s.practitioner?.name || s.practitioner?.email || "Unknown practitioner"}
                   </div>
-                  <div className="text-white/50">{s.when}</div>
+                  <div className="text-white/50">{dayjs(s.startTime).format("ddd, MMM D, h:mm A")}</div>
                 </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="border-white/20 text-white hover:bg-white/10"
-                  onClick={() => handleDelete(s.id)}
-                >
-                  Delete
-                </Button>
+                {s.meetingLink && (
+                  <Button
+                    asChild
+                    variant="outline"
+                    size="sm"
+                    className="border-white/20 text-white hover:bg-white/10"
+                  >
+                    <a href={s.meetingLink} target="_blank" rel="noopener noreferrer">
+                      Meeting link
+                    </a>
+                  </Button>
+                )}
               </div>
             ))
           ) : (
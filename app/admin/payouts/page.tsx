@@ -1,41 +1,103 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import type { PayoutBatch, PractitionerBalance } from "@/lib/payments/payouts";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
-type PayoutRow = {
-  id: string;
-  dietitian: string;
-  due: number;
-  paid: number;
-  sessionCount: number;
-  platformCutPct: number;
-};
+const formatCurrency = (n: number, currency: string = BASE_CURRENCY) => formatMoney(n, currency, { decimals: 0 });
 
-const seedPayouts: PayoutRow[] = [
-  { id: "p1", dietitian: "Dt. Sarah Ogun", due: 180000, paid: 0, sessionCount: 12, platformCutPct: 10 },
-  { id: "p2", dietitian: "Dt. Kemi Musa", due: 92000, paid: 20000, sessionCount: 7, platformCutPct: 10 },
-  { id: "p3", dietitian: "Dt. Tayo Bisi", due: 140000, paid: 140000, sessionCount: 10, platformCutPct: 12 },
-];
+export default function AdminPayoutsPage() {
+  const [balances, setBalances] = useState<PractitionerBalance[]>([]);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [commissionInputs, setCommissionInputs] = useState<Record<string, string>>({});
+  const [referenceInputs, setReferenceInputs] = useState<Record<string, string>>({});
 
-const formatCurrency = (n: number) =>
-  `₦${n.toLocaleString("en-NG", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+  const loadPayouts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/payouts", { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load payouts");
+      }
+      setBalances(data.balances || []);
+      setBatches(data.batches || []);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load payouts:", err);
+      setError(err instanceof Error ? err.message : "Failed to load payouts");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
-export default function AdminPayoutsPage() {
-  const [rows, setRows] = useState<PayoutRow[]>(seedPayouts);
+  useEffect(() => {
+    loadPayouts();
+  }, [loadPayouts]);
 
   const totals = useMemo(() => {
-    const totalDue = rows.reduce((sum, r) => sum + r.due, 0);
-    const totalPaid = rows.reduce((sum, r) => sum + r.paid, 0);
-    return { totalDue, totalPaid, totalRemaining: totalDue - totalPaid };
-  }, [rows]);
-
-  const handlePaidChange = (id: string, value: string) => {
-    const num = Number(value.replace(/[^0-9.]/g, ""));
-    if (Number.isNaN(num)) return;
-    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, paid: num } : r)));
+    const unpaid = balances.reduce((sum, b) => sum + b.unpaidNet, 0);
+    const pending = batches.filter((b) => b.status === "PENDING").reduce((sum, b) => sum + b.totalNet, 0);
+    const paid = batches.filter((b) => b.status === "PAID").reduce((sum, b) => sum + b.totalNet, 0);
+    return { unpaid, pending, paid };
+  }, [balances, batches]);
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      await loadPayouts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveCommission = (balance: PractitionerBalance) => {
+    const value = commissionInputs[balance.practitionerId];
+    if (value === undefined) return;
+    runAction(balance.practitionerId, () =>
+      fetch(`/api/admin/practitioners/${balance.practitionerId}/commission`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commissionPercent: value.trim() === "" ? null : Number(value) }),
+      })
+    );
+  };
+
+  const handleCreatePayout = (practitionerId: string) => {
+    runAction(practitionerId, () =>
+      fetch("/api/admin/payouts", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ practitionerId }),
+      })
+    );
+  };
+
+  const handleMarkPaid = (batchId: string) => {
+    runAction(batchId, () =>
+      fetch(`/api/admin/payouts/${batchId}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reference: referenceInputs[batchId] || "" }),
+      })
+    );
   };
 
   return (
@@ -43,83 +105,154 @@ export default function AdminPayoutsPage() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
         <div>
           <h1 className="text-2xl font-semibold text-white">Payouts</h1>
-          <p className="text-white/60">Track manual payouts and remaining balances.</p>
+          <p className="text-white/60">Batch practitioner earnings and record the transfers.</p>
         </div>
-        <Button variant="outline" className="border-white/10 text-white hover:bg-white/10">
-          Export CSV
+        <Button asChild variant="outline" className="border-white/10 text-white hover:bg-white/10">
+          <a href="/api/admin/ledger/export" download>
+            Export CSV
+          </a>
         </Button>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
       <Card className="bg-[#111] border-[#1f1f1f]">
         <CardHeader className="pb-3">
           <CardTitle className="text-white">Summary</CardTitle>
         </CardHeader>
         <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-white">
           <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
-            <div className="text-white/60">Total due</div>
-            <div className="text-xl font-semibold">{formatCurrency(totals.totalDue)}</div>
+            <div className="text-white/60">Owed, not batched</div>
+            <div className="text-xl font-semibold">{formatCurrency(totals.unpaid)}</div>
           </div>
           <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
-            <div className="text-white/60">Paid manually</div>
-            <div className="text-xl font-semibold">{formatCurrency(totals.totalPaid)}</div>
+            <div className="text-white/60">Awaiting transfer</div>
+            <div className="text-xl font-semibold">{formatCurrency(totals.pending)}</div>
           </div>
           <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-3">
-            <div className="text-white/60">Remaining</div>
-            <div className="text-xl font-semibold">{formatCurrency(totals.totalRemaining)}</div>
+            <div className="text-white/60">Paid out</div>
+            <div className="text-xl font-semibold">{formatCurrency(totals.paid)}</div>
           </div>
         </CardContent>
       </Card>
 
       <Card className="bg-[#111] border-[#1f1f1f]">
         <CardHeader>
-          <CardTitle className="text-white">Payout queue</CardTitle>
+          <CardTitle className="text-white">Practitioners</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          {rows.map((r) => {
-            const remaining = Math.max(r.due - r.paid, 0);
-            const platformCut = Math.round((r.platformCutPct / 100) * r.due);
-            const dueAfterCut = Math.max(r.due - platformCut, 0);
-            return (
+          {loading ? (
+            <div className="text-sm text-white/60">Loading...</div>
+          ) : balances.length === 0 ? (
+            <div className="text-sm text-white/60">No practitioners.</div>
+          ) : (
+            balances.map((b) => (
               <div
-                key={r.id}
+                key={b.practitionerId}
                 className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-4 py-3 space-y-3 text-sm text-white/80"
               >
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
                   <div className="space-y-1">
-                    <div className="text-white font-medium">{r.dietitian}</div>
-                    <div className="text-white/60">Sessions: {r.sessionCount}</div>
+                    <div className="text-white font-medium">{b.name || b.email}</div>
                     <div className="text-white/60">
-                      Platform cut: {r.platformCutPct}% ({formatCurrency(platformCut)})
+                      {b.role === "THERAPIST" ? "Therapist" : "Dietitian"} · Unpaid payments: {b.unpaidEntryCount}
+                    </div>
+                    <div className="text-white/50 text-xs">
+                      {b.subaccountCode ? `Split payments · ${b.subaccountCode}` : "No payout account registered"}
                     </div>
                   </div>
                   <div className="space-y-1 text-right sm:text-right">
-                    <div className="text-white">Due: {formatCurrency(r.due)}</div>
-                    <div className="text-white/70">After cut: {formatCurrency(dueAfterCut)}</div>
+                    <div className="text-white">Gross: {formatCurrency(b.unpaidGross, b.currency)}</div>
+                    <div className="text-white/70">
+                      Commission: {formatCurrency(b.unpaidCommission, b.currency)} · Net: {formatCurrency(b.unpaidNet, b.currency)}
+                    </div>
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="flex flex-col sm:flex-row sm:items-end gap-3">
                   <div className="space-y-1">
-                    <div className="text-white/70">Paid manually</div>
-                    <Input
-                      value={r.paid}
-                      onChange={(e) => handlePaidChange(r.id, e.target.value)}
-                      className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
-                      inputMode="numeric"
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <div className="text-white/70">Remaining</div>
-                    <div className="text-white font-semibold">{formatCurrency(remaining)}</div>
-                  </div>
-                  <div className="space-y-1">
-                    <div className="text-white/70">Platform cut (estimate)</div>
-                    <div className="text-white font-semibold">{formatCurrency(platformCut)}</div>
+                    <div className="text-white/70">
+                      Commission % {b.hasCustomCommission ? "" : "(platform default)"}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={commissionInputs[b.practitionerId] ?? String(b.commissionPercent)}
+                        onChange={(e) =>
+                          setCommissionInputs((prev) => ({ ...prev, [b.practitionerId]: e.target.value }))
+                        }
+                        className="bg-[#0b0b0b] border-[#1f1f1f] text-white w-24"
+                        inputMode="decimal"
+                      />
+                      <Button
+                        variant="outline"
+                        className="border-white/10 text-white hover:bg-white/10"
+                        disabled={busyId === b.practitionerId || commissionInputs[b.practitionerId] === undefined}
+                        onClick={() => handleSaveCommission(b)}
+                      >
+                        Save
+                      </Button>
+                    </div>
                   </div>
+                  <Button
+                    className="sm:ml-auto bg-white text-black hover:bg-white/90"
+                    disabled={busyId === b.practitionerId || b.unpaidEntryCount === 0}
+                    onClick={() => handleCreatePayout(b.practitionerId)}
+                  >
+                    Create payout ({formatCurrency(b.unpaidNet, b.currency)})
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#111] border-[#1f1f1f]">
+        <CardHeader>
+          <CardTitle className="text-white">Payout batches</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!loading && batches.length === 0 && <div className="text-sm text-white/60">No payouts yet.</div>}
+          {batches.map((batch) => (
+            <div
+              key={batch.id}
+              className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-4 py-3 text-sm text-white/80 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+            >
+              <div className="space-y-1">
+                <div className="text-white font-medium">{batch.practitionerName || "Practitioner"}</div>
+                <div className="text-white/60">
+                  {formatCurrency(batch.totalNet, batch.currency)} · {batch.entryCount} payments · created{" "}
+                  {dayjs(batch.createdAt).format("MMM D, YYYY")}
                 </div>
               </div>
-            );
-          })}
+              {batch.status === "PAID" ? (
+                <div className="text-right space-y-1">
+                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-emerald-500/20 text-emerald-200">
+                    Paid {batch.paidAt ? dayjs(batch.paidAt).format("MMM D, YYYY") : ""}
+                  </span>
+                  <div className="text-white/60 text-xs">Ref: {batch.reference}</div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Transfer reference"
+                    value={referenceInputs[batch.id] || ""}
+                    onChange={(e) => setReferenceInputs((prev) => ({ ...prev, [batch.id]: e.target.value }))}
+                    className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+                  />
+                  <Button
+                    className="bg-white text-black hover:bg-white/90"
+                    disabled={busyId === batch.id || !referenceInputs[batch.id]?.trim()}
+                    onClick={() => handleMarkPaid(batch.id)}
+                  >
+                    Mark as paid
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
         </CardContent>
       </Card>
     </div>
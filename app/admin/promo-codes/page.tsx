@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { MealPlanPackage } from "@/lib/payments/meal-plan-packages";
+import type { PromoCode, PromoDiscountType, PromoEventTypeOption } from "@/lib/payments/promo-codes";
+import { BASE_CURRENCY, formatMoney, getCurrencySymbol } from "@/lib/utils/money";
+
+const formatCurrency = (n: number, currency: string = BASE_CURRENCY) => formatMoney(n, currency, { decimals: 0 });
+
+const emptyForm = {
+  code: "",
+  description: "",
+  discountType: "PERCENTAGE" as PromoDiscountType,
+  discountValue: "",
+  expiresAt: "",
+  maxRedemptions: "",
+  perUserLimit: "",
+  eventTypeIds: [] as string[],
+  mealPlanPackageIds: [] as string[],
+};
+
+function toggle(list: string[], id: string) {
+  return list.includes(id) ? list.filter((item) => item !== id) : [...list, id];
+}
+
+export default function AdminPromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [eventTypes, setEventTypes] = useState<PromoEventTypeOption[]>([]);
+  const [mealPlanPackages, setMealPlanPackages] = useState<MealPlanPackage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadPromoCodes = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/promo-codes", { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load promo codes");
+      }
+      setPromoCodes(data.promoCodes || []);
+      setEventTypes(data.eventTypes || []);
+      setMealPlanPackages(data.mealPlanPackages || []);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load promo codes:", err);
+      setError(err instanceof Error ? err.message : "Failed to load promo codes");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, [loadPromoCodes]);
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      await loadPromoCodes();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await runAction("new", () =>
+      fetch("/api/admin/promo-codes", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description,
+          discountType: form.discountType,
+          discountValue: Number(form.discountValue),
+          expiresAt: form.expiresAt ? dayjs(form.expiresAt).endOf("day").toISOString() : null,
+          maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+          perUserLimit: form.perUserLimit ? Number(form.perUserLimit) : null,
+          eventTypeIds: form.eventTypeIds,
+          mealPlanPackageIds: form.mealPlanPackageIds,
+        }),
+      })
+    );
+    if (created) {
+      setForm(emptyForm);
+    }
+  };
+
+  const handleToggleActive = (promoCode: PromoCode) => {
+    runAction(promoCode.id, () =>
+      fetch(`/api/admin/promo-codes/${promoCode.id}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !promoCode.isActive }),
+      })
+    );
+  };
+
+  const describeRestriction = (promoCode: PromoCode) => {
+    if (promoCode.eventTypeIds.length === 0 && promoCode.mealPlanPackageIds.length === 0) {
+      return "All sessions and meal plans";
+    }
+    const names = [
+      ...promoCode.eventTypeIds.map((id) => eventTypes.find((eventType) => eventType.id === id)?.title || "Event type"),
+      ...promoCode.mealPlanPackageIds.map((id) => mealPlanPackages.find((pkg) => pkg.id === id)?.name || id),
+    ];
+    return names.join(", ");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-white">Promo codes</h1>
+        <p className="text-white/60">Discount codes clients can enter at checkout.</p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
+      <Card className="bg-[#111] border-[#1f1f1f]">
+        <CardHeader>
+          <CardTitle className="text-white">New promo code</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm text-white/80">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <div className="text-white/70">Code</div>
+              <Input
+                value={form.code}
+                onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                placeholder="WELCOME10"
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/70">Discount</div>
+              <div className="flex gap-2">
+                <select
+                  value={form.discountType}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, discountType: e.target.value as PromoDiscountType }))
+                  }
+                  className="rounded-md bg-[#0b0b0b] border border-[#1f1f1f] text-white px-3"
+                >
+                  <option value="PERCENTAGE">%</option>
+                  <option value="FIXED">{getCurrencySymbol(BASE_CURRENCY)}</option>
+                </select>
+                <Input
+                  value={form.discountValue}
+                  onChange={(e) => setForm((prev) => ({ ...prev, discountValue: e.target.value }))}
+                  inputMode="decimal"
+                  placeholder={form.discountType === "PERCENTAGE" ? "10" : "2000"}
+                  className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/70">Expires (optional)</div>
+              <Input
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm((prev) => ({ ...prev, expiresAt: e.target.value }))}
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/70">Usage limit (optional)</div>
+              <Input
+                value={form.maxRedemptions}
+                onChange={(e) => setForm((prev) => ({ ...prev, maxRedemptions: e.target.value }))}
+                inputMode="numeric"
+                placeholder="Unlimited"
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/70">Uses per client (optional)</div>
+              <Input
+                value={form.perUserLimit}
+                onChange={(e) => setForm((prev) => ({ ...prev, perUserLimit: e.target.value }))}
+                inputMode="numeric"
+                placeholder="Unlimited"
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-white/70">Description (optional)</div>
+              <Input
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Launch promotion"
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-white/70">Only for (leave empty for everything)</div>
+            <div className="flex flex-wrap gap-2">
+              {mealPlanPackages.map((pkg) => (
+                <button
+                  key={pkg.id}
+                  type="button"
+                  onClick={() =>
+                    setForm((prev) => ({ ...prev, mealPlanPackageIds: toggle(prev.mealPlanPackageIds, pkg.id) }))
+                  }
+                  className={`px-3 py-1 rounded-full border text-xs ${
+                    form.mealPlanPackageIds.includes(pkg.id)
+                      ? "border-white bg-white text-black"
+                      : "border-[#1f1f1f] text-white/70 hover:bg-white/10"
+                  }`}
+                >
+                  {pkg.name}
+                </button>
+              ))}
+              {eventTypes.map((eventType) => (
+                <button
+                  key={eventType.id}
+                  type="button"
+                  onClick={() =>
+                    setForm((prev) => ({ ...prev, eventTypeIds: toggle(prev.eventTypeIds, eventType.id) }))
+                  }
+                  className={`px-3 py-1 rounded-full border text-xs ${
+                    form.eventTypeIds.includes(eventType.id)
+                      ? "border-white bg-white text-black"
+                      : "border-[#1f1f1f] text-white/70 hover:bg-white/10"
+                  }`}
+                >
+                  {eventType.title}
+                  {eventType.practitionerName ? ` · ${eventType.practitionerName}` : ""}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            className="bg-white text-black hover:bg-white/90"
+            disabled={busyId === "new" || !form.code.trim() || !form.discountValue}
+            onClick={handleCreate}
+          >
+            Create promo code
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#111] border-[#1f1f1f]">
+        <CardHeader>
+          <CardTitle className="text-white">Codes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading && <div className="text-sm text-white/60">Loading...</div>}
+          {!loading && promoCodes.length === 0 && <div className="text-sm text-white/60">No promo codes yet.</div>}
+          {promoCodes.map((promoCode) => (
+            <div
+              key={promoCode.id}
+              className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-4 py-3 text-sm text-white/80 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+            >
+              <div className="space-y-1">
+                <div className="text-white font-medium">
+                  {promoCode.code} ·{" "}
+                  {promoCode.discountType === "PERCENTAGE"
+                    ? `${promoCode.discountValue}% off`
+                    : `${formatCurrency(promoCode.discountValue, promoCode.currency)} off`}
+                </div>
+                <div className="text-white/60">{describeRestriction(promoCode)}</div>
+                <div className="text-white/50 text-xs">
+                  Used {promoCode.redemptionCount}
+                  {promoCode.maxRedemptions ? ` / ${promoCode.maxRedemptions}` : ""} times
+                  {promoCode.perUserLimit ? ` · ${promoCode.perUserLimit} per client` : ""}
+                  {promoCode.expiresAt ? ` · expires ${dayjs(promoCode.expiresAt).format("MMM D, YYYY")}` : ""}
+                  {` · ${formatCurrency(promoCode.discountTotal, promoCode.currency)} discounted`}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                className="border-white/10 text-white hover:bg-white/10"
+                disabled={busyId === promoCode.id}
+                onClick={() => handleToggleActive(promoCode)}
+              >
+                {promoCode.isActive ? "Deactivate" : "Activate"}
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,40 +1,112 @@
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { LedgerEntry, LedgerTotals } from "@/lib/payments/ledger";
+import type { PromoRedemption } from "@/lib/payments/promo-codes";
+import type { AbandonedCheckoutStats } from "@/lib/payments/abandoned-checkouts";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
-const transactions = [
-  { id: "t1", type: "Session", dietitian: "Dt. Sarah Ogun", gross: 20000, companyCutPct: 10, date: "2025-03-01" },
-  { id: "t2", type: "Meal plan", dietitian: "Dt. Kemi Musa", gross: 45000, companyCutPct: 12, date: "2025-03-02" },
-  { id: "t3", type: "Session", dietitian: "Dt. Tayo Bisi", gross: 18000, companyCutPct: 10, date: "2025-03-03" },
-  { id: "t4", type: "Meal plan", dietitian: "Dt. Sarah Ogun", gross: 70000, companyCutPct: 12, date: "2025-03-04" },
-];
-
-const formatCurrency = (n: number) =>
-  `₦${n.toLocaleString("en-NG", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+const formatCurrency = (n: number, currency: string = BASE_CURRENCY) => formatMoney(Math.round(n * 100) / 100, currency);
 
 export default function AdminRevenuePage() {
-  const totals = useMemo(() => {
-    const gross = transactions.reduce((sum, t) => sum + t.gross, 0);
-    const companyCut = transactions.reduce((sum, t) => sum + (t.companyCutPct / 100) * t.gross, 0);
-    const dietitianNet = gross - companyCut;
-    return { gross, companyCut, dietitianNet };
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [totals, setTotals] = useState<LedgerTotals>({
+    gross: 0,
+    refunded: 0,
+    commission: 0,
+    net: 0,
+    currency: BASE_CURRENCY,
+    unconvertedCurrencies: [],
+  });
+  const [redemptions, setRedemptions] = useState<PromoRedemption[]>([]);
+  const [recovery, setRecovery] = useState<AbandonedCheckoutStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/ledger", { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load revenue");
+        }
+        setEntries(data.entries || []);
+        setTotals(data.totals);
+      })
+      .catch((err) => {
+        console.error("Failed to load revenue:", err);
+        setError(err instanceof Error ? err.message : "Failed to load revenue");
+      })
+      .finally(() => setLoading(false));
+
+    fetch("/api/admin/promo-codes", { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load promo code redemptions");
+        }
+        setRedemptions(data.redemptions || []);
+      })
+      .catch((err) => {
+        console.error("Failed to load promo code redemptions:", err);
+      });
+
+    fetch("/api/admin/abandoned-checkouts", { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load abandoned checkouts");
+        }
+        setRecovery(data.stats);
+      })
+      .catch((err) => {
+        console.error("Failed to load abandoned checkouts:", err);
+      });
   }, []);
 
+  // Discounts given, per currency
+  const discountTotals = redemptions.reduce<Record<string, number>>(
+    (sum, r) => ({ ...sum, [r.currency]: (sum[r.currency] || 0) + r.discountAmount }),
+    {}
+  );
+
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-2xl font-semibold text-white">Revenue</h1>
-        <p className="text-white/60">Company cut totals and transaction history.</p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold text-white">Revenue</h1>
+          <p className="text-white/60">
+            Company cut totals and transaction history. Totals are in NGN at the exchange rate on each payment&apos;s date.
+          </p>
+        </div>
+        <Button asChild variant="outline" className="border-white/10 text-white hover:bg-white/10">
+          <a href="/api/admin/ledger/export" download>
+            Export CSV
+          </a>
+        </Button>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
+      {totals.unconvertedCurrencies.length > 0 && (
+        <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-4 py-3 text-sm text-yellow-200">
+          Payments in {totals.unconvertedCurrencies.join(", ")} aren&apos;t in the totals yet. Add an exchange rate on the
+          pricing page to include them.
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <Card className="bg-[#FFF4E0] border-[#f1e2c0] text-black shadow-sm">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm text-black/70">Gross</CardTitle>
           </CardHeader>
           <CardContent className="text-2xl font-semibold text-black">
-            {formatCurrency(totals.gross)}
+            {formatCurrency(totals.gross - totals.refunded)}
           </CardContent>
         </Card>
         <Card className="bg-[#FFF4E0] border-[#f1e2c0] text-black shadow-sm">
@@ -42,47 +114,139 @@ export default function AdminRevenuePage() {
             <CardTitle className="text-sm text-black/70">Company cut</CardTitle>
           </CardHeader>
           <CardContent className="text-2xl font-semibold text-black">
-            {formatCurrency(totals.companyCut)}
+            {formatCurrency(totals.commission)}
           </CardContent>
         </Card>
         <Card className="bg-[#FFF4E0] border-[#f1e2c0] text-black shadow-sm">
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm text-black/70">Dietitian net</CardTitle>
+            <CardTitle className="text-sm text-black/70">Practitioner net</CardTitle>
           </CardHeader>
           <CardContent className="text-2xl font-semibold text-black">
-            {formatCurrency(totals.dietitianNet)}
+            {formatCurrency(totals.net)}
           </CardContent>
         </Card>
       </div>
 
       <Card className="bg-[#111] border-[#1f1f1f]">
         <CardHeader>
-          <CardTitle className="text-white">Transaction history</CardTitle>
+          <CardTitle className="text-white">Promo code redemptions</CardTitle>
         </CardHeader>
         <CardContent className="space-y-2 text-sm text-white/80">
-          {transactions.map((t) => {
-            const cut = Math.round((t.companyCutPct / 100) * t.gross);
-            return (
-              <div
-                key={t.id}
-                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3"
-              >
-                <div className="space-y-1">
-                  <div className="text-white font-medium">{t.type}</div>
-                  <div className="text-white/70">{t.dietitian}</div>
-                  <div className="text-white/50 text-xs">{t.date}</div>
+          {redemptions.length === 0 ? (
+            <div className="text-white/60">No promo codes redeemed yet.</div>
+          ) : (
+            <>
+              <div className="text-white/60">
+                {redemptions.length} redemptions ·{" "}
+                {Object.entries(discountTotals)
+                  .map(([currency, total]) => formatCurrency(total, currency))
+                  .join(" + ")}{" "}
+                discounted
+              </div>
+              {redemptions.map((r) => (
+                <div
+                  key={r.id}
+                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3"
+                >
+                  <div className="space-y-1">
+                    <div className="text-white font-medium">{r.code}</div>
+                    <div className="text-white/70">{r.email}</div>
+                    <div className="text-white/50 text-xs">
+                      {r.redeemedAt ? dayjs(r.redeemedAt).format("YYYY-MM-DD") : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-white">Paid: {formatCurrency(r.finalAmount, r.currency)}</div>
+                    <div className="text-white/70">
+                      Discount: {formatCurrency(r.discountAmount, r.currency)} of{" "}
+                      {formatCurrency(r.originalAmount, r.currency)}
+                    </div>
+                  </div>
                 </div>
-                <div className="flex items-center gap-4">
-                  <div className="text-white">
-                    Gross: {formatCurrency(t.gross)}
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#111] border-[#1f1f1f]">
+        <CardHeader>
+          <CardTitle className="text-white">Abandoned checkouts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm text-white/80">
+          {!recovery || recovery.reminded === 0 ? (
+            <div className="text-white/60">No clients have been emailed about an unfinished checkout yet.</div>
+          ) : (
+            <>
+              <div className="text-white/60">
+                Clients who leave checkout without paying are emailed a link back to it. Unpaid bookings are cancelled
+                once the link expires.
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3">
+                  <div className="text-white/50 text-xs">Emailed</div>
+                  <div className="text-white text-lg font-medium">{recovery.reminded}</div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3">
+                  <div className="text-white/50 text-xs">Came back</div>
+                  <div className="text-white text-lg font-medium">{recovery.resumed}</div>
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3">
+                  <div className="text-white/50 text-xs">Recovered</div>
+                  <div className="text-white text-lg font-medium">
+                    {recovery.recovered} ({Math.round(recovery.recoveryRate * 100)}%)
                   </div>
-                  <div className="text-white/70">
-                    Cut: {t.companyCutPct}% ({formatCurrency(cut)})
+                </div>
+                <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3">
+                  <div className="text-white/50 text-xs">Recovered revenue</div>
+                  <div className="text-white text-lg font-medium">
+                    {formatCurrency(recovery.recoveredRevenue, recovery.currency)}
                   </div>
                 </div>
               </div>
-            );
-          })}
+              <div className="text-white/50 text-xs">
+                {recovery.open} still open · {recovery.expired} cancelled
+                {recovery.unconvertedCurrencies.length > 0 &&
+                  ` · payments in ${recovery.unconvertedCurrencies.join(", ")} aren't in the revenue yet`}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-[#111] border-[#1f1f1f]">
+        <CardHeader>
+          <CardTitle className="text-white">Transaction history</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm text-white/80">
+          {loading && <div className="text-white/60">Loading...</div>}
+          {!loading && entries.length === 0 && <div className="text-white/60">No transactions yet.</div>}
+          {entries.map((t) => (
+            <div
+              key={t.id}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] px-3 py-3"
+            >
+              <div className="space-y-1">
+                <div className="text-white font-medium">
+                  {t.source === "SESSION" ? "Session" : "Meal plan"}
+                  {t.description ? ` · ${t.description}` : ""}
+                </div>
+                <div className="text-white/70">{t.practitionerName || "Practitioner"}</div>
+                <div className="text-white/50 text-xs">{dayjs(t.occurredAt).format("YYYY-MM-DD")}</div>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="text-white">
+                  Gross: {formatCurrency(t.gross, t.currency)}
+                  {t.refunded > 0 && (
+                    <span className="text-white/50"> (refunded {formatCurrency(t.refunded, t.currency)})</span>
+                  )}
+                </div>
+                <div className="text-white/70">
+                  Cut: {t.commissionPercent}% ({formatCurrency(t.commission, t.currency)})
+                </div>
+              </div>
+            </div>
+          ))}
         </CardContent>
       </Card>
     </div>
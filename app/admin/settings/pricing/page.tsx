@@ -1,64 +1,202 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import type { AdminMealPlanPackage } from "@/lib/payments/meal-plan-packages";
+import type { ExchangeRate } from "@/lib/payments/exchange-rates";
+import {
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  formatMoney,
+  getCurrencySymbol,
+  type CurrencyPrices,
+} from "@/lib/utils/money";
 
-type MealPlan = {
-  id: string;
+type PackageForm = {
   name: string;
   price: string;
-  details: string;
+  description: string;
+  // Prices in other currencies; empty means the package can't be paid in that currency
+  prices: Record<string, string>;
 };
 
-const seedPackages: MealPlan[] = [
-  { id: "p1", name: "Starter plan", price: "₦25,000", details: "1-week plan, email delivery" },
-  { id: "p2", name: "Standard plan", price: "₦45,000", details: "2-week plan, email + PDF" },
-  { id: "p3", name: "Premium plan", price: "₦70,000", details: "4-week plan, email + PDF + check-in" },
-];
+type Dietitian = {
+  id: string;
+  name: string;
+};
+
+// Currencies packages can be priced in besides naira
+const OTHER_CURRENCIES = SUPPORTED_CURRENCIES.filter((code) => code !== BASE_CURRENCY);
+
+const emptyForm: PackageForm = { name: "", price: "", description: "", prices: {} };
+
+const toPricesForm = (prices: CurrencyPrices): Record<string, string> =>
+  Object.fromEntries(Object.entries(prices).map(([code, amount]) => [code, String(amount)]));
+
+async function fetchPackages(): Promise<AdminMealPlanPackage[]> {
+  const response = await fetch("/api/admin/meal-plan-packages", { credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to load meal plan packages");
+  }
+  return data.packages || [];
+}
 
 export default function AdminPricingPage() {
-  const [packages, setPackages] = useState<MealPlan[]>(seedPackages);
+  const [packages, setPackages] = useState<AdminMealPlanPackage[]>([]);
+  const [dietitians, setDietitians] = useState<Dietitian[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [form, setForm] = useState<MealPlan>({
-    id: "",
-    name: "",
-    price: "",
-    details: "",
-  });
+  const [form, setForm] = useState<PackageForm>(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Practitioner price being set, per package
+  const [priceForms, setPriceForms] = useState<Record<string, { dietitianId: string; price: string }>>({});
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [rateForm, setRateForm] = useState({ currency: OTHER_CURRENCIES[0] as string, rate: "", effectiveFrom: "" });
+
+  useEffect(() => {
+    fetchPackages()
+      .then(setPackages)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load meal plan packages"));
+    fetch("/api/dietitians", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setDietitians(data?.dietitians || []))
+      .catch((err) => console.error("Error fetching dietitians:", err));
+    fetch("/api/admin/exchange-rates", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setExchangeRates(data?.rates || []))
+      .catch((err) => console.error("Error fetching exchange rates:", err));
+  }, []);
+
+  // Run a change against the packages API, then reload the list
+  const mutate = useCallback(async (url: string, init: RequestInit): Promise<boolean> => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      setPackages(await fetchPackages());
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
 
   const resetForm = () => {
     setEditingId(null);
-    setForm({ id: "", name: "", price: "", details: "" });
+    setForm(emptyForm);
   };
 
-  const handleSavePackage = () => {
+  const handleSavePackage = async () => {
     if (!form.name.trim() || !form.price.trim()) return;
 
-    if (editingId) {
-      setPackages((prev) =>
-        prev.map((pkg) => (pkg.id === editingId ? { ...form, id: editingId } : pkg))
-      );
-    } else {
-      const newId = `pkg-${Date.now()}`;
-      setPackages((prev) => [...prev, { ...form, id: newId }]);
-    }
-    resetForm();
+    const body = JSON.stringify({
+      name: form.name,
+      price: Number(form.price.replace(/[^0-9.]/g, "")),
+      description: form.description,
+      prices: Object.fromEntries(OTHER_CURRENCIES.map((code) => [code, form.prices[code]?.trim() || null])),
+    });
+    const saved = editingId
+      ? await mutate(`/api/admin/meal-plan-packages/${editingId}`, { method: "PATCH", body })
+      : await mutate("/api/admin/meal-plan-packages", { method: "POST", body });
+    if (saved) resetForm();
   };
 
-  const handleEdit = (pkg: MealPlan) => {
+  const handleEdit = (pkg: AdminMealPlanPackage) => {
     setEditingId(pkg.id);
-    setForm(pkg);
+    setForm({
+      name: pkg.name,
+      price: String(pkg.price),
+      description: pkg.description,
+      prices: toPricesForm(pkg.prices),
+    });
   };
 
-  const handleDelete = (id: string) => {
-    setPackages((prev) => prev.filter((p) => p.id !== id));
-    if (editingId === id) resetForm();
+  const handleToggleActive = (pkg: AdminMealPlanPackage) => {
+    mutate(`/api/admin/meal-plan-packages/${pkg.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ isActive: !pkg.isActive }),
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this package? Requests already made for it keep their price.")) return;
+    const deleted = await mutate(`/api/admin/meal-plan-packages/${id}`, { method: "DELETE" });
+    if (deleted && editingId === id) resetForm();
+  };
+
+  const handleSetDietitianPrice = async (packageId: string) => {
+    const priceForm = priceForms[packageId];
+    if (!priceForm?.dietitianId || !priceForm.price.trim()) return;
+
+    const saved = await mutate(`/api/admin/meal-plan-packages/${packageId}/prices/${priceForm.dietitianId}`, {
+      method: "PUT",
+      body: JSON.stringify({ price: Number(priceForm.price.replace(/[^0-9.]/g, "")) }),
+    });
+    if (saved) {
+      setPriceForms((prev) => ({ ...prev, [packageId]: { dietitianId: "", price: "" } }));
+    }
+  };
+
+  const handleRemoveDietitianPrice = (packageId: string, dietitianId: string) => {
+    mutate(`/api/admin/meal-plan-packages/${packageId}/prices/${dietitianId}`, { method: "DELETE" });
+  };
+
+  const handleSaveExchangeRate = async () => {
+    if (!rateForm.rate.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/admin/exchange-rates", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currency: rateForm.currency,
+          rateToNgn: Number(rateForm.rate.replace(/[^0-9.]/g, "")),
+          effectiveFrom: rateForm.effectiveFrom ? new Date(rateForm.effectiveFrom).toISOString() : null,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save exchange rate");
+      }
+      setExchangeRates((prev) =>
+        [data.rate, ...prev].sort(
+          (a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime()
+        )
+      );
+      setRateForm((prev) => ({ ...prev, rate: "", effectiveFrom: "" }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save exchange rate");
+    } finally {
+      setSaving(false);
+    }
   };
 
+  // The rate each currency is converted at today
+  const currentRates = OTHER_CURRENCIES.map((code) => ({
+    currency: code,
+    rate: exchangeRates.find(
+      (rate) => rate.currency === code && new Date(rate.effectiveFrom).getTime() <= Date.now()
+    ),
+  }));
+
   return (
     <div className="space-y-8">
       <div>
@@ -80,7 +218,7 @@ export default function AdminPricingPage() {
               </Label>
               <Input
                 id="session-price"
-                defaultValue="₦15,000"
+                defaultValue={formatMoney(15000, BASE_CURRENCY)}
                 className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
               />
             </div>
@@ -105,6 +243,11 @@ export default function AdminPricingPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {error && (
+              <div className="rounded-md border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm text-red-300">
+                {error}
+              </div>
+            )}
             <div className="space-y-2">
               <Label className="text-white/80" htmlFor="plan-name">
                 Package name
@@ -113,36 +256,58 @@ export default function AdminPricingPage() {
                 id="plan-name"
                 value={form.name}
                 onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
-                placeholder="e.g., Premium 4-week plan"
+                placeholder="e.g., 1 month meal plan"
                 className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
               />
             </div>
             <div className="space-y-2">
               <Label className="text-white/80" htmlFor="plan-price">
-                Price
+                Price ({getCurrencySymbol(BASE_CURRENCY)})
               </Label>
               <Input
                 id="plan-price"
                 value={form.price}
                 onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))}
-                placeholder="₦70,000"
+                placeholder="20000"
+                inputMode="decimal"
                 className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
               />
             </div>
+            <div className="space-y-2">
+              <Label className="text-white/80">Prices in other currencies (optional)</Label>
+              <div className="flex gap-2">
+                {OTHER_CURRENCIES.map((code) => (
+                  <Input
+                    key={code}
+                    value={form.prices[code] || ""}
+                    onChange={(e) =>
+                      setForm((f) => ({ ...f, prices: { ...f.prices, [code]: e.target.value } }))
+                    }
+                    placeholder={code}
+                    inputMode="decimal"
+                    className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+                  />
+                ))}
+              </div>
+            </div>
             <div className="space-y-2">
               <Label className="text-white/80" htmlFor="plan-details">
                 Details / deliverables
               </Label>
               <Textarea
                 id="plan-details"
-                value={form.details}
-                onChange={(e) => setForm((f) => ({ ...f, details: e.target.value }))}
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
                 placeholder="What the package includes, delivery cadence, check-ins, etc."
                 className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
               />
             </div>
             <div className="flex flex-wrap gap-3">
-              <Button className="bg-white text-black hover:bg-white/90" onClick={handleSavePackage}>
+              <Button
+                className="bg-white text-black hover:bg-white/90"
+                onClick={handleSavePackage}
+                disabled={saving}
+              >
                 {editingId ? "Update package" : "Save package"}
               </Button>
               {editingId && (
@@ -159,36 +324,120 @@ export default function AdminPricingPage() {
             <div className="pt-2 space-y-3">
               <div className="text-sm text-white/70">Existing packages</div>
               <div className="space-y-2">
-                {packages.map((p) => (
-                  <div
-                    key={p.id}
-                    className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-[#1f1f1f] bg-[#0b0b0b] px-3 py-3"
-                  >
-                    <div className="space-y-1">
-                      <div className="text-white font-medium">{p.name}</div>
-                      <div className="text-white/70 text-sm">{p.details}</div>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <div className="text-white font-semibold text-sm whitespace-nowrap">{p.price}</div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="border-white/20 text-white hover:bg-white/10"
-                        onClick={() => handleEdit(p)}
-                      >
-                        Edit
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="border-white/20 text-white hover:bg-white/10"
-                        onClick={() => handleDelete(p.id)}
-                      >
-                        Delete
-                      </Button>
+                {packages.map((p) => {
+                  const priceForm = priceForms[p.id] || { dietitianId: "", price: "" };
+                  return (
+                    <div
+                      key={p.id}
+                      className="rounded-lg border border-[#1f1f1f] bg-[#0b0b0b] px-3 py-3 space-y-3"
+                    >
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="space-y-1">
+                          <div className="text-white font-medium">
+                            {p.name}
+                            {!p.isActive && <span className="ml-2 text-xs text-white/50">(not on sale)</span>}
+                          </div>
+                          <div className="text-white/70 text-sm">{p.description}</div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <div className="text-right">
+                            <div className="text-white font-semibold text-sm whitespace-nowrap">
+                              {formatMoney(p.price, p.currency)}
+                            </div>
+                            {Object.entries(p.prices).map(([code, amount]) => (
+                              <div key={code} className="text-white/60 text-xs whitespace-nowrap">
+                                {formatMoney(amount ?? 0, code)}
+                              </div>
+                            ))}
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            onClick={() => handleEdit(p)}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            onClick={() => handleToggleActive(p)}
+                            disabled={saving}
+                          >
+                            {p.isActive ? "Disable" : "Enable"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            onClick={() => handleDelete(p.id)}
+                            disabled={saving}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2 border-t border-[#1f1f1f] pt-3">
+                        <div className="text-xs text-white/60">Practitioner prices</div>
+                        {p.dietitianPrices.map((dietitianPrice) => (
+                          <div
+                            key={dietitianPrice.dietitianId}
+                            className="flex items-center justify-between gap-3 text-sm"
+                          >
+                            <span className="text-white/80">{dietitianPrice.dietitianName || "Practitioner"}</span>
+                            <div className="flex items-center gap-3">
+                              <span className="text-white">{formatMoney(dietitianPrice.price, p.currency)}</span>
+                              <button
+                                type="button"
+                                className="text-xs text-white/60 hover:text-white"
+                                onClick={() => handleRemoveDietitianPrice(p.id, dietitianPrice.dietitianId)}
+                                disabled={saving}
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <select
+                            value={priceForm.dietitianId}
+                            onChange={(e) =>
+                              setPriceForms((prev) => ({ ...prev, [p.id]: { ...priceForm, dietitianId: e.target.value } }))
+                            }
+                            className="flex-1 rounded-md border border-[#1f1f1f] bg-[#111] px-2 py-1.5 text-sm text-white"
+                          >
+                            <option value="">Choose a practitioner</option>
+                            {dietitians.map((dietitian) => (
+                              <option key={dietitian.id} value={dietitian.id}>
+                                {dietitian.name}
+                              </option>
+                            ))}
+                          </select>
+                          <Input
+                            value={priceForm.price}
+                            onChange={(e) =>
+                              setPriceForms((prev) => ({ ...prev, [p.id]: { ...priceForm, price: e.target.value } }))
+                            }
+                            placeholder={`Price (${getCurrencySymbol(p.currency)})`}
+                            inputMode="decimal"
+                            className="sm:w-32 h-8 bg-[#111] border-[#1f1f1f] text-white"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            onClick={() => handleSetDietitianPrice(p.id)}
+                            disabled={saving || !priceForm.dietitianId || !priceForm.price.trim()}
+                          >
+                            Set price
+                          </Button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
                 {packages.length === 0 && (
                   <div className="text-sm text-white/60">No packages configured.</div>
                 )}
@@ -196,6 +445,65 @@ export default function AdminPricingPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-[#111] border-[#1f1f1f]">
+          <CardHeader>
+            <CardTitle className="text-white">Exchange rates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-white/60">
+              Used to report revenue in NGN. Each payment is converted at the rate in effect on its date; clients are
+              charged the prices set on each event type or package.
+            </p>
+            <div className="space-y-2">
+              {currentRates.map(({ currency, rate }) => (
+                <div
+                  key={currency}
+                  className="flex items-center justify-between rounded-lg border border-[#1f1f1f] bg-[#0b0b0b] px-3 py-2 text-sm"
+                >
+                  <span className="text-white">{formatMoney(1, currency)}</span>
+                  <span className="text-white/80">
+                    {rate ? `${formatMoney(rate.rateToNgn, BASE_CURRENCY)} since ${new Date(rate.effectiveFrom).toLocaleDateString()}` : "No rate set"}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <select
+                value={rateForm.currency}
+                onChange={(e) => setRateForm((prev) => ({ ...prev, currency: e.target.value }))}
+                className="rounded-md border border-[#1f1f1f] bg-[#0b0b0b] px-2 py-1.5 text-sm text-white"
+              >
+                {OTHER_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={rateForm.rate}
+                onChange={(e) => setRateForm((prev) => ({ ...prev, rate: e.target.value }))}
+                placeholder="NGN per unit"
+                inputMode="decimal"
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+              <Input
+                type="date"
+                value={rateForm.effectiveFrom}
+                onChange={(e) => setRateForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                className="bg-[#0b0b0b] border-[#1f1f1f] text-white"
+              />
+            </div>
+            <p className="text-xs text-white/50">Leave the date empty for the rate to apply from now.</p>
+            <Button
+              className="bg-white text-black hover:bg-white/90"
+              onClick={handleSaveExchangeRate}
+              disabled={saving || !rateForm.rate.trim()}
+            >
+              Save rate
+            </Button>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
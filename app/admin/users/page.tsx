@@ -1,68 +1,239 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pager } from "@/components/admin/Pager";
+import type { AdminUser } from "@/lib/admin/users";
+import type { Paginated } from "@/lib/utils/pagination";
 
-const seedUsers = [
-  { id: "u1", name: "Amaka Bello", email: "amaka@example.com", status: "active", created: "Mar 3" },
-  { id: "u2", name: "Tom Ade", email: "tom@example.com", status: "inactive", created: "Feb 18" },
-  { id: "u3", name: "Lisa John", email: "lisa@example.com", status: "active", created: "Jan 28" },
+const ROLES = [
+  { value: "", label: "All roles" },
+  { value: "USER", label: "Clients" },
+  { value: "DIETITIAN", label: "Dietitians" },
+  { value: "THERAPIST", label: "Therapists" },
+  { value: "ADMIN", label: "Admins" },
 ];
 
+const STATUSES = [
+  { value: "", label: "Any status" },
+  { value: "ACTIVE", label: "Active" },
+  { value: "PENDING_VERIFICATION", label: "Pending verification" },
+  { value: "SUSPENDED", label: "Suspended" },
+];
+
+const statusColor: Record<string, string> = {
+  ACTIVE: "bg-emerald-500/20 text-emerald-200",
+  PENDING_VERIFICATION: "bg-amber-500/20 text-amber-200",
+  SUSPENDED: "bg-red-500/20 text-red-200",
+};
+
+const selectClassName = "rounded-md border border-[#1f1f1f] bg-[#0b0b0b] px-2 py-1.5 text-sm text-white";
+
 export default function AdminUsersPage() {
-  const [users, setUsers] = useState(seedUsers);
+  const [result, setResult] = useState<Paginated<AdminUser> | null>(null);
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("");
+  const [status, setStatus] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
 
-  const handleDelete = (id: string) => {
-    setUsers((prev) => prev.filter((u) => u.id !== id));
+  const loadUsers = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search.trim()) params.set("search", search.trim());
+      if (role) params.set("role", role);
+      if (status) params.set("status", status);
+      if (from) params.set("from", dayjs(from).startOf("day").toISOString());
+      if (to) params.set("to", dayjs(to).endOf("day").toISOString());
+
+      const response = await fetch(`/api/admin/users?${params}`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load users");
+      }
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load users:", err);
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, role, status, from, to]);
+
+  useEffect(() => {
+    // Wait for the admin to stop typing before searching
+    const timeout = setTimeout(loadUsers, 300);
+    return () => clearTimeout(timeout);
+  }, [loadUsers]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const updateUser = async (user: AdminUser, body: Record<string, unknown>) => {
+    setBusyId(user.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleChangeRole = (user: AdminUser, newRole: string) => {
+    if (newRole === user.role) return;
+    if (!window.confirm(`Make ${user.name || user.email} a ${newRole.toLowerCase()}?`)) return;
+    updateUser(user, { role: newRole });
+  };
+
+  const handleToggleSuspended = (user: AdminUser) => {
+    const suspended = user.accountStatus !== "SUSPENDED";
+    const notes = window.prompt(
+      suspended ? `Why is ${user.name || user.email} being suspended?` : "Any note for the reactivation? (optional)"
+    );
+    if (notes === null) return;
+    updateUser(user, { suspended, notes });
   };
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-2xl font-semibold text-white">Users</h1>
-        <p className="text-white/60">Manage patients and their access.</p>
+        <p className="text-white/60">Manage accounts, roles and access.</p>
       </div>
 
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+      )}
+
       <Card className="bg-[#111] border-[#1f1f1f]">
-        <CardHeader>
+        <CardHeader className="space-y-3">
           <CardTitle className="text-white">Directory</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={search}
+              onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              placeholder="Search name or email"
+              className="bg-[#0b0b0b] border-[#1f1f1f] text-white w-full sm:w-64"
+            />
+            <select value={role} onChange={(e) => updateFilter(setRole)(e.target.value)} className={selectClassName}>
+              {ROLES.map((option) => (
+                <option key={option.value || "all"} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select value={status} onChange={(e) => updateFilter(setStatus)(e.target.value)} className={selectClassName}>
+              {STATUSES.map((option) => (
+                <option key={option.value || "all"} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              Joined from
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                className={selectClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              to
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+                className={selectClassName}
+              />
+            </label>
+          </div>
         </CardHeader>
-        <CardContent className="divide-y divide-[#1f1f1f]">
-          {users.length === 0 ? (
-            <div className="py-4 text-sm text-white/60">No users.</div>
-          ) : (
-            users.map((user) => (
-              <div
-                key={user.id}
-                className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
-              >
-                <div>
-                  <div className="font-medium text-white">{user.name}</div>
-                  <div className="text-white/60">{user.email}</div>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span
-                    className={`px-3 py-1 rounded-full text-xs font-medium ${
-                      user.status === "active"
-                        ? "bg-emerald-500/20 text-emerald-200"
-                        : "bg-amber-500/20 text-amber-200"
-                    }`}
-                  >
-                    {user.status}
-                  </span>
-                  <span className="text-white/50">Joined {user.created}</span>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    className="border-white/20 text-white hover:bg-white/10"
-                    onClick={() => handleDelete(user.id)}
-                  >
-                    Delete
-                  </Button>
+        <CardContent>
+          <div className="divide-y divide-[#1f1f1f]">
+            {loading ? (
+              <div className="py-4 text-sm text-white/60">Loading...</div>
+            ) : !result || result.items.length === 0 ? (
+              <div className="py-4 text-sm text-white/60">No users match these filters.</div>
+            ) : (
+              result.items.map((user) => (
+                <div
+                  key={user.id}
+                  className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-sm text-white/80"
+                >
+                  <div>
+                    <div className="font-medium text-white">{user.name || "Unnamed"}</div>
+                    <div className="text-white/60">{user.email}</div>
+                    <div className="text-white/50 text-xs">
+                      Joined {dayjs(user.createdAt).format("MMM D, YYYY")} · {user.bookingsCount} bookings
+                      {user.lastSignInAt ? ` · Last sign in ${dayjs(user.lastSignInAt).format("MMM D")}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        statusColor[user.accountStatus] || "bg-white/10 text-white/70"
+                      }`}
+                    >
+                      {user.accountStatus.replace("_", " ").toLowerCase()}
+                    </span>
+                    <select
+                      value={user.role}
+                      disabled={busyId === user.id}
+                      onChange={(e) => handleChangeRole(user, e.target.value)}
+                      className={selectClassName}
+                    >
+                      {ROLES.filter((option) => option.value).map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.value.charAt(0) + option.value.slice(1).toLowerCase()}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/20 text-white hover:bg-white/10"
+                      disabled={busyId === user.id || user.accountStatus === "PENDING_VERIFICATION"}
+                      onClick={() => handleToggleSuspended(user)}
+                    >
+                      {user.accountStatus === "SUSPENDED" ? "Reactivate" : "Suspend"}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))
+              ))
+            )}
+          </div>
+          {result && (
+            <Pager
+              page={result.page}
+              totalPages={result.totalPages}
+              total={result.total}
+              disabled={loading}
+              onPageChange={setPage}
+            />
           )}
         </CardContent>
       </Card>
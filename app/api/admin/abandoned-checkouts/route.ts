@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { getAbandonedCheckoutStats } from "@/lib/payments/abandoned-checkouts";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: How many clients emailed a resume link after abandoning checkout came back and paid
+// Optional query param: from (ISO date; counts checkouts emailed from then)
+export const GET = withPermission("admin:analytics:view", async (request: NextRequest) => {
+  try {
+    const stats = await getAbandonedCheckoutStats({
+      from: request.nextUrl.searchParams.get("from") || undefined,
+    });
+    return NextResponse.json({ stats });
+  } catch (error) {
+    return handleError(error, "Failed to fetch abandoned checkout stats");
+  }
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { ANALYTICS_INTERVALS, getPlatformAnalytics, type AnalyticsInterval } from "@/lib/admin/analytics";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Platform analytics for a date range, by default the last 30 days
+// Query: ?from&to (ISO 8601, to is exclusive)&dietitianId&interval=day|week|month
+export const GET = withPermission("admin:analytics:view", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const interval = searchParams.get("interval");
+    if (interval && !ANALYTICS_INTERVALS.includes(interval as AnalyticsInterval)) {
+      return NextResponse.json({ error: `Unknown interval: ${interval}` }, { status: 400 });
+    }
+
+    const to = searchParams.get("to") || new Date().toISOString();
+    const from = searchParams.get("from") || dayjs(to).subtract(30, "day").toISOString();
+
+    const analytics = await getPlatformAnalytics({
+      from,
+      to,
+      dietitianId: searchParams.get("dietitianId"),
+      interval: interval as AnalyticsInterval | null,
+    });
+    return NextResponse.json({ analytics });
+  } catch (error) {
+    return handleError(error, "Failed to fetch analytics");
+  }
+});
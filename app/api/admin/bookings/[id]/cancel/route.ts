@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { cancelBooking } from "@/lib/bookings/cancellation";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// POST: Cancel a booking as an admin, with a full refund, even once the session has started
+// Body: { reason? }
+export const POST = withPermission<{ id: string }>("book:cancel:any", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : undefined;
+
+    const result = await cancelBooking({ bookingId: id, actor: admin, reason: reason || undefined });
+    return NextResponse.json({ booking: result.booking, refund: result.refund });
+  } catch (error) {
+    return handleError(error, "Failed to cancel booking");
+  }
+});
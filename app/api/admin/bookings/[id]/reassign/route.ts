@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { reassignBooking } from "@/lib/bookings/reassign";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// POST: Move a booking to another practitioner at the same time
+// Body: { dietitianId }
+export const POST = withPermission<{ id: string }>("book:reassign:any", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (!body.dietitianId || typeof body.dietitianId !== "string") {
+      return NextResponse.json({ error: "Choose a practitioner" }, { status: 400 });
+    }
+
+    const result = await reassignBooking({ bookingId: id, dietitianId: body.dietitianId, adminId: admin.id });
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleError(error, "Failed to reassign booking");
+  }
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { BOOKING_STATUSES, listAdminBookings } from "@/lib/admin/bookings";
+import { parsePagination } from "@/lib/utils/pagination";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Bookings, latest session first
+// Query: ?search&status&dietitianId&from&to&sort=asc|desc&page&pageSize (from/to filter on the start time)
+export const GET = withPermission("book:view:all", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status");
+    if (status && !BOOKING_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const bookings = await listAdminBookings(
+      {
+        search: searchParams.get("search"),
+        status,
+        dietitianId: searchParams.get("dietitianId"),
+        from: searchParams.get("from"),
+        to: searchParams.get("to"),
+        sort: searchParams.get("sort") === "asc" ? "asc" : "desc",
+      },
+      parsePagination(searchParams)
+    );
+    return NextResponse.json(bookings);
+  } catch (error) {
+    return handleError(error, "Failed to fetch bookings");
+  }
+});
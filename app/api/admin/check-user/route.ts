@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Check user status - auth user and database user
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const email = searchParams.get("email");
@@ -109,4 +110,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireAdminFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Admin endpoint to clean up users created from therapy/therapist enrollment flow
@@ -9,11 +9,8 @@ import { requireAdminFromRequest } from "@/lib/auth-helpers";
  * GET: List users that need cleanup
  * DELETE: Delete specified users (requires user IDs in body)
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:users:view", async () => {
   try {
-    // Require admin authentication
-    await requireAdminFromRequest(request);
-
     const supabaseAdmin = createAdminClientServer();
 
     // Find users with signup_source="therapy" and role="USER"
@@ -44,26 +41,16 @@ export async function GET(request: NextRequest) {
       message: `Found ${therapyUsers?.length || 0} users with signup_source="therapy" and role="USER"`,
     });
   } catch (error: any) {
-    if (error.message?.includes("Unauthorized") || error.message?.includes("Admin")) {
-      return NextResponse.json(
-        { error: "Unauthorized: Admin access required" },
-        { status: 401 }
-      );
-    }
-
     console.error("Error in cleanup-therapy-users GET:", error);
     return NextResponse.json(
       { error: "Failed to fetch users", details: error?.message || "Unknown error" },
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission("admin:users:delete", async (request: NextRequest) => {
   try {
-    // Require admin authentication
-    await requireAdminFromRequest(request);
-
     const body = await request.json();
     const { userIds, confirm } = body;
 
@@ -191,18 +178,11 @@ export async function DELETE(request: NextRequest) {
       message: `Successfully deleted ${deletedUsers.length} user(s). ${errors.length > 0 ? `${errors.length} error(s) occurred.` : ""}`,
     });
   } catch (error: any) {
-    if (error.message?.includes("Unauthorized") || error.message?.includes("Admin")) {
-      return NextResponse.json(
-        { error: "Unauthorized: Admin access required" },
-        { status: 401 }
-      );
-    }
-
     console.error("Error in cleanup-therapy-users DELETE:", error);
     return NextResponse.json(
       { error: "Failed to delete users", details: error?.message || "Unknown error" },
       { status: 500 }
     );
   }
-}
+});
 
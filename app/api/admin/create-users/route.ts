@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Admin endpoint to create user records in the database
  * This matches existing auth users with database records
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const supabaseAdmin = createAdminClientServer();
     const body = await request.json();
@@ -162,4 +163,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
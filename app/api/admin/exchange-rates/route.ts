@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { listExchangeRates, setExchangeRate } from "@/lib/payments/exchange-rates";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Exchange rates to NGN, newest first, including earlier rates still used for older payments
+export const GET = withPermission("admin:payments:manage", async () => {
+  try {
+    const rates = await listExchangeRates();
+    return NextResponse.json({ rates });
+  } catch (error) {
+    return handleError(error, "Failed to fetch exchange rates");
+  }
+});
+
+// POST: Set a new rate for a currency, from now or from effectiveFrom
+// Body: { currency, rateToNgn, effectiveFrom? }
+export const POST = withPermission("admin:payments:manage", async (request: NextRequest, { user: admin }) => {
+  try {
+    const body = await request.json();
+
+    const rate = await setExchangeRate(body.currency, Number(body.rateToNgn), {
+      effectiveFrom: body.effectiveFrom || null,
+      createdBy: admin.id,
+    });
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    return handleError(error, "Failed to save exchange rate");
+  }
+});
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Fix dietitian user - create or update database record for michaelasereoo@gmail.com
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const email = "michaelasereoo@gmail.com";
     const supabaseAdmin = createAdminClientServer();
@@ -128,4 +129,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { createGoogleMeetLinkOnly } from "@/lib/google-calendar";
 
 /**
@@ -13,25 +13,8 @@ import { createGoogleMeetLinkOnly } from "@/lib/google-calendar";
  * - dietitianId: Only process bookings for a specific dietitian
  * - status: Only process bookings with specific status (default: CONFIRMED, PENDING)
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:settings:manage", async (request: NextRequest) => {
   try {
-    // TEMPORARY: Admin auth disabled - uncomment below to re-enable
-    /*
-    // Check authentication and admin access
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const isAdmin = currentUser.role === "ADMIN" || currentUser.is_admin;
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: "Forbidden: Admin access required" },
-        { status: 403 }
-      );
-    }
-    */
-
     const supabaseAdmin = createAdminClientServer();
     const { searchParams } = new URL(request.url);
     
@@ -161,31 +144,14 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/admin/generate-meeting-links
  * Get statistics about bookings without meeting links
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:settings:manage", async (request: NextRequest) => {
   try {
-    // TEMPORARY: Admin auth disabled - uncomment below to re-enable
-    /*
-    // Check authentication and admin access
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const isAdmin = currentUser.role === "ADMIN" || currentUser.is_admin;
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: "Forbidden: Admin access required" },
-        { status: 403 }
-      );
-    }
-    */
-
     const supabaseAdmin = createAdminClientServer();
     const { searchParams } = new URL(request.url);
     const dietitianId = searchParams.get("dietitianId");
@@ -238,5 +204,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
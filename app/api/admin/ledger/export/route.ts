@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { ledgerEntriesToCsv, listLedgerEntries, syncLedgerEntries } from "@/lib/payments/ledger";
+import { getNgnConverter } from "@/lib/payments/exchange-rates";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: The ledger as a CSV download (same query params as /api/admin/ledger)
+export const GET = withPermission("admin:payments:manage", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    await syncLedgerEntries();
+
+    const entries = await listLedgerEntries({
+      practitionerId: searchParams.get("practitionerId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    const filename = `daiyet-ledger-${new Date().toISOString().slice(0, 10)}.csv`;
+    return new NextResponse(ledgerEntriesToCsv(entries, await getNgnConverter()), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleError(error, "Failed to export ledger");
+  }
+});
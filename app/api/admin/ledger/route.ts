@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { getLedgerTotals, listLedgerEntries, syncLedgerEntries } from "@/lib/payments/ledger";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Ledger entries with gross, commission and net totals in NGN
+// Optional query params: practitionerId, from, to (ISO dates; to is exclusive)
+export const GET = withPermission("admin:payments:manage", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Pick up payments recorded outside the confirmation flow
+    await syncLedgerEntries();
+
+    const entries = await listLedgerEntries({
+      practitionerId: searchParams.get("practitionerId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    // In NGN, converting each entry at the exchange rate when it was paid
+    const totals = await getLedgerTotals(entries);
+
+    return NextResponse.json({ entries, totals });
+  } catch (error) {
+    return handleError(error, "Failed to fetch ledger");
+  }
+});
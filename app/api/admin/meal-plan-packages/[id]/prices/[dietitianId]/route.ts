@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { removeDietitianPackagePrice, setDietitianPackagePrice } from "@/lib/payments/meal-plan-packages";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PUT: Set what a meal plan package costs with one practitioner
+export const PUT = withPermission<{ id: string; dietitianId: string }>("admin:settings:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id, dietitianId } = await Promise.resolve(params);
+    const { price } = await request.json();
+
+    const dietitianPrice = await setDietitianPackagePrice(id, dietitianId, Number(price));
+    return NextResponse.json({ price: dietitianPrice });
+  } catch (error) {
+    return handleError(error, "Failed to set meal plan price");
+  }
+});
+
+// DELETE: Charge the package's own price with this practitioner again
+export const DELETE = withPermission<{ id: string; dietitianId: string }>("admin:settings:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id, dietitianId } = await Promise.resolve(params);
+
+    await removeDietitianPackagePrice(id, dietitianId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, "Failed to remove meal plan price");
+  }
+});
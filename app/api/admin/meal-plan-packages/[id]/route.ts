@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { deleteMealPlanPackage, updateMealPlanPackage } from "@/lib/payments/meal-plan-packages";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PATCH: Edit a meal plan package or take it off sale. Requests already made are unchanged.
+export const PATCH = withPermission<{ id: string }>("admin:settings:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    const mealPlanPackage = await updateMealPlanPackage(id, {
+      name: body.name,
+      description: body.description,
+      price: body.price !== undefined ? Number(body.price) : undefined,
+      currency: body.currency,
+      prices: body.prices,
+      isActive: body.isActive,
+      sortOrder: body.sortOrder,
+    });
+    return NextResponse.json({ package: mealPlanPackage });
+  } catch (error) {
+    return handleError(error, "Failed to update meal plan package");
+  }
+});
+
+// DELETE: Remove a meal plan package
+export const DELETE = withPermission<{ id: string }>("admin:settings:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+
+    await deleteMealPlanPackage(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, "Failed to delete meal plan package");
+  }
+});
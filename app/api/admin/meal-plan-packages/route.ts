@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { createMealPlanPackage, listAdminMealPlanPackages } from "@/lib/payments/meal-plan-packages";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Every meal plan package, including those not on sale, with practitioner prices
+export const GET = withPermission("admin:settings:manage", async () => {
+  try {
+    const packages = await listAdminMealPlanPackages();
+    return NextResponse.json({ packages });
+  } catch (error) {
+    return handleError(error, "Failed to fetch meal plan packages");
+  }
+});
+
+// POST: Create a meal plan package
+export const POST = withPermission("admin:settings:manage", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    const mealPlanPackage = await createMealPlanPackage({
+      id: body.id,
+      name: body.name,
+      description: body.description,
+      price: Number(body.price),
+      currency: body.currency,
+      prices: body.prices,
+      isActive: body.isActive,
+      sortOrder: body.sortOrder ?? null,
+    });
+    return NextResponse.json({ package: mealPlanPackage }, { status: 201 });
+  } catch (error) {
+    return handleError(error, "Failed to create meal plan package");
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { resendMealPlan } from "@/lib/admin/meal-plans";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// POST: Email a sent meal plan to the client again (id is the meal plan, not the request)
+export const POST = withPermission<{ id: string }>("meal-plan:manage:any", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+
+    await resendMealPlan(id, admin.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleError(error, "Failed to resend meal plan");
+  }
+});
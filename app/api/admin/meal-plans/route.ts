@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { MEAL_PLAN_REQUEST_STATUSES, listAdminMealPlans } from "@/lib/admin/meal-plans";
+import { parsePagination } from "@/lib/utils/pagination";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Meal plan requests with their payment and sent plan, newest first
+// Query: ?search&status&dietitianId&from&to&page&pageSize (from/to filter on when they were requested)
+export const GET = withPermission("meal-plan:view:all", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status");
+    if (status && !MEAL_PLAN_REQUEST_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const mealPlans = await listAdminMealPlans(
+      {
+        search: searchParams.get("search"),
+        status,
+        dietitianId: searchParams.get("dietitianId"),
+        from: searchParams.get("from"),
+        to: searchParams.get("to"),
+      },
+      parsePagination(searchParams)
+    );
+    return NextResponse.json(mealPlans);
+  } catch (error) {
+    return handleError(error, "Failed to fetch meal plans");
+  }
+});
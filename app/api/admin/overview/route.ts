@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { getAdminOverview } from "@/lib/admin/overview";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Headline numbers and the next confirmed sessions for the admin home page
+export const GET = withPermission("admin:analytics:view", async () => {
+  try {
+    const overview = await getAdminOverview();
+    return NextResponse.json({ overview });
+  } catch (error) {
+    return handleError(error, "Failed to fetch overview");
+  }
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { markPayoutBatchPaid } from "@/lib/payments/payouts";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PATCH: Mark a pending payout as paid with the transfer reference
+export const PATCH = withPermission<{ id: string }>("admin:payments:manage", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const { reference } = await request.json();
+
+    const batch = await markPayoutBatchPaid(id, reference, admin.id);
+    return NextResponse.json({ batch });
+  } catch (error) {
+    return handleError(error, "Failed to update payout");
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { syncLedgerEntries } from "@/lib/payments/ledger";
+import { createPayoutBatch, listPayoutBatches, listPractitionerBalances } from "@/lib/payments/payouts";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Unpaid balances per practitioner and every payout batch
+export const GET = withPermission("admin:payments:manage", async () => {
+  try {
+    // Pick up payments recorded outside the confirmation flow
+    await syncLedgerEntries();
+
+    const [balances, batches] = await Promise.all([listPractitionerBalances(), listPayoutBatches()]);
+    return NextResponse.json({ balances, batches });
+  } catch (error) {
+    return handleError(error, "Failed to fetch payouts");
+  }
+});
+
+// POST: Batch a practitioner's unpaid ledger entries into a pending payout
+export const POST = withPermission("admin:payments:manage", async (request: NextRequest, { user: admin }) => {
+  try {
+    const { practitionerId } = await request.json();
+
+    if (!practitionerId) {
+      return NextResponse.json({ error: "practitionerId is required" }, { status: 400 });
+    }
+
+    const batch = await createPayoutBatch(practitionerId, admin.id);
+    return NextResponse.json({ batch }, { status: 201 });
+  } catch (error) {
+    return handleError(error, "Failed to create payout");
+  }
+});
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { setCommissionPercent } from "@/lib/payments/payouts";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PATCH: Set the practitioner's platform commission (null uses the platform default)
+export const PATCH = withPermission<{ id: string }>("admin:payments:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const { commissionPercent } = await request.json();
+
+    const value = commissionPercent === null || commissionPercent === "" ? null : Number(commissionPercent);
+    await setCommissionPercent(id, value);
+    return NextResponse.json({ commissionPercent: value });
+  } catch (error) {
+    return handleError(error, "Failed to update commission");
+  }
+});
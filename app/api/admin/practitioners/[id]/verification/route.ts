@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { reviewPractitioner, type VerificationAction } from "@/lib/practitioners/verification";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// POST: Review a practitioner; the practitioner is emailed the outcome and any notes
+// Body: { action: "approve" | "reject" | "request_info" | "suspend" | "reinstate", notes? }
+export const POST = withPermission<{ id: string }>("admin:users:edit", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    const practitioner = await reviewPractitioner(id, body.action as VerificationAction, {
+      notes: body.notes,
+      adminId: admin.id,
+    });
+    return NextResponse.json({ practitioner });
+  } catch (error) {
+    return handleError(error, "Failed to review practitioner");
+  }
+});
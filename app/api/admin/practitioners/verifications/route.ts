@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { listPractitionerVerifications, type VerificationStatus } from "@/lib/practitioners/verification";
+
+const STATUS_FILTERS = ["PENDING", "MORE_INFO_REQUESTED", "APPROVED", "REJECTED", "SUSPENDED"];
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Practitioners with their credentials and review history, for the verification queue
+// Query: ?status=PENDING|MORE_INFO_REQUESTED|APPROVED|REJECTED|SUSPENDED (all practitioners by default)
+export const GET = withPermission("admin:users:view", async (request: NextRequest) => {
+  try {
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !STATUS_FILTERS.includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const practitioners = await listPractitionerVerifications({
+      status: status as VerificationStatus | "SUSPENDED" | null,
+    });
+    return NextResponse.json({ practitioners });
+  } catch (error) {
+    return handleError(error, "Failed to fetch verifications");
+  }
+});
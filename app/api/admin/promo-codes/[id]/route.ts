@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { setPromoCodeActive } from "@/lib/payments/promo-codes";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PATCH: Activate or deactivate a promo code
+export const PATCH = withPermission<{ id: string }>("admin:payments:manage", async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const { isActive } = await request.json();
+
+    if (typeof isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be true or false" }, { status: 400 });
+    }
+
+    const promoCode = await setPromoCodeActive(id, isActive);
+    return NextResponse.json({ promoCode });
+  } catch (error) {
+    return handleError(error, "Failed to update promo code");
+  }
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import {
+  createPromoCode,
+  listPromoCodes,
+  listPromoEventTypeOptions,
+  listPromoRedemptions,
+} from "@/lib/payments/promo-codes";
+import { listMealPlanPackages } from "@/lib/payments/meal-plan-packages";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Every promo code with its usage, the latest redemptions and the event types and meal plan
+// packages codes can be limited to
+export const GET = withPermission("admin:payments:manage", async () => {
+  try {
+    const [promoCodes, redemptions, eventTypes, mealPlanPackages] = await Promise.all([
+      listPromoCodes(),
+      listPromoRedemptions(),
+      listPromoEventTypeOptions(),
+      listMealPlanPackages({ activeOnly: false }),
+    ]);
+    return NextResponse.json({ promoCodes, redemptions, eventTypes, mealPlanPackages });
+  } catch (error) {
+    return handleError(error, "Failed to fetch promo codes");
+  }
+});
+
+// POST: Create a promo code
+export const POST = withPermission("admin:payments:manage", async (request: NextRequest, { user: admin }) => {
+  try {
+    const body = await request.json();
+
+    const promoCode = await createPromoCode(
+      {
+        code: body.code,
+        description: body.description,
+        discountType: body.discountType,
+        discountValue: Number(body.discountValue),
+        expiresAt: body.expiresAt || null,
+        maxRedemptions: body.maxRedemptions ?? null,
+        perUserLimit: body.perUserLimit ?? null,
+        eventTypeIds: Array.isArray(body.eventTypeIds) ? body.eventTypeIds : [],
+        mealPlanPackageIds: Array.isArray(body.mealPlanPackageIds) ? body.mealPlanPackageIds : [],
+      },
+      admin.id
+    );
+    return NextResponse.json({ promoCode }, { status: 201 });
+  } catch (error) {
+    return handleError(error, "Failed to create promo code");
+  }
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getEmailTemplate } from "@/lib/email/templates";
 import { sendBrevoEmail } from "@/lib/email/brevo";
+import { withPermission } from "@/lib/auth/permissions";
 
 type EmailType = 
   | "booking_confirmation"
@@ -12,7 +13,7 @@ type EmailType =
   | "payment_confirmation"
   | "booking_rescheduled";
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { emailType, recipientEmail, preview } = body;
@@ -70,7 +71,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 function generateTestData(emailType: EmailType) {
   const baseData = {
@@ -134,7 +135,7 @@ function generateTestData(emailType: EmailType) {
     case "payment_confirmation":
       return {
         ...baseData,
-        amount: "15,000",
+        amount: "15000",
         currency: "NGN",
         transactionId: "TXN-TEST-123456"
       };
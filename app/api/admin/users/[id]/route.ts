@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { changeUserRole, setUserSuspended } from "@/lib/admin/users";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// PATCH: Change a user's role, or suspend or reactivate their account
+// Body: { role } or { suspended: boolean, notes? } (notes are emailed to suspended practitioners)
+export const PATCH = withPermission<{ id: string }>("admin:users:edit", async (request: NextRequest, { params, user: admin }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    if (typeof body.role === "string") {
+      const user = await changeUserRole(id, body.role, admin.id);
+      return NextResponse.json({ user });
+    }
+    if (typeof body.suspended === "boolean") {
+      const user = await setUserSuspended(id, body.suspended, { notes: body.notes, adminId: admin.id });
+      return NextResponse.json({ user });
+    }
+
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  } catch (error) {
+    return handleError(error, "Failed to update user");
+  }
+});
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { ACCOUNT_STATUSES, USER_ROLES, listAdminUsers } from "@/lib/admin/users";
+import { parsePagination } from "@/lib/utils/pagination";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: Users, newest first
+// Query: ?search&role&status&from&to&page&pageSize (from/to filter on when they joined)
+export const GET = withPermission("admin:users:view", async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const role = searchParams.get("role");
+    const status = searchParams.get("status");
+    if (role && !USER_ROLES.includes(role as (typeof USER_ROLES)[number])) {
+      return NextResponse.json({ error: `Unknown role: ${role}` }, { status: 400 });
+    }
+    if (status && !ACCOUNT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const users = await listAdminUsers(
+      {
+        search: searchParams.get("search"),
+        role,
+        status,
+        from: searchParams.get("from"),
+        to: searchParams.get("to"),
+      },
+      parsePagination(searchParams)
+    );
+    return NextResponse.json(users);
+  } catch (error) {
+    return handleError(error, "Failed to fetch users");
+  }
+});
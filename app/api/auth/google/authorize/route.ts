@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { google } from "googleapis";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async (request: NextRequest) => {
   try {
     // Check if Google OAuth credentials are configured
     const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
@@ -72,4 +73,4 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.redirect(errorUrl);
   }
-}
+});
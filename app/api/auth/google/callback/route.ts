@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
 import { createClient } from "@/lib/supabase/server/client";
 import { google } from "googleapis";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async (request: NextRequest) => {
   const requestUrl = new URL(request.url);
   const code = requestUrl.searchParams.get("code");
   const state = requestUrl.searchParams.get("state");
@@ -150,4 +151,4 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.redirect(new URL(`/dashboard/settings/calendars?error=${errorParam}`, request.url));
   }
-}
+});
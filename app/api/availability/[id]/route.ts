@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch single availability schedule by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -101,27 +97,17 @@ export async function GET(
       },
     });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching schedule:", error);
     return NextResponse.json(
       { error: "Failed to fetch schedule", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update availability schedule
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -307,27 +293,17 @@ export async function PUT(
       },
     });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error updating schedule:", error);
     return NextResponse.json(
       { error: "Failed to update schedule", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE: Delete availability schedule
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -374,19 +350,13 @@ export async function DELETE(
 
     return NextResponse.json({ message: "Schedule deleted successfully" });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error deleting schedule:", error);
     return NextResponse.json(
       { error: "Failed to delete schedule", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // Helper function to format time
 function formatTime(time: string): string {
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch single OOO period by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -44,27 +40,17 @@ export async function GET(
 
     return NextResponse.json({ period: formattedPeriod });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching OOO period:", error);
     return NextResponse.json(
       { error: "Failed to fetch out-of-office period", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update OOO period
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -144,27 +130,17 @@ export async function PUT(
 
     return NextResponse.json({ period: formattedPeriod });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error updating out-of-office period:", error);
     return NextResponse.json(
       { error: "Failed to update out-of-office period", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE: Delete OOO period
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -202,17 +178,11 @@ export async function DELETE(
 
     return NextResponse.json({ message: "Out-of-office period deleted successfully" });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error deleting out-of-office period:", error);
     return NextResponse.json(
       { error: "Failed to delete out-of-office period", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
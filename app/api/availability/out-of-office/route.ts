@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch all out-of-office periods for authenticated dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -38,24 +37,17 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ periods: formattedPeriods });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching out-of-office periods:", error);
     return NextResponse.json(
       { error: "Failed to fetch out-of-office periods", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create new out-of-office period
-export async function POST(request: NextRequest) {
+export const POST = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -117,17 +109,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ period: formattedPeriod });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error creating out-of-office period:", error);
     return NextResponse.json(
       { error: "Failed to create out-of-office period", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch single override by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -59,27 +55,17 @@ export async function GET(
 
     return NextResponse.json({ override: formattedOverride });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching override:", error);
     return NextResponse.json(
       { error: "Failed to fetch override", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update override
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -192,27 +178,17 @@ export async function PUT(
 
     return NextResponse.json({ override: formattedOverride });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error updating override:", error);
     return NextResponse.json(
       { error: "Failed to update override", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE: Delete override
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("availability:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -251,17 +227,11 @@ export async function DELETE(
 
     return NextResponse.json({ message: "Override deleted successfully" });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error deleting override:", error);
     return NextResponse.json(
       { error: "Failed to delete override", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch all date overrides for authenticated dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -55,24 +54,17 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ overrides: formattedOverrides });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching date overrides:", error);
     return NextResponse.json(
       { error: "Failed to fetch date overrides", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create new date override(s)
-export async function POST(request: NextRequest) {
+export const POST = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -188,17 +180,11 @@ export async function POST(request: NextRequest) {
       message: `Successfully created ${createdOverrides.length} override(s)`,
     });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error creating date overrides:", error);
     return NextResponse.json(
       { error: "Failed to create date overrides", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
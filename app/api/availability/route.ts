@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch all availability schedules for authenticated dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -69,24 +68,17 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ schedules: formattedSchedules });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching availability schedules:", error);
     return NextResponse.json(
       { error: "Failed to fetch availability schedules", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create a new availability schedule
-export async function POST(request: NextRequest) {
+export const POST = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -210,19 +202,13 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error creating availability schedule:", error);
     return NextResponse.json(
       { error: "Failed to create availability schedule", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // Helper function to format time
 function formatTime(time: string): string {
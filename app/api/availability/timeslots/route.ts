@@ -1,17 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withOptionalUser } from "@/lib/auth/permissions";
 import {
   calculateSlotsForDateRange,
+  getBookingLimitsFromEventType,
   type AvailabilitySlot,
+  type BookingLimits,
   type DateOverride,
   type OutOfOfficePeriod,
 } from "@/lib/availability/calculate-timeslots";
 import { TimezoneHelper } from "@/lib/utils/timezone";
+import { isSlotBlocking } from "@/lib/bookings/holds";
+import { getOutOfOfficeNotices } from "@/lib/availability/out-of-office";
+import { isPractitionerActive } from "@/lib/practitioners/verification";
 
 // GET: Calculate available timeslots for a date range
 // Now allows both authenticated users and dietitians to query any dietitian's availability
-export async function GET(request: NextRequest) {
+export const GET = withOptionalUser(async (request: NextRequest, { user: currentUser }) => {
   console.log('🎯 [DEBUG] Timeslots API called with params:', {
     url: request.url,
     searchParams: Object.fromEntries(request.nextUrl.searchParams.entries()),
@@ -26,7 +31,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const startDateStr = searchParams.get("startDate");
     const endDateStr = searchParams.get("endDate");
-    const durationMinutes = parseInt(searchParams.get("duration") || "30", 10);
+    let durationMinutes = parseInt(searchParams.get("duration") || "30", 10);
     const targetDietitianId = searchParams.get("dietitianId");
     const eventTypeId = searchParams.get("eventTypeId");
     
@@ -40,7 +45,6 @@ export async function GET(request: NextRequest) {
     
     // Allow unauthenticated users to query availability for booking
     // If authenticated, check if they're querying their own availability
-    const currentUser = await getCurrentUserFromRequest(request);
     const dietitianId = ((currentUser?.role === "DIETITIAN" || currentUser?.role === "THERAPIST") && targetDietitianId === currentUser.id) 
       ? currentUser.id 
       : targetDietitianId;
@@ -86,6 +90,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Practitioners still being verified or suspended can't be booked, but can see their own slots
+    if (dietitianId !== currentUser?.id && !(await isPractitionerActive(dietitianId))) {
+      return NextResponse.json(
+        { error: "Dietitian/Therapist not found" },
+        { status: 404 }
+      );
+    }
+
     if (!startDateStr || !endDateStr) {
       return NextResponse.json(
         { error: "startDate and endDate query parameters are required" },
@@ -112,12 +124,14 @@ export async function GET(request: NextRequest) {
 
     // Determine which schedule to use
     let scheduleIdToUse: string | null = null;
+    let bookingLimits: BookingLimits = {};
+    let slotIntervalMinutes: number | null = null;
     
     if (eventTypeId) {
       // Check if event type has a specific availability schedule
       const { data: eventType, error: eventTypeError } = await supabaseAdmin
         .from("event_types")
-        .select("availability_schedule_id, user_id")
+        .select("id, availability_schedule_id, user_id, length, slot_interval, seats_per_slot, before_event_buffer, after_event_buffer, minimum_booking_notice, booking_horizon_days, max_bookings_per_day")
         .eq("id", eventTypeId)
         .single();
       // #region agent log
@@ -138,6 +152,10 @@ export async function GET(request: NextRequest) {
         
         // If event type has specific schedule, use it; otherwise will use default
         scheduleIdToUse = eventType.availability_schedule_id;
+        bookingLimits = getBookingLimitsFromEventType(eventType);
+        // Sessions always last the event type's full length; the interval only controls start times
+        durationMinutes = eventType.length || durationMinutes;
+        slotIntervalMinutes = eventType.slot_interval || null;
         // #region agent log
         fetch('http://127.0.0.1:7242/ingest/47c98e00-030f-46e7-b782-5ff73cdaf6f4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'timeslots/route.ts:80',message:'Schedule ID determined',data:{scheduleIdToUse},timestamp:Date.now(),sessionId:'debug-session',runId:'initial',hypothesisId:'C'})}).catch(()=>{});
         // #endregion
@@ -323,7 +341,7 @@ export async function GET(request: NextRequest) {
     // Fetch existing bookings in the date range
     const { data: bookings, error: bookingsError } = await supabaseAdmin
       .from("bookings")
-      .select("start_time, end_time, status")
+      .select("user_id, event_type_id, group_session_id, start_time, end_time, status, hold_expires_at")
       .eq("dietitian_id", targetDietitianId)
       .gte("start_time", startDate.toISOString())
       .lte("end_time", endDate.toISOString())
@@ -337,7 +355,7 @@ export async function GET(request: NextRequest) {
     // Fetch out-of-office periods that overlap with the date range
     const { data: oooPeriods, error: oooError } = await supabaseAdmin
       .from("out_of_office_periods")
-      .select("start_date, end_date")
+      .select("id, start_date, end_date, reason, forward_to_team, forward_url")
       .eq("dietitian_id", targetDietitianId)
       .lte("start_date", endDateStr)
       .gte("end_date", startDateStr);
@@ -393,7 +411,9 @@ export async function GET(request: NextRequest) {
       durationMinutes,
       timezone,
       oooPeriodsCount: formattedOOOPeriods.length,
-      overridesCount: formattedOverrides.length
+      overridesCount: formattedOverrides.length,
+      bookingLimits,
+      slotIntervalMinutes
     });
     
     // Calculate available slots with OOO and overrides
@@ -401,15 +421,20 @@ export async function GET(request: NextRequest) {
       startDate,
       endDate,
       availabilitySlots,
-      (bookings || []).map((b: any) => ({
+      // Abandoned checkouts free their slot once the hold expires
+      (bookings || []).filter((b) => isSlotBlocking(b, { viewerId: currentUser?.id })).map((b: any) => ({
         startTime: b.start_time,
         endTime: b.end_time,
         status: b.status,
+        eventTypeId: b.event_type_id,
+        groupSessionId: b.group_session_id,
       })),
       durationMinutes,
       timezone,
       formattedOOOPeriods,
-      formattedOverrides
+      formattedOverrides,
+      bookingLimits,
+      slotIntervalMinutes
     );
 
     console.log('✅ [DEBUG] Calculation complete:', {
@@ -422,26 +447,24 @@ export async function GET(request: NextRequest) {
     // #region agent log
     fetch('http://127.0.0.1:7242/ingest/47c98e00-030f-46e7-b782-5ff73cdaf6f4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'timeslots/route.ts:256',message:'Returning slots',data:{slotsCount:availableSlots.length,timezone,scheduleId:defaultSchedule.id},timestamp:Date.now(),sessionId:'debug-session',runId:'initial',hypothesisId:'E'})}).catch(()=>{});
     // #endregion
+    // Booking pages show why days are blocked and who to book with instead
+    const outOfOffice = await getOutOfOfficeNotices(targetDietitianId, oooPeriods || [], eventTypeId);
+
     return NextResponse.json({
       slots: availableSlots,
       timezone,
       scheduleId: defaultSchedule.id,
+      outOfOffice,
     });
   } catch (error: any) {
     // #region agent log
     fetch('http://127.0.0.1:7242/ingest/47c98e00-030f-46e7-b782-5ff73cdaf6f4',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'timeslots/route.ts:261',message:'Error caught',data:{errorMessage:error.message,isAuthError:error.message === "Unauthorized" || error.message.includes("Forbidden"),status:error.status},timestamp:Date.now(),sessionId:'debug-session',runId:'initial',hypothesisId:'A'})}).catch(()=>{});
     // #endregion
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error calculating timeslots:", error);
     return NextResponse.json(
       { error: "Failed to calculate timeslots", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
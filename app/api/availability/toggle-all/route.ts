@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: Toggle all availability schedules on/off
-export async function POST(request: NextRequest) {
+export const POST = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const supabaseAdmin = createAdminClientServer();
 
     const body = await request.json();
@@ -44,12 +43,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET: Get current toggle state
-export async function GET(request: NextRequest) {
+export const GET = withPermission("availability:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const supabaseAdmin = createAdminClientServer();
 
     // Check if any schedules are active
@@ -80,5 +78,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,4 @@
+import { DELETE } from "../route";
+
+// POST: Cancel booking - alias of DELETE /api/bookings/[id] for clients that cannot send DELETE bodies
+export const POST = DELETE;
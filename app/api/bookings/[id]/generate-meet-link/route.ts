@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { createCalendarEventWithMeet } from "@/lib/google-calendar";
 
 /**
@@ -8,17 +8,8 @@ import { createCalendarEventWithMeet } from "@/lib/google-calendar";
  * Generates a Google Meet link for an existing booking that doesn't have one.
  * Can be called by the dietitian or admin to retroactively create meeting links.
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const POST = withPermission<{ id: string }>("book:manage:own", async (request: NextRequest, { params, user: currentUser }) => {
   try {
-    // Check authentication
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id } = await Promise.resolve(params);
     const supabaseAdmin = createAdminClientServer();
 
@@ -150,5 +141,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { moveBooking } from "@/lib/bookings/reschedule";
+
+// POST: Move a single booking (including one occurrence of a series) to a new start time
+export const POST = withPermission<{ id: string }>("book:reschedule:own", async (request: NextRequest, { params, user: currentUser }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => ({}));
+
+    if (!body?.startTime || typeof body.startTime !== "string") {
+      return NextResponse.json(
+        { error: "New start time is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await moveBooking({
+      bookingId: id,
+      actor: currentUser,
+      startTime: body.startTime,
+    });
+
+    return NextResponse.json({
+      booking: result.booking,
+      previousStartTime: result.previousStartTime,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error moving booking:", error);
+    return NextResponse.json(
+      { error: "Failed to move booking", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { setBookingNoShow } from "@/lib/bookings/attendance";
+
+// POST: Mark a session as a client no-show (practitioner or admin, once it has started)
+// Body: { noShow?: boolean } (false clears the mark)
+export const POST = withPermission<{ id: string }>("book:manage:own", async (request: NextRequest, { params, user: currentUser }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => ({}));
+    const booking = await setBookingNoShow({ bookingId: id, actor: currentUser, noShow: body?.noShow !== false });
+
+    return NextResponse.json({ booking });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error marking no-show:", error);
+    return NextResponse.json(
+      { error: "Failed to mark no-show", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
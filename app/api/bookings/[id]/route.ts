@@ -1,18 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
+import { cancelBooking } from "@/lib/bookings/cancellation";
+import { AppError } from "@/lib/error-handling";
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("book:view:own", async (request: NextRequest, { params, user: currentUser }) => {
   try {
-    // Check authentication
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id } = await Promise.resolve(params);
     const supabaseAdmin = createAdminClientServer();
 
@@ -38,11 +31,42 @@ export async function GET(
     }
 
     return NextResponse.json({ booking });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error fetching booking:", error);
     return NextResponse.json(
-      { error: "Failed to fetch booking", details: error.message },
+      { error: "Failed to fetch booking", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE: Cancel booking (client, practitioner or admin)
+// Body (optional): { reason?: string }
+export const DELETE = withPermission<{ id: string }>("book:cancel:own", async (request: NextRequest, { params, user: currentUser }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : undefined;
+
+    const result = await cancelBooking({
+      bookingId: id,
+      actor: currentUser,
+      reason: reason || undefined,
+    });
+
+    return NextResponse.json({
+      booking: result.booking,
+      cancelledBy: result.cancelledBy,
+      refund: result.refund,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error cancelling booking:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking", details: error instanceof Error ? error.message : String(error) },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { skipSeriesOccurrence } from "@/lib/bookings/series";
+
+// POST: Skip one occurrence of a recurring series (it moves to the end of the series)
+export const POST = withPermission<{ id: string }>("book:cancel:own", async (request: NextRequest, { params, user: currentUser }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const result = await skipSeriesOccurrence({ bookingId: id, actor: currentUser });
+
+    return NextResponse.json({
+      booking: result.booking,
+      previousStartTime: result.previousStartTime,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error skipping booking:", error);
+    return NextResponse.json(
+      { error: "Failed to skip booking", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { resumeAbandonedCheckout } from "@/lib/payments/abandoned-checkouts";
+
+// POST: Reopen an abandoned checkout from the link in the "complete your booking" email.
+// Holds the booking's slot again and returns what to charge, or 409 if the slot was taken.
+// Body: { token }
+export const POST = withPermission("book:create", async (request: NextRequest, { user: currentUser }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (!body.token || typeof body.token !== "string") {
+      return NextResponse.json({ error: "Resume link is invalid" }, { status: 400 });
+    }
+
+    const checkout = await resumeAbandonedCheckout(body.token, currentUser.id);
+    return NextResponse.json({ checkout });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    console.error("Error resuming checkout:", error);
+    return NextResponse.json(
+      { error: "Failed to resume checkout", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { emailQueue } from "@/lib/email/queue";
+import {
+  getBookingLimitViolation,
+  getBookingLimitsFromEventType,
+} from "@/lib/availability/calculate-timeslots";
+import { TimezoneHelper } from "@/lib/utils/timezone";
+import { getHoldExpiry, isSlotBlocking } from "@/lib/bookings/holds";
+import { GROUP_SESSION_FULL_CODE, getOrCreateGroupSession, isGroupEventType } from "@/lib/bookings/group-sessions";
+import { isForwardedBooking } from "@/lib/availability/out-of-office";
+import { getBookingInviteAttachment } from "@/lib/calendar/ics";
+import { syncLedgerEntries } from "@/lib/payments/ledger";
+import { listSessionCredits, redeemSessionCredit } from "@/lib/payments/session-bundles";
+import { completeBookingConfirmation } from "@/lib/payments/confirmation";
+import { isPractitionerActive } from "@/lib/practitioners/verification";
+import { AppError } from "@/lib/error-handling";
 import dayjs from "dayjs";
 
 // Retry helper for transient network/DNS errors
@@ -41,7 +55,35 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
-export async function POST(request: NextRequest) {
+// Book against a prepaid session credit instead of sending the client to Paystack
+async function confirmWithSessionCredit(booking: {
+  id: string;
+  user_id: string;
+  dietitian_id: string;
+  event_type_id: string;
+}): Promise<NextResponse> {
+  try {
+    const { booking: confirmedBooking, credit } = await redeemSessionCredit(booking);
+    const meetingLink = await completeBookingConfirmation(confirmedBooking, credit.id);
+
+    return NextResponse.json(
+      {
+        booking: { ...confirmedBooking, meeting_link: meetingLink },
+        paidWithCredit: true,
+        sessionCredit: credit,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    // The booking keeps its checkout hold, so the client can still pay for the slot instead
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, bookingId: booking.id }, { status: error.statusCode });
+    }
+    throw error;
+  }
+}
+
+export const POST = withPermission("book:create", async (request: NextRequest, { user: currentUser }) => {
   try {
     // Validate environment variables
     const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -57,24 +99,7 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       );
     }
-    
-    // Get authenticated user - this ensures booking user_id matches the auth user
-    // getCurrentUserFromRequest will automatically create the user record if missing
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser || !currentUser.id) {
-      console.error('❌ [Bookings API] No authenticated user or missing user ID', {
-        hasUser: !!currentUser,
-        userId: currentUser?.id,
-      });
-      return NextResponse.json(
-        { 
-          error: 'Authentication required', 
-          details: 'Please log in to create a booking. If you just signed in, please refresh the page and try again.' 
-        },
-        { status: 401 }
-      );
-    }
-    
+
     console.log('[Bookings API] Authenticated user:', {
       userId: currentUser.id,
       email: currentUser.email,
@@ -99,6 +124,8 @@ export async function POST(request: NextRequest) {
       userMedicalCondition,
       userMonthlyFoodBudget,
       userComplaint,
+      referredByDietitianId,
+      useSessionCredit,
     } = body;
 
     const supabaseAdmin = createAdminClientServer();
@@ -281,6 +308,15 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    // The event type's owner too, in case the booking names another practitioner
+    const practitionerIds = [...new Set([finalDietitianId, eventType.user_id].filter(Boolean))];
+    const practitionersActive = await Promise.all(practitionerIds.map((id) => isPractitionerActive(id)));
+    if (practitionersActive.includes(false)) {
+      return NextResponse.json(
+        { error: "This practitioner isn't taking bookings right now" },
+        { status: 409 }
+      );
+    }
 
     // Calculate end time if not provided
     const startTimeDate = new Date(startTime);
@@ -303,6 +339,148 @@ export async function POST(request: NextRequest) {
       end_time: endTimeDate.toISOString(),
     });
 
+    // Enforce the event type's buffers, minimum notice, horizon and daily cap, in the timezone of
+    // the schedule its slots come from (its own schedule, or the practitioner's default)
+    let limitScheduleQuery = supabaseAdmin
+      .from("availability_schedules")
+      .select("timezone")
+      .eq("dietitian_id", finalDietitianId);
+    limitScheduleQuery = eventType.availability_schedule_id
+      ? limitScheduleQuery.eq("id", eventType.availability_schedule_id)
+      : limitScheduleQuery.eq("is_default", true);
+    const { data: limitSchedule } = await limitScheduleQuery.maybeSingle();
+    const scheduleTimezone = limitSchedule?.timezone && TimezoneHelper.validateTimezone(limitSchedule.timezone)
+      ? limitSchedule.timezone
+      : "Africa/Lagos";
+
+    // Look a day either side so buffers and the per-day count see every relevant booking
+    const { data: nearbyBookings, error: nearbyBookingsError } = await supabaseAdmin
+      .from("bookings")
+      .select("id, user_id, event_type_id, group_session_id, start_time, end_time, status, hold_expires_at")
+      .eq("dietitian_id", finalDietitianId)
+      .in("status", ["PENDING", "CONFIRMED"])
+      .gte("start_time", dayjs(startTimeDate).subtract(1, "day").toISOString())
+      .lte("start_time", dayjs(startTimeDate).add(1, "day").toISOString());
+
+    if (nearbyBookingsError) {
+      console.error("[Bookings API] Error fetching existing bookings:", nearbyBookingsError);
+      return NextResponse.json(
+        { error: "Failed to create booking", details: "Could not verify availability for this time" },
+        { status: 500 }
+      );
+    }
+
+    // Returning to checkout for the same slot extends the client's existing hold
+    const ownHold = (nearbyBookings || []).find(
+      (b) =>
+        b.status === "PENDING" &&
+        b.user_id === user.id &&
+        b.event_type_id === eventType.id &&
+        new Date(b.start_time).getTime() === startTimeDate.getTime() &&
+        b.hold_expires_at &&
+        new Date(b.hold_expires_at) > new Date()
+    );
+
+    if (ownHold && !paystackRef && !paymentData) {
+      const { data: heldBooking, error: holdError } = await supabaseAdmin
+        .from("bookings")
+        .update({ hold_expires_at: getHoldExpiry() })
+        .eq("id", ownHold.id)
+        .eq("status", "PENDING")
+        .select()
+        .single();
+
+      if (!holdError && heldBooking) {
+        if (useSessionCredit) {
+          return confirmWithSessionCredit(heldBooking);
+        }
+        return NextResponse.json({ booking: heldBooking }, { status: 200 });
+      }
+    }
+
+    // Expired checkout holds no longer occupy the slot
+    const limitViolation = getBookingLimitViolation(
+      startTimeDate.toISOString(),
+      endTimeDate.toISOString(),
+      (nearbyBookings || []).filter((b) => isSlotBlocking(b)).map((b) => ({
+        startTime: b.start_time,
+        endTime: b.end_time,
+        status: b.status,
+        eventTypeId: b.event_type_id,
+        groupSessionId: b.group_session_id,
+      })),
+      getBookingLimitsFromEventType(eventType),
+      scheduleTimezone
+    );
+
+    if (limitViolation) {
+      console.warn("[Bookings API] Booking rejected by event type limits:", {
+        eventTypeId: eventType.id,
+        startTime: startTimeDate.toISOString(),
+        reason: limitViolation,
+      });
+      return NextResponse.json(
+        { error: "Time slot not available", details: limitViolation },
+        { status: 409 }
+      );
+    }
+
+    if (useSessionCredit) {
+      const credits = await listSessionCredits(user.id, { dietitianId: finalDietitianId, eventTypeId: eventType.id });
+      if (credits.length === 0) {
+        return NextResponse.json(
+          { error: "No prepaid sessions left", details: "You don't have any prepaid sessions left for this booking" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Group event types: the booking takes a seat in the occurrence's shared session
+    let groupSessionId: string | null = null;
+    if (isGroupEventType(eventType)) {
+      const alreadyBooked = (nearbyBookings || []).some(
+        (b) =>
+          b.status === "CONFIRMED" &&
+          b.user_id === user.id &&
+          b.event_type_id === eventType.id &&
+          new Date(b.start_time).getTime() === startTimeDate.getTime()
+      );
+      if (alreadyBooked) {
+        return NextResponse.json(
+          { error: "Time slot not available", details: "You have already booked this session" },
+          { status: 409 }
+        );
+      }
+
+      try {
+        const groupSession = await getOrCreateGroupSession({
+          eventType,
+          startTime: startTimeDate.toISOString(),
+          endTime: endTimeDate.toISOString(),
+        });
+        groupSessionId = groupSession.id;
+      } catch (groupSessionError) {
+        console.error("[Bookings API] Error creating group session:", groupSessionError);
+        return NextResponse.json(
+          { error: "Failed to create booking", details: "Could not reserve a seat in this session" },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Clients forwarded here from an out-of-office colleague keep the referral
+    let referredBy: string | null = null;
+    if (referredByDietitianId) {
+      if (await isForwardedBooking(referredByDietitianId, finalDietitianId, startTimeDate.toISOString())) {
+        referredBy = referredByDietitianId;
+      } else {
+        console.warn("[Bookings API] Ignoring referral that doesn't match an out-of-office forwarding:", {
+          referredByDietitianId,
+          dietitianId: finalDietitianId,
+        });
+      }
+    }
+
     // Create booking - use eventType.id (the actual UUID) not eventTypeId (which could be a slug)
     const { data: booking, error: bookingError } = await supabaseAdmin
       .from("bookings")
@@ -312,7 +490,10 @@ export async function POST(request: NextRequest) {
         start_time: startTimeDate.toISOString(),
         end_time: endTimeDate.toISOString(),
         status: "PENDING",
+        hold_expires_at: getHoldExpiry(),
         event_type_id: eventType.id,
+        group_session_id: groupSessionId,
+        referred_by_dietitian_id: referredBy,
         user_id: user.id,
         dietitian_id: finalDietitianId,
         user_age: userAge,
@@ -324,6 +505,14 @@ export async function POST(request: NextRequest) {
       .select()
       .single();
 
+    // The last seat went to another client between the availability check and the insert
+    if (bookingError?.code === GROUP_SESSION_FULL_CODE) {
+      return NextResponse.json(
+        { error: "Time slot not available", details: "This session is full" },
+        { status: 409 }
+      );
+    }
+
     if (bookingError) {
       console.error("[Bookings API] Database error creating booking:", {
         error: bookingError,
@@ -388,10 +577,13 @@ export async function POST(request: NextRequest) {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
-              // Forward authorization headers if present
+              // Forward the caller's credentials, create-pending requires a signed-in user
               ...(request.headers.get("authorization") && {
                 authorization: request.headers.get("authorization")!,
               }),
+              ...(request.headers.get("cookie") && {
+                cookie: request.headers.get("cookie")!,
+              }),
             },
             body: JSON.stringify({ bookingId: booking.id }),
           }
@@ -417,13 +609,25 @@ export async function POST(request: NextRequest) {
 
     // Create payment record if paystackRef or paymentData is provided
     if (paystackRef || paymentData) {
-      await supabaseAdmin.from("payments").insert({
-        amount: eventType.price || 0,
-        currency: eventType.currency || "NGN",
-        status: "SUCCESS",
-        paystack_ref: paystackRef || paymentData?.transactionId,
-        booking_id: booking.id,
-      });
+      const { data: payment } = await supabaseAdmin
+        .from("payments")
+        .insert({
+          amount: eventType.price || 0,
+          currency: eventType.currency || "NGN",
+          status: "SUCCESS",
+          paystack_ref: paystackRef || paymentData?.transactionId,
+          booking_id: booking.id,
+        })
+        .select("id")
+        .single();
+
+      if (payment) {
+        try {
+          await syncLedgerEntries({ paymentIds: [payment.id] });
+        } catch (ledgerError) {
+          console.error("Failed to record ledger entry:", ledgerError);
+        }
+      }
     }
 
     // Update session request status if sessionRequestId is provided
@@ -440,6 +644,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (useSessionCredit) {
+      return confirmWithSessionCredit(booking);
+    }
+
     // Send booking confirmation email if payment was already successful
     if (paystackRef || paymentData) {
       try {
@@ -456,33 +664,41 @@ export async function POST(request: NextRequest) {
           .eq("id", dietitian_id)
           .single();
 
+        const invite = getBookingInviteAttachment(booking, {
+          method: "REQUEST",
+          organizer: dietitianData?.email ? { name: dietitianData.name, email: dietitianData.email } : null,
+          attendee: userData?.email ? { name: userData.name, email: userData.email } : null,
+        });
+
         if (userData?.email) {
           await emailQueue.enqueue({
             to: userData.email,
+            recipientId: user.id,
             subject: "Booking Confirmed - Your Consultation is Scheduled",
             template: "booking_confirmation",
             data: {
               userName: userData.name || "User",
               eventTitle: eventType.title || "Consultation",
-              date: dayjs(startTime).format("MMMM D, YYYY"),
-              time: dayjs(startTime).format("h:mm A"),
+              startTime: booking.start_time,
               meetingLink: "", // Will be updated when Google Calendar event is created
             },
+            attachments: [invite],
           });
         }
 
         if (dietitianData?.email) {
           await emailQueue.enqueue({
             to: dietitianData.email,
+            recipientId: dietitian_id,
             subject: "New Booking Confirmed",
             template: "booking_confirmation",
             data: {
               userName: dietitianData.name || "Dietitian",
               eventTitle: eventType.title || "Consultation",
-              date: dayjs(startTime).format("MMMM D, YYYY"),
-              time: dayjs(startTime).format("h:mm A"),
+              startTime: booking.start_time,
               meetingLink: "",
             },
+            attachments: [invite],
           });
         }
       } catch (emailError) {
@@ -499,17 +715,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET: Fetch bookings for authenticated user (dietitian or regular user)
-export async function GET(request: NextRequest) {
+export const GET = withPermission("book:view:own", async (request: NextRequest, { user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const supabaseAdmin = createAdminClientServer();
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
@@ -554,4 +764,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { cancelBookingSeries } from "@/lib/bookings/series";
+
+// DELETE: Cancel every upcoming occurrence of a series
+export const DELETE = withPermission<{ id: string }>("book:cancel:own", async (request: NextRequest, { params, user: currentUser }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : undefined;
+
+    const result = await cancelBookingSeries({
+      seriesId: id,
+      actor: currentUser,
+      reason: reason || undefined,
+    });
+
+    return NextResponse.json({
+      series: result.series,
+      cancelled: result.cancelled.map((c) => ({
+        booking: c.booking,
+        refund: c.refund,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error cancelling booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking series", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import {
+  createBookingSeries,
+  listBookingSeries,
+  parseRecurrenceRule,
+} from "@/lib/bookings/series";
+
+// GET: List recurring series for the current practitioner or client
+export const GET = withPermission("book:view:own", async (request: NextRequest, { user: currentUser }) => {
+  try {
+    const isPractitioner = currentUser.role === "DIETITIAN" || currentUser.role === "THERAPIST";
+    const series = await listBookingSeries(
+      isPractitioner ? { dietitianId: currentUser.id } : { userId: currentUser.id }
+    );
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error fetching booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking series", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+// POST: Create a recurring series; every occurrence is booked as PENDING until checkout completes
+export const POST = withPermission("book:create", async (request: NextRequest, { user: currentUser }) => {
+  try {
+    const body = await request.json();
+    const { eventTypeId, startTime, recurrence, notes } = body;
+
+    if (!eventTypeId || !startTime) {
+      return NextResponse.json(
+        { error: "Event type and start time are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createBookingSeries({
+      client: currentUser,
+      eventTypeId,
+      startTime,
+      rule: parseRecurrenceRule(recurrence),
+      description: typeof notes === "string" ? notes : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        series: result.series,
+        bookings: result.bookings,
+        // The checkout is attached to the first occurrence and covers the whole series
+        booking: result.bookings[0],
+        unitPrice: result.unitPrice,
+        totalPrice: result.totalPrice,
+        currency: result.currency,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    console.error("Error creating booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to create booking series", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // Helper function to fetch bookings
 async function fetchBookings(userId: string, role: "USER" | "DIETITIAN" | "THERAPIST") {
@@ -94,20 +94,8 @@ async function fetchBookings(userId: string, role: "USER" | "DIETITIAN" | "THERA
 }
 
 // GET: SSE endpoint for bookings
-export async function GET(request: NextRequest) {
+export const GET = withPermission("book:view:own", async (request: NextRequest, { user }) => {
   try {
-    // Authenticate user
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        {
-          status: 401,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
     const supabaseAdmin = createAdminClientServer();
     
     // Get user role
@@ -206,5 +194,5 @@ export async function GET(request: NextRequest) {
       }
     );
   }
-}
+});
 
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCalendarFeed, CALENDAR_FEED_EXTENSION } from "@/lib/calendar/feed";
+import { withPublicAccess } from "@/lib/auth/permissions";
+
+// GET: iCalendar feed of a practitioner's upcoming bookings, for Apple Calendar, Outlook, etc.
+// The secret token in the URL is the only credential, so unknown tokens get a plain 404.
+export const GET = withPublicAccess<{ token: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const resolvedParams = params instanceof Promise ? await params : params;
+    const token = resolvedParams.token.endsWith(CALENDAR_FEED_EXTENSION)
+      ? resolvedParams.token.slice(0, -CALENDAR_FEED_EXTENSION.length)
+      : resolvedParams.token;
+
+    const calendar = token ? await buildCalendarFeed(token) : null;
+    if (!calendar) {
+      return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="daiyet-bookings.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 });
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import {
+  getCalendarFeedUrl,
+  getOrCreateCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from "@/lib/calendar/feed";
+
+function handleError(error: unknown, message: string) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// GET: The practitioner's subscribable calendar feed URL (created on first request)
+export const GET = withPermission("book:manage:own", async (request: NextRequest, { user: practitioner }) => {
+  try {
+    const token = await getOrCreateCalendarFeedToken(practitioner.id);
+
+    return NextResponse.json({ url: getCalendarFeedUrl(token, request.nextUrl.origin) });
+  } catch (error) {
+    return handleError(error, "Failed to fetch calendar feed");
+  }
+});
+
+// POST: Regenerate the feed URL; calendars subscribed to the old one stop receiving bookings
+export const POST = withPermission("book:manage:own", async (request: NextRequest, { user: practitioner }) => {
+  try {
+    const token = await rotateCalendarFeedToken(practitioner.id);
+
+    return NextResponse.json({ url: getCalendarFeedUrl(token, request.nextUrl.origin) });
+  } catch (error) {
+    return handleError(error, "Failed to regenerate calendar feed");
+  }
+});
@@ -1,27 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withSession } from "@/lib/auth/permissions";
 
 export const dynamic = "force-dynamic";
 
-export async function GET(request: NextRequest) {
+export const GET = withSession(async (_request: NextRequest, { authUser: user }) => {
   try {
-    // Use proper server client from @supabase/ssr
-    const supabase = await createClient();
-
-    // Get current user from session
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: "Not authenticated", enrolled: false },
-        { status: 401 }
-      );
-    }
-
     // Check if user is enrolled (has DIETITIAN or THERAPIST role)
     // Use admin client to bypass RLS
     const supabaseAdmin = createAdminClientServer();
@@ -61,4 +45,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
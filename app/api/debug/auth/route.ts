@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server/client";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Debug endpoint to check authentication status
@@ -7,7 +8,7 @@ import { createClient } from "@/lib/supabase/server/client";
  * Usage:
  * curl http://localhost:3000/api/debug/auth
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const supabase = await createClient();
     const { data: { session }, error: sessionError } = await supabase.auth.getSession();
@@ -72,5 +73,5 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString(),
     }, { status: 500 });
   }
-}
+});
 
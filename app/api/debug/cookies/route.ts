@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   const cookieStore = request.cookies;
   const cookieHeader = request.headers.get("cookie") || "";
   
@@ -23,4 +24,4 @@ export async function GET(request: NextRequest) {
     supabaseCookies: supabaseCookies,
     hasSupabaseCookies: supabaseCookies.length > 0,
   });
-}
+});
@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server";
 import dns from 'dns';
 import { promisify } from 'util';
+import { withPermission } from "@/lib/auth/permissions";
 
 const resolve4 = promisify(dns.resolve4);
 const resolve6 = promisify(dns.resolve6);
 
-export async function GET(request: Request) {
+export const GET = withPermission("admin:debug:run", async (request: Request) => {
   const { searchParams } = new URL(request.url);
   const hostname = searchParams.get('hostname') || 'jygdjpcmcfglopktusdm.supabase.co';
   
@@ -58,4 +59,4 @@ export async function GET(request: Request) {
       timestamp: new Date().toISOString(),
     }, { status: 500 });
   }
-}
+});
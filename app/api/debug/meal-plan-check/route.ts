@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Debug endpoint to check meal plans for approved session requests
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest, { user }) => {
   try {
     // Allow in dev mode only
     if (process.env.NODE_ENV !== 'development') {
       return NextResponse.json({ error: "Not available in production" }, { status: 403 });
     }
-
-    const user = await getCurrentUserFromRequest(request);
-    if (!user || user.role !== 'DIETITIAN') {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    // The dietitian to check, the caller by default
+    const dietitianId = new URL(request.url).searchParams.get("dietitianId") || user.id;
 
     const supabaseAdmin = createAdminClientServer();
 
@@ -21,7 +18,7 @@ export async function GET(request: NextRequest) {
     const { data: approvedRequests, error: requestsError } = await supabaseAdmin
       .from("session_requests")
       .select("id, request_type, status, meal_plan_type, client_email")
-      .eq("dietitian_id", user.id)
+      .eq("dietitian_id", dietitianId)
       .eq("request_type", "MEAL_PLAN")
       .eq("status", "APPROVED");
 
@@ -33,7 +30,7 @@ export async function GET(request: NextRequest) {
     const { data: allMealPlans, error: allMealPlansError } = await supabaseAdmin
       .from("meal_plans")
       .select("id, session_request_id, file_url, status, created_at, user_id, package_name")
-      .eq("dietitian_id", user.id)
+      .eq("dietitian_id", dietitianId)
       .order("created_at", { ascending: false });
 
     // For each approved request, check if meal plan exists
@@ -59,7 +56,7 @@ export async function GET(request: NextRequest) {
             const { data: alt } = await supabaseAdmin
               .from("meal_plans")
               .select("id, session_request_id, file_url, status, created_at, user_id, package_name")
-              .eq("dietitian_id", user.id)
+              .eq("dietitian_id", dietitianId)
               .eq("user_id", userData.id)
               .eq("package_name", req.meal_plan_type || "")
               .order("created_at", { ascending: false })
@@ -89,7 +86,7 @@ export async function GET(request: NextRequest) {
     );
 
     return NextResponse.json({
-      dietitianId: user.id,
+      dietitianId,
       approvedMealPlanRequests: approvedRequests?.length || 0,
       totalMealPlans: allMealPlans?.length || 0,
       allMealPlans: allMealPlans?.map((mp: any) => ({
@@ -108,5 +105,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
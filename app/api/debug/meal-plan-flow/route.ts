@@ -1,32 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET /api/debug/meal-plan-flow?requestId=...&storagePath=...&userEmail=...
 // Returns diagnostics for the meal plan upload/send flow:
 // - session_request (ownership/status/email)
 // - meal_plan (linked by session_request_id and fallback by dietitian/user)
 // - storage object presence (best-effort)
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // Auth: allow dev fallback
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === "development") {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === "DIETITIAN") {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const { searchParams } = new URL(request.url);
     const requestId = searchParams.get("requestId");
     const storagePath = searchParams.get("storagePath");
@@ -61,7 +43,7 @@ export async function GET(request: NextRequest) {
     let fallbackUserId: string | null = null;
 
     const emailToUse = userEmailParam || sessionRequest?.client_email;
-    if (emailToUse) {
+    if (emailToUse && sessionRequest) {
       const { data: user } = await supabaseAdmin
         .from("users")
         .select("id")
@@ -73,7 +55,7 @@ export async function GET(request: NextRequest) {
         const { data: altMealPlan, error: altErr } = await supabaseAdmin
           .from("meal_plans")
           .select("id, session_request_id, file_url, file_name, status, sent_at, dietitian_id, user_id, package_name")
-          .eq("dietitian_id", dietitian.id)
+          .eq("dietitian_id", sessionRequest.dietitian_id)
           .eq("user_id", user.id)
           .order("created_at", { ascending: false })
           .limit(1)
@@ -127,5 +109,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
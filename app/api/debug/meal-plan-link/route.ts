@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClientServer } from '@/lib/supabase/server';
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   const searchParams = request.nextUrl.searchParams;
   const sessionRequestId = searchParams.get('sessionRequestId');
   
@@ -200,5 +201,5 @@ export async function GET(request: NextRequest) {
       stack: error.stack 
     }, { status: 500 });
   }
-}
+});
 
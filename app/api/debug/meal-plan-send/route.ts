@@ -1,29 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET /api/debug/meal-plan-send?requestId=...
 // Shows session_request + meal_plan linkage and status
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // Auth: allow dev fallback
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === "development") {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === "DIETITIAN") {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const { searchParams } = new URL(request.url);
     const requestId = searchParams.get("requestId");
 
@@ -65,5 +47,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,29 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET /api/debug/meal-plan-upload?storagePath=...
 // Basic storage existence check for a file in the meal-plans bucket
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // Auth: allow dev fallback
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === "development") {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === "DIETITIAN") {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const { searchParams } = new URL(request.url);
     const storagePath = searchParams.get("storagePath");
     if (!storagePath) {
@@ -53,7 +35,6 @@ export async function GET(request: NextRequest) {
       found: !!found,
       size: found?.metadata?.size || null,
       updated_at: found?.updated_at || null,
-      ownerDietitianId: dietitian.id,
     });
   } catch (error: any) {
     console.error("[DEBUG MEAL PLAN UPLOAD] Unexpected error:", error);
@@ -62,5 +43,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
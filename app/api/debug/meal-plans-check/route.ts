@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET /api/debug/meal-plans-check
  * Check meal plans and their session_request_id linkage
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     // Allow in dev mode
     if (process.env.NODE_ENV !== 'development') {
@@ -94,5 +94,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireAuthFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Debug endpoint to trace session request approval flow
@@ -15,16 +15,11 @@ import { requireAuthFromRequest } from "@/lib/auth-helpers";
  * 
  * Compares actual state to expected workflow and identifies errors
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("admin:debug:run", async (request: NextRequest, { params, user }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id: sessionRequestId } = resolvedParams;
-
-    const user = await requireAuthFromRequest(request);
     const supabaseAdmin = createAdminClientServer();
 
     // Step 1: Fetch session request with all related data
@@ -538,5 +533,5 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
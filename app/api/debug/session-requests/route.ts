@@ -1,44 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Debug endpoint to inspect session requests
  * GET /api/debug/session-requests
  * Returns all meal plan session requests for debugging
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (_request: NextRequest, { user }) => {
   try {
-    // In development, allow access even without authentication (for debugging)
-    // In production, require admin authentication
-    let user = null;
-    try {
-      user = await getCurrentUserFromRequest(request);
-    } catch (error) {
-      // In development, continue even if auth fails
-      if (process.env.NODE_ENV === 'development') {
-        console.warn('[DEBUG] Could not get authenticated user, but allowing in development mode:', error);
-      } else {
-        throw error;
-      }
-    }
-
-    // Only restrict in production
-    if (process.env.NODE_ENV === 'production') {
-      if (!user) {
-        return NextResponse.json(
-          { error: "Authentication required" },
-          { status: 401 }
-        );
-      }
-      if (user.role !== 'ADMIN') {
-        return NextResponse.json(
-          { error: "Admin access required in production" },
-          { status: 403 }
-        );
-      }
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Get all meal plan requests
@@ -85,10 +55,10 @@ export async function GET(request: NextRequest) {
         original: email,
         normalized: email.toLowerCase().trim(),
       })),
-      userEmail: user?.email || 'Not authenticated',
-      userEmailNormalized: user?.email ? user.email.toLowerCase().trim() : null,
-      userId: user?.id || null,
-      userRole: user?.role || null,
+      userEmail: user.email,
+      userEmailNormalized: user.email.toLowerCase().trim(),
+      userId: user.id,
+      userRole: user.role,
     });
   } catch (error: any) {
     return NextResponse.json(
@@ -96,5 +66,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
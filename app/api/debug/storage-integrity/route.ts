@@ -1,43 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET /api/debug/storage-integrity
  * Diagnostic endpoint to check storage integrity
  * Verifies that all meal plans with file_url have corresponding files in storage
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // Auth: allow dev fallback - more lenient for debugging
-    let dietitian;
-    let allMealPlans = false; // Flag to check all meal plans in dev mode
-    
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === "development") {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        try {
-          const devUser = await getCurrentUserFromRequest(request);
-          if (devUser && devUser.role === "DIETITIAN") {
-            dietitian = devUser;
-          } else {
-            // In dev mode, if no user found, check all meal plans (for debugging)
-            console.warn("[STORAGE INTEGRITY] No authenticated user in dev mode, checking all meal plans");
-            allMealPlans = true;
-            dietitian = { id: "dev-mode" } as any;
-          }
-        } catch (devError) {
-          // In dev mode, if auth fails completely, still allow checking all meal plans
-          console.warn("[STORAGE INTEGRITY] Auth failed in dev mode, checking all meal plans");
-          allMealPlans = true;
-          dietitian = { id: "dev-mode" } as any;
-        }
-      } else {
-        throw authError;
-      }
-    }
+    // All meal plans, or one dietitian's with ?dietitianId=
+    const dietitianId = new URL(request.url).searchParams.get("dietitianId");
 
     const supabaseAdmin = createAdminClientServer();
 
@@ -47,9 +20,8 @@ export async function GET(request: NextRequest) {
       .select("id, file_url, file_name, status, created_at, dietitian_id")
       .not("file_url", "is", null);
     
-    // Only filter by dietitian_id if we have a real dietitian (not dev mode)
-    if (!allMealPlans && dietitian.id !== "dev-mode") {
-      query = query.eq("dietitian_id", dietitian.id);
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
     }
     
     const { data: mealPlans, error: mealPlansError } = await query
@@ -169,8 +141,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      dietitianId: allMealPlans ? "all (dev mode)" : dietitian.id,
-      devMode: allMealPlans,
+      dietitianId: dietitianId || "all",
       summary,
       bucketInfo: {
         exists: !!mealPlansBucket,
@@ -196,5 +167,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
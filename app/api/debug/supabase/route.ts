@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET() {
+export const GET = withPermission("admin:debug:run", async () => {
   try {
     const supabaseAdmin = createAdminClientServer();
     
@@ -56,4 +57,4 @@ export async function GET() {
       },
     }, { status: 500 });
   }
-}
+});
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET /api/debug/test-meal-plan-query?requestId=...
  * Test the exact query used in the stream endpoint
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     if (process.env.NODE_ENV !== 'development') {
       return NextResponse.json({ error: "Not available in production" }, { status: 403 });
@@ -88,5 +88,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
@@ -9,9 +9,8 @@ dayjs.extend(utc);
 dayjs.extend(timezone);
 
 // GET: Debug endpoint to diagnose availability issues
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
     
     const date = request.nextUrl.searchParams.get("date") || dayjs().format("YYYY-MM-DD");
@@ -169,16 +168,10 @@ export async function GET(request: NextRequest) {
     });
   } catch (error: any) {
     console.error('❌ [DEBUG] Debug endpoint error:', error);
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     return NextResponse.json(
       { error: "Debug failed", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const dateStr = request.nextUrl.searchParams.get("date") || "2024-12-23";
     const dateObj = new Date(dateStr);
@@ -34,5 +35,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -2,11 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
+import { withPermission } from "@/lib/auth/permissions";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const dateStr = request.nextUrl.searchParams.get("date") || "2025-01-20"; // Monday in 2025
     const timezoneStr = request.nextUrl.searchParams.get("timezone") || "Africa/Lagos";
@@ -70,4 +71,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
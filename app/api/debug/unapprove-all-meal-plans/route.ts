@@ -1,37 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
-// POST: Unapprove all approved meal plan requests (for debugging)
-export async function POST(request: NextRequest) {
+// POST: Unapprove all of a dietitian's approved meal plan requests (for debugging)
+// Body: { dietitianId }
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // In dev mode, allow more lenient auth
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
+    const { dietitianId } = await request.json().catch(() => ({}));
+    if (!dietitianId) {
+      return NextResponse.json(
+        { error: "dietitianId is required" },
+        { status: 400 }
+      );
     }
 
     const supabaseAdmin = createAdminClientServer();
 
-    console.log("[DEBUG UNAPPROVE ALL] Unapproving all approved meal plan requests for dietitian:", dietitian.id);
+    console.log("[DEBUG UNAPPROVE ALL] Unapproving all approved meal plan requests for dietitian:", dietitianId);
 
     // Get all approved meal plan requests
     const { data: approvedRequests, error: fetchError } = await supabaseAdmin
       .from("session_requests")
       .select("id, status, request_type, meal_plan_type, client_email")
-      .eq("dietitian_id", dietitian.id)
+      .eq("dietitian_id", dietitianId)
       .eq("request_type", "MEAL_PLAN")
       .eq("status", "APPROVED");
 
@@ -58,7 +49,7 @@ export async function POST(request: NextRequest) {
     const { data: updatedRequests, error: updateError } = await supabaseAdmin
       .from("session_requests")
       .update({ status: "PENDING" })
-      .eq("dietitian_id", dietitian.id)
+      .eq("dietitian_id", dietitianId)
       .eq("request_type", "MEAL_PLAN")
       .eq("status", "APPROVED")
       .select("id, status");
@@ -83,13 +74,6 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("[DEBUG UNAPPROVE ALL] Unexpected error:", error);
     
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: "Failed to unapprove requests",
@@ -98,5 +82,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
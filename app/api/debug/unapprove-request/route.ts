@@ -1,28 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: Unapprove a session request (for debugging)
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // In dev mode, allow more lenient auth
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const body = await request.json();
     const { requestId } = body;
 
@@ -42,7 +24,6 @@ export async function POST(request: NextRequest) {
       .from("session_requests")
       .select("id, status, request_type, meal_plan_type")
       .eq("id", requestId)
-      .eq("dietitian_id", dietitian.id)
       .single();
 
     if (fetchError || !currentRequest) {
@@ -59,7 +40,6 @@ export async function POST(request: NextRequest) {
       .from("session_requests")
       .update({ status: "PENDING" })
       .eq("id", requestId)
-      .eq("dietitian_id", dietitian.id)
       .select()
       .single();
 
@@ -89,13 +69,6 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("[DEBUG UNAPPROVE] Unexpected error:", error);
     
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: "Failed to unapprove request",
@@ -104,5 +77,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
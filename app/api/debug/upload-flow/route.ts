@@ -1,28 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Debug endpoint to check the upload flow state
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
-    // In dev mode, allow more lenient auth
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const { searchParams } = new URL(request.url);
     const requestId = searchParams.get("requestId");
 
@@ -42,7 +24,6 @@ export async function GET(request: NextRequest) {
       .from("session_requests")
       .select("*")
       .eq("id", requestId)
-      .eq("dietitian_id", dietitian.id)
       .single();
 
     if (reqError || !sessionRequest) {
@@ -76,7 +57,7 @@ export async function GET(request: NextRequest) {
       const { data: altMealPlan, error: mealPlanError2 } = await supabaseAdmin
         .from("meal_plans")
         .select("*")
-        .eq("dietitian_id", dietitian.id)
+        .eq("dietitian_id", sessionRequest.dietitian_id)
         .eq("user_id", user.id)
         .order("created_at", { ascending: false })
         .limit(1)
@@ -85,13 +66,13 @@ export async function GET(request: NextRequest) {
       mealPlanByUser = altMealPlan;
     }
 
-    // Step 5: Check all meal plans for this dietitian and user
+    // Step 5: Check all meal plans for the request's dietitian and user
     let allMealPlans: any[] = [];
     if (user) {
       const { data: allPlans } = await supabaseAdmin
         .from("meal_plans")
         .select("*")
-        .eq("dietitian_id", dietitian.id)
+        .eq("dietitian_id", sessionRequest.dietitian_id)
         .eq("user_id", user.id)
         .order("created_at", { ascending: false });
       
@@ -136,13 +117,6 @@ export async function GET(request: NextRequest) {
   } catch (error: any) {
     console.error("[DEBUG UPLOAD FLOW] Unexpected error:", error);
     
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: "Failed to check upload flow",
@@ -151,5 +125,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClientServer } from '@/lib/supabase/server';
-import { requireAuthFromRequest } from '@/lib/auth-helpers';
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest, { user }) => {
   try {
-    const user = await requireAuthFromRequest(request);
     const userEmail = user.email;
     const normalizedEmail = userEmail.toLowerCase().trim();
 
@@ -73,5 +72,5 @@ export async function GET(request: NextRequest) {
       stack: error.stack 
     }, { status: 500 });
   }
-}
+});
 
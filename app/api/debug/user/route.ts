@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { supabaseAdmin } from "@/lib/supabase";
+import { withPermission } from "@/lib/auth/permissions";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     // Create Supabase client with cookie handling
     const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
@@ -62,4 +63,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
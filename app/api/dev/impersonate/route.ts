@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { createClient } from "@/lib/supabase/server/client";
+import { AppError } from "@/lib/error-handling";
+import { authConfig } from "@/lib/auth/config";
+import { isUserRole } from "@/lib/auth/types";
+import { FIXTURE_USERS, isImpersonationEnabled, type FixtureUser } from "@/lib/auth/impersonation";
+import { withPublicAccess } from "@/lib/auth/permissions";
+
+/**
+ * Create the fixture's auth user and active user record if they don't exist yet, and return the
+ * auth user id with a one-time token to sign in with
+ */
+async function seedFixtureUser(fixture: FixtureUser): Promise<{ userId: string; tokenHash: string }> {
+  const supabaseAdmin = createAdminClientServer();
+
+  // Fails harmlessly once the account exists
+  await supabaseAdmin.auth.admin.createUser({
+    email: fixture.email,
+    email_confirm: true,
+    user_metadata: { name: fixture.name },
+  });
+
+  const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+    type: "magiclink",
+    email: fixture.email,
+  });
+  if (linkError || !link.user) {
+    throw new AppError(`Failed to prepare ${fixture.email}: ${linkError?.message}`, "IMPERSONATION_ERROR", 500);
+  }
+
+  const now = new Date().toISOString();
+  const { error: upsertError } = await supabaseAdmin.from("users").upsert(
+    {
+      id: link.user.id,
+      auth_user_id: link.user.id,
+      email: fixture.email,
+      name: fixture.name,
+      role: fixture.role,
+      is_admin: fixture.role === "ADMIN",
+      account_status: "ACTIVE",
+      email_verified: now,
+      updated_at: now,
+      metadata: { created_via: "dev-impersonation" },
+    },
+    { onConflict: "id" }
+  );
+  if (upsertError) {
+    throw new AppError(`Failed to seed ${fixture.email}: ${upsertError.message}`, "IMPERSONATION_ERROR", 500);
+  }
+
+  return { userId: link.user.id, tokenHash: link.properties.hashed_token };
+}
+
+/**
+ * GET: The fixture users developers can sign in as (404 unless impersonation is enabled)
+ */
+export const GET = withPublicAccess(async () => {
+  if (!isImpersonationEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ users: Object.values(FIXTURE_USERS) });
+});
+
+/**
+ * POST: Sign in as the fixture user for a role, seeding it on first use. Local development only.
+ * Body: { role }
+ */
+export const POST = withPublicAccess(async (request: NextRequest) => {
+  // Answer as if the route didn't exist
+  if (!isImpersonationEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const { role } = await request.json().catch(() => ({}));
+    if (typeof role !== "string" || !isUserRole(role)) {
+      return NextResponse.json({ error: "role must be USER, DIETITIAN, THERAPIST or ADMIN" }, { status: 400 });
+    }
+
+    const fixture = FIXTURE_USERS[role];
+    const { userId, tokenHash } = await seedFixtureUser(fixture);
+
+    const supabase = await createClient();
+    // Drop the current session first so its cookies don't linger next to the new one
+    await supabase.auth.signOut();
+    const { error: signInError } = await supabase.auth.verifyOtp({ type: "magiclink", token_hash: tokenHash });
+    if (signInError) {
+      throw new AppError(`Failed to sign in as ${fixture.email}: ${signInError.message}`, "IMPERSONATION_ERROR", 500);
+    }
+
+    return NextResponse.json({ user: { ...fixture, id: userId }, redirectTo: authConfig.redirects[role] });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Impersonation] Failed to sign in as fixture user:", error);
+    return NextResponse.json({ error: "Failed to sign in as fixture user" }, { status: 500 });
+  }
+});
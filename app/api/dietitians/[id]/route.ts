@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClientServer } from '@/lib/supabase/server';
 import { formatDietitianName } from '@/lib/utils/dietitian-name';
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPublicAccess<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -30,6 +28,8 @@ export async function GET(
       `)
       .eq('id', id)
       .eq('role', 'DIETITIAN')
+      // Not until their credentials have been approved, and not while suspended
+      .or('account_status.eq.ACTIVE,account_status.is.null')
       .single();
     
     if (error) {
@@ -60,4 +60,4 @@ export async function GET(
     console.error('API Error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -1,19 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPublicAccess } from "@/lib/auth/permissions";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
 
 // GET: List all active dietitians
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async () => {
   try {
-    // Ensure user is authenticated (can be any role to view dietitians)
-    try {
-      await getCurrentUserFromRequest(request);
-    } catch (authError) {
-      // Log but don't block - allow unauthenticated users to view dietitians
-      console.log("Auth check failed, proceeding anyway:", authError);
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Fetch all active dietitians (or all dietitians if account_status is not set)
@@ -59,5 +51,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
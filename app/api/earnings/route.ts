@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { getEarningsStatement, syncLedgerEntries } from "@/lib/payments/ledger";
+import { listPayoutBatches } from "@/lib/payments/payouts";
+
+// GET: The practitioner's earnings per month (gross, commission, net) and their payouts
+export const GET = withPermission("earnings:view:own", async (request: NextRequest, { user: practitioner }) => {
+  try {
+    // Pick up payments recorded outside the confirmation flow
+    await syncLedgerEntries();
+
+    const [statement, payouts] = await Promise.all([
+      getEarningsStatement(practitioner.id),
+      listPayoutBatches({ practitionerId: practitioner.id }),
+    ]);
+
+    return NextResponse.json({ ...statement, payouts });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to fetch earnings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch earnings", details: errorMessage },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { emailQueue } from "@/lib/email/queue";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
 // POST: Manually trigger email queue processing
-export async function POST(request: NextRequest) {
+export const POST = withPublicAccess(async (request: NextRequest) => {
   try {
     // Verify secret for security
     const authHeader = request.headers.get("authorization");
@@ -23,5 +24,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
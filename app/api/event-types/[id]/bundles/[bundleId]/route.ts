@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { setSessionBundleActive } from "@/lib/payments/session-bundles";
+
+// PATCH: Stop or resume selling a bundle. Body: { isActive }. Credits already bought stay usable.
+export const PATCH = withPermission<{ id: string; bundleId: string }>("event:edit:own", async (request: NextRequest, { params, user: practitioner }) => {
+  try {
+    const { bundleId } = await Promise.resolve(params);
+    const { isActive } = await request.json();
+
+    if (typeof isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be true or false" }, { status: 400 });
+    }
+
+    const bundle = await setSessionBundleActive(practitioner.id, bundleId, isActive);
+    return NextResponse.json({ bundle });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Failed to update session bundle:", error);
+    return NextResponse.json({ error: "Failed to update session bundle", details: errorMessage }, { status: 500 });
+  }
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { createSessionBundle, listSessionBundles } from "@/lib/payments/session-bundles";
+import { createAdminClientServer } from "@/lib/supabase/server";
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.statusCode });
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback, details: errorMessage }, { status: 500 });
+}
+
+// GET: Every bundle on one of the practitioner's event types, including inactive ones
+export const GET = withPermission<{ id: string }>("event:view:own", async (request: NextRequest, { params, user: practitioner }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+
+    const supabaseAdmin = createAdminClientServer();
+    const { data: eventType } = await supabaseAdmin
+      .from("event_types")
+      .select("id")
+      .eq("id", id)
+      .eq("user_id", practitioner.id)
+      .maybeSingle();
+    if (!eventType) {
+      return NextResponse.json({ error: "Event type not found" }, { status: 404 });
+    }
+
+    const bundles = await listSessionBundles(id, { activeOnly: false });
+    return NextResponse.json({ bundles });
+  } catch (error) {
+    return handleError(error, "Failed to fetch session bundles");
+  }
+});
+
+// POST: Offer a new bundle. Body: { name?, sessionCount, price, validityDays }
+export const POST = withPermission<{ id: string }>("event:edit:own", async (request: NextRequest, { params, user: practitioner }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    const bundle = await createSessionBundle(practitioner.id, id, {
+      name: body.name,
+      sessionCount: body.sessionCount,
+      price: body.price,
+      validityDays: body.validityDays,
+    });
+
+    return NextResponse.json({ bundle }, { status: 201 });
+  } catch (error) {
+    return handleError(error, "Failed to create session bundle");
+  }
+});
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
+import { SLOT_INTERVAL_OPTIONS } from "@/lib/availability/calculate-timeslots";
+import { MAX_SEATS_PER_SLOT } from "@/lib/bookings/group-sessions";
+import { parseCurrencyPrices } from "@/lib/utils/money";
 
 // GET: Get single event type
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("event:view:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -18,8 +18,6 @@ export async function GET(
         { status: 400 }
       );
     }
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -83,35 +81,93 @@ export async function GET(
 
     return NextResponse.json({ eventType });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching event type:", error);
     return NextResponse.json(
       { error: "Failed to fetch event type", details: error?.message || String(error) },
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update event type
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("event:edit:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
     
     const body = await request.json();
-    const { title, slug, description, length, price, currency, active, availabilityScheduleId } = body;
+    const {
+      title,
+      slug,
+      description,
+      length,
+      price,
+      currency,
+      active,
+      availabilityScheduleId,
+      beforeEventBuffer,
+      afterEventBuffer,
+      minimumBookingNotice,
+      bookingHorizonDays,
+      maxBookingsPerDay,
+      slotInterval,
+      seatsPerSlot,
+      cancellationWindowHours,
+      lateCancellationRefundPercent,
+    } = body;
+
+    // Validate booking limits: buffers and notice are minutes (>= 0), horizon and cap are optional positive integers
+    const limitFields: Array<[string, unknown, boolean]> = [
+      ["beforeEventBuffer", beforeEventBuffer, false],
+      ["afterEventBuffer", afterEventBuffer, false],
+      ["minimumBookingNotice", minimumBookingNotice, false],
+      ["bookingHorizonDays", bookingHorizonDays, true],
+      ["maxBookingsPerDay", maxBookingsPerDay, true],
+      ["cancellationWindowHours", cancellationWindowHours, false],
+      ["lateCancellationRefundPercent", lateCancellationRefundPercent, false],
+    ];
+    for (const [field, value, nullable] of limitFields) {
+      if (value === undefined || (nullable && value === null)) continue;
+      const min = nullable ? 1 : 0;
+      if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+        return NextResponse.json(
+          { error: `${field} must be an integer greater than or equal to ${min}${nullable ? " or null" : ""}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (lateCancellationRefundPercent !== undefined && lateCancellationRefundPercent > 100) {
+      return NextResponse.json(
+        { error: "lateCancellationRefundPercent must be between 0 and 100" },
+        { status: 400 }
+      );
+    }
+
+    // Validate slot interval: null means step by the event type length
+    if (
+      slotInterval !== undefined &&
+      slotInterval !== null &&
+      !(SLOT_INTERVAL_OPTIONS as readonly number[]).includes(slotInterval)
+    ) {
+      return NextResponse.json(
+        { error: `slotInterval must be one of ${SLOT_INTERVAL_OPTIONS.join(", ")} or null` },
+        { status: 400 }
+      );
+    }
+
+    // Validate seats: 1 is one-on-one, more makes the event type a group session
+    if (
+      seatsPerSlot !== undefined &&
+      (typeof seatsPerSlot !== "number" || !Number.isInteger(seatsPerSlot) || seatsPerSlot < 1 || seatsPerSlot > MAX_SEATS_PER_SLOT)
+    ) {
+      return NextResponse.json(
+        { error: `seatsPerSlot must be an integer between 1 and ${MAX_SEATS_PER_SLOT}` },
+        { status: 400 }
+      );
+    }
 
     const supabaseAdmin = createAdminClientServer();
 
@@ -155,7 +211,23 @@ export async function PUT(
     if (length !== undefined) updateData.length = length;
     if (price !== undefined) updateData.price = price;
     if (currency !== undefined) updateData.currency = currency;
+    if (body.prices !== undefined) {
+      try {
+        updateData.prices = parseCurrencyPrices(body.prices, currency || "NGN");
+      } catch (pricesError) {
+        return NextResponse.json({ error: (pricesError as Error).message }, { status: 400 });
+      }
+    }
     if (active !== undefined) updateData.active = active;
+    if (beforeEventBuffer !== undefined) updateData.before_event_buffer = beforeEventBuffer;
+    if (afterEventBuffer !== undefined) updateData.after_event_buffer = afterEventBuffer;
+    if (minimumBookingNotice !== undefined) updateData.minimum_booking_notice = minimumBookingNotice;
+    if (bookingHorizonDays !== undefined) updateData.booking_horizon_days = bookingHorizonDays;
+    if (maxBookingsPerDay !== undefined) updateData.max_bookings_per_day = maxBookingsPerDay;
+    if (slotInterval !== undefined) updateData.slot_interval = slotInterval;
+    if (seatsPerSlot !== undefined) updateData.seats_per_slot = seatsPerSlot;
+    if (cancellationWindowHours !== undefined) updateData.cancellation_window_hours = cancellationWindowHours;
+    if (lateCancellationRefundPercent !== undefined) updateData.late_cancellation_refund_percent = lateCancellationRefundPercent;
     if (availabilityScheduleId !== undefined) {
       // If empty string or "inherit", set to null (inherit from default)
       updateData.availability_schedule_id = availabilityScheduleId === "" || availabilityScheduleId === "inherit" 
@@ -199,31 +271,20 @@ export async function PUT(
       }
     });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error updating event type:", error);
     return NextResponse.json(
       { error: "Failed to update event type", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE: Delete event type
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("event:delete:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -259,16 +320,10 @@ export async function DELETE(
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error deleting event type:", error);
     return NextResponse.json(
       { error: "Failed to delete event type", details: error.message },
       { status: 500 }
     );
   }
-}
+});
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest, requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { authorize, withOptionalUser, withPermission } from "@/lib/auth/permissions";
 import { EventTypeService } from "@/services/eventTypeService";
+import { parseCurrencyPrices, type CurrencyPrices } from "@/lib/utils/money";
 
 // GET: Fetch event types
 // - If dietitianId query param is provided: fetch that dietitian's event types (public access)
 // - Otherwise: fetch authenticated dietitian's own event types (requires dietitian auth)
-export async function GET(request: NextRequest) {
+export const GET = withOptionalUser(async (request: NextRequest, { user: currentUser }) => {
   const { searchParams } = new URL(request.url);
   
   try {
@@ -56,33 +57,21 @@ export async function GET(request: NextRequest) {
       const targetRole = targetDietitian.role as 'DIETITIAN' | 'THERAPIST';
       
       // Check if the authenticated user is the dietitian/therapist themselves
-      // Wrap in try-catch to handle cases where auth fails (public access is still allowed)
-      let currentUser = null;
-      try {
-        currentUser = await getCurrentUserFromRequest(request);
-      } catch (error) {
-        // Public access is allowed even if auth fails
-        console.log("EventTypes GET - Auth check failed (public access allowed):", error);
-      }
       isOwnEventTypes = currentUser?.id === dietitianId && (currentUser?.role === "DIETITIAN" || currentUser?.role === "THERAPIST");
       console.log("EventTypes GET - Public access verified, isOwnEventTypes:", isOwnEventTypes);
     } else {
       // Private access: dietitian fetching their own event types (requires auth)
       console.log("EventTypes GET - Private access mode (no dietitianId param)");
-      const currentUser = await getCurrentUserFromRequest(request);
-      
-      if (!currentUser || (currentUser.role !== "DIETITIAN" && currentUser.role !== "THERAPIST")) {
+      const denied = authorize(currentUser, "event:view:own");
+      if (denied) {
         console.error("EventTypes GET - Auth failed:", { 
           hasUser: !!currentUser, 
           role: currentUser?.role 
         });
-        return NextResponse.json(
-          { error: "Forbidden: Dietitian access required" },
-          { status: 403 }
-        );
+        return denied;
       }
       
-      dietitianId = currentUser.id;
+      dietitianId = currentUser!.id;
       isOwnEventTypes = true;
       console.log("EventTypes GET - Private access verified for dietitian:", dietitianId);
     }
@@ -102,7 +91,6 @@ export async function GET(request: NextRequest) {
         userRole = targetUser?.role as 'DIETITIAN' | 'THERAPIST' | undefined;
       } else {
         // For private access, we already have the user from auth check
-        const currentUser = await getCurrentUserFromRequest(request);
         userRole = currentUser?.role as 'DIETITIAN' | 'THERAPIST' | undefined;
       }
       
@@ -149,33 +137,17 @@ export async function GET(request: NextRequest) {
       );
     }
   } catch (error: any) {
-    // Only return 401/403 for specific auth errors, not for general errors
-    // Public access with dietitianId should not require authentication
-    if (error.message === "Unauthorized") {
-      return NextResponse.json(
-        { error: error.message },
-        { status: 401 }
-      );
-    }
-    // Only return 403 if it's explicitly a Forbidden error AND we're in private mode
-    if (error.message && error.message.includes("Forbidden") && !searchParams.get("dietitianId")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: 403 }
-      );
-    }
     console.error("Error fetching event types:", error);
     return NextResponse.json(
       { error: "Failed to fetch event types", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create new event type
-export async function POST(request: NextRequest) {
+export const POST = withPermission("event:create", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -186,6 +158,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Title and slug are required" }, { status: 400 });
     }
 
+    // Prices in other currencies, for clients paying from abroad
+    let prices: CurrencyPrices;
+    try {
+      prices = parseCurrencyPrices(body.prices, currency || "NGN");
+    } catch (pricesError) {
+      return NextResponse.json({ error: (pricesError as Error).message }, { status: 400 });
+    }
+
     const supabaseAdmin = createAdminClientServer();
 
     // Check if slug is unique for this dietitian
@@ -210,6 +190,7 @@ export async function POST(request: NextRequest) {
         length: length || 30,
         price: price || 0,
         currency: currency || "NGN",
+        prices,
         user_id: dietitianId,
         active: active !== undefined ? active : true,
       })
@@ -226,16 +207,10 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ eventType }, { status: 201 });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error creating event type:", error);
     return NextResponse.json(
       { error: "Failed to create event type", details: error.message },
       { status: 500 }
     );
   }
-}
+});
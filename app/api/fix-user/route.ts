@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
 import { createRouteHandlerClientFromRequest, getCookieHeader } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Diagnostic and fix endpoint for user record issues
  * This helps fix cases where auth user exists but database user doesn't
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { action, email, role } = body;
@@ -178,4 +179,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
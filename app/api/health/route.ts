@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function GET() {
+export const GET = withPublicAccess(async () => {
   try {
     const diagnostics: Record<string, any> = {
       timestamp: new Date().toISOString(),
@@ -73,5 +74,5 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withOptionalUser } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { listMealPlanPackages } from "@/lib/payments/meal-plan-packages";
+
+/**
+ * GET: Meal plan packages on sale, priced for a practitioner (?dietitianId=). Without one, a
+ * signed-in practitioner sees their own prices and everyone else the packages' own prices.
+ */
+export const GET = withOptionalUser(async (request: NextRequest, { user }) => {
+  try {
+    let dietitianId = request.nextUrl.searchParams.get("dietitianId");
+    if (!dietitianId && (user?.role === "DIETITIAN" || user?.role === "THERAPIST")) {
+      dietitianId = user.id;
+    }
+
+    const packages = await listMealPlanPackages({ dietitianId });
+    return NextResponse.json({ packages });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Meal Plan Packages] Failed to load packages:", error);
+    return NextResponse.json({ error: "Failed to load meal plan packages" }, { status: 500 });
+  }
+});
@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { emailQueue } from "@/lib/email/queue";
 
 // GET: Get single meal plan
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("meal-plan:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -66,30 +61,19 @@ export async function GET(
 
     return NextResponse.json({ mealPlan: formattedMealPlan });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching meal plan:", error);
     return NextResponse.json(
       { error: "Failed to fetch meal plan", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update meal plan
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("meal-plan:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -195,30 +179,19 @@ export async function PUT(
 
     return NextResponse.json({ mealPlan: formattedMealPlan });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error updating meal plan:", error);
     return NextResponse.json(
       { error: "Failed to update meal plan", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE: Delete meal plan
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("meal-plan:manage:own", async (request: NextRequest, { params, user: dietitian }) => {
   try {
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -253,17 +226,11 @@ export async function DELETE(
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error deleting meal plan:", error);
     return NextResponse.json(
       { error: "Failed to delete meal plan", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,28 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // DELETE: Delete a meal plan file from storage
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission("meal-plan:manage:own", async (request: NextRequest) => {
   try {
-    // In dev mode, allow more lenient auth
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-
     const body = await request.json();
     const { storagePath } = body;
 
@@ -63,13 +45,6 @@ export async function DELETE(request: NextRequest) {
   } catch (error: any) {
     console.error("[DELETE] Unexpected error:", error);
     
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
-
     return NextResponse.json(
       {
         error: "Failed to delete file",
@@ -78,5 +53,5 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch meal plans for the dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("meal-plan:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -60,24 +59,17 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ mealPlans: formattedMealPlans });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching meal plans:", error);
     return NextResponse.json(
       { error: "Failed to fetch meal plans", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create/send a meal plan
-export async function POST(request: NextRequest) {
+export const POST = withPermission("meal-plan:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -403,17 +395,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ mealPlan: formattedMealPlan }, { status: 201 });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error creating meal plan:", error);
     return NextResponse.json(
       { error: "Failed to create meal plan", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // Helper function to fetch meal plans
 async function fetchMealPlans(userId: string, role: "USER" | "DIETITIAN" | "THERAPIST") {
@@ -67,20 +67,8 @@ async function fetchMealPlans(userId: string, role: "USER" | "DIETITIAN" | "THER
 }
 
 // GET: SSE endpoint for meal plans
-export async function GET(request: NextRequest) {
+export const GET = withPermission("meal-plan:view:own", async (request: NextRequest, { user }) => {
   try {
-    // Authenticate user
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        {
-          status: 401,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
     const supabaseAdmin = createAdminClientServer();
     
     // Get user role
@@ -179,5 +167,5 @@ export async function GET(request: NextRequest) {
       }
     );
   }
-}
+});
 
@@ -1,28 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: Upload meal plan PDF file
-export async function POST(request: NextRequest) {
+export const POST = withPermission("meal-plan:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      // In dev mode, try to get dev user
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-    
     const dietitianId = dietitian.id;
 
     const formData = await request.formData();
@@ -151,13 +133,6 @@ export async function POST(request: NextRequest) {
       name: error?.name,
     });
     
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
-    
     return NextResponse.json(
       { 
         error: "Failed to upload file", 
@@ -167,5 +142,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getPaystackClient, PaystackApiError } from "@/lib/paystack";
+import { withPublicAccess } from "@/lib/auth/permissions";
+
+/**
+ * GET: Banks a payout account can be registered with
+ */
+export const GET = withPublicAccess(async () => {
+  try {
+    const banks = await getPaystackClient().listBanks();
+    return NextResponse.json({ banks });
+  } catch (error) {
+    console.error("[Paystack Banks] Failed to list banks:", error);
+    return NextResponse.json(
+      { error: "Failed to load banks" },
+      { status: error instanceof PaystackApiError ? 502 : 500 }
+    );
+  }
+});
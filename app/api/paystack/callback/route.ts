@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async (request: NextRequest) => {
   const searchParams = request.nextUrl.searchParams;
   const reference = searchParams.get("reference");
   const trxref = searchParams.get("trxref"); // Paystack also sends this
@@ -47,6 +48,10 @@ export async function GET(request: NextRequest) {
       if (metadata && metadata.requestType === "MEAL_PLAN") {
         redirectPath = "/user-dashboard/meal-plan";
         console.log("[CALLBACK] Redirecting to meal-plan (from metadata)");
+      } else if (metadata && metadata.requestType === "SESSION_BUNDLE") {
+        // Prepaid session bundles are listed on the dashboard
+        redirectPath = "/user-dashboard";
+        console.log("[CALLBACK] Redirecting to dashboard (session bundle)");
       }
     } catch (e) {
       // Metadata might not be JSON, ignore
@@ -67,5 +72,5 @@ export async function GET(request: NextRequest) {
   successUrl.searchParams.set("payment", "success");
   successUrl.searchParams.set("reference", paymentRef);
   return NextResponse.redirect(successUrl);
-}
+});
 
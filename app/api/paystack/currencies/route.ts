@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/error-handling";
+import { listCheckoutOptions } from "@/lib/payments/pricing";
+import { withPublicAccess } from "@/lib/auth/permissions";
+
+/**
+ * GET: The currencies a checkout can be paid in, with the price in each
+ * Query: ?bookingId= for a booking, or ?packageId=&dietitianId= for a meal plan
+ */
+export const GET = withPublicAccess(async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const options = await listCheckoutOptions({
+      bookingId: searchParams.get("bookingId"),
+      mealPlanPackageId: searchParams.get("packageId"),
+      dietitianId: searchParams.get("dietitianId"),
+    });
+
+    return NextResponse.json({ options });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Paystack] Failed to load checkout currencies:", error);
+    return NextResponse.json({ error: "Failed to load checkout currencies" }, { status: 500 });
+  }
+});
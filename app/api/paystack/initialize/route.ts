@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createServerClient } from "@supabase/ssr";
 import { createClient } from "@supabase/supabase-js";
+import { getPaystackClient, PaystackApiError } from "@/lib/paystack";
+import { getTransactionSplit, type TransactionSplit } from "@/lib/payments/subaccounts";
+import { applyPromoCode, recordPromoRedemption, type AppliedPromoCode } from "@/lib/payments/promo-codes";
+import { AppError } from "@/lib/error-handling";
+import { getClientAccountId, getWalletBalance, getWalletSpend, reserveWalletForPayment } from "@/lib/payments/wallet";
+import { createPendingSessionCredits, getSessionBundle, type SessionBundle } from "@/lib/payments/session-bundles";
+import { getCheckoutCharge, isCheckoutType } from "@/lib/payments/pricing";
+import { BASE_CURRENCY, isSupportedCurrency } from "@/lib/utils/money";
+import { scheduleAbandonedCheckoutCheck } from "@/lib/payments/abandoned-checkouts";
+import { withSession } from "@/lib/auth/permissions";
 
-const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
-const PAYSTACK_BASE_URL = "https://api.paystack.co";
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
 
 // Create admin client directly for database operations
@@ -22,7 +28,7 @@ function getAdminClient() {
   });
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request: NextRequest, { authUser: user }) => {
   try {
     // Parse body first
     let body: any;
@@ -36,52 +42,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { bookingId, amount, metadata } = body;
-
-    if (!PAYSTACK_SECRET_KEY) {
-      console.error("[Paystack Init] PAYSTACK_SECRET_KEY not configured");
-      return NextResponse.json(
-        { error: "PAYSTACK_SECRET_KEY not configured" },
-        { status: 500 }
-      );
+    const { metadata, promoCode, useWallet } = body;
+    if (!metadata || !isCheckoutType(metadata.requestType)) {
+      return NextResponse.json({ error: "This can't be paid for" }, { status: 400 });
     }
 
-    if (!supabaseUrl || !supabaseAnonKey) {
-      console.error("[Paystack Init] Supabase config missing", { 
-        hasUrl: !!supabaseUrl, 
-        hasKey: !!supabaseAnonKey 
-      });
-      return NextResponse.json(
-        { error: "Supabase configuration missing" },
-        { status: 500 }
-      );
+    // Currency the client chose to pay in; without one, the item's own currency
+    const requestedCurrency = typeof body.currency === "string" ? body.currency.toUpperCase() : null;
+    if (requestedCurrency && !isSupportedCurrency(requestedCurrency)) {
+      return NextResponse.json({ error: `Payments in ${requestedCurrency} aren't supported` }, { status: 400 });
     }
 
-    // Get email from authenticated session (OAuth details)
-    // Use the same pattern as debug/user route which works correctly
-    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
-      cookies: {
-        getAll() {
-          return request.cookies.getAll();
-        },
-        setAll(cookiesToSet) {
-          // Cookies are set via response headers
-        },
-      },
-    });
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    
-    if (authError || !user || !user.email) {
-      console.error("[Paystack Init] Auth failed:", { 
-        authError: authError?.message, 
-        hasUser: !!user, 
-        hasEmail: !!user?.email,
-        cookieCount: request.cookies.getAll().length 
-      });
+    if (!user.email) {
       return NextResponse.json(
-        { error: "Authentication required. Please ensure you are logged in.", details: authError?.message },
-        { status: 401 }
+        { error: "Your account has no email address to send the receipt to" },
+        { status: 400 }
       );
     }
 
@@ -92,65 +67,225 @@ export async function POST(request: NextRequest) {
                  user.email?.split("@")[0] || 
                  "User";
 
-    if (!amount) {
+    const adminClient = getAdminClient();
+    if (!adminClient) {
+      return NextResponse.json({ error: "Payments aren't available right now" }, { status: 500 });
+    }
+
+    // Only the client's own bookings and session requests can be paid for. Session requests are
+    // sent as the booking id by some pages; the payment only records real bookings.
+    const clientAccountId = await getClientAccountId(user.id);
+    const requestedBookingId = body.bookingId || metadata.bookingId || null;
+    let bookingId: string | null = null;
+    if (requestedBookingId) {
+      const { data: booking } = await adminClient
+        .from("bookings")
+        .select("id, user_id")
+        .eq("id", requestedBookingId)
+        .maybeSingle();
+      if (booking && booking.user_id !== clientAccountId && booking.user_id !== user.id) {
+        return NextResponse.json({ error: "You can only pay for your own bookings" }, { status: 403 });
+      }
+      bookingId = booking?.id || null;
+    }
+    if (metadata.requestId) {
+      const { data: sessionRequest } = await adminClient
+        .from("session_requests")
+        .select("client_email")
+        .eq("id", metadata.requestId)
+        .maybeSingle();
+      if (sessionRequest && sessionRequest.client_email?.toLowerCase() !== email.toLowerCase()) {
+        return NextResponse.json({ error: "You can only pay for your own requests" }, { status: 403 });
+      }
+    }
+
+    // Bundles are paid to the practitioner who offers them
+    let sessionBundle: SessionBundle | null = null;
+    if (metadata.requestType === "SESSION_BUNDLE") {
+      try {
+        sessionBundle = await getSessionBundle(metadata.bundleId);
+      } catch (bundleError) {
+        if (bundleError instanceof AppError) {
+          return NextResponse.json({ error: bundleError.message }, { status: bundleError.statusCode });
+        }
+        throw bundleError;
+      }
+      metadata.dietitianId = sessionBundle.dietitianId;
+      metadata.eventTypeId = sessionBundle.eventTypeId;
+    }
+
+    // Everything is priced on the server, whatever amount the client shows
+    const charge = await getCheckoutCharge(
+      {
+        requestType: metadata.requestType,
+        bookingId,
+        requestId: metadata.requestId || null,
+        packageId: metadata.packageId || null,
+        dietitianId: metadata.dietitianId || null,
+        bundleId: metadata.bundleId || null,
+      },
+      requestedCurrency
+    );
+    if (!charge || charge.amount <= 0) {
       return NextResponse.json(
-        { error: "amount is required" },
+        {
+          error: requestedCurrency
+            ? `This can't be paid in ${requestedCurrency}`
+            : "There's nothing to pay for this checkout",
+        },
         { status: 400 }
       );
     }
+    let amount = Math.round(charge.amount * 100);
+    const currency = charge.currency;
+
+    // Price the checkout on the server when a promo code is used, so the discount can't be forged
+    let appliedPromo: AppliedPromoCode | null = null;
+    if (promoCode) {
+      try {
+        appliedPromo = await applyPromoCode({
+          code: promoCode,
+          email,
+          bookingId,
+          mealPlanPackageId: metadata?.packageId,
+          dietitianId: metadata?.dietitianId,
+          currency,
+        });
+      } catch (promoError) {
+        if (promoError instanceof AppError) {
+          return NextResponse.json({ error: promoError.message }, { status: promoError.statusCode });
+        }
+        throw promoError;
+      }
+      amount = Math.round(appliedPromo.finalAmount * 100);
+    }
+
+    // Wallet balance comes off what the card is charged; it is reserved once the payment record
+    // exists and spent when the payment is confirmed. The wallet is held in NGN, so it can't be put towards payments in other currencies.
+    if (sessionBundle && !clientAccountId) {
+      return NextResponse.json({ error: "Client account not found" }, { status: 404 });
+    }
+    let walletAmount = 0;
+    if (useWallet && clientAccountId && currency === BASE_CURRENCY) {
+      walletAmount = getWalletSpend(await getWalletBalance(clientAccountId), amount / 100);
+      amount = Math.round((amount / 100 - walletAmount) * 100);
+    }
 
     // Get callback URL
     const callbackUrl = process.env.NEXT_PUBLIC_SITE_URL 
       ? `${process.env.NEXT_PUBLIC_SITE_URL}/api/paystack/callback`
       : `${request.headers.get("origin") || "http://localhost:3000"}/api/paystack/callback`;
 
+    // Split with the practitioner's subaccount when they have one; otherwise the platform
+    // collects the full amount and it is paid out through a payout batch
+    let split: TransactionSplit | null = null;
+    try {
+      split = await getTransactionSplit({ bookingId, metadata, amount });
+    } catch (splitError) {
+      console.error("[Paystack Init] Failed to resolve subaccount split:", splitError);
+    }
+
     // Initialize transaction with Paystack (amount expected in kobo)
-    const initRes = await fetch(`${PAYSTACK_BASE_URL}/transaction/initialize`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    let authorization_url: string;
+    let reference: string;
+    try {
+      const transaction = await getPaystackClient().initializeTransaction({
         email, // From authenticated session (OAuth)
-        amount: amount, // Already in kobo from client
-        currency: "NGN",
-        callback_url: callbackUrl, // Redirect back after payment
+        amount, // In the currency's subunit (kobo, cents, pence)
+        currency,
+        callbackUrl, // Redirect back after payment
         metadata: {
           bookingId: bookingId || undefined,
           name: name, // From authenticated session (OAuth)
           ...metadata, // Merge additional metadata
+          promoCode: appliedPromo?.code,
+          walletAmount: walletAmount || undefined,
         },
-      }),
-    });
+        subaccount: split?.subaccount,
+        transactionCharge: split?.transactionCharge,
+      });
+      authorization_url = transaction.authorizationUrl;
+      reference = transaction.reference;
+    } catch (initError) {
+      if (initError instanceof PaystackApiError) {
+        return NextResponse.json(
+          { error: "Paystack initialization failed", details: initError.response },
+          { status: 502 }
+        );
+      }
+      throw initError;
+    }
 
-    const initJson = await initRes.json();
-    if (!initRes.ok || !initJson.status) {
-      return NextResponse.json(
-        { error: "Paystack initialization failed", details: initJson },
-        { status: 502 }
-      );
+    // Upsert payment record as pending (using admin client for RLS bypass).
+    // Store metadata in payment record for callback routing and for pricing it again on confirmation.
+    const { data: payment, error: paymentError } = await adminClient.from("payments").upsert(
+      {
+        paystack_ref: reference,
+        booking_id: bookingId,
+        amount: amount / 100, // Stored in major units, like event_types.price
+        currency,
+        status: "PENDING",
+        subaccount_code: split?.subaccount || null,
+        promo_code_id: appliedPromo?.promoCodeId || null,
+        original_amount: appliedPromo?.originalAmount ?? null,
+        discount_amount: appliedPromo?.discountAmount ?? null,
+        user_id: clientAccountId,
+        wallet_amount: walletAmount || null,
+        metadata,
+      },
+      { onConflict: "paystack_ref" }
+    ).select("id").single();
+
+    // Without the record the payment could never be confirmed, so don't send the client to pay
+    if (paymentError || !payment) {
+      console.error("[Paystack Init] Failed to record payment:", { reference, error: paymentError?.message });
+      return NextResponse.json({ error: "Failed to start checkout. Please try again." }, { status: 500 });
     }
 
-    const { authorization_url, reference } = initJson.data;
+    // Another checkout may have reserved the balance since it was read
+    if (walletAmount > 0 && clientAccountId) {
+      try {
+        await reserveWalletForPayment(
+          clientAccountId,
+          payment.id,
+          walletAmount,
+          currency,
+          typeof metadata.description === "string" ? metadata.description : null
+        );
+      } catch (walletError) {
+        await adminClient.from("payments").update({ status: "FAILED" }).eq("id", payment.id);
+        if (walletError instanceof AppError) {
+          return NextResponse.json({ error: walletError.message }, { status: walletError.statusCode });
+        }
+        throw walletError;
+      }
+    }
 
-    // Upsert payment record as pending (using admin client for RLS bypass)
-    const adminClient = getAdminClient();
-    if (adminClient) {
-      // Store metadata in payment record for callback routing
-      await adminClient.from("payments").upsert(
-        {
-          paystack_ref: reference,
-          booking_id: bookingId,
-          amount,
-          currency: "NGN",
-          status: "PENDING",
-          metadata: metadata || {}, // Store metadata for callback routing
-        },
-        { onConflict: "paystack_ref" }
-      );
-    } else {
-      console.warn("[Paystack] No admin client available, skipping payment record");
+    // The promo code's limits are enforced here; without the redemption the discount isn't allowed
+    if (appliedPromo) {
+      try {
+        await recordPromoRedemption(payment.id, email, appliedPromo, { bookingId });
+      } catch (redemptionError) {
+        await adminClient.from("payments").update({ status: "FAILED" }).eq("id", payment.id);
+        if (redemptionError instanceof AppError) {
+          return NextResponse.json({ error: redemptionError.message }, { status: redemptionError.statusCode });
+        }
+        throw redemptionError;
+      }
+    }
+
+    // The credits become usable once the payment is confirmed
+    if (sessionBundle && clientAccountId) {
+      await createPendingSessionCredits(payment.id, clientAccountId, sessionBundle);
+    }
+
+    // If the client walks away from checkout, they're emailed a link back to it
+    if (bookingId && metadata.requestType === "CONSULTATION") {
+      try {
+        await scheduleAbandonedCheckoutCheck(payment.id, bookingId);
+      } catch (scheduleError) {
+        console.error("[Paystack Init] Failed to schedule abandoned checkout check:", scheduleError);
+      }
     }
 
     return NextResponse.json({ authorization_url, reference });
@@ -161,4 +296,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
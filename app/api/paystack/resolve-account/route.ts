@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/error-handling";
+import { PaystackApiError } from "@/lib/paystack";
+import { resolvePayoutAccount } from "@/lib/payments/subaccounts";
+import { apiRateLimit } from "@/lib/rate-limit";
+import { withSession } from "@/lib/auth/permissions";
+
+/**
+ * GET: Name on a bank account, so enrolling practitioners can confirm their payout details
+ * Query: ?accountNumber=0123456789&bankCode=058
+ */
+export const GET = withSession(async (request: NextRequest) => {
+  try {
+    await apiRateLimit.check(request, 20, "RESOLVE_ACCOUNT");
+  } catch {
+    return NextResponse.json({ error: "Too many requests. Please try again shortly." }, { status: 429 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const account = await resolvePayoutAccount(
+      searchParams.get("bankCode") || "",
+      searchParams.get("accountNumber") || ""
+    );
+
+    return NextResponse.json({ account });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error instanceof PaystackApiError) {
+      return NextResponse.json({ error: "Could not reach Paystack to verify the account" }, { status: 502 });
+    }
+    console.error("[Paystack Resolve Account] Error:", error);
+    return NextResponse.json({ error: "Failed to verify account" }, { status: 500 });
+  }
+});
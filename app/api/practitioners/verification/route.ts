@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError } from "@/lib/error-handling";
+import {
+  addVerificationDocuments,
+  getOwnVerification,
+  getUploadedCredentialDocuments,
+} from "@/lib/practitioners/verification";
+
+function handleError(error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: errorMessage },
+    { status: 500 }
+  );
+}
+
+// Documents are uploaded under the practitioner's auth user, which older accounts share their id with
+async function getAuthUserId(userId: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data } = await supabaseAdmin.from("users").select("auth_user_id").eq("id", userId).maybeSingle();
+  return data?.auth_user_id || userId;
+}
+
+// GET: The signed-in practitioner's credential review: status, notes from the admin and documents sent
+export const GET = withPermission("practitioner:verification:submit", async (request: NextRequest, { user: practitioner }) => {
+  try {
+    const verification = await getOwnVerification(practitioner.id);
+    return NextResponse.json({ verification });
+  } catch (error) {
+    return handleError(error, "Failed to fetch verification");
+  }
+});
+
+// POST: Send more credential documents, usually after an admin asked for them
+// Body: { documents: [{ name, path }], notes? } with the documents uploaded to storage beforehand
+export const POST = withPermission("practitioner:verification:submit", async (request: NextRequest, { user: practitioner }) => {
+  try {
+    const body = await request.json();
+    const authUserId = await getAuthUserId(practitioner.id);
+
+    await addVerificationDocuments(practitioner.id, {
+      documents: await getUploadedCredentialDocuments(authUserId, body.documents),
+      notes: typeof body.notes === "string" ? body.notes : null,
+    });
+
+    const verification = await getOwnVerification(practitioner.id);
+    return NextResponse.json({ verification });
+  } catch (error) {
+    return handleError(error, "Failed to upload documents");
+  }
+});
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withSession } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { createCredentialUploadUrls } from "@/lib/practitioners/verification";
+
+// POST: Signed URLs to upload credential documents to before enrolling or sending more of them.
+// Open to anyone signed in, since enrolling practitioners have no practitioner account yet.
+// Body: { files: [{ name, contentType, size }] }
+export const POST = withSession(async (request: NextRequest, { authUser }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const uploads = await createCredentialUploadUrls(authUser.id, body.files);
+    return NextResponse.json({ uploads });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Failed to prepare credential uploads:", error);
+    return NextResponse.json({ error: "Failed to prepare credential uploads" }, { status: 500 });
+  }
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/error-handling";
+import { applyPromoCode } from "@/lib/payments/promo-codes";
+import { apiRateLimit } from "@/lib/rate-limit";
+import { withSession } from "@/lib/auth/permissions";
+
+/**
+ * POST: Check a promo code at checkout and return the discounted price
+ * Body: { code, eventTypeId } for a session, or { code, mealPlanPackageId, dietitianId } for a meal plan,
+ * with an optional currency when paying in a currency other than the item's own
+ */
+export const POST = withSession(async (request: NextRequest, { authUser }) => {
+  try {
+    await apiRateLimit.check(request, 20, "PROMO_CODE_VALIDATE");
+  } catch {
+    return NextResponse.json({ error: "Too many attempts. Please try again shortly." }, { status: 429 });
+  }
+
+  try {
+    if (!authUser.email) {
+      return NextResponse.json({ error: "Please sign in to use a promo code" }, { status: 401 });
+    }
+
+    const { code, eventTypeId, mealPlanPackageId, dietitianId, bookingId, currency } = await request.json();
+    const promo = await applyPromoCode({
+      code,
+      email: authUser.email,
+      eventTypeId,
+      mealPlanPackageId,
+      dietitianId,
+      bookingId,
+      currency,
+    });
+
+    return NextResponse.json({ promo });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Promo Codes] Validation error:", error);
+    return NextResponse.json({ error: "Failed to check promo code" }, { status: 500 });
+  }
+});
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withOptionalUser } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { listSessionBundles, listSessionCredits } from "@/lib/payments/session-bundles";
+
+/**
+ * GET: Bundles on sale for an event type (?eventTypeId=), with the signed-in client's unused
+ * credits for it so the booking flow can offer to book against them
+ */
+export const GET = withOptionalUser(async (request: NextRequest, { user }) => {
+  try {
+    const eventTypeId = request.nextUrl.searchParams.get("eventTypeId");
+    if (!eventTypeId) {
+      return NextResponse.json({ error: "eventTypeId is required" }, { status: 400 });
+    }
+    const [bundles, credits] = await Promise.all([
+      listSessionBundles(eventTypeId),
+      user ? listSessionCredits(user.id, { eventTypeId }) : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({
+      bundles,
+      credits,
+      creditsRemaining: credits.reduce((sum, credit) => sum + credit.sessionsRemaining, 0),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Session Bundles] Failed to load bundles:", error);
+    return NextResponse.json({ error: "Failed to load session bundles" }, { status: 500 });
+  }
+});
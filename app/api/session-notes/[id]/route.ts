@@ -1,30 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * PUT: Update session note (fill form)
  * Only the therapist who owns the note can update it
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>("notes:manage:own", async (request: NextRequest, { params, user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Only therapists can update notes
-    if (currentUser.role !== "THERAPIST") {
-      return NextResponse.json(
-        { error: "Only therapists can update session notes" },
-        { status: 403 }
-      );
-    }
-
     const { id: noteId } = await params;
     const body = await request.json();
     const {
@@ -122,22 +105,13 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET: Get a single session note by ID
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>(["notes:view:own", "notes:manage:own"], async (request: NextRequest, { params, user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id: noteId } = await params;
     const supabaseAdmin = createAdminClientServer();
 
@@ -200,5 +174,5 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,23 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET: Get all session notes for a specific client
  * Used for "View Client Details" feature
  * Only accessible by the therapist who owns the notes or the client themselves
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ clientId: string }> }
-) {
+export const GET = withPermission<{ clientId: string }>(["notes:view:own", "notes:manage:own"], async (request: NextRequest, { params, user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { clientId } = await params;
     const supabaseAdmin = createAdminClientServer();
 
@@ -113,5 +104,5 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * Create a pending session note when a booking is created
  * This is called automatically from the booking creation API
  * Only creates notes for therapist bookings
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("book:create", async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { bookingId } = body;
@@ -152,5 +153,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
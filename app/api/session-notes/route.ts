@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET: Fetch session notes based on user role
@@ -8,14 +8,8 @@ import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
  * - Client: All notes for their sessions
  * - Admin: All notes
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(["notes:view:own", "notes:manage:own"], async (request: NextRequest, { user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const supabaseAdmin = createAdminClientServer();
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status"); // 'PENDING' or 'COMPLETED'
@@ -115,5 +109,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // GET: Fetch distinct users who have booked with the dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("client:view:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
     const dietitianId = dietitian.id;
     
     if (!dietitianId) {
@@ -63,4 +62,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { emailQueue } from "@/lib/email/queue";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
+import { getMealPlanPackage } from "@/lib/payments/meal-plan-packages";
 
 // GET: Fetch session requests for the dietitian
-export async function GET(request: NextRequest) {
+export const GET = withPermission("request:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
     // Log cookies for debugging
     const cookieHeader = request.headers.get("cookie") || "";
@@ -15,52 +16,6 @@ export async function GET(request: NextRequest) {
       console.log("SessionRequest GET - Has Supabase cookie:", hasAuthCookie);
     }
 
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-      console.log("SessionRequest GET - Authenticated dietitian:", dietitian.id);
-    } catch (authError: any) {
-      // In dev mode, try to get dev user
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-          console.log("SessionRequest GET - Using dev dietitian:", dietitian.id);
-        } else {
-          console.error("SessionRequest GET - Authentication error", {
-            error: authError?.message,
-            status: authError?.status,
-            url: request.url,
-            stack: authError?.stack,
-          });
-          const statusCode = authError?.status || (authError?.message?.includes("Unauthorized") ? 401 : 403);
-          return NextResponse.json(
-            { 
-              error: authError?.message || "Authentication failed",
-              details: authError?.message 
-            },
-            { status: statusCode }
-          );
-        }
-      } else {
-        console.error("SessionRequest GET - Authentication error", {
-          error: authError?.message,
-          status: authError?.status,
-          url: request.url,
-          stack: authError?.stack,
-        });
-        const statusCode = authError?.status || (authError?.message?.includes("Unauthorized") ? 401 : 403);
-        return NextResponse.json(
-          { 
-            error: authError?.message || "Authentication failed",
-            details: authError?.message 
-          },
-          { status: statusCode }
-        );
-      }
-    }
-    
     const dietitianId = dietitian.id;
 
     const supabaseAdmin = createAdminClientServer();
@@ -323,41 +278,17 @@ export async function GET(request: NextRequest) {
       );
     }
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("SessionRequest GET - Unexpected error:", error);
     return NextResponse.json(
       { error: "Failed to fetch session requests", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create a new session request
-export async function POST(request: NextRequest) {
+export const POST = withPermission("request:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      console.error("Session request API POST: Authentication error", {
-        error: authError?.message,
-        url: request.url,
-      });
-      const statusCode = authError?.message?.includes("Unauthorized") ? 401 : 403;
-      return NextResponse.json(
-        { 
-          error: authError?.message || "Authentication failed",
-          details: authError?.message 
-        },
-        { status: statusCode }
-      );
-    }
-    
     const dietitianId = dietitian.id;
 
     const body = await request.json();
@@ -368,6 +299,7 @@ export async function POST(request: NextRequest) {
       message,
       eventTypeId,
       mealPlanType,
+      mealPlanPackageId,
       price,
       currency,
       requestedDate, // Optional - only used if provided
@@ -403,7 +335,7 @@ export async function POST(request: NextRequest) {
         );
       }
     } else if (requestType === "MEAL_PLAN") {
-      if (!mealPlanType) {
+      if (!mealPlanType && !mealPlanPackageId) {
         return NextResponse.json(
           { error: "Meal plan type is required for meal plan requests" },
           { status: 400 }
@@ -433,9 +365,19 @@ export async function POST(request: NextRequest) {
         insertData.requested_date = requestedDate;
       }
     } else if (requestType === "MEAL_PLAN") {
-      insertData.meal_plan_type = mealPlanType;
-      insertData.price = price;
-      insertData.currency = currency || "NGN";
+      // Priced from the package at this practitioner's price, and kept with the request so later
+      // changes to the package don't alter what the client is asked to pay
+      const mealPlanPackage = await getMealPlanPackage(mealPlanPackageId || mealPlanType, { dietitianId });
+      if (mealPlanPackageId && !mealPlanPackage) {
+        return NextResponse.json(
+          { error: "Meal plan package not found" },
+          { status: 404 }
+        );
+      }
+      insertData.meal_plan_type = mealPlanPackage?.name || mealPlanType;
+      insertData.meal_plan_package_id = mealPlanPackage?.id || null;
+      insertData.price = mealPlanPackage?.price ?? price;
+      insertData.currency = mealPlanPackage?.currency || currency || "NGN";
     }
 
     const { data: newRequest, error: insertError } = await supabaseAdmin
@@ -535,4 +477,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
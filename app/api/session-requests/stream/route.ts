@@ -1,6 +1,6 @@
 import { NextRequest } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // Helper function to fetch session requests
 async function fetchSessionRequests(dietitianId: string) {
@@ -317,27 +317,8 @@ async function fetchSessionRequests(dietitianId: string) {
 }
 
 // GET: SSE endpoint for session requests
-export async function GET(request: NextRequest) {
+export const GET = withPermission("request:manage:own", async (request: NextRequest, { user: dietitian }) => {
   try {
-    // Authenticate user - use more lenient auth in dev mode
-    let dietitian;
-    try {
-      dietitian = await requireDietitianFromRequest(request);
-    } catch (authError: any) {
-      // In dev mode, try to get dev user
-      if (process.env.NODE_ENV === 'development') {
-        const { getCurrentUserFromRequest } = await import("@/lib/auth-helpers");
-        const devUser = await getCurrentUserFromRequest(request);
-        if (devUser && devUser.role === 'DIETITIAN') {
-          dietitian = devUser;
-        } else {
-          throw authError;
-        }
-      } else {
-        throw authError;
-      }
-    }
-    
     const dietitianId = dietitian.id;
 
     // Set SSE headers
@@ -435,15 +416,6 @@ export async function GET(request: NextRequest) {
 
     return new Response(stream, { headers });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        {
-          status: error.message === "Unauthorized" ? 401 : 403,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
     console.error("Error in SSE stream:", error);
     return new Response(
       JSON.stringify({ error: "Failed to create stream", details: error.message }),
@@ -453,5 +425,5 @@ export async function GET(request: NextRequest) {
       }
     );
   }
-}
+});
 
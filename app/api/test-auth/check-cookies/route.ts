@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const cookieStore = await cookies();
     const cookieHeader = request.headers.get("cookie") || "";
@@ -45,4 +46,4 @@ export async function GET(request: NextRequest) {
       stack: error.stack,
     }, { status: 500 });
   }
-}
+});
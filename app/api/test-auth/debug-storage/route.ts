@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const cookieHeader = request.headers.get("cookie") || "";
     
@@ -51,4 +52,4 @@ export async function GET(request: NextRequest) {
       stack: error.stack,
     }, { status: 500 });
   }
-}
+});
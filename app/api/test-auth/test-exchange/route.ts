@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { withPermission } from "@/lib/auth/permissions";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("admin:debug:run", async (request: NextRequest) => {
   try {
     const requestUrl = new URL(request.url);
     const code = requestUrl.searchParams.get("code");
@@ -83,4 +84,4 @@ export async function GET(request: NextRequest) {
       stack: error.stack,
     }, { status: 500 });
   }
-}
+});
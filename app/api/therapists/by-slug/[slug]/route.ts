@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
 /**
  * Convert a URL slug back to a searchable name pattern
@@ -26,10 +27,7 @@ function nameToSlug(name: string): string {
     .replace(/-+/g, "-");
 }
 
-export async function GET(
-  request: Request,
-  { params }: { params: Promise<{ slug: string }> | { slug: string } }
-) {
+export const GET = withPublicAccess<{ slug: string }>(async (request: Request, { params }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -133,5 +131,5 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
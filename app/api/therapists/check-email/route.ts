@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
-export async function POST(request: NextRequest) {
+export const POST = withPublicAccess(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { email } = body;
@@ -93,4 +94,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
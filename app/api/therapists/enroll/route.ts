@@ -3,8 +3,16 @@ import { createRouteHandlerClientFromRequest, createAdminClientServer } from "@/
 import { getCookieHeader } from "@/lib/supabase/server";
 import { authConfig } from "@/lib/auth/config";
 import { randomUUID } from "crypto";
+import { AppError } from "@/lib/error-handling";
+import { registerPayoutAccount, resolvePayoutAccount, type PayoutAccount } from "@/lib/payments/subaccounts";
+import {
+  getUploadedCredentialDocuments,
+  submitVerification,
+  type ParsedCredentialDocument,
+} from "@/lib/practitioners/verification";
+import { withSession } from "@/lib/auth/permissions";
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request: NextRequest, { authUser }) => {
   try {
     const body = await request.json();
     const {
@@ -15,59 +23,14 @@ export async function POST(request: NextRequest) {
       location,
       profilePicture, // Base64 or file data
       licenseNumber,
+      credentialDocuments, // [{ name, path }] uploaded to storage beforehand, reviewed by admins before approval
       experience,
       specialization,
       bio,
+      bankCode, // Payout account, becomes the Paystack subaccount payments are split with
+      accountNumber,
     } = body;
 
-    // Get authenticated user from session
-    const cookieHeader = getCookieHeader(request);
-    const supabase = createRouteHandlerClientFromRequest(cookieHeader);
-
-    // Try Authorization header first, then fall back to cookies
-    const authHeader = request.headers.get("authorization");
-    let authUser = null;
-    let authError = null;
-
-    if (authHeader?.startsWith("Bearer ")) {
-      // Use token from Authorization header
-      const token = authHeader.substring(7);
-      const {
-        data: { user },
-        error,
-      } = await supabase.auth.getUser(token);
-      authUser = user;
-      authError = error;
-    } else {
-      // Fall back to cookies
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-
-      if (session?.access_token) {
-        const {
-          data: { user },
-          error,
-        } = await supabase.auth.getUser(session.access_token);
-        authUser = user;
-        authError = error;
-      } else {
-        const {
-          data: { user },
-          error,
-        } = await supabase.auth.getUser();
-        authUser = user;
-        authError = error;
-      }
-    }
-
-    if (authError || !authUser) {
-      return NextResponse.json(
-        { error: "Unauthorized: Please sign in with Google first" },
-        { status: 401 }
-      );
-    }
-
     // Validate required fields
     if (
       !fullName ||
@@ -78,11 +41,38 @@ export async function POST(request: NextRequest) {
       !licenseNumber ||
       !experience ||
       !specialization ||
-      !bio
+      !bio ||
+      !bankCode ||
+      !accountNumber
     ) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
     }
 
+    let documents: ParsedCredentialDocument[];
+    try {
+      documents = await getUploadedCredentialDocuments(authUser.id, credentialDocuments);
+    } catch (documentError) {
+      if (documentError instanceof AppError) {
+        return NextResponse.json({ error: documentError.message }, { status: documentError.statusCode });
+      }
+      throw documentError;
+    }
+
+    // Verify the payout account before creating anything
+    let payoutAccount: PayoutAccount;
+    try {
+      payoutAccount = await resolvePayoutAccount(bankCode, accountNumber);
+    } catch (payoutError) {
+      if (payoutError instanceof AppError) {
+        return NextResponse.json({ error: payoutError.message }, { status: payoutError.statusCode });
+      }
+      console.error("Failed to verify payout account:", payoutError);
+      return NextResponse.json(
+        { error: "We couldn't verify your bank account right now. Please try again." },
+        { status: 502 }
+      );
+    }
+
     // Handle profile picture upload if provided
     let imageUrl = null;
     if (profilePicture) {
@@ -192,7 +182,8 @@ export async function POST(request: NextRequest) {
       email: email,
       role: "THERAPIST",
       bio: bio,
-      account_status: "ACTIVE",
+      // Hidden from clients and kept out of the dashboard until an admin approves the credentials
+      account_status: "PENDING_VERIFICATION",
       // email_verified is TIMESTAMPTZ in the database schema
       // Use the auth user's email_confirmed_at timestamp if available
       ...(authUser.email_confirmed_at ? { 
@@ -293,6 +284,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Create the Paystack subaccount; without it payments are paid out manually, so enrollment still succeeds
+    let payoutAccountRegistered = false;
+    try {
+      await registerPayoutAccount(user, payoutAccount, phone);
+      payoutAccountRegistered = true;
+    } catch (subaccountError) {
+      console.error("Failed to create Paystack subaccount:", {
+        userId: user.id,
+        error: subaccountError instanceof Error ? subaccountError.message : subaccountError,
+      });
+    }
+
+    // Upload the credentials for review. If this fails the practitioner can upload them again
+    // from the verification page, so enrollment still succeeds.
+    let verificationSubmitted = false;
+    try {
+      await submitVerification(user.id, { licenseNumber, documents });
+      verificationSubmitted = true;
+    } catch (verificationError) {
+      console.error("Failed to submit credentials for verification:", {
+        userId: user.id,
+        error: verificationError instanceof Error ? verificationError.message : verificationError,
+      });
+    }
+
     // Audit log enrollment (don't fail if this fails)
     try {
       await supabaseAdmin.from("auth_audit_log").insert({
@@ -320,7 +336,7 @@ export async function POST(request: NextRequest) {
     // Sign out the user so they can use the magic link
     // This is necessary because magic links require the user to not be authenticated
     try {
-      await supabase.auth.signOut();
+      await createRouteHandlerClientFromRequest(getCookieHeader(request)).auth.signOut();
     } catch (signOutError: any) {
       console.warn("Failed to sign out user after enrollment (non-critical):", {
         error: signOutError?.message,
@@ -375,7 +391,9 @@ export async function POST(request: NextRequest) {
           name: user.name,
           role: user.role,
         },
-        message: "Enrollment successful. Please check your email for a magic link to access your dashboard.",
+        payoutAccountRegistered,
+        verificationSubmitted,
+        message: "Enrollment received. We'll email you once your credentials have been reviewed.",
       },
       { status: 200 }
     );
@@ -396,4 +414,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
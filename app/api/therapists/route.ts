@@ -1,18 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
 // GET: List all active therapists
-export async function GET(request: NextRequest) {
+export const GET = withPublicAccess(async () => {
   try {
-    // Ensure user is authenticated (can be any role to view therapists)
-    try {
-      await getCurrentUserFromRequest(request);
-    } catch (authError) {
-      // Log but don't block - allow unauthenticated users to view therapists
-      console.log("Auth check failed, proceeding anyway:", authError);
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Fetch all active therapists (or all therapists if account_status is not set)
@@ -58,5 +50,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
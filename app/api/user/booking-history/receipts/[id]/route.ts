@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { getReceiptFileName, getReceiptForUser } from "@/lib/payments/receipts";
+import { renderReceiptPdf } from "@/lib/payments/receipt-pdf";
+
+// GET: One of the signed-in client's receipts as a PDF download
+export const GET = withPermission<{ id: string }>("book:view:own", async (request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await Promise.resolve(params);
+    const receipt = await getReceiptForUser(id, user.id);
+
+    return new NextResponse(new Uint8Array(renderReceiptPdf(receipt)), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getReceiptFileName(receipt)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Receipts] Failed to download receipt:", error);
+    return NextResponse.json({ error: "Failed to download receipt" }, { status: 500 });
+  }
+});
@@ -1,18 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
+import { listReceipts, type Receipt } from "@/lib/payments/receipts";
 
-// GET: Fetch user's booking history to determine available event types
-export async function GET(request: NextRequest) {
+// GET: Fetch user's booking history to determine available event types, and their payment receipts
+export const GET = withPermission("book:view:own", async (request: NextRequest, { user }) => {
   try {
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Fetch completed bookings with event types
@@ -46,9 +39,21 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    // Receipts cover sessions, bundles and meal plans; the history still loads without them
+    let receipts: Receipt[] = [];
+    try {
+      receipts = await listReceipts(user.id);
+    } catch (receiptsError) {
+      console.error("Error fetching receipts:", receiptsError);
+    }
+
     return NextResponse.json({
       bookings: bookings || [],
       bookedEventTypes: Array.from(bookedEventTypes),
+      receipts: receipts.map((receipt) => ({
+        ...receipt,
+        downloadUrl: `/api/user/booking-history/receipts/${receipt.id}`,
+      })),
     });
   } catch (error: any) {
     console.error("Error in booking-history route:", error);
@@ -57,5 +62,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
+import { withPublicAccess } from "@/lib/auth/permissions";
 
 // GET: Fetch dietitian information by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const GET = withPublicAccess<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
@@ -24,11 +22,12 @@ export async function GET(
     // Fetch user by ID (should be a dietitian)
     const { data: user, error } = await supabaseAdmin
       .from("users")
-      .select("id, name, email, image, role")
+      .select("id, name, email, image, role, account_status")
       .eq("id", id)
       .single();
 
-    if (error || !user) {
+    // Practitioners still being verified or suspended aren't shown to clients
+    if (error || !user || (user.account_status && user.account_status !== "ACTIVE")) {
       return NextResponse.json(
         { error: "Dietitian not found" },
         { status: 404 }
@@ -52,4 +51,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * POST /api/user/disconnect-google-calendar
  * Disconnect Google Calendar by removing OAuth tokens
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("profile:edit:own", async (request: NextRequest, { user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Delete Google OAuth tokens
@@ -39,5 +34,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
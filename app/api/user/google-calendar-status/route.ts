@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 /**
  * GET /api/user/google-calendar-status
  * Check if the current user has Google Calendar connected
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("profile:view:own", async (request: NextRequest, { user: currentUser }) => {
   try {
-    const currentUser = await getCurrentUserFromRequest(request);
-    if (!currentUser) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     // Check if user has Google OAuth tokens
@@ -45,5 +40,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,23 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
+import { TimezoneHelper } from "@/lib/utils/timezone";
 
 // GET: Fetch user profile data
-export async function GET(request: NextRequest) {
+export const GET = withPermission("profile:view:own", async (request: NextRequest, { user }) => {
   try {
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
     const supabaseAdmin = createAdminClientServer();
 
     const { data: userProfile, error } = await supabaseAdmin
       .from("users")
-      .select("id, name, email, age, occupation, medical_condition, monthly_food_budget, signup_source, gender, phone, city, state")
+      .select("id, name, email, age, occupation, medical_condition, monthly_food_budget, signup_source, gender, phone, city, state, timezone")
       .eq("id", user.id)
       .single();
 
@@ -37,22 +30,21 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // PUT: Update user profile data
-export async function PUT(request: NextRequest) {
+export const PUT = withPermission("profile:edit:own", async (request: NextRequest, { user }) => {
   try {
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
+    const body = await request.json();
+    const { age, occupation, medical_condition, monthly_food_budget, gender, phone, city, state, timezone } = body;
+
+    if (timezone !== undefined && (typeof timezone !== "string" || !TimezoneHelper.validateTimezone(timezone))) {
       return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
+        { error: "Invalid timezone", details: `timezone: ${timezone}` },
+        { status: 400 }
       );
     }
 
-    const body = await request.json();
-    const { age, occupation, medical_condition, monthly_food_budget, gender, phone, city, state } = body;
-
     const supabaseAdmin = createAdminClientServer();
 
     const updateData: any = {};
@@ -64,6 +56,7 @@ export async function PUT(request: NextRequest) {
     if (phone !== undefined) updateData.phone = phone;
     if (city !== undefined) updateData.city = city;
     if (state !== undefined) updateData.state = state;
+    if (timezone !== undefined) updateData.timezone = timezone;
 
     const { data: updatedProfile, error } = await supabaseAdmin
       .from("users")
@@ -88,5 +81,5 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
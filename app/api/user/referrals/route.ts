@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/error-handling";
+import { getOrCreateReferralCode, listReferrals, REFERRAL_REWARD_AMOUNT } from "@/lib/payments/referrals";
+import { getClientAccountId, getWallet } from "@/lib/payments/wallet";
+import { withSession } from "@/lib/auth/permissions";
+
+/**
+ * GET: The signed-in client's referral link, the people they've referred and their wallet
+ */
+export const GET = withSession(async (request: NextRequest, { authUser }) => {
+  try {
+    const clientAccountId = await getClientAccountId(authUser.id);
+    if (!clientAccountId) {
+      return NextResponse.json({ error: "Client account not found" }, { status: 404 });
+    }
+
+    const [code, referrals, wallet] = await Promise.all([
+      getOrCreateReferralCode(clientAccountId),
+      listReferrals(clientAccountId),
+      getWallet(clientAccountId),
+    ]);
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin;
+
+    return NextResponse.json({
+      code,
+      link: `${siteUrl}/ref/${code}`,
+      rewardAmount: REFERRAL_REWARD_AMOUNT,
+      referrals,
+      wallet,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Referrals] Failed to load referrals:", error);
+    return NextResponse.json({ error: "Failed to load referrals" }, { status: 500 });
+  }
+});
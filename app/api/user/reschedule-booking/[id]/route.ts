@@ -1,59 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireAuthFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
+import { rescheduleBookingFromRequest } from "@/lib/bookings/reschedule";
+import { AppError } from "@/lib/error-handling";
 
 // POST: User accepts reschedule request and selects new date/time
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const POST = withPermission<{ id: string }>("book:reschedule:own", async (request: NextRequest, { params, user }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
 
-    const user = await requireAuthFromRequest(request);
-    const userId = user.id;
-
     const body = await request.json();
-    const { newDate, newTime } = body;
+    const { startTime } = body;
 
-    if (!newDate || !newTime) {
+    if (!startTime || typeof startTime !== "string") {
       return NextResponse.json(
-        { error: "New date and time are required" },
+        { error: "New start time is required" },
         { status: 400 }
       );
     }
 
-    const supabaseAdmin = createAdminClientServer();
-
-    // Combine date and time
-    const startTime = new Date(`${newDate}T${newTime}`);
-    // Assume 45 minute duration for now
-    const endTime = new Date(startTime.getTime() + 45 * 60 * 1000);
-
-    // TODO: In production, find the booking associated with this reschedule request
-    // and update it with new date/time
-    // For now, return success (mock)
-    console.log(`User ${userId} accepted reschedule request ${id}`, {
-      newStartTime: startTime.toISOString(),
-      newEndTime: endTime.toISOString(),
+    const result = await rescheduleBookingFromRequest({
+      sessionRequestId: id,
+      user,
+      startTime,
     });
 
     return NextResponse.json({
       success: true,
-      message: "Reschedule confirmed successfully (mock - database table not yet created)",
+      message: "Reschedule confirmed successfully",
       booking: {
-        id: `booking-${Date.now()}`,
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
+        id: result.booking.id,
+        startTime: result.booking.start_time,
+        endTime: result.booking.end_time,
+        duration: result.durationMinutes,
+        meetingLink: result.booking.meeting_link,
+        previousStartTime: result.previousStartTime,
       },
     });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    if (error?.status === 401) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
     console.error("Error confirming reschedule:", error);
     return NextResponse.json(
       { error: "Failed to confirm reschedule", details: error.message },
       { status: 500 }
     );
   }
-}
+});
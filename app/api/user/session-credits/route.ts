@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/permissions";
+import { AppError } from "@/lib/error-handling";
+import { listSessionCredits } from "@/lib/payments/session-bundles";
+
+// GET: The client's prepaid sessions that are still usable, soonest to expire first
+export const GET = withPermission("book:view:own", async (request: NextRequest, { user }) => {
+  try {
+    const credits = await listSessionCredits(user.id, {
+      dietitianId: request.nextUrl.searchParams.get("dietitianId"),
+    });
+
+    return NextResponse.json({ credits });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Session Credits] Failed to load credits:", error);
+    return NextResponse.json({ error: "Failed to load session credits" }, { status: 500 });
+  }
+});
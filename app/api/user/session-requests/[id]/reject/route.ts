@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireAuthFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: User rejects a session request
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+export const POST = withPermission<{ id: string }>("request:respond:own", async (request: NextRequest, { params, user }) => {
   try {
     // Handle both Promise and direct params (for Next.js 15+ compatibility)
     const resolvedParams = params instanceof Promise ? await params : params;
     const { id } = resolvedParams;
-
-    const user = await requireAuthFromRequest(request);
     const userEmail = user.email;
 
     const supabaseAdmin = createAdminClientServer();
@@ -63,4 +58,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireAuthFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
 import type { SessionRequestCreate, SessionRequest } from "@/lib/types/session-requests";
 import { ValidationError, NotFoundError, logError, logInfo } from "@/lib/error-handling";
+import { getMealPlanPackage, listMealPlanPackages } from "@/lib/payments/meal-plan-packages";
 
 // GET: Fetch pending session requests for the authenticated user
-export async function GET(request: NextRequest) {
+export const GET = withPermission("request:view:own", async (request: NextRequest, { user }) => {
   try {
-    const user = await requireAuthFromRequest(request);
     const userEmail = user.email;
 
     const normalizedEmail = userEmail.toLowerCase().trim();
@@ -205,12 +205,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Create a session request for the authenticated user (e.g., after meal plan purchase)
-export async function POST(request: NextRequest) {
+export const POST = withPermission("book:create", async (request: NextRequest, { user }) => {
   try {
-    const user = await requireAuthFromRequest(request);
     const userEmail = user.email;
     const userName = user.name || userEmail.split("@")[0];
 
@@ -224,6 +223,7 @@ export async function POST(request: NextRequest) {
       price,
       currency,
       packageName,
+      packageId,
     } = body;
 
     logInfo("Creating session request", {
@@ -243,8 +243,8 @@ export async function POST(request: NextRequest) {
       throw new ValidationError("Only MEAL_PLAN requests are supported for user-initiated requests");
     }
 
-    const finalMealPlanType = mealPlanType || packageName;
-    if (!finalMealPlanType) {
+    let finalMealPlanType = mealPlanType || packageName;
+    if (!finalMealPlanType && !packageId) {
       throw new ValidationError("Meal plan type is required");
     }
 
@@ -266,24 +266,31 @@ export async function POST(request: NextRequest) {
       throw new NotFoundError("Dietitian not found or invalid");
     }
 
-    // Get price from meal plan constants if not provided
+    // Name and price come from the package, at this practitioner's price, and are copied onto the
+    // request so later changes to the package don't alter it. Older clients only send the
+    // package name; a package removed since checkout falls back to what the client sent.
     let finalPrice = price;
     let finalCurrency = currency || "NGN";
-    
-    if (!finalPrice) {
-      try {
-        const { MEAL_PLAN_PACKAGES } = await import("@/lib/constants/meal-plans");
-        // Try to find by name first (since frontend sends packageName), then by id
-        const mealPlanPackage = MEAL_PLAN_PACKAGES.find(
-          pkg => pkg.name === finalMealPlanType || pkg.id === finalMealPlanType
-        );
-        if (mealPlanPackage) {
-          finalPrice = mealPlanPackage.price;
-          finalCurrency = mealPlanPackage.currency;
-        }
-      } catch (e) {
-        console.warn("Could not load meal plan package for pricing:", e);
+    let mealPlanPackageId: string | null = null;
+
+    try {
+      const mealPlanPackage = packageId
+        ? await getMealPlanPackage(packageId, { dietitianId })
+        : (await listMealPlanPackages({ dietitianId })).find(
+            pkg => pkg.name === finalMealPlanType || pkg.id === finalMealPlanType
+          );
+      if (mealPlanPackage) {
+        finalMealPlanType = mealPlanPackage.name;
+        finalPrice = mealPlanPackage.price;
+        finalCurrency = mealPlanPackage.currency;
+        mealPlanPackageId = mealPlanPackage.id;
       }
+    } catch (e) {
+      console.warn("Could not load meal plan package for pricing:", e);
+    }
+
+    if (!finalMealPlanType) {
+      throw new NotFoundError("Meal plan package not found");
     }
 
     // Create session request - normalize email to lowercase for consistency
@@ -293,6 +300,7 @@ export async function POST(request: NextRequest) {
       client_email: userEmail.toLowerCase().trim(),
       dietitian_id: dietitianId,
       meal_plan_type: finalMealPlanType,
+      meal_plan_package_id: mealPlanPackageId,
       status: "PENDING",
       message: notes || `Meal Plan Purchase: ${finalMealPlanType}`,
       price: finalPrice || 0,
@@ -356,4 +364,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,18 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getCurrentUserFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: Upload profile image
-export async function POST(request: NextRequest) {
+export const POST = withPermission("profile:edit:own", async (request: NextRequest, { user }) => {
   try {
-    const user = await getCurrentUserFromRequest(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
     const formData = await request.formData();
     const file = formData.get("file") as File;
 
@@ -96,5 +88,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AppError } from "@/lib/error-handling";
+import { getClientAccountId, getWalletBalance, MINIMUM_CARD_CHARGE } from "@/lib/payments/wallet";
+import { withSession } from "@/lib/auth/permissions";
+
+/**
+ * GET: The signed-in client's wallet balance, for checkout
+ */
+export const GET = withSession(async (_request: NextRequest, { authUser }) => {
+  try {
+    const clientAccountId = await getClientAccountId(authUser.id);
+    const balance = clientAccountId ? await getWalletBalance(clientAccountId) : 0;
+
+    return NextResponse.json({ balance, minimumCardCharge: MINIMUM_CARD_CHARGE });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("[Wallet] Failed to load wallet:", error);
+    return NextResponse.json({ error: "Failed to load wallet" }, { status: 500 });
+  }
+});
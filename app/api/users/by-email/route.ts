@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { requireDietitianFromRequest } from "@/lib/auth-helpers";
+import { withPermission } from "@/lib/auth/permissions";
 
 // POST: Get user IDs by email addresses
-export async function POST(request: NextRequest) {
+export const POST = withPermission("client:view:own", async (request: NextRequest) => {
   try {
-    const dietitian = await requireDietitianFromRequest(request);
-
     const body = await request.json();
     const { emails } = body;
 
@@ -37,17 +35,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ users: users || [] });
   } catch (error: any) {
-    if (error.message === "Unauthorized" || error.message.includes("Forbidden")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message === "Unauthorized" ? 401 : 403 }
-      );
-    }
     console.error("Error fetching users by email:", error);
     return NextResponse.json(
       { error: "Failed to fetch users", details: error.message },
       { status: 500 }
     );
   }
-}
+});
 
@@ -6,6 +6,7 @@ import { determineUserRedirect } from "@/lib/utils/determine-user-redirect";
 import { getUserRoleWithRetry, normalizeRole } from "@/lib/utils/auth-utils";
 import { ADMIN_EMAIL } from "@/lib/auth/config";
 import { randomUUID } from "crypto";
+import { attributeReferral, REFERRAL_COOKIE } from "@/lib/payments/referrals";
 
 export const dynamic = "force-dynamic";
 
@@ -392,6 +393,23 @@ export async function GET(request: NextRequest) {
           source: cameFromDietitianEnrollment ? "dietitian-enrollment" : cameFromTherapistEnrollment ? "therapist-enrollment" : "regular",
           timestamp: new Date().toISOString(),
         });
+
+        // Credit the referral link this client signed up through, if any
+        const referralCode = request.cookies.get(REFERRAL_COOKIE)?.value;
+        if (referralCode && newUser.role === "USER") {
+          try {
+            const attributed = await attributeReferral(newUser, referralCode);
+            console.info("AuthCallbackReferral", {
+              dbUserId: newUser.id,
+              referralCode,
+              attributed,
+              timestamp: new Date().toISOString(),
+            });
+          } catch (referralError) {
+            // Don't block signup if the referral can't be recorded
+            console.warn("AuthCallbackReferralError", referralError);
+          }
+        }
       }
     }
 
@@ -45,6 +45,12 @@ function AuthErrorContent() {
           message: "Required authentication data was not found. Please try signing in again.",
           suggestion: "Try signing in again.",
         };
+      case "admin_access":
+        return {
+          title: "Admin Access Only",
+          message: "This account can't use the admin dashboard.",
+          suggestion: "Sign in with the admin account instead.",
+        };
       case "handler_error":
         return {
           title: "Authentication Handler Error",
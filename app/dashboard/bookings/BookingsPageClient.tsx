@@ -25,6 +25,12 @@ export interface Booking {
   participants: string[];
   meetingLink?: string;
   eventTypeSlug?: string | null;
+  series?: {
+    id: string;
+    description: string;
+    remaining: number;
+    total: number;
+  } | null;
 }
 
 interface BookingsPageClientProps {
@@ -36,7 +42,8 @@ export default function BookingsPageClient({
   bookings: initialBookings,
   type,
 }: BookingsPageClientProps) {
-  const [bookings] = useState(initialBookings);
+  // Read straight from props so router.refresh() shows changes made from a card
+  const bookings = initialBookings;
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
 
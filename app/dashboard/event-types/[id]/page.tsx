@@ -8,6 +8,10 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { ArrowLeft, ExternalLink, Link as LinkIcon, Code, Trash2, ChevronRight, ChevronDown, Check } from "lucide-react";
 import { useAuth } from "@/components/providers/AuthProvider";
+import { SLOT_INTERVAL_OPTIONS } from "@/lib/availability/calculate-timeslots";
+import { SessionBundlesEditor } from "@/components/event-types/SessionBundlesEditor";
+import { CurrencyPricesEditor } from "@/components/event-types/CurrencyPricesEditor";
+import type { CurrencyPrices } from "@/lib/utils/money";
 
 interface EventType {
   id: string;
@@ -17,10 +21,45 @@ interface EventType {
   length: number;
   price: number;
   currency: string;
+  prices?: CurrencyPrices;
   active: boolean;
   user_id: string;
+  before_event_buffer?: number;
+  after_event_buffer?: number;
+  minimum_booking_notice?: number;
+  booking_horizon_days?: number | null;
+  max_bookings_per_day?: number | null;
+  slot_interval?: number | null;
+  seats_per_slot?: number;
+  cancellation_window_hours?: number;
+  late_cancellation_refund_percent?: number;
 }
 
+interface BookingLimitsForm {
+  beforeEventBuffer: string;
+  afterEventBuffer: string;
+  minimumBookingNotice: string;
+  bookingHorizonDays: string;
+  maxBookingsPerDay: string;
+  slotInterval: string;
+  seatsPerSlot: string;
+  cancellationWindowHours: string;
+  lateCancellationRefundPercent: string;
+}
+
+const toLimitsForm = (eventType: EventType): BookingLimitsForm => ({
+  beforeEventBuffer: String(eventType.before_event_buffer ?? 0),
+  afterEventBuffer: String(eventType.after_event_buffer ?? 0),
+  // Notice is stored in minutes but edited in hours
+  minimumBookingNotice: String((eventType.minimum_booking_notice ?? 0) / 60),
+  bookingHorizonDays: eventType.booking_horizon_days ? String(eventType.booking_horizon_days) : "",
+  maxBookingsPerDay: eventType.max_bookings_per_day ? String(eventType.max_bookings_per_day) : "",
+  slotInterval: eventType.slot_interval ? String(eventType.slot_interval) : "",
+  seatsPerSlot: String(eventType.seats_per_slot ?? 1),
+  cancellationWindowHours: String(eventType.cancellation_window_hours ?? 24),
+  lateCancellationRefundPercent: String(eventType.late_cancellation_refund_percent ?? 0),
+});
+
 // Default event type slugs that should have disabled Basics fields
 const DEFAULT_EVENT_TYPE_SLUGS = [
   "1-on-1-nutritional-counselling-and-assessment",
@@ -37,7 +76,7 @@ export default function EventTypeDetailPage() {
   const [eventType, setEventType] = useState<EventType | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeSection, setActiveSection] = useState<"basics" | "availability">("basics");
+  const [activeSection, setActiveSection] = useState<"basics" | "availability" | "limits" | "pricing" | "bundles">("basics");
   const [isActive, setIsActive] = useState(false);
   const [selectedAvailabilityId, setSelectedAvailabilityId] = useState<string>("inherit");
   const [availabilitySchedules, setAvailabilitySchedules] = useState<Array<{ id: string; name: string; isDefault: boolean }>>([]);
@@ -47,6 +86,17 @@ export default function EventTypeDetailPage() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const [limits, setLimits] = useState<BookingLimitsForm>({
+    beforeEventBuffer: "0",
+    afterEventBuffer: "0",
+    minimumBookingNotice: "0",
+    bookingHorizonDays: "",
+    maxBookingsPerDay: "",
+    slotInterval: "",
+    seatsPerSlot: "1",
+    cancellationWindowHours: "24",
+    lateCancellationRefundPercent: "0",
+  });
 
   const isDefaultEventType = eventType && DEFAULT_EVENT_TYPE_SLUGS.includes(eventType.slug);
 
@@ -100,6 +150,7 @@ export default function EventTypeDetailPage() {
         
         setEventType(data.eventType);
         setIsActive(data.eventType.active);
+        setLimits(toLimitsForm(data.eventType));
         
         // Set availability schedule selection
         if (data.eventType.availabilitySchedule) {
@@ -175,6 +226,15 @@ export default function EventTypeDetailPage() {
         body: JSON.stringify({
           active: isActive,
           availabilityScheduleId: selectedAvailabilityId,
+          beforeEventBuffer: parseInt(limits.beforeEventBuffer || "0", 10),
+          afterEventBuffer: parseInt(limits.afterEventBuffer || "0", 10),
+          minimumBookingNotice: Math.round(parseFloat(limits.minimumBookingNotice || "0") * 60),
+          bookingHorizonDays: limits.bookingHorizonDays ? parseInt(limits.bookingHorizonDays, 10) : null,
+          maxBookingsPerDay: limits.maxBookingsPerDay ? parseInt(limits.maxBookingsPerDay, 10) : null,
+          slotInterval: limits.slotInterval ? parseInt(limits.slotInterval, 10) : null,
+          seatsPerSlot: Math.max(1, parseInt(limits.seatsPerSlot || "1", 10)),
+          cancellationWindowHours: parseInt(limits.cancellationWindowHours || "0", 10),
+          lateCancellationRefundPercent: parseInt(limits.lateCancellationRefundPercent || "0", 10),
         }),
       });
 
@@ -185,6 +245,7 @@ export default function EventTypeDetailPage() {
 
       const data = await response.json();
       setEventType(data.eventType);
+      setLimits(toLimitsForm(data.eventType));
       
       // Update availability schedule selection
       if (data.eventType.availabilitySchedule) {
@@ -330,6 +391,20 @@ export default function EventTypeDetailPage() {
   const sections = [
     { id: "basics" as const, label: "Basics", subtitle: `${eventType.length} mins` },
     { id: "availability" as const, label: "Availability", subtitle: getAvailabilitySubtitle() },
+    { id: "limits" as const, label: "Limits", subtitle: "Buffers, notice and caps" },
+    { id: "pricing" as const, label: "Pricing", subtitle: "Prices in other currencies" },
+    { id: "bundles" as const, label: "Bundles", subtitle: "Prepaid session packages" },
+  ];
+
+  const limitFields: Array<{ key: Exclude<keyof BookingLimitsForm, "slotInterval">; label: string; unit: string; help: string; placeholder?: string }> = [
+    { key: "beforeEventBuffer", label: "Before event", unit: "Minutes", help: "Time kept free before each session." },
+    { key: "afterEventBuffer", label: "After event", unit: "Minutes", help: "Time kept free after each session." },
+    { key: "minimumBookingNotice", label: "Minimum notice", unit: "Hours", help: "Clients cannot book a slot starting sooner than this." },
+    { key: "bookingHorizonDays", label: "Booking horizon", unit: "Days", help: "How far into the future clients can book. Leave empty for no limit.", placeholder: "No limit" },
+    { key: "maxBookingsPerDay", label: "Max bookings per day", unit: "Bookings", help: "Leave empty for no daily cap.", placeholder: "No limit" },
+    { key: "seatsPerSlot", label: "Seats per slot", unit: "Clients", help: "More than 1 makes this a group session: clients share the slot and one Meet link until it is full." },
+    { key: "cancellationWindowHours", label: "Free cancellation window", unit: "Hours", help: "Clients cancelling at least this long before the session get a full refund." },
+    { key: "lateCancellationRefundPercent", label: "Late cancellation refund", unit: "%", help: "Share of the price refunded when a client cancels inside the window." },
   ];
 
   return (
@@ -577,6 +652,82 @@ export default function EventTypeDetailPage() {
                 </div>
               )}
 
+              {activeSection === "limits" && (
+                <div className="space-y-6">
+                  <h2 className="text-lg font-semibold text-[#f9fafb] mb-6">Limits</h2>
+
+                  <div>
+                    <label className="block text-sm font-medium text-[#D4D4D4] mb-2">
+                      Start time interval
+                    </label>
+                    <div className="relative w-64">
+                      <select
+                        value={limits.slotInterval}
+                        onChange={(e) => setLimits((prev) => ({ ...prev, slotInterval: e.target.value }))}
+                        className="w-full bg-[#0a0a0a] border border-[#262626] rounded-lg px-4 py-2.5 pr-10 text-[#f9fafb] focus:outline-none focus:ring-2 focus:ring-[#404040] focus:border-[#404040] appearance-none cursor-pointer"
+                      >
+                        <option value="" className="bg-[#0a0a0a] text-[#f9fafb]">
+                          Use event length ({eventType.length} mins)
+                        </option>
+                        {SLOT_INTERVAL_OPTIONS.map((interval) => (
+                          <option key={interval} value={String(interval)} className="bg-[#0a0a0a] text-[#f9fafb]">
+                            Every {interval} mins
+                          </option>
+                        ))}
+                      </select>
+                      <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-[#9ca3af] pointer-events-none" />
+                    </div>
+                    <p className="mt-2 text-xs text-[#9ca3af]">
+                      How often start times are offered. Sessions still last the full {eventType.length} minutes.
+                    </p>
+                  </div>
+
+                  {limitFields.map((field) => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-[#D4D4D4] mb-2">
+                        {field.label}
+                      </label>
+                      <div className="flex items-center gap-4">
+                        <Input
+                          type="number"
+                          min={0}
+                          value={limits[field.key]}
+                          placeholder={field.placeholder}
+                          onChange={(e) => setLimits((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                          className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] w-32"
+                        />
+                        <span className="text-sm text-[#9ca3af]">{field.unit}</span>
+                      </div>
+                      <p className="mt-2 text-xs text-[#9ca3af]">{field.help}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {activeSection === "pricing" && (
+                <div className="space-y-6">
+                  <h2 className="text-lg font-semibold text-[#f9fafb] mb-6">Pricing</h2>
+                  <CurrencyPricesEditor
+                    eventTypeId={eventType.id}
+                    price={Number(eventType.price || 0)}
+                    currency={eventType.currency || "NGN"}
+                    prices={eventType.prices}
+                    onSaved={(updated) => setEventType((prev) => (prev ? { ...prev, prices: updated.prices } : prev))}
+                  />
+                </div>
+              )}
+
+              {activeSection === "bundles" && (
+                <div className="space-y-6">
+                  <h2 className="text-lg font-semibold text-[#f9fafb] mb-6">Bundles</h2>
+                  <SessionBundlesEditor
+                    eventTypeId={eventType.id}
+                    sessionPrice={Number(eventType.price || 0)}
+                    currency={eventType.currency || "NGN"}
+                  />
+                </div>
+              )}
+
             </div>
           </div>
         </div>
@@ -1,6 +1,7 @@
-import { redirect } from "next/navigation";
+import { redirect, unstable_rethrow } from "next/navigation";
 import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { getNgnConverter } from "@/lib/payments/exchange-rates";
 import DashboardClient, {
   type DashboardStats,
   type Booking,
@@ -134,7 +135,7 @@ export default async function DashboardPage() {
     
     const { count: upcomingSessions } = await upcomingSessionsQuery;
 
-    // Get total revenue (sum of successful payments)
+    // Get total revenue (sum of successful payments, in NGN)
     // Use dietitian_id filter if we found the user
     let paymentsQuery;
     if (dietitianId) {
@@ -144,6 +145,9 @@ export default async function DashboardPage() {
         .select(
           `
           amount,
+          currency,
+          paid_at,
+          created_at,
           bookings!inner(dietitian_id)
         `
         )
@@ -153,7 +157,7 @@ export default async function DashboardPage() {
       // No dietitian ID, get all payments
       paymentsQuery = supabaseAdmin
         .from("payments")
-        .select("amount")
+        .select("amount, currency, paid_at, created_at")
         .eq("status", "SUCCESS");
     }
     
@@ -161,8 +165,9 @@ export default async function DashboardPage() {
 
     let totalRevenue = 0;
     if (!paymentsError && payments) {
+      const toNgn = await getNgnConverter();
       totalRevenue = payments.reduce((sum, payment) => {
-        return sum + Number(payment.amount || 0);
+        return sum + (toNgn(Number(payment.amount || 0), payment.currency, payment.paid_at || payment.created_at) ?? 0);
       }, 0);
     }
 
@@ -238,16 +243,9 @@ export default async function DashboardPage() {
       />
     );
   } catch (error) {
+    // redirect() throws; let the redirects above through
+    unstable_rethrow(error);
     console.error("Dashboard: Server error", error);
-    // TEMP: Don't redirect on error when auth is disabled
-    // redirect("/dietitian-login?redirect=/dashboard");
-    
-    // Return empty dashboard on error
-    return (
-      <DashboardClient 
-        stats={{ totalSessions: 0, upcomingSessions: 0, totalRevenue: 0 }} 
-        upcomingBookings={[]} 
-      />
-    );
+    redirect("/dietitian-login?redirect=/dashboard");
   }
 }
\ No newline at end of file
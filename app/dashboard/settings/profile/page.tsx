@@ -11,10 +11,6 @@ import { dietitianService } from "@/lib/dietitian-service";
 import { DietitianProfile } from "@/types";
 import { setupRealtimeUpdates } from "@/lib/realtime-updates";
 
-// DEV MODE: Hardcoded dietitian user ID for localhost testing
-const DEV_DIETITIAN_ID = 'b900e502-71a6-45da-bde6-7b596cc14d88';
-const isDev = process.env.NODE_ENV === 'development';
-
 export default function ProfilePage() {
   const { user, setProfileDirect } = useAuth();
   const [profile, setProfile] = useState<DietitianProfile | null>(null);
@@ -23,13 +19,12 @@ export default function ProfilePage() {
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
-  // Get effective user ID (real user or dev mode fallback)
-  const effectiveUserId = user?.id || (isDev ? DEV_DIETITIAN_ID : null);
+  const userId = user?.id || null;
 
   // Fetch profile on mount
   useEffect(() => {
     const loadProfile = async () => {
-      if (!effectiveUserId) return;
+      if (!userId) return;
       
       setLoading(true);
       try {
@@ -39,7 +34,7 @@ export default function ProfilePage() {
           setTimeout(() => reject(new Error("Profile fetch timed out")), 10000)
         );
         const data = await Promise.race([
-          dietitianService.getDietitianProfile(effectiveUserId),
+          dietitianService.getDietitianProfile(userId),
           timeoutPromise,
         ]) as DietitianProfile;
         
@@ -83,19 +78,19 @@ export default function ProfilePage() {
     };
     
     loadProfile();
-  }, [effectiveUserId]);
+  }, [userId]);
 
   // Setup real-time updates
   useEffect(() => {
-    if (!effectiveUserId) return;
+    if (!userId) return;
     
-    const unsubscribe = setupRealtimeUpdates(effectiveUserId, () => {
+    const unsubscribe = setupRealtimeUpdates(userId, () => {
       // Refresh profile when real-time update is received
-      dietitianService.getDietitianProfile(effectiveUserId, true).then(setProfile).catch(console.error);
+      dietitianService.getDietitianProfile(userId, true).then(setProfile).catch(console.error);
     });
     
     return unsubscribe;
-  }, [effectiveUserId]);
+  }, [userId]);
 
   // Convert name to URL-friendly slug
   const nameToSlug = (name: string): string => {
@@ -120,8 +115,8 @@ export default function ProfilePage() {
 
   // Handle name update
   const handleSaveName = async () => {
-    if (!effectiveUserId || !profile) {
-      console.error('Cannot save: missing user or profile', { hasUserId: !!effectiveUserId, hasProfile: !!profile });
+    if (!userId || !profile) {
+      console.error('Cannot save: missing user or profile', { hasUserId: !!userId, hasProfile: !!profile });
       return;
     }
 
@@ -136,9 +131,9 @@ export default function ProfilePage() {
 
     try {
       const newName = profile.name.trim();
-      console.log('Saving name:', { userId: effectiveUserId, name: newName });
+      console.log('Saving name:', { userId, name: newName });
 
-      const result = await dietitianService.updateProfile(effectiveUserId, { name: newName });
+      const result = await dietitianService.updateProfile(userId, { name: newName });
       
       // Update local state
       if (result.data) {
@@ -170,8 +165,8 @@ export default function ProfilePage() {
 
   // Handle bio update
   const handleSaveBio = async () => {
-    if (!effectiveUserId || !profile) {
-      console.error('Cannot save: missing user or profile', { hasUserId: !!effectiveUserId, hasProfile: !!profile });
+    if (!userId || !profile) {
+      console.error('Cannot save: missing user or profile', { hasUserId: !!userId, hasProfile: !!profile });
       return;
     }
 
@@ -180,9 +175,9 @@ export default function ProfilePage() {
     setSaveSuccess(false);
 
     try {
-      console.log('Saving bio:', { userId: effectiveUserId, bioLength: profile.bio?.length || 0 });
+      console.log('Saving bio:', { userId, bioLength: profile.bio?.length || 0 });
 
-      const result = await dietitianService.updateProfile(effectiveUserId, { bio: profile.bio ?? undefined });
+      const result = await dietitianService.updateProfile(userId, { bio: profile.bio ?? undefined });
       
       // Update local state with the saved bio (optimistic update)
       if (result.data) {
@@ -4,10 +4,12 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import { CheckCircle2, X } from "lucide-react";
 import { createBrowserClient } from "@/lib/supabase/client";
+import { uploadCredentialDocuments } from "@/lib/practitioners/credential-uploads";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { PayoutAccountFields, type PayoutAccountValue } from "@/components/earnings/PayoutAccountFields";
 
 type Step = 1 | 2 | 3;
 
@@ -48,9 +50,15 @@ export default function DietitianEnrollmentPage() {
   const [location, setLocation] = useState("");
 
   const [licenseNumber, setLicenseNumber] = useState("");
+  const [credentialDocuments, setCredentialDocuments] = useState<File[]>([]);
   const [experience, setExperience] = useState("");
   const [specialization, setSpecialization] = useState("");
   const [bio, setBio] = useState("");
+  const [payoutAccount, setPayoutAccount] = useState<PayoutAccountValue>({
+    bankCode: "",
+    accountNumber: "",
+    accountName: "",
+  });
 
   const [termsRead, setTermsRead] = useState(false);
   const [privacyRead, setPrivacyRead] = useState(false);
@@ -348,10 +356,12 @@ export default function DietitianEnrollmentPage() {
 
   const stepTwoValid =
     licenseNumber.trim() &&
+    credentialDocuments.length > 0 &&
     experience &&
     specialization.trim() &&
     bio.trim() &&
-    bioWordCount <= 100;
+    bioWordCount <= 100 &&
+    payoutAccount.accountName;
 
   const stepThreeValid =
     googleConnected && stepOneValid && stepTwoValid && termsRead && privacyRead && confirmChecked;
@@ -401,6 +411,19 @@ export default function DietitianEnrollmentPage() {
         });
       }
 
+      // Credential documents are reviewed by our team before the account is activated. They go
+      // straight to storage, as they can be larger than the enrollment request may be.
+      let uploadedCredentialDocuments;
+      try {
+        uploadedCredentialDocuments = await uploadCredentialDocuments(credentialDocuments, {
+          accessToken: session.access_token,
+        });
+      } catch (uploadError) {
+        setError(uploadError instanceof Error ? uploadError.message : "Failed to upload your documents");
+        setSubmitting(false);
+        return;
+      }
+
       // Submit enrollment data
       const response = await fetch("/api/dietitians/enroll", {
         method: "POST",
@@ -416,9 +439,12 @@ export default function DietitianEnrollmentPage() {
           location,
           profilePicture: profilePictureBase64,
           licenseNumber,
+          credentialDocuments: uploadedCredentialDocuments,
           experience,
           specialization,
           bio,
+          bankCode: payoutAccount.bankCode,
+          accountNumber: payoutAccount.accountNumber,
         }),
       });
 
@@ -452,9 +478,9 @@ export default function DietitianEnrollmentPage() {
     setSubmitting(false);
     setSubmitted(true);
     
-    // Redirect to dashboard after successful enrollment (user is already authenticated)
+    // The dashboard opens once our team has approved the credentials
     setTimeout(() => {
-      window.location.href = "/dashboard";
+      window.location.href = "/verification-pending";
     }, 2000);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to submit enrollment");
@@ -573,9 +599,9 @@ export default function DietitianEnrollmentPage() {
           ) : submitted ? (
             <div className="flex flex-col items-center text-center space-y-4 py-10 md:py-12">
               <CheckCircle2 className="h-12 w-12 text-emerald-300" />
-              <h2 className="text-2xl font-semibold">Enrollment successful!</h2>
+              <h2 className="text-2xl font-semibold">Enrollment received!</h2>
               <p className="text-white/70 max-w-xl text-sm md:text-base">
-                You'll be redirected to your dashboard shortly.
+                We're reviewing your credentials and will email you once your account is approved.
               </p>
               <p className="text-white/50 max-w-xl text-xs md:text-sm">
                 If you don't see the email, please check your spam folder.
@@ -709,7 +735,7 @@ export default function DietitianEnrollmentPage() {
                     <div>
                       <h2 className="text-xl md:text-2xl font-semibold">Step 2: Professional details</h2>
                       <p className="text-white/60 text-sm">
-                        Four quick questions to validate your credentials.
+                        A few quick questions to validate your credentials, plus the bank account your earnings are paid into.
                       </p>
                     </div>
                     <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
@@ -740,6 +766,21 @@ export default function DietitianEnrollmentPage() {
                         placeholder="State-issued license"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label className="text-white/80 text-sm">Credential documents</Label>
+                      <Input
+                        type="file"
+                        multiple
+                        accept="application/pdf,image/jpeg,image/png"
+                        onChange={(e) => setCredentialDocuments(Array.from(e.target.files || []).slice(0, 5))}
+                        className="bg-[#0b0b0b] border-[#1f1f1f] text-white min-h-[52px]"
+                      />
+                      <div className="text-xs text-white/60 truncate">
+                        {credentialDocuments.length > 0
+                          ? credentialDocuments.map((file) => file.name).join(", ")
+                          : "License or certificates: PDF, JPEG or PNG, up to 5 files of 5MB each."}
+                      </div>
+                    </div>
                     <div className="space-y-2">
                       <Label className="text-white/80 text-sm">Years of experience</Label>
                       <select
@@ -770,6 +811,7 @@ export default function DietitianEnrollmentPage() {
                         ))}
                       </select>
                     </div>
+                    <PayoutAccountFields value={payoutAccount} onChange={setPayoutAccount} />
                     <div className="space-y-2 md:col-span-2">
                       <Label className="text-white/80 text-sm">Professional bio (100 words max)</Label>
                       <Textarea
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/components/providers/AuthProvider";
+import { ImpersonationSwitcher } from "@/components/dev/ImpersonationSwitcher";
+import { FIXTURE_USERS, isImpersonationEnabled } from "@/lib/auth/impersonation";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -28,6 +30,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${inter.variable} font-sans antialiased`}>
         <AuthProvider>{children}</AuthProvider>
+        {isImpersonationEnabled() && <ImpersonationSwitcher users={Object.values(FIXTURE_USERS)} />}
       </body>
     </html>
   );
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findReferrerByCode,
+  normalizeReferralCode,
+  REFERRAL_COOKIE,
+  REFERRAL_COOKIE_MAX_AGE,
+} from "@/lib/payments/referrals";
+
+/**
+ * Referral link landing: remember the code for the signup it leads to, then go to the home page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> | { code: string } }
+) {
+  const { code } = await Promise.resolve(params);
+  const response = NextResponse.redirect(new URL("/", request.url));
+
+  try {
+    const referrer = await findReferrerByCode(code);
+    if (referrer) {
+      response.cookies.set(REFERRAL_COOKIE, normalizeReferralCode(code), {
+        maxAge: REFERRAL_COOKIE_MAX_AGE,
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+      });
+    }
+  } catch (error) {
+    // A broken referral link shouldn't stop anyone reaching the site
+    console.error("[Referrals] Failed to look up referral code:", error);
+  }
+
+  return response;
+}
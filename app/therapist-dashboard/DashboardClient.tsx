@@ -11,6 +11,7 @@ import { Mail, Upload } from "lucide-react";
 import Link from "next/link";
 import { useSessionRequestsStream } from "@/hooks/useSessionRequestsStream";
 import { UploadProgress } from "@/components/ui/upload-progress";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
 export interface DashboardStats {
   totalSessions: number;
@@ -256,7 +257,7 @@ export default function DashboardClient({
             <div className="border border-[#262626] rounded-lg px-6 py-4 bg-transparent">
               <div className="text-sm text-[#9ca3af] mb-2">Total Revenue</div>
               <div className="text-2xl font-semibold text-[#f9fafb]">
-                ₦{stats.totalRevenue.toLocaleString()}
+                {formatMoney(stats.totalRevenue, BASE_CURRENCY)}
               </div>
             </div>
           </div>
@@ -27,6 +27,12 @@ export interface Booking {
   participants: string[];
   meetingLink?: string;
   eventTypeSlug?: string | null;
+  series?: {
+    id: string;
+    description: string;
+    remaining: number;
+    total: number;
+  } | null;
   sessionNote?: {
     id: string;
     status: "PENDING" | "COMPLETED";
@@ -43,7 +49,8 @@ export default function BookingsPageClient({
   type,
 }: BookingsPageClientProps) {
   const router = useRouter();
-  const [bookings] = useState(initialBookings);
+  // Read straight from props so router.refresh() shows changes made from a card
+  const bookings = initialBookings;
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
@@ -1,85 +1,103 @@
 import { redirect } from "next/navigation";
-import { createServerComponentClient } from "@/lib/supabase/server";
+import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { listBookingSeries } from "@/lib/bookings/series";
 import BookingsPageClient, {
   type Booking,
 } from "../BookingsPageClient";
 
 export default async function RecurringBookingsPage() {
   try {
-    // TEMPORARY: Auth disabled for development - uncomment below to re-enable
-    /*
     // 1. Check authentication (server-side)
-    const supabase = await createServerComponentClient();
+    const supabase = await createClient();
     const {
-      data: { session },
+      data: { user },
       error: authError,
-    } = await supabase.auth.getSession();
+    } = await supabase.auth.getUser();
 
-    if (authError || !session) {
-      console.error("Recurring Bookings: No session found", authError);
+    if (authError || !user) {
+      console.error("Recurring Bookings: No user found", {
+        error: authError?.message,
+        hasUser: !!user,
+        timestamp: new Date().toISOString(),
+      });
       redirect("/therapist-login?redirect=/therapist-dashboard/bookings/recurring");
     }
 
     // 2. Check user role and account status
     const supabaseAdmin = createAdminClientServer();
-    const { data: user, error: userError } = await supabaseAdmin
+    const { data: dbUser, error: userError } = await supabaseAdmin
       .from("users")
-      .select("role, account_status")
-      .eq("id", session.user.id)
+      .select("id, role, account_status")
+      .eq("id", user.id)
       .single();
 
-    if (userError || !user) {
-      console.error("Recurring Bookings: User not found", userError);
+    if (userError || !dbUser) {
+      console.error("Recurring Bookings: User not found in database", {
+        error: userError?.message,
+        userId: user.id,
+        timestamp: new Date().toISOString(),
+      });
       redirect("/therapist-enrollment");
     }
 
-    if (user.role !== "THERAPIST") {
+    if (dbUser.role !== "THERAPIST") {
       console.error("Recurring Bookings: User is not therapist", {
-        role: user.role,
+        role: dbUser.role,
+        userId: user.id,
+        timestamp: new Date().toISOString(),
       });
-      redirect("/");
+      // Redirect based on role
+      if (dbUser.role === "USER") {
+        redirect("/user-dashboard");
+      } else if (dbUser.role === "ADMIN") {
+        redirect("/admin");
+      } else {
+        redirect("/");
+      }
     }
 
-    if (user.account_status !== "ACTIVE") {
+    if (dbUser.account_status !== "ACTIVE") {
       console.error("Recurring Bookings: Account not active", {
-        status: user.account_status,
+        status: dbUser.account_status,
+        userId: user.id,
+        timestamp: new Date().toISOString(),
       });
       redirect("/account-status");
     }
-    */
 
-    // TEMPORARY: Use michaelasereoo@gmail.com's user ID for development
-    // This page doesn't fetch bookings yet, but keeping the pattern consistent
-    const supabaseAdmin = createAdminClientServer();
-    
-    // Get the user ID for michaelasereoo@gmail.com (for future use)
-    let dietitianId: string | null = null;
-    try {
-      const { data: user } = await supabaseAdmin
-        .from("users")
-        .select("id")
-        .eq("email", "michaelasereoo@gmail.com")
-        .eq("role", "THERAPIST")
-        .single();
-      
-      if (user) {
-        dietitianId = user.id;
-      }
-    } catch (error) {
-      console.warn("Recurring Bookings: Could not fetch therapist ID", error);
-    }
+    const dietitianId = dbUser.id;
+
+    // 3. Fetch recurring series and show each one by its next occurrence
+    const series = await listBookingSeries({ dietitianId });
 
-    // 3. For now, recurring bookings are empty (no recurring booking feature yet)
-    // In the future, this would query a recurring_bookings table or similar
-    let bookings: Booking[] = [];
+    const bookings: Booking[] = series
+      .filter((s) => s.status === "ACTIVE" && s.nextOccurrence)
+      .map((s) => ({
+        id: s.nextOccurrence!.id,
+        date: new Date(s.nextOccurrence!.startTime),
+        startTime: new Date(s.nextOccurrence!.startTime),
+        endTime: new Date(s.nextOccurrence!.endTime),
+        title: s.title,
+        eventTypeSlug: s.eventTypeSlug,
+        description: s.description,
+        participants: [
+          "You",
+          s.client?.name || s.client?.email || "Client",
+        ],
+        meetingLink: s.nextOccurrence!.meetingLink || undefined,
+        series: {
+          id: s.id,
+          description: s.description,
+          remaining: s.remainingOccurrences,
+          total: s.totalOccurrences,
+        },
+      }));
 
     // 4. Pass data to client component
     return <BookingsPageClient bookings={bookings} type="recurring" />;
   } catch (error) {
     console.error("Recurring Bookings: Server error", error);
-    // TEMPORARY: Don't redirect on error when auth is disabled
-    // redirect("/therapist-login?redirect=/therapist-dashboard/bookings/recurring");
-    return <BookingsPageClient bookings={[]} type="recurring" />;
+    redirect("/therapist-login?redirect=/therapist-dashboard/bookings/recurring");
   }
 }
@@ -0,0 +1,41 @@
+"use client";
+
+import { DashboardSidebar } from "@/components/layout/dashboard-sidebar";
+import { MobileHeader } from "@/components/layout/mobile-header";
+import { BottomNavigation } from "@/components/layout/bottom-navigation";
+import { EarningsStatement } from "@/components/earnings/EarningsStatement";
+
+export default function EarningsPage() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex flex-col lg:flex-row">
+      {/* Mobile Header - Only on mobile */}
+      <div className="lg:hidden">
+        <MobileHeader />
+      </div>
+
+      {/* Sidebar - Hidden on mobile, always visible on desktop */}
+      <DashboardSidebar />
+
+      {/* Main Content */}
+      <main className="flex-1 bg-[#101010] overflow-y-auto w-full lg:w-auto lg:ml-64 lg:rounded-tl-lg pb-16 lg:pb-0">
+        <div className="p-6 lg:p-8 pt-14 lg:pt-8">
+          <div className="mb-6">
+            <h1 className="text-[15px] font-semibold text-[#f9fafb] mb-1">
+              My earnings
+            </h1>
+            <p className="text-[13px] text-[#9ca3af]">
+              What your clients paid each month, the platform commission and what you take home.
+            </p>
+          </div>
+
+          <EarningsStatement />
+        </div>
+      </main>
+
+      {/* Bottom Navigation - Mobile only */}
+      <div className="lg:hidden">
+        <BottomNavigation />
+      </div>
+    </div>
+  );
+}
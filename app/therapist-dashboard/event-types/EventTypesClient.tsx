@@ -76,7 +76,7 @@ export default function EventTypesClient({ initialEventTypes }: EventTypesClient
           description: et.description || "",
           duration: et.length || 30,
           price: Number(et.price) || 0,
-          currency: et.currency === "NGN" ? "₦" : et.currency || "₦",
+          currency: et.currency || "NGN",
           guests: 1,
           isActive: et.active !== false,
           isHidden: !et.active,
@@ -126,7 +126,7 @@ export default function EventTypesClient({ initialEventTypes }: EventTypesClient
         description: et.description || "",
         duration: et.length || 30,
         price: Number(et.price) || 0,
-        currency: et.currency === "NGN" ? "₦" : et.currency || "₦",
+        currency: et.currency || "NGN",
         guests: 1,
         isActive: et.active !== false,
         isHidden: !et.active,
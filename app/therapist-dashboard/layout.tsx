@@ -1,7 +1,6 @@
 import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
-import { getDevUserFromPath } from "@/lib/auth-helpers";
 import { DashboardProfileInitializer } from "./DashboardProfileInitializer";
 
 /**
@@ -15,21 +14,6 @@ export default async function DashboardLayout({
   children: React.ReactNode;
 }) {
   try {
-    // DEVELOPMENT MODE: Use hardcoded therapist user
-    // For dev mode, check therapist-dashboard path
-    const devUser = getDevUserFromPath('/therapist-dashboard') || getDevUserFromPath('/dashboard');
-    if (devUser) {
-      const initialProfile = {
-        name: devUser.name || null,
-        image: devUser.image || null,
-      };
-      return (
-        <DashboardProfileInitializer initialProfile={initialProfile}>
-          {children}
-        </DashboardProfileInitializer>
-      );
-    }
-
     // Fetch user and profile server-side
     const supabase = await createClient();
     const {
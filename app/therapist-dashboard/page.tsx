@@ -1,6 +1,7 @@
-import { redirect } from "next/navigation";
+import { redirect, unstable_rethrow } from "next/navigation";
 import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
+import { getNgnConverter } from "@/lib/payments/exchange-rates";
 import DashboardClient, {
   type DashboardStats,
   type Booking,
@@ -160,7 +161,7 @@ export default async function DashboardPage() {
     }
 
     try {
-      // Get total revenue (sum of successful payments)
+      // Get total revenue (sum of successful payments, in NGN)
       let paymentsQuery;
       if (dietitianId) {
         // If we have therapist ID, filter payments by their bookings
@@ -169,6 +170,9 @@ export default async function DashboardPage() {
           .select(
             `
             amount,
+            currency,
+            paid_at,
+            created_at,
             bookings!inner(dietitian_id)
           `
           )
@@ -178,15 +182,16 @@ export default async function DashboardPage() {
         // No therapist ID, get all payments
         paymentsQuery = supabaseAdmin
           .from("payments")
-          .select("amount")
+          .select("amount, currency, paid_at, created_at")
           .eq("status", "SUCCESS");
       }
       
       const { data: payments, error: paymentsError } = await withTimeout(paymentsQuery as unknown as Promise<any>, 10000);
 
       if (!paymentsError && payments) {
+        const toNgn = await getNgnConverter();
         totalRevenue = payments.reduce((sum: number, payment: any) => {
-          return sum + Number(payment.amount || 0);
+          return sum + (toNgn(Number(payment.amount || 0), payment.currency, payment.paid_at || payment.created_at) ?? 0);
         }, 0);
       }
     } catch (error) {
@@ -271,16 +276,9 @@ export default async function DashboardPage() {
       />
     );
   } catch (error) {
+    // redirect() throws; let the redirects above through
+    unstable_rethrow(error);
     console.error("Dashboard: Server error", error);
-    // TEMP: Don't redirect on error when auth is disabled
-    // redirect("/therapist-login?redirect=/therapist-dashboard");
-    
-    // Return empty dashboard on error
-    return (
-      <DashboardClient 
-        stats={{ totalSessions: 0, upcomingSessions: 0, totalRevenue: 0 }} 
-        upcomingBookings={[]} 
-      />
-    );
+    redirect("/therapist-login?redirect=/therapist-dashboard");
   }
 }
\ No newline at end of file
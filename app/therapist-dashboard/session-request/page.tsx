@@ -1,7 +1,6 @@
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server/client";
 import { createAdminClientServer } from "@/lib/supabase/server";
-import { getDevUserFromPath } from "@/lib/auth-helpers";
 import SessionRequestClient from "./SessionRequestClient";
 
 /**
@@ -19,12 +18,6 @@ import SessionRequestClient from "./SessionRequestClient";
  */
 export default async function SessionRequestPage() {
   try {
-    // DEVELOPMENT MODE: Use hardcoded therapist user
-    const devUser = getDevUserFromPath('/therapist-dashboard/session-request');
-    if (devUser && devUser.role === 'THERAPIST') {
-      return <SessionRequestClient />;
-    }
-
     // 1. Check authentication (server-side)
     const supabase = await createClient();
     const {
@@ -3,12 +3,14 @@
 import { useState, useEffect } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Plus, Calendar, CheckCircle2, XCircle, Loader2, Link2, Unlink } from "lucide-react";
+import { Plus, Calendar, CheckCircle2, XCircle, Loader2, Link2, Unlink, Copy, RefreshCw } from "lucide-react";
 
 export default function CalendarsPage() {
   const [status, setStatus] = useState<"unknown" | "connected" | "disconnected" | "expired">("unknown");
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isFeedLoading, setIsFeedLoading] = useState(false);
   const searchParams = useSearchParams();
   const router = useRouter();
 
@@ -35,8 +37,20 @@ export default function CalendarsPage() {
     }
   };
 
+  const loadFeedUrl = async () => {
+    try {
+      const res = await fetch("/api/calendar/feed", { credentials: "include" });
+      if (!res.ok) return;
+      const data = await res.json();
+      setFeedUrl(data.url || null);
+    } catch (err) {
+      console.error("Failed to load calendar feed:", err);
+    }
+  };
+
   useEffect(() => {
     loadStatus();
+    loadFeedUrl();
   }, []);
 
   useEffect(() => {
@@ -78,6 +92,40 @@ export default function CalendarsPage() {
     }
   };
 
+  const handleCopyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setMessage("Calendar feed URL copied.");
+    } catch (err) {
+      console.error("Failed to copy calendar feed URL:", err);
+    }
+  };
+
+  const handleRegenerateFeedUrl = async () => {
+    if (!confirm("Calendars subscribed to the current URL will stop receiving bookings. Continue?")) {
+      return;
+    }
+    setIsFeedLoading(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/calendar/feed", {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to regenerate calendar feed");
+      }
+      setFeedUrl(data.url || null);
+      setMessage("Calendar feed URL regenerated. Subscribe again with the new URL.");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to regenerate. Please try again.");
+    } finally {
+      setIsFeedLoading(false);
+    }
+  };
+
   return (
     <div>
       {/* Header */}
@@ -142,6 +190,41 @@ export default function CalendarsPage() {
           </p>
         </div>
 
+        {/* Calendar Feed Section */}
+        <div className="space-y-3">
+          <h2 className="text-sm font-medium text-[#f9fafb]">Subscribe from another calendar</h2>
+          <p className="text-sm text-[#9ca3af]">
+            Add this URL as a subscribed calendar in Apple Calendar, Outlook or any app that supports iCal to see your upcoming bookings.
+          </p>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 border border-[#262626] rounded-lg px-4 py-3 bg-[#0a0a0a] min-w-0">
+              <Link2 className="h-4 w-4 text-[#9ca3af] shrink-0" />
+              <span className="text-sm text-[#f9fafb] truncate">{feedUrl || "Loading..."}</span>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleCopyFeedUrl}
+              disabled={!feedUrl}
+              className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717]"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleRegenerateFeedUrl}
+              disabled={!feedUrl || isFeedLoading}
+              className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717]"
+            >
+              {isFeedLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Regenerate
+            </Button>
+          </div>
+          <p className="text-xs text-[#9ca3af]">
+            Keep this URL private: anyone with it can see your bookings. Regenerate it if it has been shared.
+          </p>
+        </div>
+
         {/* Check for Conflicts Section */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
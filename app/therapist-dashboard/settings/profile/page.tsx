@@ -11,10 +11,6 @@ import { therapistService } from "@/lib/therapist-service";
 import { TherapistProfile } from "@/types";
 import { setupRealtimeUpdates } from "@/lib/realtime-updates";
 
-// DEV MODE: Hardcoded therapist user ID for localhost testing
-const DEV_THERAPIST_ID = 'b900e502-71a6-45da-bde6-7b596cc14d88';
-const isDev = process.env.NODE_ENV === 'development';
-
 export default function ProfilePage() {
   const { user, setProfileDirect } = useAuth();
   const [profile, setProfile] = useState<TherapistProfile | null>(null);
@@ -23,13 +19,12 @@ export default function ProfilePage() {
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
-  // Get effective user ID (real user or dev mode fallback)
-  const effectiveUserId = user?.id || (isDev ? DEV_THERAPIST_ID : null);
+  const userId = user?.id || null;
 
   // Fetch profile on mount
   useEffect(() => {
     const loadProfile = async () => {
-      if (!effectiveUserId) return;
+      if (!userId) return;
       
       setLoading(true);
       try {
@@ -39,7 +34,7 @@ export default function ProfilePage() {
           setTimeout(() => reject(new Error("Profile fetch timed out")), 10000)
         );
         const data = await Promise.race([
-          therapistService.getTherapistProfile(effectiveUserId),
+          therapistService.getTherapistProfile(userId),
           timeoutPromise,
         ]) as TherapistProfile;
         
@@ -104,15 +99,15 @@ export default function ProfilePage() {
     };
     
     loadProfile();
-  }, [effectiveUserId, setProfileDirect]);
+  }, [userId, setProfileDirect]);
 
   // Setup real-time updates
   useEffect(() => {
-    if (!effectiveUserId) return;
+    if (!userId) return;
     
-    const unsubscribe = setupRealtimeUpdates(effectiveUserId, () => {
+    const unsubscribe = setupRealtimeUpdates(userId, () => {
       // Refresh profile when real-time update is received
-      therapistService.getTherapistProfile(effectiveUserId, true).then((updatedProfile) => {
+      therapistService.getTherapistProfile(userId, true).then((updatedProfile) => {
         setProfile(updatedProfile);
         // Also update AuthProvider context so sidebar reflects changes
         setProfileDirect({ 
@@ -123,7 +118,7 @@ export default function ProfilePage() {
     });
     
     return unsubscribe;
-  }, [effectiveUserId, setProfileDirect]);
+  }, [userId, setProfileDirect]);
 
   // Convert name to URL-friendly slug
   const nameToSlug = (name: string): string => {
@@ -148,8 +143,8 @@ export default function ProfilePage() {
 
   // Handle name update
   const handleSaveName = async () => {
-    if (!effectiveUserId || !profile) {
-      console.error('Cannot save: missing user or profile', { hasUserId: !!effectiveUserId, hasProfile: !!profile });
+    if (!userId || !profile) {
+      console.error('Cannot save: missing user or profile', { hasUserId: !!userId, hasProfile: !!profile });
       return;
     }
 
@@ -164,9 +159,9 @@ export default function ProfilePage() {
 
     try {
       const newName = profile.name.trim();
-      console.log('Saving name:', { userId: effectiveUserId, name: newName });
+      console.log('Saving name:', { userId, name: newName });
 
-      const result = await therapistService.updateProfile(effectiveUserId, { name: newName });
+      const result = await therapistService.updateProfile(userId, { name: newName });
       
       // Update local state
       if (result.data) {
@@ -201,8 +196,8 @@ export default function ProfilePage() {
 
   // Handle bio update
   const handleSaveBio = async () => {
-    if (!effectiveUserId || !profile) {
-      console.error('Cannot save: missing user or profile', { hasUserId: !!effectiveUserId, hasProfile: !!profile });
+    if (!userId || !profile) {
+      console.error('Cannot save: missing user or profile', { hasUserId: !!userId, hasProfile: !!profile });
       return;
     }
 
@@ -211,9 +206,9 @@ export default function ProfilePage() {
     setSaveSuccess(false);
 
     try {
-      console.log('Saving bio:', { userId: effectiveUserId, bioLength: profile.bio?.length || 0 });
+      console.log('Saving bio:', { userId, bioLength: profile.bio?.length || 0 });
 
-      const result = await therapistService.updateProfile(effectiveUserId, { bio: profile.bio ?? undefined });
+      const result = await therapistService.updateProfile(userId, { bio: profile.bio ?? undefined });
       
       // Update local state with the saved bio (optimistic update)
       if (result.data) {
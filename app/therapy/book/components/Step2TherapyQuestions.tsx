@@ -3,6 +3,7 @@
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { ChevronDown } from "lucide-react";
+import { formatMoney } from "@/lib/utils/money";
 
 interface Step2TherapyQuestionsProps {
   therapyData: {
@@ -136,7 +137,7 @@ export function Step2TherapyQuestions({
                           {eventType.description}
                         </div>
                         <div className="text-xs text-[#9ca3af] mt-1">
-                          {eventType.length} minutes • ₦{eventType.price.toLocaleString()}
+                          {eventType.length} minutes • {formatMoney(eventType.price, eventType.currency)}
                         </div>
                       </div>
                       {isSelected && (
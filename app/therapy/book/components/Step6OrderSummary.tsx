@@ -1,6 +1,9 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { PromoCodeInput } from "@/components/user/promo-code-input";
+import type { AppliedPromoCode } from "@/lib/payments/promo-codes";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 import dayjs from "dayjs";
 
 interface Step6OrderSummaryProps {
@@ -25,6 +28,9 @@ interface Step6OrderSummaryProps {
   }>;
   selectedEventTypeId: string;
   eventTypePrice: number;
+  currency?: string;
+  appliedPromo: AppliedPromoCode | null;
+  onPromoChange: (promo: AppliedPromoCode | null) => void;
   isProcessingPayment: boolean;
   onBack: () => void;
   onCheckout: () => void;
@@ -47,6 +53,9 @@ export function Step6OrderSummary({
   availableEventTypes,
   selectedEventTypeId,
   eventTypePrice,
+  currency = BASE_CURRENCY,
+  appliedPromo,
+  onPromoChange,
   isProcessingPayment,
   onBack,
   onCheckout,
@@ -105,10 +114,33 @@ export function Step6OrderSummary({
             </span>
           </div>
           
-          <div className="border-t border-[#262626] pt-3 mt-3">
+          <div className="border-t border-[#262626] pt-3 mt-3 space-y-3">
+            {selectedEventType && (
+              <PromoCodeInput
+                eventTypeId={selectedEventType.id}
+                appliedPromo={appliedPromo}
+                onChange={onPromoChange}
+              />
+            )}
+            {appliedPromo && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-[#9ca3af]">Subtotal</span>
+                  <span className="text-[#f9fafb]">{formatMoney(appliedPromo.originalAmount, appliedPromo.currency)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-[#9ca3af]">Discount ({appliedPromo.code})</span>
+                  <span className="text-emerald-400">−{formatMoney(appliedPromo.discountAmount, appliedPromo.currency)}</span>
+                </div>
+              </>
+            )}
             <div className="flex justify-between">
               <span className="text-sm font-medium text-[#f9fafb]">Total</span>
-              <span className="text-lg font-semibold text-[#f9fafb]">₦{eventTypePrice.toLocaleString()}</span>
+              <span className="text-lg font-semibold text-[#f9fafb]">
+                {appliedPromo
+                  ? formatMoney(appliedPromo.finalAmount, appliedPromo.currency)
+                  : formatMoney(eventTypePrice, currency)}
+              </span>
             </div>
           </div>
         </div>
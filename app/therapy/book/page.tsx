@@ -5,6 +5,7 @@ import { useSearchParams, useRouter } from "next/navigation";
 import { createBrowserClient } from "@/lib/supabase/client";
 import dayjs from "dayjs";
 import { PaymentModal } from "@/components/user/payment-modal";
+import type { AppliedPromoCode } from "@/lib/payments/promo-codes";
 import { StepIndicator } from "./components/StepIndicator";
 import { Step1WelcomeForm } from "./components/Step1WelcomeForm";
 import { Step2TherapyQuestions } from "./components/Step2TherapyQuestions";
@@ -103,6 +104,7 @@ function TherapyBookingContent() {
   const [availableEventTypes, setAvailableEventTypes] = useState(defaultTherapistEventTypes);
   const [selectedEventTypeId, setSelectedEventTypeId] = useState<string>(defaultTherapistEventTypes[0].id);
   const [eventTypePrice, setEventTypePrice] = useState<number>(defaultTherapistEventTypes[0].price);
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromoCode | null>(null);
   
   // Calendar state
   const [currentMonth, setCurrentMonth] = useState(dayjs());
@@ -672,8 +674,14 @@ function TherapyBookingContent() {
             availableEventTypes={availableEventTypes}
             selectedEventTypeId={selectedEventTypeId}
             eventTypePrice={eventTypePrice}
+            appliedPromo={appliedPromo}
+            onPromoChange={setAppliedPromo}
             isProcessingPayment={isProcessingPayment}
-            onBack={() => setStep(5)}
+            onBack={() => {
+              // The code was checked against this event type
+              setAppliedPromo(null);
+              setStep(5);
+            }}
             onCheckout={handleCheckout}
           />
         )}
@@ -694,8 +702,9 @@ function TherapyBookingContent() {
             setStep(6);
           }}
           onSuccess={handlePaymentSuccess}
-          amount={eventTypePrice}
+          amount={appliedPromo ? appliedPromo.finalAmount : eventTypePrice}
           currency="NGN"
+          promoCode={appliedPromo?.code}
           description={bookingForPayment.description}
           requestType="CONSULTATION"
           bookingId={bookingForPayment.id}
@@ -11,11 +11,17 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { PaymentModal } from "@/components/user/payment-modal";
 import { PaymentSuccessModal } from "@/components/user/payment-success-modal";
+import { SessionBundleOffer } from "@/components/user/session-bundle-offer";
 import { ChevronLeft, ChevronRight, Check, Calendar as CalendarIcon, Clock, Video, ExternalLink, X, ChevronDown } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import dayjs from "dayjs";
 import { useOptimizedAvailability } from "@/hooks/useOptimizedAvailability";
+import { useBookerTimezone } from "@/hooks/useBookerTimezone";
+import { TimezoneSelect } from "@/components/booking/timezone-select";
+import { OutOfOfficeBanner } from "@/components/booking/out-of-office-banner";
+import type { OutOfOfficeNotice } from "@/lib/availability/out-of-office";
 import { NIGERIA_STATES } from "@/constants/nigeriaStates";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
 interface Therapist {
   id: string;
@@ -27,6 +33,16 @@ interface Therapist {
 
 // Therapists will be fetched from API
 
+// Seats left per start time (HH:mm) on a day in the booker's timezone; only group sessions report seats
+const getSeatsRemainingByTime = (slots: Array<{ start: string; seatsRemaining?: number }>, date: Date, timezone: string) =>
+  slots.reduce<Record<string, number>>((acc, slot) => {
+    const slotStart = dayjs(slot.start).tz(timezone);
+    if (slot.seatsRemaining !== undefined && slotStart.format("YYYY-MM-DD") === dayjs(date).format("YYYY-MM-DD")) {
+      acc[slotStart.format("HH:mm")] = slot.seatsRemaining;
+    }
+    return acc;
+  }, {});
+
 function BookACallPageContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -36,17 +52,16 @@ function BookACallPageContent() {
   const prefillEventTypeId = searchParams.get("eventTypeId");
   const prefillRequestId = searchParams.get("requestId");
   const prefillMessage = searchParams.get("message");
+  // From the "complete your booking" email sent after an abandoned checkout
+  const resumeToken = searchParams.get("resume");
 
   // Skip to step 4 (date/time) if pre-filled from consultation request (therapist already selected)
   // Skip to step 4 if reschedule (all fields pre-filled, just need new date/time)
   const initialStep = isPrefill && prefillTherapistId ? 4 : isReschedule ? 4 : 1;
-  // DEV MODE: Check if running in development for localhost testing
-  const isDev = process.env.NODE_ENV === 'development';
-  
   const [step, setStep] = useState<1 | 2 | 3 | 4 | 5 | 6 | 7>(initialStep); // 1=welcome form, 2=therapy questions, 3=therapist selection, 4=date, 5=time, 6=order summary, 7=success screen
   const [formData, setFormData] = useState({
-    name: isDev ? 'Michael (User)' : '',
-    email: isDev ? 'michaelasereo@gmail.com' : '',
+    name: "",
+    email: "",
     gender: "",
     phone: "",
     city: "",
@@ -68,8 +83,8 @@ function BookACallPageContent() {
   });
   const [userProfile, setUserProfile] = useState<any>(null);
   const [bookingHistory, setBookingHistory] = useState<any>(null);
-  const [sessionEmail, setSessionEmail] = useState<string>(isDev ? 'michaelasereo@gmail.com' : '');
-  const [sessionName, setSessionName] = useState<string>(isDev ? 'Michael (User)' : '');
+  const [sessionEmail, setSessionEmail] = useState<string>("");
+  const [sessionName, setSessionName] = useState<string>("");
   
   // Default therapist event types
   const defaultEventTypes = [
@@ -128,14 +143,15 @@ function BookACallPageContent() {
   const [currentMonth, setCurrentMonth] = useState(dayjs());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>("");
+  const { timezone, setTimezone } = useBookerTimezone(true);
   const [bookingDetails, setBookingDetails] = useState<any>(null);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isSuccessModalOpen, setIsSuccessModalOpen] = useState(false);
   const [paymentData, setPaymentData] = useState<any>(null);
   const [eventTypePrice, setEventTypePrice] = useState<number>(15000);
   const [therapistName, setTherapistName] = useState<string>("");
-  const [userName, setUserName] = useState<string>(isDev ? 'Michael (User)' : '');
-  const [userEmail, setUserEmail] = useState<string>(isDev ? 'michaelasereo@gmail.com' : '');
+  const [userName, setUserName] = useState<string>("");
+  const [userEmail, setUserEmail] = useState<string>("");
   const [therapists, setTherapists] = useState<Therapist[]>([]);
   const [loadingTherapists, setLoadingTherapists] = useState(true);
   const [eventTypes, setEventTypes] = useState<Array<{ id: string; title: string; length: number; price: number; currency: string }>>([]);
@@ -143,13 +159,26 @@ function BookACallPageContent() {
 
   // Real availability data
   const [timeSlots, setTimeSlots] = useState<string[]>([]);
+  const [seatsRemaining, setSeatsRemaining] = useState<Record<string, number>>({});
   const [loadingTimeSlots, setLoadingTimeSlots] = useState(false);
   const [isLoadingDates, setIsLoadingDates] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [bookingForPayment, setBookingForPayment] = useState<{
     id: string;
     description: string;
+    amount?: number;
+    currency?: string;
+    // Reopened from a resume link rather than booked on this page
+    resumed?: boolean;
   } | null>(null);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const [outOfOffice, setOutOfOffice] = useState<OutOfOfficeNotice[]>([]);
+  // Set when the client switched to a colleague from an out-of-office notice
+  const [referral, setReferral] = useState<{ referredById: string; dietitianId: string } | null>(null);
+  // Weekly/fortnightly repeat for monitoring sessions (null = single booking)
+  const [recurrence, setRecurrence] = useState<{ interval: number; count: number } | null>(null);
+  // Book against a prepaid session from a bundle instead of paying
+  const [useSessionCredit, setUseSessionCredit] = useState(false);
   // Initialize availableDates from cache if available
   const [availableDates, setAvailableDates] = useState<string[]>(() => {
     // Try to load from cache on mount if therapist is already selected
@@ -183,13 +212,18 @@ function BookACallPageContent() {
   // Get event type duration for smart polling
   const selectedEventType = availableEventTypes.find(et => et.id === selectedEventTypeId) || eventTypes.find(et => et.id === selectedEventTypeId);
   const durationMinutes = selectedEventType?.length || 45;
+  const eventTypeCurrency = selectedEventType?.currency || BASE_CURRENCY;
+  const canRepeat = availableEventTypes.find(et => et.id === selectedEventTypeId)?.slug === "monitoring";
+  const sessionCount = canRepeat && recurrence ? recurrence.count : 1;
+  const payWithCredit = useSessionCredit && !recurrence && !isReschedule;
   
   // Smart polling for timeslots (only when all required data is available)
   const { data: availabilityData, isLoading: isLoadingAvailability } = useOptimizedAvailability({
     dietitianId: selectedTherapist || "",
     eventTypeId: selectedEventTypeId || undefined,
-    startDate: selectedDate ? new Date(selectedDate) : undefined,
-    endDate: selectedDate ? dayjs(selectedDate).add(1, "day").toDate() : undefined,
+    // Padded by a day so slots that fall on this date in the booker's timezone are included
+    startDate: selectedDate ? dayjs(selectedDate).subtract(1, "day").toDate() : undefined,
+    endDate: selectedDate ? dayjs(selectedDate).add(2, "day").toDate() : undefined,
     durationMinutes,
     enabled: !!selectedDate && !!selectedTherapist && !!selectedEventTypeId,
   });
@@ -201,11 +235,12 @@ function BookACallPageContent() {
     if (availabilityData && selectedDate) {
       const formattedSlots = (availabilityData.slots || [])
         .filter((slot: any) => {
-          const slotDate = dayjs(slot.start);
-          return slotDate.isSame(dayjs(selectedDate), "day");
+          const slotDate = dayjs(slot.start).tz(timezone);
+          return slotDate.format("YYYY-MM-DD") === dayjs(selectedDate).format("YYYY-MM-DD");
         })
-        .map((slot: any) => dayjs(slot.start).format("HH:mm"));
+        .map((slot: any) => dayjs(slot.start).tz(timezone).format("HH:mm"));
       setTimeSlots(formattedSlots);
+      setSeatsRemaining(getSeatsRemainingByTime(availabilityData.slots || [], selectedDate, timezone));
       setLoadingTimeSlots(false);
       
       // Cache the data for future use
@@ -222,7 +257,7 @@ function BookACallPageContent() {
     } else if (isLoadingAvailability) {
       setLoadingTimeSlots(true);
     }
-  }, [availabilityData, selectedDate, isLoadingAvailability, selectedTherapist, selectedEventTypeId]);
+  }, [availabilityData, selectedDate, isLoadingAvailability, selectedTherapist, selectedEventTypeId, timezone]);
 
   const startOfMonth = currentMonth.startOf("month");
   const daysInMonth = currentMonth.daysInMonth();
@@ -245,10 +280,10 @@ function BookACallPageContent() {
             const dates = new Set(
               (parsed.slots || [])
                 .filter((slot: any) => {
-                  const slotDate = dayjs(slot.start);
-                  return slotDate.isSame(newMonth, "month");
+                  const slotDate = dayjs(slot.start).tz(timezone);
+                  return slotDate.format("YYYY-MM") === newMonth.format("YYYY-MM");
                 })
-                .map((slot: any) => dayjs(slot.start).format("D"))
+                .map((slot: any) => dayjs(slot.start).tz(timezone).format("D"))
             );
             setAvailableDates(Array.from(dates) as string[]);
             console.log('⚡ [INSTANT] Dates loaded from cache for previous month:', Array.from(dates));
@@ -277,10 +312,10 @@ function BookACallPageContent() {
             const dates = new Set(
               (parsed.slots || [])
                 .filter((slot: any) => {
-                  const slotDate = dayjs(slot.start);
-                  return slotDate.isSame(newMonth, "month");
+                  const slotDate = dayjs(slot.start).tz(timezone);
+                  return slotDate.format("YYYY-MM") === newMonth.format("YYYY-MM");
                 })
-                .map((slot: any) => dayjs(slot.start).format("D"))
+                .map((slot: any) => dayjs(slot.start).tz(timezone).format("D"))
             );
             setAvailableDates(Array.from(dates) as string[]);
             console.log('⚡ [INSTANT] Dates loaded from cache for next month:', Array.from(dates));
@@ -309,14 +344,15 @@ function BookACallPageContent() {
           if (Date.now() - parsed.timestamp < 300000) {
             const formattedSlots = (parsed.slots || [])
               .filter((slot: any) => {
-                const slotDate = dayjs(slot.start);
-                return slotDate.isSame(dayjs(date), "day");
+                const slotDate = dayjs(slot.start).tz(timezone);
+                return slotDate.format("YYYY-MM-DD") === dayjs(date).format("YYYY-MM-DD");
               })
-              .map((slot: any) => dayjs(slot.start).format("HH:mm"));
+              .map((slot: any) => dayjs(slot.start).tz(timezone).format("HH:mm"));
             
             if (formattedSlots.length > 0) {
               console.log('⚡ [INSTANT] Time slots loaded from cache:', formattedSlots.length);
               setTimeSlots(formattedSlots);
+              setSeatsRemaining(getSeatsRemainingByTime(parsed.slots || [], date, timezone));
               setLoadingTimeSlots(false);
               return; // Don't fetch if we have cache
             }
@@ -357,10 +393,10 @@ function BookACallPageContent() {
                 const currentMonthDates = new Set(
                   (parsed.slots || [])
                     .filter((slot: any) => {
-                      const slotDate = dayjs(slot.start);
-                      return slotDate.isSame(currentMonth, "month");
+                      const slotDate = dayjs(slot.start).tz(timezone);
+                      return slotDate.format("YYYY-MM") === currentMonth.format("YYYY-MM");
                     })
-                    .map((slot: any) => dayjs(slot.start).format("D"))
+                    .map((slot: any) => dayjs(slot.start).tz(timezone).format("D"))
                 );
                 setAvailableDates(Array.from(currentMonthDates) as string[]);
                 console.log('⚡ [INSTANT] Dates loaded from cache:', Array.from(currentMonthDates));
@@ -385,10 +421,11 @@ function BookACallPageContent() {
         setIsLoadingDates(true);
         try {
           // Preload current month + next month for faster UX
-          const startOfCurrentMonth = currentMonth.startOf("month").format("YYYY-MM-DD");
-          const endOfNextMonth = currentMonth.add(1, "month").endOf("month").format("YYYY-MM-DD");
+          // Padded by a day so slots near midnight land on the right date in the booker's timezone
+          const startOfCurrentMonth = currentMonth.startOf("month").subtract(1, "day").format("YYYY-MM-DD");
+          const endOfNextMonth = currentMonth.add(1, "month").endOf("month").add(1, "day").format("YYYY-MM-DD");
           const duration = selectedEventType?.length || 45;
-          const url = `/api/availability/timeslots?userId=${selectedTherapist}&userRole=THERAPIST&startDate=${startOfCurrentMonth}&endDate=${endOfNextMonth}&duration=${duration}&eventTypeId=${selectedEventTypeId}`;
+          const url = `/api/availability/timeslots?dietitianId=${selectedTherapist}&userRole=THERAPIST&startDate=${startOfCurrentMonth}&endDate=${endOfNextMonth}&duration=${duration}&eventTypeId=${selectedEventTypeId}`;
           
           console.log('📅 [PRELOAD] Fetching availability for 2 months:', {
             startDate: startOfCurrentMonth,
@@ -414,10 +451,10 @@ function BookACallPageContent() {
             const currentMonthDates = new Set(
               (data.slots || [])
                 .filter((slot: any) => {
-                  const slotDate = dayjs(slot.start);
-                  return slotDate.isSame(currentMonth, "month");
+                  const slotDate = dayjs(slot.start).tz(timezone);
+                  return slotDate.format("YYYY-MM") === currentMonth.format("YYYY-MM");
                 })
-                .map((slot: any) => dayjs(slot.start).format("D"))
+                .map((slot: any) => dayjs(slot.start).tz(timezone).format("D"))
             );
             
             // Store all slots in a cache for quick lookup when date is selected
@@ -432,6 +469,7 @@ function BookACallPageContent() {
             }
             
             setAvailableDates(Array.from(currentMonthDates) as string[]);
+            setOutOfOffice(data.outOfOffice || []);
             console.log('📊 [PRELOAD] Available dates set:', Array.from(currentMonthDates));
           } else {
             const errorData = await response.json().catch(() => ({}));
@@ -449,7 +487,7 @@ function BookACallPageContent() {
 
       fetchAvailableDates();
     }
-  }, [selectedTherapist, selectedEventTypeId, selectedEventType, currentMonth]);
+  }, [selectedTherapist, selectedEventTypeId, selectedEventType, currentMonth, timezone]);
 
 
   // Fetch therapists on component mount using API endpoint
@@ -568,6 +606,21 @@ function BookACallPageContent() {
     }
   }, [selectedTherapist, prefillEventTypeId]);
 
+  // Switch to the colleague covering for the selected therapist, keeping the referral
+  const handleBookColleague = (notice: OutOfOfficeNotice) => {
+    if (!notice.forwardTo) return;
+    setReferral({ referredById: selectedTherapist, dietitianId: notice.forwardTo.dietitianId });
+    setSelectedTherapist(notice.forwardTo.dietitianId);
+    setTherapistName(notice.forwardTo.name);
+    if (notice.forwardTo.eventTypeId) {
+      setSelectedEventTypeId(notice.forwardTo.eventTypeId);
+    }
+    setSelectedDate(null);
+    setSelectedTime("");
+    setAvailableDates([]);
+    setOutOfOffice([]);
+  };
+
   const isDateAvailable = (day: number) => {
     const dateStr = currentMonth.date(day).format("D");
     return availableDates.includes(dateStr);
@@ -637,6 +690,43 @@ function BookACallPageContent() {
     }
   }, [step]);
 
+  // Reopen checkout for an abandoned booking, if its slot is still free
+  useEffect(() => {
+    if (!resumeToken) return;
+
+    fetch("/api/bookings/resume", {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: resumeToken }),
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(
+            data.code === "SLOT_UNAVAILABLE"
+              ? "Sorry, this time slot has been booked by someone else. Please choose another time."
+              : data.error || "Failed to resume your booking"
+          );
+        }
+
+        // Paystack redirects back here once paid, where the booking is shown as confirmed
+        const checkout = data.checkout;
+        setBookingForPayment({
+          id: checkout.bookingId,
+          description: checkout.description,
+          amount: checkout.amount,
+          currency: checkout.currency,
+          resumed: true,
+        });
+        setIsPaymentModalOpen(true);
+      })
+      .catch((err) => {
+        console.error("Failed to resume checkout:", err);
+        setResumeError(err instanceof Error ? err.message : "Failed to resume your booking");
+      });
+  }, [resumeToken]);
+
   // Handle payment callback from Paystack
   useEffect(() => {
     try {
@@ -678,7 +768,7 @@ function BookACallPageContent() {
                 }
                 
                 // Parse date using dayjs to avoid timezone issues
-                const bookingDate = dayjs(booking.start_time);
+                const bookingDate = dayjs(booking.start_time).tz(timezone);
                 
                 // Set booking details for success screen
                 setBookingDetails({
@@ -727,7 +817,7 @@ function BookACallPageContent() {
                     duration = `${eventType?.length || 45}m`;
                   }
                   
-                  const bookingDate = dayjs(fetchedBooking.start_time);
+                  const bookingDate = dayjs(fetchedBooking.start_time).tz(timezone);
                   
                   setBookingDetails({
                     id: fetchedBooking.id,
@@ -1176,7 +1266,7 @@ function BookACallPageContent() {
           console.log('📝 [DEBUG] Creating booking with data:', {
             dietitianId: selectedTherapist, // API still uses dietitianId field for backward compatibility
             eventTypeId: selectedEventTypeId,
-            startTime: new Date(`${dayjs(selectedDate).format("YYYY-MM-DD")}T${selectedTime}`).toISOString(),
+            startTime: dayjs.tz(`${dayjs(selectedDate).format("YYYY-MM-DD")} ${selectedTime}`, timezone).toISOString(),
             name: finalName,
             email: finalEmail
           });
@@ -1187,7 +1277,24 @@ function BookACallPageContent() {
           
           let bookingResponse;
           try {
-            bookingResponse = await fetch("/api/bookings", {
+            bookingResponse = canRepeat && recurrence ? await fetch("/api/bookings/series", {
+              method: "POST",
+              credentials: "include",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              signal: controller.signal,
+              body: JSON.stringify({
+                eventTypeId: selectedEventTypeId,
+                startTime: dayjs.tz(`${dayjs(selectedDate).format("YYYY-MM-DD")} ${selectedTime}`, timezone).toISOString(),
+                recurrence: {
+                  frequency: "WEEKLY",
+                  interval: recurrence.interval,
+                  count: recurrence.count,
+                },
+                notes: therapyData.whatBringsYou || therapyData.specialPreferences || "",
+              }),
+            }) : await fetch("/api/bookings", {
               method: "POST",
               credentials: "include",
               headers: {
@@ -1197,12 +1304,13 @@ function BookACallPageContent() {
               body: JSON.stringify({
                 dietitianId: selectedTherapist, // API still uses dietitianId field for backward compatibility
                 eventTypeId: selectedEventTypeId || prefillEventTypeId,
-                startTime: new Date(`${dayjs(selectedDate).format("YYYY-MM-DD")}T${selectedTime}`).toISOString(),
+                startTime: dayjs.tz(`${dayjs(selectedDate).format("YYYY-MM-DD")} ${selectedTime}`, timezone).toISOString(),
                 name: finalName,
                 email: finalEmail,
                 notes: therapyData.whatBringsYou || therapyData.specialPreferences || "",
                 userGender: formData.gender || null,
                 userPhone: formData.phone || null,
+                referredByDietitianId: referral?.dietitianId === selectedTherapist ? referral.referredById : undefined,
                 userCity: formData.city || null,
                 userState: formData.state || null,
                 userWhatBringsYou: therapyData.whatBringsYou || null,
@@ -1210,6 +1318,7 @@ function BookACallPageContent() {
                 userTherapistGenderPreference: therapyData.therapistGenderPreference || null,
                 userHowDidYouHear: therapyData.howDidYouHear || null,
                 sessionRequestId: prefillRequestId,
+                useSessionCredit: payWithCredit || undefined,
                 // No payment data yet - will be added after payment
               }),
             });
@@ -1237,6 +1346,22 @@ function BookACallPageContent() {
             const bookingData = await bookingResponse.json();
             console.log('✅ [DEBUG] Booking created:', bookingData);
             const bookingId = bookingData.booking?.id || `booking-${Date.now()}`;
+
+            // Booked with a prepaid session: already confirmed, nothing to pay
+            if (bookingData.paidWithCredit) {
+              setBookingDetails({
+                id: bookingId,
+                date: selectedDate,
+                time: selectedTime,
+                therapist: therapists.find((t) => t.id === selectedTherapist)?.name || "",
+                duration: `${durationMinutes}m`,
+                meetingLink: bookingData.booking?.meeting_link || "",
+              });
+              setPaymentData({ amount: 0, currency: "NGN" });
+              setUseSessionCredit(false);
+              setStep(7);
+              return;
+            }
             
             // Store booking ID for payment
             setBookingDetails({
@@ -1257,7 +1382,10 @@ function BookACallPageContent() {
             
             setBookingForPayment({
               id: bookingId,
-              description: `${serviceTitle} with ${therapistDisplayName}`,
+              description: bookingData.series
+                ? `${serviceTitle} with ${therapistDisplayName} (${bookingData.bookings?.length || sessionCount} sessions)`
+                : `${serviceTitle} with ${therapistDisplayName}`,
+              amount: bookingData.series ? bookingData.totalPrice : undefined,
             });
             
             // Open PaymentModal instead of directly calling API
@@ -1267,6 +1395,15 @@ function BookACallPageContent() {
             const errorData = await bookingResponse.json().catch(() => ({}));
             console.error("❌ [DEBUG] Failed to create booking:", errorData);
             
+            // List the dates that blocked a recurring series
+            if (errorData.details?.conflicts?.length) {
+              const conflictDates = errorData.details.conflicts
+                .map((c: { startTime: string }) => dayjs(c.startTime).format("MMM D, h:mm A"))
+                .join(", ");
+              alert(`${errorData.error}: ${conflictDates}. Please pick another time or fewer sessions.`);
+              return;
+            }
+
             // Provide user-friendly error message
             const errorMessage = errorData.error || errorData.message || 
                                (errorData.details ? `${errorData.error || 'Failed to create booking'}: ${errorData.details}` : null) ||
@@ -1314,22 +1451,24 @@ function BookACallPageContent() {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            newDate: selectedDate.toISOString(),
-            newTime: selectedTime,
+            startTime: dayjs.tz(`${dayjs(selectedDate).format("YYYY-MM-DD")} ${selectedTime}`, timezone).toISOString(),
           }),
         });
 
+        const data = await response.json().catch(() => ({}));
         if (response.ok) {
           const therapist = therapists.find((t) => t.id === selectedTherapist);
           setBookingDetails({
             date: selectedDate,
             time: selectedTime,
             therapist: therapist?.name || "",
-            duration: "45m",
-            meetingLink: "https://meet.google.com/abc-defg-hij",
+            duration: `${data.booking?.duration || 45}m`,
+            meetingLink: data.booking?.meetingLink || "",
             isReschedule: true,
           });
           setStep(7);
+        } else {
+          alert(data.error || "Failed to confirm reschedule. Please pick another time.");
         }
       } catch (err) {
         console.error("Error confirming reschedule:", err);
@@ -1434,6 +1573,12 @@ function BookACallPageContent() {
             </div>
           )}
 
+          {resumeError && (
+            <div className="mx-4 sm:mx-8 mt-4 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-md p-3">
+              {resumeError}
+            </div>
+          )}
+
           {/* Step Content - Center Aligned */}
           {step === 1 && (
             <div className="flex justify-center p-4 md:p-8">
@@ -1491,7 +1636,7 @@ function BookACallPageContent() {
                               >
                                 <div className="font-medium truncate">{et.title}</div>
                                 <div className="text-xs text-[#9ca3af] mt-1">
-                                  {et.length}m • ₦{et.price.toLocaleString()}
+                                  {et.length}m • {formatMoney(et.price, et.currency)}
                                 </div>
                               </button>
                             );
@@ -1523,7 +1668,7 @@ function BookACallPageContent() {
                   <div className="flex items-center gap-2">
                     <CalendarIcon className="h-4 w-4 sm:h-5 sm:w-5 text-[#9ca3af]" />
                     <div className="flex items-center gap-1 sm:gap-2">
-                      <span className="text-xs sm:text-sm text-[#f9fafb]">Africa/Lagos</span>
+                      <span className="text-xs sm:text-sm text-[#f9fafb]">{timezone.replace(/_/g, " ")}</span>
                       <ChevronRight className="h-3 w-3 sm:h-4 sm:w-4 text-[#9ca3af]" />
                     </div>
                   </div>
@@ -1531,7 +1676,7 @@ function BookACallPageContent() {
                 {(selectedEventTypeId || availableEventTypes.length > 0) && (
                   <div className="bg-white rounded-lg px-2 py-1 sm:px-3 sm:py-1.5 mt-3 w-fit">
                     <span className="text-base sm:text-lg font-semibold text-black">
-                      {eventTypePrice === 0 ? "Free" : `₦${eventTypePrice.toLocaleString()}`}
+                      {eventTypePrice === 0 ? "Free" : formatMoney(eventTypePrice, eventTypeCurrency)}
                     </span>
                   </div>
                 )}
@@ -1855,7 +2000,7 @@ function BookACallPageContent() {
                                   {eventType.description}
                                 </div>
                                 <div className="text-xs text-[#9ca3af] mt-1">
-                                  {eventType.length} minutes • ₦{eventType.price.toLocaleString()}
+                                  {eventType.length} minutes • {formatMoney(eventType.price, eventType.currency)}
                                 </div>
                               </div>
                               {isSelected && (
@@ -1937,7 +2082,7 @@ function BookACallPageContent() {
                     <div className="flex items-center gap-3">
                       <CalendarIcon className="h-5 w-5 text-[#9ca3af]" />
                       <div className="flex items-center gap-2">
-                        <span className="text-sm text-[#f9fafb]">Africa/Lagos</span>
+                        <span className="text-sm text-[#f9fafb]">{timezone.replace(/_/g, " ")}</span>
                         <ChevronRight className="h-4 w-4 text-[#9ca3af]" />
                       </div>
                     </div>
@@ -2107,6 +2252,13 @@ function BookACallPageContent() {
               <div className="w-full max-w-md mx-auto">
                 {/* Calendar */}
                 <div className="p-4 md:p-8">
+                  <OutOfOfficeBanner
+                    notices={outOfOffice}
+                    practitionerName={therapistName || "Your therapist"}
+                    month={currentMonth}
+                    onBookColleague={handleBookColleague}
+                    className="mb-6"
+                  />
                   <div>
                     <div className="flex items-center justify-between mb-4">
                     <button
@@ -2223,6 +2375,15 @@ function BookACallPageContent() {
                     )}
                   </div>
 
+                  <TimezoneSelect
+                    value={timezone}
+                    onChange={(tz) => {
+                      setTimezone(tz);
+                      setSelectedTime("");
+                    }}
+                    className="mb-4"
+                  />
+
                   {/* Time Format Toggle */}
                   <div className="flex items-center justify-end gap-2 mb-4">
                     <button className="text-xs px-3 py-1.5 bg-white text-black rounded font-medium">
@@ -2265,6 +2426,11 @@ function BookACallPageContent() {
                           >
                             <div className={`w-2 h-2 rounded-full ${isSelected ? "bg-black" : "bg-green-500"}`} />
                             {formatTime(time)}
+                            {seatsRemaining[time] !== undefined && (
+                              <span className={`ml-auto text-xs ${isSelected ? "text-gray-600" : "text-[#9ca3af]"}`}>
+                                {seatsRemaining[time]} {seatsRemaining[time] === 1 ? "seat" : "seats"} left
+                              </span>
+                            )}
                           </button>
                         );
                       })
@@ -2350,13 +2516,63 @@ function BookACallPageContent() {
                          45} minutes
                       </span>
                     </div>
+                    {canRepeat && !isReschedule && (
+                      <>
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-[#9ca3af]">Repeat</span>
+                          <select
+                            value={recurrence?.interval || 0}
+                            onChange={(e) => {
+                              const interval = Number(e.target.value);
+                              setRecurrence(interval ? { interval, count: recurrence?.count || 4 } : null);
+                            }}
+                            className="bg-[#171717] border border-[#262626] text-[#f9fafb] text-sm rounded px-2 py-1 focus:outline-none focus:ring-0"
+                          >
+                            <option value={0}>Does not repeat</option>
+                            <option value={1}>Every week</option>
+                            <option value={2}>Every 2 weeks</option>
+                          </select>
+                        </div>
+                        {recurrence && (
+                          <div className="flex justify-between items-center text-sm">
+                            <span className="text-[#9ca3af]">Sessions</span>
+                            <select
+                              value={recurrence.count}
+                              onChange={(e) => setRecurrence({ ...recurrence, count: Number(e.target.value) })}
+                              className="bg-[#171717] border border-[#262626] text-[#f9fafb] text-sm rounded px-2 py-1 focus:outline-none focus:ring-0"
+                            >
+                              {Array.from({ length: 11 }, (_, i) => i + 2).map((count) => (
+                                <option key={count} value={count}>{count}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </>
+                    )}
                     <div className="border-t border-[#262626] pt-3 mt-3">
                       <div className="flex justify-between">
                         <span className="text-sm font-medium text-[#f9fafb]">Total</span>
-                        <span className="text-lg font-semibold text-[#f9fafb]">₦{eventTypePrice.toLocaleString()}</span>
+                        <span className="text-lg font-semibold text-[#f9fafb]">
+                          {payWithCredit ? "1 prepaid session" : formatMoney(eventTypePrice * sessionCount, eventTypeCurrency)}
+                          {sessionCount > 1 && (
+                            <span className="block text-xs font-normal text-[#9ca3af] text-right">
+                              {sessionCount} × {formatMoney(eventTypePrice, eventTypeCurrency)}
+                            </span>
+                          )}
+                        </span>
                       </div>
                     </div>
                   </div>
+                  {!isReschedule && !recurrence && selectedEventTypeId && (
+                    <div className="mb-6">
+                      <SessionBundleOffer
+                        eventTypeId={selectedEventTypeId}
+                        sessionPrice={eventTypePrice}
+                        useCredit={useSessionCredit}
+                        onUseCreditChange={setUseSessionCredit}
+                      />
+                    </div>
+                  )}
                   <div className="flex flex-col sm:flex-row gap-3">
                     <Button
                       onClick={() => setStep(4)}
@@ -2372,7 +2588,7 @@ function BookACallPageContent() {
                     >
                       {isProcessingPayment 
                         ? (isReschedule ? "Processing..." : "Processing...") 
-                        : (isReschedule ? "Confirm Reschedule" : "Proceed to Payment")}
+                        : (isReschedule ? "Confirm Reschedule" : payWithCredit ? "Book with Prepaid Session" : "Proceed to Payment")}
                     </Button>
                   </div>
                 </div>
@@ -2492,12 +2708,15 @@ function BookACallPageContent() {
           isOpen={isPaymentModalOpen}
           onClose={() => {
             setIsPaymentModalOpen(false);
+            // A resumed checkout has no time picked on this page to go back to
+            if (!bookingForPayment.resumed) {
+              setStep(5);
+            }
             setBookingForPayment(null);
-            setStep(5);
           }}
           onSuccess={handlePaymentSuccess}
-          amount={eventTypePrice}
-          currency="NGN"
+          amount={bookingForPayment.amount ?? eventTypePrice}
+          currency={bookingForPayment.currency || "NGN"}
           description={bookingForPayment.description}
           requestType="CONSULTATION"
           requestId={prefillRequestId || undefined}
@@ -8,8 +8,9 @@ import { Button } from "@/components/ui/button";
 import { FileText, Eye, Download, ShoppingCart, Clock } from "lucide-react";
 import { PurchaseMealPlanModal } from "@/components/meal-plan/PurchaseMealPlanModal";
 import { useMealPlansStream } from "@/hooks/useMealPlansStream";
-import { MEAL_PLAN_PACKAGES } from "@/lib/constants/meal-plans";
 import { PaymentModal } from "@/components/user/payment-modal";
+import type { MealPlanPackage } from "@/lib/payments/meal-plan-packages";
+import { formatMoney } from "@/lib/utils/money";
 
 interface MealPlan {
   id: string;
@@ -23,14 +24,6 @@ interface MealPlan {
   mealPlanId?: string;
 }
 
-interface MealPlanPackage {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  currency: string;
-}
-
 interface SelectedPurchase {
   packageId: string;
   packageName: string;
@@ -38,6 +31,7 @@ interface SelectedPurchase {
   currency: string;
   dietitianId: string;
   dietitianName: string;
+  promoCode?: string;
 }
 
 export default function UserMealPlanPage() {
@@ -47,6 +41,7 @@ export default function UserMealPlanPage() {
   const [selectedPurchase, setSelectedPurchase] = useState<SelectedPurchase | null>(null);
   const [pendingPlans, setPendingPlans] = useState<MealPlan[]>([]);
   const [sessionRequests, setSessionRequests] = useState<any[]>([]);
+  const [mealPlanPackages, setMealPlanPackages] = useState<MealPlanPackage[]>([]);
 
   // Use SSE for real-time meal plans (handles both USER and DIETITIAN roles)
   const { mealPlans, isConnected, error: mealPlansError } = useMealPlansStream();
@@ -99,6 +94,7 @@ export default function UserMealPlanPage() {
                     dietitianId: purchase.dietitianId,
                     requestType: "MEAL_PLAN" as const,
                     mealPlanType: purchase.packageName,
+                    packageId: purchase.packageId,
                     notes: `Meal Plan Purchase: ${purchase.packageName}`,
                     paymentData: { reference },
                     price: purchase.price,
@@ -135,6 +131,14 @@ export default function UserMealPlanPage() {
     handlePaymentCallback();
   }, []);
 
+  // Fetch the packages on sale
+  useEffect(() => {
+    fetch("/api/meal-plan-packages", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setMealPlanPackages(data?.packages || []))
+      .catch((error) => console.error("Error fetching meal plan packages:", error));
+  }, []);
+
   // Fetch pending meal plans from session requests
   useEffect(() => {
     const fetchSessionRequests = async () => {
@@ -201,7 +205,7 @@ export default function UserMealPlanPage() {
   });
 
   // Step 1: User clicks Purchase - opens dietitian selection modal
-  const handlePurchaseClick = (pkg: typeof MEAL_PLAN_PACKAGES[0]) => {
+  const handlePurchaseClick = (pkg: MealPlanPackage) => {
     setSelectedPackage({
       id: pkg.id,
       name: pkg.name,
@@ -212,7 +216,7 @@ export default function UserMealPlanPage() {
   };
 
   // Step 2: User selects dietitian and clicks "Go to Checkout" - opens payment modal
-  const handleCheckout = (data: { dietitianId: string; dietitianName: string; packageName: string; packageId: string; price: number }) => {
+  const handleCheckout = (data: { dietitianId: string; dietitianName: string; packageName: string; packageId: string; price: number; promoCode?: string }) => {
     const purchase = {
       packageId: data.packageId,
       packageName: data.packageName,
@@ -220,6 +224,7 @@ export default function UserMealPlanPage() {
       currency: selectedPackage?.currency || "NGN",
       dietitianId: data.dietitianId,
       dietitianName: data.dietitianName,
+      promoCode: data.promoCode,
     };
     
     setSelectedPurchase(purchase);
@@ -257,6 +262,7 @@ export default function UserMealPlanPage() {
           dietitianId: selectedPurchase.dietitianId,
           requestType: "MEAL_PLAN" as const,
           mealPlanType: selectedPurchase.packageName,
+          packageId: selectedPurchase.packageId,
           notes: `Meal Plan Purchase: ${selectedPurchase.packageName}`,
           paymentData,
           price: selectedPurchase.price,
@@ -369,7 +375,7 @@ export default function UserMealPlanPage() {
           <div className="mb-8">
             <h2 className="text-sm font-semibold text-[#f9fafb] mb-4">Available Assessment Tests</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {MEAL_PLAN_PACKAGES.map((pkg) => (
+              {mealPlanPackages.map((pkg) => (
                 <div
                   key={pkg.id}
                   className="border border-[#262626] rounded-lg px-6 py-4 bg-transparent hover:bg-[#171717] transition-colors"
@@ -386,7 +392,7 @@ export default function UserMealPlanPage() {
                   </div>
                   <div className="flex items-center justify-between">
                     <div className="text-lg font-semibold text-[#f9fafb]">
-                      ₦{pkg.price.toLocaleString()}
+                      {formatMoney(pkg.price, pkg.currency)}
                     </div>
                     <Button
                       onClick={() => handlePurchaseClick(pkg)}
@@ -495,6 +501,9 @@ export default function UserMealPlanPage() {
           currency={selectedPurchase.currency}
           description={`Meal Plan: ${selectedPurchase.packageName} (from ${selectedPurchase.dietitianName})`}
           requestType="MEAL_PLAN"
+          dietitianId={selectedPurchase.dietitianId}
+          mealPlanPackageId={selectedPurchase.packageId}
+          promoCode={selectedPurchase.promoCode}
           userEmail=""
           userName=""
         />
@@ -9,6 +9,8 @@ import { BookingsList } from "@/components/bookings/BookingsList";
 import { SessionRequestCard } from "@/components/user/session-request-card";
 import { PaymentModal } from "@/components/user/payment-modal";
 import { PaymentSuccessModal } from "@/components/user/payment-success-modal";
+import { SessionCreditsList } from "@/components/user/session-credits-list";
+import { ReceiptsList } from "@/components/user/receipts-list";
 import { Button } from "@/components/ui/button";
 import { Mail } from "lucide-react";
 import Link from "next/link";
@@ -352,6 +354,8 @@ export default function UserDashboardPage() {
             </div>
           </div>
 
+          <SessionCreditsList />
+
           {/* Requested Sessions & Assessment Tests Section */}
           <div className="mb-8">
             <h2 className="text-[15px] font-semibold text-[#f9fafb] mb-1">
@@ -401,6 +405,8 @@ export default function UserDashboardPage() {
 
           {/* Bookings List */}
           <BookingsList bookings={upcomingBookings.slice(0, 5)} type="upcoming" />
+
+          <ReceiptsList />
         </div>
       </main>
 
@@ -424,6 +430,7 @@ export default function UserDashboardPage() {
           }
           requestType={selectedRequest.requestType as "CONSULTATION" | "MEAL_PLAN"}
           requestId={selectedRequest.id}
+          dietitianId={selectedRequest.dietitian.id}
           userEmail={selectedRequest.clientEmail}
           userName={selectedRequest.clientName}
         />
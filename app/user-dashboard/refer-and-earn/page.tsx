@@ -1,10 +1,58 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
 import { UserDashboardSidebar } from "@/components/layout/user-dashboard-sidebar";
 import { Button } from "@/components/ui/button";
-import { Gift, Share2 } from "lucide-react";
+import { Check, Gift, Share2, Wallet as WalletIcon } from "lucide-react";
+import type { Referral } from "@/lib/payments/referrals";
+import type { Wallet } from "@/lib/payments/wallet";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
+
+interface ReferralsResponse {
+  link: string;
+  rewardAmount: number;
+  referrals: Referral[];
+  wallet: Wallet;
+}
 
 export default function ReferAndEarnPage() {
+  const [data, setData] = useState<ReferralsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchReferrals = async () => {
+      try {
+        const response = await fetch("/api/user/referrals", { credentials: "include" });
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load your referral link");
+        }
+        setData(result);
+      } catch (err) {
+        console.error("Failed to load referrals:", err);
+        setError(err instanceof Error ? err.message : "Failed to load your referral link");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReferrals();
+  }, []);
+
+  const handleCopy = async () => {
+    if (!data?.link) return;
+    try {
+      await navigator.clipboard.writeText(data.link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy referral link:", err);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#0a0a0a] flex flex-col lg:flex-row">
       <UserDashboardSidebar />
@@ -18,33 +66,102 @@ export default function ReferAndEarnPage() {
             </p>
           </div>
 
-          {/* Referral Content */}
-          <div className="border border-[#262626] rounded-lg p-8 max-w-2xl">
-            <Gift className="h-12 w-12 text-[#9ca3af] mb-4" />
-            <h2 className="text-lg font-semibold text-[#f9fafb] mb-2">Invite Friends</h2>
-            <p className="text-sm text-[#9ca3af] mb-6">
-              Share your unique referral link with friends and earn rewards when they sign up.
-            </p>
-            <div className="space-y-4">
+          {error && (
+            <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/30 rounded-md p-3 mb-6 max-w-2xl">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-6 max-w-2xl">
+            {/* Referral Content */}
+            <div className="border border-[#262626] rounded-lg p-8">
+              <Gift className="h-12 w-12 text-[#9ca3af] mb-4" />
+              <h2 className="text-lg font-semibold text-[#f9fafb] mb-2">Invite Friends</h2>
+              <p className="text-sm text-[#9ca3af] mb-6">
+                Share your unique referral link with friends. When a friend signs up through it and pays for
+                their first session, you get {data ? formatMoney(data.rewardAmount, BASE_CURRENCY) : "a reward"} in your wallet
+                to spend on your own sessions and meal plans.
+              </p>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-[#D4D4D4] mb-2">
+                    Your Referral Link
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={loading ? "Loading..." : data?.link || ""}
+                      className="flex-1 bg-[#0a0a0a] border border-[#262626] text-[#f9fafb] rounded px-3 py-2 text-sm"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleCopy}
+                      disabled={!data?.link}
+                      className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717] px-4 py-2"
+                    >
+                      {copied ? <Check className="h-4 w-4 mr-2" /> : <Share2 className="h-4 w-4 mr-2" />}
+                      {copied ? "Copied" : "Copy"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Wallet */}
+            <div className="border border-[#262626] rounded-lg p-6 flex items-center gap-4">
+              <div className="flex items-center justify-center w-10 h-10 rounded-full bg-[#262626] flex-shrink-0">
+                <WalletIcon className="h-5 w-5 text-[#f9fafb]" />
+              </div>
               <div>
-                <label className="block text-sm font-medium text-[#D4D4D4] mb-2">
-                  Your Referral Link
-                </label>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    readOnly
-                    value="https://daiyet.com/ref/abc123"
-                    className="flex-1 bg-[#0a0a0a] border border-[#262626] text-[#f9fafb] rounded px-3 py-2 text-sm"
-                  />
-                  <Button
-                    variant="outline"
-                    className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717] px-4 py-2"
-                  >
-                    <Share2 className="h-4 w-4 mr-2" />
-                    Copy
-                  </Button>
+                <div className="text-[13px] text-[#9ca3af]">Wallet balance</div>
+                <div className="text-lg font-semibold text-[#f9fafb]">
+                  {formatMoney(data?.wallet.balance || 0, data?.wallet.currency)}
                 </div>
+                <div className="text-xs text-[#9ca3af]">You can use it at checkout.</div>
+              </div>
+            </div>
+
+            {/* Referral History */}
+            <div>
+              <h2 className="text-[15px] font-semibold text-[#f9fafb] mb-3">Your referrals</h2>
+              <div className="border border-[#262626] rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-[#171717] text-[#9ca3af] text-xs">
+                    <tr>
+                      <th className="text-left font-medium px-4 py-3">Friend</th>
+                      <th className="text-left font-medium px-4 py-3">Joined</th>
+                      <th className="text-left font-medium px-4 py-3">Status</th>
+                      <th className="text-right font-medium px-4 py-3">Reward</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {!data?.referrals.length ? (
+                      <tr>
+                        <td colSpan={4} className="px-4 py-6 text-center text-[#9ca3af]">
+                          {loading ? "Loading..." : "No referrals yet."}
+                        </td>
+                      </tr>
+                    ) : (
+                      data.referrals.map((referral) => (
+                        <tr key={referral.id} className="border-t border-[#262626] text-[#f9fafb]">
+                          <td className="px-4 py-3">{referral.referredName || "A friend"}</td>
+                          <td className="px-4 py-3 text-[#9ca3af]">{dayjs(referral.createdAt).format("MMM D, YYYY")}</td>
+                          <td className="px-4 py-3">
+                            {referral.status === "REWARDED" ? (
+                              <span className="text-emerald-400">Rewarded</span>
+                            ) : (
+                              <span className="text-[#9ca3af]">Awaiting first booking</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {referral.rewardAmount !== null ? formatMoney(referral.rewardAmount, referral.currency) : "—"}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
               </div>
             </div>
           </div>
@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { PractitionerVerification } from "@/lib/practitioners/verification";
+import { uploadCredentialDocuments } from "@/lib/practitioners/credential-uploads";
+
+export default function VerificationPendingPage() {
+  const [verification, setVerification] = useState<PractitionerVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [notes, setNotes] = useState("");
+  const [uploading, setUploading] = useState(false);
+
+  const loadVerification = useCallback(async () => {
+    try {
+      const response = await fetch("/api/practitioners/verification", { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load your verification");
+      }
+      setVerification(data.verification);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load verification:", err);
+      setError(err instanceof Error ? err.message : "Failed to load your verification");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVerification();
+  }, [loadVerification]);
+
+  const handleUpload = async () => {
+    if (files.length === 0) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const documents = await uploadCredentialDocuments(files);
+      const response = await fetch("/api/practitioners/verification", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documents, notes }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload documents");
+      }
+      setVerification(data.verification);
+      setFiles([]);
+      setNotes("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload documents");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const dashboardPath = verification?.role === "THERAPIST" ? "/therapist-dashboard" : "/dashboard";
+  // Enrolled without the documents reaching us, or asked for more
+  const canUpload =
+    verification?.status === "MORE_INFO_REQUESTED" ||
+    (!verification?.status && verification?.accountStatus === "PENDING_VERIFICATION");
+
+  return (
+    <div className="min-h-screen bg-[#0b0b0b] text-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Account verification</h1>
+          <p className="text-white/60">
+            We check every practitioner&apos;s credentials before their profile is shown to clients.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="text-white/60">Loading...</div>
+        ) : verification ? (
+          <div className="rounded-lg border border-[#1f1f1f] bg-[#111] p-6 space-y-4 text-sm text-white/80">
+            {verification.accountStatus === "ACTIVE" ? (
+              <>
+                <p>Your credentials have been approved.</p>
+                <Button asChild className="bg-white text-black hover:bg-white/90">
+                  <a href={dashboardPath}>Go to your dashboard</a>
+                </Button>
+              </>
+            ) : verification.status === "MORE_INFO_REQUESTED" ? (
+              <p>We need more information before we can approve your account. Please upload the documents requested below.</p>
+            ) : verification.status === "PENDING" ? (
+              <p>
+                Your credentials are being reviewed
+                {verification.submittedAt ? ` (sent ${dayjs(verification.submittedAt).format("MMM D, YYYY")})` : ""}. We&apos;ll
+                email you as soon as we&apos;re done.
+              </p>
+            ) : verification.status === "REJECTED" ? (
+              <p>We weren&apos;t able to approve your account.</p>
+            ) : canUpload ? (
+              <p>We didn&apos;t receive your credential documents. Please upload them to start your review.</p>
+            ) : (
+              <p>Your account isn&apos;t active.</p>
+            )}
+
+            {verification.reviewNotes && verification.accountStatus !== "ACTIVE" && (
+              <div className="rounded-lg border border-[#1f1f1f] bg-[#0c0c0c] p-4 whitespace-pre-line">
+                <div className="text-white/60 mb-1">Notes from our team</div>
+                {verification.reviewNotes}
+              </div>
+            )}
+
+            {verification.documents.length > 0 && (
+              <div>
+                <div className="text-white/60 mb-1">Documents sent</div>
+                <ul className="space-y-1">
+                  {verification.documents.map((document) => (
+                    <li key={document.id}>
+                      {document.fileName}
+                      <span className="text-white/40"> · {dayjs(document.uploadedAt).format("MMM D, YYYY")}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {canUpload && (
+              <div className="space-y-3">
+                <input
+                  type="file"
+                  multiple
+                  accept="application/pdf,image/jpeg,image/png"
+                  onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                  className="block w-full text-sm text-white/80"
+                />
+                <p className="text-xs text-white/40">PDF, JPEG or PNG, up to 5MB each.</p>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Anything our team should know (optional)"
+                  className="bg-[#0c0c0c] border-[#1f1f1f] text-white"
+                  rows={3}
+                />
+                <Button
+                  onClick={handleUpload}
+                  disabled={uploading || files.length === 0}
+                  className="bg-white text-black hover:bg-white/90"
+                >
+                  {uploading ? "Uploading..." : "Send documents"}
+                </Button>
+              </div>
+            )}
+
+            {(verification.status === "REJECTED" || verification.accountStatus === "SUSPENDED") && (
+              <p className="text-white/60">
+                Questions? Contact us at{" "}
+                <a href="mailto:support@daiyet.com" className="underline">
+                  support@daiyet.com
+                </a>
+                .
+              </p>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
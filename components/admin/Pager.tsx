@@ -0,0 +1,41 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+
+interface PagerProps {
+  page: number;
+  totalPages: number;
+  total: number;
+  disabled?: boolean;
+  onPageChange: (page: number) => void;
+}
+
+export function Pager({ page, totalPages, total, disabled, onPageChange }: PagerProps) {
+  return (
+    <div className="flex items-center justify-between gap-3 pt-3 text-sm text-white/60">
+      <span>
+        Page {page} of {totalPages} · {total} total
+      </span>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          disabled={disabled || page <= 1}
+          onClick={() => onPageChange(page - 1)}
+        >
+          Previous
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          disabled={disabled || page >= totalPages}
+          onClick={() => onPageChange(page + 1)}
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
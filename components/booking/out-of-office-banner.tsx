@@ -0,0 +1,82 @@
+"use client";
+
+import dayjs from "dayjs";
+import { CalendarOff, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { OutOfOfficeNotice } from "@/lib/availability/out-of-office";
+
+interface OutOfOfficeBannerProps {
+  notices: OutOfOfficeNotice[];
+  practitionerName: string;
+  // Only notices overlapping this month are shown
+  month: dayjs.Dayjs;
+  // Called when the client chooses to book with the colleague covering for the practitioner
+  onBookColleague?: (notice: OutOfOfficeNotice) => void;
+  className?: string;
+}
+
+function formatRange(startDate: string, endDate: string): string {
+  const start = dayjs(startDate);
+  const end = dayjs(endDate);
+  if (start.isSame(end, "day")) {
+    return start.format("MMM D, YYYY");
+  }
+  return `${start.format("MMM D")} - ${end.format("MMM D, YYYY")}`;
+}
+
+export function OutOfOfficeBanner({
+  notices,
+  practitionerName,
+  month,
+  onBookColleague,
+  className,
+}: OutOfOfficeBannerProps) {
+  const monthStart = month.startOf("month").format("YYYY-MM-DD");
+  const monthEnd = month.endOf("month").format("YYYY-MM-DD");
+  const visibleNotices = notices.filter(
+    (notice) => notice.startDate <= monthEnd && notice.endDate >= monthStart
+  );
+
+  if (visibleNotices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {visibleNotices.map((notice) => (
+        <div key={notice.id} className="border border-[#262626] rounded-lg p-4 bg-[#171717]">
+          <div className="flex items-start gap-3">
+            <CalendarOff className="h-5 w-5 text-[#9ca3af] shrink-0 mt-0.5" />
+            <div className="flex-1 space-y-1">
+              <p className="text-sm text-[#f9fafb]">
+                {practitionerName} is out of office {formatRange(notice.startDate, notice.endDate)}
+              </p>
+              {notice.reason && notice.reason !== "Unspecified" && (
+                <p className="text-xs text-[#9ca3af]">{notice.reason}</p>
+              )}
+              {notice.forwardTo && onBookColleague ? (
+                <Button
+                  onClick={() => onBookColleague(notice)}
+                  className="mt-2 bg-white hover:bg-gray-100 text-black text-xs px-3 py-1.5 h-auto"
+                >
+                  Book with {notice.forwardTo.name} instead
+                </Button>
+              ) : notice.forwardUrl ? (
+                <a
+                  href={notice.forwardUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 mt-2 text-xs text-[#f9fafb] underline"
+                >
+                  See who is covering
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
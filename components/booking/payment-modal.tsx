@@ -4,11 +4,13 @@ import { useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
 
 interface PaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
   amount: number;
+  currency?: string;
   email: string;
   onSuccess: (reference: string) => void;
   onError?: (error: Error) => void;
@@ -37,6 +39,7 @@ export function PaymentModal({
   isOpen,
   onClose,
   amount,
+  currency = BASE_CURRENCY,
   email,
   onSuccess,
   onError,
@@ -66,8 +69,8 @@ export function PaymentModal({
     const handler = window.PaystackPop.setup({
       key: publicKey,
       email,
-      amount: amount * 100, // Paystack expects amount in kobo
-      currency: "NGN",
+      amount: amount * 100, // Paystack expects the amount in the currency's subunit
+      currency,
       ref: reference,
       onClose: () => {
         onClose();
@@ -100,7 +103,7 @@ export function PaymentModal({
           <div className="flex justify-between items-center p-4 bg-[#f9fafb] rounded-md">
             <span className="text-sm text-[#6b7280]">Total Amount</span>
             <span className="text-2xl font-semibold">
-              ₦{amount.toLocaleString()}
+              {formatMoney(amount, currency)}
             </span>
           </div>
           <Button onClick={handlePayment} className="w-full">
@@ -42,6 +42,8 @@ export function TimeSlotPicker({
   eventTypeId,
 }: TimeSlotPickerProps) {
   const [realAvailableSlots, setRealAvailableSlots] = useState<string[]>([]);
+  // Seats left per start time; only group sessions report seats
+  const [seatsRemaining, setSeatsRemaining] = useState<Record<string, number>>({});
   const [loadingSlots, setLoadingSlots] = useState(false);
 
   // Fetch real availability if dietitianId is provided
@@ -103,6 +105,14 @@ export function TimeSlotPicker({
             });
             
             setRealAvailableSlots(formattedSlots);
+            setSeatsRemaining(
+              (data.slots || []).reduce((acc: Record<string, number>, slot: { start: string; seatsRemaining?: number }) => {
+                if (slot.seatsRemaining !== undefined && dayjs(slot.start).isSame(dayjs(date), "day")) {
+                  acc[dayjs(slot.start).format("HH:mm")] = slot.seatsRemaining;
+                }
+                return acc;
+              }, {})
+            );
           } else {
             const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
             console.error('❌ [DEBUG] TimeSlotPicker API error:', {
@@ -155,11 +165,17 @@ export function TimeSlotPicker({
                 disabled={isPast || loadingSlots}
               className={cn(
                 "h-14 sm:h-12",
+                  seatsRemaining[time] !== undefined && "flex-col gap-0",
                   isPast && "opacity-50 cursor-not-allowed",
                   loadingSlots && "opacity-50"
               )}
             >
                 {dayjs(`2000-01-01 ${time}`).format("h:mm A")}
+                {seatsRemaining[time] !== undefined && (
+                  <span className="text-xs opacity-70">
+                    {seatsRemaining[time]} {seatsRemaining[time] === 1 ? "seat" : "seats"} left
+                  </span>
+                )}
             </Button>
           );
           })
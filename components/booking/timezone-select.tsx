@@ -0,0 +1,37 @@
+"use client";
+
+import { ChevronDown, Globe } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { COMMON_TIMEZONES, TimezoneHelper } from "@/lib/utils/timezone";
+
+interface TimezoneSelectProps {
+  value: string;
+  onChange: (timezone: string) => void;
+  className?: string;
+}
+
+export function TimezoneSelect({ value, onChange, className }: TimezoneSelectProps) {
+  // Keep a detected or saved timezone selectable even if it isn't in the common list
+  const options = COMMON_TIMEZONES.some((tz) => tz.value === value)
+    ? COMMON_TIMEZONES
+    : [{ value, label: value.replace(/_/g, " ") }, ...COMMON_TIMEZONES];
+
+  return (
+    <div className={cn("relative flex items-center gap-2", className)}>
+      <Globe className="h-4 w-4 text-[#9ca3af] shrink-0" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label="Timezone"
+        className="w-full bg-transparent border border-[#262626] rounded px-3 py-2 pr-8 text-sm text-[#f9fafb] focus:outline-none focus:ring-0 appearance-none cursor-pointer"
+      >
+        {options.map((tz) => (
+          <option key={tz.value} value={tz.value} className="bg-[#171717] text-[#f9fafb]">
+            {tz.label} ({TimezoneHelper.getAbbreviation(tz.value)})
+          </option>
+        ))}
+      </select>
+      <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#9ca3af] pointer-events-none" />
+    </div>
+  );
+}
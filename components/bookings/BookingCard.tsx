@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { 
   MoreVertical, 
   Video, 
@@ -13,11 +14,14 @@ import {
   ClipboardCheck, 
   Flag, 
   XCircle,
-  FileText
+  FileText,
+  Repeat,
+  SkipForward
 } from "lucide-react";
 import dayjs from "dayjs";
 import { Button } from "@/components/ui/button";
 import { RequestRescheduleModal } from "./RequestRescheduleModal";
+import { CancelBookingModal } from "./CancelBookingModal";
 
 interface BookingCardProps {
   id: string;
@@ -30,11 +34,18 @@ interface BookingCardProps {
   participants: string[];
   meetingLink?: string;
   eventTypeSlug?: string | null;
+  series?: {
+    id: string;
+    description: string;
+    remaining: number;
+    total: number;
+  } | null;
   sessionNote?: {
     id: string;
     status: "PENDING" | "COMPLETED";
   } | null;
   onFillNotes?: (bookingId: string, noteId?: string) => void;
+  onCancelled?: (bookingId: string) => void;
 }
 
 export function BookingCard({
@@ -48,13 +59,52 @@ export function BookingCard({
   participants,
   meetingLink,
   eventTypeSlug,
+  series,
   sessionNote,
   onFillNotes,
+  onCancelled,
 }: BookingCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isRescheduleModalOpen, setIsRescheduleModalOpen] = useState(false);
+  const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+  const [isCancelSeriesModalOpen, setIsCancelSeriesModalOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const router = useRouter();
+
+  const handleSkip = async () => {
+    const response = await fetch(`/api/bookings/${id}/skip`, {
+      method: "POST",
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      alert(errorData.error || "Failed to skip session");
+      return;
+    }
+
+    router.refresh();
+  };
+
+  const handleMarkNoShow = async () => {
+    if (!confirm("Mark this session as a no-show? This records that the client didn't attend.")) {
+      return;
+    }
+
+    const response = await fetch(`/api/bookings/${id}/no-show`, {
+      method: "POST",
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      alert(errorData.error || "Failed to mark no-show");
+      return;
+    }
+
+    router.refresh();
+  };
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -73,6 +123,7 @@ export function BookingCard({
     };
   }, [isMenuOpen]);
 
+  const hasStarted = dayjs(startTime).isBefore(dayjs());
   const formattedDate = dayjs(date).format("ddd, D MMM");
   const formattedStartTime = dayjs(startTime).format("h:mma").toLowerCase();
   const formattedEndTime = dayjs(endTime).format("h:mma").toLowerCase();
@@ -123,6 +174,12 @@ export function BookingCard({
             <div className="text-sm text-[#A2A2A2] mb-2">
               {formattedStartTime} - {formattedEndTime}
             </div>
+            {series && (
+              <div className="flex items-center gap-1.5 text-xs text-[#9ca3af] mb-2">
+                <Repeat className="h-3 w-3" />
+                {series.description} · {series.remaining} of {series.total} remaining
+              </div>
+            )}
             {meetingLink ? (
               <Button
                 variant="outline"
@@ -202,6 +259,19 @@ export function BookingCard({
                   <Send className="h-4 w-4" />
                   Request reschedule
                 </button>
+                {series && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsMenuOpen(false);
+                      handleSkip();
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-sm text-[#f9fafb] hover:bg-[#262626] rounded transition-colors"
+                  >
+                    <SkipForward className="h-4 w-4" />
+                    Skip this session
+                  </button>
+                )}
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -281,11 +351,14 @@ export function BookingCard({
                   onClick={(e) => {
                     e.stopPropagation();
                     setIsMenuOpen(false);
-                    // TODO: Implement mark as no-show
-                    console.log("Mark as no-show:", id);
+                    handleMarkNoShow();
                   }}
-                  disabled
-                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-[#9ca3af] opacity-50 cursor-not-allowed rounded transition-colors"
+                  disabled={!hasStarted}
+                  className={
+                    hasStarted
+                      ? "w-full flex items-center gap-3 px-3 py-2 text-sm text-[#f9fafb] hover:bg-[#262626] rounded transition-colors"
+                      : "w-full flex items-center gap-3 px-3 py-2 text-sm text-[#9ca3af] opacity-50 cursor-not-allowed rounded transition-colors"
+                  }
                 >
                   <ClipboardCheck className="h-4 w-4" />
                   Mark as no-show
@@ -314,15 +387,26 @@ export function BookingCard({
                   onClick={(e) => {
                     e.stopPropagation();
                     setIsMenuOpen(false);
-                    // TODO: Implement cancel event
-                    console.log("Cancel event:", id);
+                    setIsCancelModalOpen(true);
                   }}
-                  disabled
-                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-red-400/50 opacity-50 cursor-not-allowed rounded transition-colors"
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-red-400 hover:bg-[#262626] rounded transition-colors"
                 >
                   <XCircle className="h-4 w-4" />
                   Cancel event
                 </button>
+                {series && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsMenuOpen(false);
+                      setIsCancelSeriesModalOpen(true);
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-sm text-red-400 hover:bg-[#262626] rounded transition-colors"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Cancel all remaining sessions
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -340,6 +424,54 @@ export function BookingCard({
         }}
         bookingTitle={title}
       />
+
+      {/* Cancel Booking Modal */}
+      <CancelBookingModal
+        isOpen={isCancelModalOpen}
+        onClose={() => setIsCancelModalOpen(false)}
+        onConfirm={async (reason) => {
+          const response = await fetch(`/api/bookings/${id}`, {
+            method: "DELETE",
+            credentials: "include",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ reason }),
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error || "Failed to cancel booking");
+          }
+
+          setIsCancelModalOpen(false);
+          onCancelled?.(id);
+        }}
+        bookingTitle={title}
+      />
+
+      {/* Cancel Series Modal */}
+      {series && (
+        <CancelBookingModal
+          isOpen={isCancelSeriesModalOpen}
+          onClose={() => setIsCancelSeriesModalOpen(false)}
+          onConfirm={async (reason) => {
+            const response = await fetch(`/api/bookings/series/${series.id}`, {
+              method: "DELETE",
+              credentials: "include",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ reason }),
+            });
+
+            if (!response.ok) {
+              const errorData = await response.json().catch(() => ({}));
+              throw new Error(errorData.error || "Failed to cancel series");
+            }
+
+            setIsCancelSeriesModalOpen(false);
+            router.refresh();
+          }}
+          bookingTitle={`${title} (${series.remaining} remaining sessions)`}
+        />
+      )}
     </div>
   );
 }
@@ -12,6 +12,12 @@ interface Booking {
   participants: string[];
   meetingLink?: string;
   eventTypeSlug?: string | null;
+  series?: {
+    id: string;
+    description: string;
+    remaining: number;
+    total: number;
+  } | null;
   sessionNote?: {
     id: string;
     status: "PENDING" | "COMPLETED";
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { XCircle, X } from "lucide-react";
+
+interface CancelBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason?: string) => Promise<void>;
+  bookingTitle?: string;
+}
+
+export function CancelBookingModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  bookingTitle,
+}: CancelBookingModalProps) {
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(reason.trim() || undefined);
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel booking");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (submitting) return;
+    setReason("");
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={handleClose}>
+      <div
+        className="bg-[#171717] border border-[#262626] rounded-lg w-full max-w-md shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start gap-4 p-6 border-b border-[#262626]">
+          <div className="flex items-center justify-center w-10 h-10 rounded-full bg-red-500/10 flex-shrink-0">
+            <XCircle className="h-5 w-5 text-red-400" />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-lg font-semibold text-[#f9fafb] mb-1">
+              Cancel event
+            </h2>
+            <p className="text-sm text-[#9ca3af]">
+              {bookingTitle ? `"${bookingTitle}" will be cancelled` : "This booking will be cancelled"} and both parties will be notified. Any payment is refunded according to the event type&apos;s cancellation policy.
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-[#9ca3af] hover:text-[#f9fafb] transition-colors flex-shrink-0"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <div>
+            <label className="block text-sm font-medium text-[#D4D4D4] mb-2">
+              Reason for cancellation (Optional)
+            </label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Add a reason..."
+              rows={4}
+              className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] placeholder:text-[#9ca3af] focus:outline-none focus:ring-2 focus:ring-[#404040] focus:border-[#404040] resize-none"
+            />
+          </div>
+          {error && (
+            <p className="mt-3 text-sm text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-[#262626]">
+          <Button
+            variant="outline"
+            onClick={handleClose}
+            disabled={submitting}
+            className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#262626] px-4 py-2"
+          >
+            Keep booking
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 disabled:opacity-50"
+          >
+            {submitting ? "Cancelling..." : "Cancel event"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
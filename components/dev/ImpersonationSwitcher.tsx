@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, UserCog } from "lucide-react";
+import type { FixtureUser } from "@/lib/auth/impersonation";
+import type { UserRole } from "@/lib/auth/types";
+
+interface ImpersonationSwitcherProps {
+  users: FixtureUser[];
+}
+
+/**
+ * Floating panel for signing in as a fixture user of any role. Only rendered when local
+ * impersonation is enabled.
+ */
+export function ImpersonationSwitcher({ users }: ImpersonationSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [switching, setSwitching] = useState<UserRole | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchTo = async (role: UserRole) => {
+    setSwitching(role);
+    setError(null);
+    try {
+      const response = await fetch("/api/dev/impersonate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ role }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to switch user");
+      }
+      // Full reload so the auth context picks up the new session
+      window.location.href = data.redirectTo;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to switch user");
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] text-sm text-white">
+      {open && (
+        <div className="mb-2 w-64 rounded-lg border border-amber-500/40 bg-[#171717] p-3 shadow-lg">
+          <div className="mb-2 text-[11px] uppercase tracking-widest text-amber-400">
+            Dev impersonation
+          </div>
+          <div className="space-y-1">
+            {users.map((user) => (
+              <button
+                key={user.role}
+                type="button"
+                disabled={switching !== null}
+                onClick={() => switchTo(user.role)}
+                className="flex w-full items-center justify-between rounded-md px-2 py-1.5 text-left hover:bg-white/10 disabled:opacity-50"
+              >
+                <span>
+                  <span className="block">{user.name}</span>
+                  <span className="block text-xs text-white/50">{user.email}</span>
+                </span>
+                {switching === user.role && <Loader2 className="h-4 w-4 animate-spin" />}
+              </button>
+            ))}
+          </div>
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex h-10 w-10 items-center justify-center rounded-full border border-amber-500/40 bg-[#171717] text-amber-400 shadow-lg hover:bg-[#262626]"
+        aria-label="Switch dev user"
+      >
+        <UserCog className="h-5 w-5" />
+      </button>
+    </div>
+  );
+}
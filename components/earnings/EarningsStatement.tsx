@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Loader2 } from "lucide-react";
+import type { EarningsStatement as Statement } from "@/lib/payments/ledger";
+import type { PayoutBatch } from "@/lib/payments/payouts";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
+
+type EarningsResponse = Statement & { payouts: PayoutBatch[] };
+
+const formatCurrency = (n: number, currency: string = BASE_CURRENCY) => formatMoney(n, currency);
+
+/**
+ * The signed-in practitioner's gross, commission and net earnings per month, with their payouts
+ */
+export function EarningsStatement() {
+  const [earnings, setEarnings] = useState<EarningsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/earnings", { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load earnings");
+        }
+        setEarnings(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load earnings:", err);
+        setError(err instanceof Error ? err.message : "Failed to load earnings");
+      });
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (!earnings) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-[#9ca3af]">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading earnings...
+      </div>
+    );
+  }
+
+  const { totals } = earnings;
+  const awaitingPayout = Math.max(totals.net - totals.paidOut, 0);
+
+  return (
+    <div className="space-y-6">
+      {earnings.unconvertedCurrencies.length > 0 && (
+        <p className="text-xs text-[#9ca3af]">
+          Amounts are in NGN. Payments in {earnings.unconvertedCurrencies.join(", ")} will be added once an exchange rate
+          is set.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {[
+          { label: "Gross", value: totals.gross - totals.refunded },
+          { label: `Commission (${earnings.commissionPercent}%)`, value: totals.commission },
+          { label: "Net earnings", value: totals.net },
+          { label: "Awaiting payout", value: awaitingPayout },
+        ].map((card) => (
+          <div key={card.label} className="border border-[#262626] rounded-lg p-4 bg-[#171717]">
+            <p className="text-xs text-[#9ca3af] mb-1">{card.label}</p>
+            <p className="text-lg font-semibold text-[#f9fafb]">{formatCurrency(card.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-[#262626] rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-[#171717] text-[#9ca3af] text-xs">
+            <tr>
+              <th className="text-left font-medium px-4 py-3">Period</th>
+              <th className="text-right font-medium px-4 py-3">Payments</th>
+              <th className="text-right font-medium px-4 py-3">Gross</th>
+              <th className="text-right font-medium px-4 py-3">Refunded</th>
+              <th className="text-right font-medium px-4 py-3">Commission</th>
+              <th className="text-right font-medium px-4 py-3">Net</th>
+              <th className="text-right font-medium px-4 py-3">Paid out</th>
+            </tr>
+          </thead>
+          <tbody>
+            {earnings.periods.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-[#9ca3af]">
+                  No earnings yet. Payments for your sessions and meal plans will appear here.
+                </td>
+              </tr>
+            ) : (
+              earnings.periods.map((period) => (
+                <tr key={period.period} className="border-t border-[#262626] text-[#f9fafb]">
+                  <td className="px-4 py-3">{dayjs(`${period.period}-01`).format("MMMM YYYY")}</td>
+                  <td className="px-4 py-3 text-right">{period.entryCount}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(period.gross)}</td>
+                  <td className="px-4 py-3 text-right text-[#9ca3af]">{formatCurrency(period.refunded)}</td>
+                  <td className="px-4 py-3 text-right text-[#9ca3af]">{formatCurrency(period.commission)}</td>
+                  <td className="px-4 py-3 text-right font-medium">{formatCurrency(period.net)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(period.paidOut)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {earnings.payouts.length > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold text-[#f9fafb] mb-3">Payouts</h2>
+          <div className="space-y-2">
+            {earnings.payouts.map((payout) => (
+              <div
+                key={payout.id}
+                className="flex items-center justify-between border border-[#262626] rounded-lg px-4 py-3 text-sm"
+              >
+                <div>
+                  <p className="text-[#f9fafb]">{formatCurrency(payout.totalNet, payout.currency)}</p>
+                  <p className="text-xs text-[#9ca3af]">
+                    {payout.entryCount} payments
+                    {payout.reference ? ` · Ref: ${payout.reference}` : ""}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 rounded text-xs ${
+                    payout.status === "PAID" ? "bg-green-500/20 text-green-400" : "bg-yellow-500/20 text-yellow-400"
+                  }`}
+                >
+                  {payout.status === "PAID" && payout.paidAt
+                    ? `Paid ${dayjs(payout.paidAt).format("MMM D, YYYY")}`
+                    : "Processing"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
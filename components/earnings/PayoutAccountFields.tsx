@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PaystackBank } from "@/lib/paystack";
+
+export interface PayoutAccountValue {
+  bankCode: string;
+  accountNumber: string;
+  // Name Paystack resolved for the account; empty until it resolves
+  accountName: string;
+}
+
+interface PayoutAccountFieldsProps {
+  value: PayoutAccountValue;
+  onChange: (value: PayoutAccountValue) => void;
+}
+
+/**
+ * Bank and account number for practitioner payouts, with the account name looked up from Paystack
+ */
+export function PayoutAccountFields({ value, onChange }: PayoutAccountFieldsProps) {
+  const [banks, setBanks] = useState<PaystackBank[]>([]);
+  const [banksError, setBanksError] = useState<string | null>(null);
+  // Which bank/account pair the last lookup was for, and why it failed
+  const [lookup, setLookup] = useState<{ key: string; error: string | null } | null>(null);
+
+  const { bankCode, accountNumber, accountName } = value;
+  const lookupKey = `${bankCode}:${accountNumber}`;
+  const complete = Boolean(bankCode) && /^\d{10}$/.test(accountNumber);
+  const resolving = complete && !accountName && lookup?.key !== lookupKey;
+  const lookupError = complete && lookup?.key === lookupKey ? lookup.error : null;
+
+  useEffect(() => {
+    fetch("/api/paystack/banks")
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load banks");
+        }
+        setBanks(data.banks || []);
+      })
+      .catch((err) => {
+        console.error("Failed to load banks:", err);
+        setBanksError(err instanceof Error ? err.message : "Failed to load banks");
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!complete || accountName) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({ bankCode, accountNumber });
+    fetch(`/api/paystack/resolve-account?${params.toString()}`, { credentials: "include" })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) return;
+        if (!response.ok) {
+          setLookup({ key: `${bankCode}:${accountNumber}`, error: data.error || "Could not verify account" });
+          return;
+        }
+        setLookup({ key: `${bankCode}:${accountNumber}`, error: null });
+        onChange({ bankCode, accountNumber, accountName: data.account?.accountName || "" });
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLookup({ key: `${bankCode}:${accountNumber}`, error: "Could not verify account" });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [complete, bankCode, accountNumber, accountName, onChange]);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="text-white/80 text-sm">Payout bank</Label>
+        <select
+          value={bankCode}
+          onChange={(e) => onChange({ bankCode: e.target.value, accountNumber, accountName: "" })}
+          className="w-full rounded-md bg-[#0b0b0b] border border-[#1f1f1f] text-white px-3 py-3 min-h-[52px]"
+        >
+          <option value="">{banks.length === 0 && !banksError ? "Loading banks..." : "Select bank"}</option>
+          {banks.map((bank) => (
+            <option key={bank.code} value={bank.code}>
+              {bank.name}
+            </option>
+          ))}
+        </select>
+        {banksError && <div className="text-xs text-red-300">{banksError}</div>}
+      </div>
+      <div className="space-y-2">
+        <Label className="text-white/80 text-sm">Account number</Label>
+        <Input
+          value={accountNumber}
+          onChange={(e) =>
+            onChange({ bankCode, accountNumber: e.target.value.replace(/\D/g, "").slice(0, 10), accountName: "" })
+          }
+          inputMode="numeric"
+          className="bg-[#0b0b0b] border-[#1f1f1f] text-white min-h-[52px]"
+          placeholder="10-digit NUBAN"
+        />
+        <div className="text-xs min-h-[16px]">
+          {resolving && (
+            <span className="inline-flex items-center gap-1 text-white/60">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Verifying account...
+            </span>
+          )}
+          {accountName && <span className="text-emerald-300">{accountName}</span>}
+          {lookupError && <span className="text-red-300">{lookupError}</span>}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { X } from "lucide-react";
+import { SUPPORTED_CURRENCIES, getCurrencySymbol } from "@/lib/utils/money";
 
 interface CreateEventTypeModalProps {
   isOpen: boolean;
@@ -199,10 +200,11 @@ export function CreateEventTypeModal({
                   onChange={(e) => setCurrency(e.target.value)}
                   className="bg-[#0a0a0a] border border-r-0 border-[#262626] rounded-l-md px-3 text-sm text-[#f9fafb] focus:outline-none focus:ring-0"
                 >
-                  <option value="NGN">₦</option>
-                  <option value="USD">$</option>
-                  <option value="EUR">€</option>
-                  <option value="GBP">£</option>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {getCurrencySymbol(code)}
+                    </option>
+                  ))}
                 </select>
                 <Input
                   type="number"
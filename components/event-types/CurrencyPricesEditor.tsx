@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SUPPORTED_CURRENCIES, formatMoney, type CurrencyPrices } from "@/lib/utils/money";
+
+interface CurrencyPricesEditorProps {
+  eventTypeId: string;
+  price: number;
+  currency: string;
+  prices: CurrencyPrices | null | undefined;
+  // Called with the updated event type once the prices are saved
+  onSaved: (eventType: { prices: CurrencyPrices }) => void;
+}
+
+const toForm = (prices: CurrencyPrices | null | undefined): Record<string, string> =>
+  Object.fromEntries(
+    SUPPORTED_CURRENCIES.map((code) => [code, prices?.[code] !== undefined ? String(prices[code]) : ""])
+  );
+
+/**
+ * What a session costs in currencies other than the event type's own, for clients paying from
+ * abroad. A currency left empty can't be paid in. Saves separately from the event type's Save button.
+ */
+export function CurrencyPricesEditor({ eventTypeId, price, currency, prices, onSaved }: CurrencyPricesEditorProps) {
+  const [form, setForm] = useState<Record<string, string>>(() => toForm(prices));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const otherCurrencies = SUPPORTED_CURRENCIES.filter((code) => code !== currency.toUpperCase());
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const response = await fetch(`/api/event-types/${eventTypeId}`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prices: Object.fromEntries(otherCurrencies.map((code) => [code, form[code]?.trim() || null])),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save prices");
+      }
+      setForm(toForm(data.eventType?.prices));
+      setSaved(true);
+      onSaved(data.eventType);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save prices");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[#9ca3af]">
+        This session costs {formatMoney(price, currency)}. Add prices in other currencies to let clients abroad pay in
+        their own currency.
+      </p>
+
+      {error && (
+        <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/30 rounded-md p-3">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        {otherCurrencies.map((code) => (
+          <div key={code} className="flex items-center gap-3">
+            <label htmlFor={`price-${code}`} className="w-12 text-sm font-medium text-[#D4D4D4]">
+              {code}
+            </label>
+            <Input
+              id={`price-${code}`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={form[code] || ""}
+              placeholder="Not offered"
+              onChange={(e) => {
+                setSaved(false);
+                setForm((prev) => ({ ...prev, [code]: e.target.value }));
+              }}
+              className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] w-40"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white hover:bg-gray-100 text-black px-4 py-2 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save prices"}
+        </Button>
+        {saved && <span className="text-xs text-[#9ca3af]">Saved</span>}
+      </div>
+    </div>
+  );
+}
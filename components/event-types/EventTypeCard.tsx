@@ -39,7 +39,7 @@ export function EventTypeCard({
   description,
   duration,
   price,
-  currency = "₦",
+  currency = "NGN",
   guests = 1,
   isActive = false,
   isHidden = false,
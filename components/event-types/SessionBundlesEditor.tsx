@@ -0,0 +1,202 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SessionBundle } from "@/lib/payments/session-bundles";
+import { BASE_CURRENCY, formatMoney, getCurrencySymbol } from "@/lib/utils/money";
+
+interface SessionBundlesEditorProps {
+  eventTypeId: string;
+  // Price of one session, to show what each bundle saves
+  sessionPrice: number;
+  // The event type's currency, which its bundles are priced in
+  currency?: string;
+}
+
+const emptyForm = { name: "", sessionCount: "4", price: "", validityDays: "90" };
+
+/**
+ * Bundles clients can prepay for on an event type. Changes save straight away, separately from
+ * the event type's Save button.
+ */
+export function SessionBundlesEditor({ eventTypeId, sessionPrice, currency = BASE_CURRENCY }: SessionBundlesEditorProps) {
+  const [bundles, setBundles] = useState<SessionBundle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadBundles = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/event-types/${eventTypeId}/bundles`, { credentials: "include" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load bundles");
+      }
+      setBundles(data.bundles || []);
+    } catch (err) {
+      console.error("Failed to load bundles:", err);
+      setError(err instanceof Error ? err.message : "Failed to load bundles");
+    } finally {
+      setLoading(false);
+    }
+  }, [eventTypeId]);
+
+  useEffect(() => {
+    loadBundles();
+  }, [loadBundles]);
+
+  const runAction = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Request failed");
+      }
+      await loadBundles();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await runAction("new", () =>
+      fetch(`/api/event-types/${eventTypeId}/bundles`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name || null,
+          sessionCount: Number(form.sessionCount),
+          price: Number(form.price),
+          validityDays: Number(form.validityDays),
+        }),
+      })
+    );
+    if (created) {
+      setForm(emptyForm);
+    }
+  };
+
+  const handleToggleActive = (bundle: SessionBundle) => {
+    runAction(bundle.id, () =>
+      fetch(`/api/event-types/${eventTypeId}/bundles/${bundle.id}`, {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !bundle.isActive }),
+      })
+    );
+  };
+
+  const fullPrice = sessionPrice * Number(form.sessionCount || 0);
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-[#9ca3af]">
+        Let clients prepay for several sessions at a discount. Each booking uses one prepaid session instead of a
+        separate payment. Unused sessions expire after the number of days you set.
+      </p>
+
+      {error && (
+        <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/30 rounded-md p-3">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        {loading && <div className="text-sm text-[#9ca3af]">Loading...</div>}
+        {!loading && bundles.length === 0 && <div className="text-sm text-[#9ca3af]">No bundles yet.</div>}
+        {bundles.map((bundle) => {
+          const saving = sessionPrice * bundle.sessionCount - bundle.price;
+          return (
+            <div
+              key={bundle.id}
+              className="border border-[#262626] rounded-lg px-4 py-3 flex items-center justify-between gap-4"
+            >
+              <div>
+                <div className="text-sm font-medium text-[#f9fafb]">
+                  {bundle.name}
+                  {!bundle.isActive && <span className="ml-2 text-xs text-[#9ca3af]">(not on sale)</span>}
+                </div>
+                <div className="text-xs text-[#9ca3af] mt-0.5">
+                  {bundle.sessionCount} sessions for {formatMoney(bundle.price, bundle.currency)}
+                  {saving > 0 ? ` · saves ${formatMoney(saving, bundle.currency)}` : ""} · valid {bundle.validityDays} days
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                disabled={busyId === bundle.id}
+                onClick={() => handleToggleActive(bundle)}
+                className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#262626]"
+              >
+                {bundle.isActive ? "Stop selling" : "Sell again"}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border border-[#262626] rounded-lg p-4 space-y-4">
+        <h3 className="text-sm font-medium text-[#f9fafb]">New bundle</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-[#D4D4D4] mb-2">Name (optional)</label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Monthly monitoring"
+              className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#D4D4D4] mb-2">Sessions</label>
+            <Input
+              type="number"
+              min={2}
+              value={form.sessionCount}
+              onChange={(e) => setForm((prev) => ({ ...prev, sessionCount: e.target.value }))}
+              className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] w-32"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#D4D4D4] mb-2">Bundle price ({getCurrencySymbol(currency)})</label>
+            <Input
+              type="number"
+              min={0}
+              value={form.price}
+              onChange={(e) => setForm((prev) => ({ ...prev, price: e.target.value }))}
+              placeholder={fullPrice > 0 ? `Less than ${fullPrice.toLocaleString()}` : undefined}
+              className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] w-48"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#D4D4D4] mb-2">Valid for</label>
+            <div className="flex items-center gap-4">
+              <Input
+                type="number"
+                min={1}
+                value={form.validityDays}
+                onChange={(e) => setForm((prev) => ({ ...prev, validityDays: e.target.value }))}
+                className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] w-32"
+              />
+              <span className="text-sm text-[#9ca3af]">Days</span>
+            </div>
+          </div>
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={busyId === "new" || !form.price || !form.sessionCount || !form.validityDays}
+          className="bg-white hover:bg-gray-100 text-black px-4 py-2 disabled:opacity-50"
+        >
+          {busyId === "new" ? "Adding..." : "Add bundle"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   CalendarCheck2,
   BarChart3,
   Wallet,
+  Tag,
   Settings,
   ChevronDown,
   ChevronUp,
@@ -25,6 +26,7 @@ const navigation = [
   { name: "Analytics", href: "/admin/analytics", icon: BarChart3 },
   { name: "Payouts", href: "/admin/payouts", icon: Wallet },
   { name: "Revenue", href: "/admin/revenue", icon: BarChart3 },
+  { name: "Promo Codes", href: "/admin/promo-codes", icon: Tag },
   { name: "Meal Plans", href: "/admin/meal-plans", icon: CalendarCheck2 },
   {
     name: "Settings",
@@ -19,6 +19,7 @@ import {
   LogOut,
   FileText,
   Send,
+  Wallet,
   Menu,
   X
 } from "lucide-react";
@@ -38,6 +39,7 @@ const navigation = [
   },
   { name: "Session Request", href: "/dashboard/session-request", icon: Send },
   { name: "Availability", href: "/dashboard/availability", icon: Clock },
+  { name: "My Earnings", href: "/dashboard/earnings", icon: Wallet },
   { name: "Assessment Tests", href: "/dashboard/meal-plan", icon: FileText },
 ];
 
@@ -57,6 +59,7 @@ const therapistNavigation = [
   },
   { name: "Session Request", href: "/therapist-dashboard/session-request", icon: Send },
   { name: "Availability", href: "/therapist-dashboard/availability", icon: Clock },
+  { name: "My Earnings", href: "/therapist-dashboard/earnings", icon: Wallet },
   { name: "Session Notes", href: "/therapist-dashboard/session-notes", icon: FileText },
   { name: "Assessment Tests", href: "/therapist-dashboard/meal-plan", icon: FileText },
 ];
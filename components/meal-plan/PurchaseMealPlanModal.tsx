@@ -4,6 +4,10 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, X, Loader2 } from "lucide-react";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
+import { PromoCodeInput } from "@/components/user/promo-code-input";
+import type { AppliedPromoCode } from "@/lib/payments/promo-codes";
+import type { MealPlanPackage } from "@/lib/payments/meal-plan-packages";
+import { formatMoney } from "@/lib/utils/money";
 
 interface Dietitian {
   id: string;
@@ -16,7 +20,8 @@ interface PurchaseMealPlanModalProps {
   isOpen: boolean;
   onClose: () => void;
   selectedPackage: { id: string; name: string; price: number; currency: string } | null;
-  onCheckout: (data: { dietitianId: string; dietitianName: string; packageName: string; packageId: string; price: number }) => void;
+  // price is what will be charged, after any promo code
+  onCheckout: (data: { dietitianId: string; dietitianName: string; packageName: string; packageId: string; price: number; promoCode?: string }) => void;
 }
 
 export function PurchaseMealPlanModal({ 
@@ -29,6 +34,9 @@ export function PurchaseMealPlanModal({
   const [dietitians, setDietitians] = useState<Dietitian[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromoCode | null>(null);
+  // The package's price with the selected dietitian, who may charge their own price
+  const [dietitianPrice, setDietitianPrice] = useState<{ dietitianId: string; price: number } | null>(null);
 
   // Fetch available dietitians when modal opens
   useEffect(() => {
@@ -38,6 +46,19 @@ export function PurchaseMealPlanModal({
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!selectedDietitian || !selectedPackage) return;
+    fetch(`/api/meal-plan-packages?dietitianId=${encodeURIComponent(selectedDietitian)}`, { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        const dietitianPackage = (data?.packages || []).find((pkg: MealPlanPackage) => pkg.id === selectedPackage.id);
+        if (dietitianPackage) {
+          setDietitianPrice({ dietitianId: selectedDietitian, price: dietitianPackage.price });
+        }
+      })
+      .catch((err) => console.error("Error fetching dietitian meal plan price:", err));
+  }, [selectedDietitian, selectedPackage]);
+
   const fetchDietitians = async () => {
     setIsLoading(true);
     setError(null);
@@ -62,6 +83,15 @@ export function PurchaseMealPlanModal({
   if (!isOpen) return null;
 
   const selectedDietitianData = dietitians.find(d => d.id === selectedDietitian);
+  const packagePrice =
+    dietitianPrice && dietitianPrice.dietitianId === selectedDietitian
+      ? dietitianPrice.price
+      : selectedPackage?.price || 0;
+
+  const handleClose = () => {
+    setAppliedPromo(null);
+    onClose();
+  };
 
   const handleCheckout = () => {
     if (selectedDietitian && selectedPackage && selectedDietitianData) {
@@ -70,10 +100,11 @@ export function PurchaseMealPlanModal({
         dietitianName: selectedDietitianData.name,
         packageName: selectedPackage.name,
         packageId: selectedPackage.id,
-        price: selectedPackage.price,
+        price: appliedPromo ? appliedPromo.finalAmount : packagePrice,
+        promoCode: appliedPromo?.code,
       });
       setSelectedDietitian("");
-      onClose();
+      handleClose();
     }
   };
 
@@ -84,7 +115,7 @@ export function PurchaseMealPlanModal({
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-lg font-semibold text-[#f9fafb]">Purchase Meal Plan</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-[#D4D4D4] hover:text-[#f9fafb] transition-colors"
           >
             <X className="h-5 w-5" />
@@ -103,11 +134,34 @@ export function PurchaseMealPlanModal({
             </div>
             {selectedPackage && (
               <div className="text-sm text-[#9ca3af] mt-1">
-                Price: ₦{selectedPackage.price.toLocaleString()}
+                Price:{" "}
+                {appliedPromo ? (
+                  <>
+                    <span className="line-through">{formatMoney(packagePrice, selectedPackage.currency)}</span>{" "}
+                    <span className="text-[#f9fafb]">{formatMoney(appliedPromo.finalAmount, appliedPromo.currency)}</span>
+                  </>
+                ) : (
+                  formatMoney(packagePrice, selectedPackage.currency)
+                )}
               </div>
             )}
           </div>
 
+          {/* Promo Code */}
+          {selectedPackage && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[#D4D4D4]">
+                Promo Code
+              </label>
+              <PromoCodeInput
+                mealPlanPackageId={selectedPackage.id}
+                dietitianId={selectedDietitian || undefined}
+                appliedPromo={appliedPromo}
+                onChange={setAppliedPromo}
+              />
+            </div>
+          )}
+
           {/* Select Dietitian */}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-[#D4D4D4]">
@@ -128,7 +182,11 @@ export function PurchaseMealPlanModal({
               <div className="relative">
                 <select
                   value={selectedDietitian}
-                  onChange={(e) => setSelectedDietitian(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedDietitian(e.target.value);
+                    // A code checked against another dietitian's price has to be checked again
+                    setAppliedPromo(null);
+                  }}
                   className="w-full bg-[#0a0a0a] border border-[#262626] text-[#f9fafb] text-sm rounded px-3 py-2 pr-8 appearance-none focus:outline-none focus:ring-0 focus:border-[#404040]"
                 >
                   <option value="">Select a dietitian...</option>
@@ -150,7 +208,7 @@ export function PurchaseMealPlanModal({
         {/* Action Buttons */}
         <div className="flex items-center justify-end gap-3">
           <Button
-            onClick={onClose}
+            onClick={handleClose}
             variant="outline"
             className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#262626] px-4 py-2"
           >
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { X, Send, Calendar, CheckCircle } from "lucide-react";
+import type { MealPlanPackage } from "@/lib/payments/meal-plan-packages";
+import { formatMoney } from "@/lib/utils/money";
 
 interface CreateSessionRequestModalProps {
   isOpen: boolean;
@@ -12,14 +14,6 @@ interface CreateSessionRequestModalProps {
   onSuccess: () => void;
 }
 
-// Meal plan types with pricing
-const MEAL_PLAN_TYPES = [
-  { id: "7-day", name: "7-day meal plan", price: 10000, currency: "NGN" },
-  { id: "14-day", name: "14-day meal plan", price: 16000, currency: "NGN" },
-  { id: "1-month", name: "1 month meal plan", price: 20000, currency: "NGN" },
-  { id: "smoothie", name: "Smoothie recipe", price: 8000, currency: "NGN" },
-];
-
 interface Client {
   id: string;
   name: string;
@@ -41,6 +35,7 @@ export function CreateSessionRequestModal({
   const [eventTypeId, setEventTypeId] = useState("");
   const [mealPlanType, setMealPlanType] = useState("");
   const [eventTypes, setEventTypes] = useState<Array<{ id: string; title: string }>>([]);
+  const [mealPlanPackages, setMealPlanPackages] = useState<MealPlanPackage[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -121,6 +116,15 @@ export function CreateSessionRequestModal({
     }
   }, [isOpen]);
 
+  // Fetch meal plan packages, at this practitioner's prices
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch("/api/meal-plan-packages", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setMealPlanPackages(data?.packages || []))
+      .catch((err) => console.error("Error fetching meal plan packages:", err));
+  }, [isOpen]);
+
   // Auto-populate name/email when client is selected
   useEffect(() => {
     if (selectedClientId) {
@@ -183,10 +187,8 @@ export function CreateSessionRequestModal({
       if (requestType === "CONSULTATION") {
         requestData.eventTypeId = eventTypeId;
       } else {
-        requestData.mealPlanType = mealPlanType;
-        const selectedMealPlan = MEAL_PLAN_TYPES.find(mp => mp.id === mealPlanType);
-        requestData.price = selectedMealPlan?.price || 0;
-        requestData.currency = selectedMealPlan?.currency || "NGN";
+        // The server prices the request from the package
+        requestData.mealPlanPackageId = mealPlanType;
       }
 
       const response = await fetch("/api/session-request", {
@@ -222,7 +224,7 @@ export function CreateSessionRequestModal({
 
   if (!isOpen) return null;
 
-  const selectedMealPlan = MEAL_PLAN_TYPES.find(mp => mp.id === mealPlanType);
+  const selectedMealPlan = mealPlanPackages.find(mp => mp.id === mealPlanType);
 
   // Show success modal
   if (showSuccessModal) {
@@ -436,15 +438,15 @@ export function CreateSessionRequestModal({
                 required
               >
                 <option value="" className="bg-[#0a0a0a] text-[#f9fafb]">Select meal plan...</option>
-                {MEAL_PLAN_TYPES.map((mp) => (
+                {mealPlanPackages.map((mp) => (
                   <option key={mp.id} value={mp.id} className="bg-[#0a0a0a] text-[#f9fafb]">
-                    {mp.name} - ₦{mp.price.toLocaleString()}
+                    {mp.name} - {formatMoney(mp.price, mp.currency)}
                   </option>
                 ))}
               </select>
               {selectedMealPlan && (
                 <p className="mt-2 text-sm text-[#9ca3af]">
-                  Price: ₦{selectedMealPlan.price.toLocaleString()} {selectedMealPlan.currency}
+                  Price: {formatMoney(selectedMealPlan.price, selectedMealPlan.currency)}
                 </p>
               )}
             </div>
@@ -4,6 +4,7 @@ import { Clock, Calendar, CheckCircle, XCircle, Mail, Upload, FileText, Send } f
 import { Button } from "@/components/ui/button";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
+import { formatMoney } from "@/lib/utils/money";
 
 dayjs.extend(relativeTime);
 
@@ -182,7 +183,7 @@ export function SessionRequestList({
 
                 {request.price && (
                   <div className="text-sm text-[#9ca3af]">
-                    <span className="text-[#D4D4D4]">Price:</span> ₦{request.price.toLocaleString()} {request.currency || "NGN"}
+                    <span className="text-[#D4D4D4]">Price:</span> {formatMoney(request.price, request.currency)}
                   </div>
                 )}
 
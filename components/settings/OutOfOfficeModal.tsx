@@ -315,7 +315,7 @@ export function OutOfOfficeModal({ isOpen, onClose, onCreate, editingPeriod = nu
                 type="url"
                 value={forwardUrl}
                 onChange={(e) => setForwardUrl(e.target.value)}
-                placeholder="https://example.com/team-member"
+                placeholder="https://daiyet.co/Dietitian/colleague-name"
                 className="bg-[#0a0a0a] border-[#262626] text-[#f9fafb] placeholder:text-[#9ca3af] focus:outline-none focus:ring-0 focus-visible:ring-0 focus-visible:border-[#404040]"
               />
             )}
@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { X, CreditCard, Loader2 } from "lucide-react";
 import { getEmailFromSession, isValidEmail } from "@/lib/email-utils";
+import { BASE_CURRENCY, formatMoney } from "@/lib/utils/money";
+import type { Charge } from "@/lib/payments/pricing";
 
 interface PaymentModalProps {
   isOpen: boolean;
@@ -12,9 +14,17 @@ interface PaymentModalProps {
   amount: number;
   currency: string;
   description: string;
-  requestType: "CONSULTATION" | "MEAL_PLAN";
+  requestType: "CONSULTATION" | "MEAL_PLAN" | "SESSION_BUNDLE";
   requestId?: string;
   bookingId?: string;
+  // Practitioner being paid, for purchases that have no booking or request yet
+  dietitianId?: string;
+  // Meal plan package being bought, so a promo code can be priced against it
+  mealPlanPackageId?: string;
+  // Session bundle being bought; the server prices it from the bundle
+  sessionBundleId?: string;
+  // Applied at checkout; the server works out the discounted amount
+  promoCode?: string;
   userEmail?: string;
   userName?: string;
 }
@@ -48,6 +58,10 @@ export function PaymentModal({
   requestType,
   requestId,
   bookingId,
+  dietitianId,
+  mealPlanPackageId,
+  sessionBundleId,
+  promoCode,
   userEmail,
   userName,
 }: PaymentModalProps) {
@@ -56,6 +70,54 @@ export function PaymentModal({
   const [error, setError] = useState<string | null>(null);
   const [finalEmail, setFinalEmail] = useState<string | null>(null);
   const [finalName, setFinalName] = useState<string | null>(null);
+  const [walletBalance, setWalletBalance] = useState(0);
+  const [minimumCardCharge, setMinimumCardCharge] = useState(0);
+  const [useWallet, setUseWallet] = useState(false);
+  // Currencies this checkout can be paid in, with the price in each
+  const [currencyOptions, setCurrencyOptions] = useState<Charge[]>([]);
+  const [selectedCurrency, setSelectedCurrency] = useState(currency);
+
+  // Other currencies are only offered at full price: a promo code is priced in the item's own
+  // currency and bundles are sold in theirs
+  const canChooseCurrency = !promoCode && !sessionBundleId && !!(bookingId || mealPlanPackageId);
+
+  useEffect(() => {
+    if (!isOpen || !canChooseCurrency) return;
+    const params = new URLSearchParams();
+    if (mealPlanPackageId) {
+      params.set("packageId", mealPlanPackageId);
+      if (dietitianId) params.set("dietitianId", dietitianId);
+    } else if (bookingId) {
+      params.set("bookingId", bookingId);
+    }
+    fetch(`/api/paystack/currencies?${params.toString()}`, { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setCurrencyOptions(data?.options || []))
+      .catch(() => setCurrencyOptions([]));
+  }, [isOpen, canChooseCurrency, bookingId, mealPlanPackageId, dietitianId]);
+
+  // Wallet balance (e.g. referral rewards) the client can put towards this payment
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch("/api/user/wallet", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        setWalletBalance(data?.balance || 0);
+        setMinimumCardCharge(data?.minimumCardCharge || 0);
+      })
+      .catch(() => setWalletBalance(0));
+  }, [isOpen]);
+
+  const selectedOption =
+    selectedCurrency !== currency ? currencyOptions.find((option) => option.currency === selectedCurrency) : undefined;
+  const paymentCurrency = selectedOption ? selectedOption.currency : currency;
+  const chargeAmount = selectedOption ? selectedOption.amount : amount;
+
+  // The wallet is held in naira
+  const canUseWallet = paymentCurrency === BASE_CURRENCY;
+  const walletSpend =
+    useWallet && canUseWallet ? Math.max(Math.min(walletBalance, chargeAmount - minimumCardCharge), 0) : 0;
+  const amountToPay = chargeAmount - walletSpend;
 
   // Fetch email and name from session - ALWAYS prioritize session email for reliability
   useEffect(() => {
@@ -163,13 +225,19 @@ export function PaymentModal({
         },
         body: JSON.stringify({
           // Email and name are retrieved from authenticated session (OAuth) on server
-          amount: amount * 100, // Paystack expects amount in kobo
+          amount: chargeAmount * 100, // Paystack expects the amount in the currency's subunit (kobo, cents, pence)
+          currency: paymentCurrency,
           bookingId: bookingId || requestId || undefined, // Use bookingId if available
+          promoCode: promoCode || undefined,
+          useWallet: walletSpend > 0 || undefined,
           metadata: {
             requestId: requestId || "",
             requestType,
             description,
             bookingId: bookingId || undefined,
+            dietitianId: dietitianId || undefined,
+            packageId: mealPlanPackageId || undefined,
+            bundleId: sessionBundleId || undefined,
           },
         }),
       });
@@ -229,17 +297,57 @@ export function PaymentModal({
               <div className="flex justify-between text-sm">
                 <span className="text-[#9ca3af]">{description}</span>
               </div>
+              {walletSpend > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-[#9ca3af]">Wallet balance</span>
+                  <span className="text-emerald-400">−{formatMoney(walletSpend, BASE_CURRENCY)}</span>
+                </div>
+              )}
               <div className="border-t border-[#262626] pt-2 mt-2">
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium text-[#f9fafb]">Total</span>
                   <span className="text-lg font-semibold text-[#f9fafb]">
-                    ₦{amount.toLocaleString()} {currency}
+                    {formatMoney(amountToPay, paymentCurrency)}
                   </span>
                 </div>
               </div>
             </div>
           </div>
 
+          {currencyOptions.length > 1 && (
+            <div>
+              <div className="text-sm text-[#D4D4D4] mb-2">Pay in</div>
+              <div className="flex flex-wrap gap-2">
+                {currencyOptions.map((option) => (
+                  <button
+                    key={option.currency}
+                    type="button"
+                    onClick={() => setSelectedCurrency(option.currency)}
+                    className={`px-3 py-1.5 rounded-md border text-sm transition-colors ${
+                      option.currency === paymentCurrency
+                        ? "border-white bg-white text-black"
+                        : "border-[#262626] text-[#D4D4D4] hover:bg-[#262626]"
+                    }`}
+                  >
+                    {option.currency} · {formatMoney(option.amount, option.currency)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canUseWallet && walletBalance > 0 && chargeAmount > minimumCardCharge && (
+            <label className="flex items-center gap-2 text-sm text-[#D4D4D4] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useWallet}
+                onChange={(e) => setUseWallet(e.target.checked)}
+                className="accent-white"
+              />
+              Use wallet balance ({formatMoney(walletBalance, BASE_CURRENCY)} available)
+            </label>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/30 rounded-md p-3">
@@ -278,7 +386,7 @@ export function PaymentModal({
               ) : (
                 <>
                   <CreditCard className="h-4 w-4" />
-                  Pay ₦{amount.toLocaleString()}
+                  Pay {formatMoney(amountToPay, paymentCurrency)}
                 </>
               )}
             </Button>
@@ -3,6 +3,7 @@
 import { Button } from "@/components/ui/button";
 import { CheckCircle, Calendar, FileText, Video, ExternalLink, Clock } from "lucide-react";
 import dayjs from "dayjs";
+import { formatMoney } from "@/lib/utils/money";
 
 interface PaymentSuccessModalProps {
   isOpen: boolean;
@@ -45,7 +46,7 @@ export function PaymentSuccessModal({
           </div>
           <h2 className="text-2xl font-semibold text-[#f9fafb] mb-2">Payment Successful!</h2>
           <p className="text-sm text-[#9ca3af] mb-6">
-            Your payment of ₦{amount.toLocaleString()} {currency} has been processed successfully.
+            Your payment of {formatMoney(amount, currency)} has been processed successfully.
           </p>
 
           <div className="bg-[#0a0a0a] border border-[#262626] rounded-lg p-4 mb-6 text-left space-y-3">
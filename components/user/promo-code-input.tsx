@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AppliedPromoCode } from "@/lib/payments/promo-codes";
+import { formatMoney } from "@/lib/utils/money";
+
+interface PromoCodeInputProps {
+  // What the code is being applied to
+  eventTypeId?: string;
+  mealPlanPackageId?: string;
+  // Practitioner the meal plan is bought from, for their price
+  dietitianId?: string;
+  appliedPromo: AppliedPromoCode | null;
+  onChange: (promo: AppliedPromoCode | null) => void;
+}
+
+export function PromoCodeInput({
+  eventTypeId,
+  mealPlanPackageId,
+  dietitianId,
+  appliedPromo,
+  onChange,
+}: PromoCodeInputProps) {
+  const [code, setCode] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/promo-codes/validate", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code, eventTypeId, mealPlanPackageId, dietitianId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "This promo code isn't valid");
+      }
+      onChange(data.promo);
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "This promo code isn't valid");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (appliedPromo) {
+    return (
+      <div className="flex items-center justify-between rounded border border-[#262626] bg-[#0a0a0a] px-3 py-2 text-sm">
+        <span className="flex items-center gap-2 text-[#f9fafb]">
+          <Tag className="h-4 w-4 text-emerald-400" />
+          {appliedPromo.code}
+          <span className="text-emerald-400">−{formatMoney(appliedPromo.discountAmount, appliedPromo.currency)}</span>
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="text-[#9ca3af] hover:text-[#f9fafb] transition-colors"
+          aria-label="Remove promo code"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleApply();
+          }}
+          placeholder="Promo code"
+          className="flex-1 bg-[#0a0a0a] border border-[#262626] text-[#f9fafb] text-sm rounded px-3 py-2 focus:outline-none focus:border-[#404040]"
+        />
+        <Button
+          type="button"
+          onClick={handleApply}
+          disabled={isChecking || !code.trim()}
+          variant="outline"
+          className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717] px-4 py-2 disabled:opacity-50"
+        >
+          {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
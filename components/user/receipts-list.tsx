@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Download } from "lucide-react";
+import type { Receipt } from "@/lib/payments/receipts";
+
+type ReceiptWithDownload = Receipt & { downloadUrl: string };
+
+/**
+ * The client's payment receipts, downloadable as PDFs for HMO and employer claims
+ */
+export function ReceiptsList() {
+  const [receipts, setReceipts] = useState<ReceiptWithDownload[]>([]);
+
+  useEffect(() => {
+    fetch("/api/user/booking-history", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setReceipts(data?.receipts || []))
+      .catch((err) => console.error("Error fetching receipts:", err));
+  }, []);
+
+  if (receipts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-[15px] font-semibold text-[#f9fafb] mb-1">Receipts</h2>
+      <p className="text-[13px] text-[#9ca3af] mb-6">
+        Download a receipt for any payment, e.g. to claim a session back from your HMO or employer.
+      </p>
+      <div className="space-y-3">
+        {receipts.map((receipt) => (
+          <div
+            key={receipt.id}
+            className="border border-[#262626] rounded-lg px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+          >
+            <div>
+              <div className="text-sm font-medium text-[#f9fafb]">
+                {receipt.lineItems[0]?.description || "Payment"}
+              </div>
+              <div className="text-xs text-[#9ca3af] mt-0.5">
+                {receipt.receiptNumber} · {receipt.currency} {receipt.total.toLocaleString()}
+                {receipt.paidAt ? ` · ${dayjs(receipt.paidAt).format("MMM D, YYYY")}` : ""}
+              </div>
+            </div>
+            <a
+              href={receipt.downloadUrl}
+              download
+              className="inline-flex items-center justify-center gap-2 rounded-md border border-[#262626] px-4 py-2 text-sm text-[#f9fafb] hover:bg-[#171717]"
+            >
+              <Download className="h-4 w-4" />
+              Download PDF
+            </a>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PaymentModal } from "@/components/user/payment-modal";
+import type { SessionBundle, SessionCredit } from "@/lib/payments/session-bundles";
+import { formatMoney } from "@/lib/utils/money";
+
+interface SessionBundleOfferProps {
+  eventTypeId: string;
+  // Price of one session, to show what each bundle saves
+  sessionPrice: number;
+  useCredit: boolean;
+  onUseCreditChange: (useCredit: boolean) => void;
+}
+
+/**
+ * At checkout: book against the client's prepaid sessions for this event type, or buy a bundle
+ */
+export function SessionBundleOffer({ eventTypeId, sessionPrice, useCredit, onUseCreditChange }: SessionBundleOfferProps) {
+  const [bundles, setBundles] = useState<SessionBundle[]>([]);
+  const [credits, setCredits] = useState<SessionCredit[]>([]);
+  const [bundleToBuy, setBundleToBuy] = useState<SessionBundle | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/session-bundles?eventTypeId=${encodeURIComponent(eventTypeId)}`, { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        setBundles(data?.bundles || []);
+        setCredits(data?.credits || []);
+        if (!data?.creditsRemaining) {
+          onUseCreditChange(false);
+        }
+      })
+      .catch((err) => console.error("Failed to load session bundles:", err));
+  }, [eventTypeId, onUseCreditChange]);
+
+  const creditsRemaining = credits.reduce((sum, credit) => sum + credit.sessionsRemaining, 0);
+  const nextExpiry = credits[0]?.expiresAt;
+
+  if (creditsRemaining > 0) {
+    return (
+      <label className="flex items-start gap-3 border border-[#262626] rounded-lg p-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={useCredit}
+          onChange={(e) => onUseCreditChange(e.target.checked)}
+          className="mt-0.5 accent-white"
+        />
+        <span className="text-sm">
+          <span className="block text-[#f9fafb]">Use a prepaid session</span>
+          <span className="block text-xs text-[#9ca3af]">
+            {creditsRemaining} {creditsRemaining === 1 ? "session" : "sessions"} left
+            {nextExpiry ? ` · next expiry ${dayjs(nextExpiry).format("MMM D, YYYY")}` : ""}
+          </span>
+        </span>
+      </label>
+    );
+  }
+
+  if (bundles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border border-[#262626] rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-[#f9fafb]">
+        <Package className="h-4 w-4 text-[#9ca3af]" />
+        Save with a bundle
+      </div>
+      {bundles.map((bundle) => {
+        const saving = sessionPrice * bundle.sessionCount - bundle.price;
+        return (
+          <div key={bundle.id} className="flex items-center justify-between gap-3 text-sm">
+            <div>
+              <div className="text-[#f9fafb]">{bundle.name}</div>
+              <div className="text-xs text-[#9ca3af]">
+                {bundle.sessionCount} sessions for {formatMoney(bundle.price, bundle.currency)}
+                {saving > 0 ? ` · save ${formatMoney(saving, bundle.currency)}` : ""} · use within {bundle.validityDays} days
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setBundleToBuy(bundle)}
+              className="bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717] px-4 py-2"
+            >
+              Buy
+            </Button>
+          </div>
+        );
+      })}
+
+      {bundleToBuy && (
+        <PaymentModal
+          isOpen={!!bundleToBuy}
+          onClose={() => setBundleToBuy(null)}
+          onSuccess={() => setBundleToBuy(null)}
+          amount={bundleToBuy.price}
+          currency={bundleToBuy.currency}
+          description={`${bundleToBuy.name} (${bundleToBuy.sessionCount} sessions)`}
+          requestType="SESSION_BUNDLE"
+          sessionBundleId={bundleToBuy.id}
+          dietitianId={bundleToBuy.dietitianId}
+        />
+      )}
+    </div>
+  );
+}
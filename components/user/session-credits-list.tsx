@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import type { SessionCredit } from "@/lib/payments/session-bundles";
+
+/**
+ * The client's prepaid sessions, with what is left of each bundle and when it expires.
+ * Returning from a bundle checkout confirms that payment first so the new sessions show up.
+ */
+export function SessionCreditsList() {
+  const [credits, setCredits] = useState<SessionCredit[]>([]);
+
+  useEffect(() => {
+    const loadCredits = async () => {
+      const params = new URLSearchParams(window.location.search);
+      const reference = params.get("reference");
+      if (params.get("payment") === "success" && reference) {
+        // The webhook may already have confirmed it; verifying again is harmless
+        await fetch("/api/payments/verify", {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reference }),
+        }).catch((err) => console.error("Failed to verify bundle payment:", err));
+      }
+
+      try {
+        const response = await fetch("/api/user/session-credits", { credentials: "include" });
+        if (response.ok) {
+          const data = await response.json();
+          setCredits(data.credits || []);
+        }
+      } catch (err) {
+        console.error("Error fetching session credits:", err);
+      }
+    };
+
+    loadCredits();
+  }, []);
+
+  if (credits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-[15px] font-semibold text-[#f9fafb] mb-1">Prepaid Sessions</h2>
+      <p className="text-[13px] text-[#9ca3af] mb-6">
+        Sessions you have already paid for. They are used automatically when you book.
+      </p>
+      <div className="space-y-3">
+        {credits.map((credit) => (
+          <div
+            key={credit.id}
+            className="border border-[#262626] rounded-lg px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+          >
+            <div>
+              <div className="text-sm font-medium text-[#f9fafb]">
+                {credit.eventTypeTitle || "Session"}
+                {credit.dietitianName ? ` with ${credit.dietitianName}` : ""}
+              </div>
+              <div className="text-xs text-[#9ca3af] mt-0.5">
+                {credit.sessionsRemaining} of {credit.sessionsTotal} sessions left
+                {credit.expiresAt ? ` · expires ${dayjs(credit.expiresAt).format("MMM D, YYYY")}` : ""}
+              </div>
+            </div>
+            <Link
+              href={`/user-dashboard/book-a-call?prefill=true&dietitianId=${credit.dietitianId}&eventTypeId=${credit.eventTypeId}`}
+            >
+              <Button
+                variant="outline"
+                className="w-full sm:w-auto bg-transparent border-[#262626] text-[#f9fafb] hover:bg-[#171717] px-4 py-2"
+              >
+                Book
+              </Button>
+            </Link>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
 import { formatDietitianName } from "@/lib/utils/dietitian-name";
+import { formatMoney } from "@/lib/utils/money";
 
 dayjs.extend(relativeTime);
 
@@ -121,7 +122,7 @@ export function SessionRequestCard({ request, onApprove, onReject }: SessionRequ
                 </div>
                 {request.price && (
                   <div className="text-sm text-[#9ca3af]">
-                    <span className="text-[#D4D4D4]">Price:</span> ₦{request.price.toLocaleString()} {request.currency || "NGN"}
+                    <span className="text-[#D4D4D4]">Price:</span> {formatMoney(request.price, request.currency)}
                   </div>
                 )}
                 {request.duration && (
@@ -139,7 +140,7 @@ export function SessionRequestCard({ request, onApprove, onReject }: SessionRequ
                 </div>
                 {request.price && (
                   <div className="text-sm text-[#9ca3af]">
-                    <span className="text-[#D4D4D4]">Price:</span> ₦{request.price.toLocaleString()} {request.currency || "NGN"}
+                    <span className="text-[#D4D4D4]">Price:</span> {formatMoney(request.price, request.currency)}
                   </div>
                 )}
               </>
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { DEFAULT_TIMEZONE, TimezoneHelper } from '@/lib/utils/timezone';
+
+// The browser's timezone doesn't change while the page is open
+const subscribeToTimezone = () => () => {};
+
+/**
+ * The timezone booking pages show slots in. Starts from the browser's timezone;
+ * for signed-in users the one saved on their profile wins, and changes are saved
+ * back so emails are rendered in it too.
+ */
+export function useBookerTimezone(isSignedIn: boolean) {
+  // The server renders DEFAULT_TIMEZONE so hydration matches; the browser's timezone takes over after
+  const detected = useSyncExternalStore(subscribeToTimezone, () => TimezoneHelper.detect(), () => DEFAULT_TIMEZONE);
+  // Saved on the profile or picked by the user; wins over the detected timezone
+  const [chosen, setChosen] = useState<string | null>(null);
+
+  const saveTimezone = useCallback(async (tz: string) => {
+    try {
+      await fetch('/api/user/profile', {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: tz }),
+      });
+    } catch (err) {
+      console.warn('Failed to save timezone:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const loadSavedTimezone = async () => {
+      try {
+        const response = await fetch('/api/user/profile', { credentials: 'include' });
+        if (!response.ok) return;
+
+        const data = await response.json();
+        const saved = data.profile?.timezone;
+        if (saved && TimezoneHelper.validateTimezone(saved)) {
+          setChosen(saved);
+        } else {
+          saveTimezone(TimezoneHelper.detect());
+        }
+      } catch (err) {
+        console.warn('Failed to load saved timezone:', err);
+      }
+    };
+
+    loadSavedTimezone();
+  }, [isSignedIn, saveTimezone]);
+
+  const setTimezone = useCallback((tz: string) => {
+    setChosen(tz);
+    if (isSignedIn) {
+      saveTimezone(tz);
+    }
+  }, [isSignedIn, saveTimezone]);
+
+  return { timezone: chosen || detected, setTimezone };
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  listLedgerEntries: vi.fn(),
+}));
+
+// Answers each query with the rows set for its table, or for its table and the columns selected
+// when a table is queried more than once, e.g. "session_requests:id"
+function from(table: string) {
+  let columns = "";
+  const result = () => Promise.resolve({ data: mocks.rows[`${table}:${columns}`] ?? mocks.rows[table] ?? [], error: null });
+  const builder = {
+    select: (selected: string) => {
+      columns = selected;
+      return builder;
+    },
+    eq: () => builder,
+    in: () => builder,
+    gte: () => builder,
+    lt: () => builder,
+    not: () => builder,
+    or: () => builder,
+    order: () => builder,
+    range: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("@/lib/payments/ledger", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/payments/ledger")>()),
+  listLedgerEntries: mocks.listLedgerEntries,
+}));
+// Only NGN has a rate
+vi.mock("@/lib/payments/exchange-rates", () => ({
+  getNgnConverter: async () => (amount: number, currency: string) => (currency === "NGN" ? amount : null),
+}));
+
+import { getPlatformAnalytics } from "./analytics";
+
+// March 2026 in Lagos (UTC+1)
+const MARCH = { from: "2026-02-28T23:00:00.000Z", to: "2026-03-31T23:00:00.000Z" };
+
+function booking(id: string, startTime: string, minutes: number, extra: Record<string, unknown> = {}) {
+  const start = new Date(startTime);
+  return {
+    id,
+    user_id: "client-1",
+    dietitian_id: "dietitian-1",
+    status: "CONFIRMED",
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + minutes * 60000).toISOString(),
+    cancelled_by_role: null,
+    no_show_at: null,
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-04-15T12:00:00Z"));
+
+  mocks.rows = {
+    "bookings:id, user_id, dietitian_id, status, start_time, end_time, cancelled_by_role, no_show_at": [
+      booking("b-1", "2026-03-02T09:00:00Z", 60),
+      booking("b-2", "2026-03-03T09:00:00Z", 30, { no_show_at: "2026-03-03T09:20:00Z" }),
+      booking("b-3", "2026-03-10T09:00:00Z", 30, { status: "CANCELLED", cancelled_by_role: "USER" }),
+      // A checkout that was never paid
+      booking("b-4", "2026-03-11T09:00:00Z", 30, { status: "CANCELLED" }),
+    ],
+    "bookings:user_id, start_time": [
+      { user_id: "client-1", start_time: "2026-03-02T09:00:00Z" },
+      { user_id: "client-1", start_time: "2026-04-10T09:00:00Z" },
+      { user_id: "client-2", start_time: "2026-03-03T09:00:00Z" },
+      // First seen before the range, so not in a March cohort
+      { user_id: "client-3", start_time: "2026-02-10T09:00:00Z" },
+      { user_id: "client-3", start_time: "2026-03-12T09:00:00Z" },
+    ],
+    users: [{ id: "dietitian-1", name: "Ada Obi" }],
+    availability_schedules: [
+      {
+        dietitian_id: "dietitian-1",
+        timezone: "Africa/Lagos",
+        // Three hours every Monday, and a disabled Tuesday
+        availability_schedule_slots: [
+          { day_of_week: 1, start_time: "09:00:00", end_time: "12:00:00", enabled: true },
+          { day_of_week: 2, start_time: "09:00:00", end_time: "12:00:00", enabled: false },
+        ],
+      },
+    ],
+    "session_requests:id, request_type, status, created_at": [
+      { id: "r-1", request_type: "CONSULTATION", status: "APPROVED", created_at: "2026-03-01T10:00:00Z" },
+      { id: "r-2", request_type: "CONSULTATION", status: "PENDING", created_at: "2026-03-01T10:00:00Z" },
+      { id: "r-3", request_type: "MEAL_PLAN", status: "PENDING", created_at: "2026-03-04T10:00:00Z" },
+      { id: "r-4", request_type: "MEAL_PLAN", status: "PENDING", created_at: "2026-03-04T10:00:00Z" },
+    ],
+    payments: [{ requestId: "r-3", paid_at: "2026-03-05T10:00:00Z", created_at: "2026-03-05T09:55:00Z" }],
+    meal_plans: [{ session_request_id: "r-3", sent_at: "2026-03-06T10:00:00Z", created_at: "2026-03-06T09:00:00Z" }],
+    "session_requests:id": [{ id: "r-3" }, { id: "r-4" }],
+  };
+  mocks.listLedgerEntries.mockReset().mockResolvedValue([
+    { gross: 10000, refunded: 2000, currency: "NGN", occurredAt: "2026-03-02T10:00:00Z" },
+    { gross: 50, refunded: 0, currency: "USD", occurredAt: "2026-03-03T10:00:00Z" },
+  ]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getPlatformAnalytics", () => {
+  it("counts bookings, cancellations and no-shows, leaving out checkouts that were never paid", async () => {
+    const analytics = await getPlatformAnalytics({ ...MARCH, interval: "week" });
+
+    expect(analytics.totals).toEqual({ bookings: 3, cancelled: 1, held: 2, noShows: 1, revenue: 8000, refunded: 2000 });
+    expect(analytics.cancellationRate).toBeCloseTo(1 / 3);
+    expect(analytics.noShowRate).toBe(0.5);
+    expect(analytics.cancelledBy).toEqual({ USER: 1 });
+    expect(analytics.unconvertedCurrencies).toEqual(["USD"]);
+  });
+
+  it("groups the timeline into weeks starting on Monday, in Lagos time", async () => {
+    const { timeline } = await getPlatformAnalytics({ ...MARCH, interval: "week" });
+
+    expect(timeline.map((period) => period.period)).toEqual([
+      "2026-02-23",
+      "2026-03-02",
+      "2026-03-09",
+      "2026-03-16",
+      "2026-03-23",
+      "2026-03-30",
+    ]);
+    expect(timeline[1]).toEqual({ period: "2026-03-02", bookings: 2, cancelled: 0, revenue: 8000 });
+    expect(timeline[2]).toEqual({ period: "2026-03-09", bookings: 1, cancelled: 1, revenue: 0 });
+  });
+
+  it("measures utilisation against the enabled hours of the default schedule", async () => {
+    const { utilisation } = await getPlatformAnalytics(MARCH);
+
+    // Five Mondays in March of three hours each, and 90 minutes booked
+    expect(utilisation.practitioners).toEqual([
+      { practitionerId: "dietitian-1", name: "Ada Obi", bookedMinutes: 90, availableMinutes: 900, utilisation: 0.1 },
+    ]);
+  });
+
+  it("reports request conversion, meal plan turnaround and monthly retention", async () => {
+    const analytics = await getPlatformAnalytics(MARCH);
+
+    expect(analytics.conversion).toMatchObject({ requests: 4, converted: 2, rate: 0.5 });
+    expect(analytics.mealPlanTurnaround).toEqual({ sent: 1, averageHours: 24, medianHours: 24, awaiting: 1 });
+    // March's clients, and one of them back in April; May hasn't happened yet
+    expect(analytics.retention).toEqual([{ cohort: "2026-03", clients: 2, retained: [2, 1] }]);
+  });
+
+  it("rejects ranges that are empty or too long", async () => {
+    await expect(getPlatformAnalytics({ from: MARCH.to, to: MARCH.from })).rejects.toThrow("to must be after from");
+    await expect(getPlatformAnalytics({ from: "2024-01-01", to: "2026-03-01" })).rejects.toThrow(
+      "Choose a range of at most 731 days"
+    );
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * Platform analytics
+ * Bookings, revenue, utilisation, no-show and cancellation rates, request conversion, client
+ * retention and meal plan turnaround for a date range, optionally for one practitioner. Periods
+ * and cohorts are calendar days, weeks or months in the platform timezone; money is in NGN.
+ */
+
+import dayjs, { type Dayjs } from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ValidationError } from "@/lib/error-handling";
+import { DEFAULT_TIMEZONE } from "@/lib/utils/timezone";
+import { BASE_CURRENCY } from "@/lib/utils/money";
+import { getNgnConverter } from "@/lib/payments/exchange-rates";
+import { listLedgerEntries, roundMoney } from "@/lib/payments/ledger";
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = ["day", "week", "month"];
+
+// Longest range one report covers
+export const MAX_ANALYTICS_DAYS = 731;
+
+// Months after the first booking that retention is followed for
+const RETENTION_MONTHS = 6;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export interface AnalyticsFilters {
+  // Start (inclusive) and end (exclusive) of the range, ISO 8601
+  from: string;
+  to: string;
+  dietitianId?: string | null;
+  // Defaults to days for up to a month, weeks for up to six months, then months
+  interval?: AnalyticsInterval | null;
+}
+
+export interface AnalyticsPeriod {
+  // First day of the period, YYYY-MM-DD
+  period: string;
+  // Sessions starting in the period, cancelled ones included
+  bookings: number;
+  cancelled: number;
+  // Payments in the period less refunds, in NGN
+  revenue: number;
+}
+
+export interface PractitionerUtilisation {
+  practitionerId: string;
+  name: string | null;
+  bookedMinutes: number;
+  availableMinutes: number;
+  // bookedMinutes / availableMinutes, from 0 to 1; null without any availability
+  utilisation: number | null;
+}
+
+export interface RetentionCohort {
+  // Month of the clients' first session, YYYY-MM
+  cohort: string;
+  clients: number;
+  // retained[n]: clients with a session n months after their first; [0] is the cohort itself.
+  // Months that haven't happened yet are left out.
+  retained: number[];
+}
+
+export interface PlatformAnalytics {
+  from: string;
+  to: string;
+  interval: AnalyticsInterval;
+  currency: string;
+  // Currencies paid in that have no exchange rate yet, so are missing from revenue
+  unconvertedCurrencies: string[];
+  timeline: AnalyticsPeriod[];
+  totals: {
+    // Confirmed sessions and ones cancelled by a person (expired checkouts aren't bookings)
+    bookings: number;
+    cancelled: number;
+    // Confirmed sessions that have started
+    held: number;
+    noShows: number;
+    revenue: number;
+    refunded: number;
+  };
+  // cancelled / bookings and noShows / held, from 0 to 1
+  cancellationRate: number;
+  noShowRate: number;
+  // Cancellations by who cancelled: USER, DIETITIAN, THERAPIST or ADMIN
+  cancelledBy: Record<string, number>;
+  utilisation: {
+    bookedMinutes: number;
+    availableMinutes: number;
+    utilisation: number | null;
+    practitioners: PractitionerUtilisation[];
+  };
+  // Consultation requests that were booked and paid, and meal plan requests that were paid
+  conversion: {
+    requests: number;
+    converted: number;
+    rate: number;
+    byType: Record<"CONSULTATION" | "MEAL_PLAN", { requests: number; converted: number }>;
+  };
+  retention: RetentionCohort[];
+  // From payment to the plan being sent, for plans sent in the range
+  mealPlanTurnaround: {
+    sent: number;
+    averageHours: number | null;
+    medianHours: number | null;
+    // Paid for, not sent yet (at any time, not just in the range)
+    awaiting: number;
+  };
+}
+
+interface BookingRow {
+  id: string;
+  user_id: string;
+  dietitian_id: string;
+  status: string;
+  start_time: string;
+  end_time: string;
+  cancelled_by_role: string | null;
+  no_show_at: string | null;
+}
+
+interface RequestRow {
+  id: string;
+  request_type: "CONSULTATION" | "MEAL_PLAN";
+  status: string;
+  created_at: string;
+}
+
+interface RequestPaymentRow {
+  requestId: string;
+  paid_at: string | null;
+  created_at: string;
+}
+
+interface MealPlanRow {
+  session_request_id: string | null;
+  sent_at: string;
+  created_at: string;
+}
+
+interface ScheduleRow {
+  dietitian_id: string;
+  timezone: string | null;
+  availability_schedule_slots: { day_of_week: number; start_time: string; end_time: string; enabled: boolean }[] | null;
+}
+
+type QueryResult<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Every row of a query, a page at a time. `query` is called with each page's row range.
+ */
+async function fetchAllRows<T>(query: (from: number, to: number) => QueryResult<T>, what: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new AppError(`Failed to load ${what}: ${error.message}`, "ANALYTICS_FETCH_FAILED", 500);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+function getDefaultInterval(from: Dayjs, to: Dayjs): AnalyticsInterval {
+  const days = to.diff(from, "day");
+  if (days <= 31) return "day";
+  if (days <= 183) return "week";
+  return "month";
+}
+
+// Weeks start on Monday
+function getPeriodStart(value: string | Dayjs, interval: AnalyticsInterval): Dayjs {
+  const local = dayjs(value).tz(DEFAULT_TIMEZONE).startOf("day");
+  if (interval === "week") {
+    return local.subtract((local.day() + 6) % 7, "day");
+  }
+  return interval === "month" ? local.startOf("month") : local;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export async function getPlatformAnalytics(filters: AnalyticsFilters): Promise<PlatformAnalytics> {
+  const from = dayjs(filters.from);
+  const to = dayjs(filters.to);
+  if (!from.isValid() || !to.isValid()) {
+    throw new ValidationError("from and to must be valid dates");
+  }
+  if (!to.isAfter(from)) {
+    throw new ValidationError("to must be after from");
+  }
+  if (to.diff(from, "day") > MAX_ANALYTICS_DAYS) {
+    throw new ValidationError(`Choose a range of at most ${MAX_ANALYTICS_DAYS} days`);
+  }
+
+  const interval = filters.interval || getDefaultInterval(from, to);
+  const dietitianId = filters.dietitianId || null;
+
+  const [bookings, clientSessions, ledgerEntries, toNgn, requests, requestPayments, mealPlans, practitioners] =
+    await Promise.all([
+      loadBookings(from, to, dietitianId),
+      loadClientSessions(dietitianId),
+      listLedgerEntries({ practitionerId: dietitianId || undefined, from: from.toISOString(), to: to.toISOString() }),
+      getNgnConverter(),
+      loadRequests(from, to, dietitianId),
+      loadRequestPayments(),
+      loadSentMealPlans(from, to, dietitianId),
+      loadPractitioners(dietitianId),
+    ]);
+
+  // Timeline, with every period in the range present even when empty
+  const timeline = new Map<string, AnalyticsPeriod>();
+  for (
+    let period = getPeriodStart(from, interval);
+    period.isBefore(to);
+    period = period.add(1, interval)
+  ) {
+    const key = period.format("YYYY-MM-DD");
+    timeline.set(key, { period: key, bookings: 0, cancelled: 0, revenue: 0 });
+  }
+  const periodFor = (value: string) => timeline.get(getPeriodStart(value, interval).format("YYYY-MM-DD"));
+
+  // Bookings, cancellations and no-shows
+  const now = dayjs();
+  const totals = { bookings: 0, cancelled: 0, held: 0, noShows: 0, revenue: 0, refunded: 0 };
+  const cancelledBy: Record<string, number> = {};
+  const bookedMinutes = new Map<string, number>();
+
+  for (const booking of bookings) {
+    const cancelled = booking.status === "CANCELLED";
+    // Cancelled without anyone cancelling it: a checkout that was never paid
+    if (cancelled && !booking.cancelled_by_role) continue;
+
+    totals.bookings += 1;
+    const period = periodFor(booking.start_time);
+    if (period) period.bookings += 1;
+
+    if (cancelled) {
+      totals.cancelled += 1;
+      if (period) period.cancelled += 1;
+      cancelledBy[booking.cancelled_by_role!] = (cancelledBy[booking.cancelled_by_role!] || 0) + 1;
+      continue;
+    }
+
+    const minutes = dayjs(booking.end_time).diff(dayjs(booking.start_time), "minute");
+    bookedMinutes.set(booking.dietitian_id, (bookedMinutes.get(booking.dietitian_id) || 0) + minutes);
+
+    if (dayjs(booking.start_time).isBefore(now)) {
+      totals.held += 1;
+      if (booking.no_show_at) totals.noShows += 1;
+    }
+  }
+
+  // Revenue
+  const unconvertedCurrencies: string[] = [];
+  for (const entry of ledgerEntries) {
+    const gross = toNgn(entry.gross, entry.currency, entry.occurredAt);
+    if (gross === null) {
+      if (!unconvertedCurrencies.includes(entry.currency)) {
+        unconvertedCurrencies.push(entry.currency);
+      }
+      continue;
+    }
+    const refunded = toNgn(entry.refunded, entry.currency, entry.occurredAt) ?? 0;
+    totals.revenue = roundMoney(totals.revenue + gross - refunded);
+    totals.refunded = roundMoney(totals.refunded + refunded);
+    const period = periodFor(entry.occurredAt);
+    if (period) period.revenue = roundMoney(period.revenue + gross - refunded);
+  }
+
+  // Utilisation
+  const availableMinutes = await loadAvailableMinutes(practitioners.map((p) => p.id), from, to);
+  const utilisationRows = practitioners
+    .map((practitioner): PractitionerUtilisation => {
+      const booked = bookedMinutes.get(practitioner.id) || 0;
+      const available = availableMinutes.get(practitioner.id) || 0;
+      return {
+        practitionerId: practitioner.id,
+        name: practitioner.name,
+        bookedMinutes: booked,
+        availableMinutes: available,
+        utilisation: available > 0 ? booked / available : null,
+      };
+    })
+    .sort((a, b) => (b.utilisation ?? -1) - (a.utilisation ?? -1));
+  const totalBooked = utilisationRows.reduce((sum, row) => sum + row.bookedMinutes, 0);
+  const totalAvailable = utilisationRows.reduce((sum, row) => sum + row.availableMinutes, 0);
+
+  // Conversion from request to payment
+  const paymentsByRequest = new Map<string, RequestPaymentRow>();
+  for (const payment of requestPayments) {
+    if (!paymentsByRequest.has(payment.requestId)) {
+      paymentsByRequest.set(payment.requestId, payment);
+    }
+  }
+  const byType = {
+    CONSULTATION: { requests: 0, converted: 0 },
+    MEAL_PLAN: { requests: 0, converted: 0 },
+  };
+  for (const request of requests) {
+    const bucket = byType[request.request_type];
+    bucket.requests += 1;
+    // Consultation requests are approved once the client has booked and paid
+    const converted =
+      request.request_type === "CONSULTATION" ? request.status === "APPROVED" : paymentsByRequest.has(request.id);
+    if (converted) bucket.converted += 1;
+  }
+  const requestCount = byType.CONSULTATION.requests + byType.MEAL_PLAN.requests;
+  const convertedCount = byType.CONSULTATION.converted + byType.MEAL_PLAN.converted;
+
+  // Meal plan turnaround
+  const turnaroundHours = mealPlans.map((plan) => {
+    const payment = plan.session_request_id ? paymentsByRequest.get(plan.session_request_id) : undefined;
+    const start = payment ? payment.paid_at || payment.created_at : plan.created_at;
+    return Math.max(0, dayjs(plan.sent_at).diff(dayjs(start), "minute") / 60);
+  });
+  const awaiting = await countAwaitingMealPlans(paymentsByRequest, dietitianId);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    interval,
+    currency: BASE_CURRENCY,
+    unconvertedCurrencies,
+    timeline: [...timeline.values()],
+    totals,
+    cancellationRate: ratio(totals.cancelled, totals.bookings),
+    noShowRate: ratio(totals.noShows, totals.held),
+    cancelledBy,
+    utilisation: {
+      bookedMinutes: totalBooked,
+      availableMinutes: totalAvailable,
+      utilisation: totalAvailable > 0 ? totalBooked / totalAvailable : null,
+      practitioners: utilisationRows,
+    },
+    conversion: {
+      requests: requestCount,
+      converted: convertedCount,
+      rate: ratio(convertedCount, requestCount),
+      byType,
+    },
+    retention: getRetentionCohorts(clientSessions, from, to),
+    mealPlanTurnaround: {
+      sent: mealPlans.length,
+      averageHours: turnaroundHours.length
+        ? Math.round((turnaroundHours.reduce((sum, hours) => sum + hours, 0) / turnaroundHours.length) * 10) / 10
+        : null,
+      medianHours: turnaroundHours.length ? Math.round(median(turnaroundHours)! * 10) / 10 : null,
+      awaiting,
+    },
+  };
+}
+
+function loadBookings(from: Dayjs, to: Dayjs, dietitianId: string | null): Promise<BookingRow[]> {
+  const supabaseAdmin = createAdminClientServer();
+  return fetchAllRows<BookingRow>((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin
+      .from("bookings")
+      .select("id, user_id, dietitian_id, status, start_time, end_time, cancelled_by_role, no_show_at")
+      .in("status", ["CONFIRMED", "COMPLETED", "CANCELLED"])
+      .gte("start_time", from.toISOString())
+      .lt("start_time", to.toISOString());
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
+    }
+    return query.order("id").range(rangeFrom, rangeTo);
+  }, "bookings");
+}
+
+/**
+ * Every confirmed session, for retention: clients are followed after the range ends too
+ */
+function loadClientSessions(dietitianId: string | null): Promise<{ user_id: string; start_time: string }[]> {
+  const supabaseAdmin = createAdminClientServer();
+  return fetchAllRows<{ user_id: string; start_time: string }>((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin
+      .from("bookings")
+      .select("user_id, start_time")
+      .in("status", ["CONFIRMED", "COMPLETED"]);
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
+    }
+    return query.order("id").range(rangeFrom, rangeTo);
+  }, "sessions");
+}
+
+function loadRequests(from: Dayjs, to: Dayjs, dietitianId: string | null): Promise<RequestRow[]> {
+  const supabaseAdmin = createAdminClientServer();
+  return fetchAllRows<RequestRow>((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin
+      .from("session_requests")
+      .select("id, request_type, status, created_at")
+      .in("request_type", ["CONSULTATION", "MEAL_PLAN"])
+      .gte("created_at", from.toISOString())
+      .lt("created_at", to.toISOString());
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
+    }
+    return query.order("id").range(rangeFrom, rangeTo);
+  }, "session requests");
+}
+
+/**
+ * Successful payments made for a session request (meal plans), earliest first
+ */
+function loadRequestPayments(): Promise<RequestPaymentRow[]> {
+  const supabaseAdmin = createAdminClientServer();
+  return fetchAllRows<RequestPaymentRow>(
+    (rangeFrom, rangeTo) =>
+      supabaseAdmin
+        .from("payments")
+        .select("requestId:metadata->>requestId, paid_at, created_at")
+        .eq("status", "SUCCESS")
+        .not("metadata->>requestId", "is", null)
+        .order("created_at")
+        .range(rangeFrom, rangeTo) as unknown as QueryResult<RequestPaymentRow>,
+    "meal plan payments"
+  );
+}
+
+function loadSentMealPlans(from: Dayjs, to: Dayjs, dietitianId: string | null): Promise<MealPlanRow[]> {
+  const supabaseAdmin = createAdminClientServer();
+  return fetchAllRows<MealPlanRow>((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin
+      .from("meal_plans")
+      .select("session_request_id, sent_at, created_at")
+      .eq("status", "SENT")
+      .gte("sent_at", from.toISOString())
+      .lt("sent_at", to.toISOString());
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
+    }
+    return query.order("id").range(rangeFrom, rangeTo);
+  }, "meal plans");
+}
+
+/**
+ * Practitioners taking bookings, or just the one asked for
+ */
+async function loadPractitioners(dietitianId: string | null): Promise<{ id: string; name: string | null }[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin.from("users").select("id, name").in("role", ["DIETITIAN", "THERAPIST"]);
+  query = dietitianId
+    ? query.eq("id", dietitianId)
+    : query.or("account_status.eq.ACTIVE,account_status.is.null");
+
+  const { data, error } = await query;
+  if (error) {
+    throw new AppError(`Failed to load practitioners: ${error.message}`, "ANALYTICS_FETCH_FAILED", 500);
+  }
+  return data || [];
+}
+
+/**
+ * Minutes each practitioner's active default schedule offers over the range, counting whole days
+ * in the schedule's timezone. Date overrides and out-of-office periods aren't taken into account.
+ */
+async function loadAvailableMinutes(practitionerIds: string[], from: Dayjs, to: Dayjs): Promise<Map<string, number>> {
+  const minutes = new Map<string, number>();
+  if (practitionerIds.length === 0) {
+    return minutes;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("availability_schedules")
+    .select("dietitian_id, timezone, availability_schedule_slots(day_of_week, start_time, end_time, enabled)")
+    .in("dietitian_id", practitionerIds)
+    .eq("active", true)
+    .eq("is_default", true);
+
+  if (error) {
+    throw new AppError(`Failed to load availability: ${error.message}`, "ANALYTICS_FETCH_FAILED", 500);
+  }
+
+  for (const schedule of (data || []) as ScheduleRow[]) {
+    const minutesByDay = new Array(7).fill(0);
+    for (const slot of schedule.availability_schedule_slots || []) {
+      if (slot.enabled) {
+        minutesByDay[slot.day_of_week] += Math.max(0, toMinutes(slot.end_time) - toMinutes(slot.start_time));
+      }
+    }
+
+    const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+    let total = 0;
+    for (let day = from.tz(timezone).startOf("day"); day.isBefore(to); day = day.add(1, "day")) {
+      total += minutesByDay[day.day()];
+    }
+    minutes.set(schedule.dietitian_id, (minutes.get(schedule.dietitian_id) || 0) + total);
+  }
+
+  return minutes;
+}
+
+/**
+ * Monthly cohorts of clients whose first session falls in the range, and how many of them had
+ * a session in each following month
+ */
+function getRetentionCohorts(
+  sessions: { user_id: string; start_time: string }[],
+  from: Dayjs,
+  to: Dayjs
+): RetentionCohort[] {
+  const monthsByClient = new Map<string, Set<string>>();
+  for (const session of sessions) {
+    const month = dayjs(session.start_time).tz(DEFAULT_TIMEZONE).format("YYYY-MM");
+    const months = monthsByClient.get(session.user_id) || new Set<string>();
+    months.add(month);
+    monthsByClient.set(session.user_id, months);
+  }
+
+  const firstMonth = from.tz(DEFAULT_TIMEZONE).format("YYYY-MM");
+  const lastMonth = to.subtract(1, "millisecond").tz(DEFAULT_TIMEZONE).format("YYYY-MM");
+  const currentMonth = dayjs().tz(DEFAULT_TIMEZONE).startOf("month");
+
+  // Each client's session months, grouped by the month of their first session
+  const clientsByCohort = new Map<string, Set<string>[]>();
+  for (const months of monthsByClient.values()) {
+    const cohort = [...months].sort()[0];
+    if (cohort < firstMonth || cohort > lastMonth) continue;
+    clientsByCohort.set(cohort, [...(clientsByCohort.get(cohort) || []), months]);
+  }
+
+  return [...clientsByCohort.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohort, clients]) => {
+      const cohortStart = dayjs.tz(`${cohort}-01`, DEFAULT_TIMEZONE);
+      const followed = Math.min(RETENTION_MONTHS, currentMonth.diff(cohortStart, "month"));
+      const retained = Array.from({ length: followed + 1 }, (_, offset) => {
+        const month = cohortStart.add(offset, "month").format("YYYY-MM");
+        return clients.filter((months) => months.has(month)).length;
+      });
+      return { cohort, clients: clients.length, retained };
+    });
+}
+
+/**
+ * Meal plan requests that have been paid for but not sent yet
+ */
+async function countAwaitingMealPlans(
+  paymentsByRequest: Map<string, RequestPaymentRow>,
+  dietitianId: string | null
+): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+  const pending = await fetchAllRows<{ id: string }>((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin
+      .from("session_requests")
+      .select("id")
+      .eq("request_type", "MEAL_PLAN")
+      .eq("status", "PENDING");
+    if (dietitianId) {
+      query = query.eq("dietitian_id", dietitianId);
+    }
+    return query.order("id").range(rangeFrom, rangeTo);
+  }, "meal plan requests");
+
+  return pending.filter((request) => paymentsByRequest.has(request.id)).length;
+}
@@ -0,0 +1,126 @@
+/**
+ * Admin booking list
+ * Every booking with its client and practitioner, searchable and filterable for the admin
+ * console. Cancelling and reassigning go through lib/bookings.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError } from "@/lib/error-handling";
+import { getSearchPattern, toPaginated, type Paginated, type Pagination } from "@/lib/utils/pagination";
+
+export const BOOKING_STATUSES = ["PENDING", "CONFIRMED", "CANCELLED", "COMPLETED"];
+
+export interface AdminBooking {
+  id: string;
+  title: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+  client: { id: string; name: string | null; email: string | null } | null;
+  practitioner: { id: string; name: string | null; email: string | null } | null;
+  meetingLink: string | null;
+  groupSession: boolean;
+  cancellationReason: string | null;
+  createdAt: string;
+}
+
+export interface AdminBookingFilters {
+  search?: string | null;
+  status?: string | null;
+  dietitianId?: string | null;
+  // Sessions starting on or after / before these dates (ISO 8601)
+  from?: string | null;
+  to?: string | null;
+  // By start time; latest first by default
+  sort?: "asc" | "desc" | null;
+}
+
+type Person = { id: string; name: string | null; email: string | null };
+
+interface BookingRow {
+  id: string;
+  title: string | null;
+  status: string;
+  start_time: string;
+  end_time: string;
+  meeting_link: string | null;
+  group_session_id: string | null;
+  cancellation_reason: string | null;
+  created_at: string;
+  client?: Person | Person[] | null;
+  practitioner?: Person | Person[] | null;
+}
+
+const first = <T>(value: T | T[] | null | undefined): T | null => (Array.isArray(value) ? value[0] : value) || null;
+
+function toAdminBooking(row: BookingRow): AdminBooking {
+  return {
+    id: row.id,
+    title: row.title || "Consultation",
+    status: row.status,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    client: first(row.client),
+    practitioner: first(row.practitioner),
+    meetingLink: row.meeting_link,
+    groupSession: !!row.group_session_id,
+    cancellationReason: row.cancellation_reason,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listAdminBookings(
+  filters: AdminBookingFilters,
+  pagination: Pagination
+): Promise<Paginated<AdminBooking>> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("bookings")
+    .select(
+      `id, title, status, start_time, end_time, meeting_link, group_session_id, cancellation_reason, created_at,
+      client:users!bookings_user_id_fkey(id, name, email),
+      practitioner:users!bookings_dietitian_id_fkey(id, name, email)`,
+      { count: "exact" }
+    );
+
+  // Matches the title, or the client's or practitioner's name or email
+  const pattern = getSearchPattern(filters.search);
+  if (pattern) {
+    const { data: people, error: peopleError } = await supabaseAdmin
+      .from("users")
+      .select("id")
+      .or(`name.ilike.${pattern},email.ilike.${pattern}`)
+      .limit(200);
+    if (peopleError) {
+      throw new AppError(`Failed to search bookings: ${peopleError.message}`, "ADMIN_BOOKINGS_FETCH_FAILED", 500);
+    }
+
+    const ids = (people || []).map((person) => person.id).join(",");
+    query = query.or(
+      ids ? `title.ilike.${pattern},user_id.in.(${ids}),dietitian_id.in.(${ids})` : `title.ilike.${pattern}`
+    );
+  }
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.dietitianId) {
+    query = query.eq("dietitian_id", filters.dietitianId);
+  }
+  if (filters.from) {
+    query = query.gte("start_time", filters.from);
+  }
+  if (filters.to) {
+    query = query.lte("start_time", filters.to);
+  }
+
+  const { data, error, count } = await query
+    .order("start_time", { ascending: filters.sort === "asc" })
+    .range(pagination.from, pagination.to);
+
+  if (error) {
+    throw new AppError(`Failed to load bookings: ${error.message}`, "ADMIN_BOOKINGS_FETCH_FAILED", 500);
+  }
+
+  return toPaginated(((data || []) as BookingRow[]).map(toAdminBooking), count, pagination);
+}
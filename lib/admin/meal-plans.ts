@@ -0,0 +1,200 @@
+/**
+ * Admin meal plan list
+ * Meal plan requests with their payment and the plan the practitioner sent, for the admin
+ * console. A request is PENDING until the practitioner sends the plan, which approves it.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError } from "@/lib/error-handling";
+import { emailQueue } from "@/lib/email/queue";
+import { getSearchPattern, toPaginated, type Paginated, type Pagination } from "@/lib/utils/pagination";
+
+// PENDING: waiting on the practitioner; APPROVED: plan sent
+export const MEAL_PLAN_REQUEST_STATUSES = ["PENDING", "APPROVED", "REJECTED"];
+
+export interface AdminMealPlan {
+  // The session request
+  id: string;
+  packageName: string;
+  status: string;
+  clientName: string;
+  clientEmail: string;
+  practitioner: { id: string; name: string | null } | null;
+  price: number | null;
+  currency: string;
+  paid: boolean;
+  requestedAt: string;
+  // The plan sent for the request, if any
+  mealPlan: {
+    id: string;
+    fileUrl: string | null;
+    fileName: string | null;
+    sentAt: string | null;
+  } | null;
+}
+
+export interface AdminMealPlanFilters {
+  search?: string | null;
+  status?: string | null;
+  dietitianId?: string | null;
+  // Requested on or after / before these dates (ISO 8601)
+  from?: string | null;
+  to?: string | null;
+}
+
+interface RequestRow {
+  id: string;
+  meal_plan_type: string | null;
+  status: string;
+  client_name: string;
+  client_email: string;
+  price: number | string | null;
+  currency: string | null;
+  created_at: string;
+  practitioner?: { id: string; name: string | null } | { id: string; name: string | null }[] | null;
+}
+
+interface MealPlanRow {
+  id: string;
+  session_request_id: string | null;
+  file_url: string | null;
+  file_name: string | null;
+  sent_at: string | null;
+}
+
+export async function listAdminMealPlans(
+  filters: AdminMealPlanFilters,
+  pagination: Pagination
+): Promise<Paginated<AdminMealPlan>> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("session_requests")
+    .select(
+      "id, meal_plan_type, status, client_name, client_email, price, currency, created_at, practitioner:users!session_requests_dietitian_id_fkey(id, name)",
+      { count: "exact" }
+    )
+    .eq("request_type", "MEAL_PLAN");
+
+  const pattern = getSearchPattern(filters.search);
+  if (pattern) {
+    query = query.or(`client_name.ilike.${pattern},client_email.ilike.${pattern},meal_plan_type.ilike.${pattern}`);
+  }
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.dietitianId) {
+    query = query.eq("dietitian_id", filters.dietitianId);
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from);
+  }
+  if (filters.to) {
+    query = query.lte("created_at", filters.to);
+  }
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(pagination.from, pagination.to);
+
+  if (error) {
+    throw new AppError(`Failed to load meal plans: ${error.message}`, "ADMIN_MEAL_PLANS_FETCH_FAILED", 500);
+  }
+
+  const rows = (data || []) as RequestRow[];
+  const ids = rows.map((row) => row.id);
+
+  const [{ data: mealPlans }, { data: payments }] = ids.length
+    ? await Promise.all([
+        supabaseAdmin
+          .from("meal_plans")
+          .select("id, session_request_id, file_url, file_name, sent_at")
+          .in("session_request_id", ids)
+          .order("sent_at", { ascending: false }),
+        // Meal plan payments point at their request through metadata
+        supabaseAdmin
+          .from("payments")
+          .select("metadata->>requestId")
+          .eq("status", "SUCCESS")
+          .in("metadata->>requestId", ids),
+      ])
+    : [{ data: [] }, { data: [] }];
+
+  const plansByRequest = new Map<string, MealPlanRow>();
+  for (const plan of (mealPlans || []) as MealPlanRow[]) {
+    if (plan.session_request_id && !plansByRequest.has(plan.session_request_id)) {
+      plansByRequest.set(plan.session_request_id, plan);
+    }
+  }
+  const paidRequests = new Set(
+    ((payments || []) as { requestId: string | null }[]).map((payment) => payment.requestId)
+  );
+
+  return toPaginated(
+    rows.map((row): AdminMealPlan => {
+      const plan = plansByRequest.get(row.id);
+      return {
+        id: row.id,
+        packageName: row.meal_plan_type || "Meal plan",
+        status: row.status,
+        clientName: row.client_name,
+        clientEmail: row.client_email,
+        practitioner: (Array.isArray(row.practitioner) ? row.practitioner[0] : row.practitioner) || null,
+        price: row.price === null ? null : Number(row.price),
+        currency: row.currency || "NGN",
+        paid: paidRequests.has(row.id),
+        requestedAt: row.created_at,
+        mealPlan: plan
+          ? { id: plan.id, fileUrl: plan.file_url, fileName: plan.file_name, sentAt: plan.sent_at }
+          : null,
+      };
+    }),
+    count,
+    pagination
+  );
+}
+
+/**
+ * Email the client their meal plan again, e.g. when the first email went to spam
+ */
+export async function resendMealPlan(mealPlanId: string, adminId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: mealPlan, error } = await supabaseAdmin
+    .from("meal_plans")
+    .select("id, package_name, file_url, status, user:users!meal_plans_user_id_fkey(name, email)")
+    .eq("id", mealPlanId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load meal plan: ${error.message}`, "ADMIN_MEAL_PLANS_FETCH_FAILED", 500);
+  }
+  if (!mealPlan) {
+    throw new NotFoundError("Meal plan not found");
+  }
+  if (mealPlan.status !== "SENT" || !mealPlan.file_url) {
+    throw new ConflictError("This meal plan hasn't been sent yet");
+  }
+
+  const user = Array.isArray(mealPlan.user) ? mealPlan.user[0] : mealPlan.user;
+  if (!user?.email) {
+    throw new NotFoundError("The client for this meal plan no longer has an account");
+  }
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  const actionLink = `${siteUrl}/user-dashboard/meal-plan`;
+  await emailQueue.enqueue({
+    to: user.email,
+    subject: "Meal Plan Ready - Daiyet",
+    template: "meal_plan_sent",
+    data: {
+      userName: user.name || "User",
+      mealPlanType: mealPlan.package_name,
+      actionLink,
+      // The background worker sends `message` as is
+      message: `Your ${mealPlan.package_name} is ready in your dashboard: ${actionLink}`,
+    },
+  });
+
+  console.log("[Admin] Meal plan resent:", { mealPlanId, adminId });
+}
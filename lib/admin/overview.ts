@@ -0,0 +1,71 @@
+/**
+ * Admin overview
+ * Headline numbers and the next sessions for the admin console's home page
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError } from "@/lib/error-handling";
+import { listPayoutBatches } from "@/lib/payments/payouts";
+import { listAdminBookings, type AdminBooking } from "./bookings";
+
+export interface AdminOverview {
+  totalUsers: number;
+  activePractitioners: number;
+  // Practitioners waiting for their credentials to be reviewed
+  pendingVerifications: number;
+  // Bookings made in the last 30 days, cancelled ones included
+  bookingsLast30Days: number;
+  // Payout batches not yet paid, per currency
+  pendingPayouts: Record<string, number>;
+  upcomingSessions: AdminBooking[];
+}
+
+const UPCOMING_SESSIONS = 5;
+
+export async function getAdminOverview(): Promise<AdminOverview> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const [users, practitioners, verifications, bookings, batches, upcoming] = await Promise.all([
+    supabaseAdmin.from("users").select("id", { count: "exact", head: true }).eq("role", "USER"),
+    supabaseAdmin
+      .from("users")
+      .select("id", { count: "exact", head: true })
+      .in("role", ["DIETITIAN", "THERAPIST"])
+      .or("account_status.eq.ACTIVE,account_status.is.null"),
+    supabaseAdmin
+      .from("practitioner_verifications")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "PENDING"),
+    supabaseAdmin
+      .from("bookings")
+      .select("id", { count: "exact", head: true })
+      .gte("created_at", dayjs().subtract(30, "day").toISOString()),
+    listPayoutBatches(),
+    listAdminBookings(
+      { status: "CONFIRMED", from: new Date().toISOString(), sort: "asc" },
+      { page: 1, pageSize: UPCOMING_SESSIONS, from: 0, to: UPCOMING_SESSIONS - 1 }
+    ),
+  ]);
+
+  const countError = users.error || practitioners.error || verifications.error || bookings.error;
+  if (countError) {
+    throw new AppError(`Failed to load overview: ${countError.message}`, "ADMIN_OVERVIEW_FETCH_FAILED", 500);
+  }
+
+  const pendingPayouts = batches
+    .filter((batch) => batch.status === "PENDING")
+    .reduce<Record<string, number>>(
+      (sum, batch) => ({ ...sum, [batch.currency]: (sum[batch.currency] || 0) + batch.totalNet }),
+      {}
+    );
+
+  return {
+    totalUsers: users.count || 0,
+    activePractitioners: practitioners.count || 0,
+    pendingVerifications: verifications.count || 0,
+    bookingsLast30Days: bookings.count || 0,
+    pendingPayouts,
+    upcomingSessions: upcoming.items,
+  };
+}
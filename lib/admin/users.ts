@@ -0,0 +1,224 @@
+/**
+ * Admin user directory
+ * Search and filter every account, change roles and suspend or reactivate accounts.
+ * Practitioners are suspended and reinstated through their verification, so they get the
+ * same emails and review history as from the verification queue.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { reviewPractitioner } from "@/lib/practitioners/verification";
+import { getSearchPattern, toPaginated, type Paginated, type Pagination } from "@/lib/utils/pagination";
+import type { UserRole } from "@/lib/auth/types";
+
+export const USER_ROLES: UserRole[] = ["USER", "DIETITIAN", "THERAPIST", "ADMIN"];
+
+export const ACCOUNT_STATUSES = ["ACTIVE", "PENDING_VERIFICATION", "SUSPENDED"];
+
+export interface AdminUser {
+  id: string;
+  name: string | null;
+  email: string;
+  role: UserRole;
+  accountStatus: string;
+  createdAt: string;
+  lastSignInAt: string | null;
+  bookingsCount: number;
+}
+
+export interface AdminUserFilters {
+  search?: string | null;
+  role?: string | null;
+  status?: string | null;
+  // Joined on or after / before these dates (ISO 8601)
+  from?: string | null;
+  to?: string | null;
+}
+
+interface UserRow {
+  id: string;
+  name: string | null;
+  email: string;
+  role: UserRole;
+  account_status: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+}
+
+const PRACTITIONER_ROLES: string[] = ["DIETITIAN", "THERAPIST"];
+
+function toAdminUser(row: UserRow, bookingsCount: number): AdminUser {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    accountStatus: row.account_status || "ACTIVE",
+    createdAt: row.created_at,
+    lastSignInAt: row.last_sign_in_at,
+    bookingsCount,
+  };
+}
+
+/**
+ * How many bookings each user has made as a client or taken as a practitioner
+ */
+async function countBookings(users: UserRow[]): Promise<Map<string, number>> {
+  const supabaseAdmin = createAdminClientServer();
+  const counts = new Map<string, number>();
+  if (users.length === 0) {
+    return counts;
+  }
+
+  const ids = users.map((user) => user.id);
+  const [{ data: asClient }, { data: asPractitioner }] = await Promise.all([
+    supabaseAdmin.from("bookings").select("user_id").in("user_id", ids),
+    supabaseAdmin.from("bookings").select("dietitian_id").in("dietitian_id", ids),
+  ]);
+
+  for (const booking of asClient || []) {
+    counts.set(booking.user_id, (counts.get(booking.user_id) || 0) + 1);
+  }
+  for (const booking of asPractitioner || []) {
+    counts.set(booking.dietitian_id, (counts.get(booking.dietitian_id) || 0) + 1);
+  }
+  return counts;
+}
+
+export async function listAdminUsers(filters: AdminUserFilters, pagination: Pagination): Promise<Paginated<AdminUser>> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("users")
+    .select("id, name, email, role, account_status, created_at, last_sign_in_at", { count: "exact" });
+
+  const pattern = getSearchPattern(filters.search);
+  if (pattern) {
+    query = query.or(`name.ilike.${pattern},email.ilike.${pattern}`);
+  }
+  if (filters.role) {
+    query = query.eq("role", filters.role);
+  }
+  if (filters.status === "ACTIVE") {
+    // Accounts from before account_status existed are active
+    query = query.or("account_status.eq.ACTIVE,account_status.is.null");
+  } else if (filters.status) {
+    query = query.eq("account_status", filters.status);
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from);
+  }
+  if (filters.to) {
+    query = query.lte("created_at", filters.to);
+  }
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(pagination.from, pagination.to);
+
+  if (error) {
+    throw new AppError(`Failed to load users: ${error.message}`, "ADMIN_USERS_FETCH_FAILED", 500);
+  }
+
+  const rows = (data || []) as UserRow[];
+  const bookings = await countBookings(rows);
+  return toPaginated(
+    rows.map((row) => toAdminUser(row, bookings.get(row.id) || 0)),
+    count,
+    pagination
+  );
+}
+
+async function getUserRow(userId: string): Promise<UserRow> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email, role, account_status, created_at, last_sign_in_at")
+    .eq("id", userId)
+    .maybeSingle<UserRow>();
+
+  if (error) {
+    throw new AppError(`Failed to load user: ${error.message}`, "ADMIN_USERS_FETCH_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("User not found");
+  }
+  return data;
+}
+
+/**
+ * Give an account another role. An email can hold each role once, so this fails if the
+ * person already has a separate account with the new role.
+ */
+export async function changeUserRole(userId: string, role: string, adminId: string): Promise<AdminUser> {
+  if (!USER_ROLES.includes(role as UserRole)) {
+    throw new ValidationError(`Unknown role: ${role}`);
+  }
+  if (userId === adminId) {
+    throw new ValidationError("You can't change your own role");
+  }
+
+  const user = await getUserRow(userId);
+  if (user.role === role) {
+    return toAdminUser(user, (await countBookings([user])).get(user.id) || 0);
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("users")
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq("id", userId);
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new ConflictError(`${user.email} already has a ${role.toLowerCase()} account`);
+    }
+    throw new AppError(`Failed to change role: ${error.message}`, "ADMIN_USER_UPDATE_FAILED", 500);
+  }
+
+  console.log("[Admin] User role changed:", { userId, from: user.role, to: role, adminId });
+
+  const updated = await getUserRow(userId);
+  return toAdminUser(updated, (await countBookings([updated])).get(updated.id) || 0);
+}
+
+/**
+ * Suspend an account, or make a suspended one active again
+ */
+export async function setUserSuspended(
+  userId: string,
+  suspended: boolean,
+  { notes, adminId }: { notes?: string | null; adminId: string }
+): Promise<AdminUser> {
+  if (userId === adminId) {
+    throw new ValidationError("You can't suspend your own account");
+  }
+
+  const user = await getUserRow(userId);
+  const accountStatus = user.account_status || "ACTIVE";
+
+  if (PRACTITIONER_ROLES.includes(user.role)) {
+    await reviewPractitioner(userId, suspended ? "suspend" : "reinstate", { notes, adminId });
+  } else {
+    if (suspended && accountStatus === "SUSPENDED") {
+      throw new ConflictError("This account is already suspended");
+    }
+    if (!suspended && accountStatus !== "SUSPENDED") {
+      throw new ConflictError("This account isn't suspended");
+    }
+
+    const supabaseAdmin = createAdminClientServer();
+    const { error } = await supabaseAdmin
+      .from("users")
+      .update({ account_status: suspended ? "SUSPENDED" : "ACTIVE", updated_at: new Date().toISOString() })
+      .eq("id", userId);
+
+    if (error) {
+      throw new AppError(`Failed to update account: ${error.message}`, "ADMIN_USER_UPDATE_FAILED", 500);
+    }
+    console.log("[Admin] Account status changed:", { userId, suspended, adminId });
+  }
+
+  const updated = await getUserRow(userId);
+  return toAdminUser(updated, (await countBookings([updated])).get(updated.id) || 0);
+}
@@ -1,6 +1,17 @@
+import { isFixtureAdminEmail } from "./impersonation";
+
 // Admin email - only this email can access admin dashboard
 export const ADMIN_EMAIL = "asereopeyemimichael@gmail.com";
 
+/**
+ * Whether the user is the admin account: ADMIN_EMAIL, or the fixture admin while impersonating
+ * locally. Middleware, the admin console and the admin APIs all need it on top of the ADMIN role.
+ */
+export function isAdminAccount(user: { email?: string | null }): boolean {
+  const email = user.email?.toLowerCase();
+  return email === ADMIN_EMAIL.toLowerCase() || isFixtureAdminEmail(email);
+}
+
 export const authConfig = {
   // Environment-specific settings
   development: {
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isFixtureAdminEmail, isImpersonationEnabled } from "./impersonation";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("isImpersonationEnabled", () => {
+  it("is on under next dev with the flag set", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "true");
+
+    expect(isImpersonationEnabled()).toBe(true);
+  });
+
+  it("is off under next dev without the flag", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "");
+
+    expect(isImpersonationEnabled()).toBe(false);
+  });
+
+  it("is off in production even with the flag set", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "true");
+
+    expect(isImpersonationEnabled()).toBe(false);
+    expect(isFixtureAdminEmail("admin@daiyet.test")).toBe(false);
+  });
+});
+
+describe("next.config", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it("refuses to load for a production build with the flag set", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "true");
+
+    await expect(import("@/next.config")).rejects.toThrow("ENABLE_DEV_IMPERSONATION must not be set");
+  });
+
+  it("loads for a production build without the flag", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "");
+
+    await expect(import("@/next.config")).resolves.toHaveProperty("default");
+  });
+});
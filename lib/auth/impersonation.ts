@@ -0,0 +1,36 @@
+/**
+ * Local impersonation
+ * Developers sign in as a seeded fixture user of any role instead of going through Google OAuth.
+ * It is a real Supabase session, so middleware, pages and API permissions behave exactly as they
+ * do for real accounts. Off unless ENABLE_DEV_IMPERSONATION=true under `next dev`; production
+ * builds inline NODE_ENV as "production", and next.config.ts refuses to build with the flag set.
+ * The fixture admin passes the admin account check (isAdminAccount in ./config). Kept free of
+ * server-only imports so middleware can use it; signing in lives in app/api/dev/impersonate.
+ */
+
+import type { UserRole } from "./types";
+
+export interface FixtureUser {
+  role: UserRole;
+  email: string;
+  name: string;
+}
+
+// One account per role. The .test domain never receives mail.
+export const FIXTURE_USERS: Record<UserRole, FixtureUser> = {
+  USER: { role: "USER", email: "client@daiyet.test", name: "Test Client" },
+  DIETITIAN: { role: "DIETITIAN", email: "dietitian@daiyet.test", name: "Test Dietitian" },
+  THERAPIST: { role: "THERAPIST", email: "therapist@daiyet.test", name: "Test Therapist" },
+  ADMIN: { role: "ADMIN", email: "admin@daiyet.test", name: "Test Admin" },
+};
+
+export function isImpersonationEnabled(): boolean {
+  return process.env.NODE_ENV === "development" && process.env.ENABLE_DEV_IMPERSONATION === "true";
+}
+
+/**
+ * Whether the email belongs to the fixture admin, who stands in for ADMIN_EMAIL while impersonating
+ */
+export function isFixtureAdminEmail(email: string | null | undefined): boolean {
+  return isImpersonationEnabled() && email?.toLowerCase() === FIXTURE_USERS.ADMIN.email;
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/auth-helpers", () => ({ getCurrentUserFromRequest: vi.fn() }));
+vi.mock("@/lib/supabase/server/client", () => ({ createClient: vi.fn() }));
+
+import type { User } from "@/lib/auth-helpers";
+import { ADMIN_EMAIL } from "./config";
+import { authorize } from "./permissions";
+
+function user(overrides: Partial<User>): User {
+  return { id: "user-1", email: "someone@example.com", name: null, role: "USER", is_admin: false, bio: null, image: null, ...overrides };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("authorize", () => {
+  it("lets the admin account administer", () => {
+    expect(authorize(user({ role: "ADMIN", email: ADMIN_EMAIL }), "admin:users:view")).toBeNull();
+  });
+
+  it("keeps other ADMIN role users out of administration", () => {
+    expect(authorize(user({ role: "ADMIN" }), "admin:users:view")?.status).toBe(403);
+    expect(authorize(user({ is_admin: true }), "admin:users:view")?.status).toBe(403);
+  });
+
+  it("still grants other ADMIN role users what every role can do", () => {
+    expect(authorize(user({ role: "ADMIN" }), "book:view:own")).toBeNull();
+  });
+
+  it("lets the fixture admin administer only while impersonation is enabled", () => {
+    const fixtureAdmin = user({ role: "ADMIN", email: "admin@daiyet.test" });
+
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("ENABLE_DEV_IMPERSONATION", "true");
+    expect(authorize(fixtureAdmin, "admin:users:view")).toBeNull();
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(authorize(fixtureAdmin, "admin:users:view")?.status).toBe(403);
+  });
+});
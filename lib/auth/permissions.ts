@@ -0,0 +1,200 @@
+/**
+ * Role-based access control for API routes
+ * Every role is granted a fixed set of permissions. Route handlers declare the permission they
+ * need by wrapping themselves in withPermission(), which resolves the user once and answers
+ * 401/403 with the same JSON everywhere. Administration also needs the admin account
+ * (ADMIN_EMAIL), not only the ADMIN role. Checks that depend on the record (is this the client of
+ * this booking?) stay in the handlers.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { getCurrentUserFromRequest, type User } from "@/lib/auth-helpers";
+import { createClient } from "@/lib/supabase/server/client";
+import { AuthenticationError, ForbiddenError } from "@/lib/error-handling";
+import { normalizeRole } from "@/lib/utils/auth-utils";
+import { isAdminAccount } from "./config";
+import type { Permission, UserRole } from "./types";
+
+const CLIENT_PERMISSIONS: Permission[] = [
+  "book:create",
+  "book:view:own",
+  "book:cancel:own",
+  "book:reschedule:own",
+  "request:view:own",
+  "request:respond:own",
+  "meal-plan:view:own",
+  "notes:view:own",
+  "profile:view:own",
+  "profile:edit:own",
+];
+
+const PRACTITIONER_PERMISSIONS: Permission[] = [
+  "book:view:own",
+  "book:cancel:own",
+  "book:reschedule:own",
+  "book:manage:own",
+  "event:create",
+  "event:view:own",
+  "event:edit:own",
+  "event:delete:own",
+  "availability:manage:own",
+  "request:view:own",
+  "request:manage:own",
+  "meal-plan:view:own",
+  "meal-plan:manage:own",
+  "client:view:own",
+  "earnings:view:own",
+  "practitioner:verification:submit",
+  "profile:view:own",
+  "profile:edit:own",
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  "book:view:all",
+  "book:cancel:any",
+  "book:reassign:any",
+  "event:view:all",
+  "event:edit:any",
+  "event:delete:any",
+  "meal-plan:view:all",
+  "meal-plan:manage:any",
+  "profile:view:any",
+  "admin:users:view",
+  "admin:users:edit",
+  "admin:users:delete",
+  "admin:analytics:view",
+  "admin:settings:manage",
+  "admin:payments:manage",
+  "admin:audit:view",
+  "admin:debug:run",
+];
+
+// Session notes are kept by therapists only
+const THERAPIST_PERMISSIONS: Permission[] = [...PRACTITIONER_PERMISSIONS, "notes:manage:own"];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  USER: CLIENT_PERMISSIONS,
+  DIETITIAN: PRACTITIONER_PERMISSIONS,
+  THERAPIST: THERAPIST_PERMISSIONS,
+  // Admins can do anything any other role can, plus administration
+  ADMIN: [...new Set([...CLIENT_PERMISSIONS, ...THERAPIST_PERMISSIONS, ...ADMIN_PERMISSIONS])],
+};
+
+/**
+ * The role a user's permissions come from. Users flagged is_admin are admins whatever their role.
+ */
+export function getPermissionRole(user: Pick<User, "role" | "is_admin">): UserRole {
+  return user.is_admin ? "ADMIN" : normalizeRole(user.role);
+}
+
+/**
+ * Whether the user holds the permission, or any one of them when given a list
+ */
+export function hasPermission(
+  user: Pick<User, "role" | "is_admin">,
+  permission: Permission | Permission[]
+): boolean {
+  const granted = ROLE_PERMISSIONS[getPermissionRole(user)];
+  return (Array.isArray(permission) ? permission : [permission]).some((p) => granted.includes(p));
+}
+
+function unauthorized(): NextResponse {
+  const error = new AuthenticationError();
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+}
+
+/**
+ * The 401 or 403 response for a user who may not use a route, or null when they may
+ */
+export function authorize(user: User | null, permission: Permission | Permission[]): NextResponse | null {
+  if (!user) {
+    return unauthorized();
+  }
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  const adminOnly = permissions.every((p) => ADMIN_PERMISSIONS.includes(p));
+  if (!hasPermission(user, permission) || (adminOnly && !isAdminAccount(user))) {
+    const error = new ForbiddenError("You don't have permission to do this");
+    return NextResponse.json(
+      { error: error.message, code: error.code, permission },
+      { status: error.statusCode }
+    );
+  }
+  return null;
+}
+
+type RouteParams = Record<string, string | string[]>;
+
+export interface RouteContext<P extends RouteParams = Record<string, never>> {
+  params: Promise<P>;
+}
+
+type RouteHandler<P extends RouteParams, C> = (
+  request: NextRequest,
+  context: RouteContext<P> & C
+) => Response | Promise<Response>;
+
+/**
+ * Route handler for signed-in users holding `permission` (any of them, for a list).
+ * The handler receives the user alongside the route params.
+ */
+export function withPermission<P extends RouteParams = Record<string, never>>(
+  permission: Permission | Permission[],
+  handler: RouteHandler<P, { user: User }>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const user = await getCurrentUserFromRequest(request);
+    const denied = authorize(user, permission);
+    if (denied) {
+      return denied;
+    }
+    return handler(request, { ...context, user: user as User });
+  };
+}
+
+/**
+ * Route handler for anyone signed in to Supabase, whether or not they have a user record for the
+ * role yet: enrollment, and account data shared by all of a person's role accounts (wallet,
+ * referrals). The handler receives the Supabase auth user. A bearer token is used when sent,
+ * otherwise the session cookies.
+ */
+export function withSession<P extends RouteParams = Record<string, never>>(
+  handler: RouteHandler<P, { authUser: SupabaseUser }>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const supabase = await createClient();
+    const authHeader = request.headers.get("authorization");
+    const {
+      data: { user: authUser },
+    } = authHeader?.startsWith("Bearer ")
+      ? await supabase.auth.getUser(authHeader.substring(7))
+      : await supabase.auth.getUser();
+
+    if (!authUser) {
+      return unauthorized();
+    }
+    return handler(request, { ...context, authUser });
+  };
+}
+
+/**
+ * Route handler open to everyone that behaves differently for signed-in users, e.g. practitioners
+ * seeing their own hidden event types. `user` is null for guests; branches that need a permission
+ * check it with authorize().
+ */
+export function withOptionalUser<P extends RouteParams = Record<string, never>>(
+  handler: RouteHandler<P, { user: User | null }>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const user = await getCurrentUserFromRequest(request);
+    return handler(request, { ...context, user });
+  };
+}
+
+/**
+ * Route handler open to everyone, without looking up who is asking. Webhooks and cron endpoints
+ * check their own signatures or secrets.
+ */
+export function withPublicAccess<P extends RouteParams = Record<string, never>>(handler: RouteHandler<P, object>) {
+  return (request: NextRequest, context: RouteContext<P>) => handler(request, context);
+}
@@ -110,7 +110,10 @@ export type Permission =
   | 'book:view:all'
   | 'book:cancel:own'
   | 'book:cancel:any'
-  
+  | 'book:reschedule:own'
+  | 'book:manage:own'
+  | 'book:reassign:any'
+
   // Event permissions
   | 'event:create'
   | 'event:view:own'
@@ -119,15 +122,40 @@ export type Permission =
   | 'event:edit:any'
   | 'event:delete:own'
   | 'event:delete:any'
-  
+
+  // Availability permissions
+  | 'availability:manage:own'
+
+  // Session request permissions
+  | 'request:view:own'
+  | 'request:respond:own'
+  | 'request:manage:own'
+
+  // Meal plan permissions
+  | 'meal-plan:view:own'
+  | 'meal-plan:view:all'
+  | 'meal-plan:manage:own'
+  | 'meal-plan:manage:any'
+
+  // Session note permissions
+  | 'notes:view:own'
+  | 'notes:manage:own'
+
+  // Practitioner permissions
+  | 'client:view:own'
+  | 'earnings:view:own'
+  | 'practitioner:verification:submit'
+
   // Admin permissions
   | 'admin:users:view'
   | 'admin:users:edit'
   | 'admin:users:delete'
   | 'admin:analytics:view'
   | 'admin:settings:manage'
+  | 'admin:payments:manage'
   | 'admin:audit:view'
-  
+  | 'admin:debug:run'
+
   // Profile permissions
   | 'profile:view:own'
   | 'profile:edit:own'
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { calculateAvailableSlots, getBookingLimitViolation, type Booking } from "./calculate-timeslots";
+
+const TIMEZONE = "Africa/Lagos"; // UTC+1 all year
+
+// Monday 2 March 2026, 07:00 in Lagos
+const NOW = "2026-03-02T06:00:00Z";
+
+const monday = [{ dayOfWeek: 1, startTime: "09:10:00", endTime: "11:00:00", enabled: true }];
+
+function booking(startTime: string, minutes: number, extra: Partial<Booking> = {}): Booking {
+  const start = new Date(startTime);
+  return {
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + minutes * 60000).toISOString(),
+    status: "CONFIRMED",
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(NOW));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("getBookingLimitViolation", () => {
+  it("enforces the minimum notice and the booking horizon", () => {
+    const limits = { minimumNoticeMinutes: 120, bookingHorizonDays: 7 };
+
+    expect(getBookingLimitViolation("2026-03-02T07:00:00Z", "2026-03-02T07:30:00Z", [], limits, TIMEZONE)).toBe(
+      "This session must be booked at least 120 minutes in advance"
+    );
+    expect(getBookingLimitViolation("2026-03-02T08:00:00Z", "2026-03-02T08:30:00Z", [], limits, TIMEZONE)).toBeNull();
+    expect(getBookingLimitViolation("2026-03-10T08:00:00Z", "2026-03-10T08:30:00Z", [], limits, TIMEZONE)).toBe(
+      "This session can only be booked up to 7 days in advance"
+    );
+  });
+
+  it("counts the daily cap by the day in the schedule's timezone", () => {
+    // 23:30 UTC on Monday is already Tuesday in Lagos
+    const lateMonday = [booking("2026-03-02T23:30:00Z", 30)];
+    const limits = { maxBookingsPerDay: 1 };
+
+    expect(getBookingLimitViolation("2026-03-02T10:00:00Z", "2026-03-02T10:30:00Z", lateMonday, limits, TIMEZONE)).toBeNull();
+    expect(getBookingLimitViolation("2026-03-03T10:00:00Z", "2026-03-03T10:30:00Z", lateMonday, limits, TIMEZONE)).toBe(
+      "The maximum number of bookings for this day has been reached"
+    );
+    expect(getBookingLimitViolation("2026-03-03T10:00:00Z", "2026-03-03T10:30:00Z", lateMonday, limits, "UTC")).toBeNull();
+  });
+
+  it("keeps the event type's buffers free around the session", () => {
+    const existing = [booking("2026-03-02T10:00:00Z", 30)];
+
+    expect(getBookingLimitViolation("2026-03-02T10:30:00Z", "2026-03-02T11:00:00Z", existing, {}, TIMEZONE)).toBeNull();
+    expect(
+      getBookingLimitViolation("2026-03-02T10:30:00Z", "2026-03-02T11:00:00Z", existing, { beforeEventBuffer: 15 }, TIMEZONE)
+    ).toBe("This time conflicts with another booking");
+  });
+
+  it("lets clients join a group session until its seats run out, without adding to the daily cap", () => {
+    const seat = { eventTypeId: "group-1", groupSessionId: "session-1" };
+    const limits = { seatsPerSlot: 2, eventTypeId: "group-1", maxBookingsPerDay: 1 };
+    const oneSeatTaken = [booking("2026-03-02T10:00:00Z", 60, seat)];
+    const full = [...oneSeatTaken, booking("2026-03-02T10:00:00Z", 60, seat)];
+
+    expect(getBookingLimitViolation("2026-03-02T10:00:00Z", "2026-03-02T11:00:00Z", oneSeatTaken, limits, TIMEZONE)).toBeNull();
+    expect(getBookingLimitViolation("2026-03-02T10:00:00Z", "2026-03-02T11:00:00Z", full, limits, TIMEZONE)).toBe(
+      "This session is full"
+    );
+    // A different start is a new session, which the daily cap stops
+    expect(getBookingLimitViolation("2026-03-02T12:00:00Z", "2026-03-02T13:00:00Z", oneSeatTaken, limits, TIMEZONE)).toBe(
+      "The maximum number of bookings for this day has been reached"
+    );
+  });
+});
+
+describe("calculateAvailableSlots", () => {
+  const date = new Date("2026-03-02T00:00:00Z");
+  const startTimes = (slots: { start: string }[]) => slots.map((slot) => slot.start);
+
+  it("starts slots on clean interval boundaries and steps by the interval", () => {
+    const slots = calculateAvailableSlots(date, monday, [], 60, TIMEZONE, {}, 15);
+
+    // 09:10 in Lagos rounds up to 09:15; the last hour-long session starts at 10:00
+    expect(startTimes(slots)).toEqual([
+      "2026-03-02T08:15:00.000Z",
+      "2026-03-02T08:30:00.000Z",
+      "2026-03-02T08:45:00.000Z",
+      "2026-03-02T09:00:00.000Z",
+    ]);
+    expect(slots.every((slot) => slot.interval === 15)).toBe(true);
+  });
+
+  it("steps by the session length without an interval", () => {
+    expect(startTimes(calculateAvailableSlots(date, monday, [], 30, TIMEZONE))).toEqual([
+      "2026-03-02T08:10:00.000Z",
+      "2026-03-02T08:40:00.000Z",
+      "2026-03-02T09:10:00.000Z",
+    ]);
+  });
+
+  it("shows the seats left in group sessions and hides full ones", () => {
+    const seat = { eventTypeId: "group-1", groupSessionId: "session-1" };
+    const limits = { seatsPerSlot: 3, eventTypeId: "group-1" };
+    const existing = [booking("2026-03-02T08:30:00Z", 30, seat)];
+
+    const slots = calculateAvailableSlots(date, monday, existing, 30, TIMEZONE, limits, 30);
+    expect(slots.find((slot) => slot.start === "2026-03-02T08:30:00.000Z")).toMatchObject({ seats: 3, seatsRemaining: 2 });
+
+    const full = [...existing, booking("2026-03-02T08:30:00Z", 30, seat), booking("2026-03-02T08:30:00Z", 30, seat)];
+    expect(startTimes(calculateAvailableSlots(date, monday, full, 30, TIMEZONE, limits, 30))).not.toContain(
+      "2026-03-02T08:30:00.000Z"
+    );
+  });
+});
@@ -18,8 +18,16 @@ export interface TimeSlot {
   start: string; // ISO 8601 datetime
   end: string; // ISO 8601 datetime
   available: boolean;
+  interval: number; // minutes between consecutive start times that produced this slot
+  seats?: number; // group sessions only: seats per slot
+  seatsRemaining?: number; // group sessions only: seats still free in this slot
 }
 
+/**
+ * Allowed values for event_types.slot_interval (minutes)
+ */
+export const SLOT_INTERVAL_OPTIONS = [15, 30, 60] as const;
+
 export interface AvailabilitySlot {
   dayOfWeek: number; // 0-6 (Sunday-Saturday)
   startTime: string; // HH:MM:SS format
@@ -31,6 +39,8 @@ export interface Booking {
   startTime: string; // ISO 8601 datetime
   endTime: string; // ISO 8601 datetime
   status: string;
+  eventTypeId?: string | null;
+  groupSessionId?: string | null; // set when the booking takes a seat in a group session
 }
 
 export interface DateOverride {
@@ -47,6 +57,175 @@ export interface OutOfOfficePeriod {
   endDate: string; // YYYY-MM-DD
 }
 
+export interface BookingLimits {
+  beforeEventBuffer?: number; // minutes that must be free before the session
+  afterEventBuffer?: number; // minutes that must be free after the session
+  minimumNoticeMinutes?: number; // earliest bookable start is now + notice
+  bookingHorizonDays?: number | null; // latest bookable start is now + horizon
+  maxBookingsPerDay?: number | null; // per day, in the schedule's timezone
+  seatsPerSlot?: number; // more than 1 lets clients share a slot (group sessions)
+  eventTypeId?: string | null; // bookings of this event type at the same start share seats
+}
+
+/**
+ * Map booking limit columns from an event_types row to BookingLimits
+ */
+export function getBookingLimitsFromEventType(eventType: {
+  id?: string | null;
+  seats_per_slot?: number | null;
+  before_event_buffer?: number | null;
+  after_event_buffer?: number | null;
+  minimum_booking_notice?: number | null;
+  booking_horizon_days?: number | null;
+  max_bookings_per_day?: number | null;
+} | null | undefined): BookingLimits {
+  return {
+    beforeEventBuffer: eventType?.before_event_buffer || 0,
+    afterEventBuffer: eventType?.after_event_buffer || 0,
+    minimumNoticeMinutes: eventType?.minimum_booking_notice || 0,
+    bookingHorizonDays: eventType?.booking_horizon_days || null,
+    maxBookingsPerDay: eventType?.max_bookings_per_day || null,
+    seatsPerSlot: eventType?.seats_per_slot || 1,
+    eventTypeId: eventType?.id || null,
+  };
+}
+
+/**
+ * Whether a booking holds a seat in the group session starting at slotStart
+ */
+function takesSeatInSlot(booking: Booking, slotStart: dayjs.Dayjs, limits: BookingLimits): boolean {
+  return (
+    (limits.seatsPerSlot || 1) > 1 &&
+    !!booking.groupSessionId &&
+    booking.eventTypeId === limits.eventTypeId &&
+    dayjs(booking.startTime).isSame(slotStart)
+  );
+}
+
+/**
+ * Count the seats already taken in the group session starting at slotStart
+ */
+function countSeatsTaken(slotStart: dayjs.Dayjs, existingBookings: Booking[], limits: BookingLimits): number {
+  return existingBookings.filter((booking) => takesSeatInSlot(booking, slotStart, limits)).length;
+}
+
+/**
+ * Check whether a slot (padded by the event type's buffers) overlaps an existing booking.
+ * Seats taken in the same group session are not conflicts.
+ */
+function conflictsWithBookings(
+  slotStart: dayjs.Dayjs,
+  slotEnd: dayjs.Dayjs,
+  existingBookings: Booking[],
+  limits: BookingLimits,
+  timezone: string
+): boolean {
+  const paddedStart = slotStart.subtract(limits.beforeEventBuffer || 0, "minute");
+  const paddedEnd = slotEnd.add(limits.afterEventBuffer || 0, "minute");
+
+  return existingBookings.some((booking) => {
+    if (takesSeatInSlot(booking, slotStart, limits)) {
+      return false;
+    }
+
+    const bookingStart = dayjs(booking.startTime).tz(timezone);
+    const bookingEnd = dayjs(booking.endTime).tz(timezone);
+
+    return paddedStart.isBefore(bookingEnd) && paddedEnd.isAfter(bookingStart);
+  });
+}
+
+/**
+ * Count bookings that start on the given date (YYYY-MM-DD) in the schedule's timezone.
+ * A group session counts once however many clients booked it.
+ */
+function countBookingsOnDate(
+  dateStr: string,
+  existingBookings: Booking[],
+  timezone: string
+): number {
+  const groupSessions = new Set<string>();
+  return existingBookings.filter((booking) => {
+    if (dayjs(booking.startTime).tz(timezone).format("YYYY-MM-DD") !== dateStr) {
+      return false;
+    }
+    if (booking.groupSessionId) {
+      if (groupSessions.has(booking.groupSessionId)) {
+        return false;
+      }
+      groupSessions.add(booking.groupSessionId);
+    }
+    return true;
+  }).length;
+}
+
+/**
+ * Earliest and latest bookable start times for the given limits
+ */
+function getBookingWindow(limits: BookingLimits, timezone: string) {
+  const now = TimezoneHelper.now(timezone);
+  return {
+    earliestStart: now.add(limits.minimumNoticeMinutes || 0, "minute"),
+    latestStart: limits.bookingHorizonDays ? now.add(limits.bookingHorizonDays, "day") : null,
+  };
+}
+
+/**
+ * Round a time up to the next clean boundary of the interval (e.g. 09:10 -> 09:15 for 15 minutes)
+ */
+function alignToInterval(time: dayjs.Dayjs, intervalMinutes: number): dayjs.Dayjs {
+  const aligned = time.second(0).millisecond(0);
+  const remainder = (aligned.hour() * 60 + aligned.minute()) % intervalMinutes;
+  return remainder === 0 ? aligned : aligned.add(intervalMinutes - remainder, "minute");
+}
+
+/**
+ * Validate a requested booking time against the event type's booking limits.
+ * Returns a human-readable reason when the time is not bookable, otherwise null.
+ */
+export function getBookingLimitViolation(
+  startTime: string,
+  endTime: string,
+  existingBookings: Booking[],
+  limits: BookingLimits,
+  timezone: string = "Africa/Lagos"
+): string | null {
+  const start = dayjs(startTime).tz(timezone);
+  const end = dayjs(endTime).tz(timezone);
+  const { earliestStart, latestStart } = getBookingWindow(limits, timezone);
+
+  if (start.isBefore(earliestStart)) {
+    return limits.minimumNoticeMinutes
+      ? `This session must be booked at least ${limits.minimumNoticeMinutes} minutes in advance`
+      : "This time is in the past";
+  }
+
+  if (latestStart && start.isAfter(latestStart)) {
+    return `This session can only be booked up to ${limits.bookingHorizonDays} days in advance`;
+  }
+
+  // Joining a group session that already runs does not add a session to the day
+  const seatsTaken = countSeatsTaken(start, existingBookings, limits);
+
+  if (
+    limits.maxBookingsPerDay &&
+    seatsTaken === 0 &&
+    countBookingsOnDate(start.format("YYYY-MM-DD"), existingBookings, timezone) >= limits.maxBookingsPerDay
+  ) {
+    return "The maximum number of bookings for this day has been reached";
+  }
+
+  if (conflictsWithBookings(start, end, existingBookings, limits, timezone)) {
+    return "This time conflicts with another booking";
+  }
+
+  if (seatsTaken >= (limits.seatsPerSlot || 1)) {
+    return "This session is full";
+  }
+
+  return null;
+}
+
 /**
  * Calculate available time slots for a given date range
  */
@@ -55,9 +234,13 @@ export function calculateAvailableSlots(
   availabilitySlots: AvailabilitySlot[],
   existingBookings: Booking[],
   durationMinutes: number,
-  timezone: string = "Africa/Lagos"
+  timezone: string = "Africa/Lagos",
+  limits: BookingLimits = {},
+  slotIntervalMinutes: number | null = null
 ): TimeSlot[] {
   const slots: TimeSlot[] = [];
+  // Start times step by the slot interval when set, otherwise by the session length
+  const stepMinutes = slotIntervalMinutes || durationMinutes;
   
   // CRITICAL FIX: Use TimezoneHelper for all timezone operations
   const dateStr = date.toISOString().split("T")[0]; // YYYY-MM-DD
@@ -84,8 +267,13 @@ export function calculateAvailableSlots(
 
   console.log(`✅ [FIXED] Found ${daySlots.length} slots for ${dayName}`);
 
-  // Get current time in the schedule's timezone to filter out past slots
-  const nowInTimezone = TimezoneHelper.now(timezone);
+  // Slots must start after the minimum notice and before the booking horizon
+  const { earliestStart, latestStart } = getBookingWindow(limits, timezone);
+
+  // Once the daily cap is reached only group sessions that already run can take more clients
+  const seatsPerSlot = limits.seatsPerSlot || 1;
+  const dayCapReached = !!limits.maxBookingsPerDay &&
+    countBookingsOnDate(dateStr, existingBookings, timezone) >= limits.maxBookingsPerDay;
 
   // For each availability slot, generate time slots
   daySlots.forEach((availabilitySlot) => {
@@ -97,14 +285,16 @@ export function calculateAvailableSlots(
 
     console.log(`📊 [FIXED] Parsed times: ${slotStart.format()} to ${slotEnd.format()}`);
 
-    // Skip if slot is in the past
-    if (slotStart.isBefore(nowInTimezone)) {
-      console.log(`⏰ [FIXED] Slot is in the past, skipping`);
+    // Skip if the whole window has already passed
+    if (slotEnd.isBefore(earliestStart)) {
+      console.log(`⏰ [FIXED] Slot is inside the minimum notice period, skipping`);
       return;
     }
 
-    // Generate slots of the specified duration
-    let currentTime = slotStart;
+    // Generate slots of the specified duration, starting on a clean interval boundary
+    let currentTime = slotIntervalMinutes
+      ? alignToInterval(slotStart, slotIntervalMinutes)
+      : slotStart;
 
     while (currentTime.isBefore(slotEnd)) {
       const slotEndTime = currentTime.add(durationMinutes, "minute");
@@ -114,31 +304,42 @@ export function calculateAvailableSlots(
         break;
       }
 
-      // Check if this slot conflicts with existing bookings
-      const conflicts = existingBookings.some((booking) => {
-        const bookingStart = dayjs(booking.startTime).tz(timezone);
-        const bookingEnd = dayjs(booking.endTime).tz(timezone);
+      // Stop once we are past the booking horizon
+      if (latestStart && currentTime.isAfter(latestStart)) {
+        break;
+      }
 
-        // Check for overlap using dayjs comparison
-        return (
-          currentTime.isBefore(bookingEnd) && 
-          slotEndTime.isAfter(bookingStart)
-        );
-      });
+      // Skip slots inside the minimum notice period
+      if (currentTime.isBefore(earliestStart)) {
+        currentTime = currentTime.add(stepMinutes, "minute");
+        continue;
+      }
+
+      // Check if this slot (including buffers) conflicts with existing bookings
+      const seatsTaken = countSeatsTaken(currentTime, existingBookings, limits);
+      const conflicts = conflictsWithBookings(
+        currentTime,
+        slotEndTime,
+        existingBookings,
+        limits,
+        timezone
+      ) || seatsTaken >= seatsPerSlot || (dayCapReached && seatsTaken === 0);
 
       if (!conflicts) {
         slots.push({
           start: currentTime.toISOString(),
           end: slotEndTime.toISOString(),
           available: true,
+          interval: stepMinutes,
+          ...(seatsPerSlot > 1 && { seats: seatsPerSlot, seatsRemaining: seatsPerSlot - seatsTaken }),
         });
         console.log(`✅ [FIXED] Added slot: ${currentTime.format("HH:mm")} - ${slotEndTime.format("HH:mm")}`);
       } else {
         console.log(`🚫 [FIXED] Slot conflicts with booking: ${currentTime.format("HH:mm")}`);
       }
 
-      // Move to next slot (increment by duration) - create new instance to avoid mutation
-      currentTime = currentTime.add(durationMinutes, "minute");
+      // Move to next slot (increment by interval) - create new instance to avoid mutation
+      currentTime = currentTime.add(stepMinutes, "minute");
     }
   });
 
@@ -180,7 +381,9 @@ function calculateAvailableSlotsWithOverride(
   existingBookings: Booking[],
   durationMinutes: number,
   timezone: string,
-  override: DateOverride | null
+  override: DateOverride | null,
+  limits: BookingLimits,
+  slotIntervalMinutes: number | null
 ): TimeSlot[] {
   // If override exists and is unavailable, return no slots
   if (override?.isUnavailable) {
@@ -189,8 +392,10 @@ function calculateAvailableSlotsWithOverride(
 
   // If override exists and has custom slots, use those instead of base schedule
   if (override?.slots && override.slots.length > 0) {
+    // Use the schedule's timezone for the day of week so the override slots match the filter in calculateAvailableSlots
+    const overrideDayOfWeek = TimezoneHelper.getDayOfWeek(date.toISOString().split("T")[0], timezone);
     const overrideAvailabilitySlots: AvailabilitySlot[] = override.slots.map((slot) => ({
-      dayOfWeek: date.getDay(),
+      dayOfWeek: overrideDayOfWeek,
       startTime: slot.startTime,
       endTime: slot.endTime,
       enabled: true,
@@ -201,7 +406,9 @@ function calculateAvailableSlotsWithOverride(
       overrideAvailabilitySlots,
       existingBookings,
       durationMinutes,
-      timezone
+      timezone,
+      limits,
+      slotIntervalMinutes
     );
   }
 
@@ -211,7 +418,9 @@ function calculateAvailableSlotsWithOverride(
     availabilitySlots,
     existingBookings,
     durationMinutes,
-    timezone
+    timezone,
+    limits,
+    slotIntervalMinutes
   );
 }
 
@@ -226,7 +435,9 @@ export function calculateSlotsForDateRange(
   durationMinutes: number,
   timezone: string = "Africa/Lagos",
   oooPeriods: OutOfOfficePeriod[] = [],
-  dateOverrides: DateOverride[] = []
+  dateOverrides: DateOverride[] = [],
+  limits: BookingLimits = {},
+  slotIntervalMinutes: number | null = null
 ): TimeSlot[] {
   console.log('🧮 [DEBUG] calculateSlotsForDateRange called with:', {
     startDate: startDate.toISOString(),
@@ -236,7 +447,9 @@ export function calculateSlotsForDateRange(
     durationMinutes,
     timezone,
     oooPeriodsCount: oooPeriods?.length || 0,
-    dateOverridesCount: dateOverrides?.length || 0
+    dateOverridesCount: dateOverrides?.length || 0,
+    limits,
+    slotIntervalMinutes
   });
 
   console.log('📅 [DEBUG] availabilitySlots sample:', availabilitySlots?.slice(0, 3));
@@ -269,6 +482,17 @@ export function calculateSlotsForDateRange(
       currentDate.setDate(currentDate.getDate() + 1);
       continue;
     }
+
+    // Skip days that have already reached the daily booking cap (group sessions may still have seats)
+    if (
+      limits.maxBookingsPerDay &&
+      (limits.seatsPerSlot || 1) <= 1 &&
+      countBookingsOnDate(dateStr, existingBookings, timezone) >= limits.maxBookingsPerDay
+    ) {
+      console.log(`🚫 [DEBUG] Date ${dateStr} reached max bookings per day (${limits.maxBookingsPerDay}), skipping`);
+      currentDate.setDate(currentDate.getDate() + 1);
+      continue;
+    }
     
     // Check if we have availability slots for this day
     const slotsForDay = availabilitySlots.filter(s => s.dayOfWeek === dayOfWeek && s.enabled);
@@ -299,7 +523,9 @@ export function calculateSlotsForDateRange(
       existingBookings,
       durationMinutes,
       timezone,
-      override
+      override,
+      limits,
+      slotIntervalMinutes
     );
     
     console.log(`📊 [DEBUG] Date ${dateStr} generated ${daySlots.length} slots`);
@@ -0,0 +1,296 @@
+/**
+ * Load everything the slot engine needs for a dietitian/therapist from the database:
+ * the applicable schedule, existing bookings, out-of-office periods, date overrides
+ * and the event type's booking rules
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ForbiddenError } from "@/lib/error-handling";
+import { TimezoneHelper } from "@/lib/utils/timezone";
+import { isSlotBlocking } from "@/lib/bookings/holds";
+import {
+  calculateSlotsForDateRange,
+  getBookingLimitsFromEventType,
+  type AvailabilitySlot,
+  type Booking,
+  type BookingLimits,
+  type DateOverride,
+  type OutOfOfficePeriod,
+  type TimeSlot,
+} from "./calculate-timeslots";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const DEFAULT_TIMEZONE = "Africa/Lagos";
+
+export interface AvailabilityContext {
+  dietitianId: string;
+  scheduleId: string | null; // null when no active schedule applies
+  timezone: string;
+  availabilitySlots: AvailabilitySlot[];
+  bookings: Booking[];
+  oooPeriods: OutOfOfficePeriod[];
+  dateOverrides: DateOverride[];
+  limits: BookingLimits;
+  slotIntervalMinutes: number | null;
+  durationMinutes: number;
+}
+
+export interface LoadAvailabilityOptions {
+  dietitianId: string;
+  eventTypeId?: string | null;
+  startDate: Date; // start of the range to fetch bookings/overrides for
+  endDate: Date; // end of the range to fetch bookings/overrides for
+  durationMinutes?: number; // used when there is no event type
+  excludeBookingIds?: string[]; // e.g. the booking being rescheduled
+  viewerId?: string | null; // the client's own checkout holds don't hide slots from them
+}
+
+const SCHEDULE_SELECT = `
+  id,
+  timezone,
+  availability_schedule_slots (
+    day_of_week,
+    start_time,
+    end_time,
+    enabled
+  )
+`;
+
+/**
+ * Load the availability context for a dietitian and (optionally) one of their event types
+ */
+export async function loadAvailabilityContext({
+  dietitianId,
+  eventTypeId,
+  startDate,
+  endDate,
+  durationMinutes = 30,
+  excludeBookingIds = [],
+  viewerId,
+}: LoadAvailabilityOptions): Promise<AvailabilityContext> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let scheduleIdToUse: string | null = null;
+  let limits: BookingLimits = {};
+  let slotIntervalMinutes: number | null = null;
+
+  if (eventTypeId) {
+    const { data: eventType } = await supabaseAdmin
+      .from("event_types")
+      .select("id, availability_schedule_id, user_id, length, slot_interval, seats_per_slot, before_event_buffer, after_event_buffer, minimum_booking_notice, booking_horizon_days, max_bookings_per_day")
+      .eq("id", eventTypeId)
+      .single();
+
+    if (eventType) {
+      if (eventType.user_id !== dietitianId) {
+        throw new ForbiddenError("Event type does not belong to this dietitian");
+      }
+
+      // If event type has specific schedule, use it; otherwise will use default
+      scheduleIdToUse = eventType.availability_schedule_id;
+      limits = getBookingLimitsFromEventType(eventType);
+      // Sessions always last the event type's full length; the interval only controls start times
+      durationMinutes = eventType.length || durationMinutes;
+      slotIntervalMinutes = eventType.slot_interval || null;
+    }
+  }
+
+  const emptyContext: AvailabilityContext = {
+    dietitianId,
+    scheduleId: null,
+    timezone: DEFAULT_TIMEZONE,
+    availabilitySlots: [],
+    bookings: [],
+    oooPeriods: [],
+    dateOverrides: [],
+    limits,
+    slotIntervalMinutes,
+    durationMinutes,
+  };
+
+  // If all schedules are toggled off there is no availability at all
+  const { data: allSchedules } = await supabaseAdmin
+    .from("availability_schedules")
+    .select("id, active")
+    .eq("dietitian_id", dietitianId);
+
+  if (allSchedules && allSchedules.length > 0 && allSchedules.every((s) => s.active === false)) {
+    return emptyContext;
+  }
+
+  // Use the event type's schedule, falling back to the active default schedule
+  let scheduleQuery = supabaseAdmin
+    .from("availability_schedules")
+    .select(SCHEDULE_SELECT)
+    .eq("dietitian_id", dietitianId)
+    .eq("active", true);
+  scheduleQuery = scheduleIdToUse
+    ? scheduleQuery.eq("id", scheduleIdToUse)
+    : scheduleQuery.eq("is_default", true);
+
+  let { data: schedules, error: schedulesError } = await scheduleQuery;
+
+  if (scheduleIdToUse && !schedulesError && (!schedules || schedules.length === 0)) {
+    console.warn(`Schedule ${scheduleIdToUse} not found, falling back to default`);
+    ({ data: schedules, error: schedulesError } = await supabaseAdmin
+      .from("availability_schedules")
+      .select(SCHEDULE_SELECT)
+      .eq("dietitian_id", dietitianId)
+      .eq("active", true)
+      .eq("is_default", true));
+  }
+
+  if (schedulesError) {
+    throw new AppError("Failed to fetch availability schedules", "SCHEDULES_FETCH_FAILED", 500, schedulesError.message);
+  }
+
+  if (!schedules || schedules.length === 0) {
+    return emptyContext;
+  }
+
+  const schedule = schedules[0];
+  const scheduleTimezone = schedule.timezone && TimezoneHelper.validateTimezone(schedule.timezone)
+    ? schedule.timezone
+    : DEFAULT_TIMEZONE;
+
+  const availabilitySlots: AvailabilitySlot[] = (schedule.availability_schedule_slots || [])
+    .filter((slot: { enabled: boolean }) => slot.enabled)
+    .map((slot: { day_of_week: number; start_time: string; end_time: string }) => ({
+      dayOfWeek: slot.day_of_week,
+      startTime: slot.start_time,
+      endTime: slot.end_time,
+      enabled: true,
+    }));
+
+  const startDateStr = startDate.toISOString().split("T")[0];
+  const endDateStr = endDate.toISOString().split("T")[0];
+
+  const [bookingsResult, oooResult, overridesResult] = await Promise.all([
+    supabaseAdmin
+      .from("bookings")
+      .select("id, user_id, event_type_id, group_session_id, start_time, end_time, status, hold_expires_at")
+      .eq("dietitian_id", dietitianId)
+      .gte("start_time", startDate.toISOString())
+      .lte("end_time", endDate.toISOString())
+      .in("status", ["PENDING", "CONFIRMED"]), // Only count pending and confirmed bookings
+    supabaseAdmin
+      .from("out_of_office_periods")
+      .select("start_date, end_date")
+      .eq("dietitian_id", dietitianId)
+      .lte("start_date", endDateStr)
+      .gte("end_date", startDateStr),
+    supabaseAdmin
+      .from("availability_date_overrides")
+      .select(`
+        override_date,
+        is_unavailable,
+        availability_date_override_slots (
+          start_time,
+          end_time
+        )
+      `)
+      .eq("dietitian_id", dietitianId)
+      .gte("override_date", startDateStr)
+      .lte("override_date", endDateStr),
+  ]);
+
+  // Missing bookings/OOO/overrides degrade to empty lists, matching the timeslots API
+  if (bookingsResult.error) console.error("Error fetching bookings:", bookingsResult.error);
+  if (oooResult.error) console.error("Error fetching OOO periods:", oooResult.error);
+  if (overridesResult.error) console.error("Error fetching date overrides:", overridesResult.error);
+
+  return {
+    dietitianId,
+    scheduleId: schedule.id,
+    timezone: scheduleTimezone,
+    availabilitySlots,
+    bookings: (bookingsResult.data || [])
+      .filter((b) => !excludeBookingIds.includes(b.id) && isSlotBlocking(b, { viewerId }))
+      .map((b) => ({
+        startTime: b.start_time,
+        endTime: b.end_time,
+        status: b.status,
+        eventTypeId: b.event_type_id,
+        groupSessionId: b.group_session_id,
+      })),
+    oooPeriods: (oooResult.data || []).map((period) => ({
+      startDate: period.start_date,
+      endDate: period.end_date,
+    })),
+    dateOverrides: (overridesResult.data || []).map((override) => ({
+      overrideDate: override.override_date,
+      isUnavailable: override.is_unavailable,
+      slots: override.is_unavailable
+        ? undefined
+        : (override.availability_date_override_slots || []).map((slot: { start_time: string; end_time: string }) => ({
+            startTime: slot.start_time,
+            endTime: slot.end_time,
+          })),
+    })),
+    limits,
+    slotIntervalMinutes,
+    durationMinutes,
+  };
+}
+
+/**
+ * Calculate bookable slots for a date range from a loaded context
+ */
+export function getSlotsFromContext(context: AvailabilityContext, startDate: Date, endDate: Date): TimeSlot[] {
+  if (!context.scheduleId) {
+    return [];
+  }
+
+  return calculateSlotsForDateRange(
+    startDate,
+    endDate,
+    context.availabilitySlots,
+    context.bookings,
+    context.durationMinutes,
+    context.timezone,
+    context.oooPeriods,
+    context.dateOverrides,
+    context.limits,
+    context.slotIntervalMinutes
+  );
+}
+
+/**
+ * Check that a start time is one of the slots the engine would offer for that day
+ */
+export async function isStartTimeAvailable({
+  dietitianId,
+  eventTypeId,
+  startTime,
+  durationMinutes,
+  excludeBookingIds,
+}: {
+  dietitianId: string;
+  eventTypeId?: string | null;
+  startTime: string; // ISO 8601
+  durationMinutes?: number;
+  excludeBookingIds?: string[];
+}): Promise<{ available: boolean; slot: TimeSlot | null; context: AvailabilityContext }> {
+  // Fetch a day either side so buffers and daily caps see neighbouring bookings
+  const start = dayjs(startTime);
+  const context = await loadAvailabilityContext({
+    dietitianId,
+    eventTypeId,
+    startDate: start.subtract(1, "day").toDate(),
+    endDate: start.add(2, "day").toDate(),
+    durationMinutes,
+    excludeBookingIds,
+  });
+
+  const dayDate = new Date(start.tz(context.timezone).format("YYYY-MM-DD"));
+  const slot = getSlotsFromContext(context, dayDate, dayDate).find(
+    (s) => dayjs(s.start).isSame(start)
+  ) || null;
+
+  return { available: !!slot, slot, context };
+}
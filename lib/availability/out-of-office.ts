@@ -0,0 +1,199 @@
+/**
+ * Out-of-office forwarding
+ * A practitioner who is away can nominate a colleague (forward_to_team + forward_url on the
+ * out_of_office_periods row). Booking pages show the away notice and, when the forward URL is
+ * a colleague's booking page here, offer that colleague's matching event type instead.
+ * Bookings made this way record the away practitioner in referred_by_dietitian_id.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { DEFAULT_TIMEZONE } from "@/lib/utils/timezone";
+
+export interface OutOfOfficeNotice {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  reason: string;
+  // Where the practitioner sends clients while away; may be an external page
+  forwardUrl: string | null;
+  // Set when forwardUrl is a colleague's booking page on this platform
+  forwardTo: {
+    dietitianId: string;
+    name: string;
+    // The colleague's event type with the same slug, if they offer one
+    eventTypeId: string | null;
+  } | null;
+}
+
+interface OutOfOfficeRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason?: string | null;
+  forward_to_team?: boolean | null;
+  forward_url?: string | null;
+}
+
+// Public booking pages are /Dietitian/<slug> and /Therapist/<slug>
+const BOOKING_PAGE_ROLES: Record<string, string> = {
+  dietitian: "DIETITIAN",
+  therapist: "THERAPIST",
+};
+
+/**
+ * Convert a name to the slug used in booking page URLs
+ */
+function nameToSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/**
+ * Find the practitioner whose booking page a forward URL points to
+ */
+async function findColleagueByForwardUrl(
+  forwardUrl: string,
+  awayDietitianId: string
+): Promise<{ id: string; name: string } | null> {
+  let pathSegments: string[];
+  try {
+    // Relative links are allowed; the base only matters for parsing
+    pathSegments = new URL(forwardUrl, process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000").pathname.split("/").filter(Boolean);
+  } catch {
+    return null;
+  }
+
+  const [section, slug] = pathSegments;
+  const role = section ? BOOKING_PAGE_ROLES[section.toLowerCase()] : undefined;
+  if (!role || !slug) {
+    return null;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data: practitioners, error } = await supabaseAdmin
+    .from("users")
+    .select("id, name")
+    .eq("role", role)
+    .or("account_status.eq.ACTIVE,account_status.is.null");
+
+  if (error) {
+    console.error("[OOO] Failed to look up forwarding colleague:", error.message);
+    return null;
+  }
+
+  const colleague = (practitioners || []).find(
+    (p: { id: string; name: string | null }) =>
+      p.id !== awayDietitianId && nameToSlug(p.name || "") === decodeURIComponent(slug).toLowerCase()
+  );
+
+  return colleague ? { id: colleague.id, name: colleague.name || "Colleague" } : null;
+}
+
+/**
+ * Turn out-of-office periods into the notices shown on booking pages, resolving
+ * each forwarding colleague and their version of the event type being booked
+ */
+export async function getOutOfOfficeNotices(
+  dietitianId: string,
+  periods: OutOfOfficeRow[],
+  eventTypeId?: string | null
+): Promise<OutOfOfficeNotice[]> {
+  if (periods.length === 0) {
+    return [];
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+
+  let eventTypeSlug: string | null = null;
+  if (eventTypeId && periods.some((period) => period.forward_to_team && period.forward_url)) {
+    const { data: eventType } = await supabaseAdmin
+      .from("event_types")
+      .select("slug")
+      .eq("id", eventTypeId)
+      .maybeSingle();
+    eventTypeSlug = eventType?.slug || null;
+  }
+
+  return Promise.all(
+    periods.map(async (period) => {
+      const forwardUrl = period.forward_to_team ? period.forward_url || null : null;
+      let forwardTo: OutOfOfficeNotice["forwardTo"] = null;
+
+      if (forwardUrl) {
+        const colleague = await findColleagueByForwardUrl(forwardUrl, dietitianId);
+        if (colleague) {
+          let colleagueEventTypeId: string | null = null;
+          if (eventTypeSlug) {
+            const { data: colleagueEventType } = await supabaseAdmin
+              .from("event_types")
+              .select("id")
+              .eq("user_id", colleague.id)
+              .eq("slug", eventTypeSlug)
+              .eq("active", true)
+              .maybeSingle();
+            colleagueEventTypeId = colleagueEventType?.id || null;
+          }
+
+          forwardTo = {
+            dietitianId: colleague.id,
+            name: colleague.name,
+            eventTypeId: colleagueEventTypeId,
+          };
+        }
+      }
+
+      return {
+        id: period.id,
+        startDate: period.start_date,
+        endDate: period.end_date,
+        reason: period.reason || "Unspecified",
+        forwardUrl,
+        forwardTo,
+      };
+    })
+  );
+}
+
+/**
+ * Whether a booking with dietitianId at startTime came through referredById's
+ * out-of-office forwarding, so the referral can be recorded on it
+ */
+export async function isForwardedBooking(
+  referredById: string,
+  dietitianId: string,
+  startTime: string
+): Promise<boolean> {
+  if (referredById === dietitianId) {
+    return false;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  // OOO periods are calendar dates in the practice's timezone
+  const sessionDate = new Date(startTime).toLocaleDateString("en-CA", { timeZone: DEFAULT_TIMEZONE }); // YYYY-MM-DD
+
+  const { data: periods, error } = await supabaseAdmin
+    .from("out_of_office_periods")
+    .select("id, start_date, end_date, forward_to_team, forward_url")
+    .eq("dietitian_id", referredById)
+    .eq("forward_to_team", true)
+    .lte("start_date", sessionDate)
+    .gte("end_date", sessionDate);
+
+  if (error || !periods) {
+    return false;
+  }
+
+  for (const period of periods as OutOfOfficeRow[]) {
+    if (!period.forward_url) continue;
+    const colleague = await findColleagueByForwardUrl(period.forward_url, referredById);
+    if (colleague?.id === dietitianId) {
+      return true;
+    }
+  }
+
+  return false;
+}
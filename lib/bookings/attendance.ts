@@ -0,0 +1,67 @@
+/**
+ * Session attendance
+ * The practitioner marks a session the client didn't turn up to, once it has started. Marking a
+ * no-show doesn't refund or cancel the booking; it only feeds the no-show rate in analytics.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import type { User } from "@/lib/auth-helpers";
+import { getBookingParty } from "./cancellation";
+
+export interface BookingAttendance {
+  id: string;
+  noShowAt: string | null;
+}
+
+/**
+ * Mark a session as a client no-show, or clear the mark when `noShow` is false
+ */
+export async function setBookingNoShow({
+  bookingId,
+  actor,
+  noShow,
+}: {
+  bookingId: string;
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">;
+  noShow: boolean;
+}): Promise<BookingAttendance> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select("id, user_id, dietitian_id, status, start_time")
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new NotFoundError("Booking not found");
+  }
+  if (getBookingParty(booking, actor) === "client") {
+    throw new ForbiddenError("Only the practitioner can mark a no-show");
+  }
+  if (booking.status !== "CONFIRMED" && booking.status !== "COMPLETED") {
+    throw new ConflictError("Only confirmed sessions can be marked as a no-show");
+  }
+  if (dayjs(booking.start_time).isAfter(dayjs())) {
+    throw new ValidationError("This session hasn't started yet");
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from("bookings")
+    .update(
+      noShow
+        ? { no_show_at: new Date().toISOString(), no_show_marked_by: actor.id }
+        : { no_show_at: null, no_show_marked_by: null }
+    )
+    .eq("id", booking.id)
+    .select("id, no_show_at")
+    .single();
+
+  if (error || !updated) {
+    throw new AppError(`Failed to update attendance: ${error?.message}`, "ATTENDANCE_UPDATE_FAILED", 500);
+  }
+
+  return { id: updated.id, noShowAt: updated.no_show_at };
+}
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  updates: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  createRefund: vi.fn(),
+  enqueue: vi.fn(),
+  restoreWalletForRefund: vi.fn(),
+}));
+
+// Answers each query with the response set for its table and operation, e.g. "payments.select"
+function from(table: string) {
+  let operation = "select";
+  const result = () => Promise.resolve({ data: mocks.responses[`${table}.${operation}`] ?? null, error: null });
+  const builder = {
+    select: () => builder,
+    update: (values: Record<string, unknown>) => {
+      operation = "update";
+      mocks.updates.push({ table, values });
+      return builder;
+    },
+    delete: () => {
+      operation = "delete";
+      return builder;
+    },
+    eq: () => builder,
+    in: () => builder,
+    limit: () => builder,
+    single: result,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("@/lib/paystack", () => ({ getPaystackClient: () => ({ createRefund: mocks.createRefund }) }));
+vi.mock("@/lib/email/queue", () => ({ emailQueue: { enqueue: mocks.enqueue } }));
+vi.mock("@/lib/payments/wallet", () => ({ restoreWalletForRefund: mocks.restoreWalletForRefund }));
+vi.mock("@/lib/payments/session-bundles", () => ({ restoreSessionCredit: vi.fn() }));
+vi.mock("@/lib/calendar/ics", () => ({ getBookingInviteAttachment: () => ({ name: "invite.ics", content: "" }) }));
+
+import { ADMIN_EMAIL } from "@/lib/auth/config";
+import { calculateRefund, cancelBooking, getBookingParty } from "./cancellation";
+
+const CLIENT = { id: "client-1", email: "client@example.com", role: "USER" as const, is_admin: false };
+const PRACTITIONER = { id: "dietitian-1", email: "dietitian@example.com", role: "DIETITIAN" as const, is_admin: false };
+
+function setUpBooking(payment: Record<string, unknown>, { hoursUntilStart = 48 } = {}) {
+  const startTime = new Date(Date.now() + hoursUntilStart * 60 * 60 * 1000).toISOString();
+  const booking = {
+    id: "booking-1",
+    title: "Consultation",
+    start_time: startTime,
+    end_time: startTime,
+    status: "CONFIRMED",
+    user_id: CLIENT.id,
+    dietitian_id: PRACTITIONER.id,
+    event_type_id: "event-type-1",
+    series_id: null,
+    session_credit_id: null,
+    event_types: { title: "Consultation", cancellation_window_hours: 24, late_cancellation_refund_percent: 50 },
+  };
+
+  mocks.responses = {
+    "bookings.select": booking,
+    "bookings.update": { ...booking, status: "CANCELLED" },
+    "payments.select": { id: "payment-1", paystack_ref: "ref-1", status: "SUCCESS", user_id: CLIENT.id, ...payment },
+    "users.select": [
+      { id: CLIENT.id, name: "Client", email: "client@example.com" },
+      { id: PRACTITIONER.id, name: "Dietitian", email: "dietitian@example.com" },
+    ],
+    "scheduled_jobs.delete": [],
+  };
+}
+
+function clientEmailData() {
+  const email = mocks.enqueue.mock.calls.map(([payload]) => payload).find((payload) => payload.to === "client@example.com");
+  return email?.data;
+}
+
+function paymentUpdate() {
+  return mocks.updates.find((update) => update.table === "payments")?.values;
+}
+
+beforeEach(() => {
+  mocks.updates = [];
+  mocks.createRefund.mockReset().mockResolvedValue({ id: "refund-1", status: "processed" });
+  mocks.enqueue.mockReset().mockResolvedValue(undefined);
+  mocks.restoreWalletForRefund.mockReset().mockResolvedValue(undefined);
+});
+
+describe("calculateRefund", () => {
+  it("refunds a share of what the card was charged, in the payment's currency", () => {
+    expect(calculateRefund({ amount: 40, currency: "USD" }, 50)).toEqual({
+      amount: 20,
+      walletAmount: 0,
+      currency: "USD",
+    });
+  });
+
+  it("refunds the discounted card charge and the wallet balance separately", () => {
+    // 20,000 price, 5,000 off with a promo code, 3,000 from the wallet
+    const payment = { amount: 12000, currency: "NGN", wallet_amount: 3000 };
+
+    expect(calculateRefund(payment, 100)).toEqual({ amount: 12000, walletAmount: 3000, currency: "NGN" });
+    expect(calculateRefund(payment, 50)).toEqual({ amount: 6000, walletAmount: 1500, currency: "NGN" });
+  });
+
+  it("splits a series payment over its occurrences", () => {
+    expect(calculateRefund({ amount: 30000, currency: "NGN", wallet_amount: 1500 }, 100, 3)).toEqual({
+      amount: 10000,
+      walletAmount: 500,
+      currency: "NGN",
+    });
+  });
+});
+
+describe("getBookingParty", () => {
+  const booking = { user_id: CLIENT.id, dietitian_id: PRACTITIONER.id };
+
+  it("treats the admin account as an admin", () => {
+    expect(getBookingParty(booking, { id: "admin-1", email: ADMIN_EMAIL, role: "ADMIN", is_admin: true })).toBe("admin");
+  });
+
+  it("keeps other ADMIN role users out of bookings that aren't theirs", () => {
+    expect(() => getBookingParty(booking, { id: "admin-2", email: "staff@example.com", role: "ADMIN", is_admin: true })).toThrow(
+      "You do not have access to this booking"
+    );
+  });
+});
+
+describe("cancelBooking refunds", () => {
+  it("partially refunds a late cancellation of a USD payment in USD", async () => {
+    setUpBooking({ amount: 40, currency: "USD", wallet_amount: null }, { hoursUntilStart: 2 });
+
+    const { refund } = await cancelBooking({ bookingId: "booking-1", actor: CLIENT });
+
+    expect(refund).toMatchObject({ status: "processed", percent: 50, amount: 20, walletAmount: 0, currency: "USD" });
+    expect(mocks.createRefund).toHaveBeenCalledWith(expect.objectContaining({ reference: "ref-1", amount: 2000 }));
+    expect(mocks.restoreWalletForRefund).not.toHaveBeenCalled();
+    expect(paymentUpdate()).toMatchObject({ refund_amount: 20 });
+    expect(clientEmailData()).toMatchObject({ refundAmount: "20", currency: "USD" });
+  });
+
+  it("refunds the card charge after a promo code and gives the wallet balance back", async () => {
+    setUpBooking({ amount: 12000, currency: "NGN", wallet_amount: 3000, discount_amount: 5000 });
+
+    const { refund } = await cancelBooking({ bookingId: "booking-1", actor: PRACTITIONER });
+
+    expect(refund).toMatchObject({ status: "processed", percent: 100, amount: 12000, walletAmount: 3000 });
+    // Full refunds leave the amount to Paystack, which refunds exactly what was charged
+    expect(mocks.createRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: undefined }));
+    expect(mocks.restoreWalletForRefund).toHaveBeenCalledWith(CLIENT.id, "booking-1", 3000, "NGN");
+    expect(paymentUpdate()).toMatchObject({ refund_amount: 12000, wallet_refund_amount: 3000 });
+    expect(clientEmailData()).toMatchObject({ refundAmount: "12000", walletRefundAmount: "3000", currency: "NGN" });
+  });
+
+  it("records the running refund total when a refund fails after an earlier one", async () => {
+    setUpBooking({ amount: 40, currency: "USD", wallet_amount: null, refund_amount: 20 }, { hoursUntilStart: 2 });
+    mocks.createRefund.mockRejectedValue(new Error("Paystack is down"));
+
+    const { refund } = await cancelBooking({ bookingId: "booking-1", actor: CLIENT });
+
+    expect(refund).toMatchObject({ status: "failed", amount: 20, error: "Paystack is down" });
+    expect(paymentUpdate()).toMatchObject({ refund_status: "failed", refund_amount: 40 });
+  });
+});
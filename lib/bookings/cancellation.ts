@@ -0,0 +1,434 @@
+/**
+ * Booking cancellation
+ * Applies the event type's cancellation policy, refunds what was paid (the card charge through
+ * Paystack, any wallet balance back to the wallet), removes pending reminder jobs and notifies
+ * both parties
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { emailQueue } from "@/lib/email/queue";
+import { getBookingInviteAttachment } from "@/lib/calendar/ics";
+import { getPaystackClient } from "@/lib/paystack";
+import { restoreSessionCredit } from "@/lib/payments/session-bundles";
+import { restoreWalletForRefund } from "@/lib/payments/wallet";
+import { roundMoney } from "@/lib/payments/ledger";
+import { BASE_CURRENCY } from "@/lib/utils/money";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import type { User } from "@/lib/auth-helpers";
+import { isAdminAccount } from "@/lib/auth/config";
+
+export interface CancellationPolicy {
+  windowHours: number; // full refund when cancelled at least this many hours before the start
+  lateRefundPercent: number; // refund percentage for cancellations inside the window
+}
+
+export type CancelledByParty = "client" | "practitioner" | "admin";
+
+export interface RefundResult {
+  status: "processed" | "pending" | "failed" | "not_applicable";
+  percent: number;
+  amount: number; // refunded to the card, in major units of `currency`
+  walletAmount: number; // given back to the client's wallet
+  currency: string; // the payment's currency
+  reference?: string;
+  error?: string;
+}
+
+export interface RefundablePayment {
+  amount: number | string; // what the card was charged, after any promo code and wallet balance
+  currency: string | null;
+  wallet_amount?: number | string | null;
+}
+
+export interface CancelledBooking {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  user_id: string;
+  dietitian_id: string;
+  event_type_id: string;
+  cancelled_at: string;
+  cancelled_by: string;
+  cancelled_by_role: string;
+  cancellation_reason: string | null;
+  [key: string]: unknown;
+}
+
+export interface CancelBookingResult {
+  booking: CancelledBooking;
+  cancelledBy: CancelledByParty;
+  refund: RefundResult;
+  // Bookings made with a prepaid session credit get the credit back instead of a refund
+  creditRestored: boolean;
+  removedJobs: number;
+}
+
+/**
+ * Map cancellation policy columns from an event_types row
+ */
+export function getCancellationPolicy(eventType: {
+  cancellation_window_hours?: number | null;
+  late_cancellation_refund_percent?: number | null;
+} | null | undefined): CancellationPolicy {
+  return {
+    windowHours: eventType?.cancellation_window_hours ?? 24,
+    lateRefundPercent: eventType?.late_cancellation_refund_percent ?? 0,
+  };
+}
+
+/**
+ * Percentage of the price to refund for a cancellation made now.
+ * Practitioner and admin cancellations are always refunded in full.
+ */
+export function calculateRefundPercent(
+  startTime: string,
+  policy: CancellationPolicy,
+  cancelledBy: CancelledByParty,
+  now: Date = new Date()
+): number {
+  if (cancelledBy !== "client") {
+    return 100;
+  }
+
+  const hoursUntilStart = dayjs(startTime).diff(dayjs(now), "minute") / 60;
+  return hoursUntilStart >= policy.windowHours ? 100 : policy.lateRefundPercent;
+}
+
+/**
+ * What to give back for a cancellation: `refundPercent` of what the card was charged and of the
+ * wallet balance spent, split over the `shares` bookings the payment covered (a recurring series)
+ */
+export function calculateRefund(
+  payment: RefundablePayment,
+  refundPercent: number,
+  shares = 1
+): { amount: number; walletAmount: number; currency: string } {
+  const share = (value: number | string | null | undefined) =>
+    roundMoney((Number(value || 0) * refundPercent) / 100 / shares);
+
+  return {
+    amount: share(payment.amount),
+    walletAmount: share(payment.wallet_amount),
+    currency: payment.currency || BASE_CURRENCY,
+  };
+}
+
+/**
+ * Which side of the booking the actor is on. Throws for anyone else. Only the admin account acts
+ * as an admin, as for the admin APIs.
+ */
+export function getBookingParty(
+  booking: { user_id: string; dietitian_id: string },
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">
+): CancelledByParty {
+  if (booking.user_id === actor.id) {
+    return "client";
+  }
+  if (booking.dietitian_id === actor.id) {
+    return "practitioner";
+  }
+  if ((actor.role === "ADMIN" || actor.is_admin) && isAdminAccount(actor)) {
+    return "admin";
+  }
+  throw new ForbiddenError("You do not have access to this booking");
+}
+
+/**
+ * Cancel a booking on behalf of the client, the practitioner or an admin
+ */
+export async function cancelBooking({
+  bookingId,
+  actor,
+  reason,
+}: {
+  bookingId: string;
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">;
+  reason?: string;
+}): Promise<CancelBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select(`
+      *,
+      event_types (
+        title,
+        cancellation_window_hours,
+        late_cancellation_refund_percent
+      )
+    `)
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const cancelledBy = getBookingParty(booking, actor);
+
+  if (booking.status !== "PENDING" && booking.status !== "CONFIRMED") {
+    throw new ConflictError(`Booking is already ${booking.status.toLowerCase()}`);
+  }
+
+  if (cancelledBy === "client" && !dayjs(booking.start_time).isAfter(dayjs())) {
+    throw new ValidationError("Sessions that have already started cannot be cancelled");
+  }
+
+  const policy = getCancellationPolicy(booking.event_types);
+  const refundPercent = calculateRefundPercent(booking.start_time, policy, cancelledBy);
+
+  // Only cancel if still active so concurrent requests cannot both succeed
+  const { data: cancelledBooking, error: updateError } = await supabaseAdmin
+    .from("bookings")
+    .update({
+      status: "CANCELLED",
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: actor.id,
+      cancelled_by_role: actor.role,
+      cancellation_reason: reason || null,
+    })
+    .eq("id", bookingId)
+    .in("status", ["PENDING", "CONFIRMED"])
+    .select()
+    .maybeSingle<CancelledBooking>();
+
+  if (updateError) {
+    throw new Error(`Failed to cancel booking: ${updateError.message}`);
+  }
+  if (!cancelledBooking) {
+    throw new ConflictError("Booking was already cancelled");
+  }
+
+  const refund = await refundBookingPayment(booking, refundPercent, reason);
+  const creditRestored = booking.session_credit_id && refundPercent >= 100
+    ? await restoreSessionCredit(booking.session_credit_id)
+    : false;
+  const removedJobs = await removePendingBookingJobs(bookingId);
+
+  await enqueueCancellationEmails(cancelledBooking, booking.event_types, cancelledBy, refund, reason);
+
+  console.log("[Cancellation] Booking cancelled:", {
+    bookingId,
+    cancelledBy,
+    actorId: actor.id,
+    refund,
+    creditRestored,
+    removedJobs,
+  });
+
+  return { booking: cancelledBooking, cancelledBy, refund, creditRestored, removedJobs };
+}
+
+/**
+ * Refund the booking's successful Paystack payment, if any, and give back the share of wallet
+ * balance spent on it. A recurring series is paid for in one transaction attached to one of its
+ * occurrences, so each occurrence refunds its own share of that payment.
+ */
+async function refundBookingPayment(
+  booking: { id: string; user_id: string; series_id?: string | null },
+  refundPercent: number,
+  reason?: string
+): Promise<RefundResult> {
+  const supabaseAdmin = createAdminClientServer();
+  const bookingId = booking.id;
+
+  const paymentBookingIds = booking.series_id
+    ? await getSeriesBookingIds(booking.series_id)
+    : [bookingId];
+
+  const { data: payment } = await supabaseAdmin
+    .from("payments")
+    .select("id, paystack_ref, status, amount, currency, wallet_amount, refund_amount, wallet_refund_amount, user_id")
+    .in("booking_id", paymentBookingIds)
+    .eq("status", "SUCCESS")
+    .limit(1)
+    .maybeSingle();
+
+  if (!payment?.paystack_ref || refundPercent <= 0) {
+    return {
+      status: "not_applicable",
+      percent: refundPercent,
+      amount: 0,
+      walletAmount: 0,
+      currency: payment?.currency || BASE_CURRENCY,
+    };
+  }
+
+  const { amount, walletAmount, currency } = calculateRefund(payment, refundPercent, paymentBookingIds.length);
+
+  let walletRefunded = 0;
+  if (walletAmount > 0) {
+    try {
+      await restoreWalletForRefund(payment.user_id || booking.user_id, bookingId, walletAmount, currency);
+      walletRefunded = walletAmount;
+    } catch (error) {
+      console.error("[Cancellation] Wallet refund failed:", { bookingId, error });
+    }
+  }
+  const totalWalletRefunded = roundMoney(Number(payment.wallet_refund_amount || 0) + walletRefunded);
+
+  if (amount <= 0) {
+    await supabaseAdmin.from("payments").update({ wallet_refund_amount: totalWalletRefunded }).eq("id", payment.id);
+    return { status: "processed", percent: refundPercent, amount: 0, walletAmount: walletRefunded, currency };
+  }
+
+  // Series payments are refunded once per cancelled occurrence, so amounts add up
+  const totalRefunded = roundMoney(Number(payment.refund_amount || 0) + amount);
+
+  try {
+    const paystackRefund = await getPaystackClient().createRefund({
+      reference: payment.paystack_ref,
+      // Omit the amount for full refunds so Paystack refunds exactly what was charged
+      amount: refundPercent >= 100 && !booking.series_id ? undefined : Math.round(amount * 100),
+      reason,
+    });
+
+    const status = paystackRefund.status === "processed" ? "processed" : "pending";
+    await supabaseAdmin
+      .from("payments")
+      .update({
+        refund_status: status,
+        refund_amount: totalRefunded,
+        wallet_refund_amount: totalWalletRefunded,
+        refund_reference: paystackRefund.id,
+        refund_error: null,
+        refunded_at: status === "processed" ? new Date().toISOString() : null,
+      })
+      .eq("id", payment.id);
+
+    return { status, percent: refundPercent, amount, walletAmount: walletRefunded, currency, reference: paystackRefund.id };
+  } catch (error) {
+    // The booking stays cancelled; failed refunds are recorded for follow-up
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Cancellation] Refund failed:", { bookingId, error: message });
+    await supabaseAdmin
+      .from("payments")
+      .update({
+        refund_status: "failed",
+        refund_amount: totalRefunded,
+        wallet_refund_amount: totalWalletRefunded,
+        refund_error: message,
+      })
+      .eq("id", payment.id);
+
+    return { status: "failed", percent: refundPercent, amount, walletAmount: walletRefunded, currency, error: message };
+  }
+}
+
+/**
+ * Every occurrence of a series; its checkout payment is attached to one of them
+ */
+async function getSeriesBookingIds(seriesId: string): Promise<string[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data } = await supabaseAdmin
+    .from("bookings")
+    .select("id")
+    .eq("series_id", seriesId);
+
+  return (data || []).map((b) => b.id);
+}
+
+/**
+ * Remove reminder/feedback jobs that have not run yet for a booking
+ */
+export async function removePendingBookingJobs(bookingId: string): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data, error } = await supabaseAdmin
+    .from("scheduled_jobs")
+    .delete()
+    .eq("status", "pending")
+    .eq("payload->>booking_id", bookingId)
+    .select("id");
+
+  if (error) {
+    console.error("[Cancellation] Failed to remove scheduled jobs:", { bookingId, error: error.message });
+    return 0;
+  }
+
+  return data?.length || 0;
+}
+
+async function enqueueCancellationEmails(
+  booking: CancelledBooking,
+  eventType: { title?: string | null } | null,
+  cancelledBy: CancelledByParty,
+  refund: RefundResult,
+  reason?: string
+) {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: participants } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email")
+    .in("id", [booking.user_id, booking.dietitian_id]);
+
+  const client = participants?.find((p) => p.id === booking.user_id);
+  const practitioner = participants?.find((p) => p.id === booking.dietitian_id);
+
+  const cancellerLabel = cancelledBy === "client"
+    ? client?.name || "the client"
+    : cancelledBy === "practitioner"
+      ? practitioner?.name || "your practitioner"
+      : "Daiyet support";
+  // Removes the event added by the confirmation invite
+  const invite = getBookingInviteAttachment(
+    { ...booking, title: eventType?.title || booking.title },
+    {
+      method: "CANCEL",
+      organizer: practitioner?.email ? { name: practitioner.name, email: practitioner.email } : null,
+      attendee: client?.email ? { name: client.name, email: client.email } : null,
+    }
+  );
+
+  const baseData = {
+    eventTitle: eventType?.title || booking.title || "Consultation",
+    startTime: booking.start_time, // rendered in each recipient's timezone when enqueued
+    cancellationReason: reason
+      ? `Cancelled by ${cancellerLabel}: ${reason}`
+      : `Cancelled by ${cancellerLabel}`,
+  };
+
+  try {
+    if (client?.email) {
+      await emailQueue.enqueue({
+        to: client.email,
+        recipientId: client.id,
+        subject: "Booking Cancelled - Daiyet",
+        template: "booking_cancelled",
+        data: {
+          ...baseData,
+          userName: client.name || "User",
+          refundAmount: refund.status !== "not_applicable" && refund.amount > 0
+            ? String(refund.amount)
+            : undefined,
+          walletRefundAmount: refund.walletAmount > 0 ? String(refund.walletAmount) : undefined,
+          currency: refund.currency,
+        },
+        attachments: [invite],
+      });
+    }
+
+    if (practitioner?.email) {
+      await emailQueue.enqueue({
+        to: practitioner.email,
+        recipientId: practitioner.id,
+        subject: "Booking Cancelled - Daiyet",
+        template: "booking_cancelled",
+        data: {
+          ...baseData,
+          userName: practitioner.name || "Dietitian",
+        },
+        isDietitian: true,
+        attachments: [invite],
+      });
+    }
+  } catch (emailError) {
+    console.error("[Cancellation] Error enqueueing cancellation emails:", emailError);
+    // Don't fail the cancellation if email fails
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Group sessions
+ * An event type with more than one seat per slot is a group session (e.g. a nutrition class).
+ * Every occurrence is a group_sessions row; each client's booking takes a seat in it and
+ * all of them share the occurrence's Meet link. Capacity is enforced in the database.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { createGoogleMeetLinkOnly } from "@/lib/google-calendar";
+import { AppError, NotFoundError } from "@/lib/error-handling";
+
+export const MAX_SEATS_PER_SLOT = 100;
+
+// Custom SQLSTATE raised by enforce_group_session_capacity when a session is full. Not the
+// generic check_violation, which any CHECK constraint failure would also raise.
+export const GROUP_SESSION_FULL_CODE = "GS001";
+
+export interface GroupSession {
+  id: string;
+  event_type_id: string;
+  dietitian_id: string;
+  start_time: string;
+  end_time: string;
+  meeting_link: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Whether an event type lets several clients book the same slot
+ */
+export function isGroupEventType(eventType: { seats_per_slot?: number | null } | null | undefined): boolean {
+  return (eventType?.seats_per_slot || 1) > 1;
+}
+
+/**
+ * Find the group session for an occurrence, creating it for the first client to book
+ */
+export async function getOrCreateGroupSession({
+  eventType,
+  startTime,
+  endTime,
+}: {
+  eventType: { id: string; user_id: string };
+  startTime: string;
+  endTime: string;
+}): Promise<GroupSession> {
+  const supabaseAdmin = createAdminClientServer();
+
+  // Two clients may book the first seat together; the unique key keeps a single row
+  const { error: upsertError } = await supabaseAdmin
+    .from("group_sessions")
+    .upsert(
+      {
+        event_type_id: eventType.id,
+        dietitian_id: eventType.user_id,
+        start_time: startTime,
+        end_time: endTime,
+      },
+      { onConflict: "event_type_id,start_time", ignoreDuplicates: true }
+    );
+
+  if (upsertError) {
+    throw new AppError(`Failed to create group session: ${upsertError.message}`, "GROUP_SESSION_CREATE_FAILED", 500);
+  }
+
+  const { data: groupSession, error } = await supabaseAdmin
+    .from("group_sessions")
+    .select("*")
+    .eq("event_type_id", eventType.id)
+    .eq("start_time", startTime)
+    .single<GroupSession>();
+
+  if (error || !groupSession) {
+    throw new AppError(`Failed to load group session: ${error?.message}`, "GROUP_SESSION_CREATE_FAILED", 500);
+  }
+
+  return groupSession;
+}
+
+/**
+ * The Meet link shared by everyone in a group session. Created on first use;
+ * throws if Google Calendar fails so callers can fall back like one-on-one bookings.
+ */
+export async function getGroupMeetingLink(groupSessionId: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: groupSession, error } = await supabaseAdmin
+    .from("group_sessions")
+    .select("id, dietitian_id, start_time, end_time, meeting_link, event_types(title)")
+    .eq("id", groupSessionId)
+    .single();
+
+  if (error || !groupSession) {
+    throw new NotFoundError("Group session not found");
+  }
+
+  if (groupSession.meeting_link) {
+    return groupSession.meeting_link;
+  }
+
+  const eventType = Array.isArray(groupSession.event_types) ? groupSession.event_types[0] : groupSession.event_types;
+  const meetLink = await createGoogleMeetLinkOnly(groupSession.dietitian_id, {
+    summary: eventType?.title || "Group Session",
+    startTime: groupSession.start_time,
+    endTime: groupSession.end_time,
+  });
+
+  // Only the first writer wins so every client ends up with the same link
+  const { data: saved } = await supabaseAdmin
+    .from("group_sessions")
+    .update({ meeting_link: meetLink })
+    .eq("id", groupSessionId)
+    .is("meeting_link", null)
+    .select("meeting_link")
+    .maybeSingle();
+
+  if (saved?.meeting_link) {
+    return saved.meeting_link;
+  }
+
+  const { data: current } = await supabaseAdmin
+    .from("group_sessions")
+    .select("meeting_link")
+    .eq("id", groupSessionId)
+    .single();
+
+  return current?.meeting_link || meetLink;
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  // Errors returned by updates, in order
+  updateErrors: [] as unknown[],
+  updates: [] as Array<{ table: string; values: Record<string, unknown> }>,
+  rpc: vi.fn(),
+  createRefund: vi.fn(),
+}));
+
+// Answers each query with the response set for its table and operation, e.g. "payments.select"
+function from(table: string) {
+  let operation = "select";
+  let error: unknown = null;
+  const result = () => Promise.resolve({ data: mocks.responses[`${table}.${operation}`] ?? null, error });
+  const builder = {
+    select: () => builder,
+    update: (values: Record<string, unknown>) => {
+      operation = "update";
+      error = mocks.updateErrors.shift() ?? null;
+      mocks.updates.push({ table, values });
+      return builder;
+    },
+    eq: () => builder,
+    single: result,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from, rpc: mocks.rpc }) }));
+vi.mock("@/lib/paystack", () => ({ getPaystackClient: () => ({ createRefund: mocks.createRefund }) }));
+
+import { confirmPaidBooking, getHoldExpiry, HOLD_EXPIRED_REASON, isSlotBlocking, SLOT_TAKEN_REASON } from "./holds";
+
+const now = new Date("2026-03-02T10:00:00Z");
+
+beforeEach(() => {
+  mocks.responses = {};
+  mocks.updateErrors = [];
+  mocks.updates = [];
+  mocks.rpc.mockReset().mockResolvedValue({ error: null });
+  mocks.createRefund.mockReset().mockResolvedValue({ id: "refund-1", status: "processed", amount: 1000000 });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("getHoldExpiry", () => {
+  it("holds the slot for ten minutes", () => {
+    expect(getHoldExpiry(now)).toBe("2026-03-02T10:10:00.000Z");
+  });
+});
+
+describe("isSlotBlocking", () => {
+  const activeHold = { status: "PENDING", hold_expires_at: "2026-03-02T10:05:00Z", user_id: "client-1" };
+
+  it("blocks for confirmed bookings and active holds, not expired or cancelled ones", () => {
+    expect(isSlotBlocking({ status: "CONFIRMED" }, { now })).toBe(true);
+    expect(isSlotBlocking(activeHold, { now })).toBe(true);
+    expect(isSlotBlocking({ ...activeHold, hold_expires_at: "2026-03-02T09:59:00Z" }, { now })).toBe(false);
+    expect(isSlotBlocking({ status: "CANCELLED" }, { now })).toBe(false);
+  });
+
+  it("always blocks for pending bookings made before holds existed", () => {
+    expect(isSlotBlocking({ status: "PENDING", hold_expires_at: null }, { now })).toBe(true);
+  });
+
+  it("doesn't hide a client's own hold from them", () => {
+    expect(isSlotBlocking(activeHold, { now, viewerId: "client-1" })).toBe(false);
+    expect(isSlotBlocking(activeHold, { now, viewerId: "client-2" })).toBe(true);
+  });
+});
+
+describe("confirmPaidBooking", () => {
+  it("revives a booking whose hold expired while the client paid, and restores its reminders", async () => {
+    mocks.responses = {
+      "bookings.select": { id: "booking-1", status: "CANCELLED", cancellation_reason: HOLD_EXPIRED_REASON },
+    };
+
+    expect(await confirmPaidBooking("booking-1", "ref-1")).toEqual({ confirmed: true });
+    expect(mocks.updates[0].values).toMatchObject({ status: "CONFIRMED", hold_expires_at: null });
+    expect(mocks.rpc).toHaveBeenCalledWith("restore_booking_jobs", { p_booking_id: "booking-1" });
+  });
+
+  it("refunds the payment when someone else confirmed the slot first", async () => {
+    mocks.responses = {
+      "bookings.select": { id: "booking-1", status: "PENDING", cancellation_reason: null },
+      "payments.select": { id: "payment-1", refund_amount: null },
+    };
+    mocks.updateErrors = [{ code: "23P01", message: "conflicting key value" }];
+
+    expect(await confirmPaidBooking("booking-1", "ref-1", { refundAmount: 10000 })).toEqual({
+      confirmed: false,
+      reason: SLOT_TAKEN_REASON,
+      refunded: true,
+    });
+    expect(mocks.createRefund).toHaveBeenCalledWith({ reference: "ref-1", amount: 1000000, reason: SLOT_TAKEN_REASON });
+    expect(mocks.updates.find((update) => update.table === "payments")?.values).toMatchObject({
+      refund_status: "processed",
+      refund_amount: 10000,
+    });
+  });
+
+  it("leaves bookings cancelled by a party alone", async () => {
+    mocks.responses = {
+      "bookings.select": { id: "booking-1", status: "CANCELLED", cancellation_reason: "Client cancelled" },
+    };
+
+    expect(await confirmPaidBooking("booking-1", "ref-1")).toEqual({ confirmed: false, reason: "Client cancelled" });
+    expect(mocks.updates).toEqual([]);
+  });
+});
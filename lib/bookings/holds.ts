@@ -0,0 +1,181 @@
+/**
+ * Slot holds
+ * A PENDING booking reserves its slot for SLOT_HOLD_MINUTES while the client pays.
+ * Expired holds stop blocking availability and are cancelled by the background worker
+ * (expire_slot_holds). The bookings_no_overlapping_confirmed constraint is the final
+ * guard: a payment for a slot someone else confirmed first is refunded.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { getPaystackClient } from "@/lib/paystack";
+import { GROUP_SESSION_FULL_CODE } from "./group-sessions";
+
+export const SLOT_HOLD_MINUTES = 10;
+
+export const HOLD_EXPIRED_REASON = "Checkout was not completed in time";
+export const SLOT_TAKEN_REASON = "Time slot was booked by someone else before payment completed";
+
+// Postgres exclusion_violation
+const EXCLUSION_VIOLATION = "23P01";
+
+export interface HeldBooking {
+  status: string;
+  hold_expires_at?: string | null;
+  user_id?: string | null;
+}
+
+export interface ConfirmPaidBookingResult {
+  confirmed: boolean;
+  reason?: string;
+  refunded?: boolean;
+}
+
+/**
+ * When a hold created now should expire
+ */
+export function getHoldExpiry(from: Date = new Date()): string {
+  return new Date(from.getTime() + SLOT_HOLD_MINUTES * 60 * 1000).toISOString();
+}
+
+/**
+ * Whether a booking still occupies its slot. PENDING bookings only block while their
+ * hold is active (bookings made before holds existed have no expiry and always block).
+ * A client's own active hold does not hide the slot from them, so they can resume checkout.
+ */
+export function isSlotBlocking(
+  booking: HeldBooking,
+  { now = new Date(), viewerId }: { now?: Date; viewerId?: string | null } = {}
+): boolean {
+  if (booking.status === "CONFIRMED") {
+    return true;
+  }
+  if (booking.status !== "PENDING") {
+    return false;
+  }
+  if (!booking.hold_expires_at) {
+    return true;
+  }
+  if (new Date(booking.hold_expires_at) <= now) {
+    return false;
+  }
+  return !viewerId || booking.user_id !== viewerId;
+}
+
+/**
+ * Confirm a booking once its payment succeeds. Revives bookings whose hold expired
+ * while the client was paying, as long as nobody else has confirmed the slot.
+ * Otherwise the payment (or, for series occurrences, `refundAmount` of it) is refunded.
+ */
+export async function confirmPaidBooking(
+  bookingId: string,
+  paystackRef: string,
+  { refundAmount }: { refundAmount?: number } = {}
+): Promise<ConfirmPaidBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: fetchError } = await supabaseAdmin
+    .from("bookings")
+    .select("id, status, cancellation_reason")
+    .eq("id", bookingId)
+    .single();
+
+  if (fetchError || !booking) {
+    return { confirmed: false, reason: "Booking not found" };
+  }
+
+  if (booking.status === "CONFIRMED") {
+    return { confirmed: true };
+  }
+
+  const wasExpired = booking.status === "CANCELLED" && booking.cancellation_reason === HOLD_EXPIRED_REASON;
+  // Already refunded (slot taken) or cancelled by a party; the webhook and verify can both land here
+  if (booking.status !== "PENDING" && !wasExpired) {
+    return { confirmed: false, reason: booking.cancellation_reason || `Booking is ${booking.status.toLowerCase()}` };
+  }
+
+  const { error: confirmError } = await supabaseAdmin
+    .from("bookings")
+    .update({
+      status: "CONFIRMED",
+      hold_expires_at: null,
+      cancelled_at: null,
+      cancellation_reason: null,
+    })
+    .eq("id", bookingId)
+    .eq("status", booking.status);
+
+  // Group sessions fill up instead of overlapping
+  if (confirmError?.code === EXCLUSION_VIOLATION || confirmError?.code === GROUP_SESSION_FULL_CODE) {
+    console.warn("[Holds] Slot already confirmed for another booking:", { bookingId, paystackRef });
+    await supabaseAdmin
+      .from("bookings")
+      .update({
+        status: "CANCELLED",
+        hold_expires_at: null,
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: SLOT_TAKEN_REASON,
+      })
+      .eq("id", bookingId);
+
+    const refunded = await refundUnusedPayment(paystackRef, refundAmount, SLOT_TAKEN_REASON);
+    return { confirmed: false, reason: SLOT_TAKEN_REASON, refunded };
+  }
+
+  if (confirmError) {
+    throw new Error(`Failed to confirm booking: ${confirmError.message}`);
+  }
+
+  // Expiry removed the booking's reminders
+  if (wasExpired) {
+    const { error: jobsError } = await supabaseAdmin.rpc("restore_booking_jobs", { p_booking_id: bookingId });
+    if (jobsError) {
+      console.error("[Holds] Failed to restore booking jobs:", { bookingId, error: jobsError.message });
+    }
+  }
+
+  return { confirmed: true };
+}
+
+/**
+ * Refund a payment whose booking could not be confirmed and record it on the payment
+ */
+async function refundUnusedPayment(paystackRef: string, amount: number | undefined, reason: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClientServer();
+
+  try {
+    const refund = await getPaystackClient().createRefund({
+      reference: paystackRef,
+      amount: amount !== undefined ? Math.round(amount * 100) : undefined,
+      reason,
+    });
+
+    const { data: payment } = await supabaseAdmin
+      .from("payments")
+      .select("id, refund_amount")
+      .eq("paystack_ref", paystackRef)
+      .maybeSingle();
+
+    if (payment) {
+      await supabaseAdmin
+        .from("payments")
+        .update({
+          refund_status: refund.status === "processed" ? "processed" : "pending",
+          refund_amount: Number(payment.refund_amount || 0) + refund.amount / 100,
+          refund_reference: refund.id,
+          refund_error: null,
+          refunded_at: refund.status === "processed" ? new Date().toISOString() : null,
+        })
+        .eq("id", payment.id);
+    }
+
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Holds] Refund for unconfirmed booking failed:", { paystackRef, error: message });
+    await supabaseAdmin
+      .from("payments")
+      .update({ refund_status: "failed", refund_error: message })
+      .eq("paystack_ref", paystackRef);
+    return false;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Booking reassignment
+ * Admins move a booking to another practitioner at the same time, e.g. when the original
+ * practitioner is unavailable or suspended. The new practitioner must be free then; the
+ * booking gets a Google Meet link from their calendar and all three people are emailed.
+ * The payment stays in the original practitioner's ledger entry, since Paystack may already
+ * have split it to them; settle any difference through payouts.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { emailQueue } from "@/lib/email/queue";
+import { getBookingInviteAttachment } from "@/lib/calendar/ics";
+import { rescheduleGoogleMeetEvent } from "@/lib/google-calendar";
+import { isStartTimeAvailable } from "@/lib/availability/load-availability";
+import { isPractitionerActive } from "@/lib/practitioners/verification";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+
+export interface ReassignedBooking {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  user_id: string;
+  dietitian_id: string;
+  meeting_link: string | null;
+  google_event_id: string | null;
+  [key: string]: unknown;
+}
+
+export interface ReassignBookingResult {
+  booking: ReassignedBooking;
+  previousDietitianId: string;
+}
+
+export async function reassignBooking({
+  bookingId,
+  dietitianId,
+  adminId,
+}: {
+  bookingId: string;
+  dietitianId: string;
+  adminId: string;
+}): Promise<ReassignBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select("*, event_types ( title )")
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new NotFoundError("Booking not found");
+  }
+  if (booking.status !== "PENDING" && booking.status !== "CONFIRMED") {
+    throw new ConflictError(`Booking is already ${booking.status.toLowerCase()}`);
+  }
+  // The seat belongs to the practitioner's group session
+  if (booking.group_session_id) {
+    throw new ValidationError("Group session bookings can't be reassigned");
+  }
+  if (booking.dietitian_id === dietitianId) {
+    throw new ValidationError("The booking is already with this practitioner");
+  }
+  if (!dayjs(booking.start_time).isAfter(dayjs())) {
+    throw new ValidationError("Sessions that have already started can't be reassigned");
+  }
+
+  const { data: practitioner } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email")
+    .eq("id", dietitianId)
+    .in("role", ["DIETITIAN", "THERAPIST"])
+    .maybeSingle();
+  if (!practitioner) {
+    throw new NotFoundError("Practitioner not found");
+  }
+  if (!(await isPractitionerActive(dietitianId))) {
+    throw new ConflictError(`${practitioner.name || "This practitioner"} isn't taking bookings right now`);
+  }
+
+  // The event type is the original practitioner's, so check the new one's general availability
+  const durationMinutes = dayjs(booking.end_time).diff(dayjs(booking.start_time), "minute");
+  const { available } = await isStartTimeAvailable({
+    dietitianId,
+    startTime: booking.start_time,
+    durationMinutes,
+  });
+  if (!available) {
+    throw new ConflictError(`${practitioner.name || "This practitioner"} isn't available at this time`);
+  }
+
+  const { data: reassigned, error: updateError } = await supabaseAdmin
+    .from("bookings")
+    .update({ dietitian_id: dietitianId, meeting_link: null, google_event_id: null })
+    .eq("id", booking.id)
+    .eq("dietitian_id", booking.dietitian_id)
+    .in("status", ["PENDING", "CONFIRMED"])
+    .select()
+    .maybeSingle<ReassignedBooking>();
+
+  if (updateError) {
+    throw new AppError(`Failed to reassign booking: ${updateError.message}`, "REASSIGN_FAILED", 500);
+  }
+  if (!reassigned) {
+    throw new ConflictError("This booking changed while it was being reassigned. Please try again.");
+  }
+
+  const eventTitle = booking.event_types?.title || booking.title || "Consultation";
+  const updatedBooking = await createMeetingLink(reassigned, eventTitle);
+
+  await enqueueReassignmentEmails(updatedBooking, eventTitle, booking.dietitian_id);
+
+  console.log("[Reassign] Booking reassigned:", {
+    bookingId: booking.id,
+    from: booking.dietitian_id,
+    to: dietitianId,
+    adminId,
+  });
+
+  return { booking: updatedBooking, previousDietitianId: booking.dietitian_id };
+}
+
+/**
+ * A Google Meet event on the new practitioner's calendar. Without Google Calendar the booking
+ * has no link until the practitioner generates one.
+ */
+async function createMeetingLink(booking: ReassignedBooking, summary: string): Promise<ReassignedBooking> {
+  const supabaseAdmin = createAdminClientServer();
+
+  try {
+    const { meetLink, eventId } = await rescheduleGoogleMeetEvent(booking.dietitian_id, {
+      summary,
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+    });
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("bookings")
+      .update({ meeting_link: meetLink, google_event_id: eventId })
+      .eq("id", booking.id)
+      .select()
+      .single<ReassignedBooking>();
+
+    if (error || !updated) {
+      console.error("[Reassign] Failed to store meeting link:", { bookingId: booking.id, error: error?.message });
+      return { ...booking, meeting_link: meetLink, google_event_id: eventId };
+    }
+
+    return updated;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Reassign] Could not create Google Meet event:", { bookingId: booking.id, error: message });
+    return booking;
+  }
+}
+
+async function enqueueReassignmentEmails(booking: ReassignedBooking, eventTitle: string, previousDietitianId: string) {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: participants } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email")
+    .in("id", [booking.user_id, booking.dietitian_id, previousDietitianId]);
+
+  const client = participants?.find((p) => p.id === booking.user_id);
+  const practitioner = participants?.find((p) => p.id === booking.dietitian_id);
+  const previousPractitioner = participants?.find((p) => p.id === previousDietitianId);
+
+  const invite = getBookingInviteAttachment(
+    { ...booking, title: eventTitle },
+    {
+      method: "REQUEST",
+      organizer: practitioner?.email ? { name: practitioner.name, email: practitioner.email } : null,
+      attendee: client?.email ? { name: client.name, email: client.email } : null,
+    }
+  );
+
+  // Removes the session from the previous practitioner's calendar
+  const cancelInvite = getBookingInviteAttachment(
+    { ...booking, title: eventTitle },
+    {
+      method: "CANCEL",
+      organizer: previousPractitioner?.email
+        ? { name: previousPractitioner.name, email: previousPractitioner.email }
+        : null,
+      attendee: client?.email ? { name: client.name, email: client.email } : null,
+    }
+  );
+
+  const baseData = {
+    eventTitle,
+    startTime: booking.start_time,
+    meetingLink: booking.meeting_link || undefined,
+  };
+
+  try {
+    if (client?.email) {
+      await emailQueue.enqueue({
+        to: client.email,
+        recipientId: client.id,
+        subject: "Your session has a new practitioner - Daiyet",
+        template: "booking_rescheduled",
+        data: {
+          ...baseData,
+          userName: client.name || "User",
+          rescheduleReason: `Your session is now with ${practitioner?.name || "another practitioner"}, at the same time.`,
+        },
+        attachments: [invite],
+      });
+    }
+
+    if (practitioner?.email) {
+      await emailQueue.enqueue({
+        to: practitioner.email,
+        recipientId: practitioner.id,
+        subject: "New Booking Confirmed",
+        template: "booking_confirmation",
+        data: {
+          ...baseData,
+          userName: practitioner.name || "Dietitian",
+        },
+        attachments: [invite],
+        isDietitian: true,
+      });
+    }
+
+    if (previousPractitioner?.email) {
+      await emailQueue.enqueue({
+        to: previousPractitioner.email,
+        recipientId: previousPractitioner.id,
+        subject: "Booking Reassigned - Daiyet",
+        template: "booking_cancelled",
+        data: {
+          ...baseData,
+          meetingLink: undefined,
+          userName: previousPractitioner.name || "Dietitian",
+          cancellationReason: "Our team moved this session to another practitioner.",
+        },
+        attachments: [cancelInvite],
+        isDietitian: true,
+      });
+    }
+  } catch (emailError) {
+    console.error("[Reassign] Error enqueueing reassignment emails:", emailError);
+    // Don't fail the reassignment if email fails
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Booking rescheduling
+ * Moves a booking (directly, or via a RESCHEDULE_REQUEST session request) to a new slot,
+ * keeps the Google Meet event in sync, re-creates reminder jobs and notifies both parties
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { emailQueue } from "@/lib/email/queue";
+import { getBookingInviteAttachment } from "@/lib/calendar/ics";
+import { rescheduleGoogleMeetEvent } from "@/lib/google-calendar";
+import { isStartTimeAvailable } from "@/lib/availability/load-availability";
+import { AppError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { getBookingParty, type CancelledByParty } from "./cancellation";
+import type { User } from "@/lib/auth-helpers";
+
+export interface RescheduledBooking {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  user_id: string;
+  dietitian_id: string;
+  event_type_id: string;
+  meeting_link: string | null;
+  google_event_id: string | null;
+  rescheduled_at: string | null;
+  [key: string]: unknown;
+}
+
+export interface RescheduleBookingResult {
+  booking: RescheduledBooking;
+  previousStartTime: string;
+  durationMinutes: number;
+}
+
+/**
+ * Accept a practitioner's reschedule request by moving the original booking to a new start time
+ */
+export async function rescheduleBookingFromRequest({
+  sessionRequestId,
+  user,
+  startTime,
+}: {
+  sessionRequestId: string;
+  user: Pick<User, "id" | "email" | "role" | "is_admin">;
+  startTime: string; // ISO 8601
+}): Promise<RescheduleBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: sessionRequest, error: requestError } = await supabaseAdmin
+    .from("session_requests")
+    .select("id, request_type, client_email, dietitian_id, status, original_booking_id")
+    .eq("id", sessionRequestId)
+    .single();
+
+  if (requestError || !sessionRequest) {
+    throw new NotFoundError("Session request not found");
+  }
+
+  if (sessionRequest.client_email?.toLowerCase() !== user.email.toLowerCase()) {
+    throw new ForbiddenError("This session request does not belong to you");
+  }
+
+  if (sessionRequest.request_type !== "RESCHEDULE_REQUEST") {
+    throw new ValidationError("Session request is not a reschedule request");
+  }
+
+  if (sessionRequest.status !== "PENDING" && sessionRequest.status !== "RESCHEDULE_REQUESTED") {
+    throw new ConflictError(`Session request has already been ${sessionRequest.status.toLowerCase()}`);
+  }
+
+  if (!sessionRequest.original_booking_id) {
+    throw new ValidationError("Reschedule request is not linked to a booking");
+  }
+
+  return moveBooking({
+    bookingId: sessionRequest.original_booking_id,
+    actor: user,
+    startTime,
+    sessionRequestId: sessionRequest.id,
+  });
+}
+
+/**
+ * Move a booking to a new start time after checking it against the practitioner's
+ * availability. Only the booking's client, its practitioner or an admin may move it.
+ */
+export async function moveBooking({
+  bookingId,
+  actor,
+  startTime,
+  sessionRequestId,
+}: {
+  bookingId: string;
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">;
+  startTime: string; // ISO 8601
+  sessionRequestId?: string;
+}): Promise<RescheduleBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select(`
+      *,
+      event_types (
+        title,
+        length
+      )
+    `)
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const movedBy = getBookingParty(booking, actor);
+
+  if (booking.status !== "PENDING" && booking.status !== "CONFIRMED") {
+    throw new ConflictError(`Booking is already ${booking.status.toLowerCase()}`);
+  }
+
+  // A seat can't follow the client to another time; they cancel and book another session
+  if (booking.group_session_id) {
+    throw new ValidationError("Group session bookings can't be moved");
+  }
+
+  const newStart = dayjs(startTime);
+  if (!newStart.isValid()) {
+    throw new ValidationError("Invalid start time");
+  }
+
+  // The booking's current slot must not block its own new slot
+  const { available, context } = await isStartTimeAvailable({
+    dietitianId: booking.dietitian_id,
+    eventTypeId: booking.event_type_id,
+    startTime: newStart.toISOString(),
+    durationMinutes: booking.event_types?.length || undefined,
+    excludeBookingIds: [booking.id],
+  });
+
+  if (!available) {
+    throw new ConflictError("Time slot not available");
+  }
+
+  const durationMinutes = context.durationMinutes;
+  const newEnd = newStart.add(durationMinutes, "minute");
+
+  const { data: rescheduled, error: rpcError } = await supabaseAdmin
+    .rpc("reschedule_booking", {
+      p_booking_id: booking.id,
+      p_expected_start: booking.start_time,
+      p_new_start: newStart.toISOString(),
+      p_new_end: newEnd.toISOString(),
+      p_session_request_id: sessionRequestId || null,
+    })
+    .maybeSingle<RescheduledBooking>();
+
+  if (rpcError) {
+    if (rpcError.code === "P0002") {
+      throw new NotFoundError(rpcError.message);
+    }
+    if (rpcError.code === "P0001" || rpcError.code === "23P01") {
+      throw new ConflictError(rpcError.message);
+    }
+    throw new AppError(`Failed to reschedule booking: ${rpcError.message}`, "RESCHEDULE_FAILED", 500);
+  }
+  if (!rescheduled) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const eventTitle = booking.event_types?.title || booking.title || "Consultation";
+  const updatedBooking = await syncMeetingLink(rescheduled, eventTitle);
+
+  await enqueueRescheduleEmails(updatedBooking, eventTitle, movedBy);
+
+  console.log("[Reschedule] Booking rescheduled:", {
+    bookingId: booking.id,
+    sessionRequestId,
+    movedBy,
+    from: booking.start_time,
+    to: updatedBooking.start_time,
+  });
+
+  return {
+    booking: updatedBooking,
+    previousStartTime: booking.start_time,
+    durationMinutes,
+  };
+}
+
+/**
+ * Move (or recreate) the booking's Google Meet event. The booking keeps its
+ * old link if Google Calendar is unavailable.
+ */
+async function syncMeetingLink(booking: RescheduledBooking, summary: string): Promise<RescheduledBooking> {
+  const supabaseAdmin = createAdminClientServer();
+
+  try {
+    const { meetLink, eventId } = await rescheduleGoogleMeetEvent(booking.dietitian_id, {
+      eventId: booking.google_event_id,
+      summary,
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+    });
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("bookings")
+      .update({ meeting_link: meetLink, google_event_id: eventId })
+      .eq("id", booking.id)
+      .select()
+      .single<RescheduledBooking>();
+
+    if (error || !updated) {
+      console.error("[Reschedule] Failed to store meeting link:", { bookingId: booking.id, error: error?.message });
+      return { ...booking, meeting_link: meetLink, google_event_id: eventId };
+    }
+
+    return updated;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Reschedule] Could not update Google Meet event:", { bookingId: booking.id, error: message });
+    return booking;
+  }
+}
+
+async function enqueueRescheduleEmails(
+  booking: RescheduledBooking,
+  eventTitle: string,
+  movedBy: CancelledByParty
+) {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: participants } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email")
+    .in("id", [booking.user_id, booking.dietitian_id]);
+
+  const client = participants?.find((p) => p.id === booking.user_id);
+  const practitioner = participants?.find((p) => p.id === booking.dietitian_id);
+
+  // Same UID as the original invite, so calendars move the existing event
+  const invite = getBookingInviteAttachment(
+    { ...booking, title: eventTitle },
+    {
+      method: "REQUEST",
+      organizer: practitioner?.email ? { name: practitioner.name, email: practitioner.email } : null,
+      attendee: client?.email ? { name: client.name, email: client.email } : null,
+    }
+  );
+
+  // Rendered in each recipient's timezone when enqueued
+  const baseData = {
+    eventTitle,
+    startTime: booking.start_time,
+    meetingLink: booking.meeting_link || undefined,
+  };
+
+  try {
+    if (client?.email) {
+      await emailQueue.enqueue({
+        to: client.email,
+        recipientId: client.id,
+        subject: "Booking Rescheduled - Daiyet",
+        template: "booking_rescheduled",
+        data: {
+          ...baseData,
+          userName: client.name || "User",
+        },
+        attachments: [invite],
+      });
+    }
+
+    if (practitioner?.email) {
+      await emailQueue.enqueue({
+        to: practitioner.email,
+        recipientId: practitioner.id,
+        subject: "Booking Rescheduled - Daiyet",
+        template: "booking_rescheduled",
+        data: {
+          ...baseData,
+          userName: practitioner.name || "Dietitian",
+          rescheduleReason: movedBy === "client"
+            ? `${client?.name || "Your client"} picked a new time for this session`
+            : undefined,
+        },
+        isDietitian: true,
+        attachments: [invite],
+      });
+    }
+  } catch (emailError) {
+    console.error("[Reschedule] Error enqueueing reschedule emails:", emailError);
+    // Don't fail the reschedule if email fails
+  }
+}
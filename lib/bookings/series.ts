@@ -0,0 +1,614 @@
+/**
+ * Recurring booking series
+ * A series stores an RRULE-style recurrence (frequency, interval, count or until date)
+ * and owns one booking per occurrence. Occurrences are checked against availability
+ * when the series is created and can be skipped, moved or cancelled individually.
+ */
+
+import dayjs, { type Dayjs } from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { createGoogleMeetLinkOnly } from "@/lib/google-calendar";
+import { getSlotsFromContext, loadAvailabilityContext } from "@/lib/availability/load-availability";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { cancelBooking, getBookingParty, type CancelBookingResult } from "./cancellation";
+import { moveBooking, type RescheduleBookingResult } from "./reschedule";
+import { confirmPaidBooking, getHoldExpiry, HOLD_EXPIRED_REASON } from "./holds";
+import { isGroupEventType } from "./group-sessions";
+import type { User } from "@/lib/auth-helpers";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // repeat every N units, e.g. WEEKLY + 2 = fortnightly
+  count?: number | null; // total number of occurrences
+  until?: string | null; // YYYY-MM-DD, inclusive, in the series timezone
+}
+
+export const MAX_SERIES_OCCURRENCES = 12;
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, "day" | "week" | "month"> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+};
+
+export interface BookingSeries {
+  id: string;
+  user_id: string;
+  dietitian_id: string;
+  event_type_id: string;
+  frequency: RecurrenceFrequency;
+  repeat_interval: number;
+  occurrence_count: number | null;
+  until_date: string | null;
+  first_start_time: string;
+  timezone: string;
+  status: "ACTIVE" | "CANCELLED";
+  cancelled_at: string | null;
+  created_at: string;
+}
+
+export interface SeriesOccurrenceConflict {
+  occurrence: number;
+  startTime: string;
+}
+
+export interface BookingSeriesSummary {
+  id: string;
+  title: string;
+  eventTypeSlug: string | null;
+  status: BookingSeries["status"];
+  rule: RecurrenceRule;
+  rrule: string;
+  description: string;
+  totalOccurrences: number;
+  remainingOccurrences: number;
+  nextOccurrence: {
+    id: string;
+    startTime: string;
+    endTime: string;
+    meetingLink: string | null;
+  } | null;
+  client: { name: string | null; email: string | null } | null;
+  practitioner: { name: string | null; email: string | null } | null;
+}
+
+/**
+ * Validate a recurrence rule from a request body
+ */
+export function parseRecurrenceRule(input: unknown): RecurrenceRule {
+  if (!input || typeof input !== "object") {
+    throw new ValidationError("Recurrence rule is required");
+  }
+
+  const { frequency, interval = 1, count, until } = input as Record<string, unknown>;
+
+  if (typeof frequency !== "string" || !(frequency in FREQUENCY_UNITS)) {
+    throw new ValidationError("Recurrence frequency must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  if (typeof interval !== "number" || !Number.isInteger(interval) || interval < 1 || interval > 4) {
+    throw new ValidationError("Recurrence interval must be a whole number between 1 and 4");
+  }
+
+  const hasCount = count !== undefined && count !== null;
+  const hasUntil = until !== undefined && until !== null && until !== "";
+
+  if (hasCount === hasUntil) {
+    throw new ValidationError("Provide either a number of sessions or an end date");
+  }
+
+  if (hasCount && (typeof count !== "number" || !Number.isInteger(count) || count < 2 || count > MAX_SERIES_OCCURRENCES)) {
+    throw new ValidationError(`Number of sessions must be between 2 and ${MAX_SERIES_OCCURRENCES}`);
+  }
+
+  if (hasUntil && (typeof until !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(until) || !dayjs(until).isValid())) {
+    throw new ValidationError("End date must be in YYYY-MM-DD format");
+  }
+
+  return {
+    frequency: frequency as RecurrenceFrequency,
+    interval,
+    count: hasCount ? (count as number) : null,
+    until: hasUntil ? (until as string) : null,
+  };
+}
+
+/**
+ * Serialise a rule in iCalendar RRULE form, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=6
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Human readable rule, e.g. "Every 2 weeks, 6 sessions"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const repeat = rule.interval === 1
+    ? { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly" }[rule.frequency]
+    : `Every ${rule.interval} ${unit}s`;
+
+  return rule.count
+    ? `${repeat}, ${rule.count} sessions`
+    : `${repeat} until ${dayjs(rule.until).format("MMM D, YYYY")}`;
+}
+
+/**
+ * Start of the occurrence at `index` (0 = first). Keeps the first occurrence's
+ * wall-clock time in the series timezone.
+ */
+export function getOccurrenceStart(
+  firstStartTime: string,
+  rule: Pick<RecurrenceRule, "frequency" | "interval">,
+  index: number,
+  tz: string
+): Dayjs {
+  const localFirst = dayjs(firstStartTime).tz(tz);
+  const localOccurrence = localFirst.add(index * rule.interval, FREQUENCY_UNITS[rule.frequency]);
+  return dayjs.tz(localOccurrence.format("YYYY-MM-DD HH:mm:ss"), tz);
+}
+
+/**
+ * Expand a rule into occurrence start times
+ */
+export function expandOccurrences(firstStartTime: string, rule: RecurrenceRule, tz: string): Dayjs[] {
+  const occurrences: Dayjs[] = [];
+
+  for (let index = 0; index <= MAX_SERIES_OCCURRENCES; index++) {
+    if (rule.count && index >= rule.count) {
+      break;
+    }
+
+    const start = getOccurrenceStart(firstStartTime, rule, index, tz);
+    if (rule.until && start.format("YYYY-MM-DD") > rule.until) {
+      break;
+    }
+
+    occurrences.push(start);
+  }
+
+  if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+    throw new ValidationError(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+  }
+  if (occurrences.length < 2) {
+    throw new ValidationError("A series needs at least 2 sessions");
+  }
+
+  return occurrences;
+}
+
+function getSeriesRule(series: Pick<BookingSeries, "frequency" | "repeat_interval" | "occurrence_count" | "until_date">): RecurrenceRule {
+  return {
+    frequency: series.frequency,
+    interval: series.repeat_interval,
+    count: series.occurrence_count,
+    until: series.until_date,
+  };
+}
+
+/**
+ * Create a series and one PENDING booking per occurrence. Every occurrence must be
+ * bookable; otherwise nothing is created and the conflicting dates are returned
+ * in the error details.
+ */
+export async function createBookingSeries({
+  client,
+  eventTypeId,
+  startTime,
+  rule,
+  description,
+}: {
+  client: Pick<User, "id">;
+  eventTypeId: string;
+  startTime: string; // ISO 8601, first occurrence
+  rule: RecurrenceRule;
+  description?: string;
+}) {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: eventType, error: eventTypeError } = await supabaseAdmin
+    .from("event_types")
+    .select("id, user_id, title, price, currency, length, seats_per_slot")
+    .eq("id", eventTypeId)
+    .single();
+
+  if (eventTypeError || !eventType) {
+    throw new NotFoundError("Event type not found");
+  }
+
+  if (isGroupEventType(eventType)) {
+    throw new ValidationError("Group sessions can't be booked as a recurring series");
+  }
+
+  const firstStart = dayjs(startTime);
+  if (!firstStart.isValid()) {
+    throw new ValidationError("Invalid start time");
+  }
+
+  // Load availability once for the whole span; a UTC expansion is close enough to size the window
+  const roughOccurrences = expandOccurrences(firstStart.toISOString(), rule, "UTC");
+  const context = await loadAvailabilityContext({
+    dietitianId: eventType.user_id,
+    eventTypeId: eventType.id,
+    startDate: firstStart.subtract(1, "day").toDate(),
+    endDate: roughOccurrences[roughOccurrences.length - 1].add(2, "day").toDate(),
+    durationMinutes: eventType.length || undefined,
+    viewerId: client.id,
+  });
+
+  const occurrences = expandOccurrences(firstStart.toISOString(), rule, context.timezone);
+
+  const conflicts: SeriesOccurrenceConflict[] = occurrences
+    .map((start, index) => {
+      const dayDate = new Date(start.tz(context.timezone).format("YYYY-MM-DD"));
+      const available = getSlotsFromContext(context, dayDate, dayDate).some(
+        (slot) => dayjs(slot.start).isSame(start)
+      );
+      return available ? null : { occurrence: index, startTime: start.toISOString() };
+    })
+    .filter((conflict): conflict is SeriesOccurrenceConflict => conflict !== null);
+
+  if (conflicts.length > 0) {
+    throw new ConflictError("Some sessions in this series are not available", { conflicts });
+  }
+
+  const { data: series, error: seriesError } = await supabaseAdmin
+    .from("booking_series")
+    .insert({
+      user_id: client.id,
+      dietitian_id: eventType.user_id,
+      event_type_id: eventType.id,
+      frequency: rule.frequency,
+      repeat_interval: rule.interval,
+      occurrence_count: rule.count || null,
+      until_date: rule.until || null,
+      first_start_time: occurrences[0].toISOString(),
+      timezone: context.timezone,
+    })
+    .select()
+    .single<BookingSeries>();
+
+  if (seriesError || !series) {
+    throw new AppError(`Failed to create booking series: ${seriesError?.message}`, "SERIES_CREATE_FAILED", 500);
+  }
+
+  const holdExpiresAt = getHoldExpiry();
+  const { data: bookings, error: bookingsError } = await supabaseAdmin
+    .from("bookings")
+    .insert(
+      occurrences.map((start, index) => ({
+        title: eventType.title,
+        description: description || null,
+        start_time: start.toISOString(),
+        end_time: start.add(context.durationMinutes, "minute").toISOString(),
+        status: "PENDING",
+        hold_expires_at: holdExpiresAt,
+        event_type_id: eventType.id,
+        user_id: client.id,
+        dietitian_id: eventType.user_id,
+        series_id: series.id,
+        series_occurrence: index,
+      }))
+    )
+    .select()
+    .order("start_time", { ascending: true });
+
+  if (bookingsError || !bookings) {
+    await supabaseAdmin.from("booking_series").delete().eq("id", series.id);
+    throw new AppError(`Failed to create series bookings: ${bookingsError?.message}`, "SERIES_CREATE_FAILED", 500);
+  }
+
+  const unitPrice = Number(eventType.price || 0);
+
+  console.log("[Series] Booking series created:", {
+    seriesId: series.id,
+    rrule: formatRecurrenceRule(rule),
+    occurrences: bookings.length,
+  });
+
+  return {
+    series,
+    bookings,
+    unitPrice,
+    totalPrice: unitPrice * bookings.length,
+    currency: eventType.currency || "NGN",
+  };
+}
+
+/**
+ * Confirm the other occurrences of a series once its checkout payment succeeds.
+ * Occurrences whose slot was taken after the hold expired are refunded one session's price.
+ * Meet links are created best effort; occurrences without one get a link later.
+ */
+export async function confirmSeriesOccurrences(paidBookingId: string, paystackRef: string): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: paidBooking } = await supabaseAdmin
+    .from("bookings")
+    .select("id, series_id, event_types(price)")
+    .eq("id", paidBookingId)
+    .single();
+
+  if (!paidBooking?.series_id) {
+    return 0;
+  }
+
+  const { data: occurrences, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, title, start_time, end_time, dietitian_id, meeting_link, status, cancellation_reason")
+    .eq("series_id", paidBooking.series_id)
+    .neq("id", paidBookingId)
+    .in("status", ["PENDING", "CANCELLED"]);
+
+  if (error) {
+    console.error("[Series] Failed to load series occurrences:", { seriesId: paidBooking.series_id, error: error.message });
+    return 0;
+  }
+
+  const eventType = Array.isArray(paidBooking.event_types) ? paidBooking.event_types[0] : paidBooking.event_types;
+  const unitPrice = Number(eventType?.price || 0);
+
+  let confirmedCount = 0;
+  for (const occurrence of occurrences || []) {
+    // Only revive occurrences cancelled by hold expiry, not ones a party cancelled
+    if (occurrence.status === "CANCELLED" && occurrence.cancellation_reason !== HOLD_EXPIRED_REASON) {
+      continue;
+    }
+
+    const result = await confirmPaidBooking(occurrence.id, paystackRef, { refundAmount: unitPrice });
+    if (!result.confirmed) {
+      console.warn("[Series] Occurrence could not be confirmed:", { bookingId: occurrence.id, reason: result.reason });
+      continue;
+    }
+    confirmedCount++;
+
+    if (occurrence.meeting_link) {
+      continue;
+    }
+
+    try {
+      const meetLink = await createGoogleMeetLinkOnly(occurrence.dietitian_id, {
+        summary: occurrence.title || "Consultation Session",
+        startTime: occurrence.start_time,
+        endTime: occurrence.end_time,
+      });
+      await supabaseAdmin.from("bookings").update({ meeting_link: meetLink }).eq("id", occurrence.id);
+    } catch (meetError) {
+      console.error("[Series] Failed to create Google Meet link for occurrence:", { bookingId: occurrence.id, error: meetError });
+    }
+  }
+
+  return confirmedCount;
+}
+
+/**
+ * Skip one occurrence. The session is not lost: it moves to the slot after the
+ * series' current last occurrence, keeping the number of sessions paid for.
+ */
+export async function skipSeriesOccurrence({
+  bookingId,
+  actor,
+}: {
+  bookingId: string;
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">;
+}): Promise<RescheduleBookingResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select("id, user_id, dietitian_id, series_id, status")
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  getBookingParty(booking, actor);
+
+  if (!booking.series_id) {
+    throw new ValidationError("Only sessions in a recurring series can be skipped");
+  }
+
+  const series = await getSeries(booking.series_id);
+  if (series.status !== "ACTIVE") {
+    throw new ConflictError("This series has been cancelled");
+  }
+
+  const { data: occurrences } = await supabaseAdmin
+    .from("bookings")
+    .select("series_occurrence")
+    .eq("series_id", series.id);
+
+  const nextIndex = Math.max(...(occurrences || []).map((o) => o.series_occurrence ?? 0)) + 1;
+  const newStart = getOccurrenceStart(series.first_start_time, getSeriesRule(series), nextIndex, series.timezone);
+
+  let result: RescheduleBookingResult;
+  try {
+    result = await moveBooking({ bookingId, actor, startTime: newStart.toISOString() });
+  } catch (error) {
+    if (error instanceof ConflictError && error.message === "Time slot not available") {
+      throw new ConflictError(
+        `The next date in this series (${newStart.format("MMM D, YYYY h:mm A")}) is not available. Move this session to another time instead.`
+      );
+    }
+    throw error;
+  }
+
+  await supabaseAdmin
+    .from("bookings")
+    .update({ series_occurrence: nextIndex })
+    .eq("id", bookingId);
+
+  const newDate = newStart.format("YYYY-MM-DD");
+  if (series.until_date && newDate > series.until_date) {
+    await supabaseAdmin
+      .from("booking_series")
+      .update({ until_date: newDate })
+      .eq("id", series.id);
+  }
+
+  return result;
+}
+
+/**
+ * Cancel every upcoming occurrence of a series. Each occurrence follows the event
+ * type's cancellation policy, exactly as if it were cancelled on its own.
+ */
+export async function cancelBookingSeries({
+  seriesId,
+  actor,
+  reason,
+}: {
+  seriesId: string;
+  actor: Pick<User, "id" | "email" | "role" | "is_admin">;
+  reason?: string;
+}): Promise<{ series: BookingSeries; cancelled: CancelBookingResult[] }> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const series = await getSeries(seriesId);
+  getBookingParty(series, actor);
+
+  if (series.status === "CANCELLED") {
+    throw new ConflictError("Series is already cancelled");
+  }
+
+  const { data: upcoming } = await supabaseAdmin
+    .from("bookings")
+    .select("id")
+    .eq("series_id", seriesId)
+    .in("status", ["PENDING", "CONFIRMED"])
+    .gt("start_time", new Date().toISOString())
+    .order("start_time", { ascending: true });
+
+  const cancelled: CancelBookingResult[] = [];
+  for (const occurrence of upcoming || []) {
+    try {
+      cancelled.push(await cancelBooking({ bookingId: occurrence.id, actor, reason }));
+    } catch (error) {
+      // Keep going so one failed occurrence does not leave the rest of the series active
+      console.error("[Series] Failed to cancel occurrence:", { seriesId, bookingId: occurrence.id, error });
+    }
+  }
+
+  const { data: updatedSeries, error } = await supabaseAdmin
+    .from("booking_series")
+    .update({ status: "CANCELLED", cancelled_at: new Date().toISOString() })
+    .eq("id", seriesId)
+    .select()
+    .single<BookingSeries>();
+
+  if (error || !updatedSeries) {
+    throw new AppError(`Failed to cancel series: ${error?.message}`, "SERIES_CANCEL_FAILED", 500);
+  }
+
+  return { series: updatedSeries, cancelled };
+}
+
+async function getSeries(seriesId: string): Promise<BookingSeries> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: series, error } = await supabaseAdmin
+    .from("booking_series")
+    .select("*")
+    .eq("id", seriesId)
+    .single<BookingSeries>();
+
+  if (error || !series) {
+    throw new NotFoundError("Booking series not found");
+  }
+
+  return series;
+}
+
+/**
+ * List series for a practitioner or a client with their next upcoming occurrence
+ */
+export async function listBookingSeries(filter: { dietitianId: string } | { userId: string }): Promise<BookingSeriesSummary[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("booking_series")
+    .select(`
+      *,
+      event_types (
+        title,
+        slug
+      ),
+      client:users!booking_series_user_id_fkey (
+        name,
+        email
+      ),
+      practitioner:users!booking_series_dietitian_id_fkey (
+        name,
+        email
+      ),
+      bookings (
+        id,
+        start_time,
+        end_time,
+        status,
+        meeting_link
+      )
+    `)
+    .order("created_at", { ascending: false });
+
+  query = "dietitianId" in filter
+    ? query.eq("dietitian_id", filter.dietitianId)
+    : query.eq("user_id", filter.userId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new AppError(`Failed to fetch booking series: ${error.message}`, "SERIES_FETCH_FAILED", 500);
+  }
+
+  const now = dayjs();
+
+  return (data || []).map((series) => {
+    const rule = getSeriesRule(series);
+    const occurrences: Array<{ id: string; start_time: string; end_time: string; status: string; meeting_link: string | null }> =
+      series.bookings || [];
+    const upcoming = occurrences
+      .filter((o) => (o.status === "PENDING" || o.status === "CONFIRMED") && dayjs(o.start_time).isAfter(now))
+      .sort((a, b) => dayjs(a.start_time).valueOf() - dayjs(b.start_time).valueOf());
+    const next = upcoming[0];
+
+    return {
+      id: series.id,
+      title: series.event_types?.title || "Consultation",
+      eventTypeSlug: series.event_types?.slug || null,
+      status: series.status,
+      rule,
+      rrule: formatRecurrenceRule(rule),
+      description: describeRecurrence(rule),
+      totalOccurrences: occurrences.length,
+      remainingOccurrences: upcoming.length,
+      nextOccurrence: next
+        ? {
+            id: next.id,
+            startTime: next.start_time,
+            endTime: next.end_time,
+            meetingLink: next.meeting_link,
+          }
+        : null,
+      client: series.client || null,
+      practitioner: series.practitioner || null,
+    };
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Practitioner calendar feeds
+ * Each practitioner gets a secret feed URL (/api/calendar/<token>.ics) listing their
+ * upcoming confirmed bookings, for subscribing from Apple Calendar, Outlook, etc.
+ */
+
+import { randomBytes } from "crypto";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError } from "@/lib/error-handling";
+import { buildIcsCalendar, getBookingUid, getIcsSequence, type IcsEvent } from "./ics";
+
+export const CALENDAR_FEED_EXTENSION = ".ics";
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * The public feed URL for a token
+ */
+export function getCalendarFeedUrl(token: string, origin: string): string {
+  const baseUrl = (process.env.NEXT_PUBLIC_SITE_URL || origin).trim().replace(/\/$/, "");
+  return `${baseUrl}/api/calendar/${token}${CALENDAR_FEED_EXTENSION}`;
+}
+
+/**
+ * The practitioner's feed token, created the first time it is asked for
+ */
+export async function getOrCreateCalendarFeedToken(userId: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: user, error } = await supabaseAdmin
+    .from("users")
+    .select("calendar_feed_token")
+    .eq("id", userId)
+    .single();
+
+  if (error) {
+    throw new AppError(`Failed to load calendar feed: ${error.message}`, "CALENDAR_FEED_ERROR", 500);
+  }
+
+  if (user?.calendar_feed_token) {
+    return user.calendar_feed_token;
+  }
+
+  return rotateCalendarFeedToken(userId);
+}
+
+/**
+ * Replace the practitioner's feed token; calendars subscribed to the old URL stop updating
+ */
+export async function rotateCalendarFeedToken(userId: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+  const token = generateFeedToken();
+
+  const { error } = await supabaseAdmin
+    .from("users")
+    .update({ calendar_feed_token: token })
+    .eq("id", userId);
+
+  if (error) {
+    throw new AppError(`Failed to create calendar feed: ${error.message}`, "CALENDAR_FEED_ERROR", 500);
+  }
+
+  return token;
+}
+
+/**
+ * The iCalendar document for a feed token, or null if the token doesn't belong to a practitioner
+ */
+export async function buildCalendarFeed(token: string): Promise<string | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: practitioner } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email, role")
+    .eq("calendar_feed_token", token)
+    .in("role", ["DIETITIAN", "THERAPIST"])
+    .maybeSingle();
+
+  if (!practitioner) {
+    return null;
+  }
+
+  const { data: bookings, error } = await supabaseAdmin
+    .from("bookings")
+    .select("id, title, description, start_time, end_time, meeting_link, updated_at, client:users!bookings_user_id_fkey(name, email)")
+    .eq("dietitian_id", practitioner.id)
+    .eq("status", "CONFIRMED")
+    .gte("end_time", new Date().toISOString())
+    .order("start_time", { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load bookings for calendar feed: ${error.message}`, "CALENDAR_FEED_ERROR", 500);
+  }
+
+  const events: IcsEvent[] = (bookings || []).map((booking) => {
+    const client = Array.isArray(booking.client) ? booking.client[0] : booking.client;
+    return {
+      uid: getBookingUid(booking.id),
+      sequence: getIcsSequence(booking.updated_at || booking.start_time),
+      start: booking.start_time,
+      end: booking.end_time,
+      summary: client?.name ? `${booking.title || "Consultation"} with ${client.name}` : booking.title || "Consultation",
+      description: booking.description,
+      meetingLink: booking.meeting_link,
+      attendees: client?.email ? [{ name: client.name, email: client.email }] : [],
+    };
+  });
+
+  return buildIcsCalendar({
+    method: "PUBLISH",
+    calendarName: `Daiyet - ${practitioner.name || "Bookings"}`,
+    events,
+  });
+}
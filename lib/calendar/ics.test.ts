@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildIcsCalendar, getBookingInviteAttachment, getBookingUid, getIcsSequence } from "./ics";
+
+const booking = {
+  id: "booking-1",
+  title: "Consultation",
+  start_time: "2026-03-02T09:00:00Z",
+  end_time: "2026-03-02T09:30:00Z",
+  meeting_link: "https://meet.google.com/abc-defg-hij",
+};
+
+// The calendar in an attachment, with folded lines joined back up
+function decode(content: string): string {
+  return Buffer.from(content, "base64").toString("utf-8").replace(/\r\n /g, "");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("buildIcsCalendar", () => {
+  it("escapes text and ends every line with CRLF", () => {
+    const calendar = buildIcsCalendar({
+      method: "PUBLISH",
+      events: [
+        {
+          uid: getBookingUid("booking-1"),
+          sequence: 1,
+          start: booking.start_time,
+          end: booking.end_time,
+          summary: "Diet, exercise; and sleep",
+          description: "Bring your food diary\nand a pen",
+        },
+      ],
+    });
+
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(calendar.split("\r\n").every((line) => !line.includes("\n"))).toBe(true);
+    expect(calendar).toContain("DTSTART:20260302T090000Z\r\n");
+    expect(calendar).toContain("SUMMARY:Diet\\, exercise\\; and sleep\r\n");
+    expect(calendar).toContain("DESCRIPTION:Bring your food diary\\nand a pen\r\n");
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const calendar = buildIcsCalendar({
+      events: [{ uid: "uid-1", sequence: 1, start: booking.start_time, end: booking.end_time, summary: "é".repeat(60) }],
+    });
+
+    const lines = calendar.split("\r\n");
+    const summaryStart = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+    expect(lines[summaryStart + 1].startsWith(" ")).toBe(true);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    // Unfolding gives back the original line
+    expect(calendar.replace(/\r\n /g, "")).toContain(`SUMMARY:${"é".repeat(60)}\r\n`);
+  });
+});
+
+describe("getBookingInviteAttachment", () => {
+  it("keeps the booking's UID and raises the sequence for each change", () => {
+    const invite = decode(getBookingInviteAttachment(booking, { method: "REQUEST" }).content);
+    vi.setSystemTime(new Date("2026-03-01T13:00:00Z"));
+    const cancel = getBookingInviteAttachment(booking, { method: "CANCEL" });
+
+    expect(cancel.name).toBe("cancel.ics");
+    expect(invite).toContain("UID:booking-booking-1@daiyet.co");
+    expect(decode(cancel.content)).toContain("UID:booking-booking-1@daiyet.co");
+    expect(decode(cancel.content)).toContain("METHOD:CANCEL");
+    expect(decode(cancel.content)).toContain("STATUS:CANCELLED");
+    expect(getIcsSequence("2026-03-01T13:00:00Z")).toBeGreaterThan(getIcsSequence("2026-03-01T12:00:00Z"));
+    expect(invite).toContain(`SEQUENCE:${getIcsSequence("2026-03-01T12:00:00Z")}`);
+  });
+
+  it("adds the meeting link and the people invited", () => {
+    const invite = decode(
+      getBookingInviteAttachment(booking, {
+        method: "REQUEST",
+        organizer: { name: "Dr \"Ada\" Obi", email: "ada@example.com" },
+        attendee: { email: "client@example.com" },
+      }).content
+    );
+
+    expect(invite).toContain("LOCATION:https://meet.google.com/abc-defg-hij");
+    expect(invite).toContain('ORGANIZER;CN="Dr Ada Obi":mailto:ada@example.com');
+    expect(invite).toContain("ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:client@example.com");
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * iCalendar (RFC 5545) generation
+ * Used for the .ics invites attached to booking emails and for practitioners' subscribable
+ * calendar feeds. Every booking keeps the same UID, so calendar apps update or remove the
+ * existing event when a reschedule or cancellation arrives.
+ */
+
+const PRODUCT_ID = "-//Daiyet//Bookings//EN";
+const UID_DOMAIN = "daiyet.co";
+
+// Lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+export type IcsMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+export interface IcsPerson {
+  name?: string | null;
+  email: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  // Must increase every time the event changes so clients apply the update
+  sequence: number;
+  start: string | Date;
+  end: string | Date;
+  summary: string;
+  description?: string | null;
+  meetingLink?: string | null;
+  status?: "CONFIRMED" | "CANCELLED";
+  organizer?: IcsPerson | null;
+  attendees?: IcsPerson[];
+}
+
+export interface BookingForIcs {
+  id: string;
+  title?: string | null;
+  start_time: string;
+  end_time: string;
+  meeting_link?: string | null;
+}
+
+/**
+ * The UID a booking keeps in every invite and feed
+ */
+export function getBookingUid(bookingId: string): string {
+  return `booking-${bookingId}@${UID_DOMAIN}`;
+}
+
+/**
+ * A SEQUENCE that is higher than any sent before it (seconds since the epoch)
+ */
+export function getIcsSequence(changedAt: string | Date = new Date()): number {
+  return Math.floor(new Date(changedAt).getTime() / 1000);
+}
+
+function formatIcsDate(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function escapeIcsParam(value: string): string {
+  // Parameter values can't be escaped; quote them and drop characters that break quoting
+  return `"${value.replace(/["\r\n]/g, "")}"`;
+}
+
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatPerson(property: "ORGANIZER" | "ATTENDEE", person: IcsPerson): string {
+  const params = person.name ? `;CN=${escapeIcsParam(person.name)}` : "";
+  const attendeeParams = property === "ATTENDEE" ? ";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE" : "";
+  return `${property}${params}${attendeeParams}:mailto:${person.email}`;
+}
+
+function formatEvent(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `STATUS:${event.status || "CONFIRMED"}`,
+  ];
+
+  const description = [event.description, event.meetingLink ? `Join: ${event.meetingLink}` : null]
+    .filter(Boolean)
+    .join("\n\n");
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  }
+  if (event.meetingLink) {
+    lines.push(`LOCATION:${escapeIcsText(event.meetingLink)}`);
+    lines.push(`URL:${event.meetingLink}`);
+  }
+  if (event.organizer) {
+    lines.push(formatPerson("ORGANIZER", event.organizer));
+  }
+  for (const attendee of event.attendees || []) {
+    lines.push(formatPerson("ATTENDEE", attendee));
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document. REQUEST and CANCEL are iTIP methods for email invites;
+ * PUBLISH (or none) is for subscribed feeds.
+ */
+export function buildIcsCalendar({
+  events,
+  method,
+  calendarName,
+}: {
+  events: IcsEvent[];
+  method?: IcsMethod;
+  calendarName?: string;
+}): string {
+  const stamp = formatIcsDate(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+  ];
+
+  if (method) {
+    lines.push(`METHOD:${method}`);
+  }
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(calendarName)}`);
+  }
+
+  for (const event of events) {
+    lines.push(...formatEvent(event, stamp));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * The .ics invite attached to a booking email. REQUEST adds or updates the event in
+ * the recipient's calendar; CANCEL removes it.
+ */
+export function getBookingInviteAttachment(
+  booking: BookingForIcs,
+  {
+    method,
+    organizer,
+    attendee,
+  }: {
+    method: "REQUEST" | "CANCEL";
+    organizer?: IcsPerson | null;
+    attendee?: IcsPerson | null;
+  }
+): { name: string; content: string } {
+  const calendar = buildIcsCalendar({
+    method,
+    events: [
+      {
+        uid: getBookingUid(booking.id),
+        sequence: getIcsSequence(),
+        start: booking.start_time,
+        end: booking.end_time,
+        summary: booking.title || "Consultation",
+        meetingLink: booking.meeting_link,
+        status: method === "CANCEL" ? "CANCELLED" : "CONFIRMED",
+        organizer,
+        attendees: attendee ? [attendee] : [],
+      },
+    ],
+  });
+
+  return {
+    name: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+    content: Buffer.from(calendar, "utf-8").toString("base64"),
+  };
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  recipient: null as { timezone: string | null } | null,
+  lookups: [] as string[],
+  inserts: [] as Array<{ payload: { data: Record<string, string> } }>,
+}));
+
+// The recipient's account for users lookups; queued emails are returned as they were written
+function from(table: string) {
+  let inserted: unknown = null;
+  const builder = {
+    select: () => builder,
+    insert: (values: { payload: { data: Record<string, string> } }) => {
+      inserted = values;
+      mocks.inserts.push(values);
+      return builder;
+    },
+    eq: (_column: string, value: string) => {
+      mocks.lookups.push(value);
+      return builder;
+    },
+    single: () => Promise.resolve({ data: inserted, error: null }),
+    maybeSingle: () => Promise.resolve({ data: table === "users" ? mocks.recipient : null, error: null }),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("./brevo", () => ({ sendBrevoEmail: vi.fn() }));
+
+import { emailQueue } from "./queue";
+import { withRecipientTimezone } from "./templates";
+
+const email = {
+  to: "client@example.com",
+  recipientId: "client-1",
+  subject: "Your booking is confirmed",
+  template: "booking_confirmation",
+  data: { userName: "Ada", eventTitle: "Consultation", startTime: "2026-03-20T23:30:00Z" },
+};
+
+beforeEach(() => {
+  mocks.recipient = null;
+  mocks.lookups = [];
+  mocks.inserts = [];
+});
+
+describe("withRecipientTimezone", () => {
+  it("renders the date and time where the recipient is", () => {
+    expect(withRecipientTimezone({ startTime: "2026-03-20T23:30:00Z", timezone: "Africa/Lagos" })).toMatchObject({
+      date: "March 21, 2026",
+      time: "12:30 AM (GMT+1)",
+    });
+    expect(withRecipientTimezone({ startTime: "2026-03-20T23:30:00Z", timezone: "America/New_York" })).toMatchObject({
+      date: "March 20, 2026",
+      time: "7:30 PM (EDT)",
+    });
+  });
+
+  it("falls back to Lagos for unknown timezones and leaves emails without a start time alone", () => {
+    expect(withRecipientTimezone({ startTime: "2026-03-20T23:30:00Z", timezone: "Mars/Olympus" })).toMatchObject({
+      time: "12:30 AM (GMT+1)",
+    });
+    expect(withRecipientTimezone({ date: "March 1, 2026", time: "9:00 AM" })).toEqual({
+      date: "March 1, 2026",
+      time: "9:00 AM",
+    });
+  });
+});
+
+describe("emailQueue.enqueue", () => {
+  it("stores session times in the recipient account's timezone", async () => {
+    mocks.recipient = { timezone: "Europe/London" };
+
+    await emailQueue.enqueue(email);
+
+    expect(mocks.lookups).toEqual(["client-1"]);
+    expect(mocks.inserts[0].payload.data).toMatchObject({ date: "March 20, 2026", time: "11:30 PM (GMT)" });
+  });
+
+  it("uses a timezone given with the email without looking one up", async () => {
+    await emailQueue.enqueue({ ...email, data: { ...email.data, timezone: "America/New_York" } });
+
+    expect(mocks.lookups).toEqual([]);
+    expect(mocks.inserts[0].payload.data.time).toBe("7:30 PM (EDT)");
+  });
+});
@@ -1,9 +1,12 @@
 import { createAdminClientServer } from "@/lib/supabase/server";
 import { sendBrevoEmail, BrevoEmailOptions } from "./brevo";
-import { getEmailTemplate } from "./templates";
+import { getEmailTemplate, withRecipientTimezone } from "./templates";
 
 interface EmailPayload {
   to: string;
+  // User account of the recipient. An email can belong to several role accounts, so session
+  // times are rendered in this account's timezone rather than one looked up by address.
+  recipientId?: string;
   subject: string;
   template: string;
   data: Record<string, any>;
@@ -15,6 +18,7 @@ interface EmailPayload {
   };
   tags?: string[];
   isDietitian?: boolean;
+  attachments?: BrevoEmailOptions["attachments"];
 }
 
 export class EmailQueue {
@@ -29,6 +33,21 @@ export class EmailQueue {
     try {
       const supabaseAdmin = createAdminClientServer();
 
+      // Session times are rendered in the recipient's timezone. The formatted date/time
+      // are stored with the payload so the background worker sends the same text.
+      if (email.data?.startTime) {
+        let timezone = email.data.timezone;
+        if (!timezone && email.recipientId) {
+          const { data: recipient } = await supabaseAdmin
+            .from("users")
+            .select("timezone")
+            .eq("id", email.recipientId)
+            .maybeSingle();
+          timezone = recipient?.timezone || undefined;
+        }
+        email = { ...email, data: withRecipientTimezone({ ...email.data, timezone }) };
+      }
+
       const { data, error } = await supabaseAdmin
         .from("email_queue")
         .insert({
@@ -77,6 +96,7 @@ export class EmailQueue {
           fromName: email.fromName,
           replyTo: email.replyTo,
           tags: email.tags || [email.template],
+          attachments: email.attachments,
         };
 
         const result = await sendBrevoEmail(brevoOptions);
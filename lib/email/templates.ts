@@ -3,11 +3,17 @@
  * Mobile-responsive, brand-consistent email templates with inline CSS
  */
 
-interface EmailTemplateData {
+import { TimezoneHelper } from "@/lib/utils/timezone";
+import { formatMoney } from "@/lib/utils/money";
+
+export interface EmailTemplateData {
   userName?: string;
   eventTitle?: string;
   date?: string;
   time?: string;
+  startTime?: string; // ISO 8601; when set, date and time are rendered from it in `timezone`
+  timezone?: string; // the recipient's IANA timezone
+
   meetingLink?: string;
   message?: string;
   requestType?: string;
@@ -17,11 +23,23 @@ interface EmailTemplateData {
   mealPlanType?: string;
   rescheduleReason?: string;
   cancellationReason?: string;
+  refundAmount?: string;
+  walletRefundAmount?: string;
   amount?: string;
   currency?: string;
   [key: string]: any;
 }
 
+/**
+ * Fill in date and time from startTime in the recipient's timezone
+ */
+export function withRecipientTimezone<T extends EmailTemplateData>(data: T): T {
+  if (!data.startTime) {
+    return data;
+  }
+  return { ...data, ...TimezoneHelper.formatForDisplay(data.startTime, TimezoneHelper.resolve(data.timezone)) };
+}
+
 /**
  * Base email template wrapper with responsive design
  */
@@ -410,6 +428,22 @@ export function getBookingCancelledTemplate(data: EmailTemplateData): string {
     </div>
     ` : ''}
     
+    ${data.refundAmount ? `
+    <div style="margin: 24px 0; padding: 16px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 4px;">
+      <p style="margin: 0; font-size: 14px; color: #166534;">
+        <strong>Refund:</strong> ${formatMoney(Number(data.refundAmount), data.currency)} will be returned to your original payment method.
+      </p>
+    </div>
+    ` : ''}
+    
+    ${data.walletRefundAmount ? `
+    <div style="margin: 24px 0; padding: 16px; background-color: #f0fdf4; border-left: 4px solid #22c55e; border-radius: 4px;">
+      <p style="margin: 0; font-size: 14px; color: #166534;">
+        <strong>Wallet:</strong> ${formatMoney(Number(data.walletRefundAmount), data.currency)} has been added back to your Daiyet wallet.
+      </p>
+    </div>
+    ` : ''}
+    
     <p style="margin: 24px 0 0 0; font-size: 14px; color: #6b7280;">
       If you have any questions or would like to reschedule, please contact us or book a new appointment.
     </p>
@@ -443,7 +477,7 @@ export function getPaymentConfirmationTemplate(data: EmailTemplateData): string
             <tr>
               <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Amount:</td>
               <td style="padding: 8px 0; color: #111827; font-size: 16px; font-weight: 600;">
-                ${data.currency || "NGN"} ${data.amount || "0.00"}
+                ${formatMoney(Number(data.amount || 0), data.currency)}
               </td>
             </tr>
             ${data.eventTitle ? `
@@ -452,6 +486,12 @@ export function getPaymentConfirmationTemplate(data: EmailTemplateData): string
               <td style="padding: 8px 0; color: #111827; font-size: 14px; font-weight: 500;">${data.eventTitle}</td>
             </tr>
             ` : ''}
+            ${data.receiptNumber ? `
+            <tr>
+              <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Receipt No.:</td>
+              <td style="padding: 8px 0; color: #111827; font-size: 14px; font-weight: 500;">${data.receiptNumber}</td>
+            </tr>
+            ` : ''}
             ${data.transactionId ? `
             <tr>
               <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Transaction ID:</td>
@@ -464,13 +504,41 @@ export function getPaymentConfirmationTemplate(data: EmailTemplateData): string
     </table>
     
     <p style="margin: 24px 0 0 0; font-size: 14px; color: #6b7280;">
-      Thank you for your payment. A receipt has been sent to your email.
+      Thank you for your payment. ${data.receiptNumber ? "Your receipt is attached as a PDF and can also be downloaded from your dashboard." : "A receipt has been sent to your email."}
     </p>
   `;
   
   return getBaseEmailTemplate(content, "Payment Confirmed - Daiyet");
 }
 
+/**
+ * Practitioner Verification Email Template
+ * Sent to practitioners (and admins) at each step of credential review
+ */
+export function getPractitionerVerificationTemplate(data: EmailTemplateData): string {
+  const content = `
+    <p style="margin: 0 0 24px 0; font-size: 16px; color: #111827;">
+      Hello ${data.userName || "User"},
+    </p>
+    
+    <p style="margin: 0 0 24px 0; font-size: 16px; color: #111827;">
+      ${data.body || data.message || ""}
+    </p>
+    
+    ${data.notes ? `
+    <div style="margin: 24px 0; padding: 20px; background-color: #f9fafb; border-left: 4px solid #404040; border-radius: 4px;">
+      <p style="margin: 0; font-size: 14px; color: #111827; line-height: 20px;">
+        ${data.notes}
+      </p>
+    </div>
+    ` : ''}
+    
+    ${data.actionLink ? getButton(data.actionLink, data.actionLabel || "Open Daiyet", true) : ''}
+  `;
+  
+  return getBaseEmailTemplate(content, `${data.heading || "Account Verification"} - Daiyet`);
+}
+
 /**
  * Generate plain text version of email (fallback)
  */
@@ -569,6 +637,8 @@ Your booking has been cancelled:
 - Date: ${data.date || ""}
 - Time: ${data.time || ""}
 ${data.cancellationReason ? `\nReason: ${data.cancellationReason}` : ""}
+${data.refundAmount ? `\nRefund: ${formatMoney(Number(data.refundAmount), data.currency)} will be returned to your original payment method.` : ""}
+${data.walletRefundAmount ? `\nWallet: ${formatMoney(Number(data.walletRefundAmount), data.currency)} has been added back to your Daiyet wallet.` : ""}
 
 If you have any questions, please contact us.
 
@@ -583,11 +653,25 @@ Hello ${data.userName || "User"},
 
 Your payment has been successfully processed!
 
-Amount: ${data.currency || "NGN"} ${data.amount || "0.00"}
+Amount: ${formatMoney(Number(data.amount || 0), data.currency)}
 ${data.eventTitle ? `For: ${data.eventTitle}` : ""}
+${data.receiptNumber ? `Receipt No.: ${data.receiptNumber}` : ""}
 ${data.transactionId ? `Transaction ID: ${data.transactionId}` : ""}
 
-Thank you for your payment. A receipt has been sent to your email.
+Thank you for your payment. ${data.receiptNumber ? "Your receipt is attached as a PDF and can also be downloaded from your dashboard." : "A receipt has been sent to your email."}
+
+Daiyet Team
+      `.trim();
+    
+    case "practitioner_verification":
+      return `
+${data.heading || "Account Verification"}
+
+Hello ${data.userName || "User"},
+
+${data.body || data.message || ""}
+${data.notes ? `\nNotes: ${data.notes}` : ""}
+${data.actionLink ? `\n${data.actionLabel || "Open Daiyet"}: ${data.actionLink}` : ""}
 
 Daiyet Team
       `.trim();
@@ -606,6 +690,7 @@ export function getEmailTemplate(
   options: { htmlOnly?: boolean; textOnly?: boolean; isDietitian?: boolean } = {}
 ): { html?: string; text?: string } {
   const result: { html?: string; text?: string } = {};
+  data = withRecipientTimezone(data);
   
   if (!options.textOnly) {
     switch (template) {
@@ -630,6 +715,9 @@ export function getEmailTemplate(
       case "payment_confirmation":
         result.html = getPaymentConfirmationTemplate(data);
         break;
+      case "practitioner_verification":
+        result.html = getPractitionerVerificationTemplate(data);
+        break;
       default:
         result.html = getBaseEmailTemplate(
           `<p style="margin: 0; font-size: 16px; color: #111827;">${data.message || "You have a new message from Daiyet."}</p>`,
@@ -1,5 +1,6 @@
 import { google } from "googleapis";
 import { createAdminClientServer } from "./supabase/server";
+import { DEFAULT_TIMEZONE } from "./utils/timezone";
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
@@ -78,6 +79,7 @@ export async function createGoogleMeetLinkOnly(
     summary: string;
     startTime: string; // ISO 8601
     endTime: string; // ISO 8601
+    timeZone?: string; // IANA timezone the event is shown in; defaults to Africa/Lagos
   }
 ): Promise<string> {
   const { accessToken, refreshToken } = await getOrRefreshToken(dietitianId);
@@ -95,11 +97,11 @@ export async function createGoogleMeetLinkOnly(
     summary: eventDetails.summary,
     start: {
       dateTime: eventDetails.startTime,
-      timeZone: "Africa/Lagos",
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
     },
     end: {
       dateTime: eventDetails.endTime,
-      timeZone: "Africa/Lagos",
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
     },
     conferenceData: {
       createRequest: {
@@ -136,6 +138,83 @@ export async function createGoogleMeetLinkOnly(
   }
 }
 
+/**
+ * Moves the Google Calendar event behind a booking's Meet link to a new time.
+ * Bookings created before event IDs were stored have nothing to patch, so a new
+ * minimal Meet event is created instead.
+ */
+export async function rescheduleGoogleMeetEvent(
+  dietitianId: string,
+  eventDetails: {
+    eventId?: string | null;
+    summary: string;
+    startTime: string; // ISO 8601
+    endTime: string; // ISO 8601
+    timeZone?: string; // IANA timezone the event is shown in; defaults to Africa/Lagos
+  }
+): Promise<{ meetLink: string; eventId: string }> {
+  const { accessToken, refreshToken } = await getOrRefreshToken(dietitianId);
+
+  const oauth2Client = getOAuth2Client();
+  oauth2Client.setCredentials({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+
+  const calendar = google.calendar({ version: "v3", auth: oauth2Client });
+
+  const timing = {
+    start: {
+      dateTime: eventDetails.startTime,
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
+    },
+    end: {
+      dateTime: eventDetails.endTime,
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
+    },
+  };
+
+  try {
+    const response = eventDetails.eventId
+      ? await calendar.events.patch({
+          calendarId: "primary",
+          eventId: eventDetails.eventId,
+          requestBody: timing,
+          conferenceDataVersion: 1,
+        })
+      : await calendar.events.insert({
+          calendarId: "primary",
+          requestBody: {
+            summary: eventDetails.summary,
+            ...timing,
+            conferenceData: {
+              createRequest: {
+                requestId: `meet-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+                conferenceSolutionKey: {
+                  type: "hangoutsMeet",
+                },
+              },
+            },
+          },
+          conferenceDataVersion: 1,
+        });
+
+    const meetLink =
+      response.data.conferenceData?.entryPoints?.find(
+        (ep) => ep.entryPointType === "video"
+      )?.uri || "";
+
+    if (!meetLink || !response.data.id) {
+      throw new Error("Failed to reschedule Google Meet event");
+    }
+
+    return { meetLink, eventId: response.data.id };
+  } catch (error) {
+    console.error("Error rescheduling Google Meet event:", error);
+    throw error;
+  }
+}
+
 /**
  * Creates a full Google Calendar event with Google Meet link and attendees.
  * Use this for full calendar integration. For Meet links only, use createGoogleMeetLinkOnly.
@@ -149,6 +228,7 @@ export async function createCalendarEventWithMeet(
     description?: string;
     startTime: string; // ISO 8601
     endTime: string; // ISO 8601
+    timeZone?: string; // IANA timezone the event is shown in; defaults to Africa/Lagos
     attendeeEmails?: string[];
   }
 ): Promise<{ meetLink: string; eventId: string }> {
@@ -167,11 +247,11 @@ export async function createCalendarEventWithMeet(
     description: eventDetails.description || "",
     start: {
       dateTime: eventDetails.startTime,
-      timeZone: "Africa/Lagos",
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
     },
     end: {
       dateTime: eventDetails.endTime,
-      timeZone: "Africa/Lagos",
+      timeZone: eventDetails.timeZone || DEFAULT_TIMEZONE,
     },
     conferenceData: {
       createRequest: {
@@ -0,0 +1,278 @@
+/**
+ * Abandoned checkouts
+ * A booking checkout that is still unpaid ABANDONED_CHECKOUT_MINUTES after it started is picked up
+ * by the background worker (the abandoned_checkout job): it emails the client a resume link,
+ * then, once the link expires, fails the payment and cancels the booking. The link reopens checkout
+ * for the same booking, as long as its slot hasn't been taken in the meantime.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError } from "@/lib/error-handling";
+import { getHoldExpiry, HOLD_EXPIRED_REASON } from "@/lib/bookings/holds";
+import { GROUP_SESSION_FULL_CODE } from "@/lib/bookings/group-sessions";
+import { isStartTimeAvailable } from "@/lib/availability/load-availability";
+import { BASE_CURRENCY } from "@/lib/utils/money";
+import { getNgnConverter } from "./exchange-rates";
+import { getBookingCharge } from "./pricing";
+import { roundMoney } from "./ledger";
+
+// How long after checkout starts an unpaid payment counts as abandoned
+export const ABANDONED_CHECKOUT_MINUTES = 30;
+
+export const ABANDONED_CHECKOUT_JOB = "abandoned_checkout";
+
+export const CHECKOUT_EXPIRED = "CHECKOUT_EXPIRED";
+export const SLOT_UNAVAILABLE = "SLOT_UNAVAILABLE";
+
+export type AbandonedCheckoutStatus = "REMINDED" | "RESUMED" | "RECOVERED" | "EXPIRED";
+
+export interface ResumedCheckout {
+  bookingId: string;
+  dietitianId: string;
+  eventTypeId: string | null;
+  description: string;
+  startTime: string;
+  // Full price in the booking's own currency; checkout applies any promo code or wallet again
+  amount: number;
+  currency: string;
+  holdExpiresAt: string;
+}
+
+export interface AbandonedCheckoutStats {
+  // Clients emailed a resume link
+  reminded: number;
+  // Of those, clients who came back to checkout through the link
+  resumed: number;
+  // Of those, bookings that were paid for in the end
+  recovered: number;
+  // Cancelled once the link expired
+  expired: number;
+  // Still waiting on the client
+  open: number;
+  // recovered / reminded, from 0 to 1
+  recoveryRate: number;
+  // What recovered bookings were worth, in NGN
+  recoveredRevenue: number;
+  currency: string;
+  // Recovered in currencies without an exchange rate, so missing from recoveredRevenue
+  unconvertedCurrencies: string[];
+}
+
+interface AbandonedCheckoutRow {
+  id: string;
+  booking_id: string;
+  user_id: string | null;
+  amount: number | string;
+  currency: string;
+  status: AbandonedCheckoutStatus;
+  expires_at: string;
+  reminded_at: string;
+  resumed_at: string | null;
+  recovered_at: string | null;
+}
+
+/**
+ * Have the background worker check on a booking payment once it would count as abandoned
+ */
+export async function scheduleAbandonedCheckoutCheck(paymentId: string, bookingId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.from("scheduled_jobs").insert({
+    type: ABANDONED_CHECKOUT_JOB,
+    scheduled_for: dayjs().add(ABANDONED_CHECKOUT_MINUTES, "minute").toISOString(),
+    payload: { payment_id: paymentId, booking_id: bookingId, stage: "remind" },
+  });
+
+  if (error) {
+    throw new AppError(`Failed to schedule abandoned checkout check: ${error.message}`, "ABANDONED_CHECKOUT_SCHEDULE_FAILED", 500);
+  }
+}
+
+/**
+ * Reopen checkout from a resume link: hold the booking's slot for the client again, unless someone
+ * else has taken it since. Only the client who made the booking can resume it.
+ */
+export async function resumeAbandonedCheckout(token: string, userId: string): Promise<ResumedCheckout> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: checkout, error } = await supabaseAdmin
+    .from("abandoned_checkouts")
+    .select("*")
+    .eq("resume_token", token)
+    .maybeSingle<AbandonedCheckoutRow>();
+
+  if (error) {
+    throw new AppError(`Failed to load checkout: ${error.message}`, "ABANDONED_CHECKOUT_FETCH_FAILED", 500);
+  }
+  if (!checkout || checkout.user_id !== userId) {
+    throw new NotFoundError("Checkout not found");
+  }
+  if (checkout.status === "RECOVERED") {
+    throw new ConflictError("This booking has already been paid for");
+  }
+  if (checkout.status === "EXPIRED" || new Date(checkout.expires_at) <= new Date()) {
+    throw new AppError("This checkout link has expired", CHECKOUT_EXPIRED, 410);
+  }
+
+  const { data: booking } = await supabaseAdmin
+    .from("bookings")
+    .select("id, title, status, start_time, end_time, dietitian_id, event_type_id, hold_expires_at, cancellation_reason")
+    .eq("id", checkout.booking_id)
+    .single();
+
+  if (!booking) {
+    throw new NotFoundError("Booking not found");
+  }
+  if (booking.status === "CONFIRMED") {
+    throw new ConflictError("This booking has already been paid for");
+  }
+
+  // Bookings cancelled for any other reason than the hold running out stay cancelled
+  const holdExpired = booking.status === "CANCELLED" && booking.cancellation_reason === HOLD_EXPIRED_REASON;
+  if (booking.status !== "PENDING" && !holdExpired) {
+    throw new AppError("This booking was cancelled", CHECKOUT_EXPIRED, 410);
+  }
+  if (new Date(booking.start_time) <= new Date()) {
+    throw new AppError("This session has already started", CHECKOUT_EXPIRED, 410);
+  }
+
+  // A hold still running is the client's own; otherwise the slot must still be free
+  const holdActive =
+    booking.status === "PENDING" && (!booking.hold_expires_at || new Date(booking.hold_expires_at) > new Date());
+  if (!holdActive) {
+    const { available } = await isStartTimeAvailable({
+      dietitianId: booking.dietitian_id,
+      eventTypeId: booking.event_type_id,
+      startTime: booking.start_time,
+      durationMinutes: dayjs(booking.end_time).diff(dayjs(booking.start_time), "minute"),
+      excludeBookingIds: [booking.id],
+    });
+    if (!available) {
+      throw new ConflictError("This time slot has been booked by someone else", { code: SLOT_UNAVAILABLE });
+    }
+  }
+
+  const holdExpiresAt = getHoldExpiry();
+  const { data: heldBooking, error: holdError } = await supabaseAdmin
+    .from("bookings")
+    .update({
+      status: "PENDING",
+      hold_expires_at: holdExpiresAt,
+      cancelled_at: null,
+      cancellation_reason: null,
+    })
+    .eq("id", booking.id)
+    .eq("status", booking.status)
+    .select("id")
+    .maybeSingle();
+
+  // The last seat of a group session went to another client
+  if (holdError?.code === GROUP_SESSION_FULL_CODE) {
+    throw new ConflictError("This time slot has been booked by someone else", { code: SLOT_UNAVAILABLE });
+  }
+  if (holdError) {
+    throw new AppError(`Failed to hold booking: ${holdError.message}`, "ABANDONED_CHECKOUT_RESUME_FAILED", 500);
+  }
+  if (!heldBooking) {
+    throw new ConflictError("This booking changed while it was being resumed. Please try again.");
+  }
+
+  // Expiry removed the booking's reminders
+  if (holdExpired) {
+    const { error: jobsError } = await supabaseAdmin.rpc("restore_booking_jobs", { p_booking_id: booking.id });
+    if (jobsError) {
+      console.error("[Abandoned checkouts] Failed to restore booking jobs:", { bookingId: booking.id, error: jobsError.message });
+    }
+  }
+
+  if (checkout.status === "REMINDED") {
+    await supabaseAdmin
+      .from("abandoned_checkouts")
+      .update({ status: "RESUMED", resumed_at: new Date().toISOString() })
+      .eq("id", checkout.id)
+      .eq("status", "REMINDED");
+  }
+
+  const charge = await getBookingCharge(booking.id);
+  return {
+    bookingId: booking.id,
+    dietitianId: booking.dietitian_id,
+    eventTypeId: booking.event_type_id,
+    description: booking.title || "Consultation",
+    startTime: booking.start_time,
+    amount: charge?.amount ?? Number(checkout.amount),
+    currency: charge?.currency ?? checkout.currency,
+    holdExpiresAt,
+  };
+}
+
+/**
+ * Count a booking that was emailed a resume link as recovered, now that it has been paid for
+ */
+export async function markCheckoutRecovered(
+  bookingId: string,
+  payment: { id: string; amount: number; currency: string | null }
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("abandoned_checkouts")
+    .update({
+      status: "RECOVERED",
+      recovered_at: new Date().toISOString(),
+      recovered_payment_id: payment.id,
+      amount: Number(payment.amount),
+      currency: payment.currency || BASE_CURRENCY,
+    })
+    .eq("booking_id", bookingId)
+    .neq("status", "RECOVERED");
+
+  if (error) {
+    throw new AppError(`Failed to record recovered checkout: ${error.message}`, "ABANDONED_CHECKOUT_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * How many abandoned checkouts were won back, for checkouts emailed from `from` (all time by default)
+ */
+export async function getAbandonedCheckoutStats({ from }: { from?: string | null } = {}): Promise<AbandonedCheckoutStats> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("abandoned_checkouts")
+    .select("id, booking_id, user_id, amount, currency, status, expires_at, reminded_at, resumed_at, recovered_at");
+  if (from) {
+    query = query.gte("reminded_at", from);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new AppError(`Failed to load abandoned checkouts: ${error.message}`, "ABANDONED_CHECKOUT_FETCH_FAILED", 500);
+  }
+
+  const rows = (data || []) as AbandonedCheckoutRow[];
+  const recoveredRows = rows.filter((row) => row.status === "RECOVERED");
+  const toNgn = await getNgnConverter();
+
+  let recoveredRevenue = 0;
+  const unconvertedCurrencies = new Set<string>();
+  for (const row of recoveredRows) {
+    const amount = toNgn(Number(row.amount), row.currency, row.recovered_at || row.reminded_at);
+    if (amount === null) {
+      unconvertedCurrencies.add(row.currency);
+    } else {
+      recoveredRevenue += amount;
+    }
+  }
+
+  return {
+    reminded: rows.length,
+    resumed: rows.filter((row) => row.resumed_at).length,
+    recovered: recoveredRows.length,
+    expired: rows.filter((row) => row.status === "EXPIRED").length,
+    open: rows.filter((row) => row.status === "REMINDED" || row.status === "RESUMED").length,
+    recoveryRate: rows.length > 0 ? recoveredRows.length / rows.length : 0,
+    recoveredRevenue: roundMoney(recoveredRevenue),
+    currency: BASE_CURRENCY,
+    unconvertedCurrencies: [...unconvertedCurrencies],
+  };
+}
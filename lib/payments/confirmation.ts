@@ -0,0 +1,477 @@
+/**
+ * Payment confirmation
+ * The verify endpoint (the client returning from checkout) and the Paystack webhook both
+ * confirm payments here. The transaction is looked up with Paystack instead of trusting the
+ * caller, its amount and currency must match what was being paid for, and only the call that
+ * moves the payment to SUCCESS goes on to confirm the booking and send emails.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, NotFoundError } from "@/lib/error-handling";
+import { getPaystackClient, type PaystackTransaction } from "@/lib/paystack";
+import { createGoogleMeetLinkOnly } from "@/lib/google-calendar";
+import { confirmPaidBooking, type ConfirmPaidBookingResult } from "@/lib/bookings/holds";
+import { confirmSeriesOccurrences } from "@/lib/bookings/series";
+import { getGroupMeetingLink } from "@/lib/bookings/group-sessions";
+import { emailQueue } from "@/lib/email/queue";
+import { getBookingInviteAttachment, type BookingForIcs } from "@/lib/calendar/ics";
+import { roundMoney, syncLedgerEntries } from "./ledger";
+import { getCheckoutCharge, type Charge } from "./pricing";
+import { releaseWalletReservation, spendWalletForPayment } from "./wallet";
+import { rewardReferralForBooking } from "./referrals";
+import { markPromoCodeRedeemed } from "./promo-codes";
+import { activateSessionCredits } from "./session-bundles";
+import { sendPaymentReceipt } from "./receipts";
+import { markCheckoutRecovered } from "./abandoned-checkouts";
+
+export const PAYMENT_VERIFICATION_FAILED = "PAYMENT_VERIFICATION_FAILED";
+
+// Payments in these states can still be confirmed; a failed verification may be retried
+const CONFIRMABLE_STATUSES = ["PENDING", "FAILED"];
+
+// Paystack statuses that mean the charge did not go through
+const FAILED_TRANSACTION_STATUSES = ["failed", "abandoned", "reversed"];
+
+export interface PaymentRecord {
+  id: string;
+  amount: number;
+  currency: string | null;
+  status: "PENDING" | "SUCCESS" | "FAILED";
+  paystack_ref: string;
+  booking_id: string | null;
+  metadata?: Record<string, unknown> | null;
+  gateway_response?: string | null;
+  channel?: string | null;
+  fees?: number | null;
+  paid_at?: string | null;
+  verified_at?: string | null;
+  verification_error?: string | null;
+  discount_amount?: number | null;
+  wallet_amount?: number | null;
+  user_id?: string | null;
+}
+
+export interface PaymentConfirmationResult {
+  // The payments row after confirmation
+  payment: PaymentRecord;
+  // False when the payment had already been confirmed by an earlier call
+  confirmedNow: boolean;
+  // Outcome for the booking the payment is for, if any
+  booking: ConfirmPaidBookingResult | null;
+}
+
+export interface ConfirmedBooking extends BookingForIcs {
+  user_id: string;
+  dietitian_id: string;
+  event_type_id?: string | null;
+  group_session_id?: string | null;
+}
+
+// Fallback function if Google Calendar API fails
+function generateFallbackMeetLink(reference: string) {
+  const slug = reference.slice(-8);
+  return `https://meet.google.com/${slug}`;
+}
+
+/**
+ * What the client should have paid: the price of what they bought in the currency they chose, less
+ * any promo code discount and wallet balance taken at checkout. Null if it can't be priced, which
+ * fails the payment rather than trusting what was charged.
+ */
+async function getExpectedCharge(payment: PaymentRecord): Promise<Charge | null> {
+  const metadata = payment.metadata || {};
+  const text = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+  let charge: Charge | null;
+  try {
+    charge = await getCheckoutCharge(
+      {
+        requestType: metadata.requestType,
+        bookingId: payment.booking_id,
+        requestId: text(metadata.requestId),
+        packageId: text(metadata.packageId),
+        dietitianId: text(metadata.dietitianId),
+        bundleId: text(metadata.bundleId),
+      },
+      payment.currency
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return null;
+    }
+    throw error;
+  }
+  if (!charge) {
+    return null;
+  }
+
+  return {
+    amount: roundMoney(charge.amount - Number(payment.discount_amount || 0) - Number(payment.wallet_amount || 0)),
+    currency: charge.currency,
+  };
+}
+
+/**
+ * Why a transaction can't confirm the payment, or null if it can
+ */
+function getMismatch(transaction: PaystackTransaction, expected: Charge | null): string | null {
+  if (transaction.status !== "success") {
+    return `Transaction status is ${transaction.status}`;
+  }
+  if (!expected) {
+    return "What this payment was for can't be priced";
+  }
+  if (transaction.currency.toUpperCase() !== expected.currency.toUpperCase()) {
+    return `Paid in ${transaction.currency}, expected ${expected.currency}`;
+  }
+  if (transaction.amount !== Math.round(expected.amount * 100)) {
+    return `Paid ${transaction.amount / 100} ${transaction.currency}, expected ${expected.amount} ${expected.currency}`;
+  }
+  return null;
+}
+
+function getGatewayFields(transaction: PaystackTransaction) {
+  return {
+    gateway_response: transaction.gatewayResponse,
+    channel: transaction.channel,
+    fees: transaction.fees !== null ? transaction.fees / 100 : null,
+    verified_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Verify a payment with Paystack and, the first time it succeeds, confirm what it paid for.
+ * Safe to call any number of times for the same reference, including concurrently.
+ */
+export async function confirmPayment(reference: string): Promise<PaymentConfirmationResult> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: payment, error: paymentError } = await supabaseAdmin
+    .from("payments")
+    .select("*")
+    .eq("paystack_ref", reference)
+    .maybeSingle();
+
+  if (paymentError || !payment) {
+    throw new NotFoundError("Payment not found");
+  }
+
+  if (!CONFIRMABLE_STATUSES.includes(payment.status)) {
+    return { payment, confirmedNow: false, booking: null };
+  }
+
+  const transaction = await getPaystackClient().verifyTransaction(reference);
+
+  // Still being processed; leave the payment as it is and let the webhook confirm it
+  if (transaction.status !== "success" && !FAILED_TRANSACTION_STATUSES.includes(transaction.status)) {
+    throw new AppError("Payment has not completed yet", PAYMENT_VERIFICATION_FAILED, 402, {
+      status: transaction.status,
+    });
+  }
+
+  const expected = await getExpectedCharge(payment);
+  const mismatch = getMismatch(transaction, expected);
+
+  if (mismatch) {
+    console.warn("[Payments] Payment verification failed:", { reference, mismatch });
+    await supabaseAdmin
+      .from("payments")
+      .update({
+        ...getGatewayFields(transaction),
+        status: "FAILED",
+        verification_error: mismatch,
+      })
+      .eq("id", payment.id)
+      .in("status", CONFIRMABLE_STATUSES);
+
+    throw new AppError("Payment could not be verified", PAYMENT_VERIFICATION_FAILED, 402, { reason: mismatch });
+  }
+
+  // Claim the payment; whoever loses the race (webhook or verify) leaves confirmation to the winner
+  const { data: claimedPayment, error: claimError } = await supabaseAdmin
+    .from("payments")
+    .update({
+      ...getGatewayFields(transaction),
+      status: "SUCCESS",
+      amount: transaction.amount / 100,
+      currency: transaction.currency,
+      paid_at: transaction.paidAt,
+      verification_error: null,
+    })
+    .eq("id", payment.id)
+    .in("status", CONFIRMABLE_STATUSES)
+    .select("*")
+    .maybeSingle();
+
+  if (claimError) {
+    throw new AppError(`Failed to update payment: ${claimError.message}`, "PAYMENT_UPDATE_FAILED", 500);
+  }
+
+  if (!claimedPayment) {
+    const { data: currentPayment } = await supabaseAdmin
+      .from("payments")
+      .select("*")
+      .eq("id", payment.id)
+      .single();
+    return { payment: currentPayment || payment, confirmedNow: false, booking: null };
+  }
+
+  const booking = claimedPayment.booking_id
+    ? await confirmBookingForPayment(claimedPayment.booking_id, reference)
+    : null;
+
+  // A refunded booking gives the wallet balance back by releasing its reservation
+  if (claimedPayment.user_id && Number(claimedPayment.wallet_amount) > 0) {
+    try {
+      if (booking?.refunded) {
+        await releaseWalletReservation(claimedPayment.id);
+      } else {
+        await spendWalletForPayment(
+          claimedPayment.user_id,
+          claimedPayment.id,
+          Number(claimedPayment.wallet_amount),
+          claimedPayment.currency || "NGN",
+          typeof claimedPayment.metadata?.description === "string" ? claimedPayment.metadata.description : null
+        );
+      }
+    } catch (error) {
+      console.error("[Payments] Failed to charge wallet:", error);
+    }
+  }
+
+  if (booking?.confirmed && claimedPayment.booking_id) {
+    try {
+      const { data: paidBooking } = await supabaseAdmin
+        .from("bookings")
+        .select("user_id")
+        .eq("id", claimedPayment.booking_id)
+        .single();
+      if (paidBooking?.user_id) {
+        await rewardReferralForBooking(paidBooking.user_id, claimedPayment.booking_id);
+      }
+    } catch (error) {
+      console.error("[Payments] Failed to reward referral:", error);
+    }
+
+    // Counts towards the abandoned checkout recovery rate if the client had been emailed a resume link
+    try {
+      await markCheckoutRecovered(claimedPayment.booking_id, claimedPayment);
+    } catch (error) {
+      console.error("[Payments] Failed to record recovered checkout:", error);
+    }
+  }
+
+  if (claimedPayment.metadata?.requestType === "SESSION_BUNDLE") {
+    try {
+      const credit = await activateSessionCredits(claimedPayment.id);
+      console.log("[Payments] Session credits activated:", { paymentId: claimedPayment.id, creditId: credit?.id });
+    } catch (error) {
+      console.error("[Payments] Failed to activate session credits:", error);
+    }
+  }
+
+  if (claimedPayment.promo_code_id) {
+    try {
+      await markPromoCodeRedeemed(claimedPayment.id);
+    } catch (error) {
+      console.error("[Payments] Failed to record promo code redemption:", error);
+    }
+  }
+
+  // Best effort; the admin ledger back-fills anything missed here
+  try {
+    await syncLedgerEntries({ paymentIds: [claimedPayment.id] });
+  } catch (error) {
+    console.error("[Payments] Failed to record ledger entry:", error);
+  }
+
+  // A booking refunded because its slot was taken gets no receipt; anything missed here is
+  // issued when the client next lists their receipts
+  if (!booking?.refunded) {
+    try {
+      const receipt = await sendPaymentReceipt(claimedPayment.id);
+      console.log("[Payments] Receipt issued:", { paymentId: claimedPayment.id, receiptNumber: receipt?.receiptNumber });
+    } catch (error) {
+      console.error("[Payments] Failed to send receipt:", error);
+    }
+  }
+
+  return { payment: claimedPayment, confirmedNow: true, booking };
+}
+
+/**
+ * Confirm the booking a successful payment was for, then add its meeting link, approve the
+ * matching session request and send confirmation emails with a calendar invite
+ */
+async function confirmBookingForPayment(bookingId: string, reference: string): Promise<ConfirmPaidBookingResult | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking, error: bookingError } = await supabaseAdmin
+    .from("bookings")
+    .select("*")
+    .eq("id", bookingId)
+    .single();
+
+  if (bookingError || !booking) {
+    console.error("[Payments] Booking for payment not found:", { bookingId, reference });
+    return null;
+  }
+
+  // If the hold expired and someone else took the slot, the payment is refunded instead
+  let confirmation: ConfirmPaidBookingResult = { confirmed: false };
+  try {
+    confirmation = await confirmPaidBooking(bookingId, reference);
+  } catch (error) {
+    console.error("[Payments] Failed to confirm booking:", error);
+  }
+
+  if (!confirmation.confirmed) {
+    console.warn("[Payments] Booking not confirmed:", { bookingId, ...confirmation });
+    return confirmation;
+  }
+
+  // A series checkout pays for every occurrence
+  if (booking.series_id) {
+    const confirmedOccurrences = await confirmSeriesOccurrences(bookingId, reference);
+    console.log("[Payments] Series occurrences confirmed:", confirmedOccurrences);
+  }
+
+  await completeBookingConfirmation(booking, reference);
+
+  return confirmation;
+}
+
+/**
+ * Finish off a booking that has just been confirmed (paid for, or booked with a session credit):
+ * add its meeting link, approve the matching session request and send confirmation emails with a
+ * calendar invite. `reference` seeds the fallback meeting link. Returns the meeting link.
+ */
+export async function completeBookingConfirmation(booking: ConfirmedBooking, reference: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+  const bookingId = booking.id;
+
+  let meetLink = booking.meeting_link || "";
+  if (!meetLink) {
+    // Try to create Google Meet link (minimal calendar event, no attendees)
+    // Group sessions share one link across every client in the occurrence
+    try {
+      meetLink = booking.group_session_id
+        ? await getGroupMeetingLink(booking.group_session_id)
+        : await createGoogleMeetLinkOnly(booking.dietitian_id, {
+            summary: booking.title || "Consultation Session",
+            startTime: booking.start_time,
+            endTime: booking.end_time,
+          });
+    } catch (error) {
+      console.error("[Payments] Failed to create Google Meet link:", error);
+      meetLink = generateFallbackMeetLink(reference);
+    }
+
+    const { error: meetLinkError } = await supabaseAdmin
+      .from("bookings")
+      .update({ meeting_link: meetLink })
+      .eq("id", bookingId);
+
+    if (meetLinkError) {
+      // Don't throw - booking is still confirmed
+      console.error("[Payments] Failed to add meeting link to booking:", meetLinkError);
+    }
+  }
+
+  const { data: dietitian } = await supabaseAdmin
+    .from("users")
+    .select("email, name")
+    .eq("id", booking.dietitian_id)
+    .single();
+
+  const { data: patient } = await supabaseAdmin
+    .from("users")
+    .select("email, name")
+    .eq("id", booking.user_id)
+    .single();
+
+  if (patient?.email && booking.event_type_id) {
+    await approveSessionRequest(patient.email, booking.dietitian_id, booking.event_type_id);
+  }
+
+  // Send booking confirmation emails with a calendar invite
+  const invite = getBookingInviteAttachment(
+    { ...booking, meeting_link: meetLink },
+    {
+      method: "REQUEST",
+      organizer: dietitian?.email ? { name: dietitian.name, email: dietitian.email } : null,
+      attendee: patient?.email ? { name: patient.name, email: patient.email } : null,
+    }
+  );
+
+  if (patient?.email) {
+    await emailQueue.enqueue({
+      to: patient.email,
+      recipientId: booking.user_id,
+      subject: "Booking Confirmed - Your Consultation is Scheduled",
+      template: "booking_confirmation",
+      data: {
+        userName: patient.name || "User",
+        eventTitle: booking.title || "Consultation",
+        startTime: booking.start_time,
+        meetingLink: meetLink,
+      },
+      attachments: [invite],
+    });
+  }
+
+  if (dietitian?.email) {
+    await emailQueue.enqueue({
+      to: dietitian.email,
+      recipientId: booking.dietitian_id,
+      subject: "New Booking Confirmed",
+      template: "booking_confirmation",
+      data: {
+        userName: dietitian.name || "Dietitian",
+        eventTitle: booking.title || "Consultation",
+        startTime: booking.start_time,
+        meetingLink: meetLink,
+      },
+      attachments: [invite],
+      isDietitian: true,
+    });
+  }
+
+  return meetLink;
+}
+
+/**
+ * Approve the client's latest pending session request for this practitioner and event type
+ */
+async function approveSessionRequest(clientEmail: string, dietitianId: string, eventTypeId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  try {
+    const { data: sessionRequest } = await supabaseAdmin
+      .from("session_requests")
+      .select("id")
+      .eq("client_email", clientEmail.toLowerCase().trim())
+      .eq("dietitian_id", dietitianId)
+      .eq("event_type_id", eventTypeId)
+      .eq("status", "PENDING")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!sessionRequest) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from("session_requests")
+      .update({ status: "APPROVED" })
+      .eq("id", sessionRequest.id);
+
+    if (error) {
+      console.error(`[Payments] Failed to update session request ${sessionRequest.id}:`, error);
+    }
+  } catch (error) {
+    // Don't fail payment confirmation if session request lookup fails
+    console.error("[Payments] Error looking up session request:", error);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Exchange rates
+ * Admin-entered rates to NGN, kept as a history so that revenue reports convert each payment at
+ * the rate in effect when it was made. Checkout never uses these: other currencies are charged
+ * at the prices set on the event type or meal plan package.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, ValidationError } from "@/lib/error-handling";
+import { BASE_CURRENCY, isSupportedCurrency } from "@/lib/utils/money";
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rateToNgn: number;
+  effectiveFrom: string;
+  createdAt: string;
+}
+
+interface ExchangeRateRow {
+  id: string;
+  currency: string;
+  rate_to_ngn: number | string;
+  effective_from: string;
+  created_at: string;
+}
+
+// Converts an amount paid at a given time to NGN; null when there is no rate for the currency
+export type NgnConverter = (amount: number, currency: string | null, at: string) => number | null;
+
+function toExchangeRate(row: ExchangeRateRow): ExchangeRate {
+  return {
+    id: row.id,
+    currency: row.currency,
+    rateToNgn: Number(row.rate_to_ngn),
+    effectiveFrom: row.effective_from,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Every rate ever entered, newest first
+ */
+export async function listExchangeRates(): Promise<ExchangeRate[]> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("exchange_rates")
+    .select("*")
+    .order("effective_from", { ascending: false });
+
+  if (error) {
+    throw new AppError(`Failed to load exchange rates: ${error.message}`, "EXCHANGE_RATES_FETCH_FAILED", 500);
+  }
+
+  return ((data || []) as ExchangeRateRow[]).map(toExchangeRate);
+}
+
+/**
+ * Record a new rate; it applies to payments made from `effectiveFrom` (now by default)
+ */
+export async function setExchangeRate(
+  currency: string,
+  rateToNgn: number,
+  { effectiveFrom, createdBy }: { effectiveFrom?: string | null; createdBy?: string | null } = {}
+): Promise<ExchangeRate> {
+  const code = currency?.toUpperCase();
+  if (!isSupportedCurrency(code) || code === BASE_CURRENCY) {
+    throw new ValidationError(`Exchange rates can only be set for currencies other than ${BASE_CURRENCY}`);
+  }
+  if (!Number.isFinite(rateToNgn) || rateToNgn <= 0) {
+    throw new ValidationError("Rate must be above 0");
+  }
+  if (effectiveFrom && Number.isNaN(new Date(effectiveFrom).getTime())) {
+    throw new ValidationError("Effective date is invalid");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("exchange_rates")
+    .insert({
+      currency: code,
+      rate_to_ngn: rateToNgn,
+      effective_from: effectiveFrom ? new Date(effectiveFrom).toISOString() : new Date().toISOString(),
+      created_by: createdBy || null,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new ConflictError("A rate for this currency already starts at that time");
+    }
+    throw new AppError(`Failed to save exchange rate: ${error.message}`, "EXCHANGE_RATE_CREATE_FAILED", 500);
+  }
+
+  return toExchangeRate(data);
+}
+
+/**
+ * Build a converter from the rate history. Amounts from before a currency's first rate use that
+ * first rate.
+ */
+export function createNgnConverter(rates: ExchangeRate[]): NgnConverter {
+  const byCurrency = new Map<string, ExchangeRate[]>();
+  for (const rate of rates) {
+    byCurrency.set(rate.currency, [...(byCurrency.get(rate.currency) || []), rate]);
+  }
+  for (const history of byCurrency.values()) {
+    history.sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime());
+  }
+
+  return (amount, currency, at) => {
+    const code = (currency || BASE_CURRENCY).toUpperCase();
+    if (code === BASE_CURRENCY) {
+      return amount;
+    }
+
+    const history = byCurrency.get(code);
+    if (!history || history.length === 0) {
+      return null;
+    }
+
+    const time = new Date(at).getTime();
+    const rate = history.find((entry) => new Date(entry.effectiveFrom).getTime() <= time) || history[history.length - 1];
+    return Math.round(amount * rate.rateToNgn * 100) / 100;
+  };
+}
+
+export async function getNgnConverter(): Promise<NgnConverter> {
+  return createNgnConverter(await listExchangeRates());
+}
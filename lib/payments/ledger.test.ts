@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  upserted: [] as unknown[],
+}));
+
+// Answers each query with the response set for its table, and keeps the ledger entries upserted
+function from(table: string) {
+  const result = () => Promise.resolve({ data: mocks.responses[table] ?? [], error: null });
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    in: () => builder,
+    upsert: (rows: unknown[]) => {
+      mocks.upserted.push(...rows);
+      mocks.responses[table] = rows;
+      return builder;
+    },
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("./exchange-rates", () => ({ getNgnConverter: vi.fn() }));
+
+import { getPayableNet, getSplitSettlement, syncLedgerEntries } from "./ledger";
+
+const payment = {
+  id: "payment-1",
+  amount: 6000,
+  wallet_amount: 4000,
+  wallet_refund_amount: null,
+  currency: "NGN",
+  booking_id: "booking-1",
+  metadata: {},
+  refund_amount: null,
+  subaccount_code: "ACCT_123",
+  paid_at: "2026-03-01T10:00:00Z",
+  created_at: "2026-03-01T09:55:00Z",
+};
+
+beforeEach(() => {
+  mocks.upserted = [];
+  mocks.responses = {
+    payments: [payment],
+    ledger_entries: [],
+    bookings: [{ id: "booking-1", dietitian_id: "dietitian-1", title: "Consultation" }],
+    users: [{ id: "dietitian-1", commission_percent: 10 }],
+  };
+});
+
+describe("getSplitSettlement", () => {
+  it("settles card-only split payments in full and nothing without a subaccount", () => {
+    expect(getSplitSettlement({ ...payment, wallet_amount: null }, 10)).toEqual({ settledBySplit: true, splitSettled: 0 });
+    expect(getSplitSettlement({ ...payment, subaccount_code: null }, 10)).toEqual({ settledBySplit: false, splitSettled: 0 });
+  });
+});
+
+describe("syncLedgerEntries", () => {
+  it("leaves the wallet share of a split payment owed to the practitioner", async () => {
+    expect(await syncLedgerEntries({ paymentIds: ["payment-1"] })).toBe(1);
+
+    const [entry] = mocks.upserted as Record<string, unknown>[];
+    expect(entry).toMatchObject({
+      gross: 10000,
+      commission: 1000,
+      net: 9000,
+      settled_by_split: false,
+      // The subaccount got the card charge less the platform's share of it
+      split_settled: 5400,
+    });
+    // The payout covers the practitioner's share of the wallet balance spent
+    expect(getPayableNet(entry as { net: number; split_settled: number })).toBe(3600);
+  });
+});
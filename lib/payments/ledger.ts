@@ -0,0 +1,525 @@
+/**
+ * Payout ledger
+ * Each successful payment becomes one ledger entry for the practitioner it was paid to,
+ * split into the platform commission and the practitioner's net. Entries are created when a
+ * payment is confirmed and back-filled by syncLedgerEntries for payments recorded elsewhere
+ * (e.g. bookings paid inline). Refunds reduce an entry until it is added to a payout batch.
+ * Payments split with the practitioner's Paystack subaccount are already settled to them and
+ * never go into a payout batch. The split only covers the card charge, so when wallet balance was
+ * also spent the entry stays payable for the practitioner's share of it. Entries keep the currency they were paid in; totals across
+ * entries are given in NGN.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError } from "@/lib/error-handling";
+import { DEFAULT_TIMEZONE } from "@/lib/utils/timezone";
+import { BASE_CURRENCY } from "@/lib/utils/money";
+import { getNgnConverter, type NgnConverter } from "./exchange-rates";
+
+// Used for practitioners without their own commission_percent
+export const DEFAULT_COMMISSION_PERCENT = Number(process.env.PLATFORM_COMMISSION_PERCENT || 10);
+
+export type LedgerSource = "SESSION" | "MEAL_PLAN";
+
+export interface LedgerEntry {
+  id: string;
+  paymentId: string;
+  practitionerId: string;
+  practitionerName: string | null;
+  bookingId: string | null;
+  source: LedgerSource;
+  description: string | null;
+  reference: string | null;
+  gross: number;
+  refunded: number;
+  commissionPercent: number;
+  commission: number;
+  net: number;
+  // Part of net Paystack settled to the practitioner's subaccount, when only some of it was split
+  splitSettled: number;
+  currency: string;
+  occurredAt: string;
+  payoutBatchId: string | null;
+  payoutStatus: "UNPAID" | "PENDING" | "PAID" | "SPLIT";
+  payoutReference: string | null;
+}
+
+export interface EarningsPeriod {
+  period: string; // YYYY-MM
+  entryCount: number;
+  gross: number;
+  refunded: number;
+  commission: number;
+  net: number;
+  paidOut: number;
+}
+
+export interface EarningsStatement {
+  commissionPercent: number;
+  currency: string;
+  periods: EarningsPeriod[];
+  totals: Omit<EarningsPeriod, "period">;
+  // Currencies paid in that have no exchange rate yet, so are missing from the amounts
+  unconvertedCurrencies: string[];
+}
+
+// Sums across ledger entries, in NGN
+export interface LedgerTotals {
+  gross: number;
+  refunded: number;
+  commission: number;
+  net: number;
+  currency: string;
+  unconvertedCurrencies: string[];
+}
+
+interface PaymentForLedger {
+  id: string;
+  amount: number;
+  wallet_amount: number | null;
+  wallet_refund_amount: number | null;
+  currency: string | null;
+  booking_id: string | null;
+  metadata: unknown;
+  refund_amount: number | null;
+  subaccount_code: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Commission and net for a payment once refunds are taken off
+ */
+export function splitEarnings(gross: number, refunded: number, commissionPercent: number) {
+  const earned = Math.max(gross - refunded, 0);
+  const commission = roundMoney((earned * commissionPercent) / 100);
+  return { commission, net: roundMoney(earned - commission) };
+}
+
+export function getCommissionPercent(practitioner: { commission_percent?: number | string | null }): number {
+  return practitioner.commission_percent !== null && practitioner.commission_percent !== undefined
+    ? Number(practitioner.commission_percent)
+    : DEFAULT_COMMISSION_PERCENT;
+}
+
+// Refunded to the card and given back to the wallet, to match gross
+function getRefunded(payment: PaymentForLedger): number {
+  return roundMoney(Number(payment.refund_amount || 0) + Number(payment.wallet_refund_amount || 0));
+}
+
+/**
+ * What Paystack settled to the practitioner's subaccount for a payment. A split payment paid only
+ * by card is settled in full; when wallet balance was spent too, only the card charge was split
+ * and the rest of net is still owed through a payout batch.
+ */
+export function getSplitSettlement(
+  payment: Pick<PaymentForLedger, "amount" | "wallet_amount" | "subaccount_code">,
+  commissionPercent: number
+): { settledBySplit: boolean; splitSettled: number } {
+  if (!payment.subaccount_code) {
+    return { settledBySplit: false, splitSettled: 0 };
+  }
+  if (!Number(payment.wallet_amount || 0)) {
+    return { settledBySplit: true, splitSettled: 0 };
+  }
+  return { settledBySplit: false, splitSettled: splitEarnings(Number(payment.amount || 0), 0, commissionPercent).net };
+}
+
+/**
+ * What a payout batch pays for an entry: its net, less what Paystack already settled
+ */
+export function getPayableNet(entry: { net: number | string; split_settled?: number | string | null }): number {
+  return roundMoney(Math.max(Number(entry.net) - Number(entry.split_settled || 0), 0));
+}
+
+function parseMetadata(metadata: unknown): Record<string, unknown> {
+  if (typeof metadata === "string") {
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      return {};
+    }
+  }
+  return metadata && typeof metadata === "object" ? (metadata as Record<string, unknown>) : {};
+}
+
+/**
+ * Create ledger entries for successful payments that don't have one yet, and bring refunds up to
+ * date on entries that haven't been paid out. Limit to `paymentIds` to sync specific payments.
+ * Returns the number of entries created.
+ */
+export async function syncLedgerEntries({ paymentIds }: { paymentIds?: string[] } = {}): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let paymentsQuery = supabaseAdmin
+    .from("payments")
+    .select(
+      "id, amount, currency, wallet_amount, booking_id, metadata, refund_amount, wallet_refund_amount, subaccount_code, paid_at, created_at"
+    )
+    .eq("status", "SUCCESS");
+  if (paymentIds) {
+    paymentsQuery = paymentsQuery.in("id", paymentIds);
+  }
+
+  const { data: payments, error: paymentsError } = await paymentsQuery;
+  if (paymentsError) {
+    throw new AppError(`Failed to load payments for ledger: ${paymentsError.message}`, "LEDGER_SYNC_FAILED", 500);
+  }
+  if (!payments || payments.length === 0) {
+    return 0;
+  }
+
+  let entriesQuery = supabaseAdmin
+    .from("ledger_entries")
+    .select("id, payment_id, gross, refunded, commission_percent, payout_batch_id");
+  if (paymentIds) {
+    entriesQuery = entriesQuery.in("payment_id", paymentIds);
+  }
+
+  const { data: existingEntries, error: entriesError } = await entriesQuery;
+  if (entriesError) {
+    throw new AppError(`Failed to load ledger entries: ${entriesError.message}`, "LEDGER_SYNC_FAILED", 500);
+  }
+
+  const entriesByPayment = new Map((existingEntries || []).map((entry) => [entry.payment_id, entry]));
+
+  // Refunds made after the entry was created, while it is still unpaid
+  for (const payment of payments as PaymentForLedger[]) {
+    const entry = entriesByPayment.get(payment.id);
+    const refunded = getRefunded(payment);
+    if (!entry || entry.payout_batch_id || Number(entry.refunded) === refunded) {
+      continue;
+    }
+
+    const { commission, net } = splitEarnings(Number(entry.gross), refunded, Number(entry.commission_percent));
+    const { error } = await supabaseAdmin
+      .from("ledger_entries")
+      .update({ refunded, commission, net })
+      .eq("id", entry.id)
+      .is("payout_batch_id", null);
+
+    if (error) {
+      console.error("[Ledger] Failed to update refunded entry:", { entryId: entry.id, error: error.message });
+    }
+  }
+
+  const newPayments = (payments as PaymentForLedger[]).filter((payment) => !entriesByPayment.has(payment.id));
+  if (newPayments.length === 0) {
+    return 0;
+  }
+
+  // Sessions are attributed through the booking; meal plans through the session request or metadata
+  const bookingIds = newPayments.map((payment) => payment.booking_id).filter(Boolean) as string[];
+  const requestIds = newPayments
+    .map((payment) => parseMetadata(payment.metadata).requestId)
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+
+  const { data: bookings } = bookingIds.length
+    ? await supabaseAdmin.from("bookings").select("id, dietitian_id, title").in("id", bookingIds)
+    : { data: [] };
+  const { data: sessionRequests } = requestIds.length
+    ? await supabaseAdmin.from("session_requests").select("id, dietitian_id, meal_plan_type").in("id", requestIds)
+    : { data: [] };
+
+  const bookingsById = new Map((bookings || []).map((booking) => [booking.id, booking]));
+  const requestsById = new Map((sessionRequests || []).map((request) => [request.id, request]));
+
+  const drafts = newPayments.flatMap((payment) => {
+    const metadata = parseMetadata(payment.metadata);
+    const booking = payment.booking_id ? bookingsById.get(payment.booking_id) : null;
+    const sessionRequest = typeof metadata.requestId === "string" ? requestsById.get(metadata.requestId) : null;
+    const practitionerId =
+      booking?.dietitian_id ||
+      sessionRequest?.dietitian_id ||
+      (typeof metadata.dietitianId === "string" ? metadata.dietitianId : null);
+
+    if (!practitionerId) {
+      console.warn("[Ledger] Payment has no practitioner, skipping:", { paymentId: payment.id });
+      return [];
+    }
+
+    const description =
+      booking?.title ||
+      (sessionRequest?.meal_plan_type ? `Meal Plan: ${sessionRequest.meal_plan_type}` : null) ||
+      (typeof metadata.description === "string" ? metadata.description : null);
+
+    return [{ payment, practitionerId, bookingId: booking?.id || null, description }];
+  });
+
+  if (drafts.length === 0) {
+    return 0;
+  }
+
+  const practitionerIds = [...new Set(drafts.map((draft) => draft.practitionerId))];
+  const { data: practitioners } = await supabaseAdmin
+    .from("users")
+    .select("id, commission_percent")
+    .in("id", practitionerIds);
+  const practitionersById = new Map((practitioners || []).map((practitioner) => [practitioner.id, practitioner]));
+
+  const rows = drafts.map(({ payment, practitionerId, bookingId, description }) => {
+    // What was paid: the card charge plus the wallet balance spent on it
+    const gross = roundMoney(Number(payment.amount || 0) + Number(payment.wallet_amount || 0));
+    const refunded = getRefunded(payment);
+    const commissionPercent = getCommissionPercent(practitionersById.get(practitionerId) || {});
+    const { commission, net } = splitEarnings(gross, refunded, commissionPercent);
+    const { settledBySplit, splitSettled } = getSplitSettlement(payment, commissionPercent);
+
+    return {
+      payment_id: payment.id,
+      practitioner_id: practitionerId,
+      booking_id: bookingId,
+      source: bookingId ? "SESSION" : "MEAL_PLAN",
+      description,
+      gross,
+      refunded,
+      commission_percent: commissionPercent,
+      commission,
+      net,
+      currency: payment.currency || "NGN",
+      occurred_at: payment.paid_at || payment.created_at,
+      settled_by_split: settledBySplit,
+      split_settled: splitSettled,
+    };
+  });
+
+  // Another sync may have created some of these in the meantime
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from("ledger_entries")
+    .upsert(rows, { onConflict: "payment_id", ignoreDuplicates: true })
+    .select("id");
+
+  if (insertError) {
+    throw new AppError(`Failed to create ledger entries: ${insertError.message}`, "LEDGER_SYNC_FAILED", 500);
+  }
+
+  return inserted?.length || 0;
+}
+
+/**
+ * Ledger entries, newest first, optionally for one practitioner and/or a date range
+ */
+export async function listLedgerEntries({
+  practitionerId,
+  from,
+  to,
+}: {
+  practitionerId?: string;
+  from?: string;
+  to?: string;
+} = {}): Promise<LedgerEntry[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("ledger_entries")
+    .select(
+      "*, practitioner:users!ledger_entries_practitioner_id_fkey(name), payment:payments(paystack_ref), payout_batch:payout_batches(status, reference)"
+    )
+    .order("occurred_at", { ascending: false });
+
+  if (practitionerId) {
+    query = query.eq("practitioner_id", practitionerId);
+  }
+  if (from) {
+    query = query.gte("occurred_at", from);
+  }
+  if (to) {
+    query = query.lt("occurred_at", to);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new AppError(`Failed to load ledger: ${error.message}`, "LEDGER_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((row) => {
+    const practitioner = Array.isArray(row.practitioner) ? row.practitioner[0] : row.practitioner;
+    const payment = Array.isArray(row.payment) ? row.payment[0] : row.payment;
+    const payoutBatch = Array.isArray(row.payout_batch) ? row.payout_batch[0] : row.payout_batch;
+
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      practitionerId: row.practitioner_id,
+      practitionerName: practitioner?.name || null,
+      bookingId: row.booking_id,
+      source: row.source,
+      description: row.description,
+      reference: payment?.paystack_ref || null,
+      gross: Number(row.gross),
+      refunded: Number(row.refunded),
+      commissionPercent: Number(row.commission_percent),
+      commission: Number(row.commission),
+      net: Number(row.net),
+      splitSettled: Number(row.split_settled || 0),
+      currency: row.currency,
+      occurredAt: row.occurred_at,
+      payoutBatchId: row.payout_batch_id,
+      payoutStatus: row.settled_by_split ? "SPLIT" : payoutBatch ? payoutBatch.status : "UNPAID",
+      payoutReference: payoutBatch?.reference || null,
+    };
+  });
+}
+
+/**
+ * An entry's amounts in NGN, at the exchange rate when it was paid. Null if its currency has no rate.
+ */
+function convertEntry(entry: LedgerEntry, toNgn: NgnConverter) {
+  const gross = toNgn(entry.gross, entry.currency, entry.occurredAt);
+  if (gross === null) {
+    return null;
+  }
+  return {
+    gross,
+    refunded: toNgn(entry.refunded, entry.currency, entry.occurredAt) ?? 0,
+    commission: toNgn(entry.commission, entry.currency, entry.occurredAt) ?? 0,
+    net: toNgn(entry.net, entry.currency, entry.occurredAt) ?? 0,
+  };
+}
+
+/**
+ * Gross, refunded, commission and net across entries, in NGN
+ */
+export async function getLedgerTotals(entries: LedgerEntry[]): Promise<LedgerTotals> {
+  const toNgn = await getNgnConverter();
+  const totals: LedgerTotals = {
+    gross: 0,
+    refunded: 0,
+    commission: 0,
+    net: 0,
+    currency: BASE_CURRENCY,
+    unconvertedCurrencies: [],
+  };
+
+  for (const entry of entries) {
+    const amounts = convertEntry(entry, toNgn);
+    if (!amounts) {
+      if (!totals.unconvertedCurrencies.includes(entry.currency)) {
+        totals.unconvertedCurrencies.push(entry.currency);
+      }
+      continue;
+    }
+    totals.gross = roundMoney(totals.gross + amounts.gross);
+    totals.refunded = roundMoney(totals.refunded + amounts.refunded);
+    totals.commission = roundMoney(totals.commission + amounts.commission);
+    totals.net = roundMoney(totals.net + amounts.net);
+  }
+
+  return totals;
+}
+
+/**
+ * A practitioner's earnings per calendar month (in the platform timezone), newest first, in NGN
+ */
+export async function getEarningsStatement(practitionerId: string): Promise<EarningsStatement> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const [{ data: practitioner }, entries, toNgn] = await Promise.all([
+    supabaseAdmin.from("users").select("commission_percent").eq("id", practitionerId).single(),
+    listLedgerEntries({ practitionerId }),
+    getNgnConverter(),
+  ]);
+
+  const periods = new Map<string, EarningsPeriod>();
+  const totals = { entryCount: 0, gross: 0, refunded: 0, commission: 0, net: 0, paidOut: 0 };
+  const unconvertedCurrencies: string[] = [];
+
+  for (const entry of entries) {
+    const amounts = convertEntry(entry, toNgn);
+    if (!amounts) {
+      if (!unconvertedCurrencies.includes(entry.currency)) {
+        unconvertedCurrencies.push(entry.currency);
+      }
+      continue;
+    }
+
+    const key = dayjs(entry.occurredAt).tz(DEFAULT_TIMEZONE).format("YYYY-MM");
+    const period = periods.get(key) || {
+      period: key,
+      entryCount: 0,
+      gross: 0,
+      refunded: 0,
+      commission: 0,
+      net: 0,
+      paidOut: 0,
+    };
+    const paidOut =
+      entry.payoutStatus === "PAID" || entry.payoutStatus === "SPLIT"
+        ? amounts.net
+        : Math.min(toNgn(entry.splitSettled, entry.currency, entry.occurredAt) ?? 0, amounts.net);
+
+    for (const bucket of [period, totals]) {
+      bucket.entryCount += 1;
+      bucket.gross = roundMoney(bucket.gross + amounts.gross);
+      bucket.refunded = roundMoney(bucket.refunded + amounts.refunded);
+      bucket.commission = roundMoney(bucket.commission + amounts.commission);
+      bucket.net = roundMoney(bucket.net + amounts.net);
+      bucket.paidOut = roundMoney(bucket.paidOut + paidOut);
+    }
+    periods.set(key, period);
+  }
+
+  return {
+    commissionPercent: getCommissionPercent(practitioner || {}),
+    currency: BASE_CURRENCY,
+    periods: [...periods.values()].sort((a, b) => b.period.localeCompare(a.period)),
+    totals,
+    unconvertedCurrencies,
+  };
+}
+
+function escapeCsv(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ledger entries as a CSV document, with gross and net also in NGN where there is an exchange rate
+ */
+export function ledgerEntriesToCsv(entries: LedgerEntry[], toNgn: NgnConverter): string {
+  const header = [
+    "Date",
+    "Practitioner",
+    "Type",
+    "Description",
+    "Payment reference",
+    "Currency",
+    "Gross",
+    "Refunded",
+    "Commission %",
+    "Commission",
+    "Net",
+    "Gross (NGN)",
+    "Net (NGN)",
+    "Payout status",
+    "Payout reference",
+  ];
+
+  const rows = entries.map((entry) => {
+    const amounts = convertEntry(entry, toNgn);
+    return [
+      dayjs(entry.occurredAt).tz(DEFAULT_TIMEZONE).format("YYYY-MM-DD HH:mm"),
+      entry.practitionerName,
+      entry.source === "SESSION" ? "Session" : "Meal plan",
+      entry.description,
+      entry.reference,
+      entry.currency,
+      entry.gross.toFixed(2),
+      entry.refunded.toFixed(2),
+      entry.commissionPercent,
+      entry.commission.toFixed(2),
+      entry.net.toFixed(2),
+      amounts ? amounts.gross.toFixed(2) : null,
+      amounts ? amounts.net.toFixed(2) : null,
+      entry.payoutStatus,
+      entry.payoutReference,
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
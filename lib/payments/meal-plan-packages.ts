@@ -0,0 +1,353 @@
+/**
+ * Meal plan packages
+ * The meal plans clients can buy, managed by admins on the pricing page. A package has one
+ * price, which admins can override for particular practitioners. Checkout and session requests
+ * price packages here on the server; session requests then keep their own copy of the name and
+ * price, so changing a package only affects purchases made after the change.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { parseCurrencyPrices, type CurrencyPrices } from "@/lib/utils/money";
+import { roundMoney } from "./ledger";
+
+export interface MealPlanPackage {
+  id: string;
+  name: string;
+  description: string;
+  // With the practitioner's own price applied, when listed for a practitioner
+  price: number;
+  currency: string;
+  // Prices in other currencies, e.g. { USD: 25 }
+  prices: CurrencyPrices;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface MealPlanPackagePrice {
+  dietitianId: string;
+  dietitianName: string | null;
+  price: number;
+}
+
+// For the admin pricing page: the package's own price and every practitioner override
+export interface AdminMealPlanPackage extends MealPlanPackage {
+  dietitianPrices: MealPlanPackagePrice[];
+}
+
+export interface MealPlanPackageInput {
+  id?: string | null;
+  name: string;
+  description?: string | null;
+  price: number;
+  currency?: string | null;
+  prices?: CurrencyPrices | null;
+  isActive?: boolean;
+  sortOrder?: number | null;
+}
+
+interface MealPlanPackageRow {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number | string;
+  currency: string;
+  prices: CurrencyPrices | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+interface MealPlanPackagePriceRow {
+  package_id: string;
+  dietitian_id: string;
+  price: number | string;
+  dietitian?: { name: string | null } | { name: string | null }[] | null;
+}
+
+function toMealPlanPackage(row: MealPlanPackageRow, dietitianPrice?: number | string | null): MealPlanPackage {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || "",
+    price: Number(dietitianPrice ?? row.price),
+    currency: row.currency,
+    prices: row.prices || {},
+    isActive: row.is_active,
+    sortOrder: row.sort_order,
+  };
+}
+
+function toMealPlanPackagePrice(row: MealPlanPackagePriceRow): MealPlanPackagePrice {
+  const dietitian = Array.isArray(row.dietitian) ? row.dietitian[0] : row.dietitian;
+  return {
+    dietitianId: row.dietitian_id,
+    dietitianName: dietitian?.name || null,
+    price: Number(row.price),
+  };
+}
+
+/**
+ * A package id from its name, e.g. "2-week plan" -> "2-week-plan"
+ */
+function toPackageId(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function parsePrice(value: unknown): number {
+  const price = Number(value);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new ValidationError("Price must be above 0");
+  }
+  return roundMoney(price);
+}
+
+async function getDietitianPrices(dietitianId: string): Promise<Map<string, number | string>> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_package_prices")
+    .select("package_id, price")
+    .eq("dietitian_id", dietitianId);
+
+  if (error) {
+    throw new AppError(`Failed to load meal plan prices: ${error.message}`, "MEAL_PLAN_PACKAGES_FETCH_FAILED", 500);
+  }
+
+  return new Map((data || []).map((row) => [row.package_id, row.price]));
+}
+
+/**
+ * Packages in display order, priced for `dietitianId` when given
+ */
+export async function listMealPlanPackages({
+  activeOnly = true,
+  dietitianId,
+}: { activeOnly?: boolean; dietitianId?: string | null } = {}): Promise<MealPlanPackage[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin.from("meal_plan_packages").select("*");
+  if (activeOnly) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query.order("sort_order", { ascending: true }).order("price", { ascending: true });
+  if (error) {
+    throw new AppError(`Failed to load meal plan packages: ${error.message}`, "MEAL_PLAN_PACKAGES_FETCH_FAILED", 500);
+  }
+
+  const dietitianPrices = dietitianId ? await getDietitianPrices(dietitianId) : new Map<string, number | string>();
+  return ((data || []) as MealPlanPackageRow[]).map((row) => toMealPlanPackage(row, dietitianPrices.get(row.id)));
+}
+
+/**
+ * A package that is on sale, priced for `dietitianId` when given. Null if there is no such package.
+ */
+export async function getMealPlanPackage(
+  packageId: string,
+  { dietitianId }: { dietitianId?: string | null } = {}
+): Promise<MealPlanPackage | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_packages")
+    .select("*")
+    .eq("id", packageId)
+    .eq("is_active", true)
+    .maybeSingle<MealPlanPackageRow>();
+
+  if (error) {
+    throw new AppError(`Failed to load meal plan package: ${error.message}`, "MEAL_PLAN_PACKAGES_FETCH_FAILED", 500);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const dietitianPrices = dietitianId ? await getDietitianPrices(dietitianId) : null;
+  return toMealPlanPackage(data, dietitianPrices?.get(data.id));
+}
+
+/**
+ * Every package, including those no longer on sale, with their practitioner prices
+ */
+export async function listAdminMealPlanPackages(): Promise<AdminMealPlanPackage[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const packages = await listMealPlanPackages({ activeOnly: false });
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_package_prices")
+    .select("package_id, dietitian_id, price, dietitian:users!meal_plan_package_prices_dietitian_id_fkey(name)");
+
+  if (error) {
+    throw new AppError(`Failed to load meal plan prices: ${error.message}`, "MEAL_PLAN_PACKAGES_FETCH_FAILED", 500);
+  }
+
+  const rows = (data || []) as MealPlanPackagePriceRow[];
+  return packages.map((mealPlanPackage) => ({
+    ...mealPlanPackage,
+    dietitianPrices: rows.filter((row) => row.package_id === mealPlanPackage.id).map(toMealPlanPackagePrice),
+  }));
+}
+
+export async function createMealPlanPackage(input: MealPlanPackageInput): Promise<MealPlanPackage> {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new ValidationError("Package name is required");
+  }
+
+  const id = toPackageId(input.id || name);
+  if (!id) {
+    throw new ValidationError("Package id must contain letters or numbers");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_packages")
+    .insert({
+      id,
+      name,
+      description: input.description?.trim() || null,
+      price: parsePrice(input.price),
+      currency: (input.currency || "NGN").toUpperCase(),
+      prices: parseCurrencyPrices(input.prices, input.currency || "NGN"),
+      is_active: input.isActive ?? true,
+      sort_order: input.sortOrder ?? 0,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new ConflictError("A meal plan package with this id already exists");
+    }
+    throw new AppError(`Failed to create meal plan package: ${error.message}`, "MEAL_PLAN_PACKAGE_CREATE_FAILED", 500);
+  }
+
+  return toMealPlanPackage(data);
+}
+
+/**
+ * Change a package. Requests already made keep the name and price they were made with.
+ */
+export async function updateMealPlanPackage(
+  packageId: string,
+  input: Partial<Omit<MealPlanPackageInput, "id">>
+): Promise<MealPlanPackage> {
+  const updates: Record<string, unknown> = {};
+  if (input.name !== undefined) {
+    if (!input.name?.trim()) {
+      throw new ValidationError("Package name is required");
+    }
+    updates.name = input.name.trim();
+  }
+  if (input.description !== undefined) {
+    updates.description = input.description?.trim() || null;
+  }
+  if (input.price !== undefined) {
+    updates.price = parsePrice(input.price);
+  }
+  if (input.currency) {
+    updates.currency = input.currency.toUpperCase();
+  }
+  if (input.prices !== undefined) {
+    updates.prices = parseCurrencyPrices(input.prices, input.currency || "NGN");
+  }
+  if (input.isActive !== undefined) {
+    updates.is_active = !!input.isActive;
+  }
+  if (input.sortOrder !== undefined && input.sortOrder !== null) {
+    updates.sort_order = Number(input.sortOrder);
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_packages")
+    .update(updates)
+    .eq("id", packageId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update meal plan package: ${error.message}`, "MEAL_PLAN_PACKAGE_UPDATE_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("Meal plan package not found");
+  }
+
+  return toMealPlanPackage(data);
+}
+
+/**
+ * Remove a package and its practitioner prices. Requests made for it keep their copy of it.
+ */
+export async function deleteMealPlanPackage(packageId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_packages")
+    .delete()
+    .eq("id", packageId)
+    .select("id");
+
+  if (error) {
+    throw new AppError(`Failed to delete meal plan package: ${error.message}`, "MEAL_PLAN_PACKAGE_DELETE_FAILED", 500);
+  }
+  if (!data || data.length === 0) {
+    throw new NotFoundError("Meal plan package not found");
+  }
+}
+
+/**
+ * What a package costs with one practitioner, instead of its own price
+ */
+export async function setDietitianPackagePrice(
+  packageId: string,
+  dietitianId: string,
+  price: number
+): Promise<MealPlanPackagePrice> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: dietitian } = await supabaseAdmin
+    .from("users")
+    .select("id, name")
+    .eq("id", dietitianId)
+    .in("role", ["DIETITIAN", "THERAPIST"])
+    .maybeSingle();
+  if (!dietitian) {
+    throw new NotFoundError("Practitioner not found");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("meal_plan_package_prices")
+    .upsert(
+      { package_id: packageId, dietitian_id: dietitianId, price: parsePrice(price) },
+      { onConflict: "package_id,dietitian_id" }
+    )
+    .select("package_id, dietitian_id, price")
+    .single();
+
+  if (error) {
+    // The package doesn't exist
+    if (error.code === "23503") {
+      throw new NotFoundError("Meal plan package not found");
+    }
+    throw new AppError(`Failed to set meal plan price: ${error.message}`, "MEAL_PLAN_PRICE_UPDATE_FAILED", 500);
+  }
+
+  return toMealPlanPackagePrice({ ...data, dietitian: { name: dietitian.name } });
+}
+
+/**
+ * Go back to charging the package's own price with this practitioner
+ */
+export async function removeDietitianPackagePrice(packageId: string, dietitianId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("meal_plan_package_prices")
+    .delete()
+    .eq("package_id", packageId)
+    .eq("dietitian_id", dietitianId);
+
+  if (error) {
+    throw new AppError(`Failed to remove meal plan price: ${error.message}`, "MEAL_PLAN_PRICE_UPDATE_FAILED", 500);
+  }
+}
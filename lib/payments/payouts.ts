@@ -0,0 +1,281 @@
+/**
+ * Practitioner payouts
+ * Payouts are made outside the platform (bank transfer). An admin groups a practitioner's
+ * unpaid ledger entries into a payout batch, transfers the total, then marks the batch paid
+ * with the transfer reference. Payments split with a practitioner's Paystack subaccount were
+ * settled at checkout and are left out, except for the share of any wallet balance spent on them.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { getCommissionPercent, getPayableNet, roundMoney } from "./ledger";
+
+export interface PractitionerBalance {
+  practitionerId: string;
+  name: string | null;
+  email: string | null;
+  role: string;
+  commissionPercent: number;
+  hasCustomCommission: boolean;
+  // Set once they registered a payout account; new payments are split at checkout
+  subaccountCode: string | null;
+  // Entries not yet in a payout batch
+  unpaidEntryCount: number;
+  unpaidGross: number;
+  unpaidCommission: number;
+  unpaidNet: number;
+  currency: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  practitionerId: string;
+  practitionerName: string | null;
+  totalNet: number;
+  currency: string;
+  entryCount: number;
+  status: "PENDING" | "PAID";
+  reference: string | null;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+interface PayoutBatchRow {
+  id: string;
+  practitioner_id: string;
+  total_net: number | string;
+  currency: string;
+  entry_count: number;
+  status: "PENDING" | "PAID";
+  reference: string | null;
+  paid_at: string | null;
+  created_at: string;
+  practitioner?: { name: string | null } | { name: string | null }[] | null;
+}
+
+function toPayoutBatch(row: PayoutBatchRow): PayoutBatch {
+  const practitioner = Array.isArray(row.practitioner) ? row.practitioner[0] : row.practitioner;
+
+  return {
+    id: row.id,
+    practitionerId: row.practitioner_id,
+    practitionerName: practitioner?.name || null,
+    totalNet: Number(row.total_net),
+    currency: row.currency,
+    entryCount: Number(row.entry_count),
+    status: row.status,
+    reference: row.reference,
+    paidAt: row.paid_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Every practitioner with their commission rate and what they are owed but not yet batched
+ */
+export async function listPractitionerBalances(): Promise<PractitionerBalance[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const [{ data: practitioners, error: practitionersError }, { data: entries, error: entriesError }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("users")
+        .select("id, name, email, role, commission_percent, paystack_subaccount_code")
+        .in("role", ["DIETITIAN", "THERAPIST"])
+        .order("name", { ascending: true }),
+      supabaseAdmin
+        .from("ledger_entries")
+        .select("practitioner_id, gross, refunded, commission, net, split_settled, currency")
+        .is("payout_batch_id", null)
+        .eq("settled_by_split", false),
+    ]);
+
+  if (practitionersError || entriesError) {
+    throw new AppError(
+      `Failed to load payout balances: ${(practitionersError || entriesError)?.message}`,
+      "PAYOUTS_FETCH_FAILED",
+      500
+    );
+  }
+
+  const balances = new Map<string, PractitionerBalance>(
+    (practitioners || []).map((practitioner) => [
+      practitioner.id,
+      {
+        practitionerId: practitioner.id,
+        name: practitioner.name,
+        email: practitioner.email,
+        role: practitioner.role,
+        commissionPercent: getCommissionPercent(practitioner),
+        hasCustomCommission: practitioner.commission_percent !== null,
+        subaccountCode: practitioner.paystack_subaccount_code,
+        unpaidEntryCount: 0,
+        unpaidGross: 0,
+        unpaidCommission: 0,
+        unpaidNet: 0,
+        currency: "NGN",
+      },
+    ])
+  );
+
+  for (const entry of entries || []) {
+    const balance = balances.get(entry.practitioner_id);
+    if (!balance) continue;
+    balance.unpaidEntryCount += 1;
+    balance.unpaidGross = roundMoney(balance.unpaidGross + Number(entry.gross) - Number(entry.refunded));
+    balance.unpaidCommission = roundMoney(balance.unpaidCommission + Number(entry.commission));
+    balance.unpaidNet = roundMoney(balance.unpaidNet + getPayableNet(entry));
+    balance.currency = entry.currency;
+  }
+
+  return [...balances.values()];
+}
+
+/**
+ * Set a practitioner's platform commission; null goes back to the platform default.
+ * Applies to payments made from now on.
+ */
+export async function setCommissionPercent(practitionerId: string, commissionPercent: number | null): Promise<void> {
+  if (commissionPercent !== null && (!Number.isFinite(commissionPercent) || commissionPercent < 0 || commissionPercent > 100)) {
+    throw new ValidationError("Commission must be between 0 and 100 percent");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .update({ commission_percent: commissionPercent })
+    .eq("id", practitionerId)
+    .in("role", ["DIETITIAN", "THERAPIST"])
+    .select("id");
+
+  if (error) {
+    throw new AppError(`Failed to update commission: ${error.message}`, "COMMISSION_UPDATE_FAILED", 500);
+  }
+  if (!data || data.length === 0) {
+    throw new NotFoundError("Practitioner not found");
+  }
+}
+
+export async function listPayoutBatches({ practitionerId }: { practitionerId?: string } = {}): Promise<PayoutBatch[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("payout_batches")
+    .select("*, practitioner:users!payout_batches_practitioner_id_fkey(name)")
+    .order("created_at", { ascending: false });
+  if (practitionerId) {
+    query = query.eq("practitioner_id", practitionerId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new AppError(`Failed to load payouts: ${error.message}`, "PAYOUTS_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(toPayoutBatch);
+}
+
+/**
+ * Put a practitioner's unpaid ledger entries into a new pending payout batch. A batch is paid in
+ * one currency, so entries in other currencies wait for a batch of their own.
+ */
+export async function createPayoutBatch(practitionerId: string, createdBy: string | null): Promise<PayoutBatch> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: unpaidEntries, error: entriesError } = await supabaseAdmin
+    .from("ledger_entries")
+    .select("id, net, currency")
+    .eq("practitioner_id", practitionerId)
+    .is("payout_batch_id", null)
+    .eq("settled_by_split", false)
+    .order("occurred_at", { ascending: true });
+
+  if (entriesError) {
+    throw new AppError(`Failed to load ledger entries: ${entriesError.message}`, "PAYOUT_CREATE_FAILED", 500);
+  }
+  if (!unpaidEntries || unpaidEntries.length === 0) {
+    throw new ConflictError("Nothing to pay out for this practitioner");
+  }
+
+  const currency = unpaidEntries[0].currency || "NGN";
+  const entries = unpaidEntries.filter((entry) => (entry.currency || "NGN") === currency);
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from("payout_batches")
+    .insert({
+      practitioner_id: practitionerId,
+      total_net: 0,
+      currency,
+      entry_count: 0,
+      created_by: createdBy,
+    })
+    .select("id")
+    .single();
+
+  if (batchError || !batch) {
+    throw new AppError(`Failed to create payout: ${batchError?.message}`, "PAYOUT_CREATE_FAILED", 500);
+  }
+
+  // Only claim entries still unbatched, in case another payout was created at the same time
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("ledger_entries")
+    .update({ payout_batch_id: batch.id })
+    .in("id", entries.map((entry) => entry.id))
+    .is("payout_batch_id", null)
+    .select("net, split_settled");
+
+  if (claimError || !claimed || claimed.length === 0) {
+    await supabaseAdmin.from("payout_batches").delete().eq("id", batch.id);
+    if (claimError) {
+      throw new AppError(`Failed to create payout: ${claimError.message}`, "PAYOUT_CREATE_FAILED", 500);
+    }
+    throw new ConflictError("Nothing to pay out for this practitioner");
+  }
+
+  const totalNet = roundMoney(claimed.reduce((sum, entry) => sum + getPayableNet(entry), 0));
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("payout_batches")
+    .update({ total_net: totalNet, entry_count: claimed.length })
+    .eq("id", batch.id)
+    .select("*, practitioner:users!payout_batches_practitioner_id_fkey(name)")
+    .single();
+
+  if (updateError || !updated) {
+    throw new AppError(`Failed to create payout: ${updateError?.message}`, "PAYOUT_CREATE_FAILED", 500);
+  }
+
+  return toPayoutBatch(updated);
+}
+
+/**
+ * Record that a pending payout batch was transferred
+ */
+export async function markPayoutBatchPaid(batchId: string, reference: string, paidBy: string | null): Promise<PayoutBatch> {
+  const trimmedReference = reference?.trim();
+  if (!trimmedReference) {
+    throw new ValidationError("A payment reference is required");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("payout_batches")
+    .update({
+      status: "PAID",
+      reference: trimmedReference,
+      paid_at: new Date().toISOString(),
+      paid_by: paidBy,
+    })
+    .eq("id", batchId)
+    .eq("status", "PENDING")
+    .select("*, practitioner:users!payout_batches_practitioner_id_fkey(name)")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update payout: ${error.message}`, "PAYOUT_UPDATE_FAILED", 500);
+  }
+  if (!data) {
+    throw new ConflictError("Payout not found or already paid");
+  }
+
+  return toPayoutBatch(data);
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  getMealPlanPackage: vi.fn(),
+}));
+
+// Answers each query with the response set for its table, e.g. "session_requests"
+function from(table: string) {
+  const result = () => Promise.resolve({ data: mocks.responses[table] ?? null, error: null });
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("./meal-plan-packages", () => ({ getMealPlanPackage: mocks.getMealPlanPackage }));
+
+import { getChargeInCurrency, getCheckoutCharge } from "./pricing";
+
+beforeEach(() => {
+  mocks.responses = {};
+  mocks.getMealPlanPackage.mockReset().mockResolvedValue(null);
+});
+
+describe("getChargeInCurrency", () => {
+  it("uses the item's own price without a currency, and its other prices with one", () => {
+    const base = { amount: 20000, currency: "NGN" };
+
+    expect(getChargeInCurrency(base, { USD: 15 })).toEqual(base);
+    expect(getChargeInCurrency(base, { USD: 15 }, "usd")).toEqual({ amount: 15, currency: "USD" });
+    expect(getChargeInCurrency(base, { USD: 15 }, "GBP")).toBeNull();
+  });
+});
+
+describe("getCheckoutCharge", () => {
+  it("rejects purchases it doesn't know how to price", async () => {
+    await expect(getCheckoutCharge({ requestType: "TIP", bookingId: "booking-1" })).rejects.toThrow(
+      "This can't be paid for"
+    );
+    await expect(getCheckoutCharge({})).rejects.toThrow("This can't be paid for");
+  });
+
+  it("prices a consultation from its booking's event type", async () => {
+    mocks.responses = {
+      bookings: { id: "booking-1", series_id: null, event_types: { price: 10000, currency: "NGN", prices: null } },
+    };
+
+    expect(await getCheckoutCharge({ requestType: "CONSULTATION", bookingId: "booking-1" })).toEqual({
+      amount: 10000,
+      currency: "NGN",
+    });
+  });
+
+  it("prices a session request at what the practitioner asked for", async () => {
+    mocks.responses = {
+      session_requests: { price: 7500, currency: "NGN", event_type_id: null, meal_plan_package_id: null, dietitian_id: "d-1" },
+    };
+
+    expect(await getCheckoutCharge({ requestType: "MEAL_PLAN", requestId: "request-1" })).toEqual({
+      amount: 7500,
+      currency: "NGN",
+    });
+    expect(await getCheckoutCharge({ requestType: "CONSULTATION", bookingId: "request-1", requestId: "request-1" })).toEqual({
+      amount: 7500,
+      currency: "NGN",
+    });
+  });
+
+  it("has nothing to price for a meal plan without a package or request", async () => {
+    expect(await getCheckoutCharge({ requestType: "MEAL_PLAN" })).toBeNull();
+  });
+
+  it("only prices bundles in their own currency", async () => {
+    mocks.responses = { session_bundles: { price: 45000, currency: "NGN" } };
+
+    expect(await getCheckoutCharge({ requestType: "SESSION_BUNDLE", bundleId: "bundle-1" })).toEqual({
+      amount: 45000,
+      currency: "NGN",
+    });
+    expect(await getCheckoutCharge({ requestType: "SESSION_BUNDLE", bundleId: "bundle-1" }, "USD")).toBeNull();
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Checkout prices
+ * What sessions and meal plans cost before any discount, looked up on the server so a client
+ * can't choose what it pays. Each item has a price in its own currency and may have prices in
+ * other currencies (`prices`); it can only be paid in a currency it has a price for.
+ * Checkouts are priced with getCheckoutCharge() when they start and again when they're confirmed.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { ValidationError } from "@/lib/error-handling";
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from "@/lib/utils/money";
+import { getMealPlanPackage } from "./meal-plan-packages";
+
+export interface Charge {
+  amount: number; // major units, like event_types.price
+  currency: string;
+}
+
+// What can be paid for at checkout (metadata.requestType)
+export const CHECKOUT_TYPES = ["CONSULTATION", "MEAL_PLAN", "SESSION_BUNDLE"] as const;
+
+export type CheckoutType = (typeof CHECKOUT_TYPES)[number];
+
+// What a checkout is for, as sent when it starts and stored in the payment's metadata
+export interface CheckoutItem {
+  requestType?: unknown;
+  bookingId?: string | null;
+  // A session request a practitioner sent the client, with the price they set
+  requestId?: string | null;
+  packageId?: string | null;
+  dietitianId?: string | null;
+  bundleId?: string | null;
+}
+
+export function isCheckoutType(value: unknown): value is CheckoutType {
+  return typeof value === "string" && (CHECKOUT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * An item's price in `currency`, or in its own currency when none is asked for. Null if it has no
+ * price in that currency.
+ */
+export function getChargeInCurrency(base: Charge, prices: unknown, currency?: string | null): Charge | null {
+  const code = currency?.toUpperCase();
+  if (!code || code === base.currency.toUpperCase()) {
+    return base;
+  }
+
+  const amount = Number((prices as Record<string, unknown> | null)?.[code]);
+  return Number.isFinite(amount) && amount > 0 ? { amount, currency: code } : null;
+}
+
+/**
+ * Every way an item can be paid for: its own price first, then its prices in other currencies
+ */
+export function listChargeOptions(base: Charge, prices: unknown): Charge[] {
+  const options = [base];
+  for (const currency of SUPPORTED_CURRENCIES) {
+    const charge = currency === base.currency.toUpperCase() ? null : getChargeInCurrency(base, prices, currency);
+    if (charge) {
+      options.push(charge);
+    }
+  }
+  return options;
+}
+
+/**
+ * Price of one session of an event type, or null if it doesn't exist or has no price in `currency`
+ */
+export async function getEventTypeCharge(eventTypeId: string, currency?: string | null): Promise<Charge | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data: eventType } = await supabaseAdmin
+    .from("event_types")
+    .select("price, currency, prices")
+    .eq("id", eventTypeId)
+    .maybeSingle();
+
+  if (!eventType) {
+    return null;
+  }
+
+  return getChargeInCurrency(
+    { amount: Number(eventType.price || 0), currency: eventType.currency || BASE_CURRENCY },
+    eventType.prices,
+    currency
+  );
+}
+
+/**
+ * Full price of a booking: the event type's price, for every occurrence of a series.
+ * Null if the booking or its event type can't be found, or there is no price in `currency`.
+ */
+export async function getBookingCharge(bookingId: string, currency?: string | null): Promise<Charge | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: booking } = await supabaseAdmin
+    .from("bookings")
+    .select("id, series_id, event_types(price, currency, prices)")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  const eventType = Array.isArray(booking?.event_types) ? booking.event_types[0] : booking?.event_types;
+  const charge = eventType
+    ? getChargeInCurrency(
+        { amount: Number(eventType.price || 0), currency: eventType.currency || BASE_CURRENCY },
+        eventType.prices,
+        currency
+      )
+    : null;
+  if (!booking || !charge) {
+    return null;
+  }
+
+  let occurrences = 1;
+  if (booking.series_id) {
+    const { count } = await supabaseAdmin
+      .from("bookings")
+      .select("id", { count: "exact", head: true })
+      .eq("series_id", booking.series_id);
+    occurrences = count || 1;
+  }
+
+  return {
+    amount: charge.amount * occurrences,
+    currency: charge.currency,
+  };
+}
+
+/**
+ * Price of a meal plan package with a practitioner (their own price if they have one), or null if
+ * the package isn't on sale or has no price in `currency`. Practitioner prices are in the
+ * package's own currency; other currencies always use the package's prices.
+ */
+export async function getMealPlanCharge(
+  packageId: string,
+  dietitianId?: string | null,
+  currency?: string | null
+): Promise<Charge | null> {
+  const mealPlanPackage = await getMealPlanPackage(packageId, { dietitianId });
+  return mealPlanPackage
+    ? getChargeInCurrency(
+        { amount: mealPlanPackage.price, currency: mealPlanPackage.currency },
+        mealPlanPackage.prices,
+        currency
+      )
+    : null;
+}
+
+/**
+ * The currencies a booking or meal plan can be paid in, with the price in each. Empty if there is
+ * nothing to price (e.g. the booking doesn't exist).
+ */
+export async function listCheckoutOptions({
+  bookingId,
+  mealPlanPackageId,
+  dietitianId,
+}: {
+  bookingId?: string | null;
+  mealPlanPackageId?: string | null;
+  dietitianId?: string | null;
+}): Promise<Charge[]> {
+  if (mealPlanPackageId) {
+    const mealPlanPackage = await getMealPlanPackage(mealPlanPackageId, { dietitianId });
+    return mealPlanPackage
+      ? listChargeOptions({ amount: mealPlanPackage.price, currency: mealPlanPackage.currency }, mealPlanPackage.prices)
+      : [];
+  }
+
+  if (bookingId) {
+    const options: Charge[] = [];
+    for (const currency of SUPPORTED_CURRENCIES) {
+      const charge = await getBookingCharge(bookingId, currency);
+      if (charge) {
+        options.push(charge);
+      }
+    }
+    return options;
+  }
+
+  return [];
+}
+
+/**
+ * Price of a session request: what the practitioner asked for, or else its meal plan package or
+ * event type. Null if the request doesn't exist or has no price in `currency`.
+ */
+export async function getSessionRequestCharge(requestId: string, currency?: string | null): Promise<Charge | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data: sessionRequest } = await supabaseAdmin
+    .from("session_requests")
+    .select("price, currency, event_type_id, meal_plan_package_id, dietitian_id")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (!sessionRequest) {
+    return null;
+  }
+  if (Number(sessionRequest.price) > 0) {
+    return getChargeInCurrency(
+      { amount: Number(sessionRequest.price), currency: sessionRequest.currency || BASE_CURRENCY },
+      null,
+      currency
+    );
+  }
+  if (sessionRequest.meal_plan_package_id) {
+    return getMealPlanCharge(sessionRequest.meal_plan_package_id, sessionRequest.dietitian_id, currency);
+  }
+  return sessionRequest.event_type_id ? getEventTypeCharge(sessionRequest.event_type_id, currency) : null;
+}
+
+/**
+ * Price of a session bundle, which can only be paid in its own currency
+ */
+export async function getSessionBundleCharge(bundleId: string, currency?: string | null): Promise<Charge | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data: bundle } = await supabaseAdmin
+    .from("session_bundles")
+    .select("price, currency")
+    .eq("id", bundleId)
+    .maybeSingle();
+
+  return bundle
+    ? getChargeInCurrency({ amount: Number(bundle.price), currency: bundle.currency || BASE_CURRENCY }, null, currency)
+    : null;
+}
+
+/**
+ * What a checkout costs before any discount or wallet balance: consultations from their booking
+ * (or the session request they were asked for with), meal plans from their package (or request),
+ * bundles from the bundle. Null if there is nothing to price or no price in `currency`.
+ */
+export async function getCheckoutCharge(item: CheckoutItem, currency?: string | null): Promise<Charge | null> {
+  if (!isCheckoutType(item.requestType)) {
+    throw new ValidationError("This can't be paid for");
+  }
+
+  switch (item.requestType) {
+    case "SESSION_BUNDLE":
+      return item.bundleId ? getSessionBundleCharge(item.bundleId, currency) : null;
+    case "MEAL_PLAN":
+      if (item.packageId) {
+        return getMealPlanCharge(item.packageId, item.dietitianId, currency);
+      }
+      return item.requestId ? getSessionRequestCharge(item.requestId, currency) : null;
+    case "CONSULTATION": {
+      const bookingCharge = item.bookingId ? await getBookingCharge(item.bookingId, currency) : null;
+      if (bookingCharge) {
+        return bookingCharge;
+      }
+      return item.requestId ? getSessionRequestCharge(item.requestId, currency) : null;
+    }
+  }
+}
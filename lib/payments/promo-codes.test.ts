@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  promoCode: null as Record<string, unknown> | null,
+  redeemedCount: 0,
+  pending: [] as unknown[],
+  rpc: vi.fn(),
+  getCharge: vi.fn(),
+}));
+
+// promo_codes answers with the code, bookings with its event type, and promo_redemptions with the
+// redeemed count for a head count and the open checkouts otherwise
+function from(table: string) {
+  let countOnly = false;
+  const result = () => {
+    if (table === "promo_codes") return Promise.resolve({ data: mocks.promoCode, error: null });
+    if (table === "bookings") return Promise.resolve({ data: { event_type_id: "et-1" }, error: null });
+    return Promise.resolve(countOnly ? { count: mocks.redeemedCount, error: null } : { data: mocks.pending, error: null });
+  };
+  const builder = {
+    select: (_columns: string, options?: { head?: boolean }) => {
+      countOnly = !!options?.head;
+      return builder;
+    },
+    eq: () => builder,
+    gt: () => builder,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from, rpc: mocks.rpc }) }));
+vi.mock("./pricing", () => ({
+  getBookingCharge: mocks.getCharge,
+  getEventTypeCharge: mocks.getCharge,
+  getMealPlanCharge: vi.fn(),
+}));
+vi.mock("./meal-plan-packages", () => ({ listMealPlanPackages: vi.fn() }));
+
+import { applyPromoCode, calculateDiscount, recordPromoRedemption } from "./promo-codes";
+
+const applied = {
+  promoCodeId: "promo-1",
+  code: "WELCOME",
+  description: null,
+  originalAmount: 10000,
+  discountAmount: 1000,
+  finalAmount: 9000,
+  currency: "NGN",
+};
+
+beforeEach(() => {
+  mocks.promoCode = {
+    id: "promo-1",
+    code: "WELCOME",
+    description: null,
+    discount_type: "PERCENTAGE",
+    discount_value: "10",
+    currency: "NGN",
+    expires_at: null,
+    max_redemptions: 2,
+    per_user_limit: null,
+    event_type_ids: [],
+    meal_plan_package_ids: [],
+    is_active: true,
+    created_at: "2026-01-01T00:00:00Z",
+  };
+  mocks.redeemedCount = 0;
+  mocks.pending = [];
+  mocks.rpc.mockReset().mockResolvedValue({ error: null });
+  mocks.getCharge.mockReset().mockResolvedValue({ amount: 10000, currency: "NGN" });
+});
+
+describe("calculateDiscount", () => {
+  it("takes a percentage or a fixed amount off, never more than the amount", () => {
+    expect(calculateDiscount({ discountType: "PERCENTAGE", discountValue: 15 }, 2000)).toBe(300);
+    expect(calculateDiscount({ discountType: "FIXED", discountValue: 500 }, 2000)).toBe(500);
+    expect(calculateDiscount({ discountType: "FIXED", discountValue: 5000 }, 2000)).toBe(2000);
+  });
+});
+
+describe("applyPromoCode", () => {
+  it("counts open checkouts towards the limit, except ones for the same booking", async () => {
+    mocks.redeemedCount = 1;
+    mocks.pending = [
+      { id: "r-1", payment: { status: "PENDING", booking_id: "booking-1" } },
+      { id: "r-2", payment: { status: "FAILED", booking_id: "booking-2" } },
+    ];
+
+    await expect(applyPromoCode({ code: "welcome", email: "a@example.com", eventTypeId: "et-1" })).rejects.toThrow(
+      "This promo code has been fully redeemed"
+    );
+    expect(
+      await applyPromoCode({ code: "welcome", email: "a@example.com", eventTypeId: "et-1", bookingId: "booking-1" })
+    ).toMatchObject({ finalAmount: 9000 });
+  });
+
+  it("prices the discount on the server", async () => {
+    expect(await applyPromoCode({ code: " welcome ", email: "a@example.com", eventTypeId: "et-1" })).toEqual(applied);
+  });
+});
+
+describe("recordPromoRedemption", () => {
+  it("records the redemption through the locking database function", async () => {
+    await recordPromoRedemption("payment-1", "A@Example.com", applied, { bookingId: "booking-1" });
+
+    expect(mocks.rpc).toHaveBeenCalledWith(
+      "record_promo_redemption",
+      expect.objectContaining({
+        p_promo_code_id: "promo-1",
+        p_payment_id: "payment-1",
+        p_email: "a@example.com",
+        p_booking_id: "booking-1",
+      })
+    );
+  });
+
+  it("turns a limit reached since the code was checked into a validation error", async () => {
+    mocks.rpc.mockResolvedValue({ error: { code: "PC001", message: "Promo code has been fully redeemed" } });
+    await expect(recordPromoRedemption("payment-1", "a@example.com", applied)).rejects.toMatchObject({
+      statusCode: 400,
+      message: "This promo code has been fully redeemed",
+    });
+
+    mocks.rpc.mockResolvedValue({ error: { code: "PC002", message: "Promo code already used by this client" } });
+    await expect(recordPromoRedemption("payment-1", "a@example.com", applied)).rejects.toThrow(
+      "You've already used this promo code"
+    );
+
+    mocks.rpc.mockResolvedValue({ error: { code: "57014", message: "canceling statement" } });
+    await expect(recordPromoRedemption("payment-1", "a@example.com", applied)).rejects.toMatchObject({ statusCode: 500 });
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Promo codes
+ * Admins create discount codes (a percentage or a fixed amount off) that clients enter at
+ * checkout. The discount is worked out on the server from the real price, recorded on the payment
+ * when checkout starts and counted as a redemption once the payment is confirmed. Usage limits
+ * count confirmed redemptions and checkouts still being paid for; an unpaid checkout stops counting
+ * once it would be abandoned. Checking a code only reads the counts, so the limits are enforced when
+ * the checkout's redemption is recorded (record_promo_redemption), which locks the code so
+ * concurrent checkouts can't take it past a limit.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { roundMoney } from "./ledger";
+import { getBookingCharge, getEventTypeCharge, getMealPlanCharge, type Charge } from "./pricing";
+import { listMealPlanPackages } from "./meal-plan-packages";
+import { ABANDONED_CHECKOUT_MINUTES } from "./abandoned-checkouts";
+
+// SQLSTATEs raised by record_promo_redemption when a code has reached a limit
+const PROMO_FULLY_REDEEMED = "PC001";
+const PROMO_USER_LIMIT_REACHED = "PC002";
+
+export type PromoDiscountType = "PERCENTAGE" | "FIXED";
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  currency: string;
+  expiresAt: string | null;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  // Both empty means the code applies to every event type and meal plan
+  eventTypeIds: string[];
+  mealPlanPackageIds: string[];
+  isActive: boolean;
+  createdAt: string;
+  // Confirmed redemptions and the total discount they gave
+  redemptionCount: number;
+  discountTotal: number;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  code: string;
+  email: string;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  currency: string;
+  status: "PENDING" | "REDEEMED";
+  redeemedAt: string | null;
+  createdAt: string;
+}
+
+// A promo code worked out against the price of what is being bought
+export interface AppliedPromoCode {
+  promoCodeId: string;
+  code: string;
+  description: string | null;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  currency: string;
+}
+
+// An event type a code can be restricted to
+export interface PromoEventTypeOption {
+  id: string;
+  title: string;
+  price: number;
+  practitionerName: string | null;
+}
+
+export interface CreatePromoCodeInput {
+  code: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  expiresAt?: string | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+  eventTypeIds?: string[];
+  mealPlanPackageIds?: string[];
+}
+
+interface PromoCodeRow {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  discount_value: number | string;
+  currency: string;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  per_user_limit: number | null;
+  event_type_ids: string[] | null;
+  meal_plan_package_ids: string[] | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export function normalizePromoCode(code: string): string {
+  return String(code || "").trim().toUpperCase();
+}
+
+function toPromoCode(row: PromoCodeRow, stats = { redemptionCount: 0, discountTotal: 0 }): PromoCode {
+  return {
+    id: row.id,
+    code: row.code,
+    description: row.description,
+    discountType: row.discount_type,
+    discountValue: Number(row.discount_value),
+    currency: row.currency,
+    expiresAt: row.expires_at,
+    maxRedemptions: row.max_redemptions,
+    perUserLimit: row.per_user_limit,
+    eventTypeIds: row.event_type_ids || [],
+    mealPlanPackageIds: row.meal_plan_package_ids || [],
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    ...stats,
+  };
+}
+
+/**
+ * How much a code takes off an amount; never more than the amount itself
+ */
+export function calculateDiscount(
+  promo: Pick<PromoCode, "discountType" | "discountValue">,
+  amount: number
+): number {
+  const discount =
+    promo.discountType === "PERCENTAGE" ? (amount * promo.discountValue) / 100 : promo.discountValue;
+  return roundMoney(Math.min(Math.max(discount, 0), amount));
+}
+
+/**
+ * Redemptions that use up a code: confirmed ones, plus checkouts that are still unpaid and not yet
+ * abandoned. A checkout for `bookingId` is left out, as a new checkout for it replaces the old one.
+ */
+async function countRedemptions(
+  promoCodeId: string,
+  { email, bookingId }: { email?: string; bookingId?: string | null } = {}
+): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+  const pendingSince = new Date(Date.now() - ABANDONED_CHECKOUT_MINUTES * 60 * 1000).toISOString();
+
+  let redeemedQuery = supabaseAdmin
+    .from("promo_redemptions")
+    .select("id", { count: "exact", head: true })
+    .eq("promo_code_id", promoCodeId)
+    .eq("status", "REDEEMED");
+  let pendingQuery = supabaseAdmin
+    .from("promo_redemptions")
+    .select("id, payment:payments(status, booking_id)")
+    .eq("promo_code_id", promoCodeId)
+    .eq("status", "PENDING")
+    .gt("created_at", pendingSince);
+  if (email) {
+    redeemedQuery = redeemedQuery.eq("email", email.toLowerCase());
+    pendingQuery = pendingQuery.eq("email", email.toLowerCase());
+  }
+
+  const [{ count, error }, { data: pending, error: pendingError }] = await Promise.all([redeemedQuery, pendingQuery]);
+  if (error || pendingError) {
+    throw new AppError(
+      `Failed to check promo code usage: ${(error || pendingError)?.message}`,
+      "PROMO_CODE_FETCH_FAILED",
+      500
+    );
+  }
+
+  const openCheckouts = (pending || []).filter((redemption) => {
+    const payment = Array.isArray(redemption.payment) ? redemption.payment[0] : redemption.payment;
+    return payment?.status === "PENDING" && (!bookingId || payment.booking_id !== bookingId);
+  });
+  return (count || 0) + openCheckouts.length;
+}
+
+/**
+ * Check a code for a purchase and work out the discounted price. The purchase is a booking
+ * (sessions being paid for), an event type (the order summary, before the booking exists) or a
+ * meal plan package, priced for `dietitianId` when given and in `currency` when the client pays
+ * in another currency. Throws a ValidationError explaining why a code can't be used.
+ */
+export async function applyPromoCode({
+  code,
+  email,
+  bookingId,
+  eventTypeId,
+  mealPlanPackageId,
+  dietitianId,
+  currency,
+}: {
+  code: string;
+  email: string;
+  bookingId?: string | null;
+  eventTypeId?: string | null;
+  mealPlanPackageId?: string | null;
+  dietitianId?: string | null;
+  currency?: string | null;
+}): Promise<AppliedPromoCode> {
+  const normalizedCode = normalizePromoCode(code);
+  if (!normalizedCode) {
+    throw new ValidationError("Enter a promo code");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+
+  let charge: Charge | null = null;
+  let targetEventTypeId = eventTypeId || null;
+  if (bookingId) {
+    const { data: booking } = await supabaseAdmin
+      .from("bookings")
+      .select("event_type_id")
+      .eq("id", bookingId)
+      .maybeSingle();
+    targetEventTypeId = booking?.event_type_id || null;
+    charge = await getBookingCharge(bookingId, currency);
+  } else if (eventTypeId) {
+    charge = await getEventTypeCharge(eventTypeId, currency);
+  }
+  if (!charge && mealPlanPackageId) {
+    targetEventTypeId = null;
+    charge = await getMealPlanCharge(mealPlanPackageId, dietitianId, currency);
+  }
+
+  if (!charge) {
+    throw new ValidationError("Promo codes can't be used for this purchase");
+  }
+
+  const { data: row, error } = await supabaseAdmin
+    .from("promo_codes")
+    .select("*")
+    .eq("code", normalizedCode)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to look up promo code: ${error.message}`, "PROMO_CODE_FETCH_FAILED", 500);
+  }
+  if (!row || !row.is_active) {
+    throw new ValidationError("This promo code isn't valid");
+  }
+
+  const promo = toPromoCode(row);
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() <= Date.now()) {
+    throw new ValidationError("This promo code has expired");
+  }
+
+  const restricted = promo.eventTypeIds.length > 0 || promo.mealPlanPackageIds.length > 0;
+  const applies = targetEventTypeId
+    ? promo.eventTypeIds.includes(targetEventTypeId)
+    : !!mealPlanPackageId && promo.mealPlanPackageIds.includes(mealPlanPackageId);
+  if ((restricted && !applies) || promo.currency.toUpperCase() !== charge.currency.toUpperCase()) {
+    throw new ValidationError("This promo code can't be used for this purchase");
+  }
+
+  if (promo.maxRedemptions !== null && (await countRedemptions(promo.id, { bookingId })) >= promo.maxRedemptions) {
+    throw new ValidationError("This promo code has been fully redeemed");
+  }
+  if (promo.perUserLimit !== null && (await countRedemptions(promo.id, { email, bookingId })) >= promo.perUserLimit) {
+    throw new ValidationError("You've already used this promo code");
+  }
+
+  const discountAmount = calculateDiscount(promo, charge.amount);
+  const finalAmount = roundMoney(charge.amount - discountAmount);
+  if (finalAmount <= 0) {
+    throw new ValidationError("This promo code can't be used for this purchase");
+  }
+
+  return {
+    promoCodeId: promo.id,
+    code: promo.code,
+    description: promo.description,
+    originalAmount: charge.amount,
+    discountAmount,
+    finalAmount,
+    currency: charge.currency,
+  };
+}
+
+/**
+ * Record that a checkout used a promo code. It holds a use of the code while the checkout is open
+ * and becomes a redemption once the payment is confirmed. Throws a ValidationError when the code
+ * reached a limit since it was checked, e.g. because another checkout used it first.
+ */
+export async function recordPromoRedemption(
+  paymentId: string,
+  email: string,
+  applied: AppliedPromoCode,
+  { bookingId }: { bookingId?: string | null } = {}
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.rpc("record_promo_redemption", {
+    p_promo_code_id: applied.promoCodeId,
+    p_payment_id: paymentId,
+    p_email: email.toLowerCase(),
+    p_original_amount: applied.originalAmount,
+    p_discount_amount: applied.discountAmount,
+    p_final_amount: applied.finalAmount,
+    p_currency: applied.currency,
+    p_booking_id: bookingId || null,
+    p_pending_minutes: ABANDONED_CHECKOUT_MINUTES,
+  });
+
+  if (error) {
+    if (error.code === PROMO_FULLY_REDEEMED) {
+      throw new ValidationError("This promo code has been fully redeemed");
+    }
+    if (error.code === PROMO_USER_LIMIT_REACHED) {
+      throw new ValidationError("You've already used this promo code");
+    }
+    throw new AppError(`Failed to record promo code: ${error.message}`, "PROMO_REDEMPTION_FAILED", 500);
+  }
+}
+
+/**
+ * Count a payment's promo code redemption now that it has been paid
+ */
+export async function markPromoCodeRedeemed(paymentId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("promo_redemptions")
+    .update({ status: "REDEEMED", redeemed_at: new Date().toISOString() })
+    .eq("payment_id", paymentId)
+    .eq("status", "PENDING");
+
+  if (error) {
+    throw new AppError(`Failed to redeem promo code: ${error.message}`, "PROMO_REDEMPTION_FAILED", 500);
+  }
+}
+
+/**
+ * All promo codes, newest first, with how often each has been redeemed
+ */
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const [{ data: rows, error }, { data: redemptions, error: redemptionsError }] = await Promise.all([
+    supabaseAdmin.from("promo_codes").select("*").order("created_at", { ascending: false }),
+    supabaseAdmin.from("promo_redemptions").select("promo_code_id, discount_amount").eq("status", "REDEEMED"),
+  ]);
+
+  if (error || redemptionsError) {
+    throw new AppError(
+      `Failed to load promo codes: ${(error || redemptionsError)?.message}`,
+      "PROMO_CODE_FETCH_FAILED",
+      500
+    );
+  }
+
+  const stats = new Map<string, { redemptionCount: number; discountTotal: number }>();
+  for (const redemption of redemptions || []) {
+    const current = stats.get(redemption.promo_code_id) || { redemptionCount: 0, discountTotal: 0 };
+    current.redemptionCount += 1;
+    current.discountTotal = roundMoney(current.discountTotal + Number(redemption.discount_amount));
+    stats.set(redemption.promo_code_id, current);
+  }
+
+  return (rows || []).map((row) => toPromoCode(row, stats.get(row.id)));
+}
+
+/**
+ * Redeemed promo codes, newest first
+ */
+export async function listPromoRedemptions({ limit = 100 }: { limit?: number } = {}): Promise<PromoRedemption[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data, error } = await supabaseAdmin
+    .from("promo_redemptions")
+    .select("*, promo_code:promo_codes(code)")
+    .eq("status", "REDEEMED")
+    .order("redeemed_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new AppError(`Failed to load promo redemptions: ${error.message}`, "PROMO_CODE_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((row) => {
+    const promoCode = Array.isArray(row.promo_code) ? row.promo_code[0] : row.promo_code;
+
+    return {
+      id: row.id,
+      promoCodeId: row.promo_code_id,
+      code: promoCode?.code || "",
+      email: row.email,
+      originalAmount: Number(row.original_amount),
+      discountAmount: Number(row.discount_amount),
+      finalAmount: Number(row.final_amount),
+      currency: row.currency,
+      status: row.status,
+      redeemedAt: row.redeemed_at,
+      createdAt: row.created_at,
+    };
+  });
+}
+
+/**
+ * Active event types across all practitioners, for restricting codes
+ */
+export async function listPromoEventTypeOptions(): Promise<PromoEventTypeOption[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: eventTypes, error } = await supabaseAdmin
+    .from("event_types")
+    .select("id, title, price, user_id")
+    .eq("active", true)
+    .order("title", { ascending: true });
+
+  if (error) {
+    throw new AppError(`Failed to load event types: ${error.message}`, "PROMO_CODE_FETCH_FAILED", 500);
+  }
+
+  const practitionerIds = [...new Set((eventTypes || []).map((eventType) => eventType.user_id))];
+  const { data: practitioners } = practitionerIds.length
+    ? await supabaseAdmin.from("users").select("id, name").in("id", practitionerIds)
+    : { data: [] };
+  const namesById = new Map((practitioners || []).map((practitioner) => [practitioner.id, practitioner.name]));
+
+  return (eventTypes || []).map((eventType) => ({
+    id: eventType.id,
+    title: eventType.title,
+    price: Number(eventType.price || 0),
+    practitionerName: namesById.get(eventType.user_id) || null,
+  }));
+}
+
+function optionalPositiveInteger(value: number | null | undefined, label: string): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ValidationError(`${label} must be a whole number above 0`);
+  }
+  return value;
+}
+
+export async function createPromoCode(input: CreatePromoCodeInput, createdBy: string | null): Promise<PromoCode> {
+  const code = normalizePromoCode(input.code);
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    throw new ValidationError("Code must be 3-32 letters, numbers, dashes or underscores");
+  }
+  if (input.discountType !== "PERCENTAGE" && input.discountType !== "FIXED") {
+    throw new ValidationError("Discount type must be PERCENTAGE or FIXED");
+  }
+
+  const discountValue = Number(input.discountValue);
+  if (!Number.isFinite(discountValue) || discountValue <= 0) {
+    throw new ValidationError("Discount must be above 0");
+  }
+  if (input.discountType === "PERCENTAGE" && discountValue >= 100) {
+    throw new ValidationError("A percentage discount must be below 100");
+  }
+
+  if (input.expiresAt && Number.isNaN(new Date(input.expiresAt).getTime())) {
+    throw new ValidationError("Invalid expiry date");
+  }
+
+  const mealPlanPackageIds = input.mealPlanPackageIds || [];
+  const knownPackageIds = new Set((await listMealPlanPackages({ activeOnly: false })).map((pkg) => pkg.id));
+  const unknownPackage = mealPlanPackageIds.find((id) => !knownPackageIds.has(id));
+  if (unknownPackage) {
+    throw new ValidationError(`Unknown meal plan package: ${unknownPackage}`);
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("promo_codes")
+    .insert({
+      code,
+      description: input.description?.trim() || null,
+      discount_type: input.discountType,
+      discount_value: discountValue,
+      expires_at: input.expiresAt ? new Date(input.expiresAt).toISOString() : null,
+      max_redemptions: optionalPositiveInteger(input.maxRedemptions, "Usage limit"),
+      per_user_limit: optionalPositiveInteger(input.perUserLimit, "Per-client limit"),
+      event_type_ids: input.eventTypeIds || [],
+      meal_plan_package_ids: mealPlanPackageIds,
+      created_by: createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new ConflictError("A promo code with this code already exists");
+    }
+    throw new AppError(`Failed to create promo code: ${error.message}`, "PROMO_CODE_CREATE_FAILED", 500);
+  }
+
+  return toPromoCode(data);
+}
+
+/**
+ * Turn a promo code on or off; existing redemptions are kept
+ */
+export async function setPromoCodeActive(promoCodeId: string, isActive: boolean): Promise<PromoCode> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("promo_codes")
+    .update({ is_active: isActive })
+    .eq("id", promoCodeId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update promo code: ${error.message}`, "PROMO_CODE_UPDATE_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("Promo code not found");
+  }
+
+  return toPromoCode(data);
+}
@@ -0,0 +1,258 @@
+/**
+ * Receipt PDFs
+ * Draws a receipt on a single A4 page with the PDF standard fonts (Helvetica), so no font files
+ * or PDF library are needed. The standard fonts only cover Latin-1, so accents are dropped and
+ * other characters are replaced; amounts use the currency code rather than a symbol.
+ */
+
+import dayjs from "dayjs";
+import { DEFAULT_TIMEZONE } from "@/lib/utils/timezone";
+import type { Receipt } from "./receipts";
+
+// Shown on every receipt as the issuer
+export const RECEIPT_ISSUER = {
+  name: "Daiyet",
+  website: "daiyet.co",
+  taxId: process.env.RECEIPT_TAX_ID || null,
+};
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const RIGHT_EDGE = PAGE_WIDTH - MARGIN;
+
+type Font = "regular" | "bold";
+
+const FONT_NAMES: Record<Font, string> = { regular: "F1", bold: "F2" };
+
+type Color = "text" | "muted" | "rule";
+
+const COLORS: Record<Color, string> = {
+  text: "0.067 0.094 0.153",
+  muted: "0.420 0.447 0.502",
+  rule: "0.898 0.906 0.922",
+};
+
+// Helvetica advance widths in thousandths of the font size; anything else is taken as 556
+const CHAR_WIDTHS: Record<string, number> = {
+  " ": 278, ",": 278, ".": 278, ":": 278, "-": 333, "(": 333, ")": 333, "/": 278, "@": 1015, "%": 889,
+  i: 222, j: 222, l: 222, f: 278, t: 278, r: 333, m: 833, w: 722, k: 500, s: 500, v: 500, x: 500,
+  y: 500, z: 500, c: 500, I: 278, J: 500, M: 833, W: 944, F: 611, T: 611, Z: 611, L: 556,
+  C: 722, D: 722, H: 722, N: 722, R: 722, U: 722, G: 778, O: 778, Q: 778,
+};
+
+interface TextOptions {
+  size?: number;
+  font?: Font;
+  color?: Color;
+  align?: "left" | "right";
+}
+
+function toPdfText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+function escapePdfText(value: string): string {
+  return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function measureText(value: string, size: number): number {
+  let width = 0;
+  for (const char of value) {
+    width += CHAR_WIDTHS[char] ?? 556;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`
+ */
+function wrapText(value: string, maxWidth: number, size: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of toPdfText(value).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  return line ? [...lines, line] : lines;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: string): string {
+  return dayjs(value).tz(DEFAULT_TIMEZONE).format("MMM D, YYYY");
+}
+
+/**
+ * Page content: drawing operators, with y measured down from the top of the page
+ */
+function createCanvas() {
+  const operations: string[] = [];
+
+  return {
+    text(value: string, x: number, y: number, { size = 10, font = "regular", color = "text", align = "left" }: TextOptions = {}) {
+      const content = toPdfText(value);
+      const left = align === "right" ? x - measureText(content, size) : x;
+      operations.push(
+        `BT ${COLORS[color]} rg /${FONT_NAMES[font]} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapePdfText(content)}) Tj ET`
+      );
+    },
+    rule(y: number, x1 = MARGIN, x2 = RIGHT_EDGE) {
+      operations.push(`${COLORS.rule} RG 0.75 w ${x1} ${PAGE_HEIGHT - y} m ${x2} ${PAGE_HEIGHT - y} l S`);
+    },
+    toString() {
+      return operations.join("\n");
+    },
+  };
+}
+
+/**
+ * Assemble a one-page PDF around a content stream. Everything written is ASCII, so string
+ * lengths are byte offsets.
+ */
+function buildPdf(content: string): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+/**
+ * The receipt as a PDF file
+ */
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+  const canvas = createCanvas();
+  const { currency, practitioner } = receipt;
+
+  // Issuer and receipt number
+  canvas.text(RECEIPT_ISSUER.name, MARGIN, 70, { size: 22, font: "bold" });
+  canvas.text(RECEIPT_ISSUER.website, MARGIN, 88, { color: "muted" });
+  if (RECEIPT_ISSUER.taxId) {
+    canvas.text(`TIN: ${RECEIPT_ISSUER.taxId}`, MARGIN, 102, { color: "muted" });
+  }
+
+  canvas.text("RECEIPT", RIGHT_EDGE, 70, { size: 18, font: "bold", align: "right" });
+  canvas.text(`No. ${receipt.receiptNumber}`, RIGHT_EDGE, 88, { align: "right" });
+  canvas.text(`Issued ${formatDate(receipt.issuedAt)}`, RIGHT_EDGE, 102, { color: "muted", align: "right" });
+  if (receipt.paidAt) {
+    canvas.text(`Paid ${formatDate(receipt.paidAt)}`, RIGHT_EDGE, 116, { color: "muted", align: "right" });
+  }
+
+  canvas.rule(135);
+
+  // Who paid and who was paid
+  const columnX = MARGIN + 260;
+  canvas.text("BILLED TO", MARGIN, 160, { size: 8, font: "bold", color: "muted" });
+  canvas.text("PRACTITIONER", columnX, 160, { size: 8, font: "bold", color: "muted" });
+
+  const billTo = [receipt.billToName, receipt.billToEmail].filter((line): line is string => !!line);
+  const practitionerLines = [
+    practitioner.name,
+    practitioner.role,
+    practitioner.licenseNumber ? `License No. ${practitioner.licenseNumber}` : null,
+    practitioner.location,
+    practitioner.email,
+  ].filter((line): line is string => !!line);
+
+  billTo.forEach((line, index) => {
+    canvas.text(line, MARGIN, 176 + index * 14, { font: index === 0 ? "bold" : "regular" });
+  });
+  practitionerLines.forEach((line, index) => {
+    canvas.text(line, columnX, 176 + index * 14, { font: index === 0 ? "bold" : "regular" });
+  });
+
+  // Line items
+  const qtyX = 350;
+  const unitPriceX = 460;
+  let y = 176 + Math.max(billTo.length, practitionerLines.length, 1) * 14 + 30;
+
+  canvas.text("DESCRIPTION", MARGIN, y, { size: 8, font: "bold", color: "muted" });
+  canvas.text("QTY", qtyX, y, { size: 8, font: "bold", color: "muted", align: "right" });
+  canvas.text("UNIT PRICE", unitPriceX, y, { size: 8, font: "bold", color: "muted", align: "right" });
+  canvas.text("AMOUNT", RIGHT_EDGE, y, { size: 8, font: "bold", color: "muted", align: "right" });
+  canvas.rule(y + 8);
+  y += 26;
+
+  for (const item of receipt.lineItems) {
+    const lines = wrapText(item.description, qtyX - MARGIN - 40, 10);
+    canvas.text(String(item.quantity), qtyX, y, { align: "right" });
+    canvas.text(formatMoney(item.unitPrice, currency), unitPriceX, y, { align: "right" });
+    canvas.text(formatMoney(item.amount, currency), RIGHT_EDGE, y, { align: "right" });
+    lines.forEach((line, index) => canvas.text(line, MARGIN, y + index * 13));
+    y += lines.length * 13 + 10;
+  }
+  canvas.rule(y - 4);
+  y += 14;
+
+  // Totals
+  const labelX = unitPriceX;
+  const totalLine = (label: string, amount: string, options: TextOptions = {}) => {
+    canvas.text(label, labelX, y, { ...options, align: "right" });
+    canvas.text(amount, RIGHT_EDGE, y, { ...options, align: "right" });
+    y += 16;
+  };
+
+  totalLine("Subtotal", formatMoney(receipt.subtotal, currency));
+  if (receipt.discountAmount > 0) {
+    totalLine("Discount", `-${formatMoney(receipt.discountAmount, currency)}`);
+  }
+  totalLine("Total", formatMoney(receipt.total, currency), { font: "bold" });
+  if (receipt.vatPercent > 0) {
+    totalLine(`Includes VAT at ${receipt.vatPercent}%`, formatMoney(receipt.vatAmount, currency), { color: "muted" });
+  } else {
+    totalLine("VAT", "Exempt", { color: "muted" });
+  }
+  if (receipt.walletAmount > 0) {
+    totalLine("Paid from Daiyet wallet", formatMoney(receipt.walletAmount, currency));
+  }
+  totalLine("Paid through Paystack", formatMoney(receipt.amountPaid, currency));
+
+  // Payment reference, for matching against the Paystack transaction
+  if (receipt.paystackRef) {
+    y += 20;
+    canvas.text("PAYSTACK REFERENCE", MARGIN, y, { size: 8, font: "bold", color: "muted" });
+    canvas.text(receipt.paystackRef, MARGIN, y + 16);
+  }
+
+  canvas.rule(PAGE_HEIGHT - 70);
+  canvas.text(
+    "This receipt was issued electronically and is valid without a signature.",
+    MARGIN,
+    PAGE_HEIGHT - 52,
+    { size: 8, color: "muted" }
+  );
+
+  return buildPdf(canvas.toString());
+}
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  counts: {} as Record<string, number>,
+  inserts: [] as Array<Record<string, unknown>>,
+}));
+
+// Answers each query with the response set for its table and operation, e.g. "receipts.insert";
+// the inserted receipt is returned as it was written
+function from(table: string) {
+  let operation = "select";
+  let inserted: Record<string, unknown> | null = null;
+  const result = () =>
+    Promise.resolve({
+      data: inserted ?? mocks.responses[`${table}.${operation}`] ?? null,
+      count: mocks.counts[table] ?? null,
+      error: null,
+    });
+  const builder = {
+    select: () => builder,
+    insert: (values: Record<string, unknown>) => {
+      operation = "insert";
+      inserted = { id: "receipt-1", receipt_number: "DY-2027-000001", issued_at: "2027-01-01T00:00:00Z", ...values };
+      mocks.inserts.push(values);
+      return builder;
+    },
+    eq: () => builder,
+    single: result,
+    maybeSingle: result,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => result().then(resolve, reject),
+  };
+  return builder;
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from }) }));
+vi.mock("@/lib/email/queue", () => ({ emailQueue: { enqueue: vi.fn() } }));
+
+import { renderReceiptPdf } from "./receipt-pdf";
+import { getIncludedVat, issueReceipt } from "./receipts";
+
+const payment = {
+  id: "payment-1",
+  amount: "6000",
+  currency: "NGN",
+  status: "SUCCESS",
+  paystack_ref: "ref-1",
+  booking_id: "booking-1",
+  user_id: "client-1",
+  metadata: {},
+  original_amount: "12000",
+  discount_amount: "2000",
+  wallet_amount: "4000",
+  refund_amount: null,
+  wallet_refund_amount: null,
+  // New Year's Eve in UTC, already 2027 in Lagos
+  paid_at: "2026-12-31T23:30:00Z",
+  created_at: "2026-12-31T23:25:00Z",
+};
+
+beforeEach(() => {
+  mocks.inserts = [];
+  mocks.counts = {};
+  mocks.responses = {
+    "payments.select": payment,
+    "bookings.select": {
+      title: "Consultation",
+      start_time: "2027-01-04T09:00:00Z",
+      series_id: null,
+      dietitian_id: "dietitian-1",
+      user_id: "client-1",
+    },
+    "users.select": { name: "Ada Obi", email: "ada@example.com", role: "DIETITIAN", metadata: { licenseNumber: "DRN-123" } },
+  };
+});
+
+describe("getIncludedVat", () => {
+  it("takes the VAT out of a VAT-inclusive price", () => {
+    expect(getIncludedVat(10750, 7.5)).toBe(750);
+    expect(getIncludedVat(10000, 0)).toBe(0);
+  });
+});
+
+describe("issueReceipt", () => {
+  it("shows the price before the promo code and the part the wallet covered", async () => {
+    const receipt = await issueReceipt("payment-1");
+
+    expect(receipt).toMatchObject({
+      subtotal: 12000,
+      discountAmount: 2000,
+      walletAmount: 4000,
+      total: 10000,
+      amountPaid: 6000,
+      currency: "NGN",
+      practitioner: { name: "Ada Obi", role: "Dietitian", licenseNumber: "DRN-123" },
+    });
+    expect(receipt?.lineItems).toEqual([
+      { description: "Consultation (Jan 4, 2027)", quantity: 1, unitPrice: 12000, amount: 12000 },
+    ]);
+    expect(mocks.inserts[0]).toMatchObject({ year: 2027 });
+  });
+
+  it("lists every session of a recurring booking", async () => {
+    mocks.responses["bookings.select"] = { ...(mocks.responses["bookings.select"] as object), series_id: "series-1" };
+    mocks.counts.bookings = 4;
+
+    const receipt = await issueReceipt("payment-1");
+    expect(receipt?.lineItems).toEqual([
+      { description: "Consultation - recurring sessions from Jan 4, 2027", quantity: 4, unitPrice: 3000, amount: 12000 },
+    ]);
+  });
+
+  it("issues nothing for payments refunded in full", async () => {
+    mocks.responses["payments.select"] = { ...payment, refund_amount: "6000", wallet_refund_amount: "4000" };
+
+    expect(await issueReceipt("payment-1")).toBeNull();
+    expect(mocks.inserts).toEqual([]);
+  });
+});
+
+describe("renderReceiptPdf", () => {
+  it("draws the receipt as a PDF", async () => {
+    const receipt = await issueReceipt("payment-1");
+    const pdf = renderReceiptPdf(receipt!).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("DY-2027-000001");
+  });
+});
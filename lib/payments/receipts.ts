@@ -0,0 +1,448 @@
+/**
+ * Payment receipts
+ * Each successful payment gets a numbered receipt (DY-<year>-<number>, sequential within the
+ * year it was paid in) that clients can download as a PDF and claim back from an HMO or employer.
+ * The receipt is issued and emailed when the payment is confirmed, and issued for any payment
+ * missed there the next time the client lists their receipts. What was paid for, the
+ * practitioner's details and the VAT treatment are copied onto the receipt when it is issued.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, NotFoundError } from "@/lib/error-handling";
+import { emailQueue } from "@/lib/email/queue";
+import { DEFAULT_TIMEZONE } from "@/lib/utils/timezone";
+import { roundMoney } from "./ledger";
+import { renderReceiptPdf } from "./receipt-pdf";
+
+// Sessions are VAT exempt by default (medical services); when a rate is set, prices include it
+export const RECEIPT_VAT_PERCENT = Number(process.env.RECEIPT_VAT_PERCENT || 0);
+
+// Postgres unique_violation: the payment already has a receipt
+const UNIQUE_VIOLATION = "23505";
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface ReceiptPractitioner {
+  name: string | null;
+  role: string | null;
+  email: string | null;
+  licenseNumber: string | null;
+  location: string | null;
+}
+
+export interface Receipt {
+  id: string;
+  receiptNumber: string;
+  paymentId: string;
+  bookingId: string | null;
+  billToName: string | null;
+  billToEmail: string | null;
+  practitioner: ReceiptPractitioner;
+  lineItems: ReceiptLineItem[];
+  subtotal: number;
+  discountAmount: number;
+  walletAmount: number;
+  total: number;
+  // Charged through Paystack: the total less what the wallet covered
+  amountPaid: number;
+  vatPercent: number;
+  vatAmount: number;
+  currency: string;
+  paystackRef: string | null;
+  paidAt: string | null;
+  issuedAt: string;
+}
+
+interface ReceiptRow {
+  id: string;
+  receipt_number: string;
+  payment_id: string;
+  booking_id: string | null;
+  bill_to_name: string | null;
+  bill_to_email: string | null;
+  practitioner: Partial<ReceiptPractitioner> | null;
+  line_items: ReceiptLineItem[] | null;
+  subtotal: number | string;
+  discount_amount: number | string;
+  wallet_amount: number | string;
+  total: number | string;
+  vat_percent: number | string;
+  vat_amount: number | string;
+  currency: string;
+  paystack_ref: string | null;
+  paid_at: string | null;
+  issued_at: string;
+}
+
+interface PaymentForReceipt {
+  id: string;
+  amount: number | string;
+  currency: string | null;
+  status: string;
+  paystack_ref: string | null;
+  booking_id: string | null;
+  user_id: string | null;
+  metadata: Record<string, unknown> | null;
+  original_amount: number | string | null;
+  discount_amount: number | string | null;
+  wallet_amount: number | string | null;
+  refund_amount: number | string | null;
+  wallet_refund_amount: number | string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+function toReceipt(row: ReceiptRow): Receipt {
+  const total = Number(row.total);
+  const walletAmount = Number(row.wallet_amount);
+
+  return {
+    id: row.id,
+    receiptNumber: row.receipt_number,
+    paymentId: row.payment_id,
+    bookingId: row.booking_id,
+    billToName: row.bill_to_name,
+    billToEmail: row.bill_to_email,
+    practitioner: {
+      name: row.practitioner?.name || null,
+      role: row.practitioner?.role || null,
+      email: row.practitioner?.email || null,
+      licenseNumber: row.practitioner?.licenseNumber || null,
+      location: row.practitioner?.location || null,
+    },
+    lineItems: row.line_items || [],
+    subtotal: Number(row.subtotal),
+    discountAmount: Number(row.discount_amount),
+    walletAmount,
+    total,
+    amountPaid: roundMoney(total - walletAmount),
+    vatPercent: Number(row.vat_percent),
+    vatAmount: Number(row.vat_amount),
+    currency: row.currency,
+    paystackRef: row.paystack_ref,
+    paidAt: row.paid_at,
+    issuedAt: row.issued_at,
+  };
+}
+
+/**
+ * VAT contained in a VAT-inclusive amount
+ */
+export function getIncludedVat(amount: number, vatPercent: number): number {
+  return vatPercent > 0 ? roundMoney((amount * vatPercent) / (100 + vatPercent)) : 0;
+}
+
+export function getReceiptFileName(receipt: Pick<Receipt, "receiptNumber">): string {
+  return `Daiyet-Receipt-${receipt.receiptNumber}.pdf`;
+}
+
+function getRoleLabel(role: string | null): string | null {
+  if (role === "DIETITIAN") return "Dietitian";
+  if (role === "THERAPIST") return "Therapist";
+  return null;
+}
+
+/**
+ * What a payment was for, as receipt lines: the booked session (one line for every occurrence of
+ * a series), the bundle or meal plan from the checkout description
+ */
+async function getLineItems(payment: PaymentForReceipt, subtotal: number): Promise<ReceiptLineItem[]> {
+  const supabaseAdmin = createAdminClientServer();
+  const metadata = payment.metadata || {};
+  let description = typeof metadata.description === "string" ? metadata.description : null;
+  let quantity = 1;
+
+  if (payment.booking_id) {
+    const { data: booking } = await supabaseAdmin
+      .from("bookings")
+      .select("title, start_time, series_id")
+      .eq("id", payment.booking_id)
+      .maybeSingle();
+
+    if (booking) {
+      const sessionDate = dayjs(booking.start_time).tz(DEFAULT_TIMEZONE).format("MMM D, YYYY");
+      description = `${booking.title || description || "Consultation"} (${sessionDate})`;
+
+      if (booking.series_id) {
+        const { count } = await supabaseAdmin
+          .from("bookings")
+          .select("id", { count: "exact", head: true })
+          .eq("series_id", booking.series_id);
+        quantity = count || 1;
+        description = `${booking.title || "Consultation"} - recurring sessions from ${sessionDate}`;
+      }
+    }
+  }
+
+  if (!description) {
+    description = metadata.requestType === "MEAL_PLAN" ? "Meal plan" : "Consultation";
+  }
+
+  return [{ description, quantity, unitPrice: roundMoney(subtotal / quantity), amount: subtotal }];
+}
+
+/**
+ * The practitioner a payment went to: through its booking, the session request it paid for, or
+ * the practitioner recorded at checkout
+ */
+async function getPractitionerId(payment: PaymentForReceipt): Promise<string | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const metadata = payment.metadata || {};
+
+  if (payment.booking_id) {
+    const { data: booking } = await supabaseAdmin
+      .from("bookings")
+      .select("dietitian_id")
+      .eq("id", payment.booking_id)
+      .maybeSingle();
+    if (booking?.dietitian_id) {
+      return booking.dietitian_id;
+    }
+  }
+
+  if (typeof metadata.requestId === "string") {
+    const { data: sessionRequest } = await supabaseAdmin
+      .from("session_requests")
+      .select("dietitian_id")
+      .eq("id", metadata.requestId)
+      .maybeSingle();
+    if (sessionRequest?.dietitian_id) {
+      return sessionRequest.dietitian_id;
+    }
+  }
+
+  return typeof metadata.dietitianId === "string" ? metadata.dietitianId : null;
+}
+
+async function getClientId(payment: PaymentForReceipt): Promise<string | null> {
+  if (payment.user_id || !payment.booking_id) {
+    return payment.user_id;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data: booking } = await supabaseAdmin
+    .from("bookings")
+    .select("user_id")
+    .eq("id", payment.booking_id)
+    .maybeSingle();
+  return booking?.user_id || null;
+}
+
+async function getReceiptByPayment(paymentId: string): Promise<Receipt | null> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin.from("receipts").select("*").eq("payment_id", paymentId).maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load receipt: ${error.message}`, "RECEIPT_FETCH_FAILED", 500);
+  }
+
+  return data ? toReceipt(data as ReceiptRow) : null;
+}
+
+/**
+ * The receipt for a successful payment, issuing it if it doesn't have one yet. Null for payments
+ * that haven't succeeded or were refunded in full. Safe to call concurrently for the same payment.
+ */
+export async function issueReceipt(paymentId: string): Promise<Receipt | null> {
+  const existing = await getReceiptByPayment(paymentId);
+  if (existing) {
+    return existing;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data: payment, error: paymentError } = await supabaseAdmin
+    .from("payments")
+    .select(
+      "id, amount, currency, status, paystack_ref, booking_id, user_id, metadata, original_amount, discount_amount, wallet_amount, refund_amount, wallet_refund_amount, paid_at, created_at"
+    )
+    .eq("id", paymentId)
+    .maybeSingle<PaymentForReceipt>();
+
+  if (paymentError) {
+    throw new AppError(`Failed to load payment: ${paymentError.message}`, "RECEIPT_ISSUE_FAILED", 500);
+  }
+  if (!payment || payment.status !== "SUCCESS") {
+    return null;
+  }
+
+  const amount = Number(payment.amount || 0);
+  const walletAmount = Number(payment.wallet_amount || 0);
+  if (Number(payment.refund_amount || 0) + Number(payment.wallet_refund_amount || 0) >= amount + walletAmount) {
+    return null;
+  }
+
+  // A promo code records the price before its discount; otherwise the price is what the card and
+  // wallet paid between them
+  const discountAmount = Number(payment.discount_amount || 0);
+  const total = roundMoney(amount + walletAmount);
+  const subtotal = payment.original_amount !== null ? Number(payment.original_amount) : total;
+
+  const [lineItems, practitionerId, clientId] = await Promise.all([
+    getLineItems(payment, subtotal),
+    getPractitionerId(payment),
+    getClientId(payment),
+  ]);
+
+  const { data: practitioner } = practitionerId
+    ? await supabaseAdmin.from("users").select("name, email, role, metadata").eq("id", practitionerId).maybeSingle()
+    : { data: null };
+  const { data: client } = clientId
+    ? await supabaseAdmin.from("users").select("name, email").eq("id", clientId).maybeSingle()
+    : { data: null };
+
+  const paidAt = payment.paid_at || payment.created_at;
+
+  const { data: receipt, error: insertError } = await supabaseAdmin
+    .from("receipts")
+    .insert({
+      payment_id: payment.id,
+      // Numbered within the year it was paid in, in Nigerian time
+      year: dayjs(paidAt).tz(DEFAULT_TIMEZONE).year(),
+      user_id: clientId,
+      dietitian_id: practitionerId,
+      booking_id: payment.booking_id,
+      bill_to_name: client?.name || null,
+      bill_to_email: client?.email || null,
+      practitioner: {
+        name: practitioner?.name || null,
+        role: getRoleLabel(practitioner?.role || null),
+        email: practitioner?.email || null,
+        licenseNumber: practitioner?.metadata?.licenseNumber || null,
+        location: practitioner?.metadata?.location || null,
+      },
+      line_items: lineItems,
+      subtotal,
+      discount_amount: discountAmount,
+      wallet_amount: walletAmount,
+      total,
+      vat_percent: RECEIPT_VAT_PERCENT,
+      vat_amount: getIncludedVat(total, RECEIPT_VAT_PERCENT),
+      currency: payment.currency || "NGN",
+      paystack_ref: payment.paystack_ref,
+      paid_at: paidAt,
+    })
+    .select("*")
+    .single();
+
+  if (insertError) {
+    // Issued by a concurrent call in the meantime
+    if (insertError.code === UNIQUE_VIOLATION) {
+      return getReceiptByPayment(paymentId);
+    }
+    throw new AppError(`Failed to issue receipt: ${insertError.message}`, "RECEIPT_ISSUE_FAILED", 500);
+  }
+
+  return toReceipt(receipt as ReceiptRow);
+}
+
+/**
+ * A client's receipts, newest first. Issues receipts for any of their successful payments that
+ * don't have one yet (e.g. confirmed before receipts existed).
+ */
+export async function listReceipts(userId: string): Promise<Receipt[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: bookings } = await supabaseAdmin.from("bookings").select("id").eq("user_id", userId);
+  const bookingIds = (bookings || []).map((booking) => booking.id);
+
+  const paymentFilter = bookingIds.length
+    ? `user_id.eq.${userId},booking_id.in.(${bookingIds.join(",")})`
+    : `user_id.eq.${userId}`;
+  const { data: payments, error: paymentsError } = await supabaseAdmin
+    .from("payments")
+    .select("id")
+    .eq("status", "SUCCESS")
+    .or(paymentFilter);
+
+  if (paymentsError) {
+    throw new AppError(`Failed to load payments: ${paymentsError.message}`, "RECEIPTS_FETCH_FAILED", 500);
+  }
+
+  const paymentIds = (payments || []).map((payment) => payment.id);
+  if (paymentIds.length > 0) {
+    const { data: issued } = await supabaseAdmin.from("receipts").select("payment_id").in("payment_id", paymentIds);
+    const issuedPaymentIds = new Set((issued || []).map((receipt) => receipt.payment_id));
+
+    for (const paymentId of paymentIds.filter((id) => !issuedPaymentIds.has(id))) {
+      try {
+        await issueReceipt(paymentId);
+      } catch (error) {
+        console.error("[Receipts] Failed to issue missing receipt:", { paymentId, error });
+      }
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("receipts")
+    .select("*")
+    .eq("user_id", userId)
+    .order("issued_at", { ascending: false });
+
+  if (error) {
+    throw new AppError(`Failed to load receipts: ${error.message}`, "RECEIPTS_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((row) => toReceipt(row as ReceiptRow));
+}
+
+/**
+ * One of a client's receipts
+ */
+export async function getReceiptForUser(receiptId: string, userId: string): Promise<Receipt> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("receipts")
+    .select("*")
+    .eq("id", receiptId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load receipt: ${error.message}`, "RECEIPT_FETCH_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("Receipt not found");
+  }
+
+  return toReceipt(data as ReceiptRow);
+}
+
+/**
+ * Issue the receipt for a payment that has just been confirmed and email it to the client as a
+ * PDF with the payment confirmation
+ */
+export async function sendPaymentReceipt(paymentId: string): Promise<Receipt | null> {
+  const receipt = await issueReceipt(paymentId);
+  if (!receipt?.billToEmail) {
+    return receipt;
+  }
+
+  await emailQueue.enqueue({
+    to: receipt.billToEmail,
+    subject: `Payment Receipt ${receipt.receiptNumber} - Daiyet`,
+    template: "payment_confirmation",
+    data: {
+      userName: receipt.billToName || "User",
+      // The template shows it with formatMoney in the receipt's currency
+      amount: String(receipt.total),
+      currency: receipt.currency,
+      eventTitle: receipt.lineItems[0]?.description,
+      transactionId: receipt.paystackRef,
+      receiptNumber: receipt.receiptNumber,
+    },
+    attachments: [
+      {
+        name: getReceiptFileName(receipt),
+        content: renderReceiptPdf(receipt).toString("base64"),
+      },
+    ],
+  });
+
+  return receipt;
+}
@@ -0,0 +1,185 @@
+/**
+ * Referral programme
+ * Clients share /ref/<code>; the code is kept in a cookie and the signup it leads to is
+ * attributed to the referrer in the auth callback. When the referred client's first booking is
+ * paid, the referrer's wallet is credited.
+ */
+
+import { randomBytes } from "crypto";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, NotFoundError } from "@/lib/error-handling";
+import { creditReferralReward } from "./wallet";
+
+export const REFERRAL_COOKIE = "daiyet_ref";
+export const REFERRAL_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+export const REFERRAL_REWARD_AMOUNT = Number(process.env.REFERRAL_REWARD_AMOUNT || 1000);
+
+// No 0/O or 1/I, so codes survive being read out
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export interface Referral {
+  id: string;
+  referredName: string | null;
+  status: "PENDING" | "REWARDED";
+  rewardAmount: number | null;
+  currency: string;
+  createdAt: string;
+  rewardedAt: string | null;
+}
+
+export function normalizeReferralCode(code: string): string {
+  return String(code || "").trim().toUpperCase();
+}
+
+function generateReferralCode(): string {
+  const bytes = randomBytes(8);
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * The user's referral code, created the first time it is asked for
+ */
+export async function getOrCreateReferralCode(userId: string): Promise<string> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: user, error } = await supabaseAdmin.from("users").select("referral_code").eq("id", userId).single();
+  if (error || !user) {
+    throw new NotFoundError("User not found");
+  }
+  if (user.referral_code) {
+    return user.referral_code;
+  }
+
+  // Retry on the rare collision with another user's code
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateReferralCode();
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("users")
+      .update({ referral_code: code })
+      .eq("id", userId)
+      .is("referral_code", null)
+      .select("referral_code")
+      .maybeSingle();
+
+    if (!updateError) {
+      if (updated) {
+        return updated.referral_code;
+      }
+      // Created by a concurrent request
+      const { data: current } = await supabaseAdmin.from("users").select("referral_code").eq("id", userId).single();
+      if (current?.referral_code) {
+        return current.referral_code;
+      }
+    } else if (updateError.code !== "23505") {
+      throw new AppError(`Failed to create referral code: ${updateError.message}`, "REFERRAL_CODE_FAILED", 500);
+    }
+  }
+
+  throw new AppError("Failed to create a unique referral code", "REFERRAL_CODE_FAILED", 500);
+}
+
+export async function findReferrerByCode(code: string): Promise<{ id: string; email: string } | null> {
+  const normalizedCode = normalizeReferralCode(code);
+  if (!normalizedCode) {
+    return null;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data } = await supabaseAdmin
+    .from("users")
+    .select("id, email")
+    .eq("referral_code", normalizedCode)
+    .maybeSingle();
+
+  return data || null;
+}
+
+/**
+ * Attribute a newly created client account to the owner of a referral code.
+ * Returns false when the code is unknown or refers the person to themselves.
+ */
+export async function attributeReferral(referredUser: { id: string; email: string }, code: string): Promise<boolean> {
+  const referrer = await findReferrerByCode(code);
+  if (!referrer || referrer.id === referredUser.id || referrer.email.toLowerCase() === referredUser.email.toLowerCase()) {
+    return false;
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.from("referrals").upsert(
+    {
+      referrer_id: referrer.id,
+      referred_user_id: referredUser.id,
+      code: normalizeReferralCode(code),
+    },
+    { onConflict: "referred_user_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new AppError(`Failed to record referral: ${error.message}`, "REFERRAL_ATTRIBUTION_FAILED", 500);
+  }
+
+  await supabaseAdmin.from("users").update({ referred_by: referrer.id }).eq("id", referredUser.id).is("referred_by", null);
+  return true;
+}
+
+/**
+ * Reward the referrer of a client whose booking has just been paid, if this is the referral's
+ * first paid booking. Safe to call for every paid booking.
+ */
+export async function rewardReferralForBooking(referredUserId: string, bookingId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  // Claim the pending referral so only one paid booking earns the reward
+  const { data: referral, error } = await supabaseAdmin
+    .from("referrals")
+    .update({
+      status: "REWARDED",
+      reward_amount: REFERRAL_REWARD_AMOUNT,
+      booking_id: bookingId,
+      rewarded_at: new Date().toISOString(),
+    })
+    .eq("referred_user_id", referredUserId)
+    .eq("status", "PENDING")
+    .select("id, referrer_id, currency")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update referral: ${error.message}`, "REFERRAL_REWARD_FAILED", 500);
+  }
+  if (!referral) {
+    return;
+  }
+
+  await creditReferralReward(referral.referrer_id, referral.id, REFERRAL_REWARD_AMOUNT, referral.currency);
+}
+
+/**
+ * People the user has referred, newest first
+ */
+export async function listReferrals(referrerId: string): Promise<Referral[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data, error } = await supabaseAdmin
+    .from("referrals")
+    .select("id, status, reward_amount, currency, created_at, rewarded_at, referred:users!referrals_referred_user_id_fkey(name)")
+    .eq("referrer_id", referrerId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new AppError(`Failed to load referrals: ${error.message}`, "REFERRALS_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map((row) => {
+    const referred = Array.isArray(row.referred) ? row.referred[0] : row.referred;
+
+    return {
+      id: row.id,
+      referredName: referred?.name || null,
+      status: row.status,
+      rewardAmount: row.reward_amount !== null ? Number(row.reward_amount) : null,
+      currency: row.currency,
+      createdAt: row.created_at,
+      rewardedAt: row.rewarded_at,
+    };
+  });
+}
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, unknown>,
+  inserts: [] as Array<Record<string, unknown>>,
+  updates: [] as Array<Record<string, unknown>>,
+  rpcResult: { data: null, error: null } as { data: unknown; error: unknown },
+  getEventTypeCharge: vi.fn(),
+}));
+
+// Answers each query with the response set for its table and operation, e.g. "session_credits.update"
+function from(table: string) {
+  let operation = "select";
+  const result = () => Promise.resolve({ data: mocks.responses[`${table}.${operation}`] ?? null, error: null });
+  const builder = {
+    select: () => builder,
+    insert: (values: Record<string, unknown>) => {
+      operation = "insert";
+      mocks.inserts.push(values);
+      return builder;
+    },
+    update: (values: Record<string, unknown>) => {
+      operation = "update";
+      mocks.updates.push(values);
+      return builder;
+    },
+    eq: () => builder,
+    or: () => builder,
+    order: result,
+    single: result,
+    maybeSingle: result,
+  };
+  return builder;
+}
+
+const rpc = () => ({ maybeSingle: () => Promise.resolve(mocks.rpcResult) });
+
+vi.mock("@/lib/supabase/server", () => ({ createAdminClientServer: () => ({ from, rpc }) }));
+vi.mock("./pricing", () => ({ getEventTypeCharge: mocks.getEventTypeCharge }));
+
+import { activateSessionCredits, createSessionBundle, listSessionCredits, redeemSessionCredit } from "./session-bundles";
+
+const credit = {
+  id: "credit-1",
+  dietitian_id: "dietitian-1",
+  event_type_id: "event-type-1",
+  sessions_total: 4,
+  sessions_used: 1,
+  purchased_at: "2026-03-01T12:00:00.000Z",
+  expires_at: "2026-05-30T12:00:00.000Z",
+  dietitian: { name: "Dietitian" },
+  event_types: [{ title: "Consultation" }],
+};
+
+const booking = { id: "booking-1", user_id: "client-1", dietitian_id: "dietitian-1", event_type_id: "event-type-1" };
+
+beforeEach(() => {
+  mocks.responses = {};
+  mocks.inserts = [];
+  mocks.updates = [];
+  mocks.rpcResult = { data: null, error: null };
+  mocks.getEventTypeCharge.mockReset().mockResolvedValue({ amount: 10000, currency: "NGN" });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createSessionBundle", () => {
+  beforeEach(() => {
+    mocks.responses["event_types.select"] = { id: "event-type-1", title: "Consultation", user_id: "dietitian-1" };
+  });
+
+  it("only sells bundles for less than booking the sessions one at a time", async () => {
+    await expect(
+      createSessionBundle("dietitian-1", "event-type-1", { sessionCount: 4, price: 40000, validityDays: 90 })
+    ).rejects.toMatchObject({ message: "A bundle must cost less than booking its sessions one at a time", details: { fullPrice: 40000 } });
+
+    mocks.responses["session_bundles.insert"] = { id: "bundle-1", session_count: 4, price: "36000", currency: "NGN" };
+    await createSessionBundle("dietitian-1", "event-type-1", { sessionCount: 4, price: 36000, validityDays: 90 });
+    expect(mocks.inserts[0]).toMatchObject({ name: "4 × Consultation", session_count: 4, price: 36000, currency: "NGN" });
+  });
+
+  it("checks the session count, validity and owner", async () => {
+    await expect(
+      createSessionBundle("dietitian-1", "event-type-1", { sessionCount: 1, price: 5000, validityDays: 90 })
+    ).rejects.toThrow("A bundle must have between 2 and 50 sessions");
+    await expect(
+      createSessionBundle("dietitian-1", "event-type-1", { sessionCount: 4, price: 36000, validityDays: 0 })
+    ).rejects.toThrow("Enter how many days the sessions can be used for");
+    await expect(
+      createSessionBundle("dietitian-2", "event-type-1", { sessionCount: 4, price: 36000, validityDays: 90 })
+    ).rejects.toThrow("Event type not found");
+  });
+});
+
+describe("activateSessionCredits", () => {
+  it("starts the credits' validity when the payment is confirmed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+    mocks.responses = {
+      "session_credits.select": { id: "credit-1", session_bundles: [{ validity_days: 90 }] },
+      "session_credits.update": { ...credit, sessions_used: 0 },
+    };
+
+    expect(await activateSessionCredits("payment-1")).toMatchObject({ sessionsRemaining: 4, eventTypeTitle: "Consultation" });
+    expect(mocks.updates[0]).toEqual({
+      status: "ACTIVE",
+      purchased_at: "2026-03-01T12:00:00.000Z",
+      expires_at: "2026-05-30T12:00:00.000Z",
+    });
+  });
+});
+
+describe("listSessionCredits", () => {
+  it("leaves out credits with no sessions left", async () => {
+    mocks.responses["session_credits.select"] = [credit, { ...credit, id: "credit-2", sessions_used: 4 }];
+
+    expect((await listSessionCredits("client-1")).map((c) => [c.id, c.sessionsRemaining])).toEqual([["credit-1", 3]]);
+  });
+});
+
+describe("redeemSessionCredit", () => {
+  it("spends a session and confirms the booking", async () => {
+    mocks.responses["session_credits.select"] = [credit];
+    mocks.rpcResult = { data: { id: "booking-1", status: "CONFIRMED" }, error: null };
+
+    const { credit: spent } = await redeemSessionCredit(booking);
+    expect(spent).toMatchObject({ sessionsUsed: 2, sessionsRemaining: 2 });
+  });
+
+  it("turns a slot taken in the meantime into a conflict", async () => {
+    mocks.responses["session_credits.select"] = [credit];
+    mocks.rpcResult = { data: null, error: { code: "23P01", message: "conflicting key value" } };
+
+    await expect(redeemSessionCredit(booking)).rejects.toMatchObject({ statusCode: 409, message: "Time slot not available" });
+  });
+
+  it("needs a credit with sessions left", async () => {
+    mocks.responses["session_credits.select"] = [];
+
+    await expect(redeemSessionCredit(booking)).rejects.toThrow("You don't have any prepaid sessions left for this booking");
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Session bundles
+ * Practitioners sell an event type in bundles (e.g. 4 sessions) for less than booking each
+ * session separately. A confirmed bundle payment gives the client session credits with that
+ * practitioner; each booking of the event type can spend one instead of going through Paystack.
+ * Credits expire validity_days after purchase, and a booking cancelled with a full refund gets
+ * its credit back.
+ */
+
+import dayjs from "dayjs";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { GROUP_SESSION_FULL_CODE } from "@/lib/bookings/group-sessions";
+import { roundMoney } from "./ledger";
+import { getEventTypeCharge } from "./pricing";
+import type { ConfirmedBooking } from "./confirmation";
+
+export const MIN_BUNDLE_SESSIONS = 2;
+export const MAX_BUNDLE_SESSIONS = 50;
+
+export interface SessionBundle {
+  id: string;
+  eventTypeId: string;
+  dietitianId: string;
+  name: string;
+  sessionCount: number;
+  price: number;
+  currency: string;
+  validityDays: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Credits from one bundle purchase
+export interface SessionCredit {
+  id: string;
+  dietitianId: string;
+  dietitianName: string | null;
+  eventTypeId: string;
+  eventTypeTitle: string | null;
+  sessionsTotal: number;
+  sessionsUsed: number;
+  sessionsRemaining: number;
+  purchasedAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface CreateSessionBundleInput {
+  name?: string | null;
+  sessionCount: number;
+  price: number;
+  validityDays: number;
+}
+
+interface SessionBundleRow {
+  id: string;
+  event_type_id: string;
+  dietitian_id: string;
+  name: string;
+  session_count: number;
+  price: number | string;
+  currency: string;
+  validity_days: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface SessionCreditRow {
+  id: string;
+  dietitian_id: string;
+  event_type_id: string;
+  sessions_total: number;
+  sessions_used: number;
+  purchased_at: string | null;
+  expires_at: string | null;
+  dietitian?: { name: string | null } | { name: string | null }[] | null;
+  event_types?: { title: string | null } | { title: string | null }[] | null;
+}
+
+function toSessionBundle(row: SessionBundleRow): SessionBundle {
+  return {
+    id: row.id,
+    eventTypeId: row.event_type_id,
+    dietitianId: row.dietitian_id,
+    name: row.name,
+    sessionCount: row.session_count,
+    price: Number(row.price),
+    currency: row.currency,
+    validityDays: row.validity_days,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+  };
+}
+
+function toSessionCredit(row: SessionCreditRow): SessionCredit {
+  const dietitian = Array.isArray(row.dietitian) ? row.dietitian[0] : row.dietitian;
+  const eventType = Array.isArray(row.event_types) ? row.event_types[0] : row.event_types;
+
+  return {
+    id: row.id,
+    dietitianId: row.dietitian_id,
+    dietitianName: dietitian?.name || null,
+    eventTypeId: row.event_type_id,
+    eventTypeTitle: eventType?.title || null,
+    sessionsTotal: row.sessions_total,
+    sessionsUsed: row.sessions_used,
+    sessionsRemaining: row.sessions_total - row.sessions_used,
+    purchasedAt: row.purchased_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Bundles offered on an event type, smallest first
+ */
+export async function listSessionBundles(
+  eventTypeId: string,
+  { activeOnly = true }: { activeOnly?: boolean } = {}
+): Promise<SessionBundle[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin.from("session_bundles").select("*").eq("event_type_id", eventTypeId);
+  if (activeOnly) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query.order("session_count", { ascending: true });
+  if (error) {
+    throw new AppError(`Failed to load session bundles: ${error.message}`, "SESSION_BUNDLES_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(toSessionBundle);
+}
+
+/**
+ * An active bundle, for checkout
+ */
+export async function getSessionBundle(bundleId: string): Promise<SessionBundle> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data, error } = await supabaseAdmin
+    .from("session_bundles")
+    .select("*")
+    .eq("id", bundleId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to load session bundle: ${error.message}`, "SESSION_BUNDLES_FETCH_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("This bundle is no longer available");
+  }
+
+  return toSessionBundle(data);
+}
+
+export async function createSessionBundle(
+  practitionerId: string,
+  eventTypeId: string,
+  input: CreateSessionBundleInput
+): Promise<SessionBundle> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: eventType } = await supabaseAdmin
+    .from("event_types")
+    .select("id, title, user_id")
+    .eq("id", eventTypeId)
+    .maybeSingle();
+  if (!eventType || eventType.user_id !== practitionerId) {
+    throw new NotFoundError("Event type not found");
+  }
+
+  const sessionCount = Number(input.sessionCount);
+  const price = roundMoney(Number(input.price));
+  const validityDays = Number(input.validityDays);
+
+  if (!Number.isInteger(sessionCount) || sessionCount < MIN_BUNDLE_SESSIONS || sessionCount > MAX_BUNDLE_SESSIONS) {
+    throw new ValidationError(`A bundle must have between ${MIN_BUNDLE_SESSIONS} and ${MAX_BUNDLE_SESSIONS} sessions`);
+  }
+  if (!Number.isInteger(validityDays) || validityDays < 1) {
+    throw new ValidationError("Enter how many days the sessions can be used for");
+  }
+
+  const charge = await getEventTypeCharge(eventTypeId);
+  const fullPrice = (charge?.amount || 0) * sessionCount;
+  if (!(price > 0)) {
+    throw new ValidationError("Enter a bundle price");
+  }
+  if (price >= fullPrice) {
+    throw new ValidationError("A bundle must cost less than booking its sessions one at a time", { fullPrice });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("session_bundles")
+    .insert({
+      event_type_id: eventTypeId,
+      dietitian_id: practitionerId,
+      name: input.name?.trim() || `${sessionCount} × ${eventType.title}`,
+      session_count: sessionCount,
+      price,
+      currency: charge?.currency || "NGN",
+      validity_days: validityDays,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new AppError(`Failed to create session bundle: ${error.message}`, "SESSION_BUNDLE_CREATE_FAILED", 500);
+  }
+
+  return toSessionBundle(data);
+}
+
+export async function setSessionBundleActive(
+  practitionerId: string,
+  bundleId: string,
+  isActive: boolean
+): Promise<SessionBundle> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data, error } = await supabaseAdmin
+    .from("session_bundles")
+    .update({ is_active: isActive })
+    .eq("id", bundleId)
+    .eq("dietitian_id", practitionerId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to update session bundle: ${error.message}`, "SESSION_BUNDLE_UPDATE_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("Bundle not found");
+  }
+
+  return toSessionBundle(data);
+}
+
+/**
+ * Record the credits a bundle checkout will give, once its payment is confirmed
+ */
+export async function createPendingSessionCredits(
+  paymentId: string,
+  userId: string,
+  bundle: SessionBundle
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { error } = await supabaseAdmin.from("session_credits").upsert(
+    {
+      bundle_id: bundle.id,
+      user_id: userId,
+      dietitian_id: bundle.dietitianId,
+      event_type_id: bundle.eventTypeId,
+      sessions_total: bundle.sessionCount,
+      payment_id: paymentId,
+    },
+    { onConflict: "payment_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new AppError(`Failed to record session credits: ${error.message}`, "SESSION_CREDITS_CREATE_FAILED", 500);
+  }
+}
+
+/**
+ * Make a confirmed bundle payment's credits usable. Safe to repeat for the same payment.
+ */
+export async function activateSessionCredits(paymentId: string): Promise<SessionCredit | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: pending } = await supabaseAdmin
+    .from("session_credits")
+    .select("id, session_bundles(validity_days)")
+    .eq("payment_id", paymentId)
+    .eq("status", "PENDING")
+    .maybeSingle();
+
+  if (!pending) {
+    return null;
+  }
+
+  const bundle = Array.isArray(pending.session_bundles) ? pending.session_bundles[0] : pending.session_bundles;
+  const purchasedAt = dayjs();
+
+  const { data, error } = await supabaseAdmin
+    .from("session_credits")
+    .update({
+      status: "ACTIVE",
+      purchased_at: purchasedAt.toISOString(),
+      expires_at: bundle?.validity_days ? purchasedAt.add(bundle.validity_days, "day").toISOString() : null,
+    })
+    .eq("id", pending.id)
+    .eq("status", "PENDING")
+    .select("*, dietitian:users!session_credits_dietitian_id_fkey(name), event_types(title)")
+    .maybeSingle();
+
+  if (error) {
+    throw new AppError(`Failed to activate session credits: ${error.message}`, "SESSION_CREDITS_UPDATE_FAILED", 500);
+  }
+
+  return data ? toSessionCredit(data) : null;
+}
+
+/**
+ * A client's unexpired credits with sessions left, soonest to expire first
+ */
+export async function listSessionCredits(
+  userId: string,
+  { dietitianId, eventTypeId }: { dietitianId?: string | null; eventTypeId?: string | null } = {}
+): Promise<SessionCredit[]> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("session_credits")
+    .select("*, dietitian:users!session_credits_dietitian_id_fkey(name), event_types(title)")
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  if (dietitianId) {
+    query = query.eq("dietitian_id", dietitianId);
+  }
+  if (eventTypeId) {
+    query = query.eq("event_type_id", eventTypeId);
+  }
+
+  const { data, error } = await query.order("expires_at", { ascending: true, nullsFirst: false });
+  if (error) {
+    throw new AppError(`Failed to load session credits: ${error.message}`, "SESSION_CREDITS_FETCH_FAILED", 500);
+  }
+
+  return (data || []).map(toSessionCredit).filter((credit) => credit.sessionsRemaining > 0);
+}
+
+/**
+ * Spend one of the client's credits on a PENDING booking and confirm it
+ */
+export async function redeemSessionCredit(booking: {
+  id: string;
+  user_id: string;
+  dietitian_id: string;
+  event_type_id: string;
+}): Promise<{ booking: ConfirmedBooking; credit: SessionCredit }> {
+  const [credit] = await listSessionCredits(booking.user_id, {
+    dietitianId: booking.dietitian_id,
+    eventTypeId: booking.event_type_id,
+  });
+  if (!credit) {
+    throw new ValidationError("You don't have any prepaid sessions left for this booking");
+  }
+
+  const supabaseAdmin = createAdminClientServer();
+  const { data: confirmed, error } = await supabaseAdmin
+    .rpc("redeem_session_credit", {
+      p_credit_id: credit.id,
+      p_booking_id: booking.id,
+    })
+    .maybeSingle<ConfirmedBooking>();
+
+  if (error) {
+    if (error.code === "P0002") {
+      throw new NotFoundError(error.message);
+    }
+    if (error.code === "23P01" || error.code === GROUP_SESSION_FULL_CODE) {
+      throw new ConflictError("Time slot not available");
+    }
+    if (error.code === "P0001") {
+      throw new ConflictError(error.message);
+    }
+    throw new AppError(`Failed to use session credit: ${error.message}`, "SESSION_CREDIT_REDEEM_FAILED", 500);
+  }
+  if (!confirmed) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  return {
+    booking: confirmed,
+    credit: { ...credit, sessionsUsed: credit.sessionsUsed + 1, sessionsRemaining: credit.sessionsRemaining - 1 },
+  };
+}
+
+/**
+ * Give back the credit a cancelled booking was paid with
+ */
+export async function restoreSessionCredit(creditId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClientServer();
+
+  // Compare-and-set so concurrent restores can't both decrement from the same value
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: credit } = await supabaseAdmin
+      .from("session_credits")
+      .select("sessions_used")
+      .eq("id", creditId)
+      .maybeSingle();
+    if (!credit || credit.sessions_used <= 0) {
+      return false;
+    }
+
+    const { data: restored } = await supabaseAdmin
+      .from("session_credits")
+      .update({ sessions_used: credit.sessions_used - 1 })
+      .eq("id", creditId)
+      .eq("sessions_used", credit.sessions_used)
+      .select("id")
+      .maybeSingle();
+    if (restored) {
+      return true;
+    }
+  }
+
+  return false;
+}
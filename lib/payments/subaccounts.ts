@@ -0,0 +1,154 @@
+/**
+ * Paystack subaccount split payments
+ * Each practitioner registers a payout bank account at enrollment, which becomes a Paystack
+ * subaccount. Transactions for their sessions and meal plans are split at checkout: the platform
+ * keeps its commission as the transaction charge and Paystack settles the rest to the subaccount.
+ * Wallet balance spent at checkout never reaches Paystack, so the practitioner's share of it is
+ * left owed in the ledger and paid out through a payout batch.
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ValidationError } from "@/lib/error-handling";
+import { getPaystackClient, PaystackApiError } from "@/lib/paystack";
+import { getCommissionPercent } from "./ledger";
+
+export interface PayoutAccount {
+  bankCode: string;
+  bankName: string | null;
+  accountNumber: string;
+  accountName: string;
+}
+
+export interface TransactionSplit {
+  subaccount: string;
+  transactionCharge: number; // kobo
+}
+
+/**
+ * Check a bank account with Paystack and return the name on it
+ */
+export async function resolvePayoutAccount(bankCode: string, accountNumber: string): Promise<PayoutAccount> {
+  const normalizedNumber = String(accountNumber || "").replace(/\s/g, "");
+  if (!bankCode) {
+    throw new ValidationError("Select your bank");
+  }
+  if (!/^\d{10}$/.test(normalizedNumber)) {
+    throw new ValidationError("Account number must be 10 digits");
+  }
+
+  const paystack = getPaystackClient();
+  try {
+    const [resolved, banks] = await Promise.all([
+      paystack.resolveAccount({ accountNumber: normalizedNumber, bankCode }),
+      paystack.listBanks(),
+    ]);
+
+    return {
+      bankCode,
+      bankName: banks.find((bank) => bank.code === bankCode)?.name || null,
+      accountNumber: resolved.accountNumber,
+      accountName: resolved.accountName,
+    };
+  } catch (error) {
+    if (error instanceof PaystackApiError && error.statusCode < 500) {
+      throw new ValidationError("We couldn't verify that account. Check the bank and account number.");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the practitioner's Paystack subaccount for a resolved payout account and save it on
+ * their user record. The subaccount's percentage charge mirrors their commission, though each
+ * transaction sets the exact platform share.
+ */
+export async function registerPayoutAccount(
+  practitioner: { id: string; name: string | null; email: string; commission_percent?: number | string | null },
+  account: PayoutAccount,
+  phone?: string
+): Promise<string> {
+  const subaccount = await getPaystackClient().createSubaccount({
+    businessName: practitioner.name || practitioner.email,
+    bankCode: account.bankCode,
+    accountNumber: account.accountNumber,
+    percentageCharge: getCommissionPercent(practitioner),
+    primaryContactEmail: practitioner.email,
+    primaryContactName: practitioner.name || undefined,
+    primaryContactPhone: phone,
+  });
+
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("users")
+    .update({
+      paystack_subaccount_code: subaccount.subaccountCode,
+      payout_bank_code: account.bankCode,
+      payout_bank_name: account.bankName,
+      payout_account_name: account.accountName,
+      payout_account_last4: account.accountNumber.slice(-4),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", practitioner.id);
+
+  if (error) {
+    throw new AppError(`Failed to save payout account: ${error.message}`, "PAYOUT_ACCOUNT_SAVE_FAILED", 500);
+  }
+
+  return subaccount.subaccountCode;
+}
+
+/**
+ * The subaccount and platform share for a transaction, or null when the practitioner
+ * can't be identified or hasn't registered a payout account (the payment then goes to the
+ * platform and is paid out through a payout batch).
+ */
+export async function getTransactionSplit({
+  bookingId,
+  metadata,
+  amount,
+}: {
+  bookingId?: string | null;
+  metadata?: Record<string, unknown> | null;
+  amount: number; // kobo
+}): Promise<TransactionSplit | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let practitionerId: string | null = null;
+  if (bookingId) {
+    const { data: booking } = await supabaseAdmin
+      .from("bookings")
+      .select("dietitian_id")
+      .eq("id", bookingId)
+      .maybeSingle();
+    practitionerId = booking?.dietitian_id || null;
+  }
+  if (!practitionerId && typeof metadata?.requestId === "string") {
+    const { data: sessionRequest } = await supabaseAdmin
+      .from("session_requests")
+      .select("dietitian_id")
+      .eq("id", metadata.requestId)
+      .maybeSingle();
+    practitionerId = sessionRequest?.dietitian_id || null;
+  }
+  if (!practitionerId && typeof metadata?.dietitianId === "string") {
+    practitionerId = metadata.dietitianId;
+  }
+  if (!practitionerId) {
+    return null;
+  }
+
+  const { data: practitioner } = await supabaseAdmin
+    .from("users")
+    .select("paystack_subaccount_code, commission_percent")
+    .eq("id", practitionerId)
+    .maybeSingle();
+
+  if (!practitioner?.paystack_subaccount_code) {
+    return null;
+  }
+
+  return {
+    subaccount: practitioner.paystack_subaccount_code,
+    transactionCharge: Math.round((amount * getCommissionPercent(practitioner)) / 100),
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Client wallet
+ * Credit (referral rewards, and refunds of balance spent on cancelled bookings) that clients can
+ * spend at checkout. Each credit or spend
+ * is a wallet transaction and the balance is their sum. A checkout reserves the balance it uses
+ * as a PENDING transaction, so concurrent checkouts can't spend it twice; the reservation is spent
+ * when the payment is confirmed and released when the payment fails or the checkout is abandoned
+ * (release_wallet_reservations, run by the background worker).
+ */
+
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError } from "@/lib/error-handling";
+import { roundMoney } from "./ledger";
+
+// Paystack still has to charge something, so the wallet can't cover the last of a payment
+export const MINIMUM_CARD_CHARGE = 100;
+
+// SQLSTATE raised by reserve_wallet_spend when the balance no longer covers the reservation
+const WALLET_BALANCE_TOO_LOW = "WL001";
+
+export type WalletTransactionType = "REFERRAL_REWARD" | "CHECKOUT" | "REFUND";
+
+// PENDING while reserved by a checkout that hasn't been paid yet
+export type WalletTransactionStatus = "PENDING" | "COMPLETED";
+
+export interface WalletTransaction {
+  id: string;
+  amount: number;
+  currency: string;
+  type: WalletTransactionType;
+  status: WalletTransactionStatus;
+  description: string | null;
+  createdAt: string;
+}
+
+export interface Wallet {
+  balance: number;
+  currency: string;
+  transactions: WalletTransaction[];
+}
+
+/**
+ * The client account (users row) an authenticated person pays and books as
+ */
+export async function getClientAccountId(authUserId: string): Promise<string | null> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: clientAccount } = await supabaseAdmin
+    .from("users")
+    .select("id")
+    .eq("auth_user_id", authUserId)
+    .eq("role", "USER")
+    .maybeSingle();
+  if (clientAccount) {
+    return clientAccount.id;
+  }
+
+  // Older accounts use the auth user id as their id
+  const { data: legacyAccount } = await supabaseAdmin.from("users").select("id").eq("id", authUserId).maybeSingle();
+  return legacyAccount?.id || null;
+}
+
+export async function getWalletBalance(userId: string): Promise<number> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin.from("wallet_transactions").select("amount").eq("user_id", userId);
+
+  if (error) {
+    throw new AppError(`Failed to load wallet: ${error.message}`, "WALLET_FETCH_FAILED", 500);
+  }
+
+  return roundMoney((data || []).reduce((sum, transaction) => sum + Number(transaction.amount), 0));
+}
+
+export async function getWallet(userId: string): Promise<Wallet> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("wallet_transactions")
+    .select("id, amount, currency, type, status, description, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new AppError(`Failed to load wallet: ${error.message}`, "WALLET_FETCH_FAILED", 500);
+  }
+
+  const transactions = (data || []).map((row) => ({
+    id: row.id,
+    amount: Number(row.amount),
+    currency: row.currency,
+    type: row.type,
+    status: row.status,
+    description: row.description,
+    createdAt: row.created_at,
+  }));
+
+  return {
+    balance: roundMoney(transactions.reduce((sum, transaction) => sum + transaction.amount, 0)),
+    currency: transactions[0]?.currency || "NGN",
+    transactions,
+  };
+}
+
+/**
+ * How much of a payment the wallet can cover
+ */
+export function getWalletSpend(balance: number, amount: number): number {
+  return roundMoney(Math.max(Math.min(balance, amount - MINIMUM_CARD_CHARGE), 0));
+}
+
+/**
+ * Reserve wallet balance for a checkout that has just started. Throws a ConflictError when the
+ * balance no longer covers it, e.g. because another checkout reserved it first.
+ */
+export async function reserveWalletForPayment(
+  userId: string,
+  paymentId: string,
+  amount: number,
+  currency: string,
+  description: string | null
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.rpc("reserve_wallet_spend", {
+    p_user_id: userId,
+    p_payment_id: paymentId,
+    p_amount: roundMoney(amount),
+    p_currency: currency,
+    p_description: description,
+  });
+
+  if (error) {
+    if (error.code === WALLET_BALANCE_TOO_LOW) {
+      throw new ConflictError("Your wallet balance has changed. Please try again.");
+    }
+    throw new AppError(`Failed to reserve wallet balance: ${error.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * Spend the wallet balance reserved for a confirmed payment. If the reservation was already
+ * released (the payment landed after its checkout was abandoned), the balance is spent again.
+ * Safe to repeat for the same payment.
+ */
+export async function spendWalletForPayment(
+  userId: string,
+  paymentId: string,
+  amount: number,
+  currency: string,
+  description: string | null
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: reserved, error: updateError } = await supabaseAdmin
+    .from("wallet_transactions")
+    .update({ status: "COMPLETED" })
+    .eq("payment_id", paymentId)
+    .eq("status", "PENDING")
+    .select("id");
+  if (updateError) {
+    throw new AppError(`Failed to charge wallet: ${updateError.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+  if (reserved && reserved.length > 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from("wallet_transactions").upsert(
+    {
+      user_id: userId,
+      amount: -roundMoney(amount),
+      currency,
+      type: "CHECKOUT",
+      status: "COMPLETED",
+      description,
+      payment_id: paymentId,
+    },
+    { onConflict: "payment_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new AppError(`Failed to charge wallet: ${error.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * Give back the wallet balance reserved for a payment that won't be spent
+ */
+export async function releaseWalletReservation(paymentId: string): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin
+    .from("wallet_transactions")
+    .delete()
+    .eq("payment_id", paymentId)
+    .eq("status", "PENDING");
+
+  if (error) {
+    throw new AppError(`Failed to release wallet balance: ${error.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * Give back wallet balance spent on a cancelled booking. Safe to repeat for the same booking.
+ */
+export async function restoreWalletForRefund(
+  userId: string,
+  bookingId: string,
+  amount: number,
+  currency: string
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.from("wallet_transactions").upsert(
+    {
+      user_id: userId,
+      amount: roundMoney(amount),
+      currency,
+      type: "REFUND",
+      description: "Refund for cancelled booking",
+      booking_id: bookingId,
+    },
+    { onConflict: "booking_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new AppError(`Failed to refund wallet: ${error.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+}
+
+/**
+ * Credit a referrer's wallet for a referral. Safe to repeat for the same referral.
+ */
+export async function creditReferralReward(
+  userId: string,
+  referralId: string,
+  amount: number,
+  currency: string
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.from("wallet_transactions").upsert(
+    {
+      user_id: userId,
+      amount: roundMoney(amount),
+      currency,
+      type: "REFERRAL_REWARD",
+      description: "Referral reward",
+      referral_id: referralId,
+    },
+    { onConflict: "referral_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new AppError(`Failed to credit wallet: ${error.message}`, "WALLET_UPDATE_FAILED", 500);
+  }
+}
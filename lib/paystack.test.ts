@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getPaystackClient, setPaystackClient } from "./paystack";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  setPaystackClient(null);
+});
+
+describe("getPaystackClient", () => {
+  it("refuses the mock in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("PAYSTACK_MOCK", "true");
+    vi.stubEnv("PAYSTACK_SECRET_KEY", "sk_live_123");
+
+    expect(() => getPaystackClient()).toThrow("PAYSTACK_MOCK must not be set in production");
+  });
+
+  it("refunds mock transactions in the currency they were paid in", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("PAYSTACK_MOCK", "true");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const paystack = getPaystackClient();
+    const { reference } = await paystack.initializeTransaction({
+      email: "client@example.com",
+      amount: 4000,
+      currency: "USD",
+      callbackUrl: "http://localhost:3000/api/paystack/callback",
+    });
+
+    expect(await paystack.createRefund({ reference, amount: 2000 })).toMatchObject({ amount: 2000, currency: "USD" });
+    expect(await paystack.createRefund({ reference })).toMatchObject({ amount: 4000, currency: "USD" });
+  });
+});
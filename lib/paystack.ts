@@ -0,0 +1,360 @@
+/**
+ * Paystack API client
+ * Server-side wrapper around the Paystack REST API. Set PAYSTACK_MOCK=true to use
+ * an in-memory mock locally (also used when no secret key is configured outside production).
+ * The mock approves every transaction, so it refuses to run in production.
+ */
+
+const PAYSTACK_BASE_URL = "https://api.paystack.co";
+
+export interface PaystackRefund {
+  id: string;
+  status: "pending" | "processing" | "processed" | "failed" | string;
+  amount: number; // kobo
+  currency: string;
+  transactionReference: string;
+}
+
+export interface CreateRefundParams {
+  reference: string; // transaction reference to refund
+  amount?: number; // kobo; omit for a full refund
+  reason?: string;
+}
+
+export interface PaystackTransaction {
+  id: string;
+  reference: string;
+  status: "success" | "failed" | "abandoned" | "pending" | "ongoing" | "reversed" | string;
+  amount: number; // kobo
+  currency: string;
+  fees: number | null; // kobo
+  gatewayResponse: string | null;
+  channel: string | null;
+  paidAt: string | null;
+}
+
+export interface InitializeTransactionParams {
+  email: string;
+  amount: number; // kobo
+  currency: string;
+  callbackUrl: string;
+  metadata?: Record<string, unknown>;
+  // Split the payment with a practitioner's subaccount; the platform keeps transactionCharge
+  subaccount?: string;
+  transactionCharge?: number; // kobo
+}
+
+export interface InitializedTransaction {
+  authorizationUrl: string;
+  reference: string;
+}
+
+export interface PaystackBank {
+  name: string;
+  code: string;
+}
+
+export interface ResolvedBankAccount {
+  accountNumber: string;
+  accountName: string;
+}
+
+export interface CreateSubaccountParams {
+  businessName: string;
+  bankCode: string;
+  accountNumber: string;
+  percentageCharge: number; // platform share when a transaction doesn't set transactionCharge
+  primaryContactEmail?: string;
+  primaryContactName?: string;
+  primaryContactPhone?: string;
+}
+
+export interface PaystackSubaccount {
+  subaccountCode: string;
+  businessName: string;
+  bankName: string | null;
+  accountNumber: string;
+  percentageCharge: number;
+}
+
+export interface PaystackClient {
+  listBanks(currency?: string): Promise<PaystackBank[]>;
+  resolveAccount(params: { accountNumber: string; bankCode: string }): Promise<ResolvedBankAccount>;
+  createSubaccount(params: CreateSubaccountParams): Promise<PaystackSubaccount>;
+  initializeTransaction(params: InitializeTransactionParams): Promise<InitializedTransaction>;
+  verifyTransaction(reference: string): Promise<PaystackTransaction>;
+  createRefund(params: CreateRefundParams): Promise<PaystackRefund>;
+}
+
+export class PaystackApiError extends Error {
+  constructor(message: string, public statusCode: number, public response?: unknown) {
+    super(message);
+    this.name = "PaystackApiError";
+  }
+}
+
+class HttpPaystackClient implements PaystackClient {
+  constructor(private secretKey: string) {}
+
+  private async request<T>(path: string, init: { method: string; body?: unknown }): Promise<T> {
+    const response = await fetch(`${PAYSTACK_BASE_URL}${path}`, {
+      method: init.method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok || !json.status) {
+      throw new PaystackApiError(json.message || `Paystack request failed: ${path}`, response.status, json);
+    }
+    return json.data as T;
+  }
+
+  async listBanks(currency = "NGN"): Promise<PaystackBank[]> {
+    const data = await this.request<{ name: string; code: string; active: boolean }[]>(
+      `/bank?currency=${encodeURIComponent(currency)}&perPage=100`,
+      { method: "GET" }
+    );
+
+    return data.filter((bank) => bank.active !== false).map((bank) => ({ name: bank.name, code: bank.code }));
+  }
+
+  async resolveAccount({ accountNumber, bankCode }: { accountNumber: string; bankCode: string }): Promise<ResolvedBankAccount> {
+    const data = await this.request<{ account_number: string; account_name: string }>(
+      `/bank/resolve?account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`,
+      { method: "GET" }
+    );
+
+    return { accountNumber: data.account_number, accountName: data.account_name };
+  }
+
+  async createSubaccount(params: CreateSubaccountParams): Promise<PaystackSubaccount> {
+    const data = await this.request<{
+      subaccount_code: string;
+      business_name: string;
+      settlement_bank: string | null;
+      account_number: string;
+      percentage_charge: number;
+    }>("/subaccount", {
+      method: "POST",
+      body: {
+        business_name: params.businessName,
+        settlement_bank: params.bankCode,
+        account_number: params.accountNumber,
+        percentage_charge: params.percentageCharge,
+        primary_contact_email: params.primaryContactEmail,
+        primary_contact_name: params.primaryContactName,
+        primary_contact_phone: params.primaryContactPhone,
+      },
+    });
+
+    return {
+      subaccountCode: data.subaccount_code,
+      businessName: data.business_name,
+      bankName: data.settlement_bank,
+      accountNumber: data.account_number,
+      percentageCharge: data.percentage_charge,
+    };
+  }
+
+  async initializeTransaction({
+    email,
+    amount,
+    currency,
+    callbackUrl,
+    metadata,
+    subaccount,
+    transactionCharge,
+  }: InitializeTransactionParams): Promise<InitializedTransaction> {
+    const data = await this.request<{ authorization_url: string; reference: string }>("/transaction/initialize", {
+      method: "POST",
+      body: {
+        email,
+        amount,
+        currency,
+        callback_url: callbackUrl,
+        metadata,
+        subaccount,
+        transaction_charge: subaccount ? transactionCharge : undefined,
+      },
+    });
+
+    return { authorizationUrl: data.authorization_url, reference: data.reference };
+  }
+
+  async verifyTransaction(reference: string): Promise<PaystackTransaction> {
+    const data = await this.request<{
+      id: number;
+      reference: string;
+      status: string;
+      amount: number;
+      currency: string;
+      fees: number | null;
+      gateway_response: string | null;
+      channel: string | null;
+      paid_at: string | null;
+    }>(`/transaction/verify/${encodeURIComponent(reference)}`, { method: "GET" });
+
+    return {
+      id: String(data.id),
+      reference: data.reference,
+      status: data.status,
+      amount: data.amount,
+      currency: data.currency,
+      fees: data.fees ?? null,
+      gatewayResponse: data.gateway_response ?? null,
+      channel: data.channel ?? null,
+      paidAt: data.paid_at ?? null,
+    };
+  }
+
+  async createRefund({ reference, amount, reason }: CreateRefundParams): Promise<PaystackRefund> {
+    const data = await this.request<{
+      id: number;
+      status: string;
+      amount: number;
+      currency: string;
+      transaction: { reference: string };
+    }>("/refund", {
+      method: "POST",
+      body: {
+        transaction: reference,
+        amount,
+        merchant_note: reason,
+      },
+    });
+
+    return {
+      id: String(data.id),
+      status: data.status,
+      amount: data.amount,
+      currency: data.currency,
+      transactionReference: data.transaction?.reference || reference,
+    };
+  }
+}
+
+// Kept on globalThis so every route bundle in dev sees the same mock transactions
+const mockTransactions: Map<string, InitializeTransactionParams> =
+  ((globalThis as { __paystackMockTransactions?: Map<string, InitializeTransactionParams> }).__paystackMockTransactions ??=
+    new Map());
+
+const MOCK_BANKS: PaystackBank[] = [
+  { name: "Access Bank", code: "044" },
+  { name: "First Bank of Nigeria", code: "011" },
+  { name: "Guaranty Trust Bank", code: "058" },
+  { name: "Kuda Bank", code: "50211" },
+  { name: "United Bank For Africa", code: "033" },
+  { name: "Zenith Bank", code: "057" },
+];
+
+class MockPaystackClient implements PaystackClient {
+  async listBanks(): Promise<PaystackBank[]> {
+    return MOCK_BANKS;
+  }
+
+  async resolveAccount({ accountNumber, bankCode }: { accountNumber: string; bankCode: string }): Promise<ResolvedBankAccount> {
+    // Any 10-digit NUBAN at a known bank resolves; "0000000000" lets you try the failure path
+    if (!/^\d{10}$/.test(accountNumber) || accountNumber === "0000000000" || !MOCK_BANKS.some((bank) => bank.code === bankCode)) {
+      throw new PaystackApiError("Could not resolve account name. Check parameters or try again.", 422);
+    }
+    return { accountNumber, accountName: `MOCK ACCOUNT ${accountNumber.slice(-4)}` };
+  }
+
+  async createSubaccount(params: CreateSubaccountParams): Promise<PaystackSubaccount> {
+    console.log("[Paystack Mock] createSubaccount", { businessName: params.businessName, bankCode: params.bankCode });
+    return {
+      subaccountCode: `ACCT_mock${Math.random().toString(36).slice(2, 10)}`,
+      businessName: params.businessName,
+      bankName: MOCK_BANKS.find((bank) => bank.code === params.bankCode)?.name || null,
+      accountNumber: params.accountNumber,
+      percentageCharge: params.percentageCharge,
+    };
+  }
+
+  async initializeTransaction(params: InitializeTransactionParams): Promise<InitializedTransaction> {
+    const reference = `mock_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    mockTransactions.set(reference, params);
+    console.log("[Paystack Mock] initializeTransaction", {
+      reference,
+      amount: params.amount,
+      subaccount: params.subaccount,
+      transactionCharge: params.transactionCharge,
+    });
+
+    // Skip the checkout page and go straight to the callback, as if the client paid
+    const authorizationUrl = new URL(params.callbackUrl);
+    authorizationUrl.searchParams.set("reference", reference);
+    authorizationUrl.searchParams.set("trxref", reference);
+    return { authorizationUrl: authorizationUrl.toString(), reference };
+  }
+
+  async verifyTransaction(reference: string): Promise<PaystackTransaction> {
+    const transaction = mockTransactions.get(reference);
+    if (!transaction) {
+      throw new PaystackApiError("Transaction reference not found", 404);
+    }
+
+    return {
+      id: `mock-transaction-${reference}`,
+      reference,
+      status: "success",
+      amount: transaction.amount,
+      currency: transaction.currency,
+      fees: 0,
+      gatewayResponse: "Approved",
+      channel: "card",
+      paidAt: new Date().toISOString(),
+    };
+  }
+
+  async createRefund({ reference, amount }: CreateRefundParams): Promise<PaystackRefund> {
+    console.log("[Paystack Mock] createRefund", { reference, amount });
+    const transaction = mockTransactions.get(reference);
+    return {
+      id: `mock-refund-${Date.now()}`,
+      status: "processed",
+      amount: amount ?? transaction?.amount ?? 0,
+      currency: transaction?.currency ?? "NGN",
+      transactionReference: reference,
+    };
+  }
+}
+
+let client: PaystackClient | null = null;
+
+/**
+ * Get the Paystack client for the current environment
+ */
+export function getPaystackClient(): PaystackClient {
+  if (client) return client;
+
+  if (process.env.PAYSTACK_MOCK === "true" && process.env.NODE_ENV === "production") {
+    throw new Error("PAYSTACK_MOCK must not be set in production");
+  }
+
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+  const useMock =
+    process.env.PAYSTACK_MOCK === "true" ||
+    (!secretKey && process.env.NODE_ENV !== "production");
+
+  if (useMock) {
+    client = new MockPaystackClient();
+  } else if (secretKey) {
+    client = new HttpPaystackClient(secretKey);
+  } else {
+    throw new Error("PAYSTACK_SECRET_KEY not configured");
+  }
+
+  return client;
+}
+
+/**
+ * Replace the Paystack client (e.g. with a stub in local scripts); pass null to go back to the default
+ */
+export function setPaystackClient(override: PaystackClient | null): void {
+  client = override;
+}
@@ -0,0 +1,51 @@
+/**
+ * Credential document uploads from the browser
+ * Files are uploaded straight to the practitioner-credentials bucket through signed upload URLs,
+ * and only their storage paths are sent to the enrollment and verification APIs.
+ */
+
+import { createBrowserClient } from "@/lib/supabase/client";
+import type { CredentialUploadTarget, UploadedCredentialDocument } from "./verification";
+
+// CREDENTIALS_BUCKET in ./verification, which can only be imported for its types here
+const CREDENTIALS_BUCKET = "practitioner-credentials";
+
+/**
+ * Upload the files and return what to send as the credential documents. Pass the access token
+ * when the session isn't in the cookies yet (right after signing in to enroll).
+ */
+export async function uploadCredentialDocuments(
+  files: File[],
+  { accessToken }: { accessToken?: string } = {}
+): Promise<UploadedCredentialDocument[]> {
+  const response = await fetch("/api/practitioners/verification/uploads", {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify({
+      files: files.map((file) => ({ name: file.name, contentType: file.type, size: file.size })),
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to upload your documents");
+  }
+
+  const uploads: CredentialUploadTarget[] = data.uploads;
+  const supabase = createBrowserClient();
+
+  return Promise.all(
+    uploads.map(async (upload, index) => {
+      const { error } = await supabase.storage
+        .from(CREDENTIALS_BUCKET)
+        .uploadToSignedUrl(upload.path, upload.token, files[index], { contentType: files[index].type });
+      if (error) {
+        throw new Error(`Failed to upload ${upload.name}: ${error.message}`);
+      }
+      return { name: upload.name, path: upload.path };
+    })
+  );
+}
@@ -0,0 +1,682 @@
+/**
+ * Practitioner verification
+ * Dietitians and therapists enroll with credential documents and stay PENDING_VERIFICATION
+ * (hidden from listings, kept out of their dashboard by middleware) until an admin reviews them.
+ * Admins approve (ACTIVE), reject (SUSPENDED) or ask for more documents; approved practitioners
+ * can later be suspended and reinstated. Each step is recorded with the admin's notes and emailed
+ * to the practitioner.
+ */
+
+import { randomBytes } from "crypto";
+import { createAdminClientServer } from "@/lib/supabase/server";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "@/lib/error-handling";
+import { emailQueue } from "@/lib/email/queue";
+import { ADMIN_EMAIL } from "@/lib/auth/config";
+
+// Private bucket; documents are only shown to admins through short-lived signed URLs
+export const CREDENTIALS_BUCKET = "practitioner-credentials";
+
+export const MAX_CREDENTIAL_DOCUMENTS = 5;
+export const MAX_CREDENTIAL_DOCUMENT_BYTES = 5 * 1024 * 1024;
+export const CREDENTIAL_CONTENT_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+// How long the document links on the admin review page work
+const DOCUMENT_URL_SECONDS = 60 * 60;
+
+export type VerificationStatus = "PENDING" | "MORE_INFO_REQUESTED" | "APPROVED" | "REJECTED";
+
+export type VerificationAction = "approve" | "reject" | "request_info" | "suspend" | "reinstate";
+
+export type VerificationEventType =
+  | "SUBMITTED"
+  | "DOCUMENTS_ADDED"
+  | "APPROVED"
+  | "REJECTED"
+  | "MORE_INFO_REQUESTED"
+  | "SUSPENDED"
+  | "REINSTATED";
+
+// A document the practitioner is about to upload, as described by the browser
+export interface CredentialUploadRequest {
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+// Where the browser uploads a document. Files go straight to storage: request bodies to our API
+// are capped at 6MB, less than a full set of documents.
+export interface CredentialUploadTarget {
+  name: string;
+  path: string;
+  token: string;
+}
+
+// A document as sent with an enrollment or a request for more information, once it's uploaded
+export interface UploadedCredentialDocument {
+  name: string;
+  path: string;
+}
+
+export interface CredentialDocument {
+  id: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedAt: string;
+  // Signed link, for admins only
+  url?: string | null;
+}
+
+export interface VerificationEvent {
+  id: string;
+  type: VerificationEventType;
+  notes: string | null;
+  actorName: string | null;
+  createdAt: string;
+}
+
+export interface PractitionerVerification {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: "DIETITIAN" | "THERAPIST";
+  accountStatus: string;
+  // Null for practitioners who joined before verification existed
+  status: VerificationStatus | null;
+  licenseNumber: string | null;
+  specialization: string | null;
+  experience: string | null;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  // The last notes an admin sent the practitioner
+  reviewNotes: string | null;
+  documents: CredentialDocument[];
+  events: VerificationEvent[];
+}
+
+export interface ParsedCredentialDocument {
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  storagePath: string;
+}
+
+interface PractitionerRow {
+  id: string;
+  name: string | null;
+  email: string;
+  role: "DIETITIAN" | "THERAPIST";
+  account_status: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface VerificationRow {
+  user_id: string;
+  status: VerificationStatus;
+  license_number: string | null;
+  submitted_at: string;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+interface DocumentRow {
+  id: string;
+  user_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_at: string;
+}
+
+interface EventRow {
+  id: string;
+  user_id: string;
+  type: VerificationEventType;
+  notes: string | null;
+  created_at: string;
+  actor?: { name: string | null } | { name: string | null }[] | null;
+}
+
+const PRACTITIONER_ROLES = ["DIETITIAN", "THERAPIST"];
+
+const getDashboardPath = (role: string) => (role === "THERAPIST" ? "/therapist-dashboard" : "/dashboard");
+
+const MAX_CREDENTIAL_DOCUMENT_MB = MAX_CREDENTIAL_DOCUMENT_BYTES / (1024 * 1024);
+
+function checkDocumentCount(value: unknown): asserts value is unknown[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ValidationError("Upload at least one credential document");
+  }
+  if (value.length > MAX_CREDENTIAL_DOCUMENTS) {
+    throw new ValidationError(`Upload at most ${MAX_CREDENTIAL_DOCUMENTS} documents at a time`);
+  }
+}
+
+/**
+ * Signed URLs to upload credential documents to, under the signed-in person's folder. Enrolling
+ * practitioners have no user record yet, so the folder is named after their auth user.
+ */
+export async function createCredentialUploadUrls(authUserId: string, value: unknown): Promise<CredentialUploadTarget[]> {
+  checkDocumentCount(value);
+  const supabaseAdmin = createAdminClientServer();
+
+  const targets: CredentialUploadTarget[] = [];
+  for (const file of value as Partial<CredentialUploadRequest>[]) {
+    const name = (typeof file?.name === "string" && file.name.trim()) || "document";
+    if (typeof file?.contentType !== "string" || !CREDENTIAL_CONTENT_TYPES.includes(file.contentType)) {
+      throw new ValidationError(`${name} must be a PDF, JPEG or PNG`);
+    }
+    if (typeof file.size !== "number" || file.size > MAX_CREDENTIAL_DOCUMENT_BYTES) {
+      throw new ValidationError(`${name} is larger than ${MAX_CREDENTIAL_DOCUMENT_MB}MB`);
+    }
+
+    const safeName = name.replace(/[^\w.-]+/g, "_").slice(-80);
+    const storagePath = `${authUserId}/${Date.now()}-${randomBytes(4).toString("hex")}-${safeName}`;
+    const { data, error } = await supabaseAdmin.storage.from(CREDENTIALS_BUCKET).createSignedUploadUrl(storagePath);
+    if (error || !data) {
+      throw new AppError(`Failed to prepare the upload of ${name}: ${error?.message}`, "VERIFICATION_UPLOAD_FAILED", 500);
+    }
+    targets.push({ name, path: data.path, token: data.token });
+  }
+  return targets;
+}
+
+/**
+ * Check the documents sent with an enrollment or a request for more information: each must have
+ * been uploaded to the signed-in person's folder, and be an allowed type and size
+ */
+export async function getUploadedCredentialDocuments(
+  authUserId: string,
+  value: unknown
+): Promise<ParsedCredentialDocument[]> {
+  checkDocumentCount(value);
+  const supabaseAdmin = createAdminClientServer();
+
+  const documents: ParsedCredentialDocument[] = [];
+  for (const document of value as Partial<UploadedCredentialDocument>[]) {
+    const fileName = (typeof document?.name === "string" && document.name.trim()) || "document";
+    const storagePath = document?.path;
+    if (typeof storagePath !== "string" || !storagePath.startsWith(`${authUserId}/`) || storagePath.includes("..")) {
+      throw new ValidationError("Credential documents must be uploaded as files");
+    }
+
+    const { data: file, error } = await supabaseAdmin.storage.from(CREDENTIALS_BUCKET).info(storagePath);
+    if (error || !file) {
+      throw new ValidationError(`${fileName} wasn't uploaded. Please try again.`);
+    }
+
+    const contentType = file.contentType || file.metadata?.mimetype;
+    const sizeBytes = file.size ?? file.metadata?.size;
+    if (!CREDENTIAL_CONTENT_TYPES.includes(contentType)) {
+      throw new ValidationError(`${fileName} must be a PDF, JPEG or PNG`);
+    }
+    if (typeof sizeBytes !== "number" || sizeBytes > MAX_CREDENTIAL_DOCUMENT_BYTES) {
+      throw new ValidationError(`${fileName} is larger than ${MAX_CREDENTIAL_DOCUMENT_MB}MB`);
+    }
+
+    documents.push({ fileName, contentType, sizeBytes, storagePath });
+  }
+  return documents;
+}
+
+async function getPractitioner(userId: string): Promise<PractitionerRow> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select("id, name, email, role, account_status, metadata")
+    .eq("id", userId)
+    .in("role", PRACTITIONER_ROLES)
+    .maybeSingle<PractitionerRow>();
+
+  if (error) {
+    throw new AppError(`Failed to load practitioner: ${error.message}`, "VERIFICATION_FETCH_FAILED", 500);
+  }
+  if (!data) {
+    throw new NotFoundError("Practitioner not found");
+  }
+  return data;
+}
+
+async function saveDocuments(userId: string, documents: ParsedCredentialDocument[]): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+
+  for (const document of documents) {
+    const { error } = await supabaseAdmin.from("practitioner_verification_documents").insert({
+      user_id: userId,
+      storage_path: document.storagePath,
+      file_name: document.fileName,
+      content_type: document.contentType,
+      size_bytes: document.sizeBytes,
+    });
+    if (error) {
+      throw new AppError(`Failed to save ${document.fileName}: ${error.message}`, "VERIFICATION_UPLOAD_FAILED", 500);
+    }
+  }
+}
+
+async function recordEvent(
+  userId: string,
+  type: VerificationEventType,
+  { notes, actorId }: { notes?: string | null; actorId?: string | null } = {}
+): Promise<void> {
+  const supabaseAdmin = createAdminClientServer();
+  const { error } = await supabaseAdmin.from("practitioner_verification_events").insert({
+    user_id: userId,
+    type,
+    notes: notes || null,
+    actor_id: actorId || null,
+  });
+
+  if (error) {
+    console.error("[Verification] Failed to record event:", { userId, type, error: error.message });
+  }
+}
+
+/**
+ * Email the practitioner (or admins); failures are logged so they never undo a review
+ */
+async function notify(to: string, subject: string, data: { userName?: string | null; heading: string; message: string; notes?: string | null; actionLink?: string; actionLabel?: string }) {
+  try {
+    await emailQueue.enqueue({
+      to,
+      subject,
+      template: "practitioner_verification",
+      data: {
+        ...data,
+        userName: data.userName || "there",
+        // The background worker sends `message` as is
+        message: [data.message, data.notes ? `Notes: ${data.notes}` : "", data.actionLink || ""].filter(Boolean).join("\n\n"),
+        body: data.message,
+      },
+    });
+  } catch (error) {
+    console.error("[Verification] Failed to send email:", { to, subject, error });
+  }
+}
+
+/**
+ * Start a practitioner's review when they enroll. Their account must already be PENDING_VERIFICATION.
+ */
+export async function submitVerification(
+  userId: string,
+  { licenseNumber, documents }: { licenseNumber: string; documents: ParsedCredentialDocument[] }
+): Promise<void> {
+  const practitioner = await getPractitioner(userId);
+  const supabaseAdmin = createAdminClientServer();
+
+  await saveDocuments(userId, documents);
+
+  const { error } = await supabaseAdmin.from("practitioner_verifications").upsert(
+    {
+      user_id: userId,
+      status: "PENDING",
+      license_number: licenseNumber.trim(),
+      submitted_at: new Date().toISOString(),
+      reviewed_at: null,
+      reviewed_by: null,
+      review_notes: null,
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) {
+    throw new AppError(`Failed to submit verification: ${error.message}`, "VERIFICATION_SUBMIT_FAILED", 500);
+  }
+
+  await recordEvent(userId, "SUBMITTED");
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  await notify(practitioner.email, "We're reviewing your credentials", {
+    userName: practitioner.name,
+    heading: "Thanks for enrolling",
+    message:
+      "We've received your credentials and will review them shortly. You'll be able to use your dashboard and take bookings once your account is approved.",
+    actionLink: `${siteUrl}/verification-pending`,
+    actionLabel: "Check your status",
+  });
+  await notify(ADMIN_EMAIL, `New ${practitioner.role.toLowerCase()} to verify: ${practitioner.name || practitioner.email}`, {
+    userName: "Admin",
+    heading: "New practitioner to verify",
+    message: `${practitioner.name || practitioner.email} enrolled as a ${practitioner.role.toLowerCase()} with license number ${licenseNumber.trim()}.`,
+    actionLink: `${siteUrl}/admin/dietitians`,
+    actionLabel: "Review credentials",
+  });
+}
+
+/**
+ * Send more documents after an admin asked for them; the review goes back into the queue
+ */
+export async function addVerificationDocuments(
+  userId: string,
+  { documents, notes }: { documents: ParsedCredentialDocument[]; notes?: string | null }
+): Promise<void> {
+  const practitioner = await getPractitioner(userId);
+  const supabaseAdmin = createAdminClientServer();
+
+  const { data: verification } = await supabaseAdmin
+    .from("practitioner_verifications")
+    .select("status")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  // Enrolled, but the documents never made it: this is their first submission
+  if (!verification && practitioner.account_status === "PENDING_VERIFICATION") {
+    const licenseNumber = practitioner.metadata?.licenseNumber;
+    await submitVerification(userId, { licenseNumber: typeof licenseNumber === "string" ? licenseNumber : "", documents });
+    return;
+  }
+  if (!verification || !["PENDING", "MORE_INFO_REQUESTED"].includes(verification.status)) {
+    throw new ConflictError("Your credentials aren't waiting for review");
+  }
+
+  await saveDocuments(userId, documents);
+
+  const { error } = await supabaseAdmin
+    .from("practitioner_verifications")
+    .update({ status: "PENDING", submitted_at: new Date().toISOString() })
+    .eq("user_id", userId);
+  if (error) {
+    throw new AppError(`Failed to update verification: ${error.message}`, "VERIFICATION_SUBMIT_FAILED", 500);
+  }
+
+  await recordEvent(userId, "DOCUMENTS_ADDED", { notes: notes?.trim() || null, actorId: userId });
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  await notify(ADMIN_EMAIL, `More documents from ${practitioner.name || practitioner.email}`, {
+    userName: "Admin",
+    heading: "Practitioner sent more documents",
+    message: `${practitioner.name || practitioner.email} uploaded ${documents.length} more document${documents.length === 1 ? "" : "s"}.`,
+    notes: notes?.trim() || null,
+    actionLink: `${siteUrl}/admin/dietitians`,
+    actionLabel: "Review credentials",
+  });
+}
+
+/**
+ * An admin's decision on a practitioner. Rejecting, asking for more information and suspending
+ * need notes, which are sent to the practitioner.
+ */
+export async function reviewPractitioner(
+  userId: string,
+  action: VerificationAction,
+  { notes, adminId }: { notes?: string | null; adminId: string }
+): Promise<PractitionerVerification> {
+  const practitioner = await getPractitioner(userId);
+  const supabaseAdmin = createAdminClientServer();
+  const trimmedNotes = notes?.trim() || null;
+
+  if (["reject", "request_info", "suspend"].includes(action) && !trimmedNotes) {
+    throw new ValidationError("Add a note for the practitioner");
+  }
+
+  const { data: verification } = await supabaseAdmin
+    .from("practitioner_verifications")
+    .select("status")
+    .eq("user_id", userId)
+    .maybeSingle<{ status: VerificationStatus }>();
+  const accountStatus = practitioner.account_status || "ACTIVE";
+  const inReview = verification?.status === "PENDING" || verification?.status === "MORE_INFO_REQUESTED";
+
+  let nextStatus: VerificationStatus | null = null;
+  let nextAccountStatus: string;
+  let eventType: VerificationEventType;
+  let email: { subject: string; heading: string; message: string };
+
+  switch (action) {
+    case "approve":
+      if (!inReview && verification?.status !== "REJECTED") {
+        throw new ConflictError("This practitioner isn't waiting for review");
+      }
+      nextStatus = "APPROVED";
+      nextAccountStatus = "ACTIVE";
+      eventType = "APPROVED";
+      email = {
+        subject: "Your Daiyet account is approved",
+        heading: "You're approved",
+        message: "Your credentials have been verified. Your profile is now visible to clients and you can start taking bookings.",
+      };
+      break;
+    case "reject":
+      if (!inReview) {
+        throw new ConflictError("This practitioner isn't waiting for review");
+      }
+      nextStatus = "REJECTED";
+      nextAccountStatus = "SUSPENDED";
+      eventType = "REJECTED";
+      email = {
+        subject: "Update on your Daiyet application",
+        heading: "We couldn't verify your credentials",
+        message: "We weren't able to approve your account.",
+      };
+      break;
+    case "request_info":
+      if (!inReview) {
+        throw new ConflictError("This practitioner isn't waiting for review");
+      }
+      nextStatus = "MORE_INFO_REQUESTED";
+      nextAccountStatus = "PENDING_VERIFICATION";
+      eventType = "MORE_INFO_REQUESTED";
+      email = {
+        subject: "We need a little more information",
+        heading: "More information needed",
+        message: "We need more from you before we can approve your account. Please upload the documents requested below.",
+      };
+      break;
+    case "suspend":
+      if (accountStatus !== "ACTIVE") {
+        throw new ConflictError("Only active practitioners can be suspended");
+      }
+      nextAccountStatus = "SUSPENDED";
+      eventType = "SUSPENDED";
+      email = {
+        subject: "Your Daiyet account has been suspended",
+        heading: "Account suspended",
+        message: "Your account has been suspended and your profile is hidden from clients.",
+      };
+      break;
+    case "reinstate":
+      // Rejected practitioners are approved instead, after another look at their documents
+      if (accountStatus !== "SUSPENDED" || (verification && verification.status !== "APPROVED")) {
+        throw new ConflictError("Only suspended practitioners who were approved can be reinstated");
+      }
+      nextAccountStatus = "ACTIVE";
+      eventType = "REINSTATED";
+      email = {
+        subject: "Your Daiyet account has been reinstated",
+        heading: "Welcome back",
+        message: "Your account is active again and your profile is visible to clients.",
+      };
+      break;
+    default:
+      throw new ValidationError(`Unknown action: ${action}`);
+  }
+
+  if (nextStatus) {
+    const { error } = await supabaseAdmin
+      .from("practitioner_verifications")
+      .update({
+        status: nextStatus,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: adminId,
+        review_notes: trimmedNotes,
+      })
+      .eq("user_id", userId);
+    if (error) {
+      throw new AppError(`Failed to update verification: ${error.message}`, "VERIFICATION_UPDATE_FAILED", 500);
+    }
+  }
+
+  if (nextAccountStatus !== accountStatus) {
+    const { error } = await supabaseAdmin
+      .from("users")
+      .update({ account_status: nextAccountStatus, updated_at: new Date().toISOString() })
+      .eq("id", userId);
+    if (error) {
+      throw new AppError(`Failed to update account status: ${error.message}`, "VERIFICATION_UPDATE_FAILED", 500);
+    }
+  }
+
+  await recordEvent(userId, eventType, { notes: trimmedNotes, actorId: adminId });
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  await notify(practitioner.email, email.subject, {
+    userName: practitioner.name,
+    heading: email.heading,
+    message: email.message,
+    notes: trimmedNotes,
+    actionLink:
+      nextAccountStatus === "ACTIVE"
+        ? `${siteUrl}${getDashboardPath(practitioner.role)}`
+        : action === "request_info"
+          ? `${siteUrl}/verification-pending`
+          : undefined,
+    actionLabel: nextAccountStatus === "ACTIVE" ? "Go to your dashboard" : "Upload documents",
+  });
+
+  const [updated] = await listPractitionerVerifications({ userId });
+  return updated;
+}
+
+/**
+ * Practitioners with their verification, documents and review history, newest submissions first.
+ * Admins get signed links to the documents.
+ */
+export async function listPractitionerVerifications({
+  status,
+  userId,
+  withDocumentUrls = true,
+}: { status?: VerificationStatus | "SUSPENDED" | null; userId?: string; withDocumentUrls?: boolean } = {}): Promise<
+  PractitionerVerification[]
+> {
+  const supabaseAdmin = createAdminClientServer();
+
+  let query = supabaseAdmin
+    .from("users")
+    .select("id, name, email, role, account_status, metadata")
+    .in("role", PRACTITIONER_ROLES);
+  if (userId) {
+    query = query.eq("id", userId);
+  }
+  if (status === "SUSPENDED") {
+    query = query.eq("account_status", "SUSPENDED");
+  }
+
+  const { data: practitioners, error } = await query.order("created_at", { ascending: false });
+  if (error) {
+    throw new AppError(`Failed to load practitioners: ${error.message}`, "VERIFICATION_FETCH_FAILED", 500);
+  }
+
+  const rows = (practitioners || []) as PractitionerRow[];
+  const ids = rows.map((row) => row.id);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const [verificationsResult, documentsResult, eventsResult] = await Promise.all([
+    supabaseAdmin.from("practitioner_verifications").select("*").in("user_id", ids),
+    supabaseAdmin
+      .from("practitioner_verification_documents")
+      .select("*")
+      .in("user_id", ids)
+      .order("uploaded_at", { ascending: true }),
+    supabaseAdmin
+      .from("practitioner_verification_events")
+      .select("id, user_id, type, notes, created_at, actor:users!practitioner_verification_events_actor_id_fkey(name)")
+      .in("user_id", ids)
+      .order("created_at", { ascending: false }),
+  ]);
+
+  const fetchError = verificationsResult.error || documentsResult.error || eventsResult.error;
+  if (fetchError) {
+    throw new AppError(`Failed to load verifications: ${fetchError.message}`, "VERIFICATION_FETCH_FAILED", 500);
+  }
+
+  const verifications = new Map(
+    ((verificationsResult.data || []) as VerificationRow[]).map((row) => [row.user_id, row])
+  );
+  const documentRows = (documentsResult.data || []) as DocumentRow[];
+  const eventRows = (eventsResult.data || []) as EventRow[];
+
+  const urls = new Map<string, string>();
+  if (withDocumentUrls && documentRows.length > 0) {
+    const { data: signed } = await supabaseAdmin.storage
+      .from(CREDENTIALS_BUCKET)
+      .createSignedUrls(documentRows.map((row) => row.storage_path), DOCUMENT_URL_SECONDS);
+    for (const entry of signed || []) {
+      if (entry.path && entry.signedUrl) {
+        urls.set(entry.path, entry.signedUrl);
+      }
+    }
+  }
+
+  const result = rows.map((row): PractitionerVerification => {
+    const verification = verifications.get(row.id);
+    const metadata = row.metadata || {};
+    return {
+      userId: row.id,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      accountStatus: row.account_status || "ACTIVE",
+      status: verification?.status || null,
+      licenseNumber: verification?.license_number || (typeof metadata.licenseNumber === "string" ? metadata.licenseNumber : null),
+      specialization: typeof metadata.specialization === "string" ? metadata.specialization : null,
+      experience: typeof metadata.experience === "string" ? metadata.experience : null,
+      submittedAt: verification?.submitted_at || null,
+      reviewedAt: verification?.reviewed_at || null,
+      reviewNotes: verification?.review_notes || null,
+      documents: documentRows
+        .filter((document) => document.user_id === row.id)
+        .map((document) => ({
+          id: document.id,
+          fileName: document.file_name,
+          contentType: document.content_type,
+          sizeBytes: document.size_bytes,
+          uploadedAt: document.uploaded_at,
+          url: withDocumentUrls ? urls.get(document.storage_path) || null : undefined,
+        })),
+      events: eventRows
+        .filter((event) => event.user_id === row.id)
+        .map((event) => {
+          const actor = Array.isArray(event.actor) ? event.actor[0] : event.actor;
+          return {
+            id: event.id,
+            type: event.type,
+            notes: event.notes,
+            actorName: actor?.name || null,
+            createdAt: event.created_at,
+          };
+        }),
+    };
+  });
+
+  if (!status || status === "SUSPENDED") {
+    return result;
+  }
+  return result
+    .filter((practitioner) => practitioner.status === status)
+    .sort((a, b) => new Date(b.submittedAt || 0).getTime() - new Date(a.submittedAt || 0).getTime());
+}
+
+/**
+ * A practitioner's own view of their review: no document links, and no names of who reviewed it
+ */
+export async function getOwnVerification(userId: string): Promise<PractitionerVerification> {
+  const [verification] = await listPractitionerVerifications({ userId, withDocumentUrls: false });
+  if (!verification) {
+    throw new NotFoundError("Practitioner not found");
+  }
+  return {
+    ...verification,
+    events: verification.events.map((event) => ({ ...event, actorName: null })),
+  };
+}
+
+/**
+ * Whether clients can book a practitioner: only once their account is approved and not suspended
+ */
+export async function isPractitionerActive(userId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClientServer();
+  const { data } = await supabaseAdmin.from("users").select("account_status").eq("id", userId).maybeSingle();
+  return !!data && (!data.account_status || data.account_status === "ACTIVE");
+}
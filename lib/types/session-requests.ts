@@ -25,6 +25,7 @@ export interface SessionRequestCreate {
   currency?: string;
   paymentData?: MealPlanPurchaseData;
   packageName?: string; // Alias for mealPlanType
+  packageId?: string; // Meal plan package; its name and price are used instead of the above
 }
 
 export interface SessionRequest {
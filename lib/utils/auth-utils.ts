@@ -40,14 +40,6 @@ export function hasRole(userRole: string | null | undefined, requiredRole: UserR
   return normalizeRole(userRole) === requiredRole;
 }
 
-/**
- * Check if user can access route based on role
- */
-export function canAccessRoute(userRole: string | null | undefined, allowedRoles: UserRole[]): boolean {
-  const normalizedRole = normalizeRole(userRole);
-  return allowedRoles.includes(normalizedRole);
-}
-
 /**
  * Validate account status
  */
@@ -69,7 +61,7 @@ export function getAccountStatusRedirect(
     case "SUSPENDED":
       return "/account-suspended";
     case "PENDING_VERIFICATION":
-      return "/verify-email";
+      return "/verification-pending";
     case "PENDING_ENROLLMENT":
       return "/dietitian-enrollment";
     case "DELETED":
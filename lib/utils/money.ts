@@ -0,0 +1,88 @@
+/**
+ * Money
+ * The currencies clients can pay in, and formatMoney, which every amount shown to users goes
+ * through so prices in other currencies read the same way as naira prices. Amounts are in major
+ * units (e.g. 15000 for ₦15,000).
+ */
+
+import { ValidationError } from "@/lib/error-handling";
+
+// The platform's own currency: the default price of everything, and what reports are given in
+export const BASE_CURRENCY = "NGN";
+
+// Currencies clients can pay in at checkout
+export const SUPPORTED_CURRENCIES = ["NGN", "USD", "GBP"] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Prices in currencies other than the item's own, e.g. { USD: 25, GBP: 20 }
+export type CurrencyPrices = Partial<Record<CurrencyCode, number>>;
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && (SUPPORTED_CURRENCIES as readonly string[]).includes(value.toUpperCase());
+}
+
+/**
+ * Check the other-currency prices an admin or practitioner entered, dropping empty ones
+ */
+export function parseCurrencyPrices(value: unknown, baseCurrency: string = BASE_CURRENCY): CurrencyPrices {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ValidationError("Prices must map currencies to amounts");
+  }
+
+  const prices: CurrencyPrices = {};
+  for (const [key, rawAmount] of Object.entries(value as Record<string, unknown>)) {
+    const currency = key.toUpperCase();
+    if (!isSupportedCurrency(currency)) {
+      throw new ValidationError(`${key} isn't a supported currency`);
+    }
+    if (currency === baseCurrency.toUpperCase() || rawAmount === null || rawAmount === "") {
+      continue;
+    }
+    const amount = Number(rawAmount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new ValidationError(`The ${currency} price must be above 0`);
+    }
+    prices[currency] = Math.round(amount * 100) / 100;
+  }
+  return prices;
+}
+
+/**
+ * The currency's symbol, e.g. "₦" for NGN
+ */
+export function getCurrencySymbol(currency: string): string {
+  return formatMoney(0, currency).replace(/[\d.,\s]/g, "") || currency.toUpperCase();
+}
+
+interface FormatMoneyOptions {
+  // Fixed number of decimals; by default whole amounts have none and others have two
+  decimals?: number;
+}
+
+/**
+ * An amount with its currency symbol, e.g. "₦15,000", "$25.50" or "£20"
+ */
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY, { decimals }: FormatMoneyOptions = {}): string {
+  const value = Number(amount) || 0;
+  const fractionDigits = decimals ?? (Number.isInteger(value) ? 0 : 2);
+
+  try {
+    return new Intl.NumberFormat("en-NG", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+      currencyDisplay: "narrowSymbol",
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value);
+  } catch {
+    // Not a currency Intl knows
+    return `${currency.toUpperCase()} ${value.toLocaleString("en-NG", {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    })}`;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Page-based pagination and search for list APIs: ?page=1&pageSize=25&search=...
+ */
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  // Row range for Supabase's .range(from, to), both inclusive
+  from: number;
+  to: number;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  const page = Math.max(1, Math.floor(Number(searchParams.get("page")) || 1));
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Math.floor(Number(searchParams.get("pageSize")) || DEFAULT_PAGE_SIZE))
+  );
+  const from = (page - 1) * pageSize;
+  return { page, pageSize, from, to: from + pageSize - 1 };
+}
+
+export function toPaginated<T>(items: T[], total: number | null, { page, pageSize }: Pagination): Paginated<T> {
+  const count = total ?? items.length;
+  return { items, total: count, page, pageSize, totalPages: Math.max(1, Math.ceil(count / pageSize)) };
+}
+
+/**
+ * An ilike pattern for a search box, or null when it's empty. Characters that PostgREST
+ * reads as filter syntax inside .or() are dropped.
+ */
+export function getSearchPattern(search: string | null | undefined): string | null {
+  const term = (search || "").replace(/[%*,()\\]/g, " ").trim();
+  return term ? `%${term}%` : null;
+}
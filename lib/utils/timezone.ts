@@ -14,7 +14,27 @@ dayjs.extend(timezone);
 dayjs.extend(isSameOrAfter);
 dayjs.extend(isSameOrBefore);
 
-const DEFAULT_TIMEZONE = "Africa/Lagos";
+export const DEFAULT_TIMEZONE = "Africa/Lagos";
+
+/**
+ * Timezones offered in the booking pages' picker. The booker's detected
+ * timezone is added when it isn't one of these.
+ */
+export const COMMON_TIMEZONES: Array<{ value: string; label: string }> = [
+  { value: "Africa/Lagos", label: "Lagos, Abuja" },
+  { value: "Africa/Accra", label: "Accra" },
+  { value: "Africa/Nairobi", label: "Nairobi" },
+  { value: "Africa/Johannesburg", label: "Johannesburg" },
+  { value: "Europe/London", label: "London" },
+  { value: "Europe/Dublin", label: "Dublin" },
+  { value: "Europe/Berlin", label: "Berlin, Paris, Amsterdam" },
+  { value: "America/New_York", label: "New York, Toronto" },
+  { value: "America/Chicago", label: "Houston, Chicago" },
+  { value: "America/Denver", label: "Denver" },
+  { value: "America/Los_Angeles", label: "Los Angeles" },
+  { value: "Asia/Dubai", label: "Dubai" },
+  { value: "Australia/Sydney", label: "Sydney" },
+];
 
 export class TimezoneHelper {
   /**
@@ -91,6 +111,45 @@ export class TimezoneHelper {
     }
   }
 
+  /**
+   * Return tz if it is a valid IANA timezone, otherwise the default
+   */
+  static resolve(tz?: string | null): string {
+    return tz && this.validateTimezone(tz) ? tz : DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Detect the browser's timezone (falls back to the default on the server or old browsers)
+   */
+  static detect(): string {
+    try {
+      return this.resolve(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    } catch {
+      return DEFAULT_TIMEZONE;
+    }
+  }
+
+  /**
+   * Short timezone name at a given moment, e.g. "GMT+1", "BST" or "CST"
+   */
+  static getAbbreviation(tz: string = DEFAULT_TIMEZONE, date: string | Date = new Date()): string {
+    const parts = new Intl.DateTimeFormat("en-US", { timeZone: tz, timeZoneName: "short" }).formatToParts(new Date(date));
+    return parts.find((part) => part.type === "timeZoneName")?.value || tz;
+  }
+
+  /**
+   * Format an ISO datetime as the date and time a recipient sees in emails,
+   * e.g. { date: "March 4, 2026", time: "3:00 PM (GMT)" }
+   */
+  static formatForDisplay(isoDate: string, tz: string = DEFAULT_TIMEZONE): { date: string; time: string } {
+    const zone = this.resolve(tz);
+    const local = dayjs(isoDate).tz(zone);
+    return {
+      date: local.format("MMMM D, YYYY"),
+      time: `${local.format("h:mm A")} (${this.getAbbreviation(zone, isoDate)})`,
+    };
+  }
+
   /**
    * Get current time in the specified timezone
    */
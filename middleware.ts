@@ -1,8 +1,8 @@
 import { NextResponse, NextRequest } from "next/server";
 import { createClient } from "@/lib/supabase/middleware/client";
 import { createAdminClient } from "@/lib/supabase/server/admin";
-import { authConfig, ADMIN_EMAIL } from "@/lib/auth/config";
-import { normalizeRole, canAccessRoute, getAccountStatusRedirect } from "@/lib/utils/auth-utils";
+import { authConfig, isAdminAccount } from "@/lib/auth/config";
+import { normalizeRole, getAccountStatusRedirect } from "@/lib/utils/auth-utils";
 
 // Define public routes (no authentication required)
 const PUBLIC_ROUTES = [
@@ -20,16 +20,11 @@ const PUBLIC_ROUTES = [
   "/login",
   "/signup",
   "/admin-login",
-  // Admin utility routes (for setup/debugging - consider protecting these)
+  "/ref",
+  // Admin utility pages (for setup/debugging). Their API routes require admin:debug:run
   "/admin/quick-fix",
   "/admin/create-users",
   "/admin/fix-dietitian",
-  "/api/health",
-  "/api/admin/check-user",
-  "/api/admin/fix-dietitian",
-  "/api/admin/create-users",
-  "/api/admin/generate-meeting-links",
-  "/api/auth/health",
   "/privacy-policy",
   "/terms-of-service",
 ];
@@ -42,15 +37,20 @@ const ROLE_ROUTES = {
   USER: ["/user-dashboard", "/profile", "/settings"],
 } as const;
 
+// "/" is the home page only; every other public route covers the paths under it
+function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some((route) => (route === "/" ? pathname === "/" : pathname.startsWith(route)));
+}
+
+// Pages behind sign-in: the areas some role is allowed into. Other pages (practitioner profiles,
+// booking flows, account status pages) are open to everyone.
+function isProtectedRoute(pathname: string): boolean {
+  return Object.values(ROLE_ROUTES).some((routes) => routes.some((route) => pathname.startsWith(route)));
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // DEVELOPMENT MODE: Bypass all auth checks in localhost
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[DEV MODE] Bypassing auth in middleware for:', pathname);
-    return NextResponse.next();
-  }
-
   // CRITICAL: Allow RSC (React Server Component) requests to pass through
   // RSC requests are made by Next.js during client-side navigation to fetch server component data
   // They have special headers and should not be blocked by authentication middleware
@@ -113,43 +113,58 @@ export async function middleware(request: NextRequest) {
     // If auth check fails, continue to normal flow
     console.warn("MiddlewareAuthCheckError", authCheckError);
   }
-  
+
+  // Practitioners can't use their dashboard until an admin approves their credentials, or while suspended.
+  const practitionerRole = pathname.startsWith("/therapist-dashboard")
+    ? "THERAPIST"
+    : pathname.startsWith("/dashboard")
+      ? "DIETITIAN"
+      : null;
+  if (user && practitionerRole) {
+    try {
+      const supabaseAdmin = createAdminClient();
+      const { data: practitionerByAuthId } = await supabaseAdmin
+        .from("users")
+        .select("account_status")
+        .eq("auth_user_id", user.id)
+        .eq("role", practitionerRole)
+        .maybeSingle();
+      const practitioner =
+        practitionerByAuthId ||
+        (
+          await supabaseAdmin
+            .from("users")
+            .select("account_status")
+            .eq("id", user.id)
+            .eq("role", practitionerRole)
+            .maybeSingle()
+        ).data;
+
+      const statusRedirect = practitioner ? getAccountStatusRedirect(practitioner.account_status) : null;
+      if (statusRedirect) {
+        console.warn("MiddlewarePractitionerStatusRedirect", {
+          userId: user.id,
+          accountStatus: practitioner?.account_status,
+          redirectTo: statusRedirect,
+          timestamp: new Date().toISOString(),
+        });
+        return NextResponse.redirect(new URL(statusRedirect, request.url));
+      }
+    } catch (statusError) {
+      console.warn("MiddlewarePractitionerStatusError", statusError);
+    }
+  }
+
   // Skip for other public routes (only if not authenticated or not home page)
-  if (PUBLIC_ROUTES.some((route) => pathname.startsWith(route))) {
+  if (isPublicRoute(pathname)) {
     return NextResponse.next();
   }
 
-  // Skip for static files
-  if (
-    pathname.startsWith("/_next") ||
-    pathname.startsWith("/favicon.ico")
-  ) {
+  // API routes authorise themselves with withPermission() and friends from lib/auth/permissions,
+  // which answer 401/403 JSON instead of redirecting. Pages outside the signed-in areas need nothing.
+  if (pathname.startsWith("/api") || !isProtectedRoute(pathname)) {
     return NextResponse.next();
   }
-  
-  // Skip for public API routes only
-  if (pathname.startsWith("/api")) {
-    // Check if it's a public API route
-    const isPublicApiRoute = PUBLIC_ROUTES.some((route) => pathname.startsWith(route));
-    if (isPublicApiRoute) {
-      return NextResponse.next();
-    }
-    
-    // Allow public access to event-types and availability/timeslots when dietitianId or therapistId is provided
-    // These routes handle their own authentication logic
-    if (pathname === "/api/event-types" || pathname === "/api/availability/timeslots") {
-      const { searchParams } = new URL(request.url);
-      const dietitianId = searchParams.get("dietitianId");
-      const therapistId = searchParams.get("therapistId");
-      // If dietitianId or therapistId is provided, allow public access (for booking flow)
-      if (dietitianId || therapistId) {
-        return NextResponse.next();
-      }
-      // Otherwise, continue to auth check below (for private access)
-    }
-    
-    // Otherwise, API routes require authentication - continue to auth check below
-  }
 
   // If we already created supabase client above for home page check, reuse it
   // Otherwise create a new one
@@ -309,22 +324,19 @@ export async function middleware(request: NextRequest) {
     // Role-based access control
     const userRole = normalizeRole(dbUser.role);
     
-    // Special check for admin routes: verify email matches admin email
+    // Special check for admin routes: only the admin account, as for the admin APIs
     if (pathname.startsWith("/admin")) {
-      const userEmail = session.user.email?.toLowerCase();
-      const isAdminEmail = userEmail === ADMIN_EMAIL.toLowerCase();
-      
-      if (!isAdminEmail || userRole !== "ADMIN") {
+      if (userRole !== "ADMIN" || !isAdminAccount(session.user)) {
         console.warn("MiddlewareAdminAccessDenied", {
           userId: session.user.id,
-          userEmail,
+          userEmail: session.user.email?.toLowerCase(),
           userRole,
           requestedPath: pathname,
           timestamp: new Date().toISOString(),
         });
         
-        // Redirect to appropriate dashboard based on role
-        const redirectPath = authConfig.redirects[userRole] || "/";
+        // Redirect to appropriate dashboard based on role; other ADMIN role users have none
+        const redirectPath = userRole === "ADMIN" ? "/auth/error?type=admin_access" : authConfig.redirects[userRole] || "/";
         return NextResponse.redirect(new URL(redirectPath, request.url));
       }
     }
@@ -1,5 +1,17 @@
 import type { NextConfig } from "next";
 
+// Local impersonation (lib/auth/impersonation.ts) must never ship. It is already off whenever
+// NODE_ENV is production; refuse to build at all if someone sets the flag for a deploy.
+if (process.env.NODE_ENV === "production" && process.env.ENABLE_DEV_IMPERSONATION) {
+  throw new Error("ENABLE_DEV_IMPERSONATION must not be set for production builds");
+}
+
+// The Paystack mock (lib/paystack.ts) approves every payment; getPaystackClient() refuses it in
+// production too
+if (process.env.NODE_ENV === "production" && process.env.PAYSTACK_MOCK === "true") {
+  throw new Error("PAYSTACK_MOCK must not be set for production builds");
+}
+
 const nextConfig: NextConfig = {
   images: {
     remotePatterns: [
@@ -16,6 +16,15 @@ export interface EventType {
   price: number;
   currency: string;
   active: boolean;
+  before_event_buffer?: number;
+  after_event_buffer?: number;
+  minimum_booking_notice?: number;
+  booking_horizon_days?: number | null;
+  max_bookings_per_day?: number | null;
+  slot_interval?: number | null;
+  seats_per_slot?: number;
+  cancellation_window_hours?: number;
+  late_cancellation_refund_percent?: number;
   created_at?: string;
   updated_at?: string;
 }
@@ -1,6 +1,6 @@
 // Setup type definitions for built-in Supabase Runtime APIs
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
 
 // Define types for your jobs
 interface JobPayload {
@@ -14,7 +14,7 @@ interface JobPayload {
 
 interface ScheduledJob {
   id: string;
-  type: 'meeting_reminder' | 'post_session_feedback' | 'availability_check' | string;
+  type: 'meeting_reminder' | 'post_session_feedback' | 'availability_check' | 'abandoned_checkout' | string;
   payload: JobPayload;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   scheduled_for: string;
@@ -31,6 +31,7 @@ interface EmailPayload {
   subject: string;
   template: string;
   data: Record<string, any>;
+  attachments?: Array<{ name: string; content: string }>; // content is base64
 }
 
 console.info('🚀 Background Worker Started');
@@ -61,6 +62,7 @@ async function sendBrevoEmail(email: EmailPayload): Promise<{ success: boolean;
         to: [{ email: email.to }],
         subject: email.subject,
         textContent: getEmailTemplate(email.template, email.data),
+        ...(email.attachments?.length ? { attachment: email.attachments } : {}),
       }),
     });
 
@@ -107,6 +109,39 @@ Thank you!
 Daiyet Team
       `.trim();
     
+    case 'abandoned_checkout':
+      return `
+Complete your booking
+
+Hello ${data.userName || 'User'},
+
+You started booking a session but didn't finish paying:
+- Event: ${data.eventTitle || 'Consultation'}
+- Practitioner: ${data.dietitianName || ''}
+- Date: ${data.date || ''}
+- Time: ${data.time || ''}
+
+Pick up where you left off (we'll check the time is still free):
+${data.resumeLink || ''}
+
+This link works until ${data.expiresAt || ''}.
+
+Daiyet Team
+      `.trim();
+
+    case 'practitioner_verification':
+      return `
+${data.heading || 'Account Verification'}
+
+Hello ${data.userName || 'User'},
+
+${data.body || data.message || ''}
+${data.notes ? `\nNotes: ${data.notes}` : ''}
+${data.actionLink ? `\n${data.actionLabel || 'Open Daiyet'}: ${data.actionLink}` : ''}
+
+Daiyet Team
+      `.trim();
+
     case 'booking_confirmation':
       return `
 Booking Confirmed!
@@ -130,7 +165,25 @@ Daiyet Team
 
 // ============ JOB HANDLERS ============
 
-async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
+const DEFAULT_TIMEZONE = 'Africa/Lagos';
+
+// Date and time of a session in the recipient's timezone, e.g. "3:00 PM GMT+1"
+function formatSessionTime(isoDate: string, timeZone?: string | null): { date: string; time: string } {
+  const startDate = new Date(isoDate);
+  const format = (zone: string) => ({
+    date: startDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: zone }),
+    time: startDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: zone, timeZoneName: 'short' }),
+  });
+
+  try {
+    return format(timeZone || DEFAULT_TIMEZONE);
+  } catch {
+    // Unknown timezone saved on the profile
+    return format(DEFAULT_TIMEZONE);
+  }
+}
+
+async function handleMeetingReminder(job: ScheduledJob, supabase: SupabaseClient) {
   console.info(`📅 Processing meeting reminder for job ${job.id}`);
   
   const { booking_id, user_id, dietitian_id, reminder_minutes } = job.payload;
@@ -144,8 +197,8 @@ async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
     .from('bookings')
     .select(`
       *,
-      user:users!bookings_user_id_fkey(id, name, email),
-      dietitian:users!bookings_dietitian_id_fkey(id, name, email),
+      user:users!bookings_user_id_fkey(id, name, email, timezone),
+      dietitian:users!bookings_dietitian_id_fkey(id, name, email, timezone),
       event_types(title)
     `)
     .eq('id', booking_id)
@@ -155,9 +208,6 @@ async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
     throw new Error(`Booking not found: ${bookingError?.message || ''}`);
   }
 
-  const startDate = new Date(booking.start_time);
-  const dateStr = startDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
-  const timeStr = startDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
   const reminderText = reminder_minutes === 1440 ? '24 hours' : reminder_minutes === 60 ? '1 hour' : `${reminder_minutes} minutes`;
 
   // Send reminder to user
@@ -169,8 +219,7 @@ async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
       data: {
         userName: booking.user.name || 'User',
         eventTitle: booking.event_types?.title || booking.title || 'Consultation',
-        date: dateStr,
-        time: timeStr,
+        ...formatSessionTime(booking.start_time, booking.user.timezone),
         meetingLink: booking.meeting_link || '',
       },
     });
@@ -191,8 +240,7 @@ async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
       data: {
         userName: booking.dietitian.name || 'Dietitian',
         eventTitle: booking.event_types?.title || booking.title || 'Consultation',
-        date: dateStr,
-        time: timeStr,
+        ...formatSessionTime(booking.start_time, booking.dietitian.timezone),
         meetingLink: booking.meeting_link || '',
       },
     });
@@ -213,7 +261,7 @@ async function handleMeetingReminder(job: ScheduledJob, supabase: any) {
   };
 }
 
-async function handlePostSessionFeedback(job: ScheduledJob, supabase: any) {
+async function handlePostSessionFeedback(job: ScheduledJob, supabase: SupabaseClient) {
   console.info(`📝 Processing post-session feedback for job ${job.id}`);
   
   const { booking_id, user_id } = job.payload;
@@ -266,6 +314,191 @@ async function handlePostSessionFeedback(job: ScheduledJob, supabase: any) {
   };
 }
 
+// Abandoned checkouts: how long the resume link works before the booking is cancelled for good
+const RECOVERY_WINDOW_HOURS = 24;
+// Matches HOLD_EXPIRED_REASON in lib/bookings/holds.ts, so a late payment still revives the booking
+const HOLD_EXPIRED_REASON = 'Checkout was not completed in time';
+
+// Email a client who left checkout unpaid a link back to it, then cancel the booking once the link expires
+async function handleAbandonedCheckout(job: ScheduledJob, supabase: SupabaseClient) {
+  const { booking_id, payment_id, stage } = job.payload;
+
+  if (!booking_id) {
+    throw new Error('Missing required field: booking_id');
+  }
+
+  if (stage === 'release') {
+    return releaseAbandonedCheckout(booking_id, supabase);
+  }
+
+  console.info(`🛒 Checking for abandoned checkout for job ${job.id}`);
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .select('id, status, amount, currency')
+    .eq('id', payment_id)
+    .maybeSingle();
+
+  if (paymentError) {
+    throw new Error(`Failed to load payment: ${paymentError.message}`);
+  }
+  if (!payment || payment.status !== 'PENDING') {
+    return { booking_id, payment_id, skipped: `Payment is ${payment?.status?.toLowerCase() || 'missing'}` };
+  }
+
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select(`
+      *,
+      user:users!bookings_user_id_fkey(id, name, email, timezone),
+      dietitian:users!bookings_dietitian_id_fkey(id, name),
+      event_types(title)
+    `)
+    .eq('id', booking_id)
+    .single();
+
+  if (bookingError || !booking) {
+    throw new Error(`Booking not found: ${bookingError?.message || ''}`);
+  }
+
+  // Paid, cancelled by someone, or a recurring series (its occurrences can't be resumed one by one)
+  const holdExpired = booking.status === 'CANCELLED' && booking.cancellation_reason === HOLD_EXPIRED_REASON;
+  if ((booking.status !== 'PENDING' && !holdExpired) || booking.series_id) {
+    return { booking_id, payment_id, skipped: `Booking is ${booking.status.toLowerCase()}` };
+  }
+
+  // One email per booking; the checkout it leads back to schedules another check of its own
+  const { data: existing } = await supabase
+    .from('abandoned_checkouts')
+    .select('id')
+    .eq('booking_id', booking_id)
+    .maybeSingle();
+  if (existing) {
+    return { booking_id, payment_id, skipped: 'Client was already emailed about this booking' };
+  }
+
+  const expiresAt = new Date(
+    Math.min(Date.now() + RECOVERY_WINDOW_HOURS * 60 * 60 * 1000, new Date(booking.start_time).getTime())
+  );
+  if (expiresAt.getTime() <= Date.now() || !booking.user?.email) {
+    return releaseAbandonedCheckout(booking_id, supabase);
+  }
+
+  const resumeToken = crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '');
+  const { error: insertError } = await supabase.from('abandoned_checkouts').insert({
+    booking_id,
+    payment_id: payment.id,
+    user_id: booking.user_id,
+    email: booking.user.email,
+    amount: payment.amount,
+    currency: payment.currency || 'NGN',
+    resume_token: resumeToken,
+    expires_at: expiresAt.toISOString(),
+  });
+
+  if (insertError) {
+    // Another job for the same booking got there first
+    if (insertError.code === '23505') {
+      return { booking_id, payment_id, skipped: 'Client was already emailed about this booking' };
+    }
+    throw new Error(`Failed to record abandoned checkout: ${insertError.message}`);
+  }
+
+  const { error: scheduleError } = await supabase.from('scheduled_jobs').insert({
+    type: 'abandoned_checkout',
+    scheduled_for: expiresAt.toISOString(),
+    payload: { booking_id, payment_id: payment.id, stage: 'release' },
+  });
+  if (scheduleError) {
+    throw new Error(`Failed to schedule release of abandoned checkout: ${scheduleError.message}`);
+  }
+
+  const siteUrl = Deno.env.get('NEXT_PUBLIC_SITE_URL') || 'http://localhost:3000';
+  const expiry = formatSessionTime(expiresAt.toISOString(), booking.user.timezone);
+  const result = await sendBrevoEmail({
+    to: booking.user.email,
+    subject: 'Complete your booking',
+    template: 'abandoned_checkout',
+    data: {
+      userName: booking.user.name || 'User',
+      eventTitle: booking.event_types?.title || booking.title || 'Consultation',
+      dietitianName: booking.dietitian?.name || '',
+      ...formatSessionTime(booking.start_time, booking.user.timezone),
+      resumeLink: `${siteUrl}/user-dashboard/book-a-call?resume=${resumeToken}`,
+      expiresAt: `${expiry.time} on ${expiry.date}`,
+    },
+  });
+
+  if (result.success) {
+    console.info(`✅ Abandoned checkout email sent to: ${booking.user.email}`);
+  } else {
+    console.warn(`⚠️ Failed to send abandoned checkout email: ${result.error}`);
+  }
+
+  return {
+    booking_id,
+    payment_id,
+    reminded: result.success,
+    expires_at: expiresAt.toISOString(),
+  };
+}
+
+// Give up on an unpaid checkout: fail its payment, cancel the booking and free the slot.
+// A payment that still lands afterwards revives the booking if the slot is free (confirmPaidBooking).
+async function releaseAbandonedCheckout(bookingId: string, supabase: SupabaseClient) {
+  console.info(`🛒 Releasing abandoned checkout for booking ${bookingId}`);
+
+  const { data: paidPayments } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('booking_id', bookingId)
+    .eq('status', 'SUCCESS')
+    .limit(1);
+  if (paidPayments && paidPayments.length > 0) {
+    return { booking_id: bookingId, skipped: 'Booking was paid for' };
+  }
+
+  const now = new Date().toISOString();
+
+  await supabase
+    .from('payments')
+    .update({ status: 'FAILED', updated_at: now })
+    .eq('booking_id', bookingId)
+    .eq('status', 'PENDING');
+
+  const { data: cancelled } = await supabase
+    .from('bookings')
+    .update({
+      status: 'CANCELLED',
+      hold_expires_at: null,
+      cancelled_at: now,
+      cancellation_reason: HOLD_EXPIRED_REASON,
+      updated_at: now,
+    })
+    .eq('id', bookingId)
+    .eq('status', 'PENDING')
+    .select('id');
+
+  await supabase
+    .from('scheduled_jobs')
+    .delete()
+    .eq('status', 'pending')
+    .in('type', ['meeting_reminder', 'post_session_feedback'])
+    .eq('payload->>booking_id', bookingId);
+
+  await supabase
+    .from('abandoned_checkouts')
+    .update({ status: 'EXPIRED', expired_at: now })
+    .eq('booking_id', bookingId)
+    .in('status', ['REMINDED', 'RESUMED']);
+
+  return {
+    booking_id: bookingId,
+    cancelled: !!cancelled && cancelled.length > 0,
+    released_at: now,
+  };
+}
+
 async function handleTestJob(job: ScheduledJob) {
   console.info(`🧪 Processing test job ${job.id}`);
   
@@ -402,7 +635,31 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // 3. Get pending scheduled jobs
+    // 3. Release slots held by checkouts that were not paid in time
+    let holdsExpired = 0;
+    const { data: expiredCount, error: holdsError } = await supabase.rpc('expire_slot_holds');
+    if (holdsError) {
+      console.error('❌ Error expiring slot holds:', holdsError);
+    } else {
+      holdsExpired = expiredCount || 0;
+      if (holdsExpired > 0) {
+        console.info(`⌛ Released ${holdsExpired} expired slot holds`);
+      }
+    }
+
+    // 4. Give back wallet balance reserved by checkouts that failed or were abandoned
+    let walletReservationsReleased = 0;
+    const { data: releasedCount, error: walletError } = await supabase.rpc('release_wallet_reservations');
+    if (walletError) {
+      console.error('❌ Error releasing wallet reservations:', walletError);
+    } else {
+      walletReservationsReleased = releasedCount || 0;
+      if (walletReservationsReleased > 0) {
+        console.info(`👛 Released ${walletReservationsReleased} wallet reservations`);
+      }
+    }
+
+    // 5. Get pending scheduled jobs
     const now = new Date().toISOString();
     console.info(`⏰ Checking for scheduled jobs due before: ${now}`);
     
@@ -428,6 +685,8 @@ Deno.serve(async (req: Request) => {
           message: 'No pending jobs to process',
           processed: 0,
           emailsProcessed,
+          holdsExpired,
+          walletReservationsReleased,
           timestamp: now,
         }),
         {
@@ -436,7 +695,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // 4. Process each job
+    // 6. Process each job
     const results = await Promise.allSettled(
       jobs.map(async (job: ScheduledJob) => {
         const jobId = job.id;
@@ -469,6 +728,9 @@ Deno.serve(async (req: Request) => {
             case 'post_session_feedback':
               result = await handlePostSessionFeedback(job, supabase);
               break;
+            case 'abandoned_checkout':
+              result = await handleAbandonedCheckout(job, supabase);
+              break;
             case 'test':
               result = await handleTestJob(job);
               break;
@@ -526,7 +788,7 @@ Deno.serve(async (req: Request) => {
       })
     );
 
-    // 5. Compile results
+    // 7. Compile results
     const successful = results.filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled');
     const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
     
@@ -535,7 +797,7 @@ Deno.serve(async (req: Request) => {
 
     console.info(`📊 Processed ${jobs.length} jobs: ${successfulJobs.length} successful, ${failedJobs.length} failed`);
 
-    // 6. Return summary
+    // 8. Return summary
     return new Response(
       JSON.stringify({
         success: true,
@@ -543,6 +805,8 @@ Deno.serve(async (req: Request) => {
         successful: successfulJobs.length,
         failed: failedJobs.length,
         emailsProcessed,
+        holdsExpired,
+        walletReservationsReleased,
         details: {
           successful: successfulJobs,
           failed: failedJobs.map(f => ({
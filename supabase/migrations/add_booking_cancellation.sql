@@ -0,0 +1,31 @@
+-- Migration: Booking cancellation and refunds
+-- Adds a per-event-type cancellation policy, records who cancelled a booking and why,
+-- and tracks Paystack refunds against the payment
+
+-- Cancellation policy per event type
+-- Clients cancelling at least cancellation_window_hours before the session get a full refund;
+-- later cancellations are refunded late_cancellation_refund_percent of the price.
+ALTER TABLE event_types
+ADD COLUMN IF NOT EXISTS cancellation_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (cancellation_window_hours >= 0),
+ADD COLUMN IF NOT EXISTS late_cancellation_refund_percent INTEGER NOT NULL DEFAULT 0
+  CHECK (late_cancellation_refund_percent BETWEEN 0 AND 100);
+
+-- Who cancelled and why
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cancelled_by_role TEXT CHECK (cancelled_by_role IN ('USER', 'DIETITIAN', 'THERAPIST', 'ADMIN')),
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+-- Refund tracking (refund_amount is in major units, e.g. NGN, like event_types.price)
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS refund_status TEXT CHECK (refund_status IN ('pending', 'processed', 'failed')),
+ADD COLUMN IF NOT EXISTS refund_amount DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS refund_reference TEXT,
+ADD COLUMN IF NOT EXISTS refund_error TEXT,
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_cancelled_by ON bookings(cancelled_by);
+
+-- Speeds up removing a booking's pending reminder jobs
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_booking_id ON scheduled_jobs((payload->>'booking_id'));
@@ -0,0 +1,25 @@
+-- Migration: Add booking limits to event_types table
+-- Buffers, minimum notice, booking horizon and daily caps are enforced by the
+-- slot engine (lib/availability/calculate-timeslots.ts) and by POST /api/bookings
+
+ALTER TABLE event_types
+ADD COLUMN IF NOT EXISTS before_event_buffer INTEGER NOT NULL DEFAULT 0 CHECK (before_event_buffer >= 0),
+ADD COLUMN IF NOT EXISTS after_event_buffer INTEGER NOT NULL DEFAULT 0 CHECK (after_event_buffer >= 0),
+ADD COLUMN IF NOT EXISTS minimum_booking_notice INTEGER NOT NULL DEFAULT 0 CHECK (minimum_booking_notice >= 0),
+ADD COLUMN IF NOT EXISTS booking_horizon_days INTEGER CHECK (booking_horizon_days IS NULL OR booking_horizon_days > 0),
+ADD COLUMN IF NOT EXISTS max_bookings_per_day INTEGER CHECK (max_bookings_per_day IS NULL OR max_bookings_per_day > 0);
+
+COMMENT ON COLUMN event_types.before_event_buffer IS
+'Minutes that must be free before a session of this type starts.';
+
+COMMENT ON COLUMN event_types.after_event_buffer IS
+'Minutes that must be free after a session of this type ends.';
+
+COMMENT ON COLUMN event_types.minimum_booking_notice IS
+'Minimum minutes between now and the start of a bookable slot (e.g. 720 = 12 hours).';
+
+COMMENT ON COLUMN event_types.booking_horizon_days IS
+'How many days into the future this event type can be booked. NULL means no limit.';
+
+COMMENT ON COLUMN event_types.max_bookings_per_day IS
+'Maximum pending/confirmed bookings per day for the dietitian. NULL means no cap.';
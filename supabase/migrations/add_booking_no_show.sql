@@ -0,0 +1,13 @@
+-- Migration: Booking no-shows
+-- Practitioners (or admins) mark a session the client didn't attend once it has started.
+-- Used by POST /api/bookings/[id]/no-show and the no-show rate in admin analytics.
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS no_show_marked_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN bookings.no_show_at IS
+'When the session was marked as a client no-show. NULL if the client attended or it is not recorded.';
+
+-- Analytics filter sessions by start time, optionally for one practitioner
+CREATE INDEX IF NOT EXISTS idx_bookings_dietitian_start_time ON bookings(dietitian_id, start_time);
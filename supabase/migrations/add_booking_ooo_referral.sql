@@ -0,0 +1,13 @@
+-- Migration: Record out-of-office referrals on bookings
+-- When a practitioner is out of office and forwards clients to a colleague,
+-- bookings made with that colleague through the forwarding keep track of who referred them.
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS referred_by_dietitian_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN bookings.referred_by_dietitian_id IS
+'The practitioner whose out-of-office forwarding sent the client to this booking''s practitioner.';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_referred_by_dietitian_id
+ON bookings(referred_by_dietitian_id)
+WHERE referred_by_dietitian_id IS NOT NULL;
@@ -0,0 +1,117 @@
+-- Migration: Reschedule bookings in place
+-- Used by POST /api/user/reschedule-booking/[id] to move a booking to a new time,
+-- close the reschedule request and re-create its reminder/feedback jobs atomically
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS google_event_id TEXT,
+ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN bookings.google_event_id IS
+'Google Calendar event behind meeting_link. Patched when the booking is rescheduled.';
+
+COMMENT ON COLUMN bookings.rescheduled_at IS
+'When the booking was last moved to a new time.';
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_expected_start TIMESTAMPTZ,
+  p_new_start TIMESTAMPTZ,
+  p_new_end TIMESTAMPTZ,
+  p_session_request_id UUID DEFAULT NULL
+)
+RETURNS SETOF bookings AS $$
+DECLARE
+  booking_row bookings%ROWTYPE;
+BEGIN
+  -- Lock the booking so concurrent reschedules/cancellations serialise
+  SELECT * INTO booking_row
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF booking_row.status NOT IN ('PENDING', 'CONFIRMED') THEN
+    RAISE EXCEPTION 'Booking is %', lower(booking_row.status::TEXT) USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The booking moved since the caller validated the new slot
+  IF booking_row.start_time <> p_expected_start THEN
+    RAISE EXCEPTION 'Booking was changed by another request' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE dietitian_id = booking_row.dietitian_id
+      AND id <> p_booking_id
+      AND status IN ('PENDING', 'CONFIRMED')
+      AND start_time < p_new_end
+      AND end_time > p_new_start
+  ) THEN
+    RAISE EXCEPTION 'Time slot not available' USING ERRCODE = '23P01';
+  END IF;
+
+  UPDATE bookings
+  SET start_time = p_new_start,
+      end_time = p_new_end,
+      rescheduled_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO booking_row;
+
+  IF p_session_request_id IS NOT NULL THEN
+    UPDATE session_requests
+    SET status = 'APPROVED',
+        updated_at = NOW()
+    WHERE id = p_session_request_id;
+  END IF;
+
+  -- Replace jobs that have not run yet with ones for the new time
+  DELETE FROM scheduled_jobs
+  WHERE status = 'pending'
+    AND type IN ('meeting_reminder', 'post_session_feedback')
+    AND payload->>'booking_id' = p_booking_id::TEXT;
+
+  IF p_new_start - INTERVAL '24 hours' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      p_new_start - INTERVAL '24 hours',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 1440
+      )
+    );
+  END IF;
+
+  IF p_new_start - INTERVAL '1 hour' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      p_new_start - INTERVAL '1 hour',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 60
+      )
+    );
+  END IF;
+
+  INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+  VALUES (
+    'post_session_feedback',
+    p_new_end + INTERVAL '1 hour',
+    jsonb_build_object(
+      'booking_id', booking_row.id,
+      'user_id', booking_row.user_id
+    )
+  );
+
+  RETURN NEXT booking_row;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,14 @@
+-- Migration: Calendar feed token for practitioners
+-- Practitioners who don't use Google Calendar can subscribe to their upcoming bookings
+-- from Apple Calendar or Outlook at /api/calendar/<token>.ics. The token is the only
+-- credential for the feed, so it is random, unique and can be regenerated.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS calendar_feed_token TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_calendar_feed_token
+ON users(calendar_feed_token)
+WHERE calendar_feed_token IS NOT NULL;
+
+COMMENT ON COLUMN users.calendar_feed_token IS
+'Secret token in the practitioner''s iCal feed URL. NULL until the feed is first requested; regenerating it revokes old subscriptions.';
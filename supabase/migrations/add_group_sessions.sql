@@ -0,0 +1,120 @@
+-- Migration: Group sessions / workshops with seat capacity
+-- This migration:
+-- 1. Adds seats_per_slot to event_types (1 = one-on-one, more = group session)
+-- 2. Creates group_sessions, one row per occurrence of a group event type, holding the shared Meet link
+-- 3. Links bookings to the group session they take a seat in
+-- 4. Enforces seat capacity when a booking takes or re-takes a seat
+-- 5. Lets bookings in the same group session overlap in bookings_no_overlapping_confirmed
+
+-- Step 1: Seat capacity on event types
+ALTER TABLE event_types
+ADD COLUMN IF NOT EXISTS seats_per_slot INTEGER NOT NULL DEFAULT 1
+  CHECK (seats_per_slot BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN event_types.seats_per_slot IS
+'How many clients can book the same slot. 1 is a one-on-one session; more makes it a group session.';
+
+-- Step 2: Create group_sessions table
+CREATE TABLE IF NOT EXISTS group_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type_id UUID NOT NULL REFERENCES event_types(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  meeting_link TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT group_sessions_event_type_start_key UNIQUE (event_type_id, start_time)
+);
+
+COMMENT ON TABLE group_sessions IS
+'One occurrence of a group event type. Every booking in it shares the same Meet link.';
+
+CREATE INDEX IF NOT EXISTS idx_group_sessions_dietitian_id ON group_sessions(dietitian_id, start_time);
+
+DROP TRIGGER IF EXISTS update_group_sessions_updated_at ON group_sessions;
+CREATE TRIGGER update_group_sessions_updated_at
+  BEFORE UPDATE ON group_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE group_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their group sessions"
+  ON group_sessions FOR SELECT
+  USING (
+    auth.uid() = dietitian_id
+    OR EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.group_session_id = group_sessions.id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+-- Step 3: Link bookings to their group session
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS group_session_id UUID REFERENCES group_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_group_session_id ON bookings(group_session_id);
+
+-- Step 4: Seat capacity
+-- The group session row is locked so two clients cannot take the last seat at the same time.
+-- A seat is held by a CONFIRMED booking or a PENDING booking whose checkout hold is still active.
+CREATE OR REPLACE FUNCTION enforce_group_session_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  seat_limit INTEGER;
+  seats_taken INTEGER;
+BEGIN
+  IF NEW.group_session_id IS NULL OR NEW.status NOT IN ('PENDING', 'CONFIRMED') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Bookings that already hold their seat keep it, even if the capacity was lowered since
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = NEW.status
+     AND OLD.group_session_id IS NOT DISTINCT FROM NEW.group_session_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT event_types.seats_per_slot INTO seat_limit
+  FROM group_sessions
+  JOIN event_types ON event_types.id = group_sessions.event_type_id
+  WHERE group_sessions.id = NEW.group_session_id
+  FOR UPDATE OF group_sessions;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM bookings
+  WHERE group_session_id = NEW.group_session_id
+    AND id <> NEW.id
+    AND (
+      status = 'CONFIRMED'
+      OR (status = 'PENDING' AND (hold_expires_at IS NULL OR hold_expires_at > NOW()))
+    );
+
+  IF seats_taken >= COALESCE(seat_limit, 1) THEN
+    RAISE EXCEPTION 'Group session % is full', NEW.group_session_id
+      -- Own SQLSTATE so other CHECK failures aren't mistaken for a full session
+      USING ERRCODE = 'GS001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_group_session_capacity ON bookings;
+CREATE TRIGGER enforce_group_session_capacity
+  BEFORE INSERT OR UPDATE OF status, group_session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_group_session_capacity();
+
+-- Step 5: Bookings sharing a group session may overlap; everything else still may not
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlapping_confirmed;
+ALTER TABLE bookings
+ADD CONSTRAINT bookings_no_overlapping_confirmed
+  EXCLUDE USING gist (
+    dietitian_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&,
+    COALESCE(group_session_id, id) WITH <>
+  )
+  WHERE (status = 'CONFIRMED');
@@ -0,0 +1,16 @@
+-- Migration: Server-side payment verification
+-- Payments are confirmed only after the transaction is verified with Paystack and its amount
+-- and currency match the booking. Records what Paystack reported for the charge.
+
+-- Gateway details (fees is in major units, e.g. NGN, like amount)
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS gateway_response TEXT,
+ADD COLUMN IF NOT EXISTS channel TEXT,
+ADD COLUMN IF NOT EXISTS fees DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS verification_error TEXT;
+
+COMMENT ON COLUMN payments.verification_error IS
+'Why Paystack verification rejected the payment (e.g. amount or currency mismatch). Cleared once it is confirmed.';
+
@@ -0,0 +1,30 @@
+-- Migration: Paystack subaccount split payments
+-- Practitioners register a payout bank account during enrollment, which creates a Paystack
+-- subaccount. Every transaction is then split at checkout: the platform keeps its commission and
+-- Paystack settles the rest straight to the practitioner, so those payments are not batched
+-- into manual payouts.
+
+-- Payout account (only the last 4 digits of the account number are kept)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS paystack_subaccount_code TEXT,
+ADD COLUMN IF NOT EXISTS payout_bank_code TEXT,
+ADD COLUMN IF NOT EXISTS payout_bank_name TEXT,
+ADD COLUMN IF NOT EXISTS payout_account_name TEXT,
+ADD COLUMN IF NOT EXISTS payout_account_last4 TEXT;
+
+-- Subaccount the transaction was split with, if any
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS subaccount_code TEXT;
+
+-- Entries for split payments were settled by Paystack and never go into a payout batch. Wallet
+-- balance spent on a split payment isn't part of the split, so those entries stay payable and
+-- record the part of net Paystack already settled; a payout batch pays the rest.
+ALTER TABLE ledger_entries
+ADD COLUMN IF NOT EXISTS settled_by_split BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS split_settled DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_users_paystack_subaccount_code ON users(paystack_subaccount_code)
+WHERE paystack_subaccount_code IS NOT NULL;
+
+COMMENT ON COLUMN users.paystack_subaccount_code IS
+'Paystack subaccount (ACCT_...) that receives the practitioner share of each payment.';
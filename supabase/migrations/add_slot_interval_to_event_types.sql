@@ -0,0 +1,10 @@
+-- Migration: Add slot_interval to event_types table
+-- Controls how far apart offered start times are, independently of the session length.
+-- e.g. a 45-minute session with slot_interval = 15 offers 09:00, 09:15, 09:30...
+
+ALTER TABLE event_types
+ADD COLUMN IF NOT EXISTS slot_interval INTEGER
+CHECK (slot_interval IS NULL OR slot_interval IN (15, 30, 60));
+
+COMMENT ON COLUMN event_types.slot_interval IS
+'Minutes between offered start times (15, 30 or 60). If NULL, start times step by the event type length.';
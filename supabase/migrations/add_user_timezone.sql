@@ -0,0 +1,9 @@
+-- Migration: Add timezone to users table
+-- The booker's own timezone, detected or chosen on the booking pages.
+-- Slots are shown and emails are rendered in it. NULL falls back to Africa/Lagos.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN users.timezone IS
+'IANA timezone (e.g. Europe/London) used to show session times to this user. NULL means Africa/Lagos.';
@@ -0,0 +1,16 @@
+-- Migration: Wallet refunds
+-- A cancelled booking gives back its share of the wallet balance spent on it as a REFUND wallet
+-- transaction, alongside the card refund through Paystack.
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE wallet_transactions
+ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('REFERRAL_REWARD', 'CHECKOUT', 'REFUND'));
+
+-- At most one wallet refund per cancelled booking (a series payment is refunded per occurrence)
+ALTER TABLE wallet_transactions
+ADD COLUMN IF NOT EXISTS booking_id UUID UNIQUE REFERENCES bookings(id) ON DELETE SET NULL;
+
+-- Wallet balance given back, next to refund_amount (given back to the card)
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS wallet_refund_amount DECIMAL(10, 2);
@@ -0,0 +1,73 @@
+-- Migration: Wallet reservations
+-- This migration:
+-- 1. Adds a status to wallet transactions, so a checkout can reserve wallet balance while it is paid for
+-- 2. Adds reserve_wallet_spend(), which takes the reservation only if the balance covers it
+-- 3. Adds release_wallet_reservations(), run by the background worker, to give back the balance
+--    reserved by checkouts that failed or were abandoned
+
+-- Step 1: Reserved (PENDING) and spent (COMPLETED) wallet transactions
+ALTER TABLE wallet_transactions
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'COMPLETED'
+  CHECK (status IN ('PENDING', 'COMPLETED'));
+
+COMMENT ON COLUMN wallet_transactions.status IS
+'PENDING while the checkout it was reserved for is unpaid; it counts against the balance until released.';
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_pending
+  ON wallet_transactions(created_at)
+  WHERE status = 'PENDING';
+
+-- Step 2: Reserve wallet balance for a checkout
+CREATE OR REPLACE FUNCTION reserve_wallet_spend(
+  p_user_id UUID,
+  p_payment_id UUID,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_description TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  balance DECIMAL;
+BEGIN
+  -- Lock the client so concurrent checkouts can't reserve the same balance
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO balance
+  FROM wallet_transactions
+  WHERE user_id = p_user_id;
+
+  IF balance < p_amount THEN
+    -- Own SQLSTATE so the checkout can tell the client their balance changed
+    RAISE EXCEPTION 'Wallet balance is too low' USING ERRCODE = 'WL001';
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, amount, currency, type, description, payment_id, status)
+  VALUES (p_user_id, -p_amount, p_currency, 'CHECKOUT', p_description, p_payment_id, 'PENDING')
+  ON CONFLICT (payment_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 3: Release reservations for failed payments and checkouts still unpaid after a day
+-- (abandoned checkouts are failed after their 24 hour resume link expires). A payment that
+-- still lands afterwards spends the wallet again when it is confirmed.
+CREATE OR REPLACE FUNCTION release_wallet_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+  released_count INTEGER;
+BEGIN
+  WITH released AS (
+    DELETE FROM wallet_transactions
+    USING payments
+    WHERE wallet_transactions.payment_id = payments.id
+      AND wallet_transactions.status = 'PENDING'
+      AND (
+        payments.status = 'FAILED'
+        OR (payments.status = 'PENDING' AND wallet_transactions.created_at < NOW() - INTERVAL '24 hours')
+      )
+    RETURNING wallet_transactions.id
+  )
+  SELECT COUNT(*) INTO released_count FROM released;
+
+  RETURN released_count;
+END;
+$$ LANGUAGE plpgsql;
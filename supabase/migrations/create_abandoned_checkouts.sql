@@ -0,0 +1,51 @@
+-- Migration: Abandoned checkout recovery
+-- A booking checkout that is still unpaid some time after it started is treated as abandoned.
+-- The background worker emails the client a link back to checkout for the same slot, and once
+-- the recovery window closes it fails the payment and cancels the booking for good.
+-- abandoned_checkouts records each attempt so admins can see how many are recovered.
+
+-- Step 1: New scheduled job type, run by the background worker
+ALTER TABLE scheduled_jobs DROP CONSTRAINT IF EXISTS scheduled_jobs_type_check;
+ALTER TABLE scheduled_jobs
+ADD CONSTRAINT scheduled_jobs_type_check
+  CHECK (type IN ('meeting_reminder', 'post_session_feedback', 'availability_check', 'abandoned_checkout', 'test'));
+
+-- Step 2: One recovery attempt per booking
+CREATE TABLE IF NOT EXISTS abandoned_checkouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  -- The payment that was abandoned
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  email TEXT,
+  -- What was left unpaid; what was paid once recovered
+  amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  -- Secret in the resume link
+  resume_token TEXT NOT NULL UNIQUE,
+  -- REMINDED: email sent; RESUMED: client returned to checkout; RECOVERED: paid; EXPIRED: cancelled
+  status TEXT NOT NULL DEFAULT 'REMINDED' CHECK (status IN ('REMINDED', 'RESUMED', 'RECOVERED', 'EXPIRED')),
+  -- The resume link stops working after this
+  expires_at TIMESTAMPTZ NOT NULL,
+  reminded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resumed_at TIMESTAMPTZ,
+  recovered_at TIMESTAMPTZ,
+  recovered_payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  expired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS idx_abandoned_checkouts_status ON abandoned_checkouts(status);
+CREATE INDEX IF NOT EXISTS idx_abandoned_checkouts_reminded_at ON abandoned_checkouts(reminded_at DESC);
+
+-- Step 4: Keep updated_at current
+DROP TRIGGER IF EXISTS update_abandoned_checkouts_updated_at ON abandoned_checkouts;
+CREATE TRIGGER update_abandoned_checkouts_updated_at
+  BEFORE UPDATE ON abandoned_checkouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only reachable through the service role (background worker, checkout resume and admin APIs)
+ALTER TABLE abandoned_checkouts ENABLE ROW LEVEL SECURITY;
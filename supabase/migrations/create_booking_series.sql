@@ -0,0 +1,60 @@
+-- Migration: Create recurring booking series
+-- This migration:
+-- 1. Creates booking_series table holding an RRULE-style recurrence (frequency, interval, count or until date)
+-- 2. Links bookings to the series they were created from
+-- 3. Adds indexes, updated_at trigger and RLS policies
+
+-- Step 1: Create booking_series table
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type_id UUID NOT NULL REFERENCES event_types(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('DAILY', 'WEEKLY', 'MONTHLY')),
+  repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval BETWEEN 1 AND 4),
+  occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 2 AND 12),
+  until_date DATE,
+  first_start_time TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Africa/Lagos',
+  status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'CANCELLED')),
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT booking_series_has_end CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL)
+);
+
+COMMENT ON TABLE booking_series IS
+'Recurring bookings (e.g. weekly or fortnightly monitoring). Each occurrence is a row in bookings.';
+
+COMMENT ON COLUMN booking_series.repeat_interval IS
+'Repeat every N frequency units, e.g. WEEKLY with interval 2 is fortnightly.';
+
+COMMENT ON COLUMN booking_series.first_start_time IS
+'Start of the first occurrence. Later occurrences keep its wall-clock time in the series timezone.';
+
+-- Step 2: Link bookings to their series
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS series_occurrence INTEGER CHECK (series_occurrence IS NULL OR series_occurrence >= 0);
+
+COMMENT ON COLUMN bookings.series_occurrence IS
+'Position of this booking in its series (0 = first). Skipped occurrences move to the end of the series.';
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS idx_booking_series_dietitian_id ON booking_series(dietitian_id);
+CREATE INDEX IF NOT EXISTS idx_booking_series_user_id ON booking_series(user_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings(series_id, series_occurrence);
+
+-- Step 4: Add updated_at trigger
+DROP TRIGGER IF EXISTS update_booking_series_updated_at ON booking_series;
+CREATE TRIGGER update_booking_series_updated_at
+  BEFORE UPDATE ON booking_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 5: RLS policies (writes go through the API with the service role)
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their booking series"
+  ON booking_series FOR SELECT
+  USING (auth.uid() = user_id OR auth.uid() = dietitian_id);
@@ -0,0 +1,66 @@
+-- Migration: Meal plan packages
+-- Admin-managed meal plan packages, replacing the list hard-coded in lib/constants/meal-plans.ts.
+-- A package can cost a different amount with a particular practitioner. Session requests copy
+-- the package's name, price and currency when they are created, so editing or removing a
+-- package never changes requests already made. Package ids are readable slugs (e.g. '7-day'),
+-- as already used by promo_codes.meal_plan_package_ids and checkout metadata.
+-- Amounts are in major units (e.g. NGN), like payments.amount.
+
+-- Step 1: Packages
+CREATE TABLE IF NOT EXISTS meal_plan_packages (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: What a package costs with a particular practitioner, where it differs
+CREATE TABLE IF NOT EXISTS meal_plan_package_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id TEXT NOT NULL REFERENCES meal_plan_packages(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (package_id, dietitian_id)
+);
+
+-- Step 3: The package a meal plan request was for. meal_plan_type, price and currency keep the
+-- package as it was when the request was made.
+ALTER TABLE session_requests
+ADD COLUMN IF NOT EXISTS meal_plan_package_id TEXT REFERENCES meal_plan_packages(id) ON DELETE SET NULL;
+
+-- Step 4: The packages sold until now (without the test package)
+INSERT INTO meal_plan_packages (id, name, description, price, currency, sort_order)
+VALUES
+  ('7-day', '7-day meal plan', 'A comprehensive 7-day meal plan tailored to your dietary needs', 10000, 'NGN', 1),
+  ('14-day', '14-day meal plan', 'A detailed 14-day meal plan with recipes and nutritional guidance', 16000, 'NGN', 2),
+  ('1-month', '1 month meal plan', 'Complete monthly meal plan with shopping lists and meal prep guides', 20000, 'NGN', 3),
+  ('smoothie', 'Smoothie recipe', 'Smoothie recipes tailored to your dietary needs', 8000, 'NGN', 4)
+ON CONFLICT (id) DO NOTHING;
+
+-- Step 5: Indexes
+CREATE INDEX IF NOT EXISTS idx_meal_plan_package_prices_dietitian_id ON meal_plan_package_prices(dietitian_id);
+CREATE INDEX IF NOT EXISTS idx_session_requests_meal_plan_package_id ON session_requests(meal_plan_package_id);
+
+-- Step 6: updated_at triggers
+DROP TRIGGER IF EXISTS update_meal_plan_packages_updated_at ON meal_plan_packages;
+CREATE TRIGGER update_meal_plan_packages_updated_at
+  BEFORE UPDATE ON meal_plan_packages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_meal_plan_package_prices_updated_at ON meal_plan_package_prices;
+CREATE TRIGGER update_meal_plan_package_prices_updated_at
+  BEFORE UPDATE ON meal_plan_package_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only reachable through the service role (meal plan package, checkout and session request APIs)
+ALTER TABLE meal_plan_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meal_plan_package_prices ENABLE ROW LEVEL SECURITY;
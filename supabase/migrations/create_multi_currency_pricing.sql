@@ -0,0 +1,32 @@
+-- Migration: Multi-currency pricing
+-- Event types and meal plan packages keep their price in their own currency (NGN by default)
+-- and can also carry prices in other currencies, so clients abroad can pay in USD or GBP.
+-- Revenue reports are given in NGN, converting with the exchange rate in effect when each
+-- payment was made.
+
+-- Step 1: Prices in other currencies, e.g. {"USD": 25, "GBP": 20}. A currency missing here
+-- can't be paid in.
+ALTER TABLE event_types
+ADD COLUMN IF NOT EXISTS prices JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE meal_plan_packages
+ADD COLUMN IF NOT EXISTS prices JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Step 2: Exchange rates to NGN. A new row is added each time a rate changes, so older
+-- payments are still converted at the rate of their day.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'NGN'),
+  -- NGN for one unit of the currency
+  rate_to_ngn DECIMAL(18, 6) NOT NULL CHECK (rate_to_ngn > 0),
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (currency, effective_from)
+);
+
+-- Step 3: Indexes
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_currency_effective_from ON exchange_rates(currency, effective_from DESC);
+
+-- Only reachable through the service role (checkout, ledger and admin exchange rate APIs)
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
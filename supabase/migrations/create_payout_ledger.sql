@@ -0,0 +1,68 @@
+-- Migration: Payout ledger
+-- Every successful payment (sessions and meal plans) becomes a ledger entry for the practitioner
+-- it was paid to, split into the platform's commission and the practitioner's net earnings.
+-- Admins group unpaid entries into payout batches and mark them paid with a transfer reference.
+-- Amounts are in major units (e.g. NGN), like payments.amount.
+
+-- Platform commission per practitioner; NULL uses the platform default
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS commission_percent DECIMAL(5, 2) CHECK (commission_percent BETWEEN 0 AND 100);
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  practitioner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  total_net DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PAID')),
+  reference TEXT,
+  paid_at TIMESTAMPTZ,
+  paid_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT payout_batches_paid_has_reference CHECK (status <> 'PAID' OR reference IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+  practitioner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('SESSION', 'MEAL_PLAN')),
+  description TEXT,
+  gross DECIMAL(10, 2) NOT NULL,
+  -- Refunded part of gross; kept in sync until the entry is in a payout batch
+  refunded DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  -- Commission rate when the payment was made, so later rate changes don't rewrite history
+  commission_percent DECIMAL(5, 2) NOT NULL,
+  commission DECIMAL(10, 2) NOT NULL,
+  net DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  occurred_at TIMESTAMPTZ NOT NULL,
+  payout_batch_id UUID REFERENCES payout_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_practitioner_occurred
+ON ledger_entries(practitioner_id, occurred_at);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_unbatched
+ON ledger_entries(practitioner_id)
+WHERE payout_batch_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_payout_batch_id ON ledger_entries(payout_batch_id);
+CREATE INDEX IF NOT EXISTS idx_payout_batches_practitioner_id ON payout_batches(practitioner_id);
+
+DROP TRIGGER IF EXISTS update_ledger_entries_updated_at ON ledger_entries;
+CREATE TRIGGER update_ledger_entries_updated_at BEFORE UPDATE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_payout_batches_updated_at ON payout_batches;
+CREATE TRIGGER update_payout_batches_updated_at BEFORE UPDATE ON payout_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Only reachable through the service role (admin and practitioner APIs)
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,76 @@
+-- Migration: Practitioner verification
+-- Dietitians and therapists upload credential documents when they enroll and stay
+-- PENDING_VERIFICATION until an admin approves them. Admins can reject, ask for more
+-- documents, suspend and reinstate; every step is kept in practitioner_verification_events.
+
+-- Step 1: One review per practitioner
+CREATE TABLE IF NOT EXISTS practitioner_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  -- PENDING: waiting for an admin; MORE_INFO_REQUESTED: waiting for the practitioner
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'MORE_INFO_REQUESTED', 'APPROVED', 'REJECTED')),
+  license_number TEXT,
+  -- Last time the practitioner sent documents
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- The last notes sent to the practitioner
+  review_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Credential documents, stored in the practitioner-credentials bucket
+CREATE TABLE IF NOT EXISTS practitioner_verification_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 3: Review history
+CREATE TABLE IF NOT EXISTS practitioner_verification_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'SUBMITTED', 'DOCUMENTS_ADDED', 'APPROVED', 'REJECTED', 'MORE_INFO_REQUESTED', 'SUSPENDED', 'REINSTATED'
+  )),
+  notes TEXT,
+  -- The admin who acted, or the practitioner for their own uploads
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 4: Indexes
+CREATE INDEX IF NOT EXISTS idx_practitioner_verifications_status ON practitioner_verifications(status, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_practitioner_verification_documents_user_id ON practitioner_verification_documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_practitioner_verification_events_user_id ON practitioner_verification_events(user_id, created_at DESC);
+
+-- Step 5: Keep updated_at current
+DROP TRIGGER IF EXISTS update_practitioner_verifications_updated_at ON practitioner_verifications;
+CREATE TRIGGER update_practitioner_verifications_updated_at
+  BEFORE UPDATE ON practitioner_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 6: Private bucket for the documents; admins see them through signed URLs. Practitioners
+-- upload straight to it with signed upload URLs, so the limits are enforced by storage too.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'practitioner-credentials',
+  'practitioner-credentials',
+  false,
+  5242880,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Only reachable through the service role (enrollment, verification and admin APIs)
+ALTER TABLE practitioner_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practitioner_verification_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practitioner_verification_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,125 @@
+-- Migration: Promo codes
+-- Admin-managed discount codes applied at checkout. A code takes a percentage or a fixed amount
+-- off, can expire, can be limited in total and per client, and can be restricted to specific
+-- event types and/or meal plan packages. Each checkout that uses a code records a redemption,
+-- which counts towards the limits while the checkout is open and for good once the payment succeeds.
+-- Amounts are in major units (e.g. NGN), like payments.amount.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('PERCENTAGE', 'FIXED')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  expires_at TIMESTAMPTZ,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  per_user_limit INTEGER CHECK (per_user_limit > 0),
+  -- Empty on both means the code applies to everything
+  event_type_ids UUID[] NOT NULL DEFAULT '{}',
+  meal_plan_package_ids TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT promo_codes_percentage_below_100 CHECK (discount_type <> 'PERCENTAGE' OR discount_value < 100)
+);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+  -- Clients can hold several accounts (one per role) under one email, so limits go by email
+  email TEXT NOT NULL,
+  original_amount DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  final_amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'REDEEMED')),
+  redeemed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Price before the discount, and the discount a promo code took off
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS original_amount DECIMAL(10, 2),
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_code_status ON promo_redemptions(promo_code_id, status);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_email ON promo_redemptions(LOWER(email));
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON promo_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Only reachable through the service role (checkout and admin APIs)
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Record that a checkout used a code, only while the code is under its limits. The code is locked
+-- so concurrent checkouts are counted one after another and can't take it past a limit. Unpaid
+-- checkouts count until they would be abandoned (p_pending_minutes); a checkout for p_booking_id
+-- doesn't, as the new one replaces it.
+CREATE OR REPLACE FUNCTION record_promo_redemption(
+  p_promo_code_id UUID,
+  p_payment_id UUID,
+  p_email TEXT,
+  p_original_amount DECIMAL,
+  p_discount_amount DECIMAL,
+  p_final_amount DECIMAL,
+  p_currency TEXT,
+  p_booking_id UUID,
+  p_pending_minutes INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  promo promo_codes%ROWTYPE;
+  used_count INTEGER;
+  used_by_email_count INTEGER;
+BEGIN
+  SELECT * INTO promo FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE LOWER(promo_redemptions.email) = LOWER(p_email))
+  INTO used_count, used_by_email_count
+  FROM promo_redemptions
+  LEFT JOIN payments ON payments.id = promo_redemptions.payment_id
+  WHERE promo_redemptions.promo_code_id = p_promo_code_id
+    AND promo_redemptions.payment_id <> p_payment_id
+    AND (
+      promo_redemptions.status = 'REDEEMED'
+      OR (
+        payments.status = 'PENDING'
+        AND promo_redemptions.created_at > NOW() - make_interval(mins => p_pending_minutes)
+        AND (p_booking_id IS NULL OR payments.booking_id IS DISTINCT FROM p_booking_id)
+      )
+    );
+
+  -- Own SQLSTATEs so the checkout can tell the client which limit was reached
+  IF promo.max_redemptions IS NOT NULL AND used_count >= promo.max_redemptions THEN
+    RAISE EXCEPTION 'Promo code has been fully redeemed' USING ERRCODE = 'PC001';
+  END IF;
+  IF promo.per_user_limit IS NOT NULL AND used_by_email_count >= promo.per_user_limit THEN
+    RAISE EXCEPTION 'Promo code already used by this client' USING ERRCODE = 'PC002';
+  END IF;
+
+  INSERT INTO promo_redemptions (
+    promo_code_id, payment_id, email, original_amount, discount_amount, final_amount, currency, status
+  )
+  VALUES (
+    p_promo_code_id, p_payment_id, LOWER(p_email), p_original_amount, p_discount_amount, p_final_amount, p_currency, 'PENDING'
+  )
+  ON CONFLICT (payment_id) DO UPDATE SET
+    promo_code_id = EXCLUDED.promo_code_id,
+    email = EXCLUDED.email,
+    original_amount = EXCLUDED.original_amount,
+    discount_amount = EXCLUDED.discount_amount,
+    final_amount = EXCLUDED.final_amount,
+    currency = EXCLUDED.currency;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,72 @@
+-- Migration: Payment receipts
+-- Every successful payment gets one receipt, numbered sequentially within the year it was paid
+-- in (DY-2026-000001, DY-2026-000002, ...), so clients can claim sessions back from HMOs and
+-- employers. The receipt keeps a copy of what was paid for, who it was paid to and the VAT
+-- treatment at the time, so later changes to prices or profiles don't alter issued receipts.
+-- Amounts are in major units (e.g. NGN), like payments.amount.
+
+-- Step 1: Last number issued in each year
+CREATE TABLE IF NOT EXISTS receipt_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- Step 2: Receipts
+CREATE TABLE IF NOT EXISTS receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  receipt_number TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  dietitian_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  bill_to_name TEXT,
+  bill_to_email TEXT,
+  -- Name, role, email, license number and location as they were when the receipt was issued
+  practitioner JSONB NOT NULL DEFAULT '{}',
+  -- [{ description, quantity, unitPrice, amount }]
+  line_items JSONB NOT NULL DEFAULT '[]',
+  subtotal DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  wallet_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL,
+  -- Prices include VAT; a rate of 0 means the service is VAT exempt
+  vat_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  paystack_ref TEXT,
+  paid_at TIMESTAMPTZ,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (year, sequence_number)
+);
+
+-- Step 3: Number receipts as they are inserted. The counter row is locked until the insert
+-- commits, and a failed insert (e.g. a second receipt for the same payment) rolls the counter
+-- back with it, so numbers have no gaps.
+CREATE OR REPLACE FUNCTION assign_receipt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO receipt_counters (year, last_number)
+  VALUES (NEW.year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = receipt_counters.last_number + 1
+  RETURNING last_number INTO NEW.sequence_number;
+
+  NEW.receipt_number := 'DY-' || NEW.year || '-' || LPAD(NEW.sequence_number::TEXT, 6, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_receipt_number ON receipts;
+CREATE TRIGGER assign_receipt_number
+  BEFORE INSERT ON receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_receipt_number();
+
+-- Step 4: Indexes
+CREATE INDEX IF NOT EXISTS idx_receipts_user_id ON receipts(user_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_receipts_booking_id ON receipts(booking_id);
+
+-- Only reachable through the service role (payment confirmation and receipt APIs)
+ALTER TABLE receipt_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE receipts ENABLE ROW LEVEL SECURITY;
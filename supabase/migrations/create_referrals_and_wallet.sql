@@ -0,0 +1,50 @@
+-- Migration: Referral programme and wallet
+-- Every client gets a referral code (shared as /ref/<code>). Signups that arrive through a
+-- referral link are attributed to the referrer, who is credited to their wallet once the
+-- referred client completes their first paid booking. Wallet balance can be spent at checkout.
+-- Amounts are in major units (e.g. NGN), like payments.amount.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS referral_code TEXT UNIQUE,
+ADD COLUMN IF NOT EXISTS referred_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  referred_user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'REWARDED')),
+  reward_amount DECIMAL(10, 2),
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  -- The paid booking that earned the reward
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  rewarded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT referrals_not_self CHECK (referrer_id <> referred_user_id)
+);
+
+-- Credits are positive, spending is negative; the balance is the sum
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount <> 0),
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  type TEXT NOT NULL CHECK (type IN ('REFERRAL_REWARD', 'CHECKOUT')),
+  description TEXT,
+  -- At most one reward per referral and one charge per payment
+  referral_id UUID UNIQUE REFERENCES referrals(id) ON DELETE SET NULL,
+  payment_id UUID UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Client who paid, and the wallet balance they spent on it (taken off what Paystack charges)
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS wallet_amount DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id ON referrals(referrer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_user_id ON wallet_transactions(user_id, created_at DESC);
+
+-- Only reachable through the service role (client and checkout APIs)
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,129 @@
+-- Migration: Session bundles and prepaid session credits
+-- Practitioners offer bundles of an event type (e.g. 4 monitoring sessions) at a discounted
+-- price. Buying a bundle through Paystack gives the client credits with that practitioner,
+-- which are spent one per booking instead of paying for each session. Credits expire
+-- validity_days after purchase. Amounts are in major units (e.g. NGN), like event_types.price.
+
+-- Step 1: Bundles offered on an event type
+CREATE TABLE IF NOT EXISTS session_bundles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type_id UUID NOT NULL REFERENCES event_types(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  session_count INTEGER NOT NULL CHECK (session_count BETWEEN 2 AND 50),
+  price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+  currency TEXT NOT NULL DEFAULT 'NGN',
+  validity_days INTEGER NOT NULL DEFAULT 90 CHECK (validity_days > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Credits a client bought, one row per bundle purchase
+CREATE TABLE IF NOT EXISTS session_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id UUID REFERENCES session_bundles(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  dietitian_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type_id UUID NOT NULL REFERENCES event_types(id) ON DELETE CASCADE,
+  sessions_total INTEGER NOT NULL CHECK (sessions_total > 0),
+  sessions_used INTEGER NOT NULL DEFAULT 0,
+  -- PENDING until the bundle's payment is confirmed
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'ACTIVE')),
+  payment_id UUID UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+  purchased_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT session_credits_used_within_total CHECK (sessions_used BETWEEN 0 AND sessions_total)
+);
+
+COMMENT ON COLUMN session_credits.sessions_used IS
+'Credits spent on bookings. A credit booking cancelled with a full refund gives its credit back.';
+
+-- Step 3: Bookings paid for with a credit instead of a payment
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS session_credit_id UUID REFERENCES session_credits(id) ON DELETE SET NULL;
+
+-- Step 4: Spend a credit on a booking and confirm it, atomically. Confirming can still fail
+-- on bookings_no_overlapping_confirmed (slot taken), in which case no credit is spent.
+CREATE OR REPLACE FUNCTION redeem_session_credit(
+  p_credit_id UUID,
+  p_booking_id UUID
+)
+RETURNS SETOF bookings AS $$
+DECLARE
+  credit_row session_credits%ROWTYPE;
+  booking_row bookings%ROWTYPE;
+BEGIN
+  -- Lock the credits so concurrent bookings can't overspend them
+  SELECT * INTO credit_row
+  FROM session_credits
+  WHERE id = p_credit_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR credit_row.status <> 'ACTIVE' THEN
+    RAISE EXCEPTION 'Session credits not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF credit_row.expires_at IS NOT NULL AND credit_row.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Session credits have expired' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF credit_row.sessions_used >= credit_row.sessions_total THEN
+    RAISE EXCEPTION 'No session credits left' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO booking_row
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF booking_row.status <> 'PENDING'
+    OR booking_row.user_id <> credit_row.user_id
+    OR booking_row.dietitian_id <> credit_row.dietitian_id
+    OR booking_row.event_type_id <> credit_row.event_type_id THEN
+    RAISE EXCEPTION 'Session credits can''t be used for this booking' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'CONFIRMED',
+      hold_expires_at = NULL,
+      session_credit_id = p_credit_id,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO booking_row;
+
+  UPDATE session_credits
+  SET sessions_used = sessions_used + 1
+  WHERE id = p_credit_id;
+
+  RETURN NEXT booking_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Indexes
+CREATE INDEX IF NOT EXISTS idx_session_bundles_event_type_id ON session_bundles(event_type_id);
+CREATE INDEX IF NOT EXISTS idx_session_credits_user_id ON session_credits(user_id, dietitian_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_session_credit_id ON bookings(session_credit_id);
+
+-- Step 6: updated_at triggers
+DROP TRIGGER IF EXISTS update_session_bundles_updated_at ON session_bundles;
+CREATE TRIGGER update_session_bundles_updated_at
+  BEFORE UPDATE ON session_bundles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_session_credits_updated_at ON session_credits;
+CREATE TRIGGER update_session_credits_updated_at
+  BEFORE UPDATE ON session_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only reachable through the service role (event type, checkout and booking APIs)
+ALTER TABLE session_bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_credits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,233 @@
+-- Migration: Slot holds and double-booking protection
+-- This migration:
+-- 1. Adds a short-lived hold to PENDING bookings so abandoned checkouts stop blocking the slot
+-- 2. Adds expire_slot_holds(), run by the background worker, to cancel PENDING bookings whose hold ran out
+-- 3. Adds restore_booking_jobs() to re-create reminders when a late payment revives an expired booking
+-- 4. Adds an exclusion constraint so a dietitian can never have overlapping CONFIRMED bookings
+-- 5. Replaces reschedule_booking() (add_booking_reschedule.sql) so expired holds don't block a reschedule
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Step 1: Hold expiry on bookings
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN bookings.hold_expires_at IS
+'While PENDING, the slot is reserved for the client until this time. Cleared when the booking is confirmed.';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_hold_expires_at
+  ON bookings(hold_expires_at)
+  WHERE status = 'PENDING';
+
+-- Step 2: Expire holds
+CREATE OR REPLACE FUNCTION expire_slot_holds()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE bookings
+    SET status = 'CANCELLED',
+        cancelled_at = NOW(),
+        cancellation_reason = 'Checkout was not completed in time',
+        updated_at = NOW()
+    WHERE status = 'PENDING'
+      AND hold_expires_at < NOW()
+      AND NOT EXISTS (
+        SELECT 1 FROM payments
+        WHERE payments.booking_id = bookings.id
+          AND payments.status = 'SUCCESS'
+      )
+    RETURNING id
+  ),
+  removed_jobs AS (
+    DELETE FROM scheduled_jobs
+    WHERE status = 'pending'
+      AND payload->>'booking_id' IN (SELECT id::TEXT FROM expired)
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO expired_count FROM expired;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 3: Re-create reminder/feedback jobs for a booking (same schedule as schedule_booking_jobs)
+CREATE OR REPLACE FUNCTION restore_booking_jobs(p_booking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  booking_row bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO booking_row FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM scheduled_jobs
+  WHERE status = 'pending'
+    AND type IN ('meeting_reminder', 'post_session_feedback')
+    AND payload->>'booking_id' = p_booking_id::TEXT;
+
+  IF booking_row.start_time - INTERVAL '24 hours' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      booking_row.start_time - INTERVAL '24 hours',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 1440
+      )
+    );
+  END IF;
+
+  IF booking_row.start_time - INTERVAL '1 hour' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      booking_row.start_time - INTERVAL '1 hour',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 60
+      )
+    );
+  END IF;
+
+  INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+  VALUES (
+    'post_session_feedback',
+    booking_row.end_time + INTERVAL '1 hour',
+    jsonb_build_object(
+      'booking_id', booking_row.id,
+      'user_id', booking_row.user_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: No overlapping confirmed bookings per dietitian
+-- Existing overlaps must be resolved before this constraint can be added:
+--   SELECT a.id, b.id FROM bookings a JOIN bookings b
+--     ON a.dietitian_id = b.dietitian_id AND a.id < b.id
+--    AND a.status = 'CONFIRMED' AND b.status = 'CONFIRMED'
+--    AND tstzrange(a.start_time, a.end_time) && tstzrange(b.start_time, b.end_time);
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlapping_confirmed;
+ALTER TABLE bookings
+ADD CONSTRAINT bookings_no_overlapping_confirmed
+  EXCLUDE USING gist (
+    dietitian_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&
+  )
+  WHERE (status = 'CONFIRMED');
+
+-- Step 5: Reschedule bookings into slots whose checkout hold has expired
+-- Same as in add_booking_reschedule.sql, apart from the hold check in the overlap test
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id UUID,
+  p_expected_start TIMESTAMPTZ,
+  p_new_start TIMESTAMPTZ,
+  p_new_end TIMESTAMPTZ,
+  p_session_request_id UUID DEFAULT NULL
+)
+RETURNS SETOF bookings AS $$
+DECLARE
+  booking_row bookings%ROWTYPE;
+BEGIN
+  -- Lock the booking so concurrent reschedules/cancellations serialise
+  SELECT * INTO booking_row
+  FROM bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF booking_row.status NOT IN ('PENDING', 'CONFIRMED') THEN
+    RAISE EXCEPTION 'Booking is %', lower(booking_row.status::TEXT) USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The booking moved since the caller validated the new slot
+  IF booking_row.start_time <> p_expected_start THEN
+    RAISE EXCEPTION 'Booking was changed by another request' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE dietitian_id = booking_row.dietitian_id
+      AND id <> p_booking_id
+      AND status IN ('PENDING', 'CONFIRMED')
+      -- Expired checkout holds no longer occupy the slot (see isSlotBlocking in lib/bookings/holds.ts)
+      AND (status <> 'PENDING' OR hold_expires_at IS NULL OR hold_expires_at > NOW())
+      AND start_time < p_new_end
+      AND end_time > p_new_start
+  ) THEN
+    RAISE EXCEPTION 'Time slot not available' USING ERRCODE = '23P01';
+  END IF;
+
+  UPDATE bookings
+  SET start_time = p_new_start,
+      end_time = p_new_end,
+      rescheduled_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO booking_row;
+
+  IF p_session_request_id IS NOT NULL THEN
+    UPDATE session_requests
+    SET status = 'APPROVED',
+        updated_at = NOW()
+    WHERE id = p_session_request_id;
+  END IF;
+
+  -- Replace jobs that have not run yet with ones for the new time
+  DELETE FROM scheduled_jobs
+  WHERE status = 'pending'
+    AND type IN ('meeting_reminder', 'post_session_feedback')
+    AND payload->>'booking_id' = p_booking_id::TEXT;
+
+  IF p_new_start - INTERVAL '24 hours' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      p_new_start - INTERVAL '24 hours',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 1440
+      )
+    );
+  END IF;
+
+  IF p_new_start - INTERVAL '1 hour' > NOW() THEN
+    INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+    VALUES (
+      'meeting_reminder',
+      p_new_start - INTERVAL '1 hour',
+      jsonb_build_object(
+        'booking_id', booking_row.id,
+        'user_id', booking_row.user_id,
+        'dietitian_id', booking_row.dietitian_id,
+        'reminder_minutes', 60
+      )
+    );
+  END IF;
+
+  INSERT INTO scheduled_jobs (type, scheduled_for, payload)
+  VALUES (
+    'post_session_feedback',
+    p_new_end + INTERVAL '1 hour',
+    jsonb_build_object(
+      'booking_id', booking_row.id,
+      'user_id', booking_row.user_id
+    )
+  );
+
+  RETURN NEXT booking_row;
+END;
+$$ LANGUAGE plpgsql;